@@ -9,6 +9,7 @@ const config: ForgeConfig = {
     asar: true,
     name: 'LOGOS',
     executableName: 'logos',
+    extraResource: ['./data'],
   },
   rebuildConfig: {},
   makers: [
@@ -0,0 +1,61 @@
+/**
+ * LOGOS Pre-Migration Backup Script
+ *
+ * Snapshots the development database before schema changes.
+ * Runs automatically before npm run db:migrate and npm run db:push.
+ * Snapshots go to prisma/backups (override with LOGOS_BACKUP_DIR).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  createDatabaseBackup,
+  resolveDatabasePath,
+} from '../src/main/services/database-backup.service';
+
+const SCHEMA_DIR = __dirname;
+
+/**
+ * DATABASE_URL from the environment or the .env file Prisma reads.
+ */
+function readDatabaseUrl(): string | null {
+  if (process.env.DATABASE_URL) {
+    return process.env.DATABASE_URL;
+  }
+  for (const envFile of [path.join(SCHEMA_DIR, '..', '.env'), path.join(SCHEMA_DIR, '.env')]) {
+    if (!fs.existsSync(envFile)) {
+      continue;
+    }
+    const match = fs.readFileSync(envFile, 'utf-8').match(/^DATABASE_URL\s*=\s*"?([^"\r\n]+)"?/m);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+async function main() {
+  const url = readDatabaseUrl();
+  if (!url?.startsWith('file:')) {
+    console.log('[Backup] No SQLite DATABASE_URL, skipping');
+    return;
+  }
+
+  const dbPath = resolveDatabasePath(url, SCHEMA_DIR);
+  if (!fs.existsSync(dbPath)) {
+    console.log(`[Backup] ${dbPath} does not exist yet, skipping`);
+    return;
+  }
+
+  const backup = await createDatabaseBackup({
+    dbPath,
+    backupDir: process.env.LOGOS_BACKUP_DIR ?? path.join(SCHEMA_DIR, 'backups'),
+    reason: 'pre-migration',
+  });
+  console.log(`[Backup] Saved ${backup.path}`);
+}
+
+main().catch((e) => {
+  console.error('Pre-migration backup failed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "fsrsCalibration" TEXT;
+ALTER TABLE "User" ADD COLUMN "fsrsOptimizedAt" DATETIME;
+ALTER TABLE "User" ADD COLUMN "fsrsWeights" TEXT;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "MilestoneEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "milestoneId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "priority" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "celebrationMessage" TEXT,
+    "iconId" TEXT,
+    "pointsAwarded" INTEGER NOT NULL DEFAULT 0,
+    "data" TEXT,
+    "acknowledged" BOOLEAN NOT NULL DEFAULT false,
+    "userId" TEXT NOT NULL,
+    "goalId" TEXT,
+    "sessionId" TEXT,
+    CONSTRAINT "MilestoneEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "MilestoneEvent_userId_createdAt_idx" ON "MilestoneEvent"("userId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "MilestoneEvent_userId_milestoneId_idx" ON "MilestoneEvent"("userId", "milestoneId");
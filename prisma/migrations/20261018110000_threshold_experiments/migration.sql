@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "StageTransition" ADD COLUMN "thresholdConfigId" TEXT;
+ALTER TABLE "StageTransition" ADD COLUMN "experimentId" TEXT;
+ALTER TABLE "StageTransition" ADD COLUMN "experimentGroupId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ThresholdExperiment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "primaryMetric" TEXT NOT NULL,
+    "groups" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endDate" DATETIME,
+    "isActive" BOOLEAN NOT NULL DEFAULT true
+);
+
+-- CreateTable
+CREATE TABLE "ExperimentAssignment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "assignedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "groupId" TEXT NOT NULL,
+    "configId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    CONSTRAINT "ExperimentAssignment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ExperimentAssignment_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "ThresholdExperiment" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "StageTransition_experimentId_experimentGroupId_idx" ON "StageTransition"("experimentId", "experimentGroupId");
+
+-- CreateIndex
+CREATE INDEX "ThresholdExperiment_isActive_idx" ON "ThresholdExperiment"("isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExperimentAssignment_userId_experimentId_key" ON "ExperimentAssignment"("userId", "experimentId");
+
+-- CreateIndex
+CREATE INDEX "ExperimentAssignment_experimentId_groupId_idx" ON "ExperimentAssignment"("experimentId", "groupId");
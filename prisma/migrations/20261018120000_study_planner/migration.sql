@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ParetoSolution" ADD COLUMN "preference" TEXT NOT NULL DEFAULT 'balanced';
+ALTER TABLE "ParetoSolution" ADD COLUMN "selected" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Response" ADD COLUMN "taskId" TEXT;
+ALTER TABLE "Response" ADD COLUMN "credit" REAL;
+ALTER TABLE "Response" ADD COLUMN "matchType" TEXT;
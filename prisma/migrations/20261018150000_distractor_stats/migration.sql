@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Response" ADD COLUMN "distractorId" TEXT;
+ALTER TABLE "Response" ADD COLUMN "distractorStrategy" TEXT;
+
+-- CreateTable
+CREATE TABLE "DistractorStat" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "content" TEXT NOT NULL,
+    "strategy" TEXT NOT NULL,
+    "plausibility" REAL NOT NULL,
+    "explanation" TEXT NOT NULL DEFAULT '',
+    "timesShown" INTEGER NOT NULL DEFAULT 0,
+    "timesPicked" INTEGER NOT NULL DEFAULT 0,
+    "retired" BOOLEAN NOT NULL DEFAULT false,
+    "retiredAt" DATETIME,
+    "objectId" TEXT NOT NULL,
+    CONSTRAINT "DistractorStat_objectId_fkey" FOREIGN KEY ("objectId") REFERENCES "LanguageObject" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DistractorStat_objectId_retired_idx" ON "DistractorStat"("objectId", "retired");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DistractorStat_objectId_content_key" ON "DistractorStat"("objectId", "content");
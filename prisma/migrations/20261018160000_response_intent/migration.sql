@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Response" ADD COLUMN "intent" TEXT;
+ALTER TABLE "Response" ADD COLUMN "predictedSuccess" REAL;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "LanguageObject" ADD COLUMN "suspended" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "LanguageObject" ADD COLUMN "buriedUntil" DATETIME;
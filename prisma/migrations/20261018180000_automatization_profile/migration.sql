@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "MasteryState" ADD COLUMN "automatizationLevel" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "MasteryState" ADD COLUMN "automatizationCategory" TEXT NOT NULL DEFAULT 'declarative';
+ALTER TABLE "MasteryState" ADD COLUMN "meanResponseTimeMs" REAL;
+ALTER TABLE "MasteryState" ADD COLUMN "responseTimeCv" REAL;
+ALTER TABLE "MasteryState" ADD COLUMN "automatizationUpdatedAt" DATETIME;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "UserObjectRelationship" ADD COLUMN "interpretationEncounters" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "UserObjectRelationship" ADD COLUMN "productionEncounters" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "UserObjectRelationship" ADD COLUMN "visualEncounters" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "UserObjectRelationship" ADD COLUMN "auditoryEncounters" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "UserObjectRelationship" ADD COLUMN "mixedEncounters" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "UserObjectRelationship" ADD COLUMN "interpretationSuccessRate" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "UserObjectRelationship" ADD COLUMN "productionSuccessRate" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "UserObjectRelationship" ADD COLUMN "interpretationRatio" REAL NOT NULL DEFAULT 0.5;
+ALTER TABLE "UserObjectRelationship" ADD COLUMN "modalityBalance" REAL NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ObjectEncounter" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "responseId" TEXT,
+    "taskCategory" TEXT NOT NULL,
+    "taskType" TEXT NOT NULL,
+    "taskFormat" TEXT NOT NULL,
+    "modality" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "userTheta" REAL NOT NULL DEFAULT 0,
+    "itemDifficulty" REAL NOT NULL DEFAULT 0,
+    "successful" BOOLEAN NOT NULL,
+    "responseTimeMs" INTEGER NOT NULL,
+    "cueLevel" INTEGER NOT NULL DEFAULT 0,
+    "objectId" TEXT NOT NULL,
+    CONSTRAINT "ObjectEncounter_objectId_fkey" FOREIGN KEY ("objectId") REFERENCES "LanguageObject" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ObjectEncounter_responseId_key" ON "ObjectEncounter"("responseId");
+
+-- CreateIndex
+CREATE INDEX "ObjectEncounter_userId_objectId_createdAt_idx" ON "ObjectEncounter"("userId", "objectId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ObjectEncounter_objectId_createdAt_idx" ON "ObjectEncounter"("objectId", "createdAt");
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "GoalSpec" ADD COLUMN "propagationEnabled" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "PropagationLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "goalId" TEXT NOT NULL,
+    "responseId" TEXT,
+    "relationType" TEXT NOT NULL,
+    "depth" INTEGER NOT NULL DEFAULT 1,
+    "magnitude" REAL NOT NULL,
+    "reason" TEXT NOT NULL,
+    "difficultyBefore" REAL NOT NULL,
+    "difficultyDelta" REAL NOT NULL DEFAULT 0,
+    "stabilityBefore" REAL,
+    "stabilityDelta" REAL NOT NULL DEFAULT 0,
+    "sourceObjectId" TEXT NOT NULL,
+    "targetObjectId" TEXT NOT NULL,
+    CONSTRAINT "PropagationLog_sourceObjectId_fkey" FOREIGN KEY ("sourceObjectId") REFERENCES "LanguageObject" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PropagationLog_targetObjectId_fkey" FOREIGN KEY ("targetObjectId") REFERENCES "LanguageObject" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PropagationLog_goalId_createdAt_idx" ON "PropagationLog"("goalId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PropagationLog_targetObjectId_idx" ON "PropagationLog"("targetObjectId");
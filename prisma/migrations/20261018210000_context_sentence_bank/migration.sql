@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "SourceDocument" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "goalId" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "quality" TEXT NOT NULL,
+    "characters" INTEGER NOT NULL,
+    CONSTRAINT "SourceDocument_goalId_fkey" FOREIGN KEY ("goalId") REFERENCES "GoalSpec" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ContextSentence" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "documentId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "start" INTEGER NOT NULL,
+    "end" INTEGER NOT NULL,
+    "page" INTEGER,
+    "startMs" INTEGER,
+    "endMs" INTEGER,
+    "wordCount" INTEGER NOT NULL,
+    "complexity" REAL NOT NULL,
+    "cefrLevel" TEXT NOT NULL,
+    "difficulty" REAL NOT NULL,
+    CONSTRAINT "ContextSentence_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "SourceDocument" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ContextSentenceObject" (
+    "sentenceId" TEXT NOT NULL,
+    "objectId" TEXT NOT NULL,
+    "matchStart" INTEGER NOT NULL,
+    "matchEnd" INTEGER NOT NULL,
+    "servedCount" INTEGER NOT NULL DEFAULT 0,
+    "lastServedAt" DATETIME,
+
+    PRIMARY KEY ("sentenceId", "objectId"),
+    CONSTRAINT "ContextSentenceObject_sentenceId_fkey" FOREIGN KEY ("sentenceId") REFERENCES "ContextSentence" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ContextSentenceObject_objectId_fkey" FOREIGN KEY ("objectId") REFERENCES "LanguageObject" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SourceDocument_goalId_filename_key" ON "SourceDocument"("goalId", "filename");
+
+-- CreateIndex
+CREATE INDEX "ContextSentence_documentId_idx" ON "ContextSentence"("documentId");
+
+-- CreateIndex
+CREATE INDEX "ContextSentenceObject_objectId_idx" ON "ContextSentenceObject"("objectId");
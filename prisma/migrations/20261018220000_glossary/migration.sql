@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "GlossarySense" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "objectId" TEXT NOT NULL,
+    "senseIndex" INTEGER NOT NULL DEFAULT 0,
+    "partOfSpeech" TEXT,
+    "definition" TEXT,
+    "translation" TEXT,
+    "l1" TEXT,
+    "examples" TEXT NOT NULL DEFAULT '[]',
+    "source" TEXT NOT NULL,
+    CONSTRAINT "GlossarySense_objectId_fkey" FOREIGN KEY ("objectId") REFERENCES "LanguageObject" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "GlossarySense_objectId_senseIndex_idx" ON "GlossarySense"("objectId", "senseIndex");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "IssuedTask" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sessionId" TEXT NOT NULL,
+    "objectId" TEXT NOT NULL,
+    "taskContent" TEXT NOT NULL,
+    "answeredAt" DATETIME,
+    "responseId" TEXT,
+    CONSTRAINT "IssuedTask_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IssuedTask_responseId_key" ON "IssuedTask"("responseId");
+
+-- CreateIndex
+CREATE INDEX "IssuedTask_sessionId_idx" ON "IssuedTask"("sessionId");
@@ -0,0 +1,118 @@
+/**
+ * Answer Grading Unit Tests
+ *
+ * Tests for grading typed and selected answers: diacritic-insensitive
+ * matching, length-scaled typo tolerance, inflection equivalence,
+ * accepted alternatives and word-by-word partial credit.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeAnswer,
+  stripDiacritics,
+  damerauLevenshtein,
+  typoAllowance,
+  isSameLemma,
+  gradeAnswer,
+} from '../answer-grading';
+
+describe('normalization', () => {
+  it('ignores case, spacing, curly quotes and surrounding punctuation', () => {
+    expect(normalizeAnswer('  Don’t   Stop! ')).toBe("don't stop");
+  });
+
+  it('strips diacritics from composed and decomposed input', () => {
+    expect(stripDiacritics('Café')).toBe('cafe');
+    expect(stripDiacritics('niño')).toBe('nino');
+  });
+});
+
+describe('damerauLevenshtein', () => {
+  it('counts a transposition as one edit', () => {
+    expect(damerauLevenshtein('recieve', 'receive')).toBe(1);
+    expect(damerauLevenshtein('kitten', 'sitting')).toBe(3);
+    expect(damerauLevenshtein('', 'abc')).toBe(3);
+  });
+
+  it('scales the typo allowance with word length', () => {
+    expect(typoAllowance(4)).toBe(0);
+    expect(typoAllowance(6)).toBe(1);
+    expect(typoAllowance(12)).toBe(2);
+    expect(typoAllowance(40)).toBe(2);
+  });
+});
+
+describe('isSameLemma', () => {
+  it('matches regular and irregular inflections', () => {
+    expect(isSameLemma('running', 'run')).toBe(true);
+    expect(isSameLemma('makes', 'make')).toBe(true);
+    expect(isSameLemma('went', 'go')).toBe(false); // too short to trust
+    expect(isSameLemma('children', 'child')).toBe(true);
+  });
+
+  it('rejects unrelated words', () => {
+    expect(isSameLemma('bed', 'bad')).toBe(false);
+    expect(isSameLemma('walked', 'talked')).toBe(false);
+  });
+});
+
+describe('gradeAnswer', () => {
+  it('gives full credit for an exact answer regardless of case', () => {
+    const verdict = gradeAnswer('Receive', { expected: 'receive' });
+
+    expect(verdict).toMatchObject({ correct: true, credit: 1, matchType: 'exact' });
+  });
+
+  it('accepts a missing accent with slightly reduced credit', () => {
+    const verdict = gradeAnswer('cafe', { expected: 'café' });
+
+    expect(verdict).toMatchObject({ correct: true, credit: 0.9, matchType: 'diacritics' });
+  });
+
+  it('tolerates typos in proportion to word length', () => {
+    expect(gradeAnswer('recieve', { expected: 'receive' })).toMatchObject({
+      correct: true,
+      matchType: 'typo',
+      editDistance: 1,
+      credit: 0.9,
+    });
+    expect(gradeAnswer('cat', { expected: 'car' }).correct).toBe(false);
+  });
+
+  it('gives partial credit for the right word in another form', () => {
+    const verdict = gradeAnswer('studied', { expected: 'studying' });
+
+    expect(verdict).toMatchObject({ correct: true, credit: 0.7, matchType: 'inflection' });
+  });
+
+  it('accepts alternative answers', () => {
+    const verdict = gradeAnswer('colour', { expected: 'color', alternatives: ['colour'] });
+
+    expect(verdict).toMatchObject({ correct: true, credit: 1, matchType: 'alternative', matchedAnswer: 'colour' });
+  });
+
+  it('credits multi-word answers word by word', () => {
+    const verdict = gradeAnswer('take the decision', { expected: 'make a decision' });
+
+    expect(verdict.matchType).toBe('partial');
+    expect(verdict.credit).toBeCloseTo(0.33, 2);
+    expect(verdict.correct).toBe(false);
+  });
+
+  it('only matches picked options exactly', () => {
+    const key = { expected: 'receive', options: ['receive', 'deceive', 'believe'] };
+
+    expect(gradeAnswer('receive', key).correct).toBe(true);
+    expect(gradeAnswer('recieve', key)).toMatchObject({ correct: false, matchType: 'incorrect' });
+  });
+
+  it('reports blank and wrong answers', () => {
+    expect(gradeAnswer('  ', { expected: 'house' })).toMatchObject({ correct: false, matchType: 'blank' });
+    expect(gradeAnswer('garden', { expected: 'house' })).toMatchObject({
+      correct: false,
+      credit: 0,
+      matchType: 'incorrect',
+      matchedAnswer: 'house',
+    });
+  });
+});
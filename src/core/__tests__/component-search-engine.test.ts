@@ -0,0 +1,60 @@
+/**
+ * Component Search Engine Unit Tests
+ *
+ * Tests for prefix content queries and the due-date and difficulty
+ * filters used by the Word Explorer.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createComponentObjectState } from '../state/component-object-state';
+import { createSearchEngineWithData } from '../state/component-search-engine';
+import type { MasteryStage } from '../types';
+
+function state(
+  id: string,
+  content: string,
+  options: { stage?: MasteryStage; due?: Date; difficulty?: number } = {}
+) {
+  const s = createComponentObjectState(id, 'vocabulary', content);
+  s.masteryState.stage = options.stage ?? 0;
+  s.masteryState.nextReviewDate = options.due ?? new Date('2026-01-01');
+  s.irtMetrics.difficultyCalibration = options.difficulty ?? 0;
+  return s;
+}
+
+const engine = createSearchEngineWithData([
+  state('a', 'take off', { stage: 1, due: new Date('2026-01-01'), difficulty: -2 }),
+  state('b', 'takeover', { stage: 2, due: new Date('2026-02-01'), difficulty: 0 }),
+  state('c', 'mistake', { stage: 3, due: new Date('2026-03-01'), difficulty: 1.5 }),
+]);
+
+describe('ComponentSearchEngine.search', () => {
+  it('matches query tokens against word prefixes', () => {
+    const ids = engine.search({ query: 'tak' }, 'alphabetical').items.map(s => s.objectId);
+
+    expect(ids).toEqual(['a', 'b']);
+  });
+
+  it('ignores queries without searchable tokens', () => {
+    expect(engine.search({ query: 't' }).totalCount).toBe(3);
+  });
+
+  it('keeps items due on or before a date', () => {
+    const ids = engine.search({ dueBefore: new Date('2026-02-01') }, 'alphabetical').items
+      .map(s => s.objectId);
+
+    expect(ids).toEqual(['a', 'b']);
+  });
+
+  it('filters a half-open difficulty range', () => {
+    expect(engine.search({ difficultyRange: [-1, 1] }).items.map(s => s.objectId)).toEqual(['b']);
+    expect(engine.search({ difficultyRange: [1.5, Infinity] }).items.map(s => s.objectId)).toEqual(['c']);
+  });
+
+  it('combines filters with sorting and pagination', () => {
+    const result = engine.search({ query: 'tak', masteryStages: [1, 2] }, 'mastery', 1, 0);
+
+    expect(result.totalCount).toBe(2);
+    expect(result.items.map(s => s.objectId)).toEqual(['b']);
+  });
+});
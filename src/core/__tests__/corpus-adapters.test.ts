@@ -0,0 +1,338 @@
+// @vitest-environment node
+/**
+ * Tests for Corpus Source Adapters
+ *
+ * Runs the dynamic corpus API sources against a local fixture server:
+ * - Wikipedia extracts, Wiktionary definitions and a REST JSON corpus
+ * - Per-source rate limiting
+ * - Persisting responses and the query log through a CorpusStore
+ * - Offline behavior without a transport
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  CORPUS_SOURCES,
+  queryCorpus,
+  clearCorpusCache,
+  configureDynamicCorpus,
+  registerCorpusSource,
+  type CorpusSource,
+  type CorpusStore,
+  type CorpusQueryLog,
+  type StoredCorpusResult,
+} from '../dynamic-corpus';
+import { buildRestJsonUrl } from '../corpus-adapters';
+
+// ============================================================================
+// Fixture Server
+// ============================================================================
+
+interface RecordedRequest {
+  path: string;
+  params: URLSearchParams;
+  at: number;
+}
+
+const requests: RecordedRequest[] = [];
+let failWith: number | null = null;
+
+const EXTRACTS: Record<string, string> = {
+  '11': 'Triage is the process of sorting patients. Nurses triage patients by urgency.',
+  '12': 'Sepsis is a serious infection. Each patient with sepsis needs urgent care.',
+};
+
+function respond(url: URL): { status: number; body: unknown } {
+  if (url.pathname === '/w/api.php') {
+    const params = url.searchParams;
+    if (params.get('list') === 'search') {
+      return { status: 200, body: { query: { search: [{ pageid: 11 }, { pageid: 12 }] } } };
+    }
+    if (params.get('prop') === 'extracts') {
+      const pages = Object.fromEntries(
+        (params.get('pageids') ?? '').split('|').map((id) => [id, { extract: EXTRACTS[id] }])
+      );
+      return { status: 200, body: { query: { pages } } };
+    }
+    if (params.get('list') === 'categorymembers') {
+      return {
+        status: 200,
+        body: { query: { categorymembers: [{ title: 'Triage' }, { title: 'Zzyzx' }] } },
+      };
+    }
+  }
+  if (url.pathname === '/api/rest_v1/page/definition/Triage') {
+    return {
+      status: 200,
+      body: {
+        en: [
+          {
+            partOfSpeech: 'Noun',
+            language: 'English',
+            definitions: [
+              {
+                definition: 'The <a href="/wiki/sorting">sorting</a> of patients by urgency.',
+                examples: ['<b>Triage</b> nurses assess new arrivals.'],
+              },
+            ],
+          },
+        ],
+      },
+    };
+  }
+  if (url.pathname === '/rest/words') {
+    return {
+      status: 200,
+      body: {
+        data: {
+          items: [
+            { word: 'Sepsis', freq: 120, pos: 'NOUN', example: 'Sepsis can be fatal.' },
+            { word: 'catheter', freq: 60, pos: 'NOUN' },
+            { freq: 10 },
+          ],
+        },
+      },
+    };
+  }
+  return { status: 404, body: { error: 'not found' } };
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? '/', 'http://fixture');
+  requests.push({ path: url.pathname, params: url.searchParams, at: Date.now() });
+  const { status, body } = failWith ? { status: failWith, body: {} } : respond(url);
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+});
+
+let baseUrl = '';
+const originalSources = CORPUS_SOURCES.map((s) => ({ ...s }));
+
+/**
+ * Points the built-in API sources at the fixture server and enables only
+ * the given ones.
+ */
+function enableOnly(ids: string[], rateLimit = 6000): void {
+  for (const source of originalSources.filter((s) => s.type === 'api')) {
+    registerCorpusSource({
+      ...source,
+      baseUrl: source.adapter === 'wikipedia' ? `${baseUrl}/w/api.php` : baseUrl,
+      rateLimit,
+      isAvailable: ids.includes(source.id),
+    });
+  }
+}
+
+// ============================================================================
+// In-memory Store
+// ============================================================================
+
+function memoryStore() {
+  const cache = new Map<string, StoredCorpusResult>();
+  const log: Array<CorpusQueryLog & { sourceId: string }> = [];
+  const store: CorpusStore = {
+    getCached: (_source, key, now) => {
+      const entry = cache.get(key);
+      return Promise.resolve(entry && entry.expiresAt > now ? entry : null);
+    },
+    putCached: (_source, key, _query, result) => {
+      cache.set(key, result);
+      return Promise.resolve();
+    },
+    recordQuery: (source, _query, entry) => {
+      log.push({ sourceId: source.id, ...entry });
+      return Promise.resolve();
+    },
+  };
+  return { cache, log, store };
+}
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  failWith = null;
+  clearCorpusCache();
+});
+
+afterEach(() => {
+  configureDynamicCorpus(null);
+  CORPUS_SOURCES.splice(0, CORPUS_SOURCES.length, ...originalSources.map((s) => ({ ...s })));
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('wikipedia adapter', () => {
+  it('counts lemmas across article extracts', async () => {
+    enableOnly(['simple_wikipedia']);
+    configureDynamicCorpus({ fetch });
+
+    const [result] = await queryCorpus({ domain: 'medical', targetCount: 3, language: 'en' }, [
+      'simple_wikipedia',
+    ]);
+
+    expect(result.source.id).toBe('simple_wikipedia');
+    expect(result.metadata).toMatchObject({ fromCache: false, totalAvailable: 2 });
+    expect(result.items.map((i) => i.content).sort()).toEqual(['patient', 'sepsis', 'triage']);
+
+    const patient = result.items.find((i) => i.content === 'patient');
+    expect(patient).toMatchObject({ frequency: 1, rawFrequency: 3, domain: 'medical' });
+    expect(patient?.contexts).toEqual([
+      'Each patient with sepsis needs urgent care.',
+      'Triage is the process of sorting patients.',
+    ]);
+    expect(requests[0].params.get('srsearch')).toBe('medical');
+    expect(requests[1].params.get('pageids')).toBe('11|12');
+  });
+});
+
+describe('wiktionary adapter', () => {
+  it('looks up category members under the rate limit and skips missing entries', async () => {
+    enableOnly(['wiktionary'], 1200);
+    configureDynamicCorpus({ fetch });
+
+    const [result] = await queryCorpus({ domain: 'medical', targetCount: 1, language: 'en' }, [
+      'wiktionary',
+    ]);
+
+    expect(result.items).toEqual([
+      expect.objectContaining({
+        content: 'triage',
+        pos: 'noun',
+        definition: 'The sorting of patients by urgency.',
+        contexts: ['Triage nurses assess new arrivals.'],
+        sourceId: 'wiktionary',
+      }),
+    ]);
+    expect(requests.map((r) => r.path)).toEqual([
+      '/w/api.php',
+      '/api/rest_v1/page/definition/Triage',
+      '/api/rest_v1/page/definition/Zzyzx',
+    ]);
+    expect(requests[0].params.get('cmtitle')).toBe('Category:en:Medicine');
+
+    // 1200 requests per minute = one every 50 ms
+    expect(requests[2].at - requests[0].at).toBeGreaterThanOrEqual(95);
+  });
+});
+
+describe('rest-json adapter', () => {
+  const restSource: CorpusSource = {
+    id: 'fixture_rest',
+    name: 'Fixture REST Corpus',
+    type: 'api',
+    adapter: 'rest-json',
+    baseUrl: '',
+    rest: {
+      path: '/rest/words',
+      params: { topic: '{domain}', n: '{count}' },
+      itemsPath: 'data.items',
+      fields: { content: 'word', frequency: 'freq', pos: 'pos', context: 'example' },
+    },
+    domains: ['medical'],
+    languages: ['en'],
+    rateLimit: 6000,
+    isAvailable: true,
+    requiresAuth: false,
+    priority: 100,
+  };
+
+  it('maps configured fields and normalizes raw counts', async () => {
+    enableOnly([]);
+    registerCorpusSource({ ...restSource, baseUrl });
+    configureDynamicCorpus({ fetch });
+
+    const query = { domain: 'medical', targetCount: 5, language: 'en' };
+    const [result] = await queryCorpus(query);
+
+    expect(buildRestJsonUrl({ ...restSource, baseUrl }, query)).toBe(
+      `${baseUrl}/rest/words?topic=medical&n=5`
+    );
+    expect(result.source.id).toBe('fixture_rest');
+    expect(result.metadata.totalAvailable).toBe(3);
+    expect(result.items.map((i) => [i.content, i.frequency, i.rawFrequency, i.pos])).toEqual([
+      ['sepsis', 1, 120, 'noun'],
+      ['catheter', 0.5, 60, 'noun'],
+    ]);
+    expect(result.items[0].contexts).toEqual(['Sepsis can be fatal.']);
+  });
+});
+
+describe('persistence', () => {
+  it('serves stored responses and logs every query', async () => {
+    enableOnly(['simple_wikipedia']);
+    const memory = memoryStore();
+    configureDynamicCorpus({ fetch, store: memory.store });
+    const query = { domain: 'medical', targetCount: 3, language: 'en' };
+
+    await queryCorpus(query);
+    clearCorpusCache();
+    const [again] = await queryCorpus({ ...query, maxDifficulty: 1 });
+
+    expect(requests).toHaveLength(2);
+    expect(memory.cache.size).toBe(1);
+    expect(again.metadata.fromCache).toBe(true);
+    expect(again.metadata.cacheExpiry).toBeInstanceOf(Date);
+    expect(memory.log.map((l) => [l.sourceId, l.cacheHit, l.success, l.resultCount])).toEqual([
+      ['simple_wikipedia', false, true, 3],
+      ['simple_wikipedia', true, true, 3],
+    ]);
+  });
+
+  it('logs failures and falls back to embedded vocabulary', async () => {
+    enableOnly(['simple_wikipedia']);
+    const memory = memoryStore();
+    configureDynamicCorpus({ fetch, store: memory.store });
+    failWith = 503;
+
+    const [result] = await queryCorpus({ domain: 'medical', targetCount: 3, language: 'en' });
+
+    expect(result.source.type).toBe('embedded');
+    expect(memory.cache.size).toBe(0);
+    expect(memory.log).toEqual([
+      expect.objectContaining({ sourceId: 'simple_wikipedia', success: false, resultCount: 0 }),
+    ]);
+    expect(memory.log[0].error).toMatch(/HTTP 503/);
+  });
+
+  it('logs timed-out requests as failed queries', async () => {
+    enableOnly(['simple_wikipedia']);
+    const memory = memoryStore();
+    const hanging: typeof fetch = (_url, init) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(init.signal?.reason as Error));
+      });
+    configureDynamicCorpus({ fetch: hanging, store: memory.store, timeoutMs: 20 });
+
+    const [result] = await queryCorpus({ domain: 'medical', targetCount: 3, language: 'en' });
+
+    expect(result.source.type).toBe('embedded');
+    expect(memory.log).toEqual([
+      expect.objectContaining({ sourceId: 'simple_wikipedia', success: false, resultCount: 0 }),
+    ]);
+    expect(memory.log[0].error).toMatch(/timed out after 20ms/);
+  });
+
+  it('stays offline without a transport', async () => {
+    enableOnly(['simple_wikipedia', 'wiktionary']);
+
+    const [result] = await queryCorpus({ domain: 'medical', targetCount: 3, language: 'en' });
+
+    expect(result.source.type).toBe('embedded');
+    expect(requests).toHaveLength(0);
+  });
+});
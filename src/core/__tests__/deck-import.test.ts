@@ -0,0 +1,131 @@
+/**
+ * Deck Import Module Unit Tests
+ *
+ * Tests for delimited deck parsing, flashcard markup cleanup,
+ * and FSRS replay of Anki review history.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  stripDeckMarkup,
+  detectDelimiter,
+  parseDelimitedDeck,
+  ankiEaseToRating,
+  replayReviewHistory,
+} from '../deck-import';
+import type { DeckReview } from '../deck-import';
+import { FSRS } from '../fsrs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function review(day: number, ease: number, type = 1): DeckReview {
+  return { timestamp: new Date(Date.UTC(2025, 0, 1) + day * DAY_MS), ease, type };
+}
+
+describe('stripDeckMarkup', () => {
+  it('removes HTML tags and decodes entities', () => {
+    expect(stripDeckMarkup('<b>bonjour</b>&nbsp;&amp; <i>salut</i>')).toBe('bonjour & salut');
+  });
+
+  it('drops media references and line breaks', () => {
+    expect(stripDeckMarkup('chien[sound:chien.mp3]<br/>dog')).toBe('chien dog');
+  });
+
+  it('resolves cloze deletions to their answer', () => {
+    expect(stripDeckMarkup('The {{c1::patient::person}} is stable')).toBe('The patient is stable');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('prefers tabs, semicolons or commas by frequency', () => {
+    expect(detectDelimiter('a\tb\tc')).toBe('\t');
+    expect(detectDelimiter('a;b;c')).toBe(';');
+    expect(detectDelimiter('a,b')).toBe(',');
+  });
+
+  it('ignores directive lines', () => {
+    expect(detectDelimiter('#html:true\na,b')).toBe(',');
+  });
+});
+
+describe('parseDelimitedDeck', () => {
+  it('parses quoted CSV fields with embedded delimiters and quotes', () => {
+    const { cards, errors } = parseDelimitedDeck('"run, ran","to move ""fast"""\nwalk,to move');
+
+    expect(errors).toEqual([]);
+    expect(cards).toHaveLength(2);
+    expect(cards[0]).toMatchObject({ front: 'run, ran', back: 'to move "fast"' });
+    expect(cards[1].front).toBe('walk');
+  });
+
+  it('honours Anki text export directives', () => {
+    const text = '#separator:tab\n#html:true\n#tags column:3\nhund\tdog\tanimals nouns\n';
+    const { cards } = parseDelimitedDeck(text);
+
+    expect(cards).toEqual([
+      { front: 'hund', back: 'dog', tags: ['animals', 'nouns'], reviews: [] },
+    ]);
+  });
+
+  it('skips a header row and reports empty fronts', () => {
+    const { cards, errors } = parseDelimitedDeck('term,meaning\n,orphan\nkatze,cat', {
+      hasHeader: true,
+    });
+
+    expect(cards.map((c) => c.front)).toEqual(['katze']);
+    expect(errors).toEqual(['Row 2: empty front field']);
+  });
+
+  it('supports custom column mapping', () => {
+    const { cards } = parseDelimitedDeck('1;cat;gato', { frontColumn: 2, backColumn: 1 });
+
+    expect(cards[0]).toMatchObject({ front: 'gato', back: 'cat' });
+  });
+});
+
+describe('ankiEaseToRating', () => {
+  it('maps buttons 1-4 directly and rejects manual entries', () => {
+    expect(ankiEaseToRating(1)).toBe(1);
+    expect(ankiEaseToRating(4)).toBe(4);
+    expect(ankiEaseToRating(0)).toBeNull();
+  });
+});
+
+describe('replayReviewHistory', () => {
+  const fsrs = new FSRS();
+
+  it('returns a fresh state for an empty log', () => {
+    const state = replayReviewHistory([], fsrs);
+
+    expect(state.stage).toBe(0);
+    expect(state.exposureCount).toBe(0);
+    expect(state.fsrsCard.lastReview).toBeNull();
+  });
+
+  it('replays reviews in chronological order', () => {
+    const reviews = [review(10, 3), review(0, 3), review(3, 3)];
+    const state = replayReviewHistory(reviews, fsrs);
+
+    expect(state.fsrsCard.reps).toBe(3);
+    expect(state.fsrsCard.lastReview).toEqual(review(10, 3).timestamp);
+    expect(state.fsrsCard.state).toBe('review');
+  });
+
+  it('counts lapses and ignores manual reschedules', () => {
+    const reviews = [review(0, 3), review(2, 1, 1), review(3, 0, 4), review(4, 3, 2)];
+    const state = replayReviewHistory(reviews, fsrs);
+
+    expect(state.fsrsCard.reps).toBe(3);
+    expect(state.fsrsCard.lapses).toBe(1);
+    expect(state.exposureCount).toBe(3);
+  });
+
+  it('promotes long successful histories to a higher stage', () => {
+    const reviews = [0, 1, 4, 10, 25, 60, 130, 280].map((day) => review(day, 3));
+    const state = replayReviewHistory(reviews, fsrs);
+
+    expect(state.cueFreeAccuracy).toBeGreaterThan(0.9);
+    expect(state.fsrsCard.stability).toBeGreaterThan(7);
+    expect(state.stage).toBeGreaterThanOrEqual(3);
+  });
+});
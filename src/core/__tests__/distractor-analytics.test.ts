@@ -0,0 +1,105 @@
+/**
+ * Distractor Analytics Unit Tests
+ *
+ * Tests for judging MCQ distractors by pick rate, matching an answer to the
+ * distractor it chose, aggregating per strategy, and the generator inputs
+ * the MCQ path relies on (ISO L1 codes, groups keyed by object ID).
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  assessDistractor,
+  distractorPickRate,
+  findPickedDistractor,
+  summarizeDistractorStrategies,
+  DISTRACTOR_ERROR_COMPONENT,
+} from '../tasks/distractor-analytics';
+import { DistractorGenerator, type Distractor } from '../tasks/distractor-generator';
+import type { LanguageObject } from '../types';
+
+function word(id: string, content: string): LanguageObject {
+  return {
+    id,
+    type: 'LEX',
+    content,
+    fre: { frequency: 0.5, relationalDensity: 0.5, contextualContribution: 0.5 },
+    priority: 0,
+    irtDifficulty: 0,
+    irtDiscrimination: 1,
+    goalId: 'goal-1',
+  };
+}
+
+function distractor(content: string, strategy: Distractor['strategy']): Distractor {
+  return { content, strategy, plausibility: 0.5, explanation: '' };
+}
+
+describe('assessDistractor', () => {
+  it('waits for enough exposures', () => {
+    expect(assessDistractor({ timesShown: 19, timesPicked: 0 })).toBe('insufficient_data');
+  });
+
+  it('retires distractors nobody picks and flags attractive ones', () => {
+    expect(assessDistractor({ timesShown: 40, timesPicked: 1 })).toBe('retire');
+    expect(assessDistractor({ timesShown: 40, timesPicked: 4 })).toBe('keep');
+    expect(assessDistractor({ timesShown: 40, timesPicked: 10 })).toBe('attractive');
+  });
+
+  it('treats unshown distractors as never picked', () => {
+    expect(distractorPickRate({ timesShown: 0, timesPicked: 0 })).toBe(0);
+  });
+});
+
+describe('findPickedDistractor', () => {
+  it('matches an answer ignoring case and whitespace', () => {
+    const options = [distractor('Borrow', 'common_confusion'), distractor('lent', 'morphological_variant')];
+
+    expect(findPickedDistractor(options, ' borrow ')?.strategy).toBe('common_confusion');
+    expect(findPickedDistractor(options, 'lend')).toBeUndefined();
+  });
+});
+
+describe('summarizeDistractorStrategies', () => {
+  it('aggregates per strategy, most attractive first', () => {
+    const summary = summarizeDistractorStrategies([
+      { strategy: 'orthographic_similar', timesShown: 30, timesPicked: 1, retired: true },
+      { strategy: 'orthographic_similar', timesShown: 10, timesPicked: 1, retired: false },
+      { strategy: 'common_confusion', timesShown: 20, timesPicked: 8, retired: false },
+    ]);
+
+    expect(summary.map(s => s.strategy)).toEqual(['common_confusion', 'orthographic_similar']);
+    expect(summary[1]).toMatchObject({ distractors: 2, retired: 1, timesShown: 40, timesPicked: 2, pickRate: 0.05 });
+  });
+
+  it('maps every strategy to a component', () => {
+    expect(DISTRACTOR_ERROR_COMPONENT.morphological_variant).toBe('MORPH');
+    expect(DISTRACTOR_ERROR_COMPONENT.phonological_similar).toBe('PHON');
+    expect(DISTRACTOR_ERROR_COMPONENT.common_confusion).toBe('LEX');
+  });
+});
+
+describe('DistractorGenerator inputs', () => {
+  it('accepts ISO codes for the learner L1', () => {
+    const set = new DistractorGenerator().generate(word('w-make', 'make'), {
+      count: 1,
+      nativeLanguage: 'es',
+      preferredStrategies: ['common_confusion'],
+    });
+
+    expect(set.distractors[0]).toMatchObject({ content: 'do', strategy: 'common_confusion' });
+    expect(set.distractors[0].explanation).toContain('Spanish');
+  });
+
+  it('resolves semantic group members by object ID', () => {
+    const generator = new DistractorGenerator();
+    generator.loadVocabulary([word('w-1', 'doctor'), word('w-2', 'nurse'), word('w-3', 'table')]);
+    generator.loadSemanticGroups(new Map([['medicine', ['w-1', 'w-2']]]));
+
+    const set = generator.generate(word('w-1', 'doctor'), {
+      count: 1,
+      preferredStrategies: ['semantic_related'],
+    });
+
+    expect(set.distractors[0]).toMatchObject({ content: 'nurse', strategy: 'semantic_related', sourceId: 'w-2' });
+  });
+});
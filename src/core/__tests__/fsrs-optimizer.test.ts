@@ -0,0 +1,173 @@
+/**
+ * FSRS Optimizer Unit Tests
+ *
+ * Tests for calibration reporting, weight clamping and log-loss
+ * fitting of FSRS weights on synthetic review histories.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateWeights,
+  countScoredReviews,
+  clampWeights,
+  optimizeWeights,
+  optimizeWeightsAsync,
+  WEIGHT_BOUNDS,
+} from '../fsrs-optimizer';
+import type { ReviewSequence } from '../fsrs-optimizer';
+import { FSRS, DEFAULT_WEIGHTS, createNewCard } from '../fsrs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+
+/** Deterministic PRNG (mulberry32) so fits are reproducible. */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Simulate a learner whose memory follows `trueWeights`.
+ */
+function simulateHistory(
+  trueWeights: number[],
+  objects: number,
+  reviewsPerObject: number,
+  seed = 42
+): ReviewSequence[] {
+  const random = seededRandom(seed);
+  const fsrs = new FSRS({ w: trueWeights });
+  const sequences: ReviewSequence[] = [];
+
+  for (let o = 0; o < objects; o++) {
+    let card = createNewCard();
+    let time = START + o * 60 * 1000;
+    const sequence: ReviewSequence = [];
+
+    for (let r = 0; r < reviewsPerObject; r++) {
+      const timestamp = new Date(time);
+      const recall = card.lastReview ? fsrs.retrievability(card, timestamp) : 0.5;
+      const rating = random() < recall ? 3 : 1;
+      sequence.push({ rating, timestamp });
+      card = fsrs.schedule(card, rating, timestamp);
+      time += (1 + Math.floor(random() * 20)) * DAY_MS;
+    }
+
+    sequences.push(sequence);
+  }
+
+  return sequences;
+}
+
+describe('evaluateWeights', () => {
+  it('scores every review after the first', () => {
+    const sequences = simulateHistory(DEFAULT_WEIGHTS, 5, 4);
+    const report = evaluateWeights(sequences, DEFAULT_WEIGHTS);
+
+    expect(report.sampleCount).toBe(15);
+    expect(countScoredReviews(sequences)).toBe(15);
+    expect(report.bins.reduce((sum, b) => sum + b.count, 0)).toBe(15);
+  });
+
+  it('returns zeroed metrics for empty history', () => {
+    const report = evaluateWeights([], DEFAULT_WEIGHTS);
+
+    expect(report).toEqual({ logLoss: 0, rmse: 0, sampleCount: 0, bins: [] });
+  });
+
+  it('gives lower log-loss to the weights that generated the data', () => {
+    const trueWeights = DEFAULT_WEIGHTS.map((w, i) => (i < 4 ? w * 6 : w));
+    const sequences = simulateHistory(trueWeights, 80, 6);
+
+    const truth = evaluateWeights(sequences, trueWeights);
+    const defaults = evaluateWeights(sequences, DEFAULT_WEIGHTS);
+
+    expect(truth.logLoss).toBeLessThan(defaults.logLoss);
+  });
+});
+
+describe('clampWeights', () => {
+  it('keeps every weight inside its bounds', () => {
+    const clamped = clampWeights(DEFAULT_WEIGHTS.map(() => 1000));
+
+    clamped.forEach((w, i) => {
+      expect(w).toBe(WEIGHT_BOUNDS[i][1]);
+    });
+  });
+
+  it('leaves the default weights untouched', () => {
+    expect(clampWeights(DEFAULT_WEIGHTS)).toEqual(DEFAULT_WEIGHTS);
+  });
+});
+
+describe('optimizeWeights', () => {
+  it('skips fitting when history is too short', () => {
+    const sequences = simulateHistory(DEFAULT_WEIGHTS, 3, 3);
+    const result = optimizeWeights(sequences, { minSamples: 100 });
+
+    expect(result.improved).toBe(false);
+    expect(result.iterations).toBe(0);
+    expect(result.weights).toEqual(DEFAULT_WEIGHTS);
+    expect(result.reason).toContain('100');
+  });
+
+  it('lowers log-loss on a learner who forgets more slowly than the defaults', () => {
+    const trueWeights = DEFAULT_WEIGHTS.map((w, i) => (i < 4 ? w * 6 : w));
+    const sequences = simulateHistory(trueWeights, 60, 6);
+
+    const result = optimizeWeights(sequences, { iterations: 25, minSamples: 50 });
+
+    expect(result.improved).toBe(true);
+    expect(result.after.logLoss).toBeLessThan(result.before.logLoss);
+    expect(result.weights).toHaveLength(17);
+    expect(result.weights[2]).toBeGreaterThan(DEFAULT_WEIGHTS[2]);
+  });
+
+  it('never returns weights that are worse than the starting point', () => {
+    const sequences = simulateHistory(DEFAULT_WEIGHTS, 40, 5, 7);
+    const result = optimizeWeights(sequences, { iterations: 5, minSamples: 50 });
+
+    expect(result.after.logLoss).toBeLessThanOrEqual(result.before.logLoss);
+  });
+});
+
+describe('optimizeWeightsAsync', () => {
+  it('matches the synchronous fit', async () => {
+    const trueWeights = DEFAULT_WEIGHTS.map((w, i) => (i < 4 ? w * 6 : w));
+    const sequences = simulateHistory(trueWeights, 60, 6);
+    const options = { iterations: 5, minSamples: 50 };
+
+    expect(await optimizeWeightsAsync(sequences, options)).toEqual(
+      optimizeWeights(sequences, options)
+    );
+  });
+
+  it('yields to the event loop while fitting', async () => {
+    const sequences = simulateHistory(DEFAULT_WEIGHTS, 200, 8);
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 0);
+
+    await optimizeWeightsAsync(sequences, { iterations: 10, minSamples: 50 });
+    clearInterval(timer);
+
+    expect(ticks).toBeGreaterThan(0);
+  });
+
+  it('stops at the time limit and keeps weights no worse than the start', async () => {
+    const sequences = simulateHistory(DEFAULT_WEIGHTS, 40, 5, 7);
+    const result = await optimizeWeightsAsync(sequences, {
+      iterations: 80,
+      minSamples: 50,
+      maxDurationMs: 0,
+    });
+
+    expect(result.iterations).toBe(0);
+    expect(result.weights).toEqual(DEFAULT_WEIGHTS);
+    expect(result.after.logLoss).toBeLessThanOrEqual(result.before.logLoss);
+  });
+});
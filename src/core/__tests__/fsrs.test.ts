@@ -15,6 +15,7 @@ import {
   determineStage,
   calculateScaffoldingGap,
   determineCueLevel,
+  projectReviewLoad,
   DEFAULT_PARAMETERS,
   STAGE_THRESHOLDS,
 } from '../fsrs';
@@ -483,3 +484,38 @@ describe('Mastery Stage Determination', () => {
     });
   });
 });
+
+describe('Review Load Projection', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const cards = [
+    { stability: 10, lastReview: daysAgo(5) },
+    { stability: 30, lastReview: daysAgo(20) },
+    { stability: 2, lastReview: daysAgo(1) },
+    { stability: 0, lastReview: null },
+  ];
+
+  it('matches stability intervals at 90% retention', () => {
+    const projection = projectReviewLoad(cards, 0.9, now);
+
+    expect(projection.dailyReviews).toBeCloseTo(1 / 10 + 1 / 30 + 1 / 2);
+    expect(projection.averageIntervalDays).toBeCloseTo(14);
+    expect(projection.dueInHorizon).toBe(2);
+  });
+
+  it('increases the load for higher retention', () => {
+    const relaxed = projectReviewLoad(cards, 0.8, now);
+    const strict = projectReviewLoad(cards, 0.97, now);
+
+    expect(strict.dailyReviews).toBeGreaterThan(relaxed.dailyReviews);
+    expect(strict.averageIntervalDays).toBeLessThan(relaxed.averageIntervalDays);
+    expect(strict.dueInHorizon).toBeGreaterThanOrEqual(relaxed.dueInHorizon);
+  });
+
+  it('ignores cards that were never reviewed', () => {
+    const projection = projectReviewLoad([{ stability: 0, lastReview: null }], 0.9, now);
+
+    expect(projection).toEqual({ targetRetention: 0.9, dailyReviews: 0, dueInHorizon: 0, averageIntervalDays: 0 });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Grammar Track Unit Tests
+ *
+ * Tests for the construction roadmap: prerequisite gating, status per
+ * construction, picking constructions for a session and spreading them
+ * through the vocabulary queue, and practice items per construction.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getTrackConstruction,
+  getMissingPrerequisites,
+  buildGrammarRoadmap,
+  grammarSlots,
+  selectGrammarPractice,
+  interleaveGrammar,
+  buildConstructionTask,
+  type ConstructionProgress,
+} from '../grammar/grammar-track';
+import { CORE_CONSTRUCTIONS, getAllPrerequisites } from '../grammar/syntactic-construction';
+
+function progress(stages: Record<string, number>, nextReview: Date | null = null) {
+  return new Map<string, ConstructionProgress>(
+    Object.entries(stages).map(([id, stage]) => [id, { stage, nextReview }])
+  );
+}
+
+describe('getTrackConstruction', () => {
+  it('finds catalog constructions by SYNT object content', () => {
+    expect(getTrackConstruction('SYNT', 'present simple tense')?.id).toBe('present_simple');
+    expect(getTrackConstruction('LEX', 'Present Simple Tense')).toBeUndefined();
+    expect(getTrackConstruction('SYNT', 'noun phrase')).toBeUndefined();
+  });
+});
+
+describe('getMissingPrerequisites', () => {
+  it('includes indirect prerequisites below the unlock stage', () => {
+    const missing = getMissingPrerequisites('present_perfect', progress({ present_simple: 3 }));
+
+    expect(missing).toContain('past_simple');
+    expect(missing).toContain('svo_basic');
+    expect(missing).not.toContain('present_simple');
+  });
+
+  it('ignores prerequisites outside the catalog', () => {
+    const stages = Object.fromEntries(
+      ['conditional_second', 'conditional_first', 'future_will', 'present_simple', 'past_simple', 'svo_basic', 'sv_intransitive']
+        .map(id => [id, 2])
+    );
+
+    expect(getMissingPrerequisites('conditional_third', progress(stages))).toEqual([]);
+  });
+});
+
+describe('buildGrammarRoadmap', () => {
+  it('orders constructions after their prerequisites', () => {
+    const roadmap = buildGrammarRoadmap(new Map());
+    const position = (id: string) => roadmap.findIndex(e => e.constructionId === id);
+
+    expect(position('svo_basic')).toBeLessThan(position('present_simple'));
+    expect(position('present_simple')).toBeLessThan(position('past_simple'));
+    expect(position('past_simple')).toBeLessThan(position('present_perfect'));
+    expect(position('present_perfect')).toBeLessThan(position('passive_basic'));
+  });
+
+  it('limits the roadmap to the target level', () => {
+    const roadmap = buildGrammarRoadmap(new Map(), 'A1');
+
+    expect(roadmap.length).toBeGreaterThan(0);
+    expect(roadmap.every(e => e.cefrLevel === 'A1')).toBe(true);
+  });
+
+  it('sets each status from progress', () => {
+    const roadmap = buildGrammarRoadmap(progress({ svo_basic: 4, sv_intransitive: 2, present_simple: 1 }));
+    const status = (id: string) => roadmap.find(e => e.constructionId === id)?.status;
+
+    expect(status('svo_basic')).toBe('mastered');
+    expect(status('present_simple')).toBe('practising');
+    expect(status('question_yes_no')).toBe('available');
+    expect(status('past_simple')).toBe('locked');
+  });
+});
+
+describe('selectGrammarPractice', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+
+  it('starts a new learner on the first unlocked construction only', () => {
+    const picked = selectGrammarPractice(buildGrammarRoadmap(new Map()), 4, now);
+
+    expect(picked).toHaveLength(1);
+    expect(['svo_basic', 'sv_intransitive']).toContain(picked[0]);
+  });
+
+  it('puts due reviews before new constructions and skips ones not yet due', () => {
+    const stages = progress({ svo_basic: 4, sv_intransitive: 2 }, new Date('2026-10-17'));
+    stages.set('present_simple', { stage: 1, nextReview: new Date('2026-10-25') });
+
+    const picked = selectGrammarPractice(buildGrammarRoadmap(stages), 3, now);
+
+    expect(picked.slice(0, 2)).toEqual(['sv_intransitive', 'svo_basic']);
+    expect(picked).not.toContain('present_simple');
+    expect(picked).toHaveLength(3);
+  });
+
+  it('never picks locked constructions', () => {
+    const roadmap = buildGrammarRoadmap(progress({ svo_basic: 1 }));
+    const picked = selectGrammarPractice(roadmap, 10, now);
+
+    for (const id of picked) {
+      expect(roadmap.find(e => e.constructionId === id)?.status).not.toBe('locked');
+    }
+  });
+});
+
+describe('session slots', () => {
+  it('gives one grammar slot per five items', () => {
+    expect(grammarSlots(20)).toBe(4);
+    expect(grammarSlots(4)).toBe(0);
+  });
+
+  it('spreads grammar items through the vocabulary', () => {
+    const mixed = interleaveGrammar(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'], ['G1', 'G2', 'G3']);
+
+    expect(mixed).toEqual(['a', 'b', 'c', 'd', 'G1', 'e', 'f', 'g', 'h', 'G2', 'G3']);
+  });
+});
+
+describe('buildConstructionTask', () => {
+  const passive = CORE_CONSTRUCTIONS.passive_basic;
+
+  it('asks new learners to pick the sentence that uses the construction', () => {
+    const task = buildConstructionTask(passive, 0);
+
+    expect(task.format).toBe('mcq');
+    expect(task.expectedAnswer).toBe(passive.examples[0]);
+    expect(task.options).toHaveLength(4);
+    expect(task.options).toContain(task.expectedAnswer);
+  });
+
+  it('takes distractors from unrelated constructions', () => {
+    const task = buildConstructionTask(passive, 1);
+    const related = new Set([
+      ...getAllPrerequisites('passive_basic'),
+      ...Object.values(CORE_CONSTRUCTIONS)
+        .filter(c => getAllPrerequisites(c.id).includes('passive_basic'))
+        .map(c => c.id),
+    ]);
+
+    for (const option of task.options!.slice(1)) {
+      const source = Object.values(CORE_CONSTRUCTIONS).find(c => c.examples.includes(option))!;
+      expect(related.has(source.id)).toBe(false);
+    }
+  });
+
+  it('asks practised learners to rebuild a scrambled example', () => {
+    const task = buildConstructionTask(passive, 2, 1);
+
+    expect(task.format).toBe('ordering');
+    expect(task.expectedAnswer).toBe(passive.examples[1]);
+    const words = task.prompt.split(': ').pop()!.split(' / ');
+    expect(words.sort()).toEqual(passive.examples[1].replace(/[.!?]+$/, '').split(' ').sort());
+  });
+});
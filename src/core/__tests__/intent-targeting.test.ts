@@ -0,0 +1,99 @@
+/**
+ * Intent Targeting Unit Tests
+ *
+ * Tests for choosing the intent whose expected success is closest to the
+ * target rate, the companion difficulty window, and calibration of logged
+ * predictions against outcomes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  selectIntentForTarget,
+  companionDifficulty,
+  summarizeIntentCalibration,
+} from '../content/intent-targeting';
+import { calculateExpectedSuccess, getIntentsForStage } from '../content/pedagogical-intent';
+
+describe('selectIntentForTarget', () => {
+  it('introduces new items', () => {
+    const choice = selectIntentForTarget({ masteryStage: 0, theta: 0, difficulty: 0, targetSuccess: 0.8 });
+
+    expect(choice.intent).toBe('introduce_new');
+    expect(choice.expectedSuccess).toBeCloseTo(calculateExpectedSuccess('introduce_new', 0, 0));
+  });
+
+  it('picks the intent whose expected success is closest to the target', () => {
+    const input = { masteryStage: 3, theta: 1, difficulty: 0 };
+    const candidates = getIntentsForStage(3).filter(i => i !== 'introduce_new');
+    const successes = candidates.map(i => calculateExpectedSuccess(i, 1, 0));
+
+    const easy = selectIntentForTarget({ ...input, targetSuccess: 0.95 });
+    const hard = selectIntentForTarget({ ...input, targetSuccess: 0.5 });
+
+    expect(easy.expectedSuccess).toBeCloseTo(Math.max(...successes));
+    expect(hard.expectedSuccess).toBeCloseTo(Math.min(...successes));
+    expect(easy.targetSuccess).toBe(0.95);
+  });
+
+  it('clamps the target to the supported range', () => {
+    const choice = selectIntentForTarget({ masteryStage: 2, theta: 0, difficulty: 0, targetSuccess: 0.2 });
+
+    expect(choice.targetSuccess).toBe(0.5);
+  });
+
+  it('prefers time-pressured intents while the learner leans on cues', () => {
+    const choice = selectIntentForTarget({
+      masteryStage: 3,
+      theta: 0,
+      difficulty: 0,
+      targetSuccess: 0.9,
+      scaffoldingGap: 0.4,
+    });
+
+    expect(choice.intent).toBe('fluency_building');
+  });
+
+  it('skips recently used intents while others remain', () => {
+    const input = { masteryStage: 3, theta: 1, difficulty: 0, targetSuccess: 0.95 };
+    const first = selectIntentForTarget(input);
+    const second = selectIntentForTarget({ ...input, recentIntents: [first.intent] });
+
+    expect(second.intent).not.toBe(first.intent);
+  });
+});
+
+describe('companionDifficulty', () => {
+  it('asks for easier companions at higher success targets', () => {
+    const window = companionDifficulty(0.8, 0.5);
+
+    expect(window.minDifficulty).toBeCloseTo(0.05);
+    expect(window.maxDifficulty).toBeCloseTo(0.35);
+    expect(window.targetTheta).toBe(0.5);
+    expect(companionDifficulty(0.6, 0).minDifficulty).toBeGreaterThan(window.minDifficulty);
+  });
+});
+
+describe('summarizeIntentCalibration', () => {
+  it('compares predictions with outcomes in bins and by intent', () => {
+    const calibration = summarizeIntentCalibration([
+      { intent: 'reinforce_known', predictedSuccess: 0.9, correct: true },
+      { intent: 'reinforce_known', predictedSuccess: 0.9, correct: false },
+      { intent: 'elicit_production', predictedSuccess: 0.3, correct: false },
+    ]);
+
+    expect(calibration.sampleCount).toBe(3);
+    expect(calibration.observedRate).toBeCloseTo(1 / 3);
+    expect(calibration.bins).toEqual([
+      { predicted: 0.3, observed: 0, count: 1 },
+      { predicted: 0.9, observed: 0.5, count: 2 },
+    ]);
+    expect(calibration.byIntent[0]).toMatchObject({ intent: 'reinforce_known', count: 2, observedRate: 0.5 });
+    expect(calibration.brierScore).toBeCloseTo((0.01 + 0.81 + 0.09) / 3);
+  });
+
+  it('reports zeros without predictions', () => {
+    const calibration = summarizeIntentCalibration([]);
+
+    expect(calibration).toMatchObject({ sampleCount: 0, rmse: 0, brierScore: 0, bins: [], byIntent: [] });
+  });
+});
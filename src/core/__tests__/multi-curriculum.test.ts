@@ -32,6 +32,7 @@ import {
 
   // Session planning
   planMultiGoalSession,
+  interleaveByAllocation,
 
   // Progress tracking
   calculateMultiGoalProgress,
@@ -574,6 +575,63 @@ describe('Session Planning', () => {
       expect(balancedPlan.goalTimeAllocation[goals[0].id]).toBeGreaterThan(0);
     });
   });
+
+  describe('interleaveByAllocation', () => {
+    const queueFor = (goalId: string, count: number) =>
+      Array.from({ length: count }, (_, i) => ({ objectId: `${goalId}-${i}`, goalId }));
+
+    it('serves goals in proportion to their allocation', () => {
+      const sequence = interleaveByAllocation(
+        { ielts: queueFor('ielts', 20), celban: queueFor('celban', 20) },
+        { ielts: 0.75, celban: 0.25 },
+        12
+      );
+
+      expect(sequence).toHaveLength(12);
+      expect(sequence.filter((item) => item.goalId === 'ielts')).toHaveLength(9);
+      // Interleaved rather than blocked: the minority goal appears early
+      expect(sequence.slice(0, 4).some((item) => item.goalId === 'celban')).toBe(true);
+    });
+
+    it('fills from other goals once a queue runs out', () => {
+      const sequence = interleaveByAllocation(
+        { a: queueFor('a', 2), b: queueFor('b', 10) },
+        { a: 0.5, b: 0.5 },
+        6
+      );
+
+      expect(sequence).toHaveLength(6);
+      expect(sequence.filter((item) => item.goalId === 'a')).toHaveLength(2);
+    });
+
+    it('serves a shared object once and credits every benefiting goal', () => {
+      const shared = { objectId: 'shared', goalId: 'a', benefitingGoals: ['a', 'b'] };
+      const sequence = interleaveByAllocation(
+        {
+          a: [shared, ...queueFor('a', 5)],
+          b: [{ ...shared, goalId: 'b' }, ...queueFor('b', 5)],
+        },
+        { a: 0.5, b: 0.5 },
+        5
+      );
+
+      expect(sequence.filter((item) => item.objectId === 'shared')).toHaveLength(1);
+      expect(sequence[0].objectId).toBe('shared');
+      // The shared pick counted half for each goal, so the rest splits evenly
+      expect(sequence.filter((item) => item.goalId === 'a')).toHaveLength(3);
+      expect(sequence.filter((item) => item.goalId === 'b')).toHaveLength(2);
+    });
+
+    it('ignores goals without allocation', () => {
+      const sequence = interleaveByAllocation(
+        { a: queueFor('a', 3), b: queueFor('b', 3) },
+        { a: 1 },
+        10
+      );
+
+      expect(sequence.map((item) => item.goalId)).toEqual(['a', 'a', 'a']);
+    });
+  });
 });
 
 // ============================================================================
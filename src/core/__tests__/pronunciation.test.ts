@@ -0,0 +1,142 @@
+/**
+ * Pronunciation Scoring Unit Tests
+ *
+ * Tests for comparing recognized phonemes against G2P expectations,
+ * explaining errors by L1 interference, and converting scores into
+ * speaking-modality G2P-IRT responses.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  tokenizePhonemes,
+  expectedPhonemes,
+  alignPhonemes,
+  scorePronunciation,
+  toG2PResponses,
+  resolveInterferenceL1,
+} from '../pronunciation';
+import { analyzeG2PWithL1 } from '../g2p';
+import {
+  g2pToIRTParameters,
+  createInitialG2PThetaProfile,
+  batchUpdateG2PThetaProfile,
+} from '../g2p-irt';
+
+describe('tokenizePhonemes', () => {
+  it('keeps diphthongs and affricates together', () => {
+    expect(tokenizePhonemes('/naɪt/')).toEqual(['n', 'aɪ', 't']);
+    expect(tokenizePhonemes('tʃɜːtʃ')).toEqual(['tʃ', 'ɜ', 'tʃ']);
+  });
+
+  it('drops stress and length marks and unifies symbol variants', () => {
+    expect(tokenizePhonemes('ˈθɹuː')).toEqual(tokenizePhonemes('θ r u'));
+    expect(tokenizePhonemes('ɡ')).toEqual(['g']);
+  });
+});
+
+describe('expectedPhonemes', () => {
+  it('follows the G2P rule output', () => {
+    expect(expectedPhonemes('ship').map(p => p.phoneme)).toEqual(['ʃ', 'ɪ', 'p']);
+  });
+
+  it('accepts each alternative a rule allows', () => {
+    const [th] = expectedPhonemes('think');
+
+    expect(th.phoneme).toBe('θ');
+    expect(th.accepted).toEqual(['θ', 'ð']);
+  });
+});
+
+describe('alignPhonemes', () => {
+  it('reports substitutions, deletions and insertions at their positions', () => {
+    const expected = expectedPhonemes('street');
+
+    const steps = alignPhonemes(expected, ['ɛ', 's', 't', 'l', 'i']);
+
+    expect(steps.map(s => s.type)).toEqual([
+      'insertion',
+      'match',
+      'match',
+      'substitution',
+      'match',
+      'deletion',
+    ]);
+    expect(steps[3]).toMatchObject({ expectedIndex: 2, expected: 'r', recognized: 'l' });
+    expect(steps[5]).toMatchObject({ expectedIndex: 4, expected: 't', recognized: null });
+  });
+});
+
+describe('scorePronunciation', () => {
+  it('scores a faithful attempt as fully correct', () => {
+    const score = scorePronunciation('think', ['ð', 'ɪ', 'n', 'k']);
+
+    expect(score.errors).toEqual([]);
+    expect(score.accuracy).toBe(1);
+    expect(score.correct).toBe(true);
+  });
+
+  it('explains substitutions with the learner L1 pattern', () => {
+    const score = scorePronunciation('think', ['s', 'ɪ', 'n', 'k'], { l1: 'ko' });
+
+    expect(score.correct).toBe(false);
+    expect(score.accuracy).toBe(0.75);
+    expect(score.errors).toHaveLength(1);
+    expect(score.errors[0]).toMatchObject({ type: 'substitution', expected: 'θ', recognized: 's' });
+    expect(score.errors[0].l1Pattern?.reason).toBe('Korean lacks dental fricatives');
+  });
+
+  it('explains epenthetic vowels before s clusters for Spanish speakers', () => {
+    const score = scorePronunciation('street', ['e', 's', 't', 'r', 'i', 't'], { l1: 'es' });
+
+    expect(score.errors).toHaveLength(1);
+    expect(score.errors[0].type).toBe('insertion');
+    expect(score.errors[0].l1Pattern?.reason).toBe('Spanish adds /e/ before initial s+consonant');
+  });
+
+  it('leaves errors unexplained without a matching L1 pattern', () => {
+    const score = scorePronunciation('ship', ['s', 'ɪ', 'p']);
+
+    expect(score.errors[0].l1Pattern).toBeUndefined();
+  });
+
+  it('respects a custom pass threshold', () => {
+    const score = scorePronunciation('think', ['s', 'ɪ', 'n', 'k'], { passThreshold: 0.7 });
+
+    expect(score.correct).toBe(true);
+  });
+
+  it('maps ISO codes to interference pattern names', () => {
+    expect(resolveInterferenceL1('ja')).toBe('Japanese');
+    expect(resolveInterferenceL1('Korean')).toBe('Korean');
+  });
+});
+
+describe('toG2PResponses', () => {
+  const itemParams = g2pToIRTParameters(analyzeG2PWithL1('think', 'Korean'));
+  const context = { taskType: 'production' as const, isTimed: false, userL1: 'Korean' };
+
+  it('creates a speaking response per phoneme plus one for the word', () => {
+    const score = scorePronunciation('think', ['s', 'ɪ', 'n', 'k'], { l1: 'ko' });
+
+    const responses = toG2PResponses(score, itemParams, context, 2400);
+
+    expect(responses).toHaveLength(5);
+    expect(responses.map(r => r.correct)).toEqual([false, true, true, true, false]);
+    expect(responses.every(r => r.context.modality === 'speaking')).toBe(true);
+    expect(responses[0].context.targetLayer).toBe('alphabetic');
+    expect(responses[4]).toMatchObject({ itemId: itemParams.id, context: { targetLayer: 'word' } });
+  });
+
+  it('moves the speaking theta in the direction of the attempt', () => {
+    const profile = createInitialG2PThetaProfile('user-1');
+    const good = toG2PResponses(scorePronunciation('think', ['θ', 'ɪ', 'n', 'k']), itemParams, context, 2000);
+    const poor = toG2PResponses(scorePronunciation('think', ['s', 'i']), itemParams, context, 2000);
+
+    const afterGood = batchUpdateG2PThetaProfile(profile, good);
+    const afterPoor = batchUpdateG2PThetaProfile(profile, poor);
+
+    expect(afterGood.thetaSpeaking).toBeGreaterThan(profile.thetaSpeaking);
+    expect(afterPoor.thetaSpeaking).toBeLessThan(profile.thetaSpeaking);
+    expect(afterGood.responseCounts.speaking).toBe(5);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Stage Thresholds Unit Tests
+ *
+ * Tests for threshold-driven stage transitions, deterministic A/B
+ * assignment, and the retention / significance helpers used to
+ * compare experiment groups.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  thresholdRegistry,
+  checkStageTransition,
+  resolveStageTransition,
+  computeRetention,
+  compareProportions,
+  summarizeDurations,
+  DEFAULT_THRESHOLDS,
+  AGGRESSIVE_THRESHOLDS,
+} from '../stage-thresholds';
+import type { ExperimentReview, ThresholdConfig } from '../stage-thresholds';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function review(objectId: string, day: number, correct: boolean): ExperimentReview {
+  return { objectId, correct, timestamp: new Date(Date.UTC(2026, 0, 1) + day * DAY_MS) };
+}
+
+const aggressive = thresholdRegistry.getConfig('aggressive') as ThresholdConfig;
+
+describe('checkStageTransition', () => {
+  const metrics = { cueFreeAccuracy: 0.7, cueAssistedAccuracy: 0.8, stability: 6, exposureCount: 8 };
+
+  it('uses the thresholds of the given config', () => {
+    expect(checkStageTransition(2, metrics).transitioned).toBe(false);
+    expect(checkStageTransition(2, metrics, aggressive)).toMatchObject({
+      newStage: 3,
+      transitioned: true,
+    });
+    expect(AGGRESSIVE_THRESHOLDS.stage3Stability).toBeLessThan(DEFAULT_THRESHOLDS.stage3Stability);
+  });
+
+  it('holds Stage 4 back until answers are automatized', () => {
+    const mastered = { cueFreeAccuracy: 0.95, cueAssistedAccuracy: 0.97, stability: 40, exposureCount: 30 };
+
+    expect(checkStageTransition(3, mastered)).toMatchObject({ newStage: 3, transitioned: false });
+    expect(checkStageTransition(3, { ...mastered, automatizationLevel: 0.5 }).transitioned).toBe(false);
+    expect(checkStageTransition(3, { ...mastered, automatizationLevel: 0.8 })).toMatchObject({
+      newStage: 4,
+      transitioned: true,
+    });
+  });
+});
+
+describe('resolveStageTransition', () => {
+  it('advances one stage when the next thresholds are met', () => {
+    const result = resolveStageTransition(1, {
+      cueFreeAccuracy: 0.95,
+      cueAssistedAccuracy: 1,
+      stability: 60,
+      exposureCount: 10,
+    });
+
+    expect(result).toMatchObject({ newStage: 2, direction: 'advance' });
+  });
+
+  it('demotes one stage when the current stage is no longer supported', () => {
+    const result = resolveStageTransition(4, {
+      cueFreeAccuracy: 0.8,
+      cueAssistedAccuracy: 0.9,
+      stability: 3,
+      exposureCount: 12,
+    });
+
+    expect(result).toMatchObject({ newStage: 3, direction: 'demote' });
+  });
+
+  it('never demotes below Stage 1', () => {
+    const result = resolveStageTransition(1, {
+      cueFreeAccuracy: 0,
+      cueAssistedAccuracy: 0,
+      stability: 0.5,
+      exposureCount: 4,
+    });
+
+    expect(result).toMatchObject({ newStage: 1, direction: 'none' });
+  });
+});
+
+describe('A/B assignment', () => {
+  it('assigns users deterministically and respects proportions', () => {
+    thresholdRegistry.registerABTest({
+      id: 'test-deterministic',
+      name: 'Aggressive vs default',
+      description: '',
+      groups: [
+        { id: 'control', configId: 'default', proportion: 0.5, hypothesis: '' },
+        { id: 'fast', configId: 'aggressive', proportion: 0.5, hypothesis: '' },
+      ],
+      startDate: new Date(),
+      primaryMetric: 'retention_at_30_days',
+      isActive: true,
+    });
+
+    const first = thresholdRegistry.assignUserToTest('user-42', 'test-deterministic');
+    const again = thresholdRegistry.assignUserToTest('user-42', 'test-deterministic');
+    expect(again?.groupId).toBe(first?.groupId);
+
+    const groups = Array.from({ length: 400 }, (_, i) =>
+      thresholdRegistry.assignUserToTest(`user-${i}`, 'test-deterministic')?.groupId
+    );
+    const control = groups.filter((g) => g === 'control').length;
+    expect(control).toBeGreaterThan(100);
+    expect(control).toBeLessThan(300);
+  });
+
+  it('rejects groups whose proportions do not sum to 1', () => {
+    expect(() =>
+      thresholdRegistry.registerABTest({
+        id: 'test-invalid',
+        name: 'Invalid',
+        description: '',
+        groups: [{ id: 'only', configId: 'default', proportion: 0.6, hypothesis: '' }],
+        startDate: new Date(),
+        primaryMetric: 'stage_advancement_rate',
+        isActive: true,
+      })
+    ).toThrow('sum to 1');
+  });
+});
+
+describe('computeRetention', () => {
+  it('scores every review after the first per object', () => {
+    const stats = computeRetention([
+      review('a', 0, true),
+      review('a', 2, true),
+      review('a', 9, false),
+      review('b', 1, false),
+      review('b', 40, true),
+    ]);
+
+    expect(stats).toEqual({ reviews: 3, recalled: 2, rate: 2 / 3 });
+  });
+
+  it('filters by the interval since the previous review', () => {
+    const stats = computeRetention([review('a', 0, true), review('a', 2, false), review('a', 40, true)], 30);
+
+    expect(stats).toEqual({ reviews: 1, recalled: 1, rate: 1 });
+  });
+});
+
+describe('compareProportions', () => {
+  it('reports no difference for identical groups', () => {
+    const result = compareProportions(80, 100, 80, 100);
+
+    expect(result.difference).toBe(0);
+    expect(result.pValue).toBeCloseTo(1, 5);
+  });
+
+  it('finds a large retention gain significant', () => {
+    const result = compareProportions(600, 1000, 700, 1000);
+
+    expect(result.difference).toBeCloseTo(0.1);
+    expect(result.zScore).toBeGreaterThan(4);
+    expect(result.pValue).toBeLessThan(0.001);
+  });
+
+  it('returns p = 1 when a group has no data', () => {
+    expect(compareProportions(0, 0, 5, 10).pValue).toBe(1);
+  });
+});
+
+describe('summarizeDurations', () => {
+  it('computes mean and median', () => {
+    expect(summarizeDurations([4, 1, 10, 3])).toEqual({ count: 4, mean: 4.5, median: 3.5 });
+    expect(summarizeDurations([])).toEqual({ count: 0, mean: 0, median: 0 });
+  });
+});
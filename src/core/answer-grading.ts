@@ -0,0 +1,354 @@
+/**
+ * LOGOS Answer Grading Module
+ *
+ * Grades a learner's typed or selected answer against a task's answer key.
+ * Free text is forgiving in the ways a teacher would be: a missing accent,
+ * a typo scaled to the length of the word, the right word in the wrong
+ * inflection, or an accepted alternative all earn (partial) credit, while
+ * multi-word answers are credited word by word.
+ *
+ * Academic Foundations:
+ * - Damerau, F. (1964): Transpositions as single spelling errors
+ * - Nation, I.S.P. (2001): Form, meaning and use as separate aspects of word knowledge
+ *
+ * Pure functions only - the main process looks up the issued task and
+ * applies the verdict to mastery and scheduling.
+ *
+ * @module core/answer-grading
+ */
+
+import { extractLemma, segmentWord } from './morphology';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How the answer matched the key, best first.
+ */
+export type AnswerMatchType =
+  | 'exact'
+  | 'alternative'
+  | 'diacritics'
+  | 'typo'
+  | 'inflection'
+  | 'partial'
+  | 'incorrect'
+  | 'blank';
+
+/**
+ * What counts as right for a task.
+ */
+export interface AnswerKey {
+  /** Canonical answer */
+  expected: string;
+  /** Other answers accepted with full credit */
+  alternatives?: string[];
+  /** Options offered for choice formats (mcq, matching) */
+  options?: string[];
+}
+
+export interface AnswerGradingOptions {
+  /**
+   * 'choice' answers were picked from the options and only match exactly;
+   * 'text' answers were typed and get the full tolerance.
+   * Defaults to 'choice' when the key has options.
+   */
+  mode?: 'choice' | 'text';
+  /** Minimum credit counted as correct */
+  passCredit?: number;
+}
+
+export interface AnswerVerdict {
+  correct: boolean;
+  /** Credit earned, 0-1 */
+  credit: number;
+  matchType: AnswerMatchType;
+  /** Key answer the response was matched against */
+  matchedAnswer: string;
+  /** Edit distance for typo matches */
+  editDistance?: number;
+  /** Short explanation for the learner */
+  feedback: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Credit per match type and the typo allowance.
+ */
+export const ANSWER_GRADING_CONFIG = {
+  passCredit: 0.6,
+  credit: {
+    exact: 1,
+    alternative: 1,
+    diacritics: 0.9,
+    inflection: 0.7,
+  },
+  /** Credit lost per edit in a typo match */
+  typoPenalty: 0.1,
+  /** One edit is allowed per this many characters of the key answer */
+  charsPerTypo: 5,
+  maxTypoEdits: 2,
+  /** Lemma matches are ignored for words shorter than this */
+  minLemmaLength: 3,
+} as const;
+
+const FEEDBACK: Record<AnswerMatchType, string> = {
+  exact: 'Correct!',
+  alternative: 'Correct - also accepted.',
+  diacritics: 'Correct, but watch the accents.',
+  typo: 'Almost - check the spelling.',
+  inflection: 'Right word, but a different form.',
+  partial: 'Partly right.',
+  incorrect: 'Not quite.',
+  blank: 'No answer given.',
+};
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Lowercase, unify quotes and whitespace, and drop surrounding punctuation.
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[\s"'.,!?;:¿¡()]+|[\s"'.,!?;:¿¡()]+$/g, '');
+}
+
+/**
+ * Normalize and strip diacritics ("Café" -> "cafe").
+ */
+export function stripDiacritics(text: string): string {
+  return normalizeAnswer(text)
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '');
+}
+
+// ============================================================================
+// Distance
+// ============================================================================
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and adjacent transpositions each cost one edit.
+ */
+export function damerauLevenshtein(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Edits tolerated as typos for a key answer of the given length.
+ * Short words get none: "cat" for "car" is a different word.
+ */
+export function typoAllowance(length: number): number {
+  return Math.min(
+    ANSWER_GRADING_CONFIG.maxTypoEdits,
+    Math.floor(length / ANSWER_GRADING_CONFIG.charsPerTypo)
+  );
+}
+
+// ============================================================================
+// Inflection
+// ============================================================================
+
+/**
+ * Candidate base forms of a word: the word itself, its lemma, and its
+ * stem with any inflectional suffix removed.
+ */
+function baseForms(word: string): Set<string> {
+  const forms = new Set([word, extractLemma(word)]);
+  const segments = segmentWord(word).morphemeSegments;
+  const inflection = segments.find(s => s.type === 'inflection');
+  if (inflection) {
+    forms.add(word.slice(0, inflection.position));
+    // "-es" is also "-e" plus plural "-s" (makes, horses)
+    if (inflection.morpheme === 'es') {
+      forms.add(word.slice(0, -1));
+    }
+  }
+  return forms;
+}
+
+/**
+ * Whether two single words are inflections of the same lemma.
+ */
+export function isSameLemma(a: string, b: string): boolean {
+  if (a.includes(' ') || b.includes(' ')) {
+    return false;
+  }
+  if (Math.min(a.length, b.length) < ANSWER_GRADING_CONFIG.minLemmaLength || a[0] !== b[0]) {
+    return false;
+  }
+  const formsA = baseForms(a);
+  for (const form of baseForms(b)) {
+    if (form.length >= ANSWER_GRADING_CONFIG.minLemmaLength && formsA.has(form)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// ============================================================================
+// Grading
+// ============================================================================
+
+function verdict(
+  matchType: AnswerMatchType,
+  credit: number,
+  matchedAnswer: string,
+  passCredit: number,
+  editDistance?: number
+): AnswerVerdict {
+  const rounded = Math.round(credit * 100) / 100;
+  return {
+    correct: rounded >= passCredit,
+    credit: rounded,
+    matchType,
+    matchedAnswer,
+    ...(editDistance !== undefined ? { editDistance } : {}),
+    feedback: FEEDBACK[matchType],
+  };
+}
+
+/**
+ * Grade one normalized response against one key answer, or null if the
+ * whole answer doesn't match.
+ */
+function gradeAgainst(
+  response: string,
+  answer: string,
+  isAlternative: boolean,
+  mode: 'choice' | 'text',
+  passCredit: number
+): AnswerVerdict | null {
+  const { credit } = ANSWER_GRADING_CONFIG;
+  const target = normalizeAnswer(answer);
+
+  if (response === target) {
+    return isAlternative
+      ? verdict('alternative', credit.alternative, answer, passCredit)
+      : verdict('exact', credit.exact, answer, passCredit);
+  }
+
+  const bareResponse = stripDiacritics(response);
+  const bareTarget = stripDiacritics(answer);
+  if (bareResponse === bareTarget) {
+    // A picked option can't have a missing accent
+    return mode === 'text' ? verdict('diacritics', credit.diacritics, answer, passCredit) : null;
+  }
+
+  if (mode === 'choice') {
+    return null;
+  }
+
+  const distance = damerauLevenshtein(bareResponse, bareTarget);
+  if (distance <= typoAllowance(bareTarget.length)) {
+    return verdict('typo', 1 - distance * ANSWER_GRADING_CONFIG.typoPenalty, answer, passCredit, distance);
+  }
+
+  if (isSameLemma(bareResponse, bareTarget)) {
+    return verdict('inflection', credit.inflection, answer, passCredit);
+  }
+
+  return null;
+}
+
+/**
+ * Credit a multi-word answer word by word, in order. Each key word takes
+ * the best grade among the response words not yet used.
+ */
+function gradeWords(response: string, answer: string, passCredit: number): AnswerVerdict | null {
+  const expectedWords = normalizeAnswer(answer).split(' ');
+  const responseWords = response.split(' ');
+  if (expectedWords.length < 2) {
+    return null;
+  }
+
+  let total = 0;
+  let from = 0;
+  for (const word of expectedWords) {
+    for (let i = from; i < responseWords.length; i++) {
+      const graded = gradeAgainst(responseWords[i], word, false, 'text', passCredit);
+      if (graded) {
+        total += graded.credit;
+        from = i + 1;
+        break;
+      }
+    }
+  }
+
+  // Extra words cost as much as missing ones
+  const credit = total / Math.max(expectedWords.length, responseWords.length);
+  return credit > 0 ? verdict('partial', credit, answer, passCredit) : null;
+}
+
+/**
+ * Grade a response against an answer key.
+ *
+ * Whole-answer matches are tried against the expected answer and then
+ * each alternative; the best credit wins. Typed multi-word answers that
+ * don't match as a whole fall back to word-by-word partial credit.
+ */
+export function gradeAnswer(
+  response: string,
+  key: AnswerKey,
+  options: AnswerGradingOptions = {}
+): AnswerVerdict {
+  const passCredit = options.passCredit ?? ANSWER_GRADING_CONFIG.passCredit;
+  const mode = options.mode ?? (key.options && key.options.length > 0 ? 'choice' : 'text');
+  const normalized = normalizeAnswer(response);
+
+  if (!normalized) {
+    return verdict('blank', 0, key.expected, passCredit);
+  }
+
+  const candidates = [
+    { answer: key.expected, isAlternative: false },
+    ...(key.alternatives ?? []).map(answer => ({ answer, isAlternative: true })),
+  ];
+
+  let best: AnswerVerdict | null = null;
+  for (const { answer, isAlternative } of candidates) {
+    const graded = gradeAgainst(normalized, answer, isAlternative, mode, passCredit);
+    if (graded && (!best || graded.credit > best.credit)) {
+      best = graded;
+    }
+  }
+
+  if (!best && mode === 'text') {
+    for (const { answer } of candidates) {
+      const graded = gradeWords(normalized, answer, passCredit);
+      if (graded && (!best || graded.credit > best.credit)) {
+        best = graded;
+      }
+    }
+  }
+
+  return best ?? verdict('incorrect', 0, key.expected, passCredit);
+}
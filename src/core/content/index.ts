@@ -21,3 +21,16 @@ export {
   selectOptimalIntent,
   calculateExpectedSuccess,
 } from './pedagogical-intent';
+
+// Intent Targeting
+export {
+  type IntentTargetInput,
+  type IntentChoice,
+  type IntentOutcome,
+  type IntentCalibrationRow,
+  type IntentCalibration,
+  INTENT_TARGETING_CONFIG,
+  selectIntentForTarget,
+  companionDifficulty,
+  summarizeIntentCalibration,
+} from './intent-targeting';
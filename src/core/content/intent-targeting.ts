@@ -0,0 +1,220 @@
+/**
+ * Intent Targeting
+ *
+ * Chooses the pedagogical intent for an item so the learner's expected
+ * success lands near a target rate, and checks afterwards whether those
+ * predictions were calibrated against what actually happened.
+ */
+
+import {
+  PEDAGOGICAL_INTENTS,
+  getIntentsForStage,
+  calculateExpectedSuccess,
+  type PedagogicalIntent,
+  type DifficultyConstraints,
+} from './pedagogical-intent';
+import type { CalibrationBin } from '../fsrs-optimizer';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Learner and item state an intent is chosen for.
+ */
+export interface IntentTargetInput {
+  /** Mastery stage of the item (0-4) */
+  masteryStage: number;
+  /** Learner ability on the item's component (logits) */
+  theta: number;
+  /** IRT difficulty of the item (logits) */
+  difficulty: number;
+  /** Success rate to aim for (0-1) */
+  targetSuccess: number;
+  /** Cue-assisted minus cue-free accuracy */
+  scaffoldingGap?: number;
+  /** Intents used recently in the session, oldest first */
+  recentIntents?: PedagogicalIntent[];
+}
+
+/**
+ * The chosen intent and its predicted success.
+ */
+export interface IntentChoice {
+  intent: PedagogicalIntent;
+  expectedSuccess: number;
+  targetSuccess: number;
+}
+
+/**
+ * A logged prediction and its outcome.
+ */
+export interface IntentOutcome {
+  intent: string;
+  predictedSuccess: number;
+  correct: boolean;
+}
+
+export interface IntentCalibrationRow {
+  intent: string;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+/**
+ * How well logged success predictions matched outcomes.
+ */
+export interface IntentCalibration {
+  sampleCount: number;
+  meanPredicted: number;
+  observedRate: number;
+  /** Mean squared error of the predictions (lower is better) */
+  brierScore: number;
+  /** Count-weighted RMSE between predicted and observed success across bins */
+  rmse: number;
+  bins: CalibrationBin[];
+  byIntent: IntentCalibrationRow[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const INTENT_TARGETING_CONFIG = {
+  defaultTargetSuccess: 0.8,
+  minTargetSuccess: 0.5,
+  maxTargetSuccess: 0.95,
+  /** Scaffolding gap above which time-pressured intents are preferred */
+  fluencyGapThreshold: 0.3,
+  /** Recent intents avoided while alternatives remain */
+  recentWindow: 3,
+  /** Difficulty tolerance for companion objects (0-1 scale) */
+  companionTolerance: 0.15,
+  calibrationBins: 5,
+};
+
+// =============================================================================
+// Intent Selection
+// =============================================================================
+
+/**
+ * Choose the intent whose expected success is closest to the target.
+ *
+ * Candidates follow selectOptimalIntent: only introduction at stage 0,
+ * time-pressured intents when the learner still leans on cues, and the
+ * last few intents are skipped while others remain.
+ */
+export function selectIntentForTarget(input: IntentTargetInput): IntentChoice {
+  const config = INTENT_TARGETING_CONFIG;
+  const targetSuccess = Math.min(
+    config.maxTargetSuccess,
+    Math.max(config.minTargetSuccess, input.targetSuccess)
+  );
+
+  let candidates = input.masteryStage <= 0
+    ? (['introduce_new'] as PedagogicalIntent[])
+    : getIntentsForStage(input.masteryStage).filter(i => i !== 'introduce_new');
+
+  if ((input.scaffoldingGap ?? 0) > config.fluencyGapThreshold) {
+    const fluency = candidates.filter(i => PEDAGOGICAL_INTENTS[i].timePressure);
+    if (fluency.length > 0) {
+      candidates = fluency;
+    }
+  }
+
+  const recent = new Set((input.recentIntents ?? []).slice(-config.recentWindow));
+  const fresh = candidates.filter(i => !recent.has(i));
+  if (fresh.length > 0) {
+    candidates = fresh;
+  }
+  if (candidates.length === 0) {
+    candidates = ['reinforce_known'];
+  }
+
+  return candidates
+    .map(intent => ({
+      intent,
+      expectedSuccess: calculateExpectedSuccess(intent, input.theta, input.difficulty),
+      targetSuccess,
+    }))
+    .reduce((best, choice) =>
+      Math.abs(choice.expectedSuccess - targetSuccess) < Math.abs(best.expectedSuccess - targetSuccess)
+        ? choice
+        : best
+    );
+}
+
+/**
+ * Difficulty window for objects shown alongside the item. The constraint
+ * solver rates objects 0-1, so a higher target success asks for easier
+ * companions.
+ */
+export function companionDifficulty(
+  targetSuccess: number,
+  theta: number,
+  tolerance: number = INTENT_TARGETING_CONFIG.companionTolerance
+): DifficultyConstraints {
+  const center = 1 - targetSuccess;
+  return {
+    minDifficulty: Math.max(0, center - tolerance),
+    maxDifficulty: Math.min(1, center + tolerance),
+    targetTheta: theta,
+    tolerance,
+  };
+}
+
+// =============================================================================
+// Calibration
+// =============================================================================
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Compare logged success predictions with outcomes, overall, in
+ * reliability-diagram bins and by intent.
+ */
+export function summarizeIntentCalibration(
+  outcomes: IntentOutcome[],
+  binCount: number = INTENT_TARGETING_CONFIG.calibrationBins
+): IntentCalibration {
+  const predicted = outcomes.map(o => o.predictedSuccess);
+  const observed = outcomes.map(o => (o.correct ? 1 : 0));
+
+  const sums = Array.from({ length: binCount }, () => ({ predicted: 0, observed: 0, count: 0 }));
+  for (let i = 0; i < predicted.length; i++) {
+    const index = Math.min(binCount - 1, Math.floor(predicted[i] * binCount));
+    sums[index].predicted += predicted[i];
+    sums[index].observed += observed[i];
+    sums[index].count += 1;
+  }
+  const bins: CalibrationBin[] = sums
+    .filter(b => b.count > 0)
+    .map(b => ({ predicted: b.predicted / b.count, observed: b.observed / b.count, count: b.count }));
+  const squaredError = bins.reduce((sum, b) => sum + b.count * (b.predicted - b.observed) ** 2, 0);
+
+  const byIntentMap = new Map<string, IntentOutcome[]>();
+  for (const o of outcomes) {
+    byIntentMap.set(o.intent, [...(byIntentMap.get(o.intent) ?? []), o]);
+  }
+  const byIntent = [...byIntentMap.entries()]
+    .map(([intent, rows]) => ({
+      intent,
+      count: rows.length,
+      meanPredicted: mean(rows.map(r => r.predictedSuccess)),
+      observedRate: mean(rows.map(r => (r.correct ? 1 : 0))),
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    sampleCount: outcomes.length,
+    meanPredicted: mean(predicted),
+    observedRate: mean(observed),
+    brierScore: mean(predicted.map((p, i) => (p - observed[i]) ** 2)),
+    rmse: outcomes.length > 0 ? Math.sqrt(squaredError / outcomes.length) : 0,
+    bins,
+    byIntent,
+  };
+}
@@ -0,0 +1,481 @@
+/**
+ * LOGOS Corpus Source Adapters
+ *
+ * HTTP adapters behind the `api` sources of the dynamic corpus module.
+ * Each adapter turns a CorpusQuery into requests against one kind of
+ * service and parses the responses into ExtractedItems:
+ *
+ * - wikipedia: article search + plain-text extracts (Wikipedia, Simple
+ *   English Wikipedia), scored by frequency in the retrieved articles
+ * - wiktionary: domain category members or query keywords, looked up in
+ *   the Wiktionary definition API
+ * - rest-json: any JSON corpus service described by a RestJsonConfig
+ *
+ * Adapters never call fetch directly: they receive a JSON getter from
+ * dynamic-corpus.ts, which applies the source's rate limit and the
+ * injected transport.
+ *
+ * @module core/corpus-adapters
+ */
+
+import type {
+  CorpusAdapterId,
+  CorpusQuery,
+  CorpusSource,
+  ExtractedItem,
+  RestJsonConfig,
+} from './dynamic-corpus';
+import { tokenize, extractLemma, analyzeLexical, calculateLexicalDifficulty } from './lexical';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Fetches a URL and returns its parsed JSON body.
+ * Throws CorpusHttpError for non-2xx responses.
+ */
+export type JsonGetter = (url: string) => Promise<unknown>;
+
+/**
+ * Raw items returned by an adapter, before query filters are applied.
+ */
+export interface AdapterResult {
+  /** Items parsed from the responses */
+  items: ExtractedItem[];
+
+  /** Documents, entries or records the items were drawn from */
+  totalAvailable: number;
+}
+
+/**
+ * Source adapter for one kind of corpus service.
+ */
+export interface CorpusSourceAdapter {
+  /** Adapter identifier referenced by CorpusSource.adapter */
+  id: CorpusAdapterId;
+
+  /** Fetch and parse items for a query */
+  fetchItems(source: CorpusSource, query: CorpusQuery, getJson: JsonGetter): Promise<AdapterResult>;
+}
+
+/**
+ * Non-2xx response from a corpus service.
+ */
+export class CorpusHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly url: string
+  ) {
+    super(`Corpus request failed with HTTP ${status}: ${url}`);
+    this.name = 'CorpusHttpError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Adapter request limits.
+ */
+export const CORPUS_ADAPTER_CONFIG = {
+  /** Articles fetched per Wikipedia query */
+  wikipediaArticles: 5,
+  /** Occurrences a word needs in the extracts to count */
+  wikipediaMinCount: 2,
+  /** Definition lookups per Wiktionary query (one request each) */
+  wiktionaryLookups: 25,
+  /** Example contexts kept per item */
+  maxContexts: 2,
+};
+
+/**
+ * Wiktionary topic categories for goal domains.
+ */
+const WIKTIONARY_CATEGORIES: Record<string, string> = {
+  medical: 'en:Medicine',
+  healthcare: 'en:Medicine',
+  nursing: 'en:Nursing',
+  legal: 'en:Law',
+  business: 'en:Business',
+  finance: 'en:Finance',
+  academic: 'en:Education',
+  technical: 'en:Computing',
+  technology: 'en:Computing',
+  general: 'en:English basic words',
+};
+
+/**
+ * Function words skipped when counting article vocabulary.
+ */
+const FUNCTION_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'nor', 'so', 'yet', 'if', 'then', 'than',
+  'of', 'in', 'on', 'at', 'to', 'for', 'with', 'by', 'from', 'as', 'into', 'onto',
+  'about', 'over', 'under', 'after', 'before', 'between', 'through', 'during', 'without',
+  'be', 'is', 'are', 'was', 'were', 'been', 'being', 'am',
+  'have', 'has', 'had', 'do', 'does', 'did',
+  'will', 'would', 'can', 'could', 'may', 'might', 'must', 'shall', 'should',
+  'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them',
+  'my', 'your', 'his', 'its', 'our', 'their', 'this', 'that', 'these', 'those',
+  'who', 'whom', 'whose', 'which', 'what', 'where', 'when', 'why', 'how',
+  'not', 'no', 'also', 'such', 'there', 'here', 'other', 'some', 'any', 'all',
+  'more', 'most', 'many', 'much', 'one', 'two', 'both', 'each', 'only', 'very',
+]); // prettier-ignore
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Reads a dot-separated path ("data.items") from a JSON value.
+ */
+function readPath(value: unknown, path: string | undefined): unknown {
+  if (!path) {
+    return value;
+  }
+  return path.split('.').reduce<unknown>((current, key) => asRecord(current)[key], value);
+}
+
+/**
+ * Strips markup from Wiktionary definition HTML.
+ */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Lexical difficulty of a word on the 0-1 scale used by ExtractedItem.
+ */
+function estimateDifficulty(word: string): number {
+  return clamp01((calculateLexicalDifficulty(analyzeLexical(word)) + 3) / 6);
+}
+
+/**
+ * Free-text search terms for a query.
+ */
+function searchTerms(query: CorpusQuery): string {
+  if (query.keywords && query.keywords.length > 0) {
+    return query.keywords.join(' ');
+  }
+  return [query.domain, query.genre].filter(Boolean).join(' ');
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+// ============================================================================
+// Wikipedia
+// ============================================================================
+
+/**
+ * Searches articles for the query and counts words in their extracts.
+ *
+ * Frequency is relative to the most common word in the retrieved text;
+ * domain relevance is the share of articles that use the word, weighted
+ * toward words outside the high-frequency bands.
+ */
+export const wikipediaAdapter: CorpusSourceAdapter = {
+  id: 'wikipedia',
+
+  async fetchItems(source, query, getJson) {
+    const base = source.baseUrl ?? 'https://en.wikipedia.org/w/api.php';
+    const search = await getJson(
+      `${base}?action=query&list=search&srsearch=${encodeURIComponent(searchTerms(query))}` +
+        `&srlimit=${CORPUS_ADAPTER_CONFIG.wikipediaArticles}&format=json&origin=*`
+    );
+    const pageIds = asArray(asRecord(asRecord(search).query).search)
+      .map((hit) => asNumber(asRecord(hit).pageid))
+      .filter((id): id is number => id !== undefined);
+
+    if (pageIds.length === 0) {
+      return { items: [], totalAvailable: 0 };
+    }
+
+    const pages = await getJson(
+      `${base}?action=query&prop=extracts&explaintext=1&exintro=1&exlimit=max` +
+        `&pageids=${pageIds.join('|')}&format=json&origin=*`
+    );
+    const extracts = Object.values(asRecord(asRecord(asRecord(pages).query).pages))
+      .map((page) => asString(asRecord(page).extract))
+      .filter((text): text is string => text !== undefined);
+
+    type WordCount = { count: number; docs: Set<number>; contexts: string[] };
+    const counts = new Map<string, WordCount>();
+    const addContext = (entry: WordCount, sentence: string): void => {
+      if (
+        entry.contexts.length < CORPUS_ADAPTER_CONFIG.maxContexts &&
+        !entry.contexts.includes(sentence)
+      ) {
+        entry.contexts.push(sentence);
+      }
+    };
+
+    extracts.forEach((text, docIndex) => {
+      for (const sentence of splitSentences(text)) {
+        for (const token of tokenize(sentence)) {
+          if (token.length < 3 || FUNCTION_WORDS.has(token) || !/^[a-z][a-z'-]*$/.test(token)) {
+            continue;
+          }
+          const entry = counts.get(token) ?? { count: 0, docs: new Set<number>(), contexts: [] };
+          entry.count++;
+          entry.docs.add(docIndex);
+          addContext(entry, sentence);
+          counts.set(token, entry);
+        }
+      }
+    });
+
+    // Fold inflected forms into their base form, but only when the base
+    // form occurs too: the suffix-stripping lemmatizer misreads words such
+    // as "sepsis" or "need" on its own.
+    for (const [token, entry] of Array.from(counts)) {
+      const base = counts.get(extractLemma(token));
+      if (base && base !== entry) {
+        base.count += entry.count;
+        entry.docs.forEach((doc) => base.docs.add(doc));
+        entry.contexts.forEach((sentence) => addContext(base, sentence));
+        counts.delete(token);
+      }
+    }
+
+    const maxCount = Math.max(1, ...Array.from(counts.values(), (e) => e.count));
+    const items: ExtractedItem[] = [];
+    for (const [word, entry] of counts) {
+      if (entry.count < CORPUS_ADAPTER_CONFIG.wikipediaMinCount) {
+        continue;
+      }
+      const analysis = analyzeLexical(word);
+      const rarity = 1 - analysis.frequency;
+      items.push({
+        content: word,
+        frequency: entry.count / maxCount,
+        domainRelevance: clamp01(0.5 * (entry.docs.size / extracts.length) + 0.5 * rarity),
+        domain: query.domain,
+        pos: analysis.pos,
+        contexts: entry.contexts,
+        collocations: [],
+        estimatedDifficulty: estimateDifficulty(word),
+        sourceId: source.id,
+        rawFrequency: entry.count,
+      });
+    }
+
+    return { items, totalAvailable: extracts.length };
+  },
+};
+
+// ============================================================================
+// Wiktionary
+// ============================================================================
+
+/**
+ * Looks up query keywords, or members of the domain's topic category, in
+ * the Wiktionary definition API. Entries missing from Wiktionary are
+ * skipped; other HTTP errors fail the query.
+ */
+export const wiktionaryAdapter: CorpusSourceAdapter = {
+  id: 'wiktionary',
+
+  async fetchItems(source, query, getJson) {
+    const base = source.baseUrl ?? 'https://en.wiktionary.org';
+    const limit = Math.min(query.targetCount, CORPUS_ADAPTER_CONFIG.wiktionaryLookups);
+    const fromKeywords = Boolean(query.keywords && query.keywords.length > 0);
+
+    let terms: string[];
+    if (query.keywords && query.keywords.length > 0) {
+      terms = query.keywords.slice(0, limit);
+    } else {
+      const category = WIKTIONARY_CATEGORIES[query.domain] ?? WIKTIONARY_CATEGORIES.general;
+      const members = await getJson(
+        `${base}/w/api.php?action=query&list=categorymembers` +
+          `&cmtitle=${encodeURIComponent(`Category:${category}`)}&cmnamespace=0` +
+          `&cmlimit=${limit}&format=json&origin=*`
+      );
+      terms = asArray(asRecord(asRecord(members).query).categorymembers)
+        .map((member) => asString(asRecord(member).title))
+        .filter((title): title is string => title !== undefined);
+    }
+
+    const items: ExtractedItem[] = [];
+    for (const term of terms) {
+      let entry: unknown;
+      try {
+        entry = await getJson(`${base}/api/rest_v1/page/definition/${encodeURIComponent(term)}`);
+      } catch (err) {
+        if (err instanceof CorpusHttpError && err.status === 404) {
+          continue;
+        }
+        throw err;
+      }
+
+      const usages = asArray(asRecord(entry)[query.language]);
+      const first = asRecord(usages[0]);
+      const senses = usages.flatMap((usage) => asArray(asRecord(usage).definitions));
+      const definition = senses
+        .map((sense) => asString(asRecord(sense).definition))
+        .find((text): text is string => text !== undefined);
+      if (!definition) {
+        continue;
+      }
+
+      const examples = senses
+        .flatMap((sense) => asArray(asRecord(sense).examples))
+        .map((example) => asString(example))
+        .filter((text): text is string => text !== undefined)
+        .map(stripHtml)
+        .slice(0, CORPUS_ADAPTER_CONFIG.maxContexts);
+
+      const content = term.toLowerCase();
+      items.push({
+        content,
+        frequency: analyzeLexical(content).frequency,
+        domainRelevance: fromKeywords ? 0.7 : 0.9,
+        domain: query.domain,
+        pos: asString(first.partOfSpeech)?.toLowerCase(),
+        definition: stripHtml(definition),
+        contexts: examples,
+        collocations: [],
+        estimatedDifficulty: estimateDifficulty(content),
+        sourceId: source.id,
+      });
+    }
+
+    return { items, totalAvailable: terms.length };
+  },
+};
+
+// ============================================================================
+// Generic REST JSON
+// ============================================================================
+
+/**
+ * Expands {domain}, {genre}, {language}, {count} and {keywords} in a
+ * configured parameter value.
+ */
+function expandParam(template: string, query: CorpusQuery): string {
+  const values: Record<string, string> = {
+    domain: query.domain,
+    genre: query.genre ?? '',
+    language: query.language,
+    count: String(query.targetCount),
+    keywords: (query.keywords ?? []).join(','),
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * Builds the request URL for a REST JSON source.
+ */
+export function buildRestJsonUrl(source: CorpusSource, query: CorpusQuery): string {
+  const config: RestJsonConfig = source.rest ?? { fields: { content: 'word' } };
+  const url = new URL(`${source.baseUrl ?? ''}${config.path ?? ''}`);
+  for (const [key, template] of Object.entries(config.params ?? {})) {
+    url.searchParams.set(key, expandParam(template, query));
+  }
+  return url.toString();
+}
+
+/**
+ * Reads items from any JSON corpus service. Field names come from the
+ * source's RestJsonConfig; frequencies above 1 are treated as raw counts
+ * and normalized against the largest count in the response.
+ */
+export const restJsonAdapter: CorpusSourceAdapter = {
+  id: 'rest-json',
+
+  async fetchItems(source, query, getJson) {
+    const config = source.rest;
+    if (!config) {
+      throw new Error(`Corpus source ${source.id} has no REST configuration`);
+    }
+
+    const body = await getJson(buildRestJsonUrl(source, query));
+    const records = asArray(readPath(body, config.itemsPath)).map(asRecord);
+    const { fields } = config;
+
+    const rawFrequencies = records.map((r) =>
+      fields.frequency ? asNumber(r[fields.frequency]) : undefined
+    );
+    const maxRaw = Math.max(1, ...rawFrequencies.map((f) => f ?? 0));
+    const domainRelevance = source.domains.includes(query.domain) ? 0.8 : 0.5;
+
+    const items: ExtractedItem[] = [];
+    records.forEach((record, i) => {
+      const content = asString(record[fields.content])?.toLowerCase();
+      if (!content) {
+        return;
+      }
+      const raw = rawFrequencies[i];
+      const context = fields.context ? asString(record[fields.context]) : undefined;
+      const difficulty = fields.difficulty ? asNumber(record[fields.difficulty]) : undefined;
+
+      items.push({
+        content,
+        frequency:
+          raw === undefined ? analyzeLexical(content).frequency : raw > 1 ? raw / maxRaw : raw,
+        domainRelevance,
+        domain: query.domain,
+        pos: fields.pos ? asString(record[fields.pos])?.toLowerCase() : undefined,
+        definition: fields.definition ? asString(record[fields.definition]) : undefined,
+        contexts: context ? [context] : [],
+        collocations: [],
+        estimatedDifficulty:
+          difficulty !== undefined && difficulty >= 0 && difficulty <= 1
+            ? difficulty
+            : estimateDifficulty(content),
+        sourceId: source.id,
+        rawFrequency: raw !== undefined && raw > 1 ? raw : undefined,
+      });
+    });
+
+    return { items, totalAvailable: records.length };
+  },
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Adapters by identifier.
+ */
+export const CORPUS_ADAPTERS: Record<CorpusAdapterId, CorpusSourceAdapter> = {
+  wikipedia: wikipediaAdapter,
+  wiktionary: wiktionaryAdapter,
+  'rest-json': restJsonAdapter,
+};
@@ -0,0 +1,303 @@
+/**
+ * Deck Import Module
+ *
+ * Pure helpers for bringing flashcard decks from other tools into LOGOS:
+ * delimited text parsing (CSV/TSV, including Anki's text export headers),
+ * flashcard markup cleanup, and replay of Anki review logs through FSRS so
+ * imported items keep their scheduling history.
+ *
+ * Anki review log semantics (revlog table):
+ * - ease: 1=Again, 2=Hard, 3=Good, 4=Easy, 0=manual reschedule
+ * - type: 0=learn, 1=review, 2=relearn, 3=filtered/cram, 4=manual
+ *
+ * @module core/deck-import
+ */
+
+import { FSRS, createInitialMasteryState, determineStage } from './fsrs';
+import type { FSRSRating, MasteryState } from './fsrs';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A single review from an external scheduler's log.
+ */
+export interface DeckReview {
+  /** When the review happened */
+  timestamp: Date;
+  /** Anki ease button (0 = manual reschedule, 1-4 = Again..Easy) */
+  ease: number;
+  /** Anki review type (0 learn, 1 review, 2 relearn, 3 filtered, 4 manual) */
+  type: number;
+}
+
+/**
+ * A flashcard extracted from an external deck.
+ */
+export interface DeckCard {
+  /** Prompt side, becomes LanguageObject.content */
+  front: string;
+  /** Answer side (translation/definition) */
+  back: string;
+  tags: string[];
+  /** Review history, oldest first (empty for plain CSV decks) */
+  reviews: DeckReview[];
+}
+
+/**
+ * Options for delimited (CSV/TSV) deck parsing.
+ */
+export interface DelimitedDeckOptions {
+  /** Field delimiter; detected from the file when omitted */
+  delimiter?: string;
+  /** Treat the first data row as a header */
+  hasHeader?: boolean;
+  /** Zero-based column holding the front side (default 0) */
+  frontColumn?: number;
+  /** Zero-based column holding the back side (default 1) */
+  backColumn?: number;
+  /** Zero-based column holding space-separated tags */
+  tagsColumn?: number;
+}
+
+/**
+ * Result of parsing a delimited deck.
+ */
+export interface DelimitedDeckResult {
+  cards: DeckCard[];
+  /** Human-readable problems, one per skipped row */
+  errors: string[];
+}
+
+// =============================================================================
+// Markup Cleanup
+// =============================================================================
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&apos;': "'",
+};
+
+/**
+ * Reduce flashcard field markup to plain text.
+ *
+ * Removes HTML tags, Anki media references ([sound:x.mp3]), resolves cloze
+ * deletions ({{c1::answer::hint}} -> answer) and collapses whitespace.
+ */
+export function stripDeckMarkup(field: string): string {
+  return field
+    .replace(/\{\{c\d+::(.*?)(?:::[^}]*)?\}\}/g, '$1')
+    .replace(/\[sound:[^\]]*\]/g, ' ')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(?:nbsp|amp|lt|gt|quot|apos|#39);/g, (entity) => HTML_ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// =============================================================================
+// Delimited Text Parsing
+// =============================================================================
+
+/**
+ * Guess the field delimiter from the first data line.
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim() && !line.startsWith('#')) ?? '';
+  const candidates = ['\t', ';', ','];
+  let best = '\t';
+  let bestCount = 0;
+
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Split delimited text into rows of fields (RFC 4180 quoting).
+ */
+function splitRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read Anki text-export header directives (#separator:tab, #tags column:3).
+ */
+function readHeaderDirectives(lines: string[]): { delimiter?: string; tagsColumn?: number } {
+  const separators: Record<string, string> = {
+    tab: '\t',
+    comma: ',',
+    semicolon: ';',
+    pipe: '|',
+    space: ' ',
+  };
+  const directives: { delimiter?: string; tagsColumn?: number } = {};
+
+  for (const line of lines) {
+    const match = /^#([a-z ]+):(.*)$/i.exec(line.trim());
+    if (!match) {
+      continue;
+    }
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (key === 'separator') {
+      directives.delimiter = separators[value.toLowerCase()] ?? value;
+    } else if (key === 'tags column') {
+      const column = parseInt(value, 10);
+      if (column > 0) {
+        directives.tagsColumn = column - 1;
+      }
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Parse a CSV/TSV deck into cards.
+ *
+ * Lines starting with '#' are treated as Anki export directives or comments.
+ * Rows with an empty front are skipped and reported.
+ */
+export function parseDelimitedDeck(
+  text: string,
+  options: DelimitedDeckOptions = {}
+): DelimitedDeckResult {
+  const source = text.replace(/^\uFEFF/, '');
+  const lines = source.split(/\r?\n/);
+  const headerLines = lines.filter((line) => line.startsWith('#'));
+  const body = lines.filter((line) => !line.startsWith('#')).join('\n');
+
+  const directives = readHeaderDirectives(headerLines);
+  const delimiter = options.delimiter ?? directives.delimiter ?? detectDelimiter(body);
+  const frontColumn = options.frontColumn ?? 0;
+  const backColumn = options.backColumn ?? 1;
+  const tagsColumn = options.tagsColumn ?? directives.tagsColumn;
+
+  const rows = splitRows(body, delimiter);
+  const dataRows = options.hasHeader ? rows.slice(1) : rows;
+  const cards: DeckCard[] = [];
+  const errors: string[] = [];
+
+  dataRows.forEach((fields, index) => {
+    const rowNumber = index + (options.hasHeader ? 2 : 1);
+    if (fields.every((f) => f.trim() === '')) {
+      return;
+    }
+
+    const front = stripDeckMarkup(fields[frontColumn] ?? '');
+    if (!front) {
+      errors.push(`Row ${rowNumber}: empty front field`);
+      return;
+    }
+
+    const tags = tagsColumn !== undefined
+      ? (fields[tagsColumn] ?? '').split(/\s+/).filter(Boolean)
+      : [];
+
+    cards.push({
+      front,
+      back: stripDeckMarkup(fields[backColumn] ?? ''),
+      tags,
+      reviews: [],
+    });
+  });
+
+  return { cards, errors };
+}
+
+// =============================================================================
+// Review History Replay
+// =============================================================================
+
+/**
+ * Map an Anki ease button to an FSRS rating.
+ * Returns null for manual reschedules, which carry no recall signal.
+ */
+export function ankiEaseToRating(ease: number): FSRSRating | null {
+  if (ease >= 1 && ease <= 4) {
+    return ease as FSRSRating;
+  }
+  return null;
+}
+
+/**
+ * Rebuild a mastery state by replaying an external review log through FSRS.
+ *
+ * Every scored review counts as a cue-free recall attempt (flashcards hide
+ * the answer), using the same recency weighting as updateMastery.
+ * Manual reschedules are ignored.
+ */
+export function replayReviewHistory(reviews: DeckReview[], fsrs: FSRS): MasteryState {
+  const state = createInitialMasteryState();
+  const ordered = [...reviews].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  for (const review of ordered) {
+    const rating = review.type === 4 ? null : ankiEaseToRating(review.ease);
+    if (rating === null) {
+      continue;
+    }
+
+    state.fsrsCard = fsrs.schedule(state.fsrsCard, rating, review.timestamp);
+    state.exposureCount += 1;
+
+    const weight = 1 / (state.exposureCount * 0.3 + 1);
+    state.cueFreeAccuracy = (1 - weight) * state.cueFreeAccuracy + weight * (rating > 1 ? 1 : 0);
+  }
+
+  state.stage = determineStage(state);
+  return state;
+}
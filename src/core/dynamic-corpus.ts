@@ -16,10 +16,14 @@
  * 3. Frequency and collocation analysis from external data
  * 4. Caching layer for API efficiency
  * 5. Fallback to static data when APIs unavailable
+ * 6. Rate-limited HTTP adapters (corpus-adapters.ts) over an injected
+ *    transport, with responses persisted through a CorpusStore
  *
  * @module core/dynamic-corpus
  */
 
+import { CORPUS_ADAPTERS, CorpusHttpError } from './corpus-adapters';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -40,6 +44,12 @@ export interface CorpusSource {
   /** Base URL for API sources */
   baseUrl?: string;
 
+  /** Adapter that queries API sources (see corpus-adapters.ts) */
+  adapter?: CorpusAdapterId;
+
+  /** Request and field mapping for 'rest-json' sources */
+  rest?: RestJsonConfig;
+
   /** Supported domains */
   domains: string[];
 
@@ -59,6 +69,35 @@ export interface CorpusSource {
   priority: number;
 }
 
+/**
+ * HTTP adapters available to API sources.
+ */
+export type CorpusAdapterId = 'wikipedia' | 'wiktionary' | 'rest-json';
+
+/**
+ * Request and field mapping for a generic REST JSON corpus.
+ */
+export interface RestJsonConfig {
+  /** Path appended to the source's baseUrl */
+  path?: string;
+
+  /** Query parameters; {domain}, {genre}, {language}, {count} and {keywords} are expanded */
+  params?: Record<string, string>;
+
+  /** Dot path to the item array in the response (root when omitted) */
+  itemsPath?: string;
+
+  /** Item field names */
+  fields: {
+    content: string;
+    frequency?: string;
+    pos?: string;
+    definition?: string;
+    context?: string;
+    difficulty?: string;
+  };
+}
+
 /**
  * Query parameters for corpus search.
  */
@@ -110,6 +149,9 @@ export interface ExtractedItem {
   /** Part of speech */
   pos?: string;
 
+  /** Dictionary definition (if the source provides one) */
+  definition?: string;
+
   /** Example contexts */
   contexts: string[];
 
@@ -201,6 +243,61 @@ export interface DomainVocabularyStats {
   updatedAt: Date;
 }
 
+/**
+ * Adapter items persisted for one source query.
+ */
+export interface StoredCorpusResult {
+  items: ExtractedItem[];
+  totalAvailable: number;
+  expiresAt: Date;
+}
+
+/**
+ * Outcome of one API source query, for the query log.
+ */
+export interface CorpusQueryLog {
+  resultCount: number;
+  cacheHit: boolean;
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Persistence for API source responses and the query log.
+ * Implemented over the CorpusCache and CorpusQuery tables in the main process.
+ */
+export interface CorpusStore {
+  /** Cached items for a key, or null when missing or expired */
+  getCached(source: CorpusSource, cacheKey: string, now: Date): Promise<StoredCorpusResult | null>;
+
+  /** Stores fresh items under a key */
+  putCached(
+    source: CorpusSource,
+    cacheKey: string,
+    query: CorpusQuery,
+    result: StoredCorpusResult
+  ): Promise<void>;
+
+  /** Records a query against a source */
+  recordQuery(source: CorpusSource, query: CorpusQuery, log: CorpusQueryLog): Promise<void>;
+}
+
+/**
+ * Network access for API sources. API sources are skipped until a
+ * transport is configured, so the module stays offline by default.
+ */
+export interface DynamicCorpusTransport {
+  /** Fetch implementation (global fetch in the app, a fixture server in tests) */
+  fetch: typeof fetch;
+
+  /** Persistent response cache and query log */
+  store?: CorpusStore;
+
+  /** Per-request timeout in milliseconds (default 15s) */
+  timeoutMs?: number;
+}
+
 /**
  * Cache entry for corpus results.
  */
@@ -225,6 +322,21 @@ const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000;
  */
 const MAX_CACHE_SIZE = 100;
 
+/**
+ * How long persisted API responses stay valid (7 days).
+ */
+const API_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Requests per minute for API sources that declare no rate limit.
+ */
+const DEFAULT_RATE_LIMIT = 30;
+
+/**
+ * How long a single API request may take before it is aborted.
+ */
+const DEFAULT_REQUEST_TIMEOUT_MS = 15_000;
+
 /**
  * Built-in corpus sources.
  */
@@ -265,6 +377,45 @@ export const CORPUS_SOURCES: CorpusSource[] = [
     requiresAuth: false,
     priority: 7,
   },
+  {
+    id: 'simple_wikipedia',
+    name: 'Simple English Wikipedia',
+    type: 'api',
+    adapter: 'wikipedia',
+    baseUrl: 'https://simple.wikipedia.org/w/api.php',
+    domains: ['general', 'academic', 'medical', 'business', 'legal', 'technical'],
+    languages: ['en'],
+    rateLimit: 60,
+    isAvailable: true,
+    requiresAuth: false,
+    priority: 6,
+  },
+  {
+    id: 'wikipedia',
+    name: 'Wikipedia',
+    type: 'api',
+    adapter: 'wikipedia',
+    baseUrl: 'https://en.wikipedia.org/w/api.php',
+    domains: ['general', 'academic', 'medical', 'business', 'legal', 'technical'],
+    languages: ['en'],
+    rateLimit: 60,
+    isAvailable: true,
+    requiresAuth: false,
+    priority: 4,
+  },
+  {
+    id: 'wiktionary',
+    name: 'Wiktionary',
+    type: 'api',
+    adapter: 'wiktionary',
+    baseUrl: 'https://en.wiktionary.org',
+    domains: ['general', 'academic', 'medical', 'business', 'legal', 'technical'],
+    languages: ['en'],
+    rateLimit: 60,
+    isAvailable: true,
+    requiresAuth: false,
+    priority: 6,
+  },
   {
     id: 'embedded_medical',
     name: 'LOGOS Medical Vocabulary',
@@ -447,6 +598,92 @@ class CorpusCache {
 // Global cache instance
 const corpusCache = new CorpusCache();
 
+// ============================================================================
+// Transport
+// ============================================================================
+
+let transport: DynamicCorpusTransport | null = null;
+
+/** Earliest time (ms) each source may send its next request */
+const nextRequestAt = new Map<string, number>();
+
+/**
+ * Enables API sources over the given transport, or disables them with null.
+ *
+ * @param next - Fetch implementation and optional persistent store
+ */
+export function configureDynamicCorpus(next: DynamicCorpusTransport | null): void {
+  transport = next;
+  nextRequestAt.clear();
+}
+
+/**
+ * Waits for the source's next request slot. Slots are reserved before
+ * waiting, so concurrent queries against one source queue up instead of
+ * bursting past the declared requests-per-minute.
+ */
+async function acquireRequestSlot(source: CorpusSource): Promise<void> {
+  const interval = 60_000 / (source.rateLimit ?? DEFAULT_RATE_LIMIT);
+  const now = Date.now();
+  const slot = Math.max(now, nextRequestAt.get(source.id) ?? 0);
+  nextRequestAt.set(source.id, slot + interval);
+
+  if (slot > now) {
+    await new Promise((resolve) => setTimeout(resolve, slot - now));
+  }
+}
+
+/**
+ * Rate-limited JSON GET for a source. The timeout covers the body as well
+ * as the headers; a timed-out request fails like any other error.
+ */
+async function getSourceJson(
+  active: DynamicCorpusTransport,
+  source: CorpusSource,
+  url: string
+): Promise<unknown> {
+  await acquireRequestSlot(source);
+  const timeoutMs = active.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+
+  try {
+    const response = await active.fetch(url, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new CorpusHttpError(response.status, url);
+    }
+    return await response.json();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`Corpus request timed out after ${timeoutMs}ms: ${url}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether an API source can be queried: it needs an adapter and a transport.
+ */
+function isAPISourceReady(source: CorpusSource): boolean {
+  return transport !== null && source.adapter !== undefined;
+}
+
+/**
+ * Adds a corpus source, replacing any source with the same id.
+ * Used for user-configured REST corpora.
+ *
+ * @param source - Source definition
+ */
+export function registerCorpusSource(source: CorpusSource): void {
+  const index = CORPUS_SOURCES.findIndex((s) => s.id === source.id);
+  if (index >= 0) {
+    CORPUS_SOURCES[index] = source;
+  } else {
+    CORPUS_SOURCES.push(source);
+  }
+}
+
 // ============================================================================
 // Core Functions
 // ============================================================================
@@ -512,7 +749,10 @@ export async function queryCorpus(
  */
 function getAvailableSources(domain: string, preferredSources?: string[]): CorpusSource[] {
   let sources = CORPUS_SOURCES.filter(
-    (s) => s.isAvailable && s.domains.some((d) => d === domain || d === 'general')
+    (s) =>
+      s.isAvailable &&
+      (s.type !== 'api' || isAPISourceReady(s)) &&
+      s.domains.some((d) => d === domain || d === 'general')
   );
 
   // Sort by priority and preference
@@ -553,22 +793,112 @@ async function querySource(source: CorpusSource, query: CorpusQuery): Promise<Co
 }
 
 /**
- * Queries an API-based corpus source.
+ * Cache key for an API source query. Filters applied after fetching
+ * (frequency, difficulty, POS, exclusions) are left out so queries that
+ * differ only in those share one stored response.
+ */
+function apiCacheKey(source: CorpusSource, query: CorpusQuery): string {
+  return `${source.id}:${JSON.stringify({
+    domain: query.domain,
+    genre: query.genre,
+    language: query.language,
+    targetCount: query.targetCount,
+    keywords: query.keywords,
+  })}`;
+}
+
+/**
+ * Writes to the store without failing the query.
+ */
+async function persist(action: () => Promise<void>): Promise<void> {
+  try {
+    await action();
+  } catch (error) {
+    console.warn('Failed to persist corpus query:', error);
+  }
+}
+
+/**
+ * Queries an API-based corpus source through its adapter.
  *
- * This is a placeholder for actual API integration.
- * In production, this would make HTTP requests to external corpus APIs.
+ * Stored responses are served until they expire; otherwise the adapter
+ * fetches fresh items under the source's rate limit and the result is
+ * stored. Every query is logged, including failures, which are rethrown
+ * so queryCorpus can move on to the next source.
  */
 async function queryAPISource(
   source: CorpusSource,
   query: CorpusQuery,
   startTime: number
 ): Promise<CorpusResult> {
-  // Placeholder: In production, this would make actual API calls
-  // For now, simulate with embedded data with a slight delay
-  await new Promise((resolve) => setTimeout(resolve, 50));
+  const active = transport;
+  const adapter = source.adapter ? CORPUS_ADAPTERS[source.adapter] : undefined;
+  if (!active || !adapter) {
+    throw new Error(`Corpus source ${source.id} has no adapter or transport`);
+  }
+
+  const store = active.store;
+  const cacheKey = apiCacheKey(source, query);
+  const cached = store
+    ? await store.getCached(source, cacheKey, new Date()).catch((error: unknown) => {
+        console.warn('Failed to read stored corpus query:', error);
+        return null;
+      })
+    : null;
+
+  if (store && cached) {
+    const result = buildResult(source, query, cached.items, cached.totalAvailable, startTime);
+    await persist(() =>
+      store.recordQuery(source, query, {
+        resultCount: result.items.length,
+        cacheHit: true,
+        latencyMs: result.metadata.queryTime,
+        success: true,
+      })
+    );
+    return {
+      ...result,
+      metadata: { ...result.metadata, fromCache: true, cacheExpiry: cached.expiresAt },
+    };
+  }
 
-  // Fall back to embedded data for demo
-  return queryEmbeddedCorpus(query, startTime, source);
+  try {
+    const fetched = await adapter.fetchItems(source, query, (url) =>
+      getSourceJson(active, source, url)
+    );
+    const result = buildResult(source, query, fetched.items, fetched.totalAvailable, startTime);
+
+    if (store) {
+      await persist(() =>
+        store.putCached(source, cacheKey, query, {
+          ...fetched,
+          expiresAt: new Date(Date.now() + API_CACHE_TTL_MS),
+        })
+      );
+      await persist(() =>
+        store.recordQuery(source, query, {
+          resultCount: result.items.length,
+          cacheHit: false,
+          latencyMs: result.metadata.queryTime,
+          success: true,
+        })
+      );
+    }
+    return result;
+  } catch (error) {
+    if (store) {
+      await persist(() =>
+        store.recordQuery(source, query, {
+          resultCount: 0,
+          cacheHit: false,
+          latencyMs: Date.now() - startTime,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+    throw error;
+  }
 }
 
 /**
@@ -580,8 +910,32 @@ function queryEmbeddedCorpus(
   source?: CorpusSource
 ): CorpusResult {
   // Get vocabulary for the domain
-  let vocabulary = EMBEDDED_VOCABULARY[query.domain] || EMBEDDED_VOCABULARY['general'] || [];
+  const vocabulary = EMBEDDED_VOCABULARY[query.domain] || EMBEDDED_VOCABULARY['general'] || [];
+
+  const usedSource = source || {
+    id: `embedded_${query.domain}`,
+    name: `LOGOS ${query.domain} Vocabulary`,
+    type: 'embedded' as const,
+    domains: [query.domain],
+    languages: ['en'],
+    isAvailable: true,
+    requiresAuth: false,
+    priority: 5,
+  };
+
+  return buildResult(usedSource, query, vocabulary, vocabulary.length, startTime);
+}
 
+/**
+ * Applies query filters to source items and packages the result.
+ */
+function buildResult(
+  source: CorpusSource,
+  query: CorpusQuery,
+  vocabulary: ExtractedItem[],
+  totalAvailable: number,
+  startTime: number
+): CorpusResult {
   // Apply filters
   let filtered = vocabulary.filter((item) => {
     // Frequency filter
@@ -627,23 +981,12 @@ function queryEmbeddedCorpus(
   // Limit to target count
   filtered = filtered.slice(0, query.targetCount);
 
-  const usedSource = source || {
-    id: `embedded_${query.domain}`,
-    name: `LOGOS ${query.domain} Vocabulary`,
-    type: 'embedded' as const,
-    domains: [query.domain],
-    languages: ['en'],
-    isAvailable: true,
-    requiresAuth: false,
-    priority: 5,
-  };
-
   return {
-    source: usedSource,
+    source,
     items: filtered,
     metadata: {
       queryTime: Date.now() - startTime,
-      totalAvailable: vocabulary.length,
+      totalAvailable,
       domainCoverage: filtered.length > 0 ? filtered.length / query.targetCount : 0,
       fromCache: false,
     },
@@ -0,0 +1,351 @@
+/**
+ * FSRS Parameter Optimizer
+ *
+ * Fits the 17 FSRS weights to a single learner's review history.
+ *
+ * Each object's review sequence is replayed through the scheduler. Before
+ * every review after the first, the model's retrievability R is taken as the
+ * predicted probability of recall and scored against the actual outcome
+ * (rating > Again). Weights are fitted by minimizing mean log-loss with Adam
+ * on central finite-difference gradients, clamped to plausible ranges and
+ * lightly regularized toward the starting weights so that sparse histories
+ * do not drift far from the defaults.
+ *
+ * Academic References:
+ * - Ye, J. et al. (2022). A Stochastic Shortest Path Algorithm for Optimizing
+ *   Spaced Repetition Scheduling. KDD.
+ * - Kingma, D.P. & Ba, J. (2015). Adam: A Method for Stochastic Optimization. ICLR.
+ *
+ * @module core/fsrs-optimizer
+ */
+
+import { FSRS, DEFAULT_WEIGHTS, createNewCard } from './fsrs';
+import type { FSRSRating } from './fsrs';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * One review of one object.
+ */
+export interface ReviewEvent {
+  rating: FSRSRating;
+  timestamp: Date;
+}
+
+/**
+ * Chronological reviews of a single object.
+ */
+export type ReviewSequence = ReviewEvent[];
+
+/**
+ * One reliability-diagram bin.
+ */
+export interface CalibrationBin {
+  /** Mean predicted recall probability in the bin */
+  predicted: number;
+  /** Observed recall rate in the bin */
+  observed: number;
+  count: number;
+}
+
+/**
+ * How well a weight set predicts recall outcomes.
+ */
+export interface CalibrationReport {
+  /** Mean binary cross-entropy (lower is better) */
+  logLoss: number;
+  /** Count-weighted RMSE between predicted and observed recall across bins */
+  rmse: number;
+  /** Number of scored predictions */
+  sampleCount: number;
+  bins: CalibrationBin[];
+}
+
+export interface OptimizerOptions {
+  /** Starting weights (default: DEFAULT_WEIGHTS) */
+  initialWeights?: number[];
+  /** Adam iterations (default 80) */
+  iterations?: number;
+  /** Adam step size, relative to each weight's scale (default 0.05) */
+  learningRate?: number;
+  /** L2 pull toward the initial weights (default 0.002) */
+  regularization?: number;
+  /** Minimum scored predictions required to fit (default 100) */
+  minSamples?: number;
+  /** Number of calibration bins (default 10) */
+  bins?: number;
+  /** Stop fitting after this long and keep the best weights so far (default: no limit) */
+  maxDurationMs?: number;
+}
+
+export interface OptimizationResult {
+  /** Fitted weights, or the initial weights when fitting did not help */
+  weights: number[];
+  /** Calibration of the initial weights */
+  before: CalibrationReport;
+  /** Calibration of the returned weights */
+  after: CalibrationReport;
+  /** True when the fitted weights beat the initial ones on log-loss */
+  improved: boolean;
+  /** Adam iterations completed (fewer than requested when maxDurationMs ran out) */
+  iterations: number;
+  /** Set when fitting was skipped */
+  reason?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Allowed range for each weight, following the clamps used by the reference
+ * FSRS optimizer.
+ */
+export const WEIGHT_BOUNDS: ReadonlyArray<readonly [number, number]> = [
+  [0.1, 100], [0.1, 100], [0.1, 100], [0.1, 100],  // Initial stability
+  [1, 10], [0.01, 5], [0.01, 5], [0, 0.8],          // Difficulty
+  [0, 6], [0, 0.8], [0.01, 5],                       // Stability growth
+  [0.2, 6], [0.01, 0.4], [0.01, 0.9], [0.01, 4],    // Post-lapse stability
+  [0, 1], [1, 6],                                    // Hard penalty / easy bonus
+];
+
+const PROBABILITY_EPSILON = 1e-4;
+
+const DEFAULT_OPTIONS: Required<Omit<OptimizerOptions, 'initialWeights'>> = {
+  iterations: 80,
+  learningRate: 0.05,
+  regularization: 0.002,
+  minSamples: 100,
+  bins: 10,
+  maxDurationMs: Infinity,
+};
+
+/** Longest stretch optimizeWeightsAsync computes before yielding to the event loop */
+const ASYNC_SLICE_MS = 20;
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Replay sequences with the given weights and collect (prediction, outcome) pairs.
+ */
+function collectPredictions(
+  sequences: ReviewSequence[],
+  weights: number[]
+): { predictions: number[]; outcomes: number[] } {
+  const fsrs = new FSRS({ w: weights });
+  const predictions: number[] = [];
+  const outcomes: number[] = [];
+
+  for (const sequence of sequences) {
+    let card = createNewCard();
+
+    for (const event of sequence) {
+      if (card.lastReview) {
+        predictions.push(fsrs.retrievability(card, event.timestamp));
+        outcomes.push(event.rating > 1 ? 1 : 0);
+      }
+      card = fsrs.schedule(card, event.rating, event.timestamp);
+    }
+  }
+
+  return { predictions, outcomes };
+}
+
+function meanLogLoss(predictions: number[], outcomes: number[]): number {
+  if (predictions.length === 0) {
+    return 0;
+  }
+
+  let total = 0;
+  for (let i = 0; i < predictions.length; i++) {
+    const p = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, predictions[i]));
+    total -= outcomes[i] * Math.log(p) + (1 - outcomes[i]) * Math.log(1 - p);
+  }
+  return total / predictions.length;
+}
+
+/**
+ * Score a weight set against review history.
+ */
+export function evaluateWeights(
+  sequences: ReviewSequence[],
+  weights: number[],
+  binCount: number = DEFAULT_OPTIONS.bins
+): CalibrationReport {
+  const { predictions, outcomes } = collectPredictions(sequences, weights);
+
+  const sums = Array.from({ length: binCount }, () => ({ predicted: 0, observed: 0, count: 0 }));
+  for (let i = 0; i < predictions.length; i++) {
+    const index = Math.min(binCount - 1, Math.floor(predictions[i] * binCount));
+    sums[index].predicted += predictions[i];
+    sums[index].observed += outcomes[i];
+    sums[index].count += 1;
+  }
+
+  const bins: CalibrationBin[] = sums
+    .filter((b) => b.count > 0)
+    .map((b) => ({ predicted: b.predicted / b.count, observed: b.observed / b.count, count: b.count }));
+
+  const squaredError = bins.reduce((sum, b) => sum + b.count * (b.predicted - b.observed) ** 2, 0);
+
+  return {
+    logLoss: meanLogLoss(predictions, outcomes),
+    rmse: predictions.length > 0 ? Math.sqrt(squaredError / predictions.length) : 0,
+    sampleCount: predictions.length,
+    bins,
+  };
+}
+
+/**
+ * Count the predictions a history would produce (reviews after the first, per object).
+ */
+export function countScoredReviews(sequences: ReviewSequence[]): number {
+  return sequences.reduce((sum, s) => sum + Math.max(0, s.length - 1), 0);
+}
+
+/**
+ * Clamp weights into WEIGHT_BOUNDS.
+ */
+export function clampWeights(weights: number[]): number[] {
+  return weights.map((w, i) => {
+    const [lower, upper] = WEIGHT_BOUNDS[i] ?? [-Infinity, Infinity];
+    return Math.min(upper, Math.max(lower, w));
+  });
+}
+
+// =============================================================================
+// Optimization
+// =============================================================================
+
+/**
+ * The fit as a generator that pauses after every gradient component, so that
+ * callers can spread the work over several event-loop turns.
+ */
+function* fitWeights(
+  sequences: ReviewSequence[],
+  options: OptimizerOptions
+): Generator<void, OptimizationResult, void> {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const deadline = Date.now() + config.maxDurationMs;
+  const initial = clampWeights([...(options.initialWeights ?? DEFAULT_WEIGHTS)]);
+  const ordered = sequences
+    .map((s) => [...s].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()))
+    .filter((s) => s.length > 1);
+
+  const before = evaluateWeights(ordered, initial, config.bins);
+
+  if (before.sampleCount < config.minSamples) {
+    return {
+      weights: initial,
+      before,
+      after: before,
+      improved: false,
+      iterations: 0,
+      reason: `Need at least ${config.minSamples} repeat reviews (have ${before.sampleCount})`,
+    };
+  }
+
+  const scale = initial.map((w) => Math.max(0.1, Math.abs(w)));
+
+  const objective = (weights: number[]): number => {
+    const { predictions, outcomes } = collectPredictions(ordered, weights);
+    let penalty = 0;
+    for (let i = 0; i < weights.length; i++) {
+      penalty += ((weights[i] - initial[i]) / scale[i]) ** 2;
+    }
+    return meanLogLoss(predictions, outcomes) + config.regularization * penalty;
+  };
+
+  // Adam state
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+  const m = new Array<number>(initial.length).fill(0);
+  const v = new Array<number>(initial.length).fill(0);
+
+  let weights = [...initial];
+  let best = { weights: initial, loss: objective(initial) };
+  let completed = 0;
+
+  fit: for (let t = 1; t <= config.iterations; t++) {
+    for (let i = 0; i < weights.length; i++) {
+      yield;
+      if (Date.now() >= deadline) {
+        break fit;
+      }
+
+      const h = 1e-3 * scale[i];
+      const up = [...weights];
+      const down = [...weights];
+      up[i] += h;
+      down[i] -= h;
+      const gradient = (objective(clampWeights(up)) - objective(clampWeights(down))) / (2 * h);
+
+      m[i] = beta1 * m[i] + (1 - beta1) * gradient;
+      v[i] = beta2 * v[i] + (1 - beta2) * gradient * gradient;
+      const mHat = m[i] / (1 - beta1 ** t);
+      const vHat = v[i] / (1 - beta2 ** t);
+      weights[i] -= config.learningRate * scale[i] * mHat / (Math.sqrt(vHat) + 1e-8);
+    }
+
+    weights = clampWeights(weights);
+    const loss = objective(weights);
+    if (loss < best.loss) {
+      best = { weights: [...weights], loss };
+    }
+    completed = t;
+  }
+
+  const after = evaluateWeights(ordered, best.weights, config.bins);
+  const improved = after.logLoss < before.logLoss;
+
+  return {
+    weights: improved ? best.weights : initial,
+    before,
+    after: improved ? after : before,
+    improved,
+    iterations: completed,
+  };
+}
+
+/**
+ * Fit FSRS weights to review history by minimizing log-loss.
+ *
+ * Returns the initial weights unchanged (improved = false) when there are
+ * too few scored reviews or when fitting fails to lower the loss.
+ */
+export function optimizeWeights(
+  sequences: ReviewSequence[],
+  options: OptimizerOptions = {}
+): OptimizationResult {
+  const steps = fitWeights(sequences, options);
+  let next = steps.next();
+  while (!next.done) {
+    next = steps.next();
+  }
+  return next.value;
+}
+
+/**
+ * Same fit as optimizeWeights, but yields to the event loop every few
+ * milliseconds so a long history does not block the calling thread.
+ */
+export async function optimizeWeightsAsync(
+  sequences: ReviewSequence[],
+  options: OptimizerOptions = {}
+): Promise<OptimizationResult> {
+  const steps = fitWeights(sequences, options);
+  let sliceStart = Date.now();
+  let next = steps.next();
+  while (!next.done) {
+    if (Date.now() - sliceStart >= ASYNC_SLICE_MS) {
+      await new Promise<void>((resolve) => setTimeout(resolve, 0));
+      sliceStart = Date.now();
+    }
+    next = steps.next();
+  }
+  return next.value;
+}
@@ -409,3 +409,62 @@ export function determineCueLevel(state: MasteryState): 0 | 1 | 2 | 3 {
   if (gap < 0.3) return 2;                   // Moderate cues
   return 3;                                   // Full cues
 }
+
+// ============================================================================
+// Review Load Projection
+// ============================================================================
+
+/**
+ * Review workload implied by a target retention.
+ */
+export interface ReviewLoadProjection {
+  targetRetention: number;
+  /** Steady-state reviews per day (sum of 1/interval over reviewed cards) */
+  dailyReviews: number;
+  /** Reviewed cards whose next review falls within the horizon */
+  dueInHorizon: number;
+  /** Mean review interval in days */
+  averageIntervalDays: number;
+}
+
+/**
+ * Project the review load for a target retention.
+ *
+ * Higher retention shortens every interval, so the same cards come back
+ * more often. Cards never reviewed are ignored: new items are paced by the
+ * session's new-item ratio, not by retention.
+ */
+export function projectReviewLoad(
+  cards: Array<Pick<FSRSCard, 'stability' | 'lastReview'>>,
+  targetRetention: number,
+  now: Date = new Date(),
+  horizonDays: number = 7
+): ReviewLoadProjection {
+  const fsrs = new FSRS({ requestRetention: targetRetention });
+  const horizonEnd = now.getTime() + horizonDays * 24 * 60 * 60 * 1000;
+
+  let dailyReviews = 0;
+  let dueInHorizon = 0;
+  let intervalSum = 0;
+  let reviewed = 0;
+
+  for (const card of cards) {
+    if (!card.lastReview || card.stability <= 0) {
+      continue;
+    }
+    const interval = fsrs.nextInterval(card.stability);
+    dailyReviews += 1 / interval;
+    intervalSum += interval;
+    reviewed++;
+    if (card.lastReview.getTime() + interval * 24 * 60 * 60 * 1000 <= horizonEnd) {
+      dueInHorizon++;
+    }
+  }
+
+  return {
+    targetRetention,
+    dailyReviews,
+    dueInHorizon,
+    averageIntervalDays: reviewed > 0 ? intervalSum / reviewed : 0,
+  };
+}
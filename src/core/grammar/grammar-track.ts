@@ -0,0 +1,285 @@
+/**
+ * Grammar Track
+ *
+ * Turns the construction catalog into a curriculum track that runs
+ * alongside vocabulary: a fixed roadmap in prerequisite order, with each
+ * construction locked until its prerequisites reach the unlock stage,
+ * and a few grammar slots per session filled with due reviews first and
+ * newly unlocked constructions second.
+ *
+ * Each construction is practised through a SYNT LanguageObject whose
+ * content is the construction name; its mastery stage drives the track.
+ */
+
+import type { CEFRLevel } from '../syntactic';
+import type { SyntacticConstruction } from './syntactic-construction';
+import { CORE_CONSTRUCTIONS, getAllPrerequisites, calculateTotalCognitiveLoad } from './syntactic-construction';
+import { GrammarSequenceOptimizer } from './grammar-sequence-optimizer';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Where a construction stands for the learner.
+ */
+export type GrammarTrackStatus = 'mastered' | 'practising' | 'available' | 'locked';
+
+/**
+ * Learner progress on one construction, read from its SYNT object.
+ */
+export interface ConstructionProgress {
+  stage: number;
+  nextReview: Date | null;
+}
+
+/**
+ * One construction on the roadmap.
+ */
+export interface GrammarRoadmapEntry {
+  constructionId: string;
+  name: string;
+  pattern: string;
+  category: string;
+  cefrLevel: CEFRLevel;
+  complexity: number;
+  /** Total cognitive load (sum of the load metrics) */
+  cognitiveLoad: number;
+  /** Direct prerequisites that are in the catalog */
+  prerequisites: string[];
+  stage: number;
+  status: GrammarTrackStatus;
+  /** Prerequisites (direct or indirect) below the unlock stage */
+  missingPrerequisites: string[];
+  nextReview: Date | null;
+}
+
+/**
+ * Practice item for one construction, answered against an example sentence.
+ */
+export interface ConstructionTask {
+  format: 'mcq' | 'ordering';
+  prompt: string;
+  expectedAnswer: string;
+  options?: string[];
+  hints: string[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const GRAMMAR_TRACK_CONFIG = {
+  /** Stage a prerequisite needs before dependent constructions unlock */
+  unlockStage: 2,
+  /** Stage at which a construction counts as mastered */
+  masteredStage: 4,
+  /** One grammar slot per this many session items */
+  slotEvery: 5,
+  /** New constructions introduced per session */
+  newPerSession: 1,
+  defaultTargetLevel: 'B2' as CEFRLevel,
+  /** IRT difficulty for a construction's SYNT object by CEFR level */
+  cefrDifficulty: { A1: -2, A2: -1, B1: 0, B2: 1, C1: 2, C2: 3 } as Record<CEFRLevel, number>,
+};
+
+const CONSTRUCTION_BY_NAME = new Map(
+  Object.values(CORE_CONSTRUCTIONS).map(c => [c.name.toLowerCase(), c])
+);
+
+// =============================================================================
+// Track Objects
+// =============================================================================
+
+/**
+ * The catalog construction a LanguageObject practises, if any.
+ */
+export function getTrackConstruction(
+  type: string,
+  content: string
+): SyntacticConstruction | undefined {
+  return type === 'SYNT' ? CONSTRUCTION_BY_NAME.get(content.toLowerCase()) : undefined;
+}
+
+/**
+ * Prerequisites (direct or indirect) of a construction still below the
+ * unlock stage. Prerequisites missing from the catalog are ignored.
+ */
+export function getMissingPrerequisites(
+  constructionId: string,
+  progress: Map<string, ConstructionProgress>
+): string[] {
+  return getAllPrerequisites(constructionId).filter(
+    id =>
+      CORE_CONSTRUCTIONS[id] !== undefined &&
+      (progress.get(id)?.stage ?? 0) < GRAMMAR_TRACK_CONFIG.unlockStage
+  );
+}
+
+function statusFor(stage: number, missing: string[]): GrammarTrackStatus {
+  if (stage >= GRAMMAR_TRACK_CONFIG.masteredStage) {
+    return 'mastered';
+  }
+  if (stage > 0) {
+    return 'practising';
+  }
+  return missing.length === 0 ? 'available' : 'locked';
+}
+
+// =============================================================================
+// Roadmap
+// =============================================================================
+
+/**
+ * Build the roadmap up to a CEFR level.
+ *
+ * The order comes from the sequence optimizer without mastery data, so it
+ * is the same curriculum for every learner; progress only sets each
+ * entry's status.
+ */
+export function buildGrammarRoadmap(
+  progress: Map<string, ConstructionProgress>,
+  targetLevel: CEFRLevel = GRAMMAR_TRACK_CONFIG.defaultTargetLevel
+): GrammarRoadmapEntry[] {
+  const { scoredConstructions } = new GrammarSequenceOptimizer({
+    targetLevel,
+    includeNonCore: true,
+  }).optimize();
+
+  return scoredConstructions.map(({ construction }) => {
+    const state = progress.get(construction.id);
+    const stage = state?.stage ?? 0;
+    const missingPrerequisites = getMissingPrerequisites(construction.id, progress);
+
+    return {
+      constructionId: construction.id,
+      name: construction.name,
+      pattern: construction.pattern,
+      category: construction.category,
+      cefrLevel: construction.cefrLevel,
+      complexity: construction.complexity,
+      cognitiveLoad: calculateTotalCognitiveLoad(construction.cognitiveLoad),
+      prerequisites: construction.prerequisites.filter(id => CORE_CONSTRUCTIONS[id] !== undefined),
+      stage,
+      status: statusFor(stage, missingPrerequisites),
+      missingPrerequisites,
+      nextReview: state?.nextReview ?? null,
+    };
+  });
+}
+
+// =============================================================================
+// Session Scheduling
+// =============================================================================
+
+/**
+ * Grammar slots in a session of the given size.
+ */
+export function grammarSlots(sessionSize: number): number {
+  return Math.floor(sessionSize / GRAMMAR_TRACK_CONFIG.slotEvery);
+}
+
+/**
+ * Pick constructions to practise: started constructions due for review in
+ * roadmap order, then the next unlocked ones. Locked constructions are
+ * never picked.
+ */
+export function selectGrammarPractice(
+  roadmap: GrammarRoadmapEntry[],
+  slots: number,
+  now: Date = new Date()
+): string[] {
+  const due = roadmap.filter(
+    e => e.stage > 0 && (e.nextReview === null || e.nextReview <= now)
+  );
+  // Reviews of unfinished constructions come before mastered ones
+  due.sort(
+    (a, b) => Number(a.status === 'mastered') - Number(b.status === 'mastered')
+  );
+  const fresh = roadmap
+    .filter(e => e.status === 'available')
+    .slice(0, GRAMMAR_TRACK_CONFIG.newPerSession);
+
+  return [...due, ...fresh].slice(0, slots).map(e => e.constructionId);
+}
+
+/**
+ * Spread grammar items through a vocabulary sequence, one after every
+ * `slotEvery - 1` vocabulary items. Leftover grammar items go at the end.
+ */
+export function interleaveGrammar<T>(
+  items: T[],
+  grammar: T[],
+  every: number = GRAMMAR_TRACK_CONFIG.slotEvery
+): T[] {
+  const result: T[] = [];
+  let next = 0;
+
+  for (const item of items) {
+    result.push(item);
+    if (next < grammar.length && (result.length + 1) % every === 0) {
+      result.push(grammar[next++]);
+    }
+  }
+
+  return [...result, ...grammar.slice(next)];
+}
+
+// =============================================================================
+// Practice Items
+// =============================================================================
+
+/**
+ * Build a practice item for a construction.
+ *
+ * Below the unlock stage the learner picks the sentence that uses the
+ * construction; distractors come from constructions of similar complexity
+ * that neither lead to nor build on it, since those sentences would often
+ * contain the target structure too. From the unlock stage on, the learner
+ * rebuilds an example from its scrambled words. `variant` rotates through
+ * the examples.
+ */
+export function buildConstructionTask(
+  construction: SyntacticConstruction,
+  stage: number,
+  variant: number = 0
+): ConstructionTask {
+  const example = construction.examples[variant % construction.examples.length];
+
+  if (stage < GRAMMAR_TRACK_CONFIG.unlockStage) {
+    const related = new Set(getAllPrerequisites(construction.id));
+    const distractors = Object.values(CORE_CONSTRUCTIONS)
+      .filter(
+        c =>
+          c.id !== construction.id &&
+          c.examples.length > 0 &&
+          !related.has(c.id) &&
+          !getAllPrerequisites(c.id).includes(construction.id)
+      )
+      .sort(
+        (a, b) =>
+          Math.abs(a.complexity - construction.complexity) -
+          Math.abs(b.complexity - construction.complexity)
+      )
+      .slice(0, 3)
+      .map(c => c.examples[variant % c.examples.length]);
+
+    return {
+      format: 'mcq',
+      prompt: `Which sentence uses ${construction.name} (${construction.pattern})?`,
+      expectedAnswer: example,
+      options: [example, ...distractors],
+      hints: [construction.description],
+    };
+  }
+
+  const words = example.replace(/[.!?]+$/, '').split(/\s+/);
+  const scrambled = [...words].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
+
+  return {
+    format: 'ordering',
+    prompt: `Put the words in order to make a sentence using ${construction.name}: ${scrambled.join(' / ')}`,
+    expectedAnswer: example,
+    hints: [construction.pattern, construction.description],
+  };
+}
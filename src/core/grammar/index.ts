@@ -34,3 +34,19 @@ export {
   generateGrammarSequence,
   getConstructionsForStage,
 } from './grammar-sequence-optimizer';
+
+// Grammar Track
+export {
+  type GrammarTrackStatus,
+  type ConstructionProgress,
+  type GrammarRoadmapEntry,
+  type ConstructionTask,
+  GRAMMAR_TRACK_CONFIG,
+  getTrackConstruction,
+  getMissingPrerequisites,
+  buildGrammarRoadmap,
+  grammarSlots,
+  selectGrammarPractice,
+  interleaveGrammar,
+  buildConstructionTask,
+} from './grammar-track';
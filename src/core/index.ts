@@ -55,6 +55,7 @@ export {
   type MasteryStage,
   type MasteryState,
   type FSRSResponseData,
+  type ReviewLoadProjection,
   // Constants
   DEFAULT_WEIGHTS,
   DEFAULT_PARAMETERS,
@@ -69,8 +70,49 @@ export {
   determineStage,
   calculateScaffoldingGap,
   determineCueLevel,
+  projectReviewLoad,
 } from './fsrs';
 
+// =============================================================================
+// FSRS Optimizer - Per-Learner Weight Fitting
+// =============================================================================
+
+export {
+  // Types
+  type ReviewEvent,
+  type ReviewSequence,
+  type CalibrationBin,
+  type CalibrationReport,
+  type OptimizerOptions,
+  type OptimizationResult,
+  // Constants
+  WEIGHT_BOUNDS,
+  // Functions
+  evaluateWeights,
+  countScoredReviews,
+  clampWeights,
+  optimizeWeights,
+  optimizeWeightsAsync,
+} from './fsrs-optimizer';
+
+// =============================================================================
+// Deck Import - External Flashcard Decks & Review History
+// =============================================================================
+
+export {
+  // Types
+  type DeckReview,
+  type DeckCard,
+  type DelimitedDeckOptions,
+  type DelimitedDeckResult,
+  // Functions
+  stripDeckMarkup,
+  detectDelimiter,
+  parseDelimitedDeck,
+  ankiEaseToRating,
+  replayReviewHistory,
+} from './deck-import';
+
 // =============================================================================
 // PMI (Pointwise Mutual Information) - Corpus Analysis
 // =============================================================================
@@ -220,6 +262,51 @@ export {
   getG2PDifficultyCategory,
 } from './g2p';
 
+// =============================================================================
+// Pronunciation - Speaking Assessment
+// =============================================================================
+
+export {
+  // Types
+  type ExpectedPhoneme,
+  type AlignmentOperation,
+  type PhonemeAlignmentStep,
+  type PhonemeError,
+  type PronunciationScore,
+  type PronunciationScoreOptions,
+  // Constants
+  PRONUNCIATION_CONFIG,
+  // Functions
+  tokenizePhonemes,
+  isVowelPhoneme,
+  expectedPhonemes,
+  alignPhonemes,
+  resolveInterferenceL1,
+  scorePronunciation,
+  toG2PResponses,
+} from './pronunciation';
+
+// =============================================================================
+// Answer Grading - Typed and Selected Answers
+// =============================================================================
+
+export {
+  // Types
+  type AnswerMatchType,
+  type AnswerKey,
+  type AnswerGradingOptions,
+  type AnswerVerdict,
+  // Constants
+  ANSWER_GRADING_CONFIG,
+  // Functions
+  normalizeAnswer,
+  stripDiacritics,
+  damerauLevenshtein,
+  typoAllowance,
+  isSameLemma,
+  gradeAnswer,
+} from './answer-grading';
+
 // =============================================================================
 // Syntactic - Grammar Analysis
 // =============================================================================
@@ -322,6 +409,9 @@ export {
   type ABTest,
   type TestAssignment,
   type StageTransitionEvent,
+  type ExperimentReview,
+  type RetentionStats,
+  type ProportionComparison,
   // Constants
   DEFAULT_THRESHOLDS,
   CONSERVATIVE_THRESHOLDS,
@@ -331,8 +421,12 @@ export {
   thresholdRegistry,
   // Functions
   checkStageTransition,
+  resolveStageTransition,
   getRecommendedCueLevel,
   calculateStageProgress,
+  computeRetention,
+  compareProportions,
+  summarizeDurations,
 } from './stage-thresholds';
 
 // =============================================================================
@@ -807,6 +807,86 @@ export function planMultiGoalSession(
   };
 }
 
+/**
+ * A queue entry that can be interleaved across goals.
+ */
+export interface InterleaveCandidate {
+  /** Object identifier (used to avoid serving an object twice) */
+  objectId: string;
+
+  /** Goal whose queue the object was taken from */
+  goalId: string;
+
+  /** All goals credited when the object is practiced (defaults to goalId) */
+  benefitingGoals?: string[];
+}
+
+/**
+ * Interleaves per-goal queues according to an allocation.
+ *
+ * Uses smooth weighted round-robin: every pick adds each goal's
+ * allocation to its credit and serves the goal with the most credit.
+ * A shared object pays its cost evenly across all benefiting goals,
+ * so practicing it advances every curriculum it belongs to.
+ *
+ * @param queues - Ordered candidates per goal (best first)
+ * @param allocation - Time fraction per goal (normalized internally)
+ * @param size - Maximum number of items to return
+ * @returns Interleaved sequence without duplicate objects
+ */
+export function interleaveByAllocation<T extends InterleaveCandidate>(
+  queues: Record<string, T[]>,
+  allocation: Record<string, number>,
+  size: number
+): T[] {
+  const goalIds = Object.keys(queues).filter((id) => (allocation[id] ?? 0) > 0);
+  const credit: Record<string, number> = {};
+  const cursor: Record<string, number> = {};
+  goalIds.forEach((id) => {
+    credit[id] = 0;
+    cursor[id] = 0;
+  });
+
+  const sequence: T[] = [];
+  const served = new Set<string>();
+
+  const nextFor = (goalId: string): T | null => {
+    const queue = queues[goalId];
+    while (cursor[goalId] < queue.length && served.has(queue[cursor[goalId]].objectId)) {
+      cursor[goalId]++;
+    }
+    return cursor[goalId] < queue.length ? queue[cursor[goalId]] : null;
+  };
+
+  while (sequence.length < size) {
+    const available = goalIds.filter((id) => nextFor(id) !== null);
+    if (available.length === 0) {
+      break;
+    }
+
+    const total = available.reduce((sum, id) => sum + allocation[id], 0);
+    available.forEach((id) => {
+      credit[id] += allocation[id] / total;
+    });
+
+    const chosen = available.reduce((best, id) => (credit[id] > credit[best] ? id : best));
+    const item = nextFor(chosen)!;
+    cursor[chosen]++;
+    served.add(item.objectId);
+    sequence.push(item);
+
+    const credited = (item.benefitingGoals ?? [chosen]).filter((id) => id in credit);
+    if (credited.length === 0) {
+      credited.push(chosen);
+    }
+    credited.forEach((id) => {
+      credit[id] -= 1 / credited.length;
+    });
+  }
+
+  return sequence;
+}
+
 /**
  * Creates an empty session plan.
  */
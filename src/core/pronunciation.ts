@@ -0,0 +1,388 @@
+/**
+ * LOGOS Pronunciation Scoring Module
+ *
+ * Compares the phonemes a recognizer heard against the phonemes the G2P
+ * rules predict for a word, and turns the differences into G2P-IRT
+ * responses for the speaking modality.
+ *
+ * Academic Foundations:
+ * - Witt, S. & Young, S. (2000): Phone-level pronunciation scoring
+ * - Levenshtein alignment as used for phone error rate (PER)
+ * - Contrastive analysis: L1 interference predicts substitution errors
+ *
+ * Pure functions only - audio capture and recognition happen in the
+ * main process.
+ *
+ * @module core/pronunciation
+ */
+
+import {
+  segmentGraphemes,
+  applyG2PRules,
+  predictMispronunciations,
+  type L1Mispronunciation,
+} from './g2p';
+import type { G2PIRTParameters, G2PResponse, G2PTaskContext } from './g2p-irt';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One expected phoneme position. Rules such as '/θ/ or /ð/' accept
+ * more than one realization.
+ */
+export interface ExpectedPhoneme {
+  /** Canonical phoneme shown to the learner */
+  phoneme: string;
+  /** All accepted realizations, including the canonical one */
+  accepted: string[];
+}
+
+export type AlignmentOperation = 'match' | 'substitution' | 'deletion' | 'insertion';
+
+/**
+ * One step of the alignment between expected and recognized phonemes.
+ */
+export interface PhonemeAlignmentStep {
+  type: AlignmentOperation;
+  /** Index into the expected sequence (null for insertions) */
+  expectedIndex: number | null;
+  expected: string | null;
+  recognized: string | null;
+}
+
+/**
+ * A pronunciation error, with the L1 interference pattern that explains
+ * it when one applies.
+ */
+export interface PhonemeError {
+  type: Exclude<AlignmentOperation, 'match'>;
+  expectedIndex: number | null;
+  expected: string | null;
+  recognized: string | null;
+  /** Interference pattern predicted by predictMispronunciations, if any */
+  l1Pattern?: L1Mispronunciation;
+}
+
+export interface PronunciationScore {
+  word: string;
+  expected: string[];
+  recognized: string[];
+  alignment: PhonemeAlignmentStep[];
+  errors: PhonemeError[];
+  /** Phoneme accuracy: 1 - (S + D + I) / N, floored at 0 */
+  accuracy: number;
+  /** Whether accuracy reached the pass threshold */
+  correct: boolean;
+}
+
+export interface PronunciationScoreOptions {
+  /** Learner L1 as ISO 639-1 code or name (e.g. 'ko' or 'Korean') */
+  l1?: string;
+  /** Accuracy needed to count the attempt as correct */
+  passThreshold?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PRONUNCIATION_CONFIG = {
+  /** Accuracy at which an attempt counts as correct */
+  passThreshold: 0.8,
+} as const;
+
+/**
+ * Multi-character IPA units that count as one phoneme.
+ * Longest first, so 'aɪ' wins over 'a'.
+ */
+const MULTI_CHAR_PHONEMES = [
+  'tʃ', 'dʒ', 'aɪ', 'aʊ', 'ɔɪ', 'eɪ', 'oʊ', 'əʊ', 'ɪə', 'eə', 'ʊə',
+];
+
+/**
+ * Symbol variants recognizers emit for the same phoneme.
+ */
+const PHONE_EQUIVALENTS: Record<string, string> = {
+  'ɹ': 'r',
+  'ɾ': 'r',
+  'ɡ': 'g',
+  'ɚ': 'ər',
+  'ɝ': 'ɜr',
+  'ɐ': 'ʌ',
+};
+
+const VOWEL_SYMBOLS = new Set(['a', 'e', 'i', 'o', 'u', 'æ', 'ɑ', 'ɒ', 'ɔ', 'ə', 'ɛ', 'ɜ', 'ɪ', 'ʊ', 'ʌ']);
+
+/**
+ * ISO 639-1 codes for the L1s in L1_INTERFERENCE_PATTERNS.
+ */
+const L1_PATTERN_NAMES: Record<string, string> = {
+  es: 'Spanish',
+  pt: 'Portuguese',
+  zh: 'Mandarin',
+  ja: 'Japanese',
+  ko: 'Korean',
+  ar: 'Arabic',
+};
+
+// ============================================================================
+// Phoneme Normalization
+// ============================================================================
+
+/**
+ * Split an IPA string into phonemes.
+ *
+ * Stress and length marks are dropped and symbol variants are unified, so
+ * '/ˈθɹuː/' and 'θ r u' give the same result.
+ *
+ * @example
+ * ```typescript
+ * tokenizePhonemes('/naɪt/'); // ['n', 'aɪ', 't']
+ * ```
+ */
+export function tokenizePhonemes(ipa: string): string[] {
+  let normalized = ipa.replace(/[/[\]ˈˌː.\s]/g, '');
+  for (const [variant, canonical] of Object.entries(PHONE_EQUIVALENTS)) {
+    normalized = normalized.split(variant).join(canonical);
+  }
+
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < normalized.length) {
+    const unit = MULTI_CHAR_PHONEMES.find(p => normalized.startsWith(p, i));
+    const token = unit ?? normalized[i];
+    tokens.push(token);
+    i += token.length;
+  }
+  return tokens;
+}
+
+/**
+ * Whether a phoneme is a vowel (or starts with one, for diphthongs).
+ */
+export function isVowelPhoneme(phoneme: string): boolean {
+  return VOWEL_SYMBOLS.has(phoneme[0]);
+}
+
+/**
+ * Expected phoneme sequence for a word, from the G2P rules.
+ *
+ * A rule with alternatives ('/θ/ or /ð/') accepts each alternative of the
+ * same length as the first one.
+ */
+export function expectedPhonemes(word: string): ExpectedPhoneme[] {
+  const result = applyG2PRules(segmentGraphemes(word));
+  const expected: ExpectedPhoneme[] = [];
+
+  for (const phoneme of result.phonemes) {
+    const alternatives = phoneme.split(/\s+or\s+/).map(tokenizePhonemes);
+    const primary = alternatives[0];
+    primary.forEach((token, i) => {
+      const accepted = new Set([token]);
+      for (const alternative of alternatives.slice(1)) {
+        if (alternative.length === primary.length) {
+          accepted.add(alternative[i]);
+        }
+      }
+      expected.push({ phoneme: token, accepted: [...accepted] });
+    });
+  }
+
+  return expected;
+}
+
+// ============================================================================
+// Alignment
+// ============================================================================
+
+/**
+ * Align recognized phonemes to the expected sequence with minimum edit
+ * distance. Ties prefer matches and substitutions over insertions and
+ * deletions, so errors are reported at the position they occurred.
+ */
+export function alignPhonemes(
+  expected: ExpectedPhoneme[],
+  recognized: string[]
+): PhonemeAlignmentStep[] {
+  const n = expected.length;
+  const m = recognized.length;
+  const cost: number[][] = Array.from({ length: n + 1 }, (_, i) =>
+    Array.from({ length: m + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const same = expected[i - 1].accepted.includes(recognized[j - 1]);
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (same ? 0 : 1),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  const steps: PhonemeAlignmentStep[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const same = expected[i - 1].accepted.includes(recognized[j - 1]);
+      if (cost[i][j] === cost[i - 1][j - 1] + (same ? 0 : 1)) {
+        steps.push({
+          type: same ? 'match' : 'substitution',
+          expectedIndex: i - 1,
+          expected: expected[i - 1].phoneme,
+          recognized: recognized[j - 1],
+        });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      steps.push({ type: 'deletion', expectedIndex: i - 1, expected: expected[i - 1].phoneme, recognized: null });
+      i--;
+    } else {
+      steps.push({ type: 'insertion', expectedIndex: null, expected: null, recognized: recognized[j - 1] });
+      j--;
+    }
+  }
+
+  return steps.reverse();
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Map an L1 code to the name used by L1_INTERFERENCE_PATTERNS.
+ * Names pass through unchanged.
+ */
+export function resolveInterferenceL1(l1: string): string {
+  return L1_PATTERN_NAMES[l1.toLowerCase()] ?? l1;
+}
+
+/**
+ * Find the interference pattern that explains an error, if any.
+ *
+ * Patterns naming the produced phoneme ('/b/', '/est/') win over general
+ * ones ('schwa insertion', 'final consonant deletion').
+ */
+function matchInterference(
+  step: PhonemeAlignmentStep,
+  predictions: L1Mispronunciation[]
+): L1Mispronunciation | undefined {
+  const specific = predictions.find(prediction => {
+    const predicted = (prediction.mispronunciation.match(/\/[^/]+\//g) ?? []).flatMap(tokenizePhonemes);
+    return step.type !== 'deletion' && step.recognized !== null && predicted.includes(step.recognized);
+  });
+  if (specific) {
+    return specific;
+  }
+
+  return predictions.find(prediction => {
+    const text = prediction.mispronunciation;
+    if (step.type === 'insertion') {
+      return step.recognized !== null && isVowelPhoneme(step.recognized) && /vowel|schwa/.test(text);
+    }
+    if (step.type === 'deletion') {
+      return step.expected !== null && !isVowelPhoneme(step.expected) && /consonant/.test(text);
+    }
+    return false;
+  });
+}
+
+/**
+ * Score a spoken attempt at a word.
+ *
+ * @param word - Target word
+ * @param recognized - Phonemes from the recognizer (IPA, any tokenization)
+ * @param options - Learner L1 and pass threshold
+ *
+ * @example
+ * ```typescript
+ * const score = scorePronunciation('very', ['b', 'ɛ', 'r', 'i'], { l1: 'ko' });
+ * // score.errors[0] → substitution /v/ → /b/, explained by 'Korean lacks /v/'
+ * ```
+ */
+export function scorePronunciation(
+  word: string,
+  recognized: string[],
+  options: PronunciationScoreOptions = {}
+): PronunciationScore {
+  const expected = expectedPhonemes(word);
+  const heard = tokenizePhonemes(recognized.join(''));
+  const alignment = alignPhonemes(expected, heard);
+  const predictions = options.l1
+    ? predictMispronunciations(word, resolveInterferenceL1(options.l1))
+    : [];
+
+  const errors: PhonemeError[] = alignment
+    .filter(step => step.type !== 'match')
+    .map(step => ({
+      type: step.type as PhonemeError['type'],
+      expectedIndex: step.expectedIndex,
+      expected: step.expected,
+      recognized: step.recognized,
+      l1Pattern: matchInterference(step, predictions),
+    }));
+
+  const accuracy = expected.length > 0
+    ? Math.max(0, 1 - errors.length / expected.length)
+    : 0;
+
+  return {
+    word,
+    expected: expected.map(p => p.phoneme),
+    recognized: heard,
+    alignment,
+    errors,
+    accuracy,
+    correct: accuracy >= (options.passThreshold ?? PRONUNCIATION_CONFIG.passThreshold),
+  };
+}
+
+/**
+ * Convert a pronunciation score into G2P-IRT responses.
+ *
+ * Produces one alphabetic-layer response per expected phoneme (correct when
+ * that phoneme was matched) and one word-layer response for the whole
+ * attempt, all in the speaking modality.
+ *
+ * @param score - Result of scorePronunciation
+ * @param itemParams - IRT parameters of the word
+ * @param context - Task context; modality and layer are set here
+ * @param responseTimeMs - Time from prompt to end of recording
+ */
+export function toG2PResponses(
+  score: PronunciationScore,
+  itemParams: G2PIRTParameters,
+  context: Omit<G2PTaskContext, 'modality' | 'targetLayer'>,
+  responseTimeMs: number
+): G2PResponse[] {
+  const matched = new Set(
+    score.alignment.filter(step => step.type === 'match').map(step => step.expectedIndex)
+  );
+
+  const phonemeResponses: G2PResponse[] = score.expected.map((phoneme, index) => ({
+    itemId: `${itemParams.id}:${index}:${phoneme}`,
+    correct: matched.has(index),
+    responseTimeMs,
+    context: { ...context, modality: 'speaking', targetLayer: 'alphabetic' },
+    itemParams,
+  }));
+
+  return [
+    ...phonemeResponses,
+    {
+      itemId: itemParams.id,
+      correct: score.correct,
+      responseTimeMs,
+      context: { ...context, modality: 'speaking', targetLayer: 'word' },
+      itemParams,
+    },
+  ];
+}
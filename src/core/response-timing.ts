@@ -158,6 +158,7 @@ const FORMAT_TO_CATEGORY: Record<TaskFormat, TaskCategory> = {
   ordering: 'recall',
   dictation: 'production',
   typing: 'production',  // Character-by-character typing with validation
+  pronunciation: 'production',
 };
 
 /**
@@ -181,6 +182,7 @@ const TYPE_TO_CATEGORY: Record<TaskType, TaskCategory> = {
   register_shift: 'production',
   sentence_combining: 'production',
   clause_selection: 'recall',
+  speaking: 'production',
 };
 
 // =============================================================================
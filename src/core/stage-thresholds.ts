@@ -150,6 +150,7 @@ export const DEFAULT_THRESHOLDS: StageThresholds = {
   stage4CueFreeAccuracy: 0.90,
   stage4Stability: 30,
   stage4MaxGap: 0.10,
+  stage4Automatization: 0.70,
   stage3CueFreeAccuracy: 0.75,
   stage3Stability: 7,
   stage2CueFreeAccuracy: 0.60,
@@ -165,6 +166,7 @@ export const CONSERVATIVE_THRESHOLDS: StageThresholds = {
   stage4CueFreeAccuracy: 0.95,
   stage4Stability: 45,
   stage4MaxGap: 0.05,
+  stage4Automatization: 0.80,
   stage3CueFreeAccuracy: 0.85,
   stage3Stability: 14,
   stage2CueFreeAccuracy: 0.70,
@@ -180,6 +182,7 @@ export const AGGRESSIVE_THRESHOLDS: StageThresholds = {
   stage4CueFreeAccuracy: 0.85,
   stage4Stability: 21,
   stage4MaxGap: 0.15,
+  stage4Automatization: 0.60,
   stage3CueFreeAccuracy: 0.65,
   stage3Stability: 5,
   stage2CueFreeAccuracy: 0.50,
@@ -194,6 +197,7 @@ export const RESEARCH_THRESHOLDS: StageThresholds = {
   stage4CueFreeAccuracy: 0.95,
   stage4Stability: 60,
   stage4MaxGap: 0.05,
+  stage4Automatization: 0.85,
   stage3CueFreeAccuracy: 0.85,
   stage3Stability: 21,
   stage2CueFreeAccuracy: 0.75,
@@ -324,6 +328,13 @@ class ThresholdRegistry {
       errors.push('stage4MaxGap must be between 0 and 1');
     }
 
+    if (
+      thresholds.stage4Automatization !== undefined &&
+      (thresholds.stage4Automatization < 0 || thresholds.stage4Automatization > 1)
+    ) {
+      errors.push('stage4Automatization must be between 0 and 1');
+    }
+
     // Stability must be positive
     if (thresholds.stage4Stability <= 0 || thresholds.stage3Stability <= 0) {
       errors.push('Stability values must be positive');
@@ -434,17 +445,23 @@ class ThresholdRegistry {
   }
 
   /**
-   * Simple hash function for user ID + test ID.
+   * Hash user ID + test ID to an unsigned 32-bit integer.
+   * FNV-1a with a murmur3 finalizer, so IDs that differ only in their last
+   * characters still spread across the whole range.
    */
   private hashUserId(userId: string, testId: string): number {
     const str = `${userId}:${testId}`;
-    let hash = 0;
+    let hash = 0x811c9dc5;
     for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+      hash ^= str.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
     }
-    return Math.abs(hash);
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
   }
 
   /**
@@ -557,6 +574,8 @@ export function checkStageTransition(
     cueAssistedAccuracy: number;
     stability: number;
     exposureCount: number;
+    /** Automatization level (0-1); counts as 0 when missing */
+    automatizationLevel?: number;
   },
   config: ThresholdConfig = thresholdRegistry.getDefaultConfig()
 ): { newStage: MasteryStage; transitioned: boolean; reason: string } {
@@ -605,10 +624,16 @@ export function checkStageTransition(
 
   // Stage 3 → 4: Automatic
   if (currentStage === 3) {
+    // Slow but accurate answers are not automatic
+    const automatized =
+      t.stage4Automatization === undefined ||
+      (metrics.automatizationLevel ?? 0) >= t.stage4Automatization;
+
     if (
       metrics.cueFreeAccuracy >= t.stage4CueFreeAccuracy &&
       metrics.stability >= t.stage4Stability &&
-      gap <= t.stage4MaxGap
+      gap <= t.stage4MaxGap &&
+      automatized
     ) {
       return {
         newStage: 4,
@@ -625,6 +650,45 @@ export function checkStageTransition(
   };
 }
 
+/**
+ * Decide the stage after a response: advance when the next stage's
+ * thresholds are met, or drop one stage when the current stage's entry
+ * thresholds are no longer met (Stage 2 and above).
+ *
+ * Moves at most one stage per call.
+ */
+export function resolveStageTransition(
+  currentStage: MasteryStage,
+  metrics: {
+    cueFreeAccuracy: number;
+    cueAssistedAccuracy: number;
+    stability: number;
+    exposureCount: number;
+    /** Automatization level (0-1); counts as 0 when missing */
+    automatizationLevel?: number;
+  },
+  config: ThresholdConfig = thresholdRegistry.getDefaultConfig()
+): { newStage: MasteryStage; direction: 'advance' | 'demote' | 'none'; reason: string } {
+  const advance = checkStageTransition(currentStage, metrics, config);
+  if (advance.transitioned) {
+    return { newStage: advance.newStage, direction: 'advance', reason: advance.reason };
+  }
+
+  if (currentStage >= 2) {
+    const previousStage = (currentStage - 1) as MasteryStage;
+    const entry = checkStageTransition(previousStage, metrics, config);
+    if (!entry.transitioned) {
+      return {
+        newStage: previousStage,
+        direction: 'demote',
+        reason: `Stage ${currentStage} thresholds no longer met`,
+      };
+    }
+  }
+
+  return { newStage: currentStage, direction: 'none', reason: advance.reason };
+}
+
 /**
  * Get recommended cue level based on performance metrics.
  */
@@ -652,6 +716,8 @@ export function calculateStageProgress(
     cueAssistedAccuracy: number;
     stability: number;
     exposureCount: number;
+    /** Automatization level (0-1); counts as 0 when missing */
+    automatizationLevel?: number;
   },
   config: ThresholdConfig = thresholdRegistry.getDefaultConfig()
 ): { progress: number; blockers: string[] } {
@@ -738,6 +804,14 @@ export function calculateStageProgress(
           target: t.stage4MaxGap,
         },
       ];
+      if (t.stage4Automatization !== undefined) {
+        requirements.push({
+          met: (metrics.automatizationLevel ?? 0) >= t.stage4Automatization,
+          label: 'Automatization',
+          current: metrics.automatizationLevel ?? 0,
+          target: t.stage4Automatization,
+        });
+      }
       break;
   }
 
@@ -750,7 +824,7 @@ export function calculateStageProgress(
     if (!req.met) {
       if (req.label === 'Scaffolding gap') {
         blockers.push(`${req.label}: ${(req.current * 100).toFixed(0)}% (need ≤${(req.target * 100).toFixed(0)}%)`);
-      } else if (req.label.includes('accuracy')) {
+      } else if (req.label.includes('accuracy') || req.label === 'Automatization') {
         blockers.push(`${req.label}: ${(req.current * 100).toFixed(0)}% (need ${(req.target * 100).toFixed(0)}%)`);
       } else {
         blockers.push(`${req.label}: ${req.current} (need ${req.target})`);
@@ -761,6 +835,143 @@ export function calculateStageProgress(
   return { progress, blockers };
 }
 
+// =============================================================================
+// Experiment Analysis
+// =============================================================================
+
+/**
+ * One graded review of an object.
+ */
+export interface ExperimentReview {
+  objectId: string;
+  correct: boolean;
+  timestamp: Date;
+}
+
+/**
+ * Recall rate on repeat reviews.
+ */
+export interface RetentionStats {
+  /** Repeat reviews counted */
+  reviews: number;
+  /** Of which recalled correctly */
+  recalled: number;
+  /** recalled / reviews (0 when there are no reviews) */
+  rate: number;
+}
+
+/**
+ * Two-proportion z-test result.
+ */
+export interface ProportionComparison {
+  /** rateB - rateA */
+  difference: number;
+  zScore: number;
+  /** Two-sided p-value */
+  pValue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Measure retention as the recall rate on every review after an object's
+ * first, counting only reviews at least `minIntervalDays` after the
+ * previous review of the same object.
+ */
+export function computeRetention(
+  reviews: ExperimentReview[],
+  minIntervalDays: number = 0
+): RetentionStats {
+  const byObject = new Map<string, ExperimentReview[]>();
+  for (const review of reviews) {
+    const list = byObject.get(review.objectId) ?? [];
+    list.push(review);
+    byObject.set(review.objectId, list);
+  }
+
+  let counted = 0;
+  let recalled = 0;
+  for (const list of byObject.values()) {
+    list.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    for (let i = 1; i < list.length; i++) {
+      const interval = (list[i].timestamp.getTime() - list[i - 1].timestamp.getTime()) / DAY_MS;
+      if (interval >= minIntervalDays) {
+        counted++;
+        recalled += list[i].correct ? 1 : 0;
+      }
+    }
+  }
+
+  return { reviews: counted, recalled, rate: counted > 0 ? recalled / counted : 0 };
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26 approximation of erf).
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Compare two proportions (e.g. control vs treatment retention) with a
+ * pooled two-proportion z-test.
+ */
+export function compareProportions(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number
+): ProportionComparison {
+  if (totalA === 0 || totalB === 0) {
+    return { difference: 0, zScore: 0, pValue: 1 };
+  }
+
+  const rateA = successesA / totalA;
+  const rateB = successesB / totalB;
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+
+  if (se === 0) {
+    return { difference: rateB - rateA, zScore: 0, pValue: 1 };
+  }
+
+  const zScore = (rateB - rateA) / se;
+  return {
+    difference: rateB - rateA,
+    zScore,
+    pValue: 2 * (1 - normalCdf(Math.abs(zScore))),
+  };
+}
+
+/**
+ * Mean and median of a list of durations (e.g. days to Stage 4).
+ */
+export function summarizeDurations(values: number[]): {
+  count: number;
+  mean: number;
+  median: number;
+} {
+  if (values.length === 0) {
+    return { count: 0, mean: 0, median: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    median,
+  };
+}
+
 // =============================================================================
 // Exports
 // =============================================================================
@@ -768,8 +979,12 @@ export function calculateStageProgress(
 export default {
   thresholdRegistry,
   checkStageTransition,
+  resolveStageTransition,
   getRecommendedCueLevel,
   calculateStageProgress,
+  computeRetention,
+  compareProportions,
+  summarizeDurations,
   DEFAULT_THRESHOLDS,
   CONSERVATIVE_THRESHOLDS,
   AGGRESSIVE_THRESHOLDS,
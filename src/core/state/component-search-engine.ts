@@ -32,7 +32,7 @@ export interface SearchFilters {
   /** Filter by component */
   component?: LanguageComponent;
 
-  /** Content search query */
+  /** Content search query (each token matches word prefixes) */
   query?: string;
 
   /** Minimum priority */
@@ -50,6 +50,12 @@ export interface SearchFilters {
   /** Only items needing review */
   needsReview?: boolean;
 
+  /** Only items scheduled for review on or before this date */
+  dueBefore?: Date;
+
+  /** Calibrated IRT difficulty range, min inclusive and max exclusive */
+  difficultyRange?: [number, number];
+
   /** Only items emphasized for context */
   emphasizedOnly?: boolean;
 
@@ -293,14 +299,15 @@ export class ComponentSearchEngine {
     }
 
     // Apply content query filter
-    if (filters.query) {
-      const queryTokens = this.tokenize(filters.query.toLowerCase());
+    const queryTokens = filters.query ? this.tokenize(filters.query.toLowerCase()) : [];
+    if (queryTokens.length > 0) {
       const matchingIds = new Set<string>();
 
-      for (const token of queryTokens) {
-        const ids = this.contentIndex.get(token);
-        if (ids) {
-          for (const id of ids) matchingIds.add(id);
+      for (const [indexed, ids] of this.contentIndex) {
+        if (queryTokens.some(token => indexed.startsWith(token))) {
+          for (const id of ids) {
+            matchingIds.add(id);
+          }
         }
       }
 
@@ -676,6 +683,20 @@ export class ComponentSearchEngine {
     // Needs review filter
     if (filters.needsReview && !needsReview(state)) return false;
 
+    // Due date filter
+    if (filters.dueBefore && state.masteryState.nextReviewDate > filters.dueBefore) {
+      return false;
+    }
+
+    // Difficulty range filter
+    if (filters.difficultyRange) {
+      const [min, max] = filters.difficultyRange;
+      const difficulty = state.irtMetrics.difficultyCalibration;
+      if (difficulty < min || difficulty >= max) {
+        return false;
+      }
+    }
+
     // Emphasized filter
     if (filters.emphasizedOnly && !state.emphasizedForContext) return false;
 
@@ -220,6 +220,8 @@ const TASK_FORMAT_MAP: Record<TaskType, TaskFormat> = {
   // Syntactic complexity tasks
   sentence_combining: 'free_response',  // Produce combined sentence
   clause_selection: 'mcq',              // Choose correct clause structure
+  // Spoken production
+  speaking: 'pronunciation',            // Recorded and scored against G2P
 };
 
 /**
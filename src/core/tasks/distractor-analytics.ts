@@ -0,0 +1,139 @@
+/**
+ * Distractor Analytics
+ *
+ * Judges MCQ distractors by how often learners pick them. A distractor
+ * nobody picks adds nothing to the item and is retired; one that is picked
+ * often points at a real confusion and is reported as an error of the
+ * component its strategy targets.
+ */
+
+import type { ComponentCode } from '../types';
+import type { Distractor, DistractorStrategy } from './distractor-generator';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Exposure counts for one distractor.
+ */
+export interface DistractorExposure {
+  /** Times the distractor was offered in an answered MCQ */
+  timesShown: number;
+  /** Times the learner chose it */
+  timesPicked: number;
+}
+
+/**
+ * What to do with a distractor given its exposure.
+ */
+export type DistractorVerdict = 'insufficient_data' | 'retire' | 'keep' | 'attractive';
+
+/**
+ * Pick rates for all distractors produced by one strategy.
+ */
+export interface StrategyAttractiveness {
+  strategy: DistractorStrategy;
+  distractors: number;
+  retired: number;
+  timesShown: number;
+  timesPicked: number;
+  /** timesPicked / timesShown over the strategy's distractors */
+  pickRate: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DISTRACTOR_ANALYTICS_CONFIG = {
+  /** Exposures before a distractor is judged */
+  minExposures: 20,
+  /** Distractors picked less often than this are retired */
+  retireBelowPickRate: 0.05,
+  /** Distractors picked at least this often are attractive */
+  attractiveFromPickRate: 0.25,
+};
+
+/**
+ * Component an attractive distractor reveals an error in, by strategy.
+ */
+export const DISTRACTOR_ERROR_COMPONENT: Record<DistractorStrategy, ComponentCode> = {
+  phonological_similar: 'PHON',
+  orthographic_similar: 'PHON',
+  morphological_variant: 'MORPH',
+  semantic_related: 'LEX',
+  common_confusion: 'LEX',
+  random_same_pos: 'LEX',
+  translation_false_friend: 'LEX',
+};
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Share of exposures in which the distractor was picked (0 if never shown).
+ */
+export function distractorPickRate(exposure: DistractorExposure): number {
+  return exposure.timesShown > 0 ? exposure.timesPicked / exposure.timesShown : 0;
+}
+
+/**
+ * Judge a distractor once it has been shown often enough.
+ */
+export function assessDistractor(
+  exposure: DistractorExposure,
+  config: typeof DISTRACTOR_ANALYTICS_CONFIG = DISTRACTOR_ANALYTICS_CONFIG
+): DistractorVerdict {
+  if (exposure.timesShown < config.minExposures) {
+    return 'insufficient_data';
+  }
+
+  const rate = distractorPickRate(exposure);
+  if (rate < config.retireBelowPickRate) {
+    return 'retire';
+  }
+  return rate >= config.attractiveFromPickRate ? 'attractive' : 'keep';
+}
+
+/**
+ * The distractor an MCQ answer chose, if any. Options are matched
+ * ignoring case and surrounding whitespace.
+ */
+export function findPickedDistractor<T extends Pick<Distractor, 'content'>>(
+  distractors: T[],
+  answer: string
+): T | undefined {
+  const normalized = answer.trim().toLowerCase();
+  return distractors.find(d => d.content.trim().toLowerCase() === normalized);
+}
+
+/**
+ * Aggregate distractor exposure per strategy, most attractive first.
+ */
+export function summarizeDistractorStrategies(
+  distractors: Array<DistractorExposure & { strategy: DistractorStrategy; retired: boolean }>
+): StrategyAttractiveness[] {
+  const byStrategy = new Map<DistractorStrategy, StrategyAttractiveness>();
+
+  for (const d of distractors) {
+    const summary = byStrategy.get(d.strategy) ?? {
+      strategy: d.strategy,
+      distractors: 0,
+      retired: 0,
+      timesShown: 0,
+      timesPicked: 0,
+      pickRate: 0,
+    };
+    summary.distractors++;
+    summary.retired += d.retired ? 1 : 0;
+    summary.timesShown += d.timesShown;
+    summary.timesPicked += d.timesPicked;
+    byStrategy.set(d.strategy, summary);
+  }
+
+  return [...byStrategy.values()]
+    .map(s => ({ ...s, pickRate: distractorPickRate(s) }))
+    .sort((a, b) => b.pickRate - a.pickRate);
+}
@@ -10,6 +10,19 @@
 
 import type { LanguageObject, ComponentType } from '../types';
 
+/**
+ * ISO 639-1 codes for the L1s with confusion pairs or false friends.
+ */
+const L1_NAMES: Record<string, string> = {
+  es: 'Spanish',
+  pt: 'Portuguese',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  ja: 'Japanese',
+  zh: 'Mandarin',
+};
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -65,7 +78,7 @@ export interface DistractorConfig {
   /** Target difficulty (affects plausibility) */
   targetDifficulty: number;
 
-  /** L1 for interference-based distractors */
+  /** L1 for interference-based distractors (name or ISO code) */
   nativeLanguage?: string;
 
   /** Avoid these as distractors */
@@ -98,12 +111,14 @@ export interface DistractorSet {
  */
 export class DistractorGenerator {
   private vocabulary: Map<string, LanguageObject>;
+  private vocabularyById: Map<string, LanguageObject>;
   private semanticGroups: Map<string, string[]>;
   private morphologicalFamilies: Map<string, string[]>;
   private confusionPairs: Map<string, Map<string, string[]>>;
 
   constructor() {
     this.vocabulary = new Map();
+    this.vocabularyById = new Map();
     this.semanticGroups = new Map();
     this.morphologicalFamilies = new Map();
     this.confusionPairs = new Map();
@@ -300,7 +315,7 @@ export class DistractorGenerator {
         for (const memberId of members) {
           if (memberId === target.id) continue;
 
-          const member = this.vocabulary.get(memberId);
+          const member = this.vocabularyById.get(memberId);
           if (member) {
             results.push({
               content: member.content,
@@ -356,7 +371,7 @@ export class DistractorGenerator {
         for (const memberId of family) {
           if (memberId === target.id) continue;
 
-          const member = this.vocabulary.get(memberId);
+          const member = this.vocabularyById.get(memberId);
           if (member) {
             results.push({
               content: member.content,
@@ -426,7 +441,8 @@ export class DistractorGenerator {
 
     if (!config.nativeLanguage) return results;
 
-    const confusions = this.confusionPairs.get(config.nativeLanguage);
+    const language = this.resolveL1(config.nativeLanguage);
+    const confusions = this.confusionPairs.get(language);
     if (!confusions) return results;
 
     const targetWord = target.content.toLowerCase();
@@ -438,7 +454,7 @@ export class DistractorGenerator {
           content: confusedWord,
           strategy: 'common_confusion',
           plausibility: 0.85,
-          explanation: `"${confusedWord}" is commonly confused with "${target.content}" by ${config.nativeLanguage} speakers`,
+          explanation: `"${confusedWord}" is commonly confused with "${target.content}" by ${language} speakers`,
         });
       }
     }
@@ -488,7 +504,8 @@ export class DistractorGenerator {
     if (!config.nativeLanguage) return results;
 
     // Get false friends database for the L1
-    const falseFriends = this.getFalseFriendsForLanguage(config.nativeLanguage);
+    const language = this.resolveL1(config.nativeLanguage);
+    const falseFriends = this.getFalseFriendsForLanguage(language);
     if (!falseFriends) return results;
 
     const targetWord = target.content.toLowerCase();
@@ -502,7 +519,7 @@ export class DistractorGenerator {
             content: entry.falseCognate,
             strategy: 'translation_false_friend',
             plausibility: 0.9, // False friends are highly plausible distractors
-            explanation: `"${entry.falseCognate}" looks like "${english}" but actually means "${entry.actualMeaning}" in ${config.nativeLanguage}`,
+            explanation: `"${entry.falseCognate}" looks like "${english}" but actually means "${entry.actualMeaning}" in ${language}`,
           });
         }
       }
@@ -511,6 +528,13 @@ export class DistractorGenerator {
     return results.slice(0, 3);
   }
 
+  /**
+   * L1 name for an ISO code ('es', 'pt-BR'); names pass through.
+   */
+  private resolveL1(language: string): string {
+    return L1_NAMES[language.split('-')[0].toLowerCase()] ?? language;
+  }
+
   /**
    * Get false friends database for a specific L1.
    */
@@ -767,20 +791,22 @@ export class DistractorGenerator {
    */
   loadVocabulary(objects: LanguageObject[]): void {
     this.vocabulary.clear();
+    this.vocabularyById.clear();
     for (const obj of objects) {
       this.vocabulary.set(obj.content.toLowerCase(), obj);
+      this.vocabularyById.set(obj.id, obj);
     }
   }
 
   /**
-   * Load semantic groups.
+   * Load semantic groups (member object IDs per group).
    */
   loadSemanticGroups(groups: Map<string, string[]>): void {
     this.semanticGroups = groups;
   }
 
   /**
-   * Load morphological families.
+   * Load morphological families (member object IDs per root).
    */
   loadMorphologicalFamilies(families: Map<string, string[]>): void {
     this.morphologicalFamilies = families;
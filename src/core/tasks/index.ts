@@ -48,3 +48,16 @@ export {
   createDistractorGenerator,
   generateDistractors,
 } from './distractor-generator';
+
+// Distractor Analytics
+export {
+  type DistractorExposure,
+  type DistractorVerdict,
+  type StrategyAttractiveness,
+  DISTRACTOR_ANALYTICS_CONFIG,
+  DISTRACTOR_ERROR_COMPONENT,
+  distractorPickRate,
+  assessDistractor,
+  findPickedDistractor,
+  summarizeDistractorStrategies,
+} from './distractor-analytics';
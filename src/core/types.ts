@@ -359,6 +359,9 @@ export interface StageThresholds {
   /** Maximum gap for stage 4 */
   stage4MaxGap: number;
 
+  /** Minimum automatization level for stage 4 (unset = not required) */
+  stage4Automatization?: number;
+
   /** Minimum cue-free accuracy for stage 3 */
   stage3CueFreeAccuracy: number;
 
@@ -382,6 +385,7 @@ export const DEFAULT_STAGE_THRESHOLDS: StageThresholds = {
   stage4CueFreeAccuracy: 0.9,
   stage4Stability: 30,
   stage4MaxGap: 0.1,
+  stage4Automatization: 0.7,
   stage3CueFreeAccuracy: 0.75,
   stage3Stability: 7,
   stage2CueFreeAccuracy: 0.6,
@@ -415,7 +419,9 @@ export type TaskType =
   | 'register_shift'        // Change register/formality
   // Syntactic complexity tasks (Lu, 2010, 2011)
   | 'sentence_combining'    // Combine simple sentences into complex ones
-  | 'clause_selection';     // Select appropriate subordinate/coordinate clause
+  | 'clause_selection'      // Select appropriate subordinate/coordinate clause
+  // Spoken production (scored against G2P expectations)
+  | 'speaking';             // Say the word aloud
 
 /**
  * Task presentation formats
@@ -427,7 +433,8 @@ export type TaskFormat =
   | 'matching'       // Match items
   | 'ordering'       // Order items correctly
   | 'dictation'      // Listen and write
-  | 'typing';        // Character-by-character typing with real-time validation
+  | 'typing'         // Character-by-character typing with real-time validation
+  | 'pronunciation'; // Recorded speech scored phoneme by phoneme
 
 /**
  * Input/output modality for tasks
@@ -1177,10 +1184,48 @@ export interface UserSettings {
   /** Target retention rate (0.7-0.99) */
   targetRetention: number;
 
+  /** Success rate practice tasks are aimed at (0.5-0.95) */
+  targetSuccessRate: number;
+
   /** Custom FRE priority weights (null = use level-based defaults) */
   priorityWeights: UserFREWeights | null;
+
+  /** Which model backend serves each AI capability */
+  aiProviders: AIProviderSettingsMap;
 }
 
+/**
+ * AI capabilities that can be routed to different model backends
+ */
+export type AICapability = 'content' | 'errorAnalysis' | 'hints';
+
+/**
+ * Model backend kind.
+ * 'offline' uses the built-in templates and never leaves the machine.
+ */
+export type AIProviderKind = 'anthropic' | 'openai-compatible' | 'offline';
+
+/**
+ * Backend configuration for one AI capability
+ */
+export interface AIProviderSettings {
+  kind: AIProviderKind;
+
+  /** Model name (Anthropic uses its default when omitted) */
+  model?: string;
+
+  /** Endpoint base URL, e.g. http://localhost:8080/v1 (openai-compatible only) */
+  baseUrl?: string;
+
+  /** API key (Anthropic falls back to ANTHROPIC_API_KEY) */
+  apiKey?: string;
+}
+
+/**
+ * Backend configuration per AI capability
+ */
+export type AIProviderSettingsMap = Record<AICapability, AIProviderSettings>;
+
 // =============================================================================
 // Learning Queue Types
 // =============================================================================
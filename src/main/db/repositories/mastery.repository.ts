@@ -62,6 +62,17 @@ export interface StageTransition {
 // Repository Functions
 // =============================================================================
 
+/**
+ * Filter for language objects that may be queued: not suspended, and not
+ * buried past the given time.
+ */
+export function schedulableObjectWhere(now: Date = new Date()): Prisma.LanguageObjectWhereInput {
+  return {
+    suspended: false,
+    OR: [{ buriedUntil: null }, { buriedUntil: { lte: now } }],
+  };
+}
+
 /**
  * Initialize mastery state for a language object.
  */
@@ -189,7 +200,7 @@ export async function getReviewQueue(
 
   const items = await db.masteryState.findMany({
     where: {
-      object: { goalId },
+      object: { goalId, ...schedulableObjectWhere(now) },
       OR: [
         { nextReview: null },
         { nextReview: { lte: now } },
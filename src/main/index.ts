@@ -8,7 +8,10 @@
 import { app, BrowserWindow, shell } from 'electron';
 import * as path from 'path';
 import { registerAllHandlers } from './ipc';
+import { backupBeforeMigrations } from './ipc/system.ipc';
 import { initDatabase } from './db/client';
+import { connectDynamicCorpus } from './services/corpus-sources/corpus-store.service';
+import { syncAllGrammarObjects } from './services/grammar-track.service';
 
 // Set DATABASE_URL for production if not already set
 if (!process.env.DATABASE_URL) {
@@ -32,9 +35,18 @@ let mainWindow: BrowserWindow | null = null;
 const isDev = process.env.NODE_ENV === 'development';
 
 async function createWindow(): Promise<void> {
-  // Initialize database
+  // Snapshot the database before schema changes, then connect
+  await backupBeforeMigrations();
   await initDatabase();
 
+  // Give goals created before the grammar track their construction objects
+  await syncAllGrammarObjects().catch((err) => {
+    console.error('Failed to sync grammar tracks:', err);
+  });
+
+  // Let dynamic corpus API sources fetch and persist responses
+  connectDynamicCorpus();
+
   // Register IPC handlers
   registerAllHandlers();
 
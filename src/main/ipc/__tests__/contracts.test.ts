@@ -0,0 +1,107 @@
+// @vitest-environment node
+/**
+ * IPC Contracts Tests
+ *
+ * Tests for handler registration:
+ * - Errors thrown by handlers become error responses
+ * - Exclusive handlers wait for running requests and refuse new ones
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+type Invoke = (event: unknown, request: unknown) => Promise<unknown>;
+
+const handlers = new Map<string, Invoke>();
+
+vi.mock('electron', () => ({
+  ipcMain: {
+    handle: (channel: string, fn: Invoke) => handlers.set(channel, fn),
+    removeHandler: (channel: string) => handlers.delete(channel),
+  },
+  BrowserWindow: { getAllWindows: () => [] },
+}));
+
+import { registerHandler, registerDynamicHandler, success } from '../contracts';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function invoke(channel: string, request: unknown = {}): Promise<unknown> {
+  const handler = handlers.get(channel);
+  if (!handler) {
+    throw new Error(`No handler for ${channel}`);
+  }
+  return handler({}, request);
+}
+
+/** A promise resolved from outside, to hold a handler open */
+function gate() {
+  let open: () => void = () => undefined;
+  const opened = new Promise<void>((resolve) => {
+    open = resolve;
+  });
+  return { open, opened };
+}
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  handlers.clear();
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('registerDynamicHandler', () => {
+  it('turns thrown errors into error responses', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    registerDynamicHandler('test:throws', async () => {
+      throw new Error('boom');
+    });
+
+    expect(await invoke('test:throws')).toEqual({ success: false, error: 'boom' });
+  });
+});
+
+describe('exclusive handlers', () => {
+  it('wait for running requests and refuse new ones until done', async () => {
+    const slow = gate();
+    const restore = gate();
+    const order: string[] = [];
+
+    registerDynamicHandler('test:slow', async () => {
+      await slow.opened;
+      order.push('slow');
+      return success('slow');
+    });
+    registerDynamicHandler('test:read', async () => success('read'));
+    registerHandler(
+      'system:restore-backup',
+      async () => {
+        order.push('restore');
+        await restore.opened;
+        return success(null);
+      },
+      { exclusive: true }
+    );
+
+    const running = invoke('test:slow');
+    const restoring = invoke('system:restore-backup', { backupId: 'b' });
+    await Promise.resolve();
+
+    expect(await invoke('test:read')).toEqual({
+      success: false,
+      error: 'Database maintenance in progress; try again shortly',
+    });
+    expect(order).toEqual([]);
+
+    slow.open();
+    await running;
+    await vi.waitFor(() => expect(order).toEqual(['slow', 'restore']));
+
+    restore.open();
+    expect(await restoring).toEqual({ success: true, data: null });
+    expect(await invoke('test:read')).toEqual({ success: true, data: 'read' });
+  });
+});
@@ -9,6 +9,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   validateInput,
   OnboardingCompleteSchema,
+  PlacementNextSchema,
+  PlacementCompleteSchema,
 } from '../../../shared/schemas/ipc-schemas';
 
 // ============================================================================
@@ -209,6 +211,30 @@ describe('Onboarding IPC Schema Validation', () => {
       expect(invalid.success).toBe(false);
     });
   });
+
+  describe('Placement test schemas', () => {
+    const answer = { itemId: 'cat-lex-4', answer: 'harmful', responseTimeMs: 4200 };
+
+    it('should default to an empty answer list when starting', () => {
+      const result = validateInput(PlacementNextSchema, {});
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.answers).toEqual([]);
+      }
+    });
+
+    it('should require a goal and at least one answer to score', () => {
+      const goalId = '123e4567-e89b-12d3-a456-426614174000';
+
+      expect(validateInput(PlacementCompleteSchema, { goalId, answers: [answer] }).success).toBe(true);
+      expect(validateInput(PlacementCompleteSchema, { goalId, answers: [] }).success).toBe(false);
+      expect(validateInput(PlacementCompleteSchema, { goalId: 'goal', answers: [answer] }).success).toBe(false);
+      expect(
+        validateInput(PlacementCompleteSchema, { goalId, answers: [{ ...answer, responseTimeMs: -1 }] }).success
+      ).toBe(false);
+    });
+  });
 });
 
 // ============================================================================
@@ -0,0 +1,61 @@
+/**
+ * Automatization IPC Handlers
+ *
+ * Response-time profiles per object and timed speed rounds. Profiles are
+ * kept up to date by session:submit-response; see automatization.service.ts.
+ */
+
+import { registerHandler, unregisterHandler, success, error, CHANNELS } from './contracts';
+import {
+  validateInput,
+  AutomatizationProfileSchema,
+  SpeedRoundSchema,
+} from '../../shared/schemas/ipc-schemas';
+import { getAutomatizationDetail, buildSpeedRound } from '../services/automatization.service';
+
+// =============================================================================
+// Handler Registration
+// =============================================================================
+
+/**
+ * Register all Automatization IPC handlers.
+ */
+export function registerAutomatizationHandlers(): void {
+  // Profile, fluency metrics and practice suggestions for one object
+  registerHandler(CHANNELS.AUTOMATIZATION_GET_PROFILE, async (_event, request) => {
+    const validation = validateInput(AutomatizationProfileSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      return success(await getAutomatizationDetail(validation.data.objectId));
+    } catch (err) {
+      console.error('Failed to get automatization profile:', err);
+      return error(err instanceof Error ? err.message : 'Failed to get automatization profile');
+    }
+  });
+
+  // Timed drill over known but slow objects
+  registerHandler(CHANNELS.AUTOMATIZATION_GET_SPEED_ROUND, async (_event, request) => {
+    const validation = validateInput(SpeedRoundSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      return success(await buildSpeedRound(validation.data.goalId, validation.data.size));
+    } catch (err) {
+      console.error('Failed to build speed round:', err);
+      return error(err instanceof Error ? err.message : 'Failed to build speed round');
+    }
+  });
+}
+
+/**
+ * Unregister all Automatization IPC handlers.
+ */
+export function unregisterAutomatizationHandlers(): void {
+  unregisterHandler(CHANNELS.AUTOMATIZATION_GET_PROFILE);
+  unregisterHandler(CHANNELS.AUTOMATIZATION_GET_SPEED_ROUND);
+}
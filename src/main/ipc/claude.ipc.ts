@@ -8,6 +8,7 @@
 import { registerDynamicHandler, success, error, validateUUID, validateNonEmpty } from './contracts';
 import { prisma } from '../db/client';
 import { getClaudeService } from '../services/claude.service';
+import { getGloss } from '../services/glossary.service';
 import type { ContentRequest, ErrorAnalysisRequest, HintRequest } from '../services/claude.service';
 
 // ============================================================================
@@ -150,19 +151,21 @@ export function registerClaudeHandlers(): void {
 
       const analysis = await claude.analyzeError(analysisRequest);
 
-      // Store error analysis if responseId provided
+      // Store error analysis if responseId provided; it replaces a
+      // rule-based analysis recorded with the response
       if (responseId) {
-        await prisma.errorAnalysis.create({
-          data: {
-            responseId,
-            objectId,
-            component: analysis.component,
-            errorType: analysis.errorType,
-            explanation: analysis.explanation,
-            correction: analysis.correction,
-            similarErrors: analysis.similarErrors ? JSON.stringify(analysis.similarErrors) : null,
-            source: 'claude',
-          },
+        const record = {
+          component: analysis.component,
+          errorType: analysis.errorType,
+          explanation: analysis.explanation,
+          correction: analysis.correction,
+          similarErrors: analysis.similarErrors ? JSON.stringify(analysis.similarErrors) : null,
+          source: 'claude',
+        };
+        await prisma.errorAnalysis.upsert({
+          where: { responseId },
+          create: { responseId, objectId, ...record },
+          update: record,
         });
 
         // Update component error stats for the user
@@ -320,10 +323,13 @@ export function registerClaudeHandlers(): void {
         return error('Learning object not found');
       }
 
+      // The meaning from the glossary, in the learner's language when known
+      const gloss = await getGloss(objectId).catch(() => null);
+
       const claude = getClaudeService();
       const hintRequest: HintRequest = {
         content: object.content,
-        translation: (object as any).translation || undefined,
+        translation: gloss?.translation ?? gloss?.definition ?? undefined,
         targetLanguage: object.goal.user.targetLanguage,
         nativeLanguage: object.goal.user.nativeLanguage,
         hintLevel,
@@ -8,9 +8,10 @@
  * the runtime contracts and validation.
  */
 
-import { ipcMain, IpcMainInvokeEvent } from 'electron';
+import { ipcMain, IpcMainInvokeEvent, BrowserWindow } from 'electron';
 import type {
   IPCHandlerMap,
+  IPCEventPayloads,
   GoalSpec,
   LanguageObject,
   SessionState,
@@ -41,6 +42,7 @@ export const CHANNELS = {
   GOAL_GET: 'goal:get',
   GOAL_LIST: 'goal:list',
   GOAL_SET_ACTIVE: 'goal:set-active',
+  GOAL_GET_GRAMMAR_ROADMAP: 'goal:get-grammar-roadmap',
 
   // Learning Session
   SESSION_START: 'session:start',
@@ -50,6 +52,9 @@ export const CHANNELS = {
   SESSION_GET_STATE: 'session:get-state',
   SESSION_GET_SUMMARY: 'session:get-summary',
   SESSION_LIST: 'session:list',
+  SESSION_SCORE_SPEECH: 'session:score-speech',
+  SESSION_SPEECH_STATUS: 'session:speech-status',
+  SESSION_GENERATE_TASK: 'session:generate-task',
 
   // Learning Queue
   QUEUE_GET: 'queue:get',
@@ -70,6 +75,8 @@ export const CHANNELS = {
   ANALYTICS_GET_PROGRESS: 'analytics:get-progress',
   ANALYTICS_GET_BOTTLENECKS: 'analytics:get-bottlenecks',
   ANALYTICS_GET_HISTORY: 'analytics:get-history',
+  ANALYTICS_GET_DISTRACTORS: 'analytics:get-distractors',
+  ANALYTICS_GET_INTENT_CALIBRATION: 'analytics:get-intent-calibration',
 
   // Content Generation (Claude API)
   CLAUDE_GENERATE_TASK: 'claude:generate-task',
@@ -87,6 +94,60 @@ export const CHANNELS = {
   SYSTEM_EXPORT_DATA: 'system:export-data',
   SYSTEM_IMPORT_DATA: 'system:import-data',
   SYSTEM_BACKUP: 'system:backup',
+  SYSTEM_LIST_BACKUPS: 'system:list-backups',
+  SYSTEM_RESTORE_BACKUP: 'system:restore-backup',
+
+  // Milestones
+  MILESTONE_GET_HISTORY: 'milestone:get-history',
+  MILESTONE_ACKNOWLEDGE: 'milestone:acknowledge',
+
+  // Threshold Experiments
+  EXPERIMENT_LIST: 'experiment:list',
+  EXPERIMENT_CREATE: 'experiment:create',
+  EXPERIMENT_END: 'experiment:end',
+  EXPERIMENT_GET_RESULTS: 'experiment:get-results',
+  EXPERIMENT_GET_ASSIGNMENT: 'experiment:get-assignment',
+
+  // Study Planner
+  PLANNER_GET_PLAN: 'planner:get-plan',
+  PLANNER_CREATE_PLAN: 'planner:create-plan',
+  PLANNER_GET_SESSION_QUEUE: 'planner:get-session-queue',
+
+  // Word Explorer
+  EXPLORER_SEARCH: 'explorer:search',
+  EXPLORER_GET_OBJECT: 'explorer:get-object',
+  EXPLORER_APPLY_ACTION: 'explorer:apply-action',
+  EXPLORER_EDIT_OBJECT: 'explorer:edit-object',
+
+  // Word Network
+  NETWORK_GET_NEIGHBORHOOD: 'network:get-neighborhood',
+  NETWORK_GET_CLUSTER_QUEUE: 'network:get-cluster-queue',
+
+  // Automatization
+  AUTOMATIZATION_GET_PROFILE: 'automatization:get-profile',
+  AUTOMATIZATION_GET_SPEED_ROUND: 'automatization:get-speed-round',
+
+  // User Graph
+  GRAPH_GET_EXPOSURE: 'graph:get-exposure',
+
+  // Mastery Propagation
+  PROPAGATION_GET_LOG: 'propagation:get-log',
+  PROPAGATION_SET_ENABLED: 'propagation:set-enabled',
+
+  // Corpus Packs
+  CORPUS_LIST_PACKS: 'corpus:list-packs',
+  CORPUS_INSTALL_PACK: 'corpus:install-pack',
+  CORPUS_REMOVE_PACK: 'corpus:remove-pack',
+
+  // Glossary
+  GLOSSARY_GET: 'glossary:get',
+  GLOSSARY_ADD_SENSE: 'glossary:add-sense',
+  GLOSSARY_UPDATE_SENSE: 'glossary:update-sense',
+  GLOSSARY_DELETE_SENSE: 'glossary:delete-sense',
+  GLOSSARY_MAKE_PRIMARY: 'glossary:make-primary',
+  GLOSSARY_IMPORT: 'glossary:import',
+  GLOSSARY_GENERATE: 'glossary:generate',
+  GLOSSARY_FILL_GOAL: 'glossary:fill-goal',
 } as const;
 
 // ============================================================================
@@ -117,34 +178,88 @@ export type HandlerRegistry = {
   [K in keyof typeof CHANNELS]?: IPCHandler<unknown, unknown>;
 };
 
+/**
+ * How a handler is scheduled against the others.
+ */
+export interface HandlerOptions {
+  /**
+   * Run alone, for handlers that swap the database file: other requests
+   * are refused while it runs, and requests already running finish first.
+   */
+  exclusive?: boolean;
+}
+
 // ============================================================================
 // Handler Registration
 // ============================================================================
 
+/** Exclusive handler running now, if any */
+let exclusiveChannel: string | null = null;
+/** Non-exclusive handlers running now */
+let runningHandlers = 0;
+let idleWaiters: Array<() => void> = [];
+
+function waitUntilIdle(): Promise<void> {
+  if (runningHandlers === 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => idleWaiters.push(resolve));
+}
+
+async function dispatch(
+  channel: string,
+  options: HandlerOptions,
+  run: () => Promise<IPCResponse<unknown>>
+): Promise<IPCResponse<unknown>> {
+  if (exclusiveChannel) {
+    return { success: false, error: 'Database maintenance in progress; try again shortly' };
+  }
+
+  if (options.exclusive) {
+    exclusiveChannel = channel;
+  } else {
+    runningHandlers++;
+  }
+  try {
+    if (options.exclusive) {
+      await waitUntilIdle();
+    }
+    return await run();
+  } catch (error) {
+    console.error(`IPC Error [${channel}]:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  } finally {
+    if (options.exclusive) {
+      exclusiveChannel = null;
+    } else if (--runningHandlers === 0) {
+      const waiters = idleWaiters;
+      idleWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  }
+}
+
 /**
  * Register a type-safe IPC handler.
  *
  * @param channel - The IPC channel name
  * @param handler - The async handler function
+ * @param options - Scheduling against other handlers
  */
 export function registerHandler<TChannel extends keyof IPCHandlerMap>(
   channel: TChannel,
   handler: (
     event: IpcMainInvokeEvent,
     request: IPCHandlerMap[TChannel]['request']
-  ) => Promise<IPCResponse<IPCHandlerMap[TChannel]['response']> | IPCResponse<unknown>>
+  ) => Promise<IPCResponse<IPCHandlerMap[TChannel]['response']> | IPCResponse<unknown>>,
+  options: HandlerOptions = {}
 ): void {
-  ipcMain.handle(channel, async (event, request) => {
-    try {
-      return await handler(event, request);
-    } catch (error) {
-      console.error(`IPC Error [${channel}]:`, error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
-  });
+  ipcMain.handle(channel, (event, request) =>
+    dispatch(channel, options, () => handler(event, request))
+  );
 }
 
 /**
@@ -157,17 +272,9 @@ export function registerDynamicHandler(
     request: any
   ) => Promise<IPCResponse<any>>
 ): void {
-  ipcMain.handle(channel, async (event, request) => {
-    try {
-      return await handler(event, request);
-    } catch (error) {
-      console.error(`IPC Error [${channel}]:`, error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
-  });
+  ipcMain.handle(channel, (event, request) =>
+    dispatch(channel, {}, () => handler(event, request))
+  );
 }
 
 /**
@@ -191,6 +298,24 @@ export function error<T>(message: string): IPCResponse<T> {
   return { success: false, error: message };
 }
 
+// ============================================================================
+// Event Emission (Main -> Renderer)
+// ============================================================================
+
+/**
+ * Push an event to every open renderer window.
+ */
+export function emitEvent<TEvent extends keyof IPCEventPayloads>(
+  event: TEvent,
+  payload: IPCEventPayloads[TEvent]
+): void {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.isDestroyed()) {
+      window.webContents.send(event, payload);
+    }
+  }
+}
+
 // ============================================================================
 // Validation Helpers
 // ============================================================================
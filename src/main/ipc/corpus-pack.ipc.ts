@@ -0,0 +1,105 @@
+/**
+ * Corpus Pack IPC Handlers
+ *
+ * Lists, installs and removes the offline frequency lists and dictionaries
+ * the corpus pipeline reads for `static` sources. Pack format, validation
+ * and vocabulary selection live in corpus-pack.service.ts.
+ */
+
+import { app } from 'electron';
+import * as path from 'path';
+import { registerHandler, unregisterHandler, success, error, CHANNELS } from './contracts';
+import {
+  validateInput,
+  CorpusInstallPackSchema,
+  CorpusRemovePackSchema,
+} from '../../shared/schemas/ipc-schemas';
+import {
+  configureCorpusPacks,
+  listCorpusPacks,
+  installCorpusPack,
+  removeCorpusPack,
+} from '../services/corpus-sources/corpus-pack.service';
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+/**
+ * Packs shipped with the app; a resource when packaged.
+ */
+function getBundledPackDir(): string {
+  return app.isPackaged
+    ? path.join(process.resourcesPath, 'data', 'corpus-packs')
+    : path.join(app.getAppPath(), 'data', 'corpus-packs');
+}
+
+/**
+ * Packs installed by the user.
+ */
+function getUserPackDir(): string {
+  return path.join(app.getPath('userData'), 'corpus-packs');
+}
+
+// =============================================================================
+// Handler Registration
+// =============================================================================
+
+/**
+ * Register all corpus pack IPC handlers and point the pack store at the
+ * bundled and user pack directories.
+ */
+export function registerCorpusPackHandlers(): void {
+  configureCorpusPacks({ bundledDir: getBundledPackDir(), userDir: getUserPackDir() });
+
+  // Bundled and installed packs
+  registerHandler(CHANNELS.CORPUS_LIST_PACKS, async () => {
+    try {
+      return success(await listCorpusPacks());
+    } catch (err) {
+      console.error('Failed to list corpus packs:', err);
+      return error('Failed to list corpus packs');
+    }
+  });
+
+  // Validate a pack file and install it
+  registerHandler(CHANNELS.CORPUS_INSTALL_PACK, async (_event, request) => {
+    const validation = validateInput(CorpusInstallPackSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      return success(await installCorpusPack(validation.data.filePath));
+    } catch (err) {
+      console.error('Failed to install corpus pack:', err);
+      return error(err instanceof Error ? err.message : 'Failed to install corpus pack');
+    }
+  });
+
+  // Remove a user-installed pack
+  registerHandler(CHANNELS.CORPUS_REMOVE_PACK, async (_event, request) => {
+    const validation = validateInput(CorpusRemovePackSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      await removeCorpusPack(validation.data.packId);
+      return success({ removed: true });
+    } catch (err) {
+      console.error('Failed to remove corpus pack:', err);
+      return error(err instanceof Error ? err.message : 'Failed to remove corpus pack');
+    }
+  });
+}
+
+/**
+ * Unregister all corpus pack IPC handlers.
+ */
+export function unregisterCorpusPackHandlers(): void {
+  unregisterHandler(CHANNELS.CORPUS_LIST_PACKS);
+  unregisterHandler(CHANNELS.CORPUS_INSTALL_PACK);
+  unregisterHandler(CHANNELS.CORPUS_REMOVE_PACK);
+  configureCorpusPacks(null);
+}
@@ -0,0 +1,123 @@
+/**
+ * Threshold Experiment IPC Handlers
+ *
+ * Manages A/B experiments on mastery stage thresholds and exposes the
+ * group comparison used to justify threshold changes.
+ * Persistence, assignment and analysis live in threshold-experiment.service.ts.
+ */
+
+import { registerHandler, unregisterHandler, success, error, CHANNELS } from './contracts';
+import { prisma } from '../db/client';
+import {
+  validateInput,
+  ExperimentCreateSchema,
+  ExperimentIdSchema,
+  ExperimentListSchema,
+} from '../../shared/schemas/ipc-schemas';
+import {
+  createExperiment,
+  listExperiments,
+  endExperiment,
+  getExperimentResults,
+  getThresholdConfigForUser,
+} from '../services/threshold-experiment.service';
+
+// =============================================================================
+// Handler Registration
+// =============================================================================
+
+/**
+ * Register all experiment-related IPC handlers.
+ */
+export function registerExperimentHandlers(): void {
+  // List experiments
+  registerHandler(CHANNELS.EXPERIMENT_LIST, async (_event, request) => {
+    const validation = validateInput(ExperimentListSchema, request ?? {});
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const experiments = await listExperiments(validation.data.activeOnly);
+      return success(experiments);
+    } catch (err) {
+      console.error('Failed to list experiments:', err);
+      return error('Failed to list experiments');
+    }
+  });
+
+  // Create and start an experiment
+  registerHandler(CHANNELS.EXPERIMENT_CREATE, async (_event, request) => {
+    const validation = validateInput(ExperimentCreateSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const experiment = await createExperiment(validation.data);
+      return success(experiment);
+    } catch (err) {
+      console.error('Failed to create experiment:', err);
+      return error(err instanceof Error ? err.message : 'Failed to create experiment');
+    }
+  });
+
+  // Stop an experiment (assignments and transitions are kept)
+  registerHandler(CHANNELS.EXPERIMENT_END, async (_event, request) => {
+    const validation = validateInput(ExperimentIdSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const experiment = await endExperiment(validation.data.experimentId);
+      return success(experiment);
+    } catch (err) {
+      console.error('Failed to end experiment:', err);
+      return error('Failed to end experiment');
+    }
+  });
+
+  // Compare groups on retention and time-to-mastery
+  registerHandler(CHANNELS.EXPERIMENT_GET_RESULTS, async (_event, request) => {
+    const validation = validateInput(ExperimentIdSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const results = await getExperimentResults(validation.data.experimentId);
+      return success(results);
+    } catch (err) {
+      console.error('Failed to get experiment results:', err);
+      return error(err instanceof Error ? err.message : 'Failed to get experiment results');
+    }
+  });
+
+  // Threshold configuration currently applied to the local user
+  registerHandler(CHANNELS.EXPERIMENT_GET_ASSIGNMENT, async () => {
+    try {
+      const user = await prisma.user.findFirst();
+      if (!user) {
+        return error('No user found');
+      }
+
+      const { config, experimentId, groupId } = await getThresholdConfigForUser(user.id);
+      return success({ configId: config.id, configName: config.name, experimentId, groupId });
+    } catch (err) {
+      console.error('Failed to get threshold assignment:', err);
+      return error('Failed to get threshold assignment');
+    }
+  });
+}
+
+/**
+ * Unregister all experiment-related IPC handlers.
+ */
+export function unregisterExperimentHandlers(): void {
+  unregisterHandler(CHANNELS.EXPERIMENT_LIST);
+  unregisterHandler(CHANNELS.EXPERIMENT_CREATE);
+  unregisterHandler(CHANNELS.EXPERIMENT_END);
+  unregisterHandler(CHANNELS.EXPERIMENT_GET_RESULTS);
+  unregisterHandler(CHANNELS.EXPERIMENT_GET_ASSIGNMENT);
+}
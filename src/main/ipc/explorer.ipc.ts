@@ -0,0 +1,120 @@
+/**
+ * Word Explorer IPC Handlers
+ *
+ * Faceted browsing of a goal's objects for the Word Explorer page, object
+ * details, and manual control of items (suspend, bury, reset, edit).
+ * Search and item actions live in word-explorer.service.ts.
+ */
+
+import { registerHandler, unregisterHandler, success, error, CHANNELS } from './contracts';
+import {
+  validateInput,
+  ExplorerSearchSchema,
+  ExplorerObjectSchema,
+  ExplorerActionSchema,
+  ExplorerEditSchema,
+} from '../../shared/schemas/ipc-schemas';
+import {
+  searchGoalObjects,
+  getObjectDetail,
+  applyObjectAction,
+  editObject,
+} from '../services/word-explorer.service';
+import type { MasteryStage } from '../../core/types';
+
+// =============================================================================
+// Handler Registration
+// =============================================================================
+
+/**
+ * Register all Word Explorer IPC handlers.
+ */
+export function registerExplorerHandlers(): void {
+  // Faceted search over a goal's objects
+  registerHandler(CHANNELS.EXPLORER_SEARCH, async (_event, request) => {
+    const validation = validateInput(ExplorerSearchSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const { stages, ...query } = validation.data;
+      const result = await searchGoalObjects({ ...query, stages: stages as MasteryStage[] | undefined });
+      return success(result);
+    } catch (err) {
+      console.error('Failed to search objects:', err);
+      return error(err instanceof Error ? err.message : 'Failed to search objects');
+    }
+  });
+
+  // Detail pane for one object
+  registerHandler(CHANNELS.EXPLORER_GET_OBJECT, async (_event, request) => {
+    const validation = validateInput(ExplorerObjectSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const detail = await getObjectDetail(validation.data.objectId);
+      if (!detail) {
+        return error('Object not found');
+      }
+      return success(detail);
+    } catch (err) {
+      console.error('Failed to get object details:', err);
+      return error(err instanceof Error ? err.message : 'Failed to get object details');
+    }
+  });
+
+  // Suspend, bury or reset an object
+  registerHandler(CHANNELS.EXPLORER_APPLY_ACTION, async (_event, request) => {
+    const validation = validateInput(ExplorerActionSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const detail = await applyObjectAction(validation.data.objectId, validation.data.action);
+      if (!detail) {
+        return error('Object not found');
+      }
+      return success(detail);
+    } catch (err) {
+      console.error('Failed to apply object action:', err);
+      return error(err instanceof Error ? err.message : 'Failed to apply object action');
+    }
+  });
+
+  // Manual edits to content, difficulty, stage or review date
+  registerHandler(CHANNELS.EXPLORER_EDIT_OBJECT, async (_event, request) => {
+    const validation = validateInput(ExplorerEditSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const { objectId, stage, ...changes } = validation.data;
+      const detail = await editObject(objectId, {
+        ...changes,
+        stage: stage as MasteryStage | undefined,
+      });
+      if (!detail) {
+        return error('Object not found');
+      }
+      return success(detail);
+    } catch (err) {
+      console.error('Failed to edit object:', err);
+      return error(err instanceof Error ? err.message : 'Failed to edit object');
+    }
+  });
+}
+
+/**
+ * Unregister all Word Explorer IPC handlers.
+ */
+export function unregisterExplorerHandlers(): void {
+  unregisterHandler(CHANNELS.EXPLORER_SEARCH);
+  unregisterHandler(CHANNELS.EXPLORER_GET_OBJECT);
+  unregisterHandler(CHANNELS.EXPLORER_APPLY_ACTION);
+  unregisterHandler(CHANNELS.EXPLORER_EDIT_OBJECT);
+}
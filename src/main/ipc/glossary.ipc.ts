@@ -0,0 +1,172 @@
+/**
+ * Glossary IPC Handlers
+ *
+ * Reading and editing the bilingual glossary of language objects for the
+ * Word Explorer: hand-written senses, dictionary lookups in the installed
+ * corpus packs and generation with the AI content provider. Sense storage
+ * and sources live in glossary.service.ts.
+ */
+
+import { registerHandler, unregisterHandler, success, error, CHANNELS } from './contracts';
+import {
+  validateInput,
+  GlossaryObjectSchema,
+  GlossaryAddSenseSchema,
+  GlossaryUpdateSenseSchema,
+  GlossarySenseIdSchema,
+  GlossaryFillGoalSchema,
+} from '../../shared/schemas/ipc-schemas';
+import {
+  getGlossary,
+  addGlossarySense,
+  updateGlossarySense,
+  deleteGlossarySense,
+  makePrimarySense,
+  importGlossaryFromDictionaries,
+  generateGlossaryWithProvider,
+  fillGlossaryForGoal,
+} from '../services/glossary.service';
+
+// =============================================================================
+// Handler Registration
+// =============================================================================
+
+/**
+ * Register all glossary IPC handlers.
+ */
+export function registerGlossaryHandlers(): void {
+  // Senses of an object
+  registerHandler(CHANNELS.GLOSSARY_GET, async (_event, request) => {
+    const validation = validateInput(GlossaryObjectSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      return success(await getGlossary(validation.data.objectId));
+    } catch (err) {
+      console.error('Failed to get glossary:', err);
+      return error(err instanceof Error ? err.message : 'Failed to get glossary');
+    }
+  });
+
+  // Hand-written sense
+  registerHandler(CHANNELS.GLOSSARY_ADD_SENSE, async (_event, request) => {
+    const validation = validateInput(GlossaryAddSenseSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      return success(await addGlossarySense(validation.data.objectId, validation.data.sense));
+    } catch (err) {
+      console.error('Failed to add glossary sense:', err);
+      return error(err instanceof Error ? err.message : 'Failed to add glossary sense');
+    }
+  });
+
+  // Edit a sense
+  registerHandler(CHANNELS.GLOSSARY_UPDATE_SENSE, async (_event, request) => {
+    const validation = validateInput(GlossaryUpdateSenseSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      return success(await updateGlossarySense(validation.data.senseId, validation.data.sense));
+    } catch (err) {
+      console.error('Failed to update glossary sense:', err);
+      return error(err instanceof Error ? err.message : 'Failed to update glossary sense');
+    }
+  });
+
+  // Remove a sense
+  registerHandler(CHANNELS.GLOSSARY_DELETE_SENSE, async (_event, request) => {
+    const validation = validateInput(GlossarySenseIdSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      return success(await deleteGlossarySense(validation.data.senseId));
+    } catch (err) {
+      console.error('Failed to delete glossary sense:', err);
+      return error(err instanceof Error ? err.message : 'Failed to delete glossary sense');
+    }
+  });
+
+  // Make a sense the one shown in hints and feedback
+  registerHandler(CHANNELS.GLOSSARY_MAKE_PRIMARY, async (_event, request) => {
+    const validation = validateInput(GlossarySenseIdSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      return success(await makePrimarySense(validation.data.senseId));
+    } catch (err) {
+      console.error('Failed to reorder glossary senses:', err);
+      return error(err instanceof Error ? err.message : 'Failed to reorder glossary senses');
+    }
+  });
+
+  // Dictionary lookup in the installed corpus packs
+  registerHandler(CHANNELS.GLOSSARY_IMPORT, async (_event, request) => {
+    const validation = validateInput(GlossaryObjectSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      return success(await importGlossaryFromDictionaries(validation.data.objectId));
+    } catch (err) {
+      console.error('Failed to import glossary:', err);
+      return error(err instanceof Error ? err.message : 'Failed to import glossary');
+    }
+  });
+
+  // Senses from the AI content provider
+  registerHandler(CHANNELS.GLOSSARY_GENERATE, async (_event, request) => {
+    const validation = validateInput(GlossaryObjectSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      return success(await generateGlossaryWithProvider(validation.data.objectId));
+    } catch (err) {
+      console.error('Failed to generate glossary:', err);
+      return error(err instanceof Error ? err.message : 'Failed to generate glossary');
+    }
+  });
+
+  // Fill the glossary of a goal's words that have none
+  registerHandler(CHANNELS.GLOSSARY_FILL_GOAL, async (_event, request) => {
+    const validation = validateInput(GlossaryFillGoalSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const { goalId, ...options } = validation.data;
+      return success(await fillGlossaryForGoal(goalId, options));
+    } catch (err) {
+      console.error('Failed to fill glossary:', err);
+      return error(err instanceof Error ? err.message : 'Failed to fill glossary');
+    }
+  });
+}
+
+/**
+ * Unregister all glossary IPC handlers.
+ */
+export function unregisterGlossaryHandlers(): void {
+  unregisterHandler(CHANNELS.GLOSSARY_GET);
+  unregisterHandler(CHANNELS.GLOSSARY_ADD_SENSE);
+  unregisterHandler(CHANNELS.GLOSSARY_UPDATE_SENSE);
+  unregisterHandler(CHANNELS.GLOSSARY_DELETE_SENSE);
+  unregisterHandler(CHANNELS.GLOSSARY_MAKE_PRIMARY);
+  unregisterHandler(CHANNELS.GLOSSARY_IMPORT);
+  unregisterHandler(CHANNELS.GLOSSARY_GENERATE);
+  unregisterHandler(CHANNELS.GLOSSARY_FILL_GOAL);
+}
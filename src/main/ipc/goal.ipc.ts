@@ -22,6 +22,9 @@ import {
   clearVocabulary,
   processUserUploads,
 } from '../services/corpus-sources/corpus-pipeline.service';
+import { getGrammarRoadmap, syncGrammarObjects } from '../services/grammar-track.service';
+import { storeContextSentences } from '../services/context-bank.service';
+import { validateInput, GoalGrammarRoadmapSchema } from '../../shared/schemas/ipc-schemas';
 
 // ============================================================================
 // Type Guards and Validation
@@ -114,6 +117,7 @@ export function registerGoalHandlers(): void {
           userId: user.id,
         },
       });
+      await syncGrammarObjects(goal.id);
 
       return success(mapGoalToResponse(goal));
     } catch (err) {
@@ -247,6 +251,7 @@ export function registerGoalHandlers(): void {
         where: { id },
         data: updateData,
       });
+      await syncGrammarObjects(goal.id);
 
       return success(mapGoalToResponse(goal));
     } catch (err) {
@@ -466,6 +471,8 @@ export function registerGoalHandlers(): void {
 
     try {
       const deletedCount = await clearVocabulary(goalId);
+      // The grammar track starts over with the vocabulary
+      await syncGrammarObjects(goalId);
       return success({
         cleared: true,
         deletedCount,
@@ -552,16 +559,41 @@ export function registerGoalHandlers(): void {
         }
       }
 
+      // Keep the documents' sentences as authentic contexts for practice
+      const bank = await storeContextSentences(goalId, result.ingested);
+
       return success({
         documentsProcessed: result.documentCount,
         tokensExtracted: result.tokenCount,
         vocabularyInserted: insertedCount,
+        sentencesStored: bank.sentences,
+        documents: result.documents,
       });
     } catch (err) {
       console.error('Failed to process user uploads:', err);
       return error('Failed to process user uploads');
     }
   });
+
+  // ==========================================================================
+  // Grammar Track Handlers
+  // ==========================================================================
+
+  // Get the grammar roadmap: constructions in curriculum order with status
+  registerHandler('goal:get-grammar-roadmap', async (_event, request) => {
+    const validation = validateInput(GoalGrammarRoadmapSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const roadmap = await getGrammarRoadmap(validation.data.goalId, validation.data.targetLevel);
+      return success(roadmap);
+    } catch (err) {
+      console.error('Failed to build grammar roadmap:', err);
+      return error(err instanceof Error ? err.message : 'Failed to build grammar roadmap');
+    }
+  });
 }
 
 // ============================================================================
@@ -624,4 +656,5 @@ export function unregisterGoalHandlers(): void {
   unregisterHandler('goal:get-population-status');
   unregisterHandler('goal:clear-vocabulary');
   unregisterHandler('goal:upload-corpus');
+  unregisterHandler('goal:get-grammar-roadmap');
 }
@@ -13,6 +13,17 @@ import { registerAgentHandlers, unregisterAgentHandlers } from './agent.ipc';
 import { registerSyncHandlers, unregisterSyncHandlers } from './sync.ipc';
 import { registerOnboardingHandlers, unregisterOnboardingHandlers } from './onboarding.ipc';
 import { registerProfileHandlers, unregisterProfileHandlers } from './profile.ipc';
+import { registerSystemHandlers, unregisterSystemHandlers } from './system.ipc';
+import { registerMilestoneHandlers, unregisterMilestoneHandlers } from './milestone.ipc';
+import { registerExperimentHandlers, unregisterExperimentHandlers } from './experiment.ipc';
+import { registerPlannerHandlers, unregisterPlannerHandlers } from './planner.ipc';
+import { registerExplorerHandlers, unregisterExplorerHandlers } from './explorer.ipc';
+import { registerNetworkHandlers, unregisterNetworkHandlers } from './network.ipc';
+import { registerAutomatizationHandlers, unregisterAutomatizationHandlers } from './automatization.ipc';
+import { registerUserGraphHandlers, unregisterUserGraphHandlers } from './user-graph.ipc';
+import { registerPropagationHandlers, unregisterPropagationHandlers } from './propagation.ipc';
+import { registerCorpusPackHandlers, unregisterCorpusPackHandlers } from './corpus-pack.ipc';
+import { registerGlossaryHandlers, unregisterGlossaryHandlers } from './glossary.ipc';
 
 /**
  * Register all IPC handlers.
@@ -45,6 +56,39 @@ export function registerAllHandlers(): void {
   registerProfileHandlers();
   console.log('[IPC] Profile handlers registered');
 
+  registerSystemHandlers();
+  console.log('[IPC] System handlers registered');
+
+  registerMilestoneHandlers();
+  console.log('[IPC] Milestone handlers registered');
+
+  registerExperimentHandlers();
+  console.log('[IPC] Experiment handlers registered');
+
+  registerPlannerHandlers();
+  console.log('[IPC] Planner handlers registered');
+
+  registerExplorerHandlers();
+  console.log('[IPC] Explorer handlers registered');
+
+  registerNetworkHandlers();
+  console.log('[IPC] Network handlers registered');
+
+  registerAutomatizationHandlers();
+  console.log('[IPC] Automatization handlers registered');
+
+  registerUserGraphHandlers();
+  console.log('[IPC] User graph handlers registered');
+
+  registerPropagationHandlers();
+  console.log('[IPC] Propagation handlers registered');
+
+  registerCorpusPackHandlers();
+  console.log('[IPC] Corpus pack handlers registered');
+
+  registerGlossaryHandlers();
+  console.log('[IPC] Glossary handlers registered');
+
   console.log('[IPC] All handlers registered successfully');
 }
 
@@ -63,6 +107,17 @@ export function unregisterAllHandlers(): void {
   unregisterSyncHandlers();
   unregisterOnboardingHandlers();
   unregisterProfileHandlers();
+  unregisterSystemHandlers();
+  unregisterMilestoneHandlers();
+  unregisterExperimentHandlers();
+  unregisterPlannerHandlers();
+  unregisterExplorerHandlers();
+  unregisterNetworkHandlers();
+  unregisterAutomatizationHandlers();
+  unregisterUserGraphHandlers();
+  unregisterPropagationHandlers();
+  unregisterCorpusPackHandlers();
+  unregisterGlossaryHandlers();
 
   console.log('[IPC] All handlers unregistered');
 }
@@ -76,4 +131,15 @@ export { registerAgentHandlers, unregisterAgentHandlers } from './agent.ipc';
 export { registerSyncHandlers, unregisterSyncHandlers } from './sync.ipc';
 export { registerOnboardingHandlers, unregisterOnboardingHandlers } from './onboarding.ipc';
 export { registerProfileHandlers, unregisterProfileHandlers } from './profile.ipc';
+export { registerSystemHandlers, unregisterSystemHandlers } from './system.ipc';
+export { registerMilestoneHandlers, unregisterMilestoneHandlers } from './milestone.ipc';
+export { registerExperimentHandlers, unregisterExperimentHandlers } from './experiment.ipc';
+export { registerPlannerHandlers, unregisterPlannerHandlers } from './planner.ipc';
+export { registerExplorerHandlers, unregisterExplorerHandlers } from './explorer.ipc';
+export { registerNetworkHandlers, unregisterNetworkHandlers } from './network.ipc';
+export { registerAutomatizationHandlers, unregisterAutomatizationHandlers } from './automatization.ipc';
+export { registerUserGraphHandlers, unregisterUserGraphHandlers } from './user-graph.ipc';
+export { registerPropagationHandlers, unregisterPropagationHandlers } from './propagation.ipc';
+export { registerCorpusPackHandlers, unregisterCorpusPackHandlers } from './corpus-pack.ipc';
+export { registerGlossaryHandlers, unregisterGlossaryHandlers } from './glossary.ipc';
 export * from './contracts';
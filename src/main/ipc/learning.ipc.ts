@@ -17,6 +17,7 @@ import {
   ObjectSearchSchema,
 } from '../../shared/schemas/ipc-schemas';
 import { buildLearningQueue, getSessionItems, inferLevel, getWeightsForLevel } from '../../core/priority';
+import { interleaveGrammar } from '../../core/grammar';
 import type { LanguageObject, UserState, MasteryInfo, QueueItem } from '../../core/priority';
 import {
   getOrGenerateTaskWithMatching,
@@ -24,7 +25,11 @@ import {
   type EnhancedTaskGenerationConfig,
 } from '../services/task-generation.service';
 import type { LearningQueueItem } from '../services/state-priority.service';
+import { importDeck } from '../services/deck-import.service';
+import { planGrammarPractice, grammarTargetLevel } from '../services/grammar-track.service';
 import { getUserPriorityWeights } from './profile.ipc';
+import { schedulableObjectWhere } from '../db/repositories/mastery.repository';
+import { applyExposureBias } from '../services/user-object-graph.service';
 
 // ============================================================================
 // Handler Registration
@@ -173,11 +178,17 @@ export function registerLearningHandlers(): void {
       return error(validation.error);
     }
 
-    const { goalId, objects } = validation.data;
+    const { goalId, objects, filePath, deck } = validation.data;
 
     try {
+      // Deck files (Anki .apkg, CSV/TSV) carry their own review history
+      if (filePath) {
+        const result = await importDeck(goalId, filePath, deck);
+        return success(result);
+      }
+
       const created = await prisma.languageObject.createMany({
-        data: objects.map(obj => ({
+        data: (objects ?? []).map(obj => ({
           goalId,
           content: obj.content.trim(),
           type: obj.type.trim(),
@@ -188,10 +199,10 @@ export function registerLearningHandlers(): void {
         })),
       });
 
-      return success({ imported: created.count });
+      return success({ imported: created.count, errors: [] });
     } catch (err) {
       console.error('Failed to import learning objects:', err);
-      return error('Failed to import learning objects');
+      return error(err instanceof Error ? err.message : 'Failed to import learning objects');
     }
   });
 
@@ -209,9 +220,15 @@ export function registerLearningHandlers(): void {
       const user = await prisma.user.findFirst();
       const theta = user?.thetaGlobal ?? 0;
 
-      // Get all objects with mastery
+      // Get goal domain for task matching and benchmark for the grammar track
+      const goal = await prisma.goalSpec.findUnique({
+        where: { id: goalId },
+        select: { domain: true, benchmark: true, modality: true },
+      });
+
+      // Get all objects with mastery, including the grammar track
       const objects = await prisma.languageObject.findMany({
-        where: { goalId },
+        where: { goalId, ...schedulableObjectWhere() },
         include: { masteryState: true },
       });
 
@@ -248,15 +265,20 @@ export function registerLearningHandlers(): void {
         l1Language: user?.nativeLanguage || undefined,
       };
 
-      // Build and get session items
-      const queue = buildLearningQueue(languageObjects, userState, masteryMap, new Date());
-      const sessionItems = getSessionItems(queue, sessionSize, newItemRatio);
-
-      // Get goal domain for task matching
-      const goal = await prisma.goalSpec.findUnique({
-        where: { id: goalId },
-        select: { domain: true },
-      });
+      // Build and get session items; grammar constructions get their own slots
+      const now = new Date();
+      const grammar = planGrammarPractice(objects, sessionSize, now, grammarTargetLevel(goal?.benchmark));
+      // Objects practised one-sidedly move up while the gap is open
+      const ranked = buildLearningQueue(languageObjects, userState, masteryMap, now);
+      const queue = user ? await applyExposureBias(user.id, goal?.modality, ranked) : ranked;
+      const vocabulary = queue.filter(item => !grammar.trackObjectIds.has(item.object.id));
+      // Practice objects missing from the queue (e.g. filtered out) are skipped
+      const queueById = new Map(queue.map(item => [item.object.id, item]));
+      const practice = grammar.practiceObjectIds.flatMap(id => queueById.get(id) ?? []);
+      const sessionItems = interleaveGrammar(
+        getSessionItems(vocabulary, sessionSize - practice.length, newItemRatio),
+        practice
+      );
 
       // Generate tasks for each queue item using z(w) vector matching
       // Reference: Nation (2001) - vocabulary learning depth, Lu (2010) - syntactic complexity
@@ -440,7 +462,7 @@ export function registerLearningHandlers(): void {
       const theta = user?.thetaGlobal ?? 0;
 
       const objects = await prisma.languageObject.findMany({
-        where: { goalId },
+        where: { goalId, ...schedulableObjectWhere() },
         include: { masteryState: true },
       });
 
@@ -0,0 +1,115 @@
+/**
+ * Milestone IPC Handlers
+ *
+ * Serves the stored milestone history and pushes newly earned milestones
+ * to the renderer. Detection and persistence live in milestone.service.ts.
+ */
+
+import {
+  registerHandler,
+  unregisterHandler,
+  success,
+  error,
+  emitEvent,
+  CHANNELS,
+} from './contracts';
+import { prisma } from '../db/client';
+import { IPC_EVENTS } from '../../shared/types';
+import {
+  validateInput,
+  MilestoneHistorySchema,
+  MilestoneAcknowledgeSchema,
+} from '../../shared/schemas/ipc-schemas';
+import {
+  checkMilestones,
+  getMilestoneHistory,
+  acknowledgeMilestones,
+  type MilestoneCheckContext,
+} from '../services/milestone.service';
+
+// =============================================================================
+// Detection Hook
+// =============================================================================
+
+/**
+ * Check a user's progress for new milestones and notify the renderer.
+ *
+ * Intended to be called fire-and-forget from session handlers; failures
+ * are logged and never surface to the caller.
+ */
+export async function notifyMilestones(
+  userId: string,
+  context: MilestoneCheckContext = {}
+): Promise<void> {
+  try {
+    const milestones = await checkMilestones(userId, context);
+    if (milestones.length > 0) {
+      emitEvent(IPC_EVENTS.MILESTONE_ACHIEVED, {
+        userId,
+        sessionId: context.sessionId ?? null,
+        milestones,
+      });
+    }
+  } catch (err) {
+    console.warn('[Milestones] Check failed:', err instanceof Error ? err.message : err);
+  }
+}
+
+// =============================================================================
+// Handler Registration
+// =============================================================================
+
+/**
+ * Register all milestone-related IPC handlers.
+ */
+export function registerMilestoneHandlers(): void {
+  // Get milestone history, newest first
+  registerHandler(CHANNELS.MILESTONE_GET_HISTORY, async (_event, request) => {
+    const validation = validateInput(MilestoneHistorySchema, request ?? {});
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const user = await prisma.user.findFirst();
+      if (!user) {
+        return success({ events: [], total: 0, unacknowledged: 0, totalPoints: 0 });
+      }
+
+      const history = await getMilestoneHistory(user.id, validation.data);
+      return success(history);
+    } catch (err) {
+      console.error('Failed to get milestone history:', err);
+      return error('Failed to get milestone history');
+    }
+  });
+
+  // Mark milestones as seen
+  registerHandler(CHANNELS.MILESTONE_ACKNOWLEDGE, async (_event, request) => {
+    const validation = validateInput(MilestoneAcknowledgeSchema, request ?? {});
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const user = await prisma.user.findFirst();
+      if (!user) {
+        return success({ acknowledged: 0 });
+      }
+
+      const acknowledged = await acknowledgeMilestones(user.id, validation.data.ids);
+      return success({ acknowledged });
+    } catch (err) {
+      console.error('Failed to acknowledge milestones:', err);
+      return error('Failed to acknowledge milestones');
+    }
+  });
+}
+
+/**
+ * Unregister all milestone-related IPC handlers.
+ */
+export function unregisterMilestoneHandlers(): void {
+  unregisterHandler(CHANNELS.MILESTONE_GET_HISTORY);
+  unregisterHandler(CHANNELS.MILESTONE_ACKNOWLEDGE);
+}
@@ -0,0 +1,71 @@
+/**
+ * Word Network IPC Handlers
+ *
+ * Neighborhood graphs for the network view and cluster queues for short
+ * practice sessions on a group of related words. Graph building lives in
+ * word-network.service.ts.
+ */
+
+import { registerHandler, unregisterHandler, success, error, CHANNELS } from './contracts';
+import {
+  validateInput,
+  NetworkNeighborhoodSchema,
+  NetworkClusterQueueSchema,
+} from '../../shared/schemas/ipc-schemas';
+import { getObjectNeighborhood, getClusterQueue } from '../services/word-network.service';
+
+// =============================================================================
+// Handler Registration
+// =============================================================================
+
+/**
+ * Register all Word Network IPC handlers.
+ */
+export function registerNetworkHandlers(): void {
+  // Subgraph around an object
+  registerHandler(CHANNELS.NETWORK_GET_NEIGHBORHOOD, async (_event, request) => {
+    const validation = validateInput(NetworkNeighborhoodSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const { objectId, ...options } = validation.data;
+      const neighborhood = await getObjectNeighborhood(objectId, options);
+      if (!neighborhood) {
+        return error('Object not found');
+      }
+      return success(neighborhood);
+    } catch (err) {
+      console.error('Failed to get word network:', err);
+      return error(err instanceof Error ? err.message : 'Failed to get word network');
+    }
+  });
+
+  // Session queue over an object's cluster
+  registerHandler(CHANNELS.NETWORK_GET_CLUSTER_QUEUE, async (_event, request) => {
+    const validation = validateInput(NetworkClusterQueueSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const queue = await getClusterQueue(validation.data.objectId, validation.data.sessionSize);
+      if (!queue) {
+        return error('Object not found');
+      }
+      return success(queue);
+    } catch (err) {
+      console.error('Failed to get cluster queue:', err);
+      return error(err instanceof Error ? err.message : 'Failed to get cluster queue');
+    }
+  });
+}
+
+/**
+ * Unregister all Word Network IPC handlers.
+ */
+export function unregisterNetworkHandlers(): void {
+  unregisterHandler(CHANNELS.NETWORK_GET_NEIGHBORHOOD);
+  unregisterHandler(CHANNELS.NETWORK_GET_CLUSTER_QUEUE);
+}
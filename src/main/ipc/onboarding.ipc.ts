@@ -2,13 +2,24 @@
  * Onboarding IPC Handlers
  *
  * Handles user onboarding flow - checking if user needs onboarding
- * and creating user profile + first goal from wizard data.
+ * and creating user profile + first goal from wizard data, followed by an
+ * optional adaptive placement test that measures the starting theta.
  */
 
 import { registerDynamicHandler, success, error } from './contracts';
 import { prisma } from '../db/client';
 import { populateVocabularyForGoal, generateMultiComponentObjects } from '../services/corpus-sources/corpus-pipeline.service';
-import { estimateInitialTheta } from '../services/diagnostic-assessment.service';
+import {
+  estimateInitialTheta,
+  nextPlacementStep,
+  completePlacementTest,
+} from '../services/diagnostic-assessment.service';
+import { syncGrammarObjects } from '../services/grammar-track.service';
+import {
+  validateInput,
+  PlacementNextSchema,
+  PlacementCompleteSchema,
+} from '../../shared/schemas/ipc-schemas';
 
 // =============================================================================
 // Types
@@ -156,6 +167,7 @@ export function registerOnboardingHandlers(): void {
           isActive: true,
         },
       });
+      await syncGrammarObjects(goal.id);
 
       // Populate minimum vocabulary synchronously (wait for at least 20 items)
       // This ensures first session has content to work with
@@ -274,6 +286,54 @@ export function registerOnboardingHandlers(): void {
       return error('Failed to get user');
     }
   });
+
+  /**
+   * Next item of the adaptive placement test, given the answers so far.
+   */
+  registerDynamicHandler('onboarding:placement-next', async (_event, request) => {
+    const validation = validateInput(PlacementNextSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      return success(nextPlacementStep(validation.data.answers));
+    } catch (err) {
+      console.error('Failed to select placement item:', err);
+      return error(err instanceof Error ? err.message : 'Failed to select placement item');
+    }
+  });
+
+  /**
+   * Score the placement test and store the measured theta.
+   */
+  registerDynamicHandler('onboarding:placement-complete', async (_event, request) => {
+    const validation = validateInput(PlacementCompleteSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const user = await prisma.user.findFirst();
+      if (!user) {
+        return error('No user found');
+      }
+
+      const { goalId, answers } = validation.data;
+      const goal = await prisma.goalSpec.findFirst({
+        where: { id: goalId, userId: user.id },
+        select: { id: true },
+      });
+      if (!goal) {
+        return error('Goal not found');
+      }
+
+      return success(await completePlacementTest(user.id, goalId, answers));
+    } catch (err) {
+      console.error('Failed to complete placement test:', err);
+      return error(err instanceof Error ? err.message : 'Failed to complete placement test');
+    }
+  });
 }
 
 // =============================================================================
@@ -359,4 +419,6 @@ export function unregisterOnboardingHandlers(): void {
   unregisterHandler('onboarding:complete');
   unregisterHandler('onboarding:skip');
   unregisterHandler('onboarding:get-user');
+  unregisterHandler('onboarding:placement-next');
+  unregisterHandler('onboarding:placement-complete');
 }
@@ -0,0 +1,100 @@
+/**
+ * Study Planner IPC Handlers
+ *
+ * Plans weekly study time across all active goals and builds session
+ * queues that interleave objects from every goal by the chosen allocation.
+ * Planning and queue building live in study-planner.service.ts.
+ */
+
+import { registerHandler, unregisterHandler, success, error, CHANNELS } from './contracts';
+import { prisma } from '../db/client';
+import {
+  validateInput,
+  PlannerCreatePlanSchema,
+  PlannerSessionQueueSchema,
+} from '../../shared/schemas/ipc-schemas';
+import {
+  getStudyPlan,
+  createStudyPlan,
+  buildInterleavedQueue,
+} from '../services/study-planner.service';
+import { getUserPriorityWeights } from './profile.ipc';
+
+// =============================================================================
+// Handler Registration
+// =============================================================================
+
+/**
+ * Register all study planner IPC handlers.
+ */
+export function registerPlannerHandlers(): void {
+  // This week's plan (null when none was made yet)
+  registerHandler(CHANNELS.PLANNER_GET_PLAN, async () => {
+    try {
+      const user = await prisma.user.findFirst();
+      if (!user) {
+        return error('No user found');
+      }
+
+      const plan = await getStudyPlan(user.id);
+      return success(plan);
+    } catch (err) {
+      console.error('Failed to get study plan:', err);
+      return error('Failed to get study plan');
+    }
+  });
+
+  // Allocate the weekly budget across active goals
+  registerHandler(CHANNELS.PLANNER_CREATE_PLAN, async (_event, request) => {
+    const validation = validateInput(PlannerCreatePlanSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const user = await prisma.user.findFirst();
+      if (!user) {
+        return error('No user found');
+      }
+
+      const plan = await createStudyPlan(user.id, validation.data);
+      return success(plan);
+    } catch (err) {
+      console.error('Failed to create study plan:', err);
+      return error(err instanceof Error ? err.message : 'Failed to create study plan');
+    }
+  });
+
+  // Session queue interleaving objects from all goals
+  registerHandler(CHANNELS.PLANNER_GET_SESSION_QUEUE, async (_event, request) => {
+    const validation = validateInput(PlannerSessionQueueSchema, request ?? {});
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const user = await prisma.user.findFirst();
+      if (!user) {
+        return error('No user found');
+      }
+
+      const queue = await buildInterleavedQueue(user.id, {
+        ...validation.data,
+        weights: getUserPriorityWeights(),
+      });
+      return success(queue);
+    } catch (err) {
+      console.error('Failed to build interleaved queue:', err);
+      return error(err instanceof Error ? err.message : 'Failed to build interleaved queue');
+    }
+  });
+}
+
+/**
+ * Unregister all study planner IPC handlers.
+ */
+export function unregisterPlannerHandlers(): void {
+  unregisterHandler(CHANNELS.PLANNER_GET_PLAN);
+  unregisterHandler(CHANNELS.PLANNER_CREATE_PLAN);
+  unregisterHandler(CHANNELS.PLANNER_GET_SESSION_QUEUE);
+}
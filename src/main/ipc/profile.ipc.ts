@@ -2,15 +2,33 @@
  * Profile IPC Handlers
  *
  * Handles user profile operations - get profile, update profile,
- * get settings, and update settings.
+ * get settings, update settings, and personalized FSRS parameters.
  *
- * Note: Settings are stored in-memory or via electron-store (future).
- * Current schema only stores user profile and theta values.
+ * Settings are cached in memory for synchronous access by other handlers
+ * and persisted as JSON on the user row. AI provider API keys are stored
+ * encrypted with Electron safeStorage, so the row (and the backups that
+ * copy it) never holds them in plain text.
  */
 
+import { safeStorage } from 'electron';
 import { registerDynamicHandler, success, error, unregisterHandler } from './contracts';
 import { prisma } from '../db/client';
-import type { User, UserSettings, UserFREWeights } from '../../shared/types';
+import type {
+  User,
+  UserSettings,
+  UserFREWeights,
+  AICapability,
+  AIProviderSettings,
+  AIProviderSettingsMap,
+} from '../../shared/types';
+import {
+  getUserFSRSParameters,
+  optimizeUserFSRS,
+  resetUserFSRSParameters,
+} from '../services/fsrs-optimizer.service';
+import { configureClaudeService } from '../services/claude.service';
+import { AI_CAPABILITIES, DEFAULT_AI_PROVIDERS } from '../services/llm-providers/registry';
+import { projectReviewLoad } from '../../core/fsrs';
 
 // =============================================================================
 // Types
@@ -21,14 +39,32 @@ interface ProfileUpdateRequest {
   targetLanguage?: string;
 }
 
+/** Provider settings as persisted on the user row */
+interface StoredAIProviderSettings extends Omit<AIProviderSettings, 'apiKey'> {
+  /** safeStorage ciphertext of the API key, base64 */
+  encryptedApiKey?: string;
+  /** Plain-text key written before keys were encrypted; re-saved encrypted on load */
+  apiKey?: string;
+}
+
+type StoredAIProviderSettingsMap = Partial<Record<AICapability, StoredAIProviderSettings>>;
+
 // =============================================================================
 // Constants
 // =============================================================================
 
 const VALID_THEMES = ['light', 'dark', 'system'] as const;
 const LANGUAGE_CODE_PATTERN = /^[a-z]{2}(-[A-Z]{2})?$/;
+const VALID_AI_PROVIDER_KINDS = ['anthropic', 'openai-compatible', 'offline'] as const;
+
+/** Stands in for stored API keys in settings sent to the renderer */
+const API_KEY_MASK = '********';
 
-// In-memory settings storage (per-session, future: use electron-store for persistence)
+/** Days ahead counted by the review load preview */
+const REVIEW_LOAD_HORIZON_DAYS = 7;
+
+// In-memory settings cache, loaded from and saved to User.settings
+let settingsLoaded = false;
 let cachedSettings: UserSettings = {
   dailyGoal: 30,
   sessionLength: 20,
@@ -36,7 +72,9 @@ let cachedSettings: UserSettings = {
   soundEnabled: true,
   theme: 'system',
   targetRetention: 0.9,
+  targetSuccessRate: 0.8,
   priorityWeights: null,  // null = use level-based defaults from priority.ts
+  aiProviders: DEFAULT_AI_PROVIDERS,
 };
 
 // =============================================================================
@@ -76,10 +114,78 @@ function isValidPriorityWeights(weights: unknown): weights is UserFREWeights {
   return sum >= 0.99 && sum <= 1.01;  // Allow small floating point tolerance
 }
 
+/**
+ * Validate one capability's provider settings.
+ * Returns an error message, or null when valid.
+ */
+function validateAIProvider(capability: string, value: unknown): string | null {
+  if (!value || typeof value !== 'object') {
+    return `aiProviders.${capability} must be an object`;
+  }
+  const p = value as Record<string, unknown>;
+  if (!VALID_AI_PROVIDER_KINDS.includes(p.kind as typeof VALID_AI_PROVIDER_KINDS[number])) {
+    return `aiProviders.${capability}.kind must be anthropic, openai-compatible, or offline`;
+  }
+  for (const field of ['model', 'baseUrl', 'apiKey']) {
+    if (p[field] !== undefined && typeof p[field] !== 'string') {
+      return `aiProviders.${capability}.${field} must be a string`;
+    }
+  }
+  if (p.kind === 'openai-compatible') {
+    if (typeof p.baseUrl !== 'string' || !/^https?:\/\/\S+$/.test(p.baseUrl)) {
+      return `aiProviders.${capability}.baseUrl must be an http(s) URL`;
+    }
+    if (typeof p.model !== 'string' || p.model.trim() === '') {
+      return `aiProviders.${capability}.model is required for openai-compatible providers`;
+    }
+  }
+  return null;
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
 
+/**
+ * Merge provider updates into the current map.
+ * A masked API key keeps the stored one.
+ */
+function mergeAIProviders(
+  current: AIProviderSettingsMap,
+  updates: Partial<AIProviderSettingsMap>
+): AIProviderSettingsMap {
+  const merged = { ...current };
+  for (const capability of AI_CAPABILITIES) {
+    const update = updates[capability];
+    if (!update) {
+      continue;
+    }
+    const apiKey = update.apiKey === API_KEY_MASK ? current[capability].apiKey : update.apiKey;
+    merged[capability] = {
+      kind: update.kind,
+      model: update.model || undefined,
+      baseUrl: update.baseUrl || undefined,
+      apiKey: apiKey || undefined,
+    };
+  }
+  return merged;
+}
+
+/**
+ * Copy settings for the renderer with API keys masked.
+ */
+function redactSettings(settings: UserSettings): UserSettings {
+  const aiProviders = {} as AIProviderSettingsMap;
+  for (const capability of AI_CAPABILITIES) {
+    const provider: AIProviderSettings = { ...settings.aiProviders[capability] };
+    if (provider.apiKey) {
+      provider.apiKey = API_KEY_MASK;
+    }
+    aiProviders[capability] = provider;
+  }
+  return { ...settings, aiProviders };
+}
+
 /**
  * Convert Prisma user to API User type.
  * Maps schema column names to API field names.
@@ -116,7 +222,9 @@ function toUser(prismaUser: {
       notificationsEnabled: cachedSettings.notificationsEnabled,
       soundEnabled: cachedSettings.soundEnabled,
       targetRetention: cachedSettings.targetRetention,
+      targetSuccessRate: cachedSettings.targetSuccessRate,
       priorityWeights: cachedSettings.priorityWeights,
+      aiProviders: redactSettings(cachedSettings).aiProviders,
     },
   };
 }
@@ -145,7 +253,9 @@ function getDefaultUser(): User {
       notificationsEnabled: true,
       soundEnabled: true,
       targetRetention: 0.9,
+      targetSuccessRate: 0.8,
       priorityWeights: null,
+      aiProviders: DEFAULT_AI_PROVIDERS,
     },
   };
 }
@@ -161,10 +271,112 @@ function getDefaultSettings(): UserSettings {
     soundEnabled: true,
     theme: 'system',
     targetRetention: 0.9,
+    targetSuccessRate: 0.8,
     priorityWeights: null,
+    aiProviders: DEFAULT_AI_PROVIDERS,
   };
 }
 
+// =============================================================================
+// Persistence
+// =============================================================================
+
+/**
+ * Replace API keys with their safeStorage ciphertext for storage.
+ * Without OS encryption the keys are left out and last until the app quits.
+ */
+function sealAIProviders(providers: AIProviderSettingsMap): StoredAIProviderSettingsMap {
+  const canEncrypt = safeStorage.isEncryptionAvailable();
+  const sealed: StoredAIProviderSettingsMap = {};
+  for (const capability of AI_CAPABILITIES) {
+    const { apiKey, ...provider } = providers[capability];
+    if (apiKey && !canEncrypt) {
+      console.warn(`[Settings] No OS encryption available; the ${capability} API key is not saved`);
+    }
+    sealed[capability] = apiKey && canEncrypt
+      ? { ...provider, encryptedApiKey: safeStorage.encryptString(apiKey).toString('base64') }
+      : provider;
+  }
+  return sealed;
+}
+
+/**
+ * Decrypt stored API keys. A key that cannot be decrypted (another machine
+ * or OS account) is dropped and has to be entered again.
+ */
+function unsealAIProviders(stored: StoredAIProviderSettingsMap): Partial<AIProviderSettingsMap> {
+  const providers: Partial<AIProviderSettingsMap> = {};
+  for (const capability of AI_CAPABILITIES) {
+    const entry = stored[capability];
+    if (!entry) {
+      continue;
+    }
+    const { encryptedApiKey, apiKey: plainApiKey, ...provider } = entry;
+    let apiKey = plainApiKey;
+    if (encryptedApiKey) {
+      try {
+        apiKey = safeStorage.decryptString(Buffer.from(encryptedApiKey, 'base64'));
+      } catch (err) {
+        console.warn(`[Settings] Could not decrypt the ${capability} API key:`, err instanceof Error ? err.message : err);
+        apiKey = undefined;
+      }
+    }
+    providers[capability] = { ...provider, apiKey: apiKey || undefined };
+  }
+  return providers;
+}
+
+/**
+ * Load persisted settings into the cache.
+ * Missing fields keep their defaults; stored AI providers are applied.
+ */
+export async function loadUserSettings(): Promise<UserSettings> {
+  const user = await prisma.user.findFirst({ select: { settings: true } });
+  settingsLoaded = true;
+  if (!user?.settings) {
+    return cachedSettings;
+  }
+
+  try {
+    const stored = JSON.parse(user.settings) as Omit<Partial<UserSettings>, 'aiProviders'> & {
+      aiProviders?: StoredAIProviderSettingsMap;
+    };
+    const defaults = getDefaultSettings();
+    cachedSettings = {
+      ...defaults,
+      ...stored,
+      aiProviders: { ...defaults.aiProviders, ...unsealAIProviders(stored.aiProviders ?? {}) },
+    };
+    if (stored.aiProviders) {
+      configureClaudeService(cachedSettings.aiProviders);
+      // Settings saved before keys were encrypted
+      if (Object.values(stored.aiProviders).some((provider) => provider?.apiKey)) {
+        await saveUserSettings();
+      }
+    }
+  } catch (err) {
+    console.error('Failed to load stored settings, using defaults:', err instanceof Error ? err.message : err);
+  }
+  return cachedSettings;
+}
+
+/**
+ * Save the cached settings to the user row.
+ * Before onboarding there is no user, so settings stay in memory.
+ */
+async function saveUserSettings(): Promise<void> {
+  const user = await prisma.user.findFirst({ select: { id: true } });
+  if (!user) {
+    return;
+  }
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      settings: JSON.stringify({ ...cachedSettings, aiProviders: sealAIProviders(cachedSettings.aiProviders) }),
+    },
+  });
+}
+
 // =============================================================================
 // Handler Registration
 // =============================================================================
@@ -173,6 +385,10 @@ function getDefaultSettings(): UserSettings {
  * Register all profile-related IPC handlers.
  */
 export function registerProfileHandlers(): void {
+  loadUserSettings().catch((err) => {
+    console.error('Failed to load user settings:', err instanceof Error ? err.message : 'Unknown error');
+  });
+
   /**
    * Get user profile.
    * Returns the current user's profile or a default if not found.
@@ -249,11 +465,14 @@ export function registerProfileHandlers(): void {
 
   /**
    * Get user settings.
-   * Returns application settings (stored in-memory, not in database).
+   * Returns the cached settings with API keys masked.
    */
   registerDynamicHandler('profile:getSettings', async () => {
     try {
-      return success({ ...cachedSettings });
+      if (!settingsLoaded) {
+        await loadUserSettings();
+      }
+      return success(redactSettings(cachedSettings));
     } catch (err) {
       console.error('Failed to get user settings:', err instanceof Error ? err.message : 'Unknown error');
       return error('Failed to get user settings');
@@ -262,11 +481,13 @@ export function registerProfileHandlers(): void {
 
   /**
    * Update user settings.
-   * Updates application settings (stored in-memory).
+   * Updates the settings cache and persists it.
    */
   registerDynamicHandler('profile:updateSettings', async (_event, request) => {
     try {
-      const settings = request as Partial<UserSettings>;
+      const settings = request as Omit<Partial<UserSettings>, 'aiProviders'> & {
+        aiProviders?: Partial<AIProviderSettingsMap>;
+      };
 
       // Validate theme if provided
       if (settings.theme !== undefined && !isValidTheme(settings.theme)) {
@@ -283,6 +504,9 @@ export function registerProfileHandlers(): void {
       if (settings.targetRetention !== undefined && !isInRange(settings.targetRetention, 0.7, 0.99)) {
         return error('targetRetention must be between 0.7 and 0.99');
       }
+      if (settings.targetSuccessRate !== undefined && !isInRange(settings.targetSuccessRate, 0.5, 0.95)) {
+        return error('targetSuccessRate must be between 0.5 and 0.95');
+      }
 
       // Validate priorityWeights if provided (null is valid - means use defaults)
       if (settings.priorityWeights !== undefined && settings.priorityWeights !== null) {
@@ -291,6 +515,30 @@ export function registerProfileHandlers(): void {
         }
       }
 
+      if (!settingsLoaded) {
+        await loadUserSettings();
+      }
+
+      // Validate AI providers per capability, then apply them before saving
+      let aiProviders = cachedSettings.aiProviders;
+      if (settings.aiProviders !== undefined) {
+        if (!settings.aiProviders || typeof settings.aiProviders !== 'object') {
+          return error('aiProviders must be an object');
+        }
+        for (const capability of AI_CAPABILITIES) {
+          const provider = settings.aiProviders[capability];
+          if (provider === undefined) {
+            continue;
+          }
+          const providerError = validateAIProvider(capability, provider);
+          if (providerError) {
+            return error(providerError);
+          }
+        }
+        aiProviders = mergeAIProviders(cachedSettings.aiProviders, settings.aiProviders);
+        configureClaudeService(aiProviders);
+      }
+
       // Update cached settings
       cachedSettings = {
         dailyGoal: settings.dailyGoal ?? cachedSettings.dailyGoal,
@@ -299,18 +547,117 @@ export function registerProfileHandlers(): void {
         soundEnabled: settings.soundEnabled ?? cachedSettings.soundEnabled,
         theme: settings.theme ?? cachedSettings.theme,
         targetRetention: settings.targetRetention ?? cachedSettings.targetRetention,
+        targetSuccessRate: settings.targetSuccessRate ?? cachedSettings.targetSuccessRate,
         priorityWeights: settings.priorityWeights !== undefined
           ? settings.priorityWeights
           : cachedSettings.priorityWeights,
+        aiProviders,
       };
+      await saveUserSettings();
 
-      return success({ ...cachedSettings });
+      return success(redactSettings(cachedSettings));
     } catch (err) {
       console.error('Failed to update user settings:', err instanceof Error ? err.message : 'Unknown error');
       return error('Failed to update user settings');
     }
   });
 
+  /**
+   * Preview how a target retention would change the daily review load,
+   * compared with the current setting.
+   */
+  registerDynamicHandler('profile:previewReviewLoad', async (_event, request) => {
+    try {
+      const { targetRetention } = (request ?? {}) as { targetRetention?: number };
+      if (targetRetention === undefined || !isInRange(targetRetention, 0.7, 0.99)) {
+        return error('targetRetention must be between 0.7 and 0.99');
+      }
+
+      const user = await prisma.user.findFirst({ select: { id: true } });
+      if (!user) {
+        return error('No user profile found');
+      }
+
+      const states = await prisma.masteryState.findMany({
+        where: { object: { goal: { userId: user.id } }, fsrsLastReview: { not: null } },
+        select: { fsrsStability: true, fsrsLastReview: true },
+      });
+      const cards = states.map((s) => ({ stability: s.fsrsStability, lastReview: s.fsrsLastReview }));
+      const now = new Date();
+
+      return success({
+        current: projectReviewLoad(cards, cachedSettings.targetRetention, now, REVIEW_LOAD_HORIZON_DAYS),
+        proposed: projectReviewLoad(cards, targetRetention, now, REVIEW_LOAD_HORIZON_DAYS),
+        reviewedItems: cards.length,
+        horizonDays: REVIEW_LOAD_HORIZON_DAYS,
+      });
+    } catch (err) {
+      console.error('Failed to preview review load:', err instanceof Error ? err.message : 'Unknown error');
+      return error('Failed to preview review load');
+    }
+  });
+
+  /**
+   * Get the user's FSRS weights and the calibration report of the last fit.
+   */
+  registerDynamicHandler('profile:getFSRSParameters', async () => {
+    try {
+      const user = await prisma.user.findFirst({ select: { id: true } });
+      if (!user) {
+        return error('No user profile found');
+      }
+
+      return success(await getUserFSRSParameters(user.id));
+    } catch (err) {
+      console.error('Failed to get FSRS parameters:', err instanceof Error ? err.message : 'Unknown error');
+      return error('Failed to get FSRS parameters');
+    }
+  });
+
+  /**
+   * Fit FSRS weights to the user's response history now.
+   * Weights are only saved when they improve log-loss.
+   */
+  registerDynamicHandler('profile:optimizeFSRS', async () => {
+    try {
+      const user = await prisma.user.findFirst({ select: { id: true } });
+      if (!user) {
+        return error('No user profile found');
+      }
+
+      const result = await optimizeUserFSRS(user.id);
+      return success({
+        saved: result.saved,
+        improved: result.improved,
+        reason: result.reason,
+        weights: result.weights,
+        before: { logLoss: result.before.logLoss, rmse: result.before.rmse, sampleCount: result.before.sampleCount },
+        after: { logLoss: result.after.logLoss, rmse: result.after.rmse, sampleCount: result.after.sampleCount },
+      });
+    } catch (err) {
+      console.error('Failed to optimize FSRS parameters:', err instanceof Error ? err.message : 'Unknown error');
+      return error('Failed to optimize FSRS parameters');
+    }
+  });
+
+  /**
+   * Discard fitted FSRS weights and return to the defaults.
+   */
+  registerDynamicHandler('profile:resetFSRS', async () => {
+    try {
+      const user = await prisma.user.findFirst({ select: { id: true } });
+      if (!user) {
+        return error('No user profile found');
+      }
+
+      await resetUserFSRSParameters(user.id);
+      return success(await getUserFSRSParameters(user.id));
+    } catch (err) {
+      console.error('Failed to reset FSRS parameters:', err instanceof Error ? err.message : 'Unknown error');
+      return error('Failed to reset FSRS parameters');
+    }
+  });
+
   console.log('[IPC] Profile handlers registered');
 }
 
@@ -322,6 +669,10 @@ export function unregisterProfileHandlers(): void {
   unregisterHandler('profile:update');
   unregisterHandler('profile:getSettings');
   unregisterHandler('profile:updateSettings');
+  unregisterHandler('profile:previewReviewLoad');
+  unregisterHandler('profile:getFSRSParameters');
+  unregisterHandler('profile:optimizeFSRS');
+  unregisterHandler('profile:resetFSRS');
 }
 
 // =============================================================================
@@ -342,3 +693,10 @@ export function getUserPriorityWeights(): UserFREWeights | null {
 export function getUserTargetRetention(): number {
   return cachedSettings.targetRetention;
 }
+
+/**
+ * Get the success rate practice tasks are aimed at.
+ */
+export function getUserTargetSuccessRate(): number {
+  return cachedSettings.targetSuccessRate;
+}
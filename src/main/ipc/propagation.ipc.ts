@@ -0,0 +1,73 @@
+/**
+ * Propagation IPC Handlers
+ *
+ * The audit log of updates carried over from an answered object to its
+ * word family and collocates, and the per-goal switch that turns this off.
+ * Propagation itself runs in session:submit-response; see
+ * mastery-propagation.service.ts.
+ */
+
+import { registerHandler, unregisterHandler, success, error, CHANNELS } from './contracts';
+import {
+  validateInput,
+  PropagationLogSchema,
+  PropagationSetEnabledSchema,
+} from '../../shared/schemas/ipc-schemas';
+import { getPropagationLog, setPropagationEnabled } from '../services/mastery-propagation.service';
+import { prisma } from '../db/client';
+
+// =============================================================================
+// Handler Registration
+// =============================================================================
+
+/**
+ * Register all propagation IPC handlers.
+ */
+export function registerPropagationHandlers(): void {
+  // Recent propagated updates of a goal
+  registerHandler(CHANNELS.PROPAGATION_GET_LOG, async (_event, request) => {
+    const validation = validateInput(PropagationLogSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const log = await getPropagationLog(validation.data.goalId, validation.data.limit);
+      if (!log) {
+        return error('Goal not found');
+      }
+      return success(log);
+    } catch (err) {
+      console.error('Failed to get propagation log:', err);
+      return error(err instanceof Error ? err.message : 'Failed to get propagation log');
+    }
+  });
+
+  // Switch propagation on or off for a goal
+  registerHandler(CHANNELS.PROPAGATION_SET_ENABLED, async (_event, request) => {
+    const validation = validateInput(PropagationSetEnabledSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const { goalId, enabled } = validation.data;
+      const goal = await prisma.goalSpec.findUnique({ where: { id: goalId }, select: { id: true } });
+      if (!goal) {
+        return error('Goal not found');
+      }
+      return success({ enabled: await setPropagationEnabled(goalId, enabled) });
+    } catch (err) {
+      console.error('Failed to set propagation:', err);
+      return error(err instanceof Error ? err.message : 'Failed to set propagation');
+    }
+  });
+}
+
+/**
+ * Unregister all propagation IPC handlers.
+ */
+export function unregisterPropagationHandlers(): void {
+  unregisterHandler(CHANNELS.PROPAGATION_GET_LOG);
+  unregisterHandler(CHANNELS.PROPAGATION_SET_ENABLED);
+}
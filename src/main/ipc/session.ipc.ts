@@ -7,6 +7,7 @@
 
 import { registerHandler, success, error, validateUUID, validateRequired } from './contracts';
 import { prisma } from '../db/client';
+import { schedulableObjectWhere } from '../db/repositories/mastery.repository';
 import { FSRS, createNewCard, updateMastery, responseToRating, determineStage } from '../../core/fsrs';
 import { analyzeBottleneck, ComponentType, ResponseData as BottleneckResponseData } from '../../core/bottleneck';
 import { estimateThetaMLE, calibrateItems } from '../../core/irt';
@@ -17,13 +18,48 @@ import {
   getTaskCategory,
 } from '../../core/response-timing';
 import type { FSRSResponseData } from '../../core/fsrs';
-import { evaluateObject, type ObjectEvaluationInput, type ObjectEvaluationResult } from '../services/multi-layer-evaluation.service';
-import type { ComponentCode, ObjectRole, TaskType, MasteryStage, TaskFormat } from '../../core/types';
+import type { TaskType, MasteryStage, TaskFormat, FSRSRating } from '../../core/types';
 import {
   SessionOptimizer,
   createSessionOptimizer,
   type InterleavingStrategy,
 } from '../../core/engines';
+import { getUserFSRS, maybeOptimizeUserFSRS } from '../services/fsrs-optimizer.service';
+import { getUserTargetRetention, getUserTargetSuccessRate } from './profile.ipc';
+import { notifyMilestones } from './milestone.ipc';
+import { resolveStageTransition } from '../../core/stage-thresholds';
+import { getThresholdConfigForUser } from '../services/threshold-experiment.service';
+import { refreshAutomatizationProfile } from '../services/automatization.service';
+import { recordEncounter, getPreferredModality } from '../services/user-object-graph.service';
+import { propagateFromResponse } from '../services/mastery-propagation.service';
+import { recordSessionTime } from '../services/study-planner.service';
+import { scoreSpeechAttempt, getPhonemeRecognizer } from '../services/speech-scoring.service';
+import {
+  issueTask,
+  getIssuedTask,
+  gradeTaskResponse,
+  getOrGenerateTaskWithMatching,
+  type GeneratedTask,
+} from '../services/task-generation.service';
+import {
+  planTaskIntent,
+  intentGenerationConfig,
+  toTaskIntent,
+  getIntentCalibration,
+} from '../services/intent-planning.service';
+import type { AnswerVerdict } from '../../core/answer-grading';
+import {
+  recordDistractorOutcome,
+  recordDistractorError,
+  getDistractorAnalytics,
+} from '../services/distractor.service';
+import {
+  SessionScoreSpeechSchema,
+  SessionGenerateTaskSchema,
+  AnalyticsGetDistractorsSchema,
+  AnalyticsGetIntentCalibrationSchema,
+  validateInput,
+} from '../../shared/schemas/ipc-schemas';
 
 // =============================================================================
 // IRT Calibration Configuration
@@ -42,8 +78,528 @@ const IRT_CALIBRATION_CONFIG = {
   autoCalibrate: true,
 };
 
-// Singleton FSRS instance
-const fsrs = new FSRS();
+// Fallback FSRS instance when the session's user cannot be resolved
+const defaultFSRS = new FSRS();
+
+// =============================================================================
+// Response Recording
+// =============================================================================
+
+interface GradedResponseInput {
+  sessionId: string;
+  objectId: string;
+  /** Verdict reached in main (answer grading or speech scoring) */
+  correct: boolean;
+  cueLevel: number;
+  responseTimeMs: number;
+  taskType?: string;
+  taskFormat?: string;
+  modality?: string;
+  responseContent?: string;
+  expectedContent?: string;
+  /** Set for answers to issued tasks */
+  grading: AnswerVerdict | null;
+  issuedTask: GeneratedTask | null;
+  /** IssuedTask row the response consumes */
+  taskId?: string;
+}
+
+const TASK_ALREADY_ANSWERED = 'Task was already answered';
+
+/**
+ * Store a response graded in main and apply it: scheduling, stage
+ * transitions, theta, priority, error statistics and milestones.
+ */
+async function recordGradedResponse(input: GradedResponseInput) {
+  const { sessionId, objectId, correct, cueLevel, responseTimeMs, taskType, responseContent, grading, issuedTask, taskId } = input;
+  const format = issuedTask?.spec.format ?? input.taskFormat;
+  const taskModality = issuedTask?.spec.modality ?? input.modality;
+  const expected = issuedTask?.expectedAnswer ?? input.expectedContent;
+
+  // Count every distractor the MCQ offered and the one picked, if any
+  const distractorPick = issuedTask?.distractors?.length
+    ? await recordDistractorOutcome(objectId, issuedTask.distractors, responseContent ?? '')
+    : null;
+
+  // Get the language object for word length and mastery info
+  const languageObject = await prisma.languageObject.findUnique({
+    where: { id: objectId },
+    select: { content: true, type: true, goalId: true, irtDifficulty: true },
+  });
+
+  const wordLength = languageObject?.content.length ?? 6;
+
+  // Get mastery state early for response timing analysis
+  let mastery = await prisma.masteryState.findUnique({
+    where: { objectId },
+  });
+
+  const currentStage = mastery?.stage ?? 0;
+
+  // Analyze response timing for quality assessment
+  const taskCategory = getTaskCategory(
+    format as 'mcq' | 'fill_blank' | 'free_response' | undefined,
+    taskType as TaskType | undefined
+  );
+  const timingAnalysis = analyzeResponseTime(
+    responseTimeMs,
+    taskCategory,
+    currentStage as MasteryStage,
+    wordLength,
+    correct
+  );
+
+  // Calculate timing-aware FSRS rating; near misses (typos, accents,
+  // another inflection) are never rated Easy
+  const timedRating = calculateFSRSRatingWithTiming(
+    correct,
+    responseTimeMs,
+    (format || 'fill_blank') as TaskFormat,
+    currentStage as MasteryStage,
+    wordLength
+  );
+  const timingAwareRating = grading && grading.credit < 1
+    ? (Math.min(timedRating, 3) as FSRSRating)
+    : timedRating;
+
+  // Create response record with timing metadata; an issued task is
+  // consumed in the same transaction so it can be answered only once
+  const response = await prisma.$transaction(async (tx) => {
+    if (taskId) {
+      const claimed = await tx.issuedTask.updateMany({
+        where: { id: taskId, answeredAt: null },
+        data: { answeredAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new Error(TASK_ALREADY_ANSWERED);
+      }
+    }
+
+    const created = await tx.response.create({
+      data: {
+        sessionId,
+        objectId,
+        correct,
+        cueLevel,
+        responseTimeMs,
+        taskType: taskType || 'recall',
+        taskFormat: format || 'free_response',
+        modality: taskModality || 'visual',
+        responseContent,
+        expectedContent: expected,
+        taskId,
+        credit: grading?.credit,
+        matchType: grading?.matchType,
+        distractorId: distractorPick?.id,
+        distractorStrategy: distractorPick?.strategy,
+        intent: issuedTask?.intent?.intent,
+        predictedSuccess: issuedTask?.intent?.expectedSuccess,
+      },
+    });
+
+    if (taskId) {
+      await tx.issuedTask.update({ where: { id: taskId }, data: { responseId: created.id } });
+    }
+
+    return created;
+  });
+
+  if (distractorPick) {
+    await recordDistractorError(response.id, objectId, distractorPick, expected ?? '');
+  }
+
+  const responseData: FSRSResponseData = {
+    correct,
+    cueLevel: cueLevel as 0 | 1 | 2 | 3,
+    responseTimeMs,
+  };
+
+  const now = new Date();
+
+  // Per-user scheduler: fitted weights once the FSRS optimizer has run
+  const sessionOwner = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      userId: true,
+      user: { select: { thetaGlobal: true } },
+      goal: { select: { domain: true } },
+    },
+  });
+  const fsrs = sessionOwner
+    ? await getUserFSRS(sessionOwner.userId, getUserTargetRetention())
+    : defaultFSRS;
+
+  // Thresholds come from the user's A/B experiment group (or the registry default)
+  const thresholds = sessionOwner ? await getThresholdConfigForUser(sessionOwner.userId) : null;
+
+  // The response is already stored; the graph, timing and propagation
+  // updates below are non-critical and only log when they fail
+
+  // Every response is an encounter in the user's object graph
+  if (sessionOwner) {
+    try {
+      await recordEncounter(
+        {
+          userId: sessionOwner.userId,
+          objectId,
+          responseId: response.id,
+          taskType: response.taskType,
+          taskFormat: response.taskFormat,
+          modality: response.modality,
+          domain: sessionOwner.goal.domain,
+          successful: response.correct,
+          responseTimeMs,
+          cueLevel,
+          userTheta: sessionOwner.user.thetaGlobal,
+          itemDifficulty: languageObject?.irtDifficulty,
+        },
+        now
+      );
+    } catch (err) {
+      console.error('Encounter recording failed (non-critical):', err);
+    }
+  }
+
+  // Response-time profile including this response; gates Stage 4.
+  // Falls back to the last stored level if the refresh fails
+  let automatizationLevel = mastery?.automatizationLevel ?? 0;
+  try {
+    automatizationLevel = (await refreshAutomatizationProfile(objectId, now)).level;
+  } catch (err) {
+    console.error('Automatization refresh failed (non-critical):', err);
+  }
+
+  // Track old stage for transition detection
+  const oldStage = mastery?.stage ?? 0;
+  let newStage = oldStage;
+  let stageChanged = false;
+  let transitionTrigger = 'accuracy_threshold';
+  let transitionReason = 'First exposure';
+
+  if (!mastery) {
+    // Create new mastery state
+    const newCard = createNewCard();
+    // Use timing-aware rating for more accurate scheduling
+    const updatedCard = fsrs.schedule(newCard, timingAwareRating, now);
+
+    newStage = responseData.correct ? 1 : 0;
+    stageChanged = newStage !== oldStage;
+
+    mastery = await prisma.masteryState.create({
+      data: {
+        objectId,
+        stage: newStage,
+        fsrsStability: updatedCard.stability,
+        fsrsDifficulty: updatedCard.difficulty,
+        cueFreeAccuracy: cueLevel === 0 ? (correct ? 1 : 0) : 0,
+        cueAssistedAccuracy: cueLevel > 0 ? (correct ? 1 : 0) : 0,
+        exposureCount: 1,
+        fsrsLastReview: now,
+        nextReview: fsrs.nextReviewDate(updatedCard),
+        fsrsReps: 1,
+        fsrsLapses: correct ? 0 : 1,
+      },
+    });
+  } else {
+    // Update existing mastery
+    const existingCard = {
+      difficulty: mastery.fsrsDifficulty,
+      stability: mastery.fsrsStability,
+      lastReview: mastery.fsrsLastReview,
+      reps: mastery.fsrsReps,
+      lapses: mastery.fsrsLapses,
+      state: mastery.fsrsReps === 0 ? 'new' as const : 'review' as const,
+    };
+
+    // Use timing-aware rating for better scheduling (accounts for response speed)
+    const updatedCard = fsrs.schedule(existingCard, timingAwareRating, now);
+
+    // Calculate updated accuracy with recency weighting
+    const weight = 1 / (mastery.exposureCount * 0.3 + 1);
+    let newCueFreeAccuracy = mastery.cueFreeAccuracy;
+    let newCueAssistedAccuracy = mastery.cueAssistedAccuracy;
+
+    if (cueLevel === 0) {
+      newCueFreeAccuracy = (1 - weight) * mastery.cueFreeAccuracy + weight * (correct ? 1 : 0);
+    } else {
+      newCueAssistedAccuracy = (1 - 0.2) * mastery.cueAssistedAccuracy + 0.2 * (correct ? 1 : 0);
+    }
+
+    // Determine stage (one step per response, thresholds from the user's config)
+    const transition = resolveStageTransition(
+      oldStage as MasteryStage,
+      {
+        cueFreeAccuracy: newCueFreeAccuracy,
+        cueAssistedAccuracy: newCueAssistedAccuracy,
+        stability: updatedCard.stability,
+        exposureCount: mastery.exposureCount + 1,
+        automatizationLevel,
+      },
+      thresholds?.config
+    );
+
+    newStage = transition.newStage;
+    stageChanged = newStage !== oldStage;
+    transitionTrigger = transition.direction === 'demote' ? 'lapse' : 'accuracy_threshold';
+    transitionReason = transition.reason;
+
+    mastery = await prisma.masteryState.update({
+      where: { objectId },
+      data: {
+        stage: newStage,
+        fsrsStability: updatedCard.stability,
+        fsrsDifficulty: updatedCard.difficulty,
+        cueFreeAccuracy: newCueFreeAccuracy,
+        cueAssistedAccuracy: newCueAssistedAccuracy,
+        exposureCount: mastery.exposureCount + 1,
+        fsrsLastReview: now,
+        nextReview: fsrs.nextReviewDate(updatedCard),
+        fsrsReps: updatedCard.reps,
+        fsrsLapses: updatedCard.lapses,
+      },
+    });
+  }
+
+  // Carry part of this progress over to the word's family and collocates
+  try {
+    await propagateFromResponse(
+      {
+        objectId,
+        previousStage: oldStage as MasteryStage,
+        newStage: newStage as MasteryStage,
+        correct,
+        responseTimeMs,
+        responseId: response.id,
+      },
+      now
+    );
+  } catch (err) {
+    console.error('Mastery propagation failed (non-critical):', err);
+  }
+
+  // Get current session to check mode
+  const currentSession = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { mode: true, goalId: true },
+  });
+
+  // Update user theta ONLY in evaluation mode
+  // learning/training modes maximize iteration without affecting theta
+  // evaluation mode is for assessment and theta updates
+  const isEvaluationMode = currentSession?.mode === 'evaluation';
+
+  const recentResponses = await prisma.response.findMany({
+    where: { session: { goalId: currentSession?.goalId } },
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+    include: { object: true },
+  });
+
+  if (recentResponses.length >= 10 && isEvaluationMode) {
+    // Build IRT item parameters and response array for theta estimation
+    const items = recentResponses.map((r: { object: { irtDifficulty: number; irtDiscrimination?: number | null } }) => ({
+      id: r.object.irtDifficulty.toString(),
+      a: r.object.irtDiscrimination ?? 1.0, // discrimination parameter
+      b: r.object.irtDifficulty, // difficulty parameter
+    }));
+    const responseArray = recentResponses.map((r: { correct: boolean }) => r.correct);
+
+    // Global theta estimate
+    const estimate = estimateThetaMLE(responseArray, items);
+
+    // Component-specific theta updates (P1: per-component theta estimation)
+    type ComponentKey = 'PHON' | 'MORPH' | 'LEX' | 'SYNT' | 'PRAG';
+    const componentMapping: Record<ComponentKey, keyof typeof componentThetas> = {
+      PHON: 'thetaPhonology',
+      MORPH: 'thetaMorphology',
+      LEX: 'thetaLexical',
+      SYNT: 'thetaSyntactic',
+      PRAG: 'thetaPragmatic',
+    };
+
+    // Group responses by component type
+    const responsesByComponent = new Map<ComponentKey, { items: typeof items; responses: boolean[] }>();
+    for (let i = 0; i < recentResponses.length; i++) {
+      const r = recentResponses[i];
+      const componentType = (r.object.type || 'LEX').toUpperCase() as ComponentKey;
+      const validComponent = componentMapping[componentType] ? componentType : 'LEX';
+
+      if (!responsesByComponent.has(validComponent)) {
+        responsesByComponent.set(validComponent, { items: [], responses: [] });
+      }
+      const componentData = responsesByComponent.get(validComponent)!;
+      componentData.items.push(items[i]);
+      componentData.responses.push(responseArray[i]);
+    }
+
+    // Calculate component-specific theta values
+    const componentThetas: Record<string, number> = {};
+    for (const [component, data] of responsesByComponent) {
+      if (data.items.length >= 5) { // Minimum 5 responses for component estimation
+        const componentEstimate = estimateThetaMLE(data.responses, data.items);
+        const fieldName = componentMapping[component];
+        if (fieldName) {
+          componentThetas[fieldName] = componentEstimate.theta;
+        }
+      }
+    }
+
+    await prisma.user.updateMany({
+      data: {
+        thetaGlobal: estimate.theta,
+        ...componentThetas,
+      },
+    });
+  }
+
+  // Track stage transitions in session
+  if (stageChanged) {
+    await prisma.stageTransition.create({
+      data: {
+        masteryStateId: mastery.id,
+        fromStage: oldStage,
+        toStage: newStage,
+        trigger: transitionTrigger,
+        cueFreeAccuracyAtTransition: mastery.cueFreeAccuracy,
+        cueAssistedAccuracyAtTransition: mastery.cueAssistedAccuracy,
+        exposureCountAtTransition: mastery.exposureCount,
+        metadata: JSON.stringify({
+          sessionId,
+          reason: transitionReason,
+          stability: mastery.fsrsStability,
+        }),
+        thresholdConfigId: thresholds?.config.id ?? null,
+        experimentId: thresholds?.experimentId ?? null,
+        experimentGroupId: thresholds?.groupId ?? null,
+      },
+    });
+
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: {
+        stageTransitions: { increment: 1 },
+        itemsPracticed: { increment: 1 },
+      },
+    });
+  } else {
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: { itemsPracticed: { increment: 1 } },
+    });
+  }
+
+  // Recalculate priority for the language object
+  const langObjForPriority = await prisma.languageObject.findUnique({
+    where: { id: objectId },
+  });
+
+  if (langObjForPriority) {
+    // Get user state for priority calculation
+    const user = await prisma.user.findFirst();
+    const userTheta = user?.thetaGlobal ?? 0;
+
+    const userState = {
+      theta: userTheta,
+      weights: DEFAULT_PRIORITY_WEIGHTS,
+    };
+
+    const langObj = {
+      id: langObjForPriority.id,
+      content: langObjForPriority.content,
+      type: langObjForPriority.type,
+      frequency: langObjForPriority.frequency,
+      relationalDensity: langObjForPriority.relationalDensity,
+      contextualContribution: langObjForPriority.contextualContribution,
+      irtDifficulty: langObjForPriority.irtDifficulty,
+    };
+
+    // Compute new priority with urgency factored in
+    const basePriority = computePriority(langObj, userState);
+    const urgency = computeUrgency(mastery.nextReview, now);
+    const finalPriority = basePriority * (1 + urgency);
+
+    await prisma.languageObject.update({
+      where: { id: objectId },
+      data: { priority: finalPriority },
+    });
+  }
+
+  // Update ComponentErrorStats for bottleneck tracking (if error occurred)
+  if (!correct && langObjForPriority && languageObject) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, goalId: true },
+    });
+
+    if (session) {
+      // Map language object type to component type
+      const componentType = languageObject.type as ComponentType;
+
+      // Upsert error stats
+      await prisma.componentErrorStats.upsert({
+        where: {
+          userId_component_goalId: {
+            userId: session.userId,
+            component: componentType,
+            goalId: session.goalId,
+          },
+        },
+        create: {
+          userId: session.userId,
+          component: componentType,
+          goalId: session.goalId,
+          totalErrors: 1,
+          recentErrors: 1,
+          errorRate: 1.0,
+          trend: 0,
+        },
+        update: {
+          totalErrors: { increment: 1 },
+          recentErrors: { increment: 1 },
+        },
+      });
+    }
+  }
+
+  // Check for earned milestones in the background and push them to the renderer
+  if (sessionOwner) {
+    void notifyMilestones(sessionOwner.userId, {
+      sessionId,
+      goalId: languageObject?.goalId,
+      stageChange: stageChanged ? { objectId, from: oldStage, to: newStage } : undefined,
+    });
+  }
+
+  return {
+    responseId: response.id,
+    mastery: {
+      stage: mastery.stage,
+      stability: mastery.fsrsStability,
+      nextReview: mastery.nextReview,
+      cueFreeAccuracy: mastery.cueFreeAccuracy,
+    },
+    stageChanged,
+    oldStage,
+    newStage,
+    fsrsRating: timingAwareRating,
+    timing: {
+      classification: timingAnalysis.classification,
+      normalizedTime: timingAnalysis.normalizedTime,
+      isAutomatic: timingAnalysis.isAutomatic,
+      possibleGuessing: timingAnalysis.possibleGuessing,
+    },
+    grading: grading
+      ? {
+          correct: grading.correct,
+          credit: grading.credit,
+          matchType: grading.matchType,
+          expected: grading.matchedAnswer,
+          feedback: grading.feedback,
+          gloss: issuedTask?.gloss,
+        }
+      : undefined,
+  };
+}
 
 // ============================================================================
 // Handler Registration
@@ -165,6 +721,25 @@ export function registerSessionHandlers(): void {
           });
       }
 
+      // Refit the learner's FSRS weights in the background once enough new history exists
+      maybeOptimizeUserFSRS(session.userId)
+        .then(result => {
+          if (result?.saved) {
+            console.log(`[FSRS] Weights refitted: log-loss ${result.before.logLoss.toFixed(4)} -> ${result.after.logLoss.toFixed(4)}`);
+          }
+        })
+        .catch(fitErr => {
+          console.warn('[FSRS] Background optimization failed:', fitErr instanceof Error ? fitErr.message : fitErr);
+        });
+
+      // Session-level milestones (perfect session, streaks, study time)
+      void notifyMilestones(session.userId, { sessionId: session.id, goalId: session.goalId });
+
+      // Credit practice time to this week's study plan, split by the goals answered
+      recordSessionTime(session.id).catch(planErr => {
+        console.warn('[Planner] Failed to record session time:', planErr instanceof Error ? planErr.message : planErr);
+      });
+
       return success({
         id: session.id,
         endedAt: session.endedAt,
@@ -224,20 +799,9 @@ export function registerSessionHandlers(): void {
     }
   });
 
-  // Submit a response
+  // Submit a response to a task issued by session:generate-task; main grades it
   registerHandler('session:submit-response', async (_event, request) => {
-    const { sessionId, objectId, correct, cueLevel, responseTimeMs, taskType, taskFormat, modality, responseContent, expectedContent } = request as {
-      sessionId: string;
-      objectId: string;
-      correct: boolean;
-      cueLevel: 0 | 1 | 2 | 3;
-      responseTimeMs: number;
-      taskType?: string;
-      taskFormat?: string;
-      modality?: string;
-      responseContent?: string;
-      expectedContent?: string;
-    };
+    const { sessionId, objectId, taskId, cueLevel, responseTimeMs, taskType, responseContent } = request;
 
     const sessionError = validateUUID(sessionId, 'sessionId');
     if (sessionError) return error(sessionError);
@@ -245,375 +809,40 @@ export function registerSessionHandlers(): void {
     const objectError = validateUUID(objectId, 'objectId');
     if (objectError) return error(objectError);
 
-    if (typeof correct !== 'boolean') {
-      return error('correct must be a boolean');
-    }
+    const taskError = validateUUID(taskId, 'taskId');
+    if (taskError) return error(taskError);
 
     if (![0, 1, 2, 3].includes(cueLevel)) {
       return error('cueLevel must be 0, 1, 2, or 3');
     }
 
     try {
-      // Get the language object for word length and mastery info
-      const languageObject = await prisma.languageObject.findUnique({
-        where: { id: objectId },
-        select: { content: true, type: true },
-      });
-
-      const wordLength = languageObject?.content.length ?? 6;
-
-      // Get mastery state early for response timing analysis
-      let mastery = await prisma.masteryState.findUnique({
-        where: { objectId },
-      });
-
-      const currentStage = mastery?.stage ?? 0;
-
-      // Analyze response timing for quality assessment
-      const taskCategory = getTaskCategory(
-        taskFormat as 'mcq' | 'fill_blank' | 'free_response' | undefined,
-        taskType as TaskType | undefined
-      );
-      const timingAnalysis = analyzeResponseTime(
-        responseTimeMs,
-        taskCategory,
-        currentStage as MasteryStage,
-        wordLength,
-        correct
-      );
-
-      // Calculate timing-aware FSRS rating
-      const timingAwareRating = calculateFSRSRatingWithTiming(
-        correct,
-        responseTimeMs,
-        (taskFormat || 'fill_blank') as TaskFormat,
-        currentStage as MasteryStage,
-        wordLength
-      );
-
-      // Multi-layer evaluation for partial credit scoring
-      // Uses binary mode - can be upgraded to partial_credit when layers are configured per-object
-      let layerEvaluation: ObjectEvaluationResult | null = null;
-      if (responseContent && expectedContent && languageObject) {
-        try {
-          const componentType = (languageObject.type?.toUpperCase() || 'LEX') as ComponentCode;
-          const evalInput: ObjectEvaluationInput = {
-            objectId,
-            componentType,
-            response: responseContent,
-            expected: [expectedContent],
-            config: {
-              objectId,
-              componentType,
-              evaluationMode: 'binary',
-            },
-            role: 'target' as ObjectRole,
-            weight: 1.0,
-            context: {
-              taskType: taskType || 'recall',
-              domain: 'general',
-            },
-          };
-          layerEvaluation = evaluateObject(evalInput);
-        } catch (evalErr) {
-          console.warn('Multi-layer evaluation failed, using binary scoring:', evalErr);
-        }
+      // Only the session the task was issued to may answer it, and only once
+      const issued = await getIssuedTask(taskId);
+      if (!issued || issued.sessionId !== sessionId || issued.task.spec.objectId !== objectId) {
+        return error('Task not found');
       }
-
-      // Create response record with timing metadata
-      const response = await prisma.response.create({
-        data: {
-          sessionId,
-          objectId,
-          correct: layerEvaluation?.correct ?? correct,
-          cueLevel,
-          responseTimeMs,
-          taskType: taskType || 'recall',
-          taskFormat: taskFormat || 'free_response',
-          modality: modality || 'visual',
-          responseContent,
-          expectedContent,
-        },
-      });
-
-      const responseData: FSRSResponseData = {
-        correct,
-        cueLevel: cueLevel as 0 | 1 | 2 | 3,
-        responseTimeMs,
-      };
-
-      const now = new Date();
-
-      // Track old stage for transition detection
-      const oldStage = mastery?.stage ?? 0;
-      let newStage = oldStage;
-      let stageChanged = false;
-
-      if (!mastery) {
-        // Create new mastery state
-        const newCard = createNewCard();
-        // Use timing-aware rating for more accurate scheduling
-        const updatedCard = fsrs.schedule(newCard, timingAwareRating, now);
-
-        newStage = responseData.correct ? 1 : 0;
-        stageChanged = newStage !== oldStage;
-
-        mastery = await prisma.masteryState.create({
-          data: {
-            objectId,
-            stage: newStage,
-            fsrsStability: updatedCard.stability,
-            fsrsDifficulty: updatedCard.difficulty,
-            cueFreeAccuracy: cueLevel === 0 ? (correct ? 1 : 0) : 0,
-            cueAssistedAccuracy: cueLevel > 0 ? (correct ? 1 : 0) : 0,
-            exposureCount: 1,
-            fsrsLastReview: now,
-            nextReview: fsrs.nextReviewDate(updatedCard),
-            fsrsReps: 1,
-            fsrsLapses: correct ? 0 : 1,
-          },
-        });
-      } else {
-        // Update existing mastery
-        const existingCard = {
-          difficulty: mastery.fsrsDifficulty,
-          stability: mastery.fsrsStability,
-          lastReview: mastery.fsrsLastReview,
-          reps: mastery.fsrsReps,
-          lapses: mastery.fsrsLapses,
-          state: mastery.fsrsReps === 0 ? 'new' as const : 'review' as const,
-        };
-
-        // Use timing-aware rating for better scheduling (accounts for response speed)
-        const updatedCard = fsrs.schedule(existingCard, timingAwareRating, now);
-
-        // Calculate updated accuracy with recency weighting
-        const weight = 1 / (mastery.exposureCount * 0.3 + 1);
-        let newCueFreeAccuracy = mastery.cueFreeAccuracy;
-        let newCueAssistedAccuracy = mastery.cueAssistedAccuracy;
-
-        if (cueLevel === 0) {
-          newCueFreeAccuracy = (1 - weight) * mastery.cueFreeAccuracy + weight * (correct ? 1 : 0);
-        } else {
-          newCueAssistedAccuracy = (1 - 0.2) * mastery.cueAssistedAccuracy + 0.2 * (correct ? 1 : 0);
-        }
-
-        // Determine stage
-        const gap = newCueAssistedAccuracy - newCueFreeAccuracy;
-
-        if (newCueFreeAccuracy >= 0.9 && updatedCard.stability > 30 && gap < 0.1) {
-          newStage = 4;
-        } else if (newCueFreeAccuracy >= 0.75 && updatedCard.stability > 7) {
-          newStage = 3;
-        } else if (newCueFreeAccuracy >= 0.6 || newCueAssistedAccuracy >= 0.8) {
-          newStage = 2;
-        } else if (newCueAssistedAccuracy >= 0.5) {
-          newStage = 1;
-        }
-
-        stageChanged = newStage !== oldStage;
-
-        mastery = await prisma.masteryState.update({
-          where: { objectId },
-          data: {
-            stage: newStage,
-            fsrsStability: updatedCard.stability,
-            fsrsDifficulty: updatedCard.difficulty,
-            cueFreeAccuracy: newCueFreeAccuracy,
-            cueAssistedAccuracy: newCueAssistedAccuracy,
-            exposureCount: mastery.exposureCount + 1,
-            fsrsLastReview: now,
-            nextReview: fsrs.nextReviewDate(updatedCard),
-            fsrsReps: updatedCard.reps,
-            fsrsLapses: updatedCard.lapses,
-          },
-        });
+      if (issued.answeredAt) {
+        return error(TASK_ALREADY_ANSWERED);
       }
+      const grading = gradeTaskResponse(issued.task, responseContent ?? '');
 
-      // Get current session to check mode
-      const currentSession = await prisma.session.findUnique({
-        where: { id: sessionId },
-        select: { mode: true, goalId: true },
-      });
-
-      // Update user theta ONLY in evaluation mode
-      // learning/training modes maximize iteration without affecting theta
-      // evaluation mode is for assessment and theta updates
-      const isEvaluationMode = currentSession?.mode === 'evaluation';
-
-      const recentResponses = await prisma.response.findMany({
-        where: { session: { goalId: currentSession?.goalId } },
-        orderBy: { createdAt: 'desc' },
-        take: 50,
-        include: { object: true },
-      });
-
-      if (recentResponses.length >= 10 && isEvaluationMode) {
-        // Build IRT item parameters and response array for theta estimation
-        const items = recentResponses.map((r: { object: { irtDifficulty: number; irtDiscrimination?: number | null } }) => ({
-          id: r.object.irtDifficulty.toString(),
-          a: r.object.irtDiscrimination ?? 1.0, // discrimination parameter
-          b: r.object.irtDifficulty, // difficulty parameter
-        }));
-        const responseArray = recentResponses.map((r: { correct: boolean }) => r.correct);
-
-        // Global theta estimate
-        const estimate = estimateThetaMLE(responseArray, items);
-
-        // Component-specific theta updates (P1: per-component theta estimation)
-        type ComponentKey = 'PHON' | 'MORPH' | 'LEX' | 'SYNT' | 'PRAG';
-        const componentMapping: Record<ComponentKey, keyof typeof componentThetas> = {
-          PHON: 'thetaPhonology',
-          MORPH: 'thetaMorphology',
-          LEX: 'thetaLexical',
-          SYNT: 'thetaSyntactic',
-          PRAG: 'thetaPragmatic',
-        };
-
-        // Group responses by component type
-        const responsesByComponent = new Map<ComponentKey, { items: typeof items; responses: boolean[] }>();
-        for (let i = 0; i < recentResponses.length; i++) {
-          const r = recentResponses[i];
-          const componentType = (r.object.type || 'LEX').toUpperCase() as ComponentKey;
-          const validComponent = componentMapping[componentType] ? componentType : 'LEX';
-
-          if (!responsesByComponent.has(validComponent)) {
-            responsesByComponent.set(validComponent, { items: [], responses: [] });
-          }
-          const componentData = responsesByComponent.get(validComponent)!;
-          componentData.items.push(items[i]);
-          componentData.responses.push(responseArray[i]);
-        }
-
-        // Calculate component-specific theta values
-        const componentThetas: Record<string, number> = {};
-        for (const [component, data] of responsesByComponent) {
-          if (data.items.length >= 5) { // Minimum 5 responses for component estimation
-            const componentEstimate = estimateThetaMLE(data.responses, data.items);
-            const fieldName = componentMapping[component];
-            if (fieldName) {
-              componentThetas[fieldName] = componentEstimate.theta;
-            }
-          }
-        }
-
-        await prisma.user.updateMany({
-          data: {
-            thetaGlobal: estimate.theta,
-            ...componentThetas,
-          },
-        });
-      }
-
-      // Track stage transitions in session
-      if (stageChanged) {
-        await prisma.session.update({
-          where: { id: sessionId },
-          data: {
-            stageTransitions: { increment: 1 },
-            itemsPracticed: { increment: 1 },
-          },
-        });
-      } else {
-        await prisma.session.update({
-          where: { id: sessionId },
-          data: { itemsPracticed: { increment: 1 } },
-        });
-      }
-
-      // Recalculate priority for the language object
-      const langObjForPriority = await prisma.languageObject.findUnique({
-        where: { id: objectId },
-      });
-
-      if (langObjForPriority) {
-        // Get user state for priority calculation
-        const user = await prisma.user.findFirst();
-        const userTheta = user?.thetaGlobal ?? 0;
-
-        const userState = {
-          theta: userTheta,
-          weights: DEFAULT_PRIORITY_WEIGHTS,
-        };
-
-        const langObj = {
-          id: langObjForPriority.id,
-          content: langObjForPriority.content,
-          type: langObjForPriority.type,
-          frequency: langObjForPriority.frequency,
-          relationalDensity: langObjForPriority.relationalDensity,
-          contextualContribution: langObjForPriority.contextualContribution,
-          irtDifficulty: langObjForPriority.irtDifficulty,
-        };
-
-        // Compute new priority with urgency factored in
-        const basePriority = computePriority(langObj, userState);
-        const urgency = computeUrgency(mastery.nextReview, now);
-        const finalPriority = basePriority * (1 + urgency);
-
-        await prisma.languageObject.update({
-          where: { id: objectId },
-          data: { priority: finalPriority },
-        });
-      }
-
-      // Update ComponentErrorStats for bottleneck tracking (if error occurred)
-      if (!correct && langObjForPriority && languageObject) {
-        const session = await prisma.session.findUnique({
-          where: { id: sessionId },
-          select: { userId: true, goalId: true },
-        });
-
-        if (session) {
-          // Map language object type to component type
-          const componentType = languageObject.type as ComponentType;
-
-          // Upsert error stats
-          await prisma.componentErrorStats.upsert({
-            where: {
-              userId_component_goalId: {
-                userId: session.userId,
-                component: componentType,
-                goalId: session.goalId,
-              },
-            },
-            create: {
-              userId: session.userId,
-              component: componentType,
-              goalId: session.goalId,
-              totalErrors: 1,
-              recentErrors: 1,
-              errorRate: 1.0,
-              trend: 0,
-            },
-            update: {
-              totalErrors: { increment: 1 },
-              recentErrors: { increment: 1 },
-            },
-          });
-        }
-      }
-
-      return success({
-        responseId: response.id,
-        mastery: {
-          stage: mastery.stage,
-          stability: mastery.fsrsStability,
-          nextReview: mastery.nextReview,
-          cueFreeAccuracy: mastery.cueFreeAccuracy,
-        },
-        stageChanged,
-        oldStage,
-        newStage,
-        fsrsRating: timingAwareRating,
-        timing: {
-          classification: timingAnalysis.classification,
-          normalizedTime: timingAnalysis.normalizedTime,
-          isAutomatic: timingAnalysis.isAutomatic,
-          possibleGuessing: timingAnalysis.possibleGuessing,
-        },
-      });
+      return success(await recordGradedResponse({
+        sessionId,
+        objectId,
+        correct: grading.correct,
+        cueLevel,
+        responseTimeMs,
+        taskType,
+        responseContent,
+        grading,
+        issuedTask: issued.task,
+        taskId,
+      }));
     } catch (err) {
+      if (err instanceof Error && err.message === TASK_ALREADY_ANSWERED) {
+        return error(err.message);
+      }
       console.error('Failed to record response:', err);
       return error('Failed to record response');
     }
@@ -667,6 +896,168 @@ export function registerSessionHandlers(): void {
     }
   });
 
+  // Whether speaking tasks can be scored
+  registerHandler('session:speech-status', () => {
+    const recognizer = getPhonemeRecognizer();
+    return Promise.resolve(success({ available: recognizer !== null, recognizer: recognizer?.name ?? null }));
+  });
+
+  // Score a recorded attempt against the word's G2P pronunciation
+  registerHandler('session:score-speech', async (_event, request) => {
+    const validation = validateInput(SessionScoreSpeechSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+    const { sessionId, objectId, audio, mimeType, responseTimeMs } = validation.data;
+
+    try {
+      const [session, object] = await Promise.all([
+        prisma.session.findUnique({
+          where: { id: sessionId },
+          select: { user: { select: { id: true, nativeLanguage: true } } },
+        }),
+        prisma.languageObject.findUnique({
+          where: { id: objectId },
+          select: { content: true },
+        }),
+      ]);
+
+      if (!session) {
+        return error('Session not found');
+      }
+      if (!object) {
+        return error('Object not found');
+      }
+
+      const result = await scoreSpeechAttempt({
+        userId: session.user.id,
+        word: object.content,
+        audio,
+        mimeType,
+        responseTimeMs,
+        nativeLanguage: session.user.nativeLanguage,
+      });
+
+      // The attempt counts as a response graded here, like an issued task
+      const recorded = await recordGradedResponse({
+        sessionId,
+        objectId,
+        correct: result.correct,
+        cueLevel: 0,
+        responseTimeMs,
+        taskType: 'speaking',
+        taskFormat: 'pronunciation',
+        modality: 'auditory',
+        responseContent: result.recognized.join(' '),
+        expectedContent: result.expected.join(' '),
+        grading: null,
+        issuedTask: null,
+      });
+
+      return success({
+        responseId: recorded.responseId,
+        correct: result.correct,
+        accuracy: result.accuracy,
+        expected: result.expected,
+        recognized: result.recognized,
+        errors: result.errors.map(e => ({
+          type: e.type,
+          expected: e.expected,
+          recognized: e.recognized,
+          reason: e.l1Pattern?.reason,
+        })),
+        recognizer: result.recognizer,
+        thetaSpeaking: result.thetaSpeaking,
+      });
+    } catch (err) {
+      console.error('Failed to score speech:', err);
+      return error(err instanceof Error ? err.message : 'Failed to score speech');
+    }
+  });
+
+  // Issue a task for an object; the answer stays in main for grading
+  registerHandler('session:generate-task', async (_event, request) => {
+    const validation = validateInput(SessionGenerateTaskSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+    const { sessionId, objectId } = validation.data;
+
+    try {
+      const [session, object] = await Promise.all([
+        prisma.session.findUnique({
+          where: { id: sessionId },
+          select: { userId: true },
+        }),
+        prisma.languageObject.findUnique({
+          where: { id: objectId },
+          include: {
+            masteryState: true,
+            goal: { select: { userId: true, isActive: true, domain: true, modality: true } },
+          },
+        }),
+      ]);
+
+      if (!session) {
+        return error('Session not found');
+      }
+      // Interleaved sessions mix objects from all of the user's active goals
+      if (!object || object.goal.userId !== session.userId || !object.goal.isActive) {
+        return error('Object not found');
+      }
+
+      // Choose the intent, then generate the task to carry it out
+      const plan = await planTaskIntent(sessionId, object.id, getUserTargetSuccessRate());
+      // Lean toward whichever of the goal's modalities the object lacks
+      const preferredModality = await getPreferredModality(session.userId, object.id, object.goal.modality);
+      const task = await getOrGenerateTaskWithMatching(
+        {
+          objectId: object.id,
+          content: object.content,
+          type: object.type,
+          priority: object.priority,
+          stage: object.masteryState?.stage ?? 0,
+          nextReview: object.masteryState?.nextReview ?? null,
+          cueFreeAccuracy: object.masteryState?.cueFreeAccuracy ?? 0,
+          scaffoldingGap: 0,
+          isBottleneck: false,
+          urgencyScore: 0,
+        },
+        {
+          fluencyRatio: 0.3,
+          ...(plan ? intentGenerationConfig(plan) : {}),
+          preferredModality,
+          useTaskMatching: true,
+          focusDomain: object.goal.domain,
+        }
+      );
+
+      // The issued task carries the plan so the response can log it
+      if (plan) {
+        task.intent = toTaskIntent(plan);
+      }
+      const taskId = await issueTask(sessionId, task);
+
+      return success({
+        taskId,
+        objectId,
+        prompt: task.prompt,
+        format: task.spec.format,
+        modality: task.spec.modality,
+        cueLevel: task.spec.cueLevel,
+        options: task.options,
+        hints: task.hints,
+        context: task.context,
+        contextSource: task.contextSource,
+        intent: task.intent?.intent,
+        expectedSuccess: task.intent?.expectedSuccess,
+      });
+    } catch (err) {
+      console.error('Failed to generate task:', err);
+      return error(err instanceof Error ? err.message : 'Failed to generate task');
+    }
+  });
+
   // Get next task
   registerHandler('session:get-next-task', async (_event, request) => {
     const { sessionId } = request as { sessionId: string };
@@ -686,7 +1077,7 @@ export function registerSessionHandlers(): void {
 
       // Get next item based on priority and due date
       const nextItem = await prisma.languageObject.findFirst({
-        where: { goalId: session.goalId },
+        where: { goalId: session.goalId, ...schedulableObjectWhere() },
         include: { masteryState: true },
         orderBy: [
           { priority: 'desc' },
@@ -697,12 +1088,19 @@ export function registerSessionHandlers(): void {
         return success(null);
       }
 
+      const plan = await planTaskIntent(sessionId, nextItem.id, getUserTargetSuccessRate());
+
       return success({
         objectId: nextItem.id,
         content: nextItem.content,
         type: nextItem.type,
         masteryStage: nextItem.masteryState?.stage ?? 0,
         difficulty: nextItem.irtDifficulty,
+        intent: plan?.intent ?? null,
+        expectedSuccess: plan?.expectedSuccess ?? null,
+        targetSuccess: plan?.targetSuccess ?? getUserTargetSuccessRate(),
+        taskType: plan?.taskType ?? null,
+        companions: plan?.companions ?? [],
       });
     } catch (err) {
       console.error('Failed to get next task:', err);
@@ -944,6 +1342,38 @@ export function registerSessionHandlers(): void {
       return error('Failed to get session stats');
     }
   });
+
+  // Get MCQ distractor attractiveness
+  registerHandler('analytics:get-distractors', async (_event, request) => {
+    const validation = validateInput(AnalyticsGetDistractorsSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const analytics = await getDistractorAnalytics(validation.data.goalId, validation.data.limit);
+      return success(analytics);
+    } catch (err) {
+      console.error('Failed to get distractor analytics:', err);
+      return error(err instanceof Error ? err.message : 'Failed to get distractor analytics');
+    }
+  });
+
+  // Compare predicted success of issued tasks with outcomes
+  registerHandler('analytics:get-intent-calibration', async (_event, request) => {
+    const validation = validateInput(AnalyticsGetIntentCalibrationSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const calibration = await getIntentCalibration(validation.data.goalId);
+      return success({ ...calibration, targetSuccess: getUserTargetSuccessRate() });
+    } catch (err) {
+      console.error('Failed to get intent calibration:', err);
+      return error(err instanceof Error ? err.message : 'Failed to get intent calibration');
+    }
+  });
 }
 
 // =============================================================================
@@ -1291,9 +1721,14 @@ export function unregisterSessionHandlers(): void {
     'session:get-summary',
     'session:submit-response',
     'session:list',
+    'session:speech-status',
+    'session:score-speech',
+    'session:generate-task',
     'analytics:get-progress',
     'analytics:get-bottlenecks',
     'analytics:get-history',
+    'analytics:get-distractors',
+    'analytics:get-intent-calibration',
   ];
   channels.forEach(unregisterHandler);
 }
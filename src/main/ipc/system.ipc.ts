@@ -0,0 +1,292 @@
+/**
+ * System IPC Handlers
+ *
+ * Handles data portability: full-history export, archive import
+ * (merge or replace), and database snapshots with restore.
+ * Archive files are always picked in a dialog shown by the main process;
+ * the renderer never passes a filesystem path.
+ * Archive format and ID remapping live in data-archive.service.ts;
+ * snapshots, rotation and the daily scheduler in database-backup.service.ts.
+ */
+
+import { app, dialog, BrowserWindow, type IpcMainInvokeEvent } from 'electron';
+import * as path from 'path';
+import { registerHandler, unregisterHandler, success, error, CHANNELS } from './contracts';
+import {
+  validateInput,
+  SystemExportDataSchema,
+  SystemImportDataSchema,
+  SystemRestoreBackupSchema,
+} from '../../shared/schemas/ipc-schemas';
+import { exportArchiveToFile, importArchiveFromFile } from '../services/data-archive.service';
+import {
+  createDatabaseBackup,
+  listDatabaseBackups,
+  restoreDatabaseBackup,
+  backupBeforePendingMigrations,
+  startBackupScheduler,
+  stopBackupScheduler,
+  resolveDatabasePath,
+} from '../services/database-backup.service';
+import { prisma } from '../db/client';
+import { closeDatabase } from '../db/prisma';
+import { clearFSRSCache } from '../services/fsrs-optimizer.service';
+import { clearMilestoneCache } from '../services/milestone.service';
+import { clearExperimentCache } from '../services/threshold-experiment.service';
+import { clearAllCalculatorCaches } from '../services/pmi.service';
+import { clearCorpusPackCache } from '../services/corpus-sources/corpus-pack.service';
+import { clearCorpusSourceIds } from '../services/corpus-sources/corpus-store.service';
+import { setOfflineQueuePaused } from '../services/offline-queue.service';
+import { clearCorpusCache } from '../../core/dynamic-corpus';
+import { loadUserSettings } from './profile.ipc';
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+/**
+ * Default directory for user-initiated exports.
+ */
+function getExportDir(): string {
+  return path.join(app.getPath('userData'), 'exports');
+}
+
+/**
+ * Directory holding database snapshots.
+ */
+function getBackupDir(): string {
+  return path.join(app.getPath('userData'), 'backups', 'database');
+}
+
+/**
+ * Prisma directory (schema and migrations); shipped as a resource when packaged.
+ */
+function getPrismaDir(): string {
+  return app.isPackaged
+    ? path.join(process.resourcesPath, 'prisma')
+    : path.join(app.getAppPath(), 'prisma');
+}
+
+/**
+ * Absolute path of the SQLite database Prisma connects to.
+ */
+function getDatabasePath(): string {
+  return resolveDatabasePath(process.env.DATABASE_URL ?? 'file:./dev.db', getPrismaDir());
+}
+
+/**
+ * Filesystem-safe timestamp for archive file names.
+ */
+function fileTimestamp(date: Date = new Date()): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+// =============================================================================
+// Dialogs
+// =============================================================================
+
+const ARCHIVE_FILTERS = [{ name: 'LOGOS archive', extensions: ['json'] }];
+
+/**
+ * Ask where to write an export. Returns null when the dialog is cancelled.
+ */
+async function chooseExportPath(event: IpcMainInvokeEvent): Promise<string | null> {
+  const options = {
+    defaultPath: path.join(getExportDir(), `logos-export-${fileTimestamp()}.json`),
+    filters: ARCHIVE_FILTERS,
+  };
+  const window = BrowserWindow.fromWebContents(event.sender);
+  const result = window
+    ? await dialog.showSaveDialog(window, options)
+    : await dialog.showSaveDialog(options);
+  return result.canceled || !result.filePath ? null : result.filePath;
+}
+
+/**
+ * Ask for an archive to import. Returns null when the dialog is cancelled.
+ */
+async function chooseArchiveToImport(event: IpcMainInvokeEvent): Promise<string | null> {
+  const options = {
+    defaultPath: getExportDir(),
+    filters: ARCHIVE_FILTERS,
+    properties: ['openFile' as const],
+  };
+  const window = BrowserWindow.fromWebContents(event.sender);
+  const result = window
+    ? await dialog.showOpenDialog(window, options)
+    : await dialog.showOpenDialog(options);
+  return result.canceled ? null : result.filePaths[0] ?? null;
+}
+
+// =============================================================================
+// Cached State
+// =============================================================================
+
+/**
+ * Reload state the main process caches from the database, after its
+ * contents were replaced or merged from outside the usual services.
+ */
+async function reloadCachedState(): Promise<void> {
+  await loadUserSettings();
+  clearFSRSCache();
+  clearMilestoneCache();
+  clearExperimentCache();
+  clearAllCalculatorCaches();
+  // Corpus responses, source rows and the packs glossary lookups read
+  clearCorpusCache();
+  clearCorpusSourceIds();
+  clearCorpusPackCache();
+}
+
+// =============================================================================
+// Handler Registration
+// =============================================================================
+
+/**
+ * Register all system-related IPC handlers.
+ */
+export function registerSystemHandlers(): void {
+  // Export data to a versioned archive
+  registerHandler(CHANNELS.SYSTEM_EXPORT_DATA, async (event, request) => {
+    const validation = validateInput(SystemExportDataSchema, request ?? {});
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    const { includeHistory, goalIds } = validation.data;
+
+    try {
+      const target = await chooseExportPath(event);
+      if (!target) {
+        return success(null);
+      }
+
+      const result = await exportArchiveToFile(target, { includeHistory, goalIds });
+      return success(result);
+    } catch (err) {
+      console.error('Failed to export data:', err);
+      return error(err instanceof Error ? err.message : 'Failed to export data');
+    }
+  });
+
+  // Import data from an archive
+  registerHandler(CHANNELS.SYSTEM_IMPORT_DATA, async (event, request) => {
+    const validation = validateInput(SystemImportDataSchema, request ?? {});
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    const { merge } = validation.data;
+
+    try {
+      const filePath = await chooseArchiveToImport(event);
+      if (!filePath) {
+        return success(null);
+      }
+
+      const result = await importArchiveFromFile(filePath, { merge });
+      await reloadCachedState();
+      return success(result);
+    } catch (err) {
+      console.error('Failed to import data:', err);
+      return error(err instanceof Error ? err.message : 'Failed to import data');
+    }
+  });
+
+  // Snapshot the database now
+  registerHandler(CHANNELS.SYSTEM_BACKUP, async () => {
+    try {
+      const backup = await createDatabaseBackup({
+        dbPath: getDatabasePath(),
+        backupDir: getBackupDir(),
+        reason: 'manual',
+      });
+      return success({
+        path: backup.path,
+        timestamp: backup.createdAt.toISOString(),
+        id: backup.id,
+        checksum: backup.checksum,
+        size: backup.size,
+      });
+    } catch (err) {
+      console.error('Failed to create backup:', err);
+      return error(err instanceof Error ? err.message : 'Failed to create backup');
+    }
+  });
+
+  // List snapshots, newest first, with checksum status
+  registerHandler(CHANNELS.SYSTEM_LIST_BACKUPS, async () => {
+    try {
+      return success(listDatabaseBackups(getBackupDir()));
+    } catch (err) {
+      console.error('Failed to list backups:', err);
+      return error('Failed to list backups');
+    }
+  });
+
+  // Replace the database with a verified snapshot; runs alone, so other
+  // requests are refused until the new file is in place
+  registerHandler(CHANNELS.SYSTEM_RESTORE_BACKUP, async (_event, request) => {
+    const validation = validateInput(SystemRestoreBackupSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    // No background writes while the database file is swapped
+    await stopBackupScheduler();
+    setOfflineQueuePaused(true);
+    try {
+      // Both clients reconnect on their next query
+      await prisma.$disconnect();
+      await closeDatabase();
+
+      const result = await restoreDatabaseBackup({
+        dbPath: getDatabasePath(),
+        backupDir: getBackupDir(),
+        backupId: validation.data.backupId,
+      });
+
+      await reloadCachedState();
+      return success(result);
+    } catch (err) {
+      console.error('Failed to restore backup:', err);
+      return error(err instanceof Error ? err.message : 'Failed to restore backup');
+    } finally {
+      setOfflineQueuePaused(false);
+      startBackupScheduler({ dbPath: getDatabasePath(), backupDir: getBackupDir() });
+    }
+  }, { exclusive: true });
+
+  startBackupScheduler({ dbPath: getDatabasePath(), backupDir: getBackupDir() });
+}
+
+/**
+ * Snapshot the database when shipped migrations are not applied yet.
+ * Call before connecting Prisma; failures are logged, never fatal.
+ */
+export async function backupBeforeMigrations(): Promise<void> {
+  try {
+    const backup = await backupBeforePendingMigrations({
+      dbPath: getDatabasePath(),
+      backupDir: getBackupDir(),
+      migrationsDir: path.join(getPrismaDir(), 'migrations'),
+    });
+    if (backup) {
+      console.log(`[Backup] Saved ${backup.id} before pending migrations`);
+    }
+  } catch (err) {
+    console.error('[Backup] Pre-migration backup failed:', err);
+  }
+}
+
+/**
+ * Unregister all system-related IPC handlers.
+ */
+export function unregisterSystemHandlers(): void {
+  unregisterHandler(CHANNELS.SYSTEM_EXPORT_DATA);
+  unregisterHandler(CHANNELS.SYSTEM_IMPORT_DATA);
+  unregisterHandler(CHANNELS.SYSTEM_BACKUP);
+  unregisterHandler(CHANNELS.SYSTEM_LIST_BACKUPS);
+  unregisterHandler(CHANNELS.SYSTEM_RESTORE_BACKUP);
+  void stopBackupScheduler();
+}
@@ -0,0 +1,53 @@
+/**
+ * User Graph IPC Handlers
+ *
+ * Per-object exposure reports from the encounter ledger: how often an
+ * object was recognised vs produced, in which modalities, and where that
+ * practice is lopsided. Encounters are recorded by session:submit-response;
+ * see user-object-graph.service.ts.
+ */
+
+import { registerHandler, unregisterHandler, success, error, CHANNELS } from './contracts';
+import { prisma } from '../db/client';
+import { validateInput, GraphExposureSchema } from '../../shared/schemas/ipc-schemas';
+import { getObjectExposure } from '../services/user-object-graph.service';
+
+// =============================================================================
+// Handler Registration
+// =============================================================================
+
+/**
+ * Register all user graph IPC handlers.
+ */
+export function registerUserGraphHandlers(): void {
+  // Encounter counts, balance and imbalance findings for one object
+  registerHandler(CHANNELS.GRAPH_GET_EXPOSURE, async (_event, request) => {
+    const validation = validateInput(GraphExposureSchema, request);
+    if (!validation.success) {
+      return error(validation.error);
+    }
+
+    try {
+      const user = await prisma.user.findFirst();
+      if (!user) {
+        return error('No user found');
+      }
+
+      const exposure = await getObjectExposure(user.id, validation.data.objectId);
+      if (!exposure) {
+        return error('Object not found');
+      }
+      return success(exposure);
+    } catch (err) {
+      console.error('Failed to get object exposure:', err);
+      return error(err instanceof Error ? err.message : 'Failed to get object exposure');
+    }
+  });
+}
+
+/**
+ * Unregister all user graph IPC handlers.
+ */
+export function unregisterUserGraphHandlers(): void {
+  unregisterHandler(CHANNELS.GRAPH_GET_EXPOSURE);
+}
@@ -9,17 +9,44 @@
  *
  * Handler Channels (from IPC handlers):
  * - session:start, session:end, session:get-state, session:get-next-task,
- *   session:get-summary, session:submit-response, session:list
- * - analytics:get-progress, analytics:get-bottlenecks, analytics:get-history
- * - goal:create, goal:get, goal:list, goal:update, goal:delete
+ *   session:get-summary, session:submit-response, session:list,
+ *   session:speech-status, session:score-speech, session:generate-task
+ * - analytics:get-progress, analytics:get-bottlenecks, analytics:get-history,
+ *   analytics:get-distractors, analytics:get-intent-calibration
+ * - goal:create, goal:get, goal:list, goal:update, goal:delete,
+ *   goal:get-grammar-roadmap
  * - object:create, object:get, object:list, object:update, object:delete,
  *   object:import, object:search, object:get-collocations, object:get-mastery
  * - queue:get, queue:refresh
  * - claude:generateContent, claude:analyzeError, claude:getHint, claude:getBottlenecks
+ * - system:export-data, system:import-data, system:backup, system:list-backups,
+ *   system:restore-backup
+ * - milestone:get-history, milestone:acknowledge
+ * - experiment:list, experiment:create, experiment:end, experiment:get-results,
+ *   experiment:get-assignment
+ * - planner:get-plan, planner:create-plan, planner:get-session-queue
+ * - explorer:search, explorer:get-object, explorer:apply-action, explorer:edit-object
+ * - network:get-neighborhood, network:get-cluster-queue
+ * - automatization:get-profile, automatization:get-speed-round
+ * - graph:get-exposure
+ * - propagation:get-log, propagation:set-enabled
+ * - corpus:list-packs, corpus:install-pack, corpus:remove-pack
+ * - glossary:get, glossary:add-sense, glossary:update-sense, glossary:delete-sense,
+ *   glossary:make-primary, glossary:import, glossary:generate, glossary:fill-goal
+ *
+ * Event Channels (main -> renderer):
+ * - event:notification:milestone-achieved
  */
 
 import { contextBridge, ipcRenderer } from 'electron';
-import type { LogosAPI, GoalSpec, LearningQueueItem, User, UserSettings } from '../shared/types';
+import type {
+  LogosAPI,
+  GoalSpec,
+  LearningQueueItem,
+  User,
+  UserSettings,
+  MilestoneRecord,
+} from '../shared/types';
 
 /**
  * Type-safe IPC invoke wrapper.
@@ -50,6 +77,9 @@ const logosAPI: LogosAPI = {
     },
     update: (data) => invoke('goal:update', { id: data.id, updates: data }),
     delete: (id, _hard) => invoke('goal:delete', { id }),
+    // goal:get-grammar-roadmap expects { goalId, targetLevel? }
+    getGrammarRoadmap: (goalId, targetLevel) =>
+      invoke('goal:get-grammar-roadmap', { goalId, targetLevel }),
   },
 
   // ============================================================================
@@ -63,12 +93,15 @@ const logosAPI: LogosAPI = {
     update: (data) => invoke('object:update', data),
     delete: (id) => invoke('object:delete', { id }),
     import: (goalId, objects) => invoke('object:import', { goalId, objects }),
+    importDeck: (goalId, filePath, options) =>
+      invoke('object:import', { goalId, filePath, deck: options }),
   },
 
   // ============================================================================
   // Session Management
   // Handler channels: session:start, session:end, session:get-state,
-  // session:get-next-task, session:get-summary, session:submit-response, session:list
+  // session:get-next-task, session:get-summary, session:submit-response, session:list,
+  // session:speech-status, session:score-speech, session:generate-task
   // ============================================================================
 
   session: {
@@ -97,20 +130,30 @@ const logosAPI: LogosAPI = {
       return invoke('session:get-state', { sessionId: activeSession.id });
     },
 
-    // session:submit-response expects { sessionId, objectId, correct, cueLevel, responseTimeMs, ... }
+    // session:submit-response expects { sessionId, objectId, taskId, cueLevel, responseTimeMs, ... }
     recordResponse: (data) =>
       invoke('session:submit-response', {
         sessionId: data.sessionId,
         objectId: data.objectId,
-        correct: data.correct,
+        taskId: data.taskId,
         cueLevel: data.cueLevel,
         responseTimeMs: data.responseTimeMs,
-        errorComponents: data.errorComponents,
+        taskType: data.taskType,
+        responseContent: data.responseContent,
       }),
 
     // session:list expects { goalId, limit?, offset? }
     getHistory: (goalId, options) =>
       invoke('session:list', { goalId, ...options }),
+
+    // session:score-speech expects { sessionId, objectId, audio, mimeType, responseTimeMs }
+    scoreSpeech: (data) => invoke('session:score-speech', data),
+
+    // session:speech-status - whether a speech recognizer is configured
+    getSpeechStatus: () => invoke('session:speech-status'),
+
+    // session:generate-task expects { sessionId, objectId }
+    generateTask: (sessionId, objectId) => invoke('session:generate-task', { sessionId, objectId }),
   },
 
   // ============================================================================
@@ -184,7 +227,8 @@ const logosAPI: LogosAPI = {
 
   // ============================================================================
   // Analytics
-  // Handler channels: analytics:get-progress, analytics:get-bottlenecks, analytics:get-history
+  // Handler channels: analytics:get-progress, analytics:get-bottlenecks, analytics:get-history,
+  // analytics:get-distractors, analytics:get-intent-calibration
   // ============================================================================
 
   analytics: {
@@ -199,6 +243,14 @@ const logosAPI: LogosAPI = {
     // analytics:get-history expects { goalId, days? }
     getSessionStats: (goalId, days) =>
       invoke('analytics:get-history', { goalId, days }),
+
+    // analytics:get-distractors expects { goalId, limit? }
+    getDistractors: (goalId, limit) =>
+      invoke('analytics:get-distractors', { goalId, limit }),
+
+    // analytics:get-intent-calibration expects { goalId }
+    getIntentCalibration: (goalId) =>
+      invoke('analytics:get-intent-calibration', { goalId }),
   },
 
   // ============================================================================
@@ -233,9 +285,20 @@ const logosAPI: LogosAPI = {
         soundEnabled: true,
         theme: 'system' as const,
         targetRetention: 0.9,
+        targetSuccessRate: 0.8,
+        aiProviders: {
+          content: { kind: 'anthropic' as const },
+          errorAnalysis: { kind: 'anthropic' as const },
+          hints: { kind: 'anthropic' as const },
+        },
       })),
+    // Validation errors reach the Settings page, so no fallback here
     updateSettings: (settings): Promise<UserSettings> =>
-      invoke<UserSettings>('profile:updateSettings', settings).catch(() => settings as UserSettings),
+      invoke<UserSettings>('profile:updateSettings', settings),
+    getFSRSParameters: () => invoke('profile:getFSRSParameters', {}),
+    optimizeFSRS: () => invoke('profile:optimizeFSRS', {}),
+    resetFSRS: () => invoke('profile:resetFSRS', {}),
+    previewReviewLoad: (targetRetention) => invoke('profile:previewReviewLoad', { targetRetention }),
   },
 
   // ============================================================================
@@ -264,7 +327,8 @@ const logosAPI: LogosAPI = {
   // ============================================================================
   // Corpus Sources
   // Handler channels: goal:list-sources, goal:get-recommended-sources,
-  // goal:populate-vocabulary, goal:get-population-status, goal:clear-vocabulary, goal:upload-corpus
+  // goal:populate-vocabulary, goal:get-population-status, goal:clear-vocabulary, goal:upload-corpus,
+  // corpus:list-packs, corpus:install-pack, corpus:remove-pack
   // ============================================================================
 
   corpus: {
@@ -299,6 +363,15 @@ const logosAPI: LogosAPI = {
       goalId: string,
       documents: Array<{ filename: string; content: string; mimeType: string }>
     ) => invoke('goal:upload-corpus', { goalId, documents }),
+
+    // corpus:list-packs - bundled and installed offline corpus packs
+    listPacks: () => invoke('corpus:list-packs', {}),
+
+    // corpus:install-pack - validate and install a pack file
+    installPack: (filePath: string) => invoke('corpus:install-pack', { filePath }),
+
+    // corpus:remove-pack - remove a user-installed pack
+    removePack: (packId: string) => invoke('corpus:remove-pack', { packId }),
   },
 
   // ============================================================================
@@ -337,7 +410,8 @@ const logosAPI: LogosAPI = {
 
   // ============================================================================
   // Onboarding
-  // Handler channels: onboarding:check-status, onboarding:complete, onboarding:skip
+  // Handler channels: onboarding:check-status, onboarding:complete, onboarding:skip,
+  // onboarding:placement-next, onboarding:placement-complete
   // ============================================================================
 
   onboarding: {
@@ -361,6 +435,194 @@ const logosAPI: LogosAPI = {
 
     // onboarding:get-user - get current user for resume/edit
     getUser: () => invoke('onboarding:get-user', {}),
+
+    // onboarding:placement-next - next adaptive placement item, or done
+    placementNext: (answers: Array<{ itemId: string; answer: string; responseTimeMs: number }>) =>
+      invoke('onboarding:placement-next', { answers }),
+
+    // onboarding:placement-complete - score the placement test and store theta
+    placementComplete: (
+      goalId: string,
+      answers: Array<{ itemId: string; answer: string; responseTimeMs: number }>
+    ) => invoke('onboarding:placement-complete', { goalId, answers }),
+  },
+
+  // ============================================================================
+  // System (Data Portability)
+  // Handler channels: system:export-data, system:import-data, system:backup,
+  // system:list-backups, system:restore-backup
+  // ============================================================================
+
+  system: {
+    // system:export-data - write a versioned archive of all learning data (save dialog)
+    exportData: (options) => invoke('system:export-data', options ?? {}),
+
+    // system:import-data - pick an archive (open dialog), then merge it or replace local data
+    importData: (merge?: boolean) => invoke('system:import-data', { merge }),
+
+    // system:backup - snapshot the database now
+    backup: () => invoke('system:backup', {}),
+
+    // system:list-backups - list database snapshots with checksum status
+    listBackups: () => invoke('system:list-backups', {}),
+
+    // system:restore-backup - replace the database with a verified snapshot
+    restoreBackup: (backupId: string) => invoke('system:restore-backup', { backupId }),
+  },
+
+  // ============================================================================
+  // Milestones
+  // ============================================================================
+
+  milestones: {
+    // milestone:get-history - stored milestone events, newest first
+    getHistory: (options) => invoke('milestone:get-history', options ?? {}),
+
+    // milestone:acknowledge - mark milestones as seen (all when ids omitted)
+    acknowledge: (ids?: string[]) => invoke('milestone:acknowledge', { ids }),
+
+    // event:notification:milestone-achieved - pushed after responses and session end
+    onAchieved: (callback) => {
+      const listener = (_event: Electron.IpcRendererEvent, payload: { milestones: MilestoneRecord[] }) =>
+        callback(payload.milestones);
+      ipcRenderer.on('event:notification:milestone-achieved', listener);
+      return () => {
+        ipcRenderer.removeListener('event:notification:milestone-achieved', listener);
+      };
+    },
+  },
+
+  // ============================================================================
+  // Threshold Experiments
+  // ============================================================================
+
+  experiments: {
+    // experiment:list - stage-threshold A/B experiments, newest first
+    list: (activeOnly?: boolean) => invoke('experiment:list', { activeOnly }),
+
+    // experiment:create - start an experiment; group proportions must sum to 1
+    create: (data) => invoke('experiment:create', data),
+
+    // experiment:end - stop an experiment, keeping its data
+    end: (experimentId: string) => invoke('experiment:end', { experimentId }),
+
+    // experiment:get-results - retention and time-to-mastery per group
+    getResults: (experimentId: string) => invoke('experiment:get-results', { experimentId }),
+
+    // experiment:get-assignment - threshold config applied to the current user
+    getAssignment: () => invoke('experiment:get-assignment', {}),
+  },
+
+  // ============================================================================
+  // Study Planner
+  // ============================================================================
+
+  planner: {
+    // planner:get-plan - this week's allocation across goals, null if not planned
+    getPlan: () => invoke('planner:get-plan', {}),
+
+    // planner:create-plan - allocate a weekly budget across all active goals
+    createPlan: (request) => invoke('planner:create-plan', request),
+
+    // planner:get-session-queue - objects from all goals, interleaved by the plan
+    getSessionQueue: (options) => invoke('planner:get-session-queue', options ?? {}),
+  },
+
+  // ============================================================================
+  // Word Explorer
+  // ============================================================================
+
+  explorer: {
+    // explorer:search - faceted search over a goal's objects
+    search: (request) => invoke('explorer:search', request),
+
+    // explorer:get-object - FSRS card, stage history, collocations and family
+    getObject: (objectId: string) => invoke('explorer:get-object', { objectId }),
+
+    // explorer:apply-action - suspend, bury or reset an object
+    applyAction: (objectId, action) => invoke('explorer:apply-action', { objectId, action }),
+
+    // explorer:edit-object - manual changes to content, difficulty or stage
+    editObject: (request) => invoke('explorer:edit-object', request),
+  },
+
+  // ============================================================================
+  // Word Network
+  // ============================================================================
+
+  network: {
+    // network:get-neighborhood - graph of collocations and related words around an object
+    getNeighborhood: (objectId: string, options) =>
+      invoke('network:get-neighborhood', { objectId, ...options }),
+
+    // network:get-cluster-queue - session queue over an object's neighborhood
+    getClusterQueue: (objectId: string, sessionSize?: number) =>
+      invoke('network:get-cluster-queue', { objectId, sessionSize }),
+  },
+
+  // ============================================================================
+  // Automatization
+  // ============================================================================
+
+  automatization: {
+    // automatization:get-profile - response-time profile, fluency and suggestions
+    getProfile: (objectId: string) => invoke('automatization:get-profile', { objectId }),
+
+    // automatization:get-speed-round - timed drill with a shrinking deadline
+    getSpeedRound: (goalId: string, size?: number) =>
+      invoke('automatization:get-speed-round', { goalId, size }),
+  },
+
+  // ============================================================================
+  // User Graph
+  // ============================================================================
+
+  graph: {
+    // graph:get-exposure - recognise/produce and modality balance of an object
+    getExposure: (objectId: string) => invoke('graph:get-exposure', { objectId }),
+  },
+
+  // ============================================================================
+  // Mastery Propagation
+  // ============================================================================
+
+  propagation: {
+    // propagation:get-log - recent updates carried over to related words
+    getLog: (goalId: string, limit?: number) => invoke('propagation:get-log', { goalId, limit }),
+
+    // propagation:set-enabled - switch propagation on or off for a goal
+    setEnabled: (goalId: string, enabled: boolean) =>
+      invoke('propagation:set-enabled', { goalId, enabled }),
+  },
+
+  // ============================================================================
+  // Glossary
+  // ============================================================================
+
+  glossary: {
+    // glossary:get - senses of an object, primary sense first
+    get: (objectId: string) => invoke('glossary:get', { objectId }),
+
+    // glossary:add-sense - add a hand-written sense
+    addSense: (objectId: string, sense) => invoke('glossary:add-sense', { objectId, sense }),
+
+    // glossary:update-sense - edit a sense (it becomes the learner's own)
+    updateSense: (senseId: string, sense) => invoke('glossary:update-sense', { senseId, sense }),
+
+    // glossary:delete-sense - remove a sense
+    deleteSense: (senseId: string) => invoke('glossary:delete-sense', { senseId }),
+
+    // glossary:make-primary - show this sense in hints and feedback
+    makePrimary: (senseId: string) => invoke('glossary:make-primary', { senseId }),
+
+    // glossary:import - look the object up in the installed dictionaries
+    importFromDictionaries: (objectId: string) => invoke('glossary:import', { objectId }),
+
+    // glossary:generate - generate senses with the AI content provider
+    generate: (objectId: string) => invoke('glossary:generate', { objectId }),
+
+    // glossary:fill-goal - fill the glossary of a goal's words that have none
+    fillGoal: (goalId: string, options) => invoke('glossary:fill-goal', { goalId, ...options }),
   },
 
   // ============================================================================
@@ -0,0 +1,142 @@
+// @vitest-environment node
+/**
+ * Automatization Service Tests
+ *
+ * Tests for response-time profiling and speed rounds:
+ * - Profiles computed from the stored response history
+ * - Profile fields written back to the mastery state
+ * - Speed round selection and starting deadline
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+import { NOW } from './helpers/fixtures';
+
+import {
+  refreshAutomatizationProfile,
+  getAutomatizationDetail,
+  buildSpeedRound,
+  AUTOMATIZATION_CONFIG,
+} from '../automatization.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+/** Newest first, as the service queries them */
+function history(times: number[], correct = true) {
+  return times
+    .map((responseTimeMs, i) => ({
+      createdAt: new Date(NOW.getTime() - (times.length - i) * 60_000),
+      correct,
+      responseTimeMs,
+      cueLevel: 0,
+      taskType: 'recall_free',
+      taskFormat: 'fill_blank',
+      modality: 'visual',
+    }))
+    .reverse();
+}
+
+function state(id: string, stage: number, level: number, meanResponseTimeMs: number | null) {
+  return {
+    stage,
+    automatizationLevel: level,
+    meanResponseTimeMs,
+    object: { id, content: id, type: 'LEX' },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('refreshAutomatizationProfile', () => {
+  it('rates fast, steady answers above slow, erratic ones', async () => {
+    mockPrisma.response.findMany.mockResolvedValueOnce(history(Array(20).fill(650)));
+    const fast = await refreshAutomatizationProfile('o-fast', NOW);
+
+    mockPrisma.response.findMany.mockResolvedValueOnce(history([2500, 9000, 4000, 12000, 3000, 8000, 5000, 11000, 2800, 7000]));
+    const slow = await refreshAutomatizationProfile('o-slow', NOW);
+
+    expect(fast.level).toBeGreaterThan(0.5);
+    expect(fast.level).toBeGreaterThan(slow.level);
+    expect(fast.meanResponseTimeMs).toBeCloseTo(650);
+    expect(['declarative', 'procedural']).toContain(slow.category);
+  });
+
+  it('stores the profile on the mastery state', async () => {
+    mockPrisma.response.findMany.mockResolvedValue(history(Array(10).fill(900)));
+
+    const summary = await refreshAutomatizationProfile('o-1', NOW);
+
+    expect(mockPrisma.response.findMany.mock.calls[0][0]).toMatchObject({
+      where: { objectId: 'o-1' },
+      orderBy: { createdAt: 'desc' },
+      take: AUTOMATIZATION_CONFIG.historySize,
+    });
+    expect(mockPrisma.masteryState.updateMany).toHaveBeenCalledWith({
+      where: { objectId: 'o-1' },
+      data: {
+        automatizationLevel: summary.level,
+        automatizationCategory: summary.category,
+        meanResponseTimeMs: 900,
+        responseTimeCv: 0,
+        automatizationUpdatedAt: NOW,
+      },
+    });
+  });
+
+  it('leaves timing empty without correct answers', async () => {
+    mockPrisma.response.findMany.mockResolvedValue(history([3000, 4000], false));
+
+    const summary = await refreshAutomatizationProfile('o-1', NOW);
+
+    expect(summary).toMatchObject({ level: 0, meanResponseTimeMs: null, responseTimeCv: null });
+  });
+});
+
+describe('getAutomatizationDetail', () => {
+  it('adds fluency metrics and practice suggestions', async () => {
+    mockPrisma.response.findMany.mockResolvedValue(history(Array(12).fill(2000)));
+
+    const detail = await getAutomatizationDetail('o-1');
+
+    expect(detail.nObservations).toBe(12);
+    expect(detail.fluency.meanResponseTime).toBe(2000);
+    expect(detail.suggestions.length).toBeGreaterThan(0);
+  });
+});
+
+describe('buildSpeedRound', () => {
+  it('drills known, least automatized objects first', async () => {
+    mockPrisma.masteryState.findMany.mockResolvedValue([state('a', 2, 0.1, 2000), state('b', 3, 0.4, null)]);
+
+    const round = await buildSpeedRound('goal-1', 10, NOW);
+    const query = mockPrisma.masteryState.findMany.mock.calls[0][0];
+
+    expect(query.where.stage).toEqual({ gte: AUTOMATIZATION_CONFIG.speedRoundMinStage });
+    expect(query.where.object).toMatchObject({ goalId: 'goal-1', suspended: false });
+    expect(query.orderBy[0]).toEqual({ automatizationLevel: 'asc' });
+    expect(round.items.map((i) => [i.objectId, i.masteryStage])).toEqual([
+      ['a', 2],
+      ['b', 3],
+    ]);
+  });
+
+  it('starts the deadline from the items’ usual speed', async () => {
+    mockPrisma.masteryState.findMany.mockResolvedValue([state('a', 2, 0.1, 2000), state('b', 2, 0.2, 3000)]);
+    expect((await buildSpeedRound('goal-1', 10, NOW)).deadline.startMs).toBe(3750);
+
+    mockPrisma.masteryState.findMany.mockResolvedValue([state('a', 2, 0, null)]);
+    expect((await buildSpeedRound('goal-1', 10, NOW)).deadline.startMs).toBe(
+      AUTOMATIZATION_CONFIG.deadline.startMs
+    );
+  });
+});
@@ -0,0 +1,209 @@
+// @vitest-environment node
+/**
+ * Context Bank Service Tests
+ *
+ * Tests for the authentic sentence bank built from uploads:
+ * - Sentence segmentation with offsets, pages and cue timing
+ * - Indexing sentences by the goal's language objects
+ * - Ranking against the learner's theta and rotating served sentences
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+import { NOW } from './helpers/fixtures';
+
+import {
+  segmentSentences,
+  storeContextSentences,
+  rankContextSentences,
+  selectContextSentence,
+  toCloze,
+  CONTEXT_BANK_CONFIG,
+} from '../context-bank.service';
+import type { IngestedDocument } from '../corpus-sources/document-ingestion.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const PAGE_ONE =
+  'Infection Control Policy Hand hygiene must be performed before every patient contact. ' +
+  'Staff should use alcohol rub, e.g. when hands are not visibly soiled. Wash hands.';
+const PAGE_TWO = 'Dr. Patel reviews the infection control audit with the ward manager every month.';
+
+function policyDocument(): IngestedDocument {
+  const text = `${PAGE_ONE}\n\n${PAGE_TWO}`;
+  return {
+    filename: 'policy.pdf',
+    format: 'pdf',
+    text,
+    segments: [
+      { start: 0, end: PAGE_ONE.length, page: 1 },
+      { start: PAGE_ONE.length + 2, end: text.length, page: 2 },
+    ],
+    report: {
+      filename: 'policy.pdf',
+      format: 'pdf',
+      quality: 'good',
+      characters: text.length,
+      words: 40,
+      segments: 2,
+      wordLikeRatio: 1,
+      used: true,
+      warnings: [],
+    },
+  };
+}
+
+function link(sentenceId: string, difficulty: number, servedCount = 0, wordCount = 10) {
+  return {
+    sentenceId,
+    objectId: 'o-hygiene',
+    matchStart: 5,
+    matchEnd: 12,
+    servedCount,
+    lastServedAt: null,
+    sentence: {
+      id: sentenceId,
+      text: 'Hand hygiene must be performed before every patient contact.',
+      difficulty,
+      wordCount,
+      cefrLevel: 'B1',
+      page: 3,
+      startMs: null,
+      document: { filename: 'policy.pdf' },
+    },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('segmentSentences', () => {
+  it('splits segments into sentences with offsets into the document text', () => {
+    const doc = policyDocument();
+    const sentences = segmentSentences(doc.text, doc.segments);
+
+    expect(sentences.map((s) => s.text)).toEqual([
+      'Infection Control Policy Hand hygiene must be performed before every patient contact.',
+      'Staff should use alcohol rub, e.g. when hands are not visibly soiled.',
+      'Dr. Patel reviews the infection control audit with the ward manager every month.',
+    ]);
+    for (const sentence of sentences) {
+      expect(doc.text.slice(sentence.start, sentence.end)).toBe(sentence.text);
+    }
+    expect(sentences.map((s) => s.page)).toEqual([1, 1, 2]);
+  });
+
+  it('keeps subtitle cues without final punctuation', () => {
+    const text = 'we need to check his blood pressure again';
+    const sentences = segmentSentences(text, [
+      { start: 0, end: text.length, startMs: 61000, endMs: 64000 },
+    ]);
+
+    expect(sentences).toEqual([{ text, start: 0, end: text.length, startMs: 61000, endMs: 64000 }]);
+  });
+});
+
+describe('storeContextSentences', () => {
+  it('stores rated sentences and indexes them by the objects they contain', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue([
+      { id: 'o-hygiene', content: 'hygiene' },
+      { id: 'o-control', content: 'infection control' },
+      { id: 'o-suffix', content: '-tion' },
+    ]);
+    mockPrisma.sourceDocument.create.mockImplementation(
+      ({ data }: { data: { sentences: { create: Array<{ text: string; start: number }> } } }) =>
+        Promise.resolve({
+          id: 'doc-1',
+          sentences: data.sentences.create.map((s, i) => ({
+            id: `s-${i}`,
+            start: s.start,
+            text: s.text,
+          })),
+        })
+    );
+
+    const summary = await storeContextSentences('goal-1', [policyDocument()]);
+
+    expect(summary).toEqual({ documents: 1, sentences: 3, links: 3 });
+    expect(mockPrisma.sourceDocument.deleteMany).toHaveBeenCalledWith({
+      where: { goalId: 'goal-1', filename: 'policy.pdf' },
+    });
+
+    const created = mockPrisma.sourceDocument.create.mock.calls[0][0].data;
+    expect(created).toMatchObject({ goalId: 'goal-1', format: 'pdf', quality: 'good' });
+    expect(created.sentences.create[2]).toMatchObject({ page: 2, wordCount: 13 });
+    expect(CONTEXT_BANK_CONFIG.cefrTheta[created.sentences.create[2].cefrLevel as 'B1']).toBe(
+      created.sentences.create[2].difficulty
+    );
+
+    expect(mockPrisma.contextSentenceObject.createMany).toHaveBeenCalledWith({
+      data: [
+        { sentenceId: 's-0', objectId: 'o-hygiene', matchStart: 30, matchEnd: 37 },
+        { sentenceId: 's-0', objectId: 'o-control', matchStart: 0, matchEnd: 17 },
+        { sentenceId: 's-2', objectId: 'o-control', matchStart: 22, matchEnd: 39 },
+      ],
+    });
+  });
+});
+
+describe('ranking and selection', () => {
+  it('prefers sentences just below the learner and rotates served ones', () => {
+    const candidates = [
+      { sentenceId: 'hard', difficulty: 2, wordCount: 20, servedCount: 0 },
+      { sentenceId: 'fit', difficulty: 0, wordCount: 12, servedCount: 0 },
+      { sentenceId: 'easy', difficulty: -1, wordCount: 8, servedCount: 0 },
+    ];
+
+    expect(rankContextSentences(candidates, 0.5).map((c) => c.sentenceId)).toEqual([
+      'fit',
+      'easy',
+      'hard',
+    ]);
+
+    candidates[1].servedCount = 4;
+    expect(rankContextSentences(candidates, 0.5)[0].sentenceId).toBe('easy');
+  });
+
+  it('serves the best sentence for the learner and marks it', async () => {
+    mockPrisma.contextSentenceObject.findMany.mockResolvedValue([
+      link('s-hard', 2),
+      link('s-fit', 1),
+    ]);
+    mockPrisma.languageObject.findUnique.mockResolvedValue({
+      goal: { user: { thetaSyntactic: 1.4 } },
+    });
+
+    const match = await selectContextSentence('o-hygiene', NOW);
+
+    expect(match).toMatchObject({
+      sentenceId: 's-fit',
+      filename: 'policy.pdf',
+      page: 3,
+      cefrLevel: 'B1',
+    });
+    expect(mockPrisma.contextSentenceObject.update).toHaveBeenCalledWith({
+      where: { sentenceId_objectId: { sentenceId: 's-fit', objectId: 'o-hygiene' } },
+      data: { servedCount: { increment: 1 }, lastServedAt: NOW },
+    });
+    expect(toCloze(match!)).toEqual({
+      context: 'Hand ________ must be performed before every patient contact.',
+      answer: 'hygiene',
+    });
+  });
+
+  it('returns null when no upload contains the object', async () => {
+    mockPrisma.contextSentenceObject.findMany.mockResolvedValue([]);
+
+    expect(await selectContextSentence('o-other', NOW)).toBeNull();
+    expect(mockPrisma.languageObject.findUnique).not.toHaveBeenCalled();
+  });
+});
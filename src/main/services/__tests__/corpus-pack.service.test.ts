@@ -0,0 +1,278 @@
+// @vitest-environment node
+/**
+ * Corpus Pack Service Tests
+ *
+ * Tests for offline frequency lists and dictionaries:
+ * - Parsing JSON and TSV packs with tag normalization
+ * - Installing, replacing and removing packs
+ * - Picking vocabulary for a goal domain
+ * - Populating a goal from packs with no network or AI provider
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+
+vi.mock('../pmi.service', () => ({
+  updateIRTDifficulties: vi.fn(),
+  updateRelationalDensities: vi.fn(),
+  storeCollocations: vi.fn().mockResolvedValue(0),
+  clearCalculatorCache: vi.fn(),
+}));
+
+vi.mock('../claude.service', () => ({
+  getClaudeService: vi.fn(() => {
+    throw new Error('No AI provider configured');
+  }),
+}));
+
+import {
+  parseCorpusPack,
+  configureCorpusPacks,
+  listCorpusPacks,
+  installCorpusPack,
+  removeCorpusPack,
+  extractVocabularyFromPacks,
+  rankToFrequency,
+  type CorpusPack,
+} from '../corpus-sources/corpus-pack.service';
+import { populateVocabularyForGoal } from '../corpus-sources/corpus-pipeline.service';
+import { getClaudeService } from '../claude.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const BUNDLED_DIR = path.resolve(__dirname, '../../../../data/corpus-packs');
+
+function jsonPack(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    format: 'logos-corpus-pack',
+    version: 1,
+    id: 'nursing-terms',
+    name: 'Nursing Terms',
+    language: 'en',
+    entries: [
+      { word: 'the', pos: 'at', rank: 1 },
+      { word: 'patients', lemma: 'patient', pos: 'NNS', rank: 400, domains: ['medical'] },
+      {
+        word: 'patient',
+        pos: 'n',
+        rank: 300,
+        domains: ['medical'],
+        definition: 'A person receiving medical care.',
+      },
+      { word: 'house', pos: 'n', rank: 250 },
+      { word: 'triage', pos: 'NN', rank: 9000, domains: ['medical'], ipa: 'ˈtriːɑːʒ' },
+      { word: 'she', pos: 'PRP', rank: 20 },
+    ],
+    ...overrides,
+  });
+}
+
+let tmp: string;
+let bundledDir: string;
+let userDir: string;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'logos-packs-'));
+  bundledDir = path.join(tmp, 'bundled');
+  userDir = path.join(tmp, 'user');
+  fs.mkdirSync(bundledDir);
+});
+
+afterEach(() => {
+  configureCorpusPacks(null);
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('parseCorpusPack', () => {
+  it('reads JSON packs and normalizes tags and lemmas', () => {
+    const pack = parseCorpusPack(jsonPack());
+
+    expect(pack).toMatchObject({ id: 'nursing-terms', sources: [], domains: ['*'] });
+    expect(pack.entries.map((e) => [e.lemma, e.pos])).toEqual([
+      ['the', 'determiner'],
+      ['patient', 'noun'],
+      ['patient', 'noun'],
+      ['house', 'noun'],
+      ['triage', 'noun'],
+      ['she', 'pronoun'],
+    ]);
+  });
+
+  it('reads TSV packs with the manifest in comment lines', () => {
+    const pack = parseCorpusPack(
+      [
+        '# id: coca-sample',
+        '# name: COCA sample',
+        '# language: en',
+        '# sources: coca, bnc',
+        'rank\tword\tlemma\tpos\tdefinition',
+        '1\tthe\tthe\ta',
+        '88\tused\tuse\tv\tTo do something with an object.',
+        '\tclinical\t\tj',
+      ].join('\n')
+    );
+
+    expect(pack.sources).toEqual(['coca', 'bnc']);
+    expect(pack.entries).toEqual([
+      { word: 'the', lemma: 'the', pos: 'determiner', rank: 1 },
+      {
+        word: 'used',
+        lemma: 'use',
+        pos: 'verb',
+        rank: 88,
+        definition: 'To do something with an object.',
+      },
+      { word: 'clinical', lemma: 'clinical', pos: 'adjective', rank: 3 },
+    ]);
+  });
+
+  it('reads translation and example columns of TSV packs', () => {
+    const pack = parseCorpusPack(
+      [
+        '# id: nursing-es',
+        '# name: Nursing Spanish',
+        '# language: en',
+        'word\tpos\ttranslation_es\ttranslation_KO\texample',
+        'chart\tn\thistoria clínica\t차트\tCheck the chart first.',
+        'ward\tn\tsala',
+      ].join('\n')
+    );
+
+    expect(pack.entries.map((e) => [e.word, e.translations, e.examples])).toEqual([
+      ['chart', { es: 'historia clínica', ko: '차트' }, ['Check the chart first.']],
+      ['ward', { es: 'sala' }, undefined],
+    ]);
+  });
+
+  it('rejects files that are not valid packs', () => {
+    expect(() => parseCorpusPack(jsonPack({ format: 'anki' }))).toThrow(/at format/);
+    expect(() => parseCorpusPack(jsonPack({ id: '../escape' }))).toThrow(/Pack id/);
+    expect(() => parseCorpusPack(jsonPack({ version: 2 }))).toThrow(/newer than supported/);
+    expect(() => parseCorpusPack('word\tfrequency\nthe\t100')).toThrow(/word and pos/);
+  });
+
+  it('accepts the bundled pack', () => {
+    const text = fs.readFileSync(path.join(BUNDLED_DIR, 'english-core.json'), 'utf-8');
+    const pack = parseCorpusPack(text);
+
+    expect(pack.entries.length).toBeGreaterThan(200);
+    expect(pack.entries.every((e) => e.pos !== 'unknown' && e.definition && e.ipa)).toBe(true);
+  });
+});
+
+describe('pack store', () => {
+  it('installs packs over bundled ones and removes them again', async () => {
+    fs.writeFileSync(path.join(bundledDir, 'nursing-terms.json'), jsonPack());
+    configureCorpusPacks({ bundledDir, userDir });
+    expect(await listCorpusPacks()).toMatchObject([
+      {
+        id: 'nursing-terms',
+        bundled: true,
+        entryCount: 6,
+        definitions: 1,
+        pronunciations: 1,
+        translationLanguages: [],
+      },
+    ]);
+
+    const file = path.join(tmp, 'download.json');
+    fs.writeFileSync(file, jsonPack({ name: 'Nursing Terms 2', sources: ['celban-samples'] }));
+    const installed = await installCorpusPack(file);
+
+    expect(installed).toMatchObject({ id: 'nursing-terms', bundled: false });
+    expect(fs.existsSync(path.join(userDir, 'nursing-terms.json'))).toBe(true);
+    expect(await listCorpusPacks()).toMatchObject([
+      { name: 'Nursing Terms 2', sources: ['celban-samples'], bundled: false },
+    ]);
+
+    await removeCorpusPack('nursing-terms');
+    expect(await listCorpusPacks()).toMatchObject([{ name: 'Nursing Terms', bundled: true }]);
+    await expect(removeCorpusPack('nursing-terms')).rejects.toThrow(/cannot be removed/);
+  });
+
+  it('skips invalid files and refuses to install them', async () => {
+    fs.writeFileSync(path.join(bundledDir, 'broken.json'), '{"format":');
+    configureCorpusPacks({ bundledDir, userDir });
+
+    expect(await listCorpusPacks()).toEqual([]);
+    await expect(installCorpusPack(path.join(bundledDir, 'broken.json'))).rejects.toThrow(
+      /Invalid pack JSON/
+    );
+  });
+});
+
+describe('extractVocabularyFromPacks', () => {
+  it('keeps open-class lemmas and boosts the goal domain', () => {
+    const pack: CorpusPack = parseCorpusPack(jsonPack());
+
+    const general = extractVocabularyFromPacks([pack], 'general', 10, 'corpus-packs');
+    expect(general.items.map((i) => i.content)).toEqual(['house', 'patient', 'triage']);
+
+    const medical = extractVocabularyFromPacks([pack], 'medical', 2, 'corpus-packs');
+    expect(medical.items.map((i) => i.content)).toEqual(['patient', 'house']);
+    expect(medical.items[0]).toMatchObject({
+      frequency: rankToFrequency(300),
+      domainDistribution: { medical: 1 },
+      pos: 'noun',
+      definition: 'A person receiving medical care.',
+      sourceId: 'corpus-packs',
+    });
+  });
+});
+
+describe('offline population', () => {
+  it('populates a goal from the bundled pack without an AI provider', async () => {
+    configureCorpusPacks({ bundledDir: BUNDLED_DIR, userDir });
+    mockPrisma.goalSpec.findUnique.mockResolvedValue({
+      id: 'goal-1',
+      userId: 'user-1',
+      domain: 'medical',
+      modality: '["reading"]',
+      genre: 'clinical',
+      purpose: 'certification',
+      benchmark: 'CELBAN',
+    });
+    mockPrisma.languageObject.upsert.mockImplementation(({ create }: { create: { id: string } }) =>
+      Promise.resolve({ id: create.id })
+    );
+
+    const result = await populateVocabularyForGoal('goal-1', {
+      selectedSourceIds: ['corpus-packs', 'celban-samples', 'coca'],
+      targetVocabSize: 60,
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      sourcesUsed: ['corpus-packs', 'celban-samples', 'coca'],
+      errors: [],
+    });
+    expect(result.vocabularyCount).toBe(20);
+    expect(getClaudeService).not.toHaveBeenCalled();
+
+    const created = mockPrisma.languageObject.upsert.mock.calls.map((call) => call[0].create);
+    expect(created.slice(0, 4).map((c) => c.content)).toEqual([
+      'health',
+      'patient',
+      'care',
+      'doctor',
+    ]);
+    const patient = created.find((c) => c.content === 'patient');
+    expect(JSON.parse(patient.contentJson)).toMatchObject({
+      pos: 'noun',
+      definition: 'A person who is receiving medical care.',
+      ipa: 'ˈpeɪʃənt',
+    });
+  });
+});
@@ -0,0 +1,126 @@
+// @vitest-environment node
+/**
+ * Corpus Store Service Tests
+ *
+ * Tests for persisting dynamic corpus API responses:
+ * - Mirroring core sources as CorpusSource rows
+ * - Reading and writing CorpusCache entries with expiry
+ * - Logging queries in CorpusQuery
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+import { NOW } from './helpers/fixtures';
+
+import { prismaCorpusStore, connectDynamicCorpus } from '../corpus-sources/corpus-store.service';
+import type { CorpusSource, ExtractedItem } from '../../../core/dynamic-corpus';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const SOURCE: CorpusSource = {
+  id: 'simple_wikipedia',
+  name: 'Simple English Wikipedia',
+  type: 'api',
+  adapter: 'wikipedia',
+  baseUrl: 'https://simple.wikipedia.org/w/api.php',
+  domains: ['general', 'medical'],
+  languages: ['en'],
+  rateLimit: 60,
+  isAvailable: true,
+  requiresAuth: false,
+  priority: 6,
+};
+
+const ITEM: ExtractedItem = {
+  content: 'triage',
+  frequency: 0.4,
+  domainRelevance: 0.9,
+  domain: 'medical',
+  contexts: [],
+  collocations: [],
+  estimatedDifficulty: 0.6,
+  sourceId: 'simple_wikipedia',
+};
+
+const QUERY = { domain: 'medical', targetCount: 10, language: 'en', maxDifficulty: 0.8 };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  connectDynamicCorpus();
+  mockPrisma.corpusSource.upsert.mockResolvedValue({ id: 'row-1' });
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('prismaCorpusStore', () => {
+  it('stores items under the cache key for the mirrored source', async () => {
+    const expiresAt = new Date(NOW.getTime() + 60_000);
+    await prismaCorpusStore.putCached(SOURCE, 'key-1', QUERY, {
+      items: [ITEM],
+      totalAvailable: 4,
+      expiresAt,
+    });
+    await prismaCorpusStore.putCached(SOURCE, 'key-2', QUERY, {
+      items: [],
+      totalAvailable: 0,
+      expiresAt,
+    });
+
+    expect(mockPrisma.corpusSource.upsert).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.corpusSource.upsert.mock.calls[0][0]).toMatchObject({
+      where: { name: 'Simple English Wikipedia' },
+      create: { sourceType: 'api', domains: '["general","medical"]', rateLimitPerMinute: 60 },
+    });
+    expect(mockPrisma.corpusCache.upsert.mock.calls[0][0]).toMatchObject({
+      where: { cacheKey: 'key-1' },
+      create: { sourceId: 'row-1', domain: 'medical', targetLevel: 0.8, itemCount: 1, expiresAt },
+    });
+  });
+
+  it('returns stored items until they expire', async () => {
+    const expiresAt = new Date(NOW.getTime() + 60_000);
+    mockPrisma.corpusCache.findUnique.mockResolvedValue({
+      content: JSON.stringify({ items: [ITEM], totalAvailable: 4 }),
+      expiresAt,
+    });
+
+    expect(await prismaCorpusStore.getCached(SOURCE, 'key-1', NOW)).toEqual({
+      items: [ITEM],
+      totalAvailable: 4,
+      expiresAt,
+    });
+    expect(
+      await prismaCorpusStore.getCached(SOURCE, 'key-1', new Date(expiresAt.getTime() + 1))
+    ).toBeNull();
+  });
+
+  it('logs queries and stamps the source on network requests', async () => {
+    await prismaCorpusStore.recordQuery(SOURCE, QUERY, {
+      resultCount: 3,
+      cacheHit: false,
+      latencyMs: 120.4,
+      success: true,
+    });
+    await prismaCorpusStore.recordQuery(SOURCE, QUERY, {
+      resultCount: 3,
+      cacheHit: true,
+      latencyMs: 2,
+      success: true,
+    });
+
+    expect(mockPrisma.corpusQuery.create.mock.calls[0][0].data).toMatchObject({
+      sourceId: 'row-1',
+      queryType: 'vocabulary',
+      latencyMs: 120,
+      cacheHit: false,
+      error: null,
+    });
+    expect(mockPrisma.corpusSource.update).toHaveBeenCalledTimes(1);
+  });
+});
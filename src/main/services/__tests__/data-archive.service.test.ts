@@ -0,0 +1,799 @@
+/**
+ * Data Archive Service Tests
+ *
+ * Tests for the versioned export/import archive:
+ * - Envelope creation and checksum
+ * - Validation of format tag, schema version and rows
+ * - ID remapping and foreign-key rewriting
+ * - Coverage of every Prisma model and column
+ * - Merge vs replace import
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+const delegate = () => ({ deleteMany: vi.fn(), createMany: vi.fn() });
+
+const mockTx = {
+  user: delegate(),
+  goalSpec: delegate(),
+  languageObject: delegate(),
+  masteryState: delegate(),
+  stageTransition: delegate(),
+  session: delegate(),
+  response: delegate(),
+  thetaSnapshot: delegate(),
+  collocation: delegate(),
+  errorAnalysis: delegate(),
+  componentErrorStats: delegate(),
+  experimentAssignment: delegate(),
+  milestoneEvent: delegate(),
+  distractorStat: delegate(),
+  propagationLog: delegate(),
+  sourceDocument: delegate(),
+  contextSentence: delegate(),
+  contextSentenceObject: delegate(),
+  glossarySense: delegate(),
+  userObjectRelationship: delegate(),
+  objectEncounter: delegate(),
+  objectConnection: delegate(),
+  g2PItemParameter: delegate(),
+  g2PThetaProfile: delegate(),
+  g2PResponse: delegate(),
+  curriculumGoal: delegate(),
+  timeAllocation: delegate(),
+  sharedObjectGoal: delegate(),
+  paretoSolution: delegate(),
+};
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+
+// Archive imports write through their own transaction client
+mockPrisma.$transaction.mockImplementation(async (fn: (tx: typeof mockTx) => Promise<void>) => fn(mockTx));
+
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_SCHEMA_VERSION,
+  ARCHIVE_TABLES,
+  ARCHIVE_TABLE_MODELS,
+  ARCHIVE_EXCLUDED_MODELS,
+  createArchive,
+  validateArchive,
+  remapArchiveIds,
+  importArchive,
+  computeChecksum,
+  type ArchiveData,
+} from '../data-archive.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const created = new Date('2026-01-01T00:00:00.000Z');
+
+function buildData(): ArchiveData {
+  return {
+    users: [{
+      id: 'user-1',
+      createdAt: created,
+      nativeLanguage: 'ko',
+      targetLanguage: 'en',
+      thetaGlobal: 0.4,
+      thetaPhonology: 0,
+      thetaMorphology: 0,
+      thetaLexical: 0.5,
+      thetaSyntactic: 0,
+      thetaPragmatic: 0,
+    }],
+    goalSpecs: [{
+      id: 'goal-1',
+      createdAt: created,
+      updatedAt: created,
+      domain: 'medical',
+      modality: '["reading"]',
+      genre: 'report',
+      purpose: 'certification',
+      benchmark: 'CELBAN',
+      deadline: null,
+      completionPercent: 12,
+      isActive: true,
+      userId: 'user-1',
+    }],
+    languageObjects: ['obj-1', 'obj-2'].map((id, i) => ({
+      id,
+      createdAt: created,
+      type: 'LEX',
+      content: `word${i}`,
+      contentJson: null,
+      frequency: 0.5,
+      relationalDensity: 0.5,
+      contextualContribution: 0.5,
+      domainDistribution: null,
+      morphologicalScore: null,
+      phonologicalDifficulty: null,
+      pragmaticScore: null,
+      syntacticComplexity: null,
+      priority: 0.3,
+      irtDifficulty: 0,
+      irtDiscrimination: 1,
+      irtGuessing: 0.25,
+      goalId: 'goal-1',
+    })),
+    masteryStates: [{
+      id: 'mastery-1',
+      stage: 2,
+      fsrsDifficulty: 5,
+      fsrsStability: 4.2,
+      fsrsLastReview: created,
+      fsrsNextReview: null,
+      fsrsReps: 3,
+      fsrsLapses: 1,
+      fsrsState: 'review',
+      cueFreeAccuracy: 0.6,
+      cueAssistedAccuracy: 0.8,
+      exposureCount: 4,
+      nextReview: created,
+      lastReviewedAt: created,
+      priority: 0.3,
+      objectId: 'obj-1',
+    }],
+    stageTransitions: [{
+      id: 'transition-1',
+      createdAt: created,
+      masteryStateId: 'mastery-1',
+      fromStage: 1,
+      toStage: 2,
+      trigger: 'accuracy_threshold',
+      cueFreeAccuracyAtTransition: 0.6,
+      cueAssistedAccuracyAtTransition: 0.8,
+      exposureCountAtTransition: 4,
+      metadata: null,
+    }],
+    sessions: [{
+      id: 'session-1',
+      startedAt: created,
+      endedAt: created,
+      mode: 'learning',
+      itemsPracticed: 2,
+      stageTransitions: 1,
+      fluencyTaskCount: 0,
+      versatilityTaskCount: 0,
+      responseCount: 2,
+      correctCount: 1,
+      userId: 'user-1',
+      goalId: 'goal-1',
+    }],
+    responses: [{
+      id: 'response-1',
+      createdAt: created,
+      taskType: 'recall',
+      taskFormat: 'fill_blank',
+      modality: 'visual',
+      correct: false,
+      responseTimeMs: 4200,
+      cueLevel: 0,
+      response: 'wrd',
+      expected: 'word0',
+      responseContent: null,
+      expectedContent: null,
+      irtThetaContribution: null,
+      sessionId: 'session-1',
+      objectId: 'obj-1',
+    }],
+    thetaSnapshots: [{
+      id: 'snapshot-1',
+      createdAt: created,
+      thetaGlobal: 0.4,
+      thetaPhonology: 0,
+      thetaMorphology: 0,
+      thetaLexical: 0.5,
+      thetaSyntactic: 0,
+      thetaPragmatic: 0,
+      seGlobal: 0.6,
+      sessionId: 'session-1',
+    }],
+    collocations: [{
+      id: 'colloc-1',
+      word1Id: 'obj-1',
+      word2Id: 'obj-2',
+      pmi: 3.1,
+      npmi: 0.4,
+      cooccurrence: 12,
+      significance: 4.2,
+    }],
+    errorAnalyses: [{
+      id: 'error-1',
+      createdAt: created,
+      responseId: 'response-1',
+      component: 'LEX',
+      errorType: 'spelling',
+      explanation: 'Missing vowel',
+      correction: 'word0',
+      similarErrors: null,
+      confidence: 0.8,
+      source: 'rule_based',
+      objectId: 'obj-1',
+    }],
+    componentErrorStats: [{
+      id: 'stats-1',
+      updatedAt: created,
+      component: 'LEX',
+      totalErrors: 3,
+      recentErrors: 1,
+      errorRate: 0.2,
+      trend: -0.1,
+      recommendation: null,
+      userId: 'user-1',
+      goalId: 'goal-1',
+    }],
+    experimentAssignments: [{
+      id: 'assignment-1',
+      assignedAt: created,
+      groupId: 'control',
+      configId: 'default',
+      userId: 'user-1',
+      experimentId: 'experiment-1',
+    }],
+    milestoneEvents: [{
+      id: 'milestone-1',
+      createdAt: created,
+      milestoneId: 'vocab_100',
+      type: 'vocabulary',
+      priority: 'medium',
+      title: '100 words',
+      description: 'Learned 100 words',
+      celebrationMessage: null,
+      iconId: null,
+      pointsAwarded: 10,
+      data: null,
+      acknowledged: false,
+      userId: 'user-1',
+      goalId: 'goal-1',
+      sessionId: 'session-1',
+    }],
+    distractorStats: [{
+      id: 'distractor-1',
+      createdAt: created,
+      updatedAt: created,
+      content: 'ward',
+      strategy: 'phonological_similar',
+      plausibility: 0.6,
+      explanation: '',
+      timesShown: 4,
+      timesPicked: 1,
+      retired: false,
+      retiredAt: null,
+      objectId: 'obj-1',
+    }],
+    propagationLogs: [{
+      id: 'propagation-1',
+      createdAt: created,
+      goalId: 'goal-1',
+      responseId: 'response-1',
+      relationType: 'collocational',
+      depth: 1,
+      magnitude: 0.1,
+      reason: 'collocate answered',
+      difficultyBefore: 5,
+      difficultyDelta: -0.1,
+      stabilityBefore: null,
+      stabilityDelta: 0,
+      sourceObjectId: 'obj-1',
+      targetObjectId: 'obj-2',
+    }],
+    sourceDocuments: [{
+      id: 'document-1',
+      createdAt: created,
+      goalId: 'goal-1',
+      filename: 'ward-notes.pdf',
+      format: 'pdf',
+      quality: 'good',
+      characters: 1200,
+    }],
+    contextSentences: [{
+      id: 'sentence-1',
+      documentId: 'document-1',
+      text: 'Each word0 counts.',
+      start: 0,
+      end: 18,
+      page: 1,
+      startMs: null,
+      endMs: null,
+      wordCount: 3,
+      complexity: 0.2,
+      cefrLevel: 'A2',
+      difficulty: -0.5,
+    }],
+    contextSentenceObjects: [{
+      sentenceId: 'sentence-1',
+      objectId: 'obj-1',
+      matchStart: 5,
+      matchEnd: 10,
+      servedCount: 2,
+      lastServedAt: created,
+    }],
+    glossarySenses: [{
+      id: 'sense-1',
+      createdAt: created,
+      updatedAt: created,
+      objectId: 'obj-1',
+      senseIndex: 0,
+      partOfSpeech: 'noun',
+      definition: 'A unit of language',
+      translation: null,
+      l1: null,
+      examples: '[]',
+      source: 'user',
+    }],
+    userObjectRelationships: [{
+      id: 'relationship-1',
+      createdAt: created,
+      updatedAt: created,
+      userId: 'user-1',
+      objectId: 'obj-1',
+      relationshipType: 'learning',
+      strength: 0.4,
+      encounterCount: 2,
+      lastEncounter: created,
+      firstEncounter: created,
+      successRate: 0.5,
+      avgResponseTime: 4200,
+      activationLevel: 0,
+      decayRate: 0.1,
+      interpretationEncounters: 1,
+      productionEncounters: 1,
+      visualEncounters: 2,
+      auditoryEncounters: 0,
+      mixedEncounters: 0,
+      interpretationSuccessRate: 1,
+      productionSuccessRate: 0,
+      interpretationRatio: 0.5,
+      modalityBalance: 0,
+    }],
+    objectEncounters: [{
+      id: 'encounter-1',
+      createdAt: created,
+      userId: 'user-1',
+      responseId: 'response-1',
+      taskCategory: 'production',
+      taskType: 'recall',
+      taskFormat: 'fill_blank',
+      modality: 'visual',
+      domain: 'medical',
+      userTheta: 0.4,
+      itemDifficulty: 0,
+      successful: false,
+      responseTimeMs: 4200,
+      cueLevel: 0,
+      objectId: 'obj-1',
+    }],
+    objectConnections: [{
+      id: 'connection-1',
+      createdAt: created,
+      sourceObjectId: 'obj-1',
+      targetObjectId: 'obj-2',
+      connectionType: 'collocational',
+      weight: 0.5,
+      bidirectional: true,
+      cooccurrenceCount: 12,
+      pmi: 3.1,
+    }],
+    g2pItemParameters: [{
+      id: 'pattern-1',
+      createdAt: created,
+      updatedAt: created,
+      pattern: 'or',
+      patternType: 'phoneme',
+      difficulty: 0.3,
+      discrimination: 1,
+      targetLayer: 'alphabetic',
+      frequency: 0,
+      regularity: 1,
+      l1Adjustments: '{}',
+    }],
+    g2pThetaProfiles: [{
+      id: 'g2p-profile-1',
+      createdAt: created,
+      updatedAt: created,
+      userId: 'user-1',
+      thetaPhonological: 0.1,
+      thetaAlphabetic: 0,
+      thetaSyllable: 0,
+      thetaWord: 0,
+      thetaSupra: 0,
+      thetaReading: 0,
+      thetaWriting: 0,
+      thetaListening: 0,
+      thetaSpeaking: 0.2,
+      sePhonological: 1,
+      seAlphabetic: 1,
+      seSyllable: 1,
+      seWord: 1,
+      seSupra: 1,
+      responseCounts: '{}',
+    }],
+    g2pResponses: [{
+      id: 'g2p-response-1',
+      createdAt: created,
+      userId: 'user-1',
+      patternId: 'pattern-1',
+      correct: true,
+      responseTimeMs: 900,
+      modality: 'speaking',
+      targetLayer: 'alphabetic',
+      wordContext: 'word0',
+      taskType: 'production',
+      priorTheta: 0,
+      posteriorTheta: 0.2,
+      information: 0.25,
+    }],
+    curriculumGoals: [{
+      id: 'curriculum-1',
+      createdAt: created,
+      updatedAt: created,
+      userId: 'user-1',
+      name: 'Medical',
+      domain: 'medical',
+      targetTheta: 2,
+      currentTheta: 0.4,
+      deadline: null,
+      weight: 1,
+      totalObjects: 2,
+      masteredObjects: 0,
+      isActive: true,
+      modalities: '["reading"]',
+      goalSpecId: 'goal-1',
+    }],
+    timeAllocations: [{
+      id: 'allocation-1',
+      createdAt: created,
+      goalId: 'curriculum-1',
+      sessionDate: created,
+      allocatedMinutes: 120,
+      actualMinutes: 30,
+      paretoRank: 0,
+      utilityScore: 0.4,
+    }],
+    sharedObjectGoals: [{
+      id: 'shared-1',
+      createdAt: created,
+      objectId: 'obj-1',
+      goalId: 'curriculum-1',
+      relevance: 1,
+      transferWeight: 0.5,
+    }],
+    paretoSolutions: [{
+      id: 'pareto-1',
+      createdAt: created,
+      userId: 'user-1',
+      sessionDate: created,
+      allocation: '{"goal-1":120}',
+      paretoRank: 0,
+      dominated: false,
+      objectiveScores: '{"goal-1":0.4}',
+      preference: 'balanced',
+      selected: true,
+    }],
+  };
+}
+
+/** Sample value for a Prisma scalar column. */
+function sampleValue(type: string): unknown {
+  switch (type) {
+    case 'Int':
+      return 1;
+    case 'Float':
+      return 0.5;
+    case 'Boolean':
+      return true;
+    case 'DateTime':
+      return created;
+    default:
+      return 'sample';
+  }
+}
+
+/** Round-trip through JSON, as the file export does. */
+function serialize(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function sequentialIds(): () => string {
+  let n = 0;
+  return () => `new-${++n}`;
+}
+
+// ============================================================================
+// Envelope & Validation
+// ============================================================================
+
+describe('createArchive', () => {
+  it('tags the archive with format, version and per-table counts', () => {
+    const archive = createArchive(buildData(), { goalIds: null, includeHistory: true }, created);
+
+    expect(archive.format).toBe(ARCHIVE_FORMAT);
+    expect(archive.schemaVersion).toBe(ARCHIVE_SCHEMA_VERSION);
+    expect(archive.exportedAt).toBe(created.toISOString());
+    expect(archive.counts.languageObjects).toBe(2);
+    expect(archive.counts.responses).toBe(1);
+    expect(archive.checksum).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('validateArchive', () => {
+  it('accepts a serialized archive and restores dates', () => {
+    const archive = createArchive(buildData(), { goalIds: null, includeHistory: true });
+    const validated = validateArchive(serialize(archive));
+
+    expect(validated.data.sessions[0].startedAt).toBeInstanceOf(Date);
+    expect(validated.data.sessions[0].startedAt.getTime()).toBe(created.getTime());
+    expect(validated.counts.collocations).toBe(1);
+  });
+
+  it('rejects files that are not LOGOS archives', () => {
+    expect(() => validateArchive({ hello: 'world' })).toThrow('Not a LOGOS archive');
+  });
+
+  it('rejects archives from a newer schema version', () => {
+    const archive = serialize(createArchive(buildData(), { goalIds: null, includeHistory: true })) as Record<string, unknown>;
+    archive.schemaVersion = ARCHIVE_SCHEMA_VERSION + 1;
+
+    expect(() => validateArchive(archive)).toThrow('newer than supported');
+  });
+
+  it('detects tampered data through the checksum', () => {
+    const archive = serialize(createArchive(buildData(), { goalIds: null, includeHistory: true })) as {
+      data: { users: Array<{ thetaGlobal: number }> };
+    };
+    archive.data.users[0].thetaGlobal = 3;
+
+    expect(() => validateArchive(archive)).toThrow('checksum mismatch');
+  });
+
+  it('reports the location of invalid rows', () => {
+    const data = buildData();
+    data.masteryStates[0].stage = 9;
+    const archive = createArchive(data, { goalIds: null, includeHistory: true });
+
+    expect(() => validateArchive(serialize(archive))).toThrow('masteryStates.0.stage');
+  });
+
+  it('keeps stored settings through a round trip', () => {
+    const data = buildData();
+    data.users[0].settings = '{"theme":"dark"}';
+    const archive = createArchive(data, { goalIds: null, includeHistory: true });
+
+    const validated = validateArchive(serialize(archive));
+    const remapped = remapArchiveIds(validated.data, sequentialIds()).data;
+
+    expect(remapped.users[0].settings).toBe('{"theme":"dark"}');
+  });
+
+  it('keeps the grading, picked distractor and intent of responses through a round trip', () => {
+    const data = buildData();
+    Object.assign(data.responses[0], {
+      taskId: 'task-1',
+      credit: 0.5,
+      matchType: 'typo',
+      distractorId: 'distractor-1',
+      distractorStrategy: 'phonological_similar',
+      intent: 'reinforce_known',
+      predictedSuccess: 0.72,
+    });
+    const archive = createArchive(data, { goalIds: null, includeHistory: true });
+
+    const validated = validateArchive(serialize(archive));
+    const remapped = remapArchiveIds(validated.data, sequentialIds()).data;
+
+    expect(remapped.responses[0]).toMatchObject({
+      taskId: 'task-1',
+      credit: 0.5,
+      matchType: 'typo',
+      distractorId: remapped.distractorStats[0].id,
+      distractorStrategy: 'phonological_similar',
+      intent: 'reinforce_known',
+      predictedSuccess: 0.72,
+    });
+  });
+});
+
+// ============================================================================
+// Model Coverage
+// ============================================================================
+
+describe('archive coverage', () => {
+  const models = Prisma.dmmf.datamodel.models;
+  const archivedModels = Object.values(ARCHIVE_TABLE_MODELS);
+
+  it('archives or explicitly excludes every Prisma model', () => {
+    const excluded = Object.keys(ARCHIVE_EXCLUDED_MODELS);
+    const unaccounted = models
+      .map((m) => m.name)
+      .filter((name) => !archivedModels.includes(name) && !excluded.includes(name));
+
+    expect(unaccounted).toEqual([]);
+    expect(archivedModels.filter((name) => excluded.includes(name))).toEqual([]);
+  });
+
+  it('keeps every column of every archived model through a round trip', () => {
+    const data = Object.fromEntries(ARCHIVE_TABLES.map((table) => {
+      const model = models.find((m) => m.name === ARCHIVE_TABLE_MODELS[table]);
+      const row = Object.fromEntries(
+        (model?.fields ?? [])
+          .filter((f) => f.kind === 'scalar')
+          .map((f) => [f.name, f.name === 'stage' ? 2 : sampleValue(f.type)])
+      );
+      return [table, [row]];
+    })) as unknown as ArchiveData;
+
+    const validated = validateArchive(serialize(createArchive(data, { goalIds: null, includeHistory: true })));
+
+    for (const table of ARCHIVE_TABLES) {
+      expect({ table, row: validated.data[table][0] }).toEqual({ table, row: data[table][0] });
+    }
+  });
+
+  it('keeps a row of every table through export, validation and remapping', () => {
+    const source = buildData();
+    const archive = createArchive(source, { goalIds: null, includeHistory: true });
+
+    const { data, skipped, errors } = remapArchiveIds(validateArchive(serialize(archive)).data, sequentialIds());
+
+    expect(errors).toEqual([]);
+    expect(skipped).toBe(0);
+    for (const table of ARCHIVE_TABLES) {
+      expect({ table, count: data[table].length }).toEqual({ table, count: source[table].length });
+    }
+  });
+
+  it('loads version 1 archives without the newer tables', () => {
+    const legacy = Object.fromEntries(
+      Object.entries(buildData()).filter(([table]) => ARCHIVE_TABLES.indexOf(table as never) < 10)
+    );
+    const archive = {
+      ...createArchive(buildData(), { goalIds: null, includeHistory: true }),
+      schemaVersion: 1,
+      checksum: '',
+      data: legacy,
+    };
+    archive.checksum = computeChecksum(serialize(legacy));
+
+    const validated = validateArchive(serialize(archive));
+
+    expect(validated.data.glossarySenses).toEqual([]);
+    expect(validated.data.responses).toHaveLength(1);
+  });
+});
+
+// ============================================================================
+// ID Remapping
+// ============================================================================
+
+describe('remapArchiveIds', () => {
+  it('assigns new IDs and rewrites every foreign key', () => {
+    const { data, skipped } = remapArchiveIds(buildData(), sequentialIds());
+
+    expect(skipped).toBe(0);
+
+    const userId = data.users[0].id;
+    const goalId = data.goalSpecs[0].id;
+    const [obj1, obj2] = data.languageObjects.map((o) => o.id);
+
+    expect(userId).not.toBe('user-1');
+    expect(data.goalSpecs[0].userId).toBe(userId);
+    expect(data.languageObjects.every((o) => o.goalId === goalId)).toBe(true);
+    expect(data.masteryStates[0].objectId).toBe(obj1);
+    expect(data.stageTransitions[0].masteryStateId).toBe(data.masteryStates[0].id);
+    expect(data.sessions[0]).toMatchObject({ userId, goalId });
+    expect(data.responses[0]).toMatchObject({ sessionId: data.sessions[0].id, objectId: obj1 });
+    expect(data.thetaSnapshots[0].sessionId).toBe(data.sessions[0].id);
+    expect(data.collocations[0]).toMatchObject({ word1Id: obj1, word2Id: obj2 });
+    expect(data.errorAnalyses[0]).toMatchObject({ responseId: data.responses[0].id, objectId: obj1 });
+    expect(data.propagationLogs[0]).toMatchObject({
+      goalId,
+      responseId: data.responses[0].id,
+      sourceObjectId: obj1,
+      targetObjectId: obj2,
+    });
+    expect(data.contextSentences[0].documentId).toBe(data.sourceDocuments[0].id);
+    expect(data.contextSentenceObjects[0]).toMatchObject({
+      sentenceId: data.contextSentences[0].id,
+      objectId: obj1,
+    });
+    expect(data.objectEncounters[0]).toMatchObject({ userId, objectId: obj1, responseId: data.responses[0].id });
+    expect(data.g2pResponses[0].patternId).toBe(data.g2pItemParameters[0].id);
+    expect(data.timeAllocations[0].goalId).toBe(data.curriculumGoals[0].id);
+    expect(data.curriculumGoals[0].goalSpecId).toBe(goalId);
+    expect(JSON.parse(data.paretoSolutions[0].allocation)).toEqual({ [goalId]: 120 });
+  });
+
+  it('collapses archived users onto an existing local user', () => {
+    const { data } = remapArchiveIds(buildData(), sequentialIds(), 'local-user');
+
+    expect(data.users).toHaveLength(0);
+    expect(data.goalSpecs[0].userId).toBe('local-user');
+    expect(data.sessions[0].userId).toBe('local-user');
+    // The local user's own profile rows win
+    expect(data.g2pThetaProfiles).toHaveLength(0);
+    expect(data.experimentAssignments).toHaveLength(0);
+    expect(data.componentErrorStats).toHaveLength(1);
+  });
+
+  it('reuses local G2P items and drops assignments to unknown experiments', () => {
+    const { data, skipped } = remapArchiveIds(buildData(), sequentialIds(), undefined, {
+      experimentIds: new Set(['experiment-2']),
+      g2pItemIds: new Map([['or:phoneme', 'local-pattern']]),
+    });
+
+    expect(data.g2pItemParameters).toHaveLength(0);
+    expect(data.g2pResponses[0].patternId).toBe('local-pattern');
+    expect(data.experimentAssignments).toHaveLength(0);
+    expect(skipped).toBe(1);
+  });
+
+  it('drops rows whose parent is missing from the archive', () => {
+    const source = buildData();
+    source.collocations[0].word2Id = 'obj-missing';
+
+    const { data, skipped, errors } = remapArchiveIds(source, sequentialIds());
+
+    expect(data.collocations).toHaveLength(0);
+    expect(skipped).toBe(1);
+    expect(errors[0]).toContain('collocations:colloc-1');
+  });
+});
+
+// ============================================================================
+// Import
+// ============================================================================
+
+describe('importArchive', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.thresholdExperiment.findMany.mockResolvedValue([{ id: 'experiment-1' }]);
+    mockPrisma.g2PItemParameter.findMany.mockResolvedValue([]);
+  });
+
+  it('merges into the existing user without deleting data', async () => {
+    mockPrisma.user.findFirst.mockResolvedValue({ id: 'local-user' });
+    const archive = createArchive(buildData(), { goalIds: null, includeHistory: true });
+
+    const result = await importArchive(archive, { merge: true });
+
+    expect(mockTx.user.deleteMany).not.toHaveBeenCalled();
+    expect(mockTx.user.createMany).not.toHaveBeenCalled();
+    expect(mockTx.goalSpec.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ userId: 'local-user' })],
+    });
+    expect(result.imported.languageObjects).toBe(2);
+    expect(result.imported.users).toBe(0);
+    expect(result.skipped).toBe(0);
+  });
+
+  it('wipes existing users before inserting in replace mode', async () => {
+    const archive = createArchive(buildData(), { goalIds: null, includeHistory: true });
+
+    const result = await importArchive(archive, { merge: false });
+
+    expect(mockPrisma.user.findFirst).not.toHaveBeenCalled();
+    expect(mockTx.user.deleteMany).toHaveBeenCalledWith({});
+    expect(mockTx.user.createMany).toHaveBeenCalled();
+    expect(result.imported.users).toBe(1);
+    expect(result.imported.glossarySenses).toBe(1);
+    expect(result.imported.experimentAssignments).toBe(1);
+  });
+
+  it('clears user-keyed tables without a foreign key and reports excluded models', async () => {
+    const archive = createArchive(buildData(), { goalIds: null, includeHistory: true });
+
+    const result = await importArchive(archive, { merge: false });
+
+    expect(mockTx.userObjectRelationship.deleteMany).toHaveBeenCalledWith({});
+    expect(mockTx.g2PResponse.deleteMany).toHaveBeenCalledWith({});
+    expect(mockTx.curriculumGoal.deleteMany).toHaveBeenCalledWith({});
+    expect(mockTx.g2PItemParameter.deleteMany).not.toHaveBeenCalled();
+    expect(result.excluded).toContain('CachedTask');
+    expect(result.excluded).not.toContain('GlossarySense');
+  });
+});
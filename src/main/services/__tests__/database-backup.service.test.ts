@@ -0,0 +1,192 @@
+// @vitest-environment node
+/**
+ * Database Backup Service Tests
+ *
+ * Tests for SQLite snapshots:
+ * - Checksummed snapshots and rotation per reason
+ * - Detecting tampered snapshots
+ * - Restoring with a safety snapshot of the replaced database
+ * - Snapshots before pending migrations and the daily schedule
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// The native driver is not needed to exercise file handling: a snapshot is a
+// file copy and the migration table comes from mockState.
+const mockState = vi.hoisted(() => ({
+  migrations: [] as string[],
+  integrity: 'ok',
+}));
+
+vi.mock('better-sqlite3', () => {
+  class FakeDatabase {
+    constructor(private file: string) {}
+
+    backup(destination: string): Promise<void> {
+      fs.copyFileSync(this.file, destination);
+      return Promise.resolve();
+    }
+
+    prepare(sql: string) {
+      return {
+        get: () => (mockState.migrations.length > 0 ? { name: '_prisma_migrations' } : undefined),
+        all: () =>
+          sql.includes('_prisma_migrations')
+            ? mockState.migrations.map((migration_name) => ({ migration_name }))
+            : [],
+      };
+    }
+
+    pragma(): string {
+      return mockState.integrity;
+    }
+
+    close(): void {}
+  }
+  return { default: FakeDatabase };
+});
+
+import {
+  createDatabaseBackup,
+  listDatabaseBackups,
+  restoreDatabaseBackup,
+  backupBeforePendingMigrations,
+  runScheduledBackup,
+  resolveDatabasePath,
+} from '../database-backup.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+let root: string;
+let dbPath: string;
+let backupDir: string;
+
+function day(n: number): Date {
+  return new Date(Date.UTC(2026, 9, n, 3));
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'logos-backup-'));
+  dbPath = path.join(root, 'logos.db');
+  backupDir = path.join(root, 'backups');
+  fs.writeFileSync(dbPath, 'original');
+  mockState.migrations = ['20261018130000_user_settings'];
+  mockState.integrity = 'ok';
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('resolveDatabasePath', () => {
+  it('resolves relative URLs against the schema directory', () => {
+    expect(resolveDatabasePath('file:./dev.db', '/app/prisma')).toBe(path.resolve('/app/prisma/dev.db'));
+    expect(resolveDatabasePath('file:/data/logos.db?connection_limit=1', '/app/prisma')).toBe('/data/logos.db');
+  });
+});
+
+describe('createDatabaseBackup', () => {
+  it('writes a snapshot with a checksum sidecar', async () => {
+    const backup = await createDatabaseBackup({ dbPath, backupDir, reason: 'manual', now: day(1) });
+
+    expect(fs.readFileSync(backup.path, 'utf-8')).toBe('original');
+    expect(backup).toMatchObject({
+      reason: 'manual',
+      size: 8,
+      migration: '20261018130000_user_settings',
+      valid: true,
+    });
+    expect(backup.checksum).toMatch(/^[0-9a-f]{64}$/);
+    expect(listDatabaseBackups(backupDir).map((b) => b.id)).toEqual([backup.id]);
+  });
+
+  it('keeps the newest snapshots of each reason separately', async () => {
+    const migration = await createDatabaseBackup({ dbPath, backupDir, reason: 'pre-migration', now: day(1) });
+    for (let n = 2; n <= 5; n++) {
+      await createDatabaseBackup({ dbPath, backupDir, reason: 'scheduled', now: day(n), keep: 2 });
+    }
+
+    const backups = listDatabaseBackups(backupDir);
+    expect(backups.map((b) => [b.reason, b.createdAt.getUTCDate()])).toEqual([
+      ['scheduled', 5],
+      ['scheduled', 4],
+      ['pre-migration', 1],
+    ]);
+    expect(backups[2].id).toBe(migration.id);
+  });
+
+  it('flags snapshots that no longer match their checksum', async () => {
+    const backup = await createDatabaseBackup({ dbPath, backupDir, reason: 'manual', now: day(1) });
+    fs.writeFileSync(backup.path, 'tampered');
+
+    expect(listDatabaseBackups(backupDir)[0].valid).toBe(false);
+  });
+});
+
+describe('restoreDatabaseBackup', () => {
+  it('replaces the database and snapshots the replaced one first', async () => {
+    const backup = await createDatabaseBackup({ dbPath, backupDir, reason: 'manual', now: day(1) });
+    fs.writeFileSync(dbPath, 'changed');
+    fs.writeFileSync(`${dbPath}-wal`, 'stale');
+
+    const result = await restoreDatabaseBackup({ dbPath, backupDir, backupId: backup.id });
+
+    expect(fs.readFileSync(dbPath, 'utf-8')).toBe('original');
+    expect(fs.existsSync(`${dbPath}-wal`)).toBe(false);
+    expect(result.restored.id).toBe(backup.id);
+    expect(result.safetyBackup?.reason).toBe('pre-restore');
+    expect(fs.readFileSync(result.safetyBackup!.path, 'utf-8')).toBe('changed');
+  });
+
+  it('refuses tampered or corrupt snapshots', async () => {
+    const backup = await createDatabaseBackup({ dbPath, backupDir, reason: 'manual', now: day(1) });
+
+    mockState.integrity = '*** in database main ***';
+    await expect(restoreDatabaseBackup({ dbPath, backupDir, backupId: backup.id })).rejects.toThrow(
+      'Integrity check failed'
+    );
+
+    fs.writeFileSync(backup.path, 'tampered');
+    await expect(restoreDatabaseBackup({ dbPath, backupDir, backupId: backup.id })).rejects.toThrow(
+      'does not match its checksum'
+    );
+    await expect(restoreDatabaseBackup({ dbPath, backupDir, backupId: 'logos-x.db' })).rejects.toThrow(
+      'Backup not found'
+    );
+  });
+});
+
+describe('backupBeforePendingMigrations', () => {
+  it('snapshots only when a shipped migration is unapplied', async () => {
+    const migrationsDir = path.join(root, 'migrations');
+    fs.mkdirSync(path.join(migrationsDir, '20261018130000_user_settings'), { recursive: true });
+    fs.writeFileSync(path.join(migrationsDir, 'migration_lock.toml'), 'provider = "sqlite"');
+
+    expect(await backupBeforePendingMigrations({ dbPath, backupDir, migrationsDir })).toBeNull();
+
+    fs.mkdirSync(path.join(migrationsDir, '20261018140000_next'));
+    const backup = await backupBeforePendingMigrations({ dbPath, backupDir, migrationsDir });
+
+    expect(backup?.reason).toBe('pre-migration');
+  });
+});
+
+describe('runScheduledBackup', () => {
+  it('takes at most one snapshot per interval', async () => {
+    const options = { dbPath, backupDir };
+
+    expect(await runScheduledBackup(options, day(1))).not.toBeNull();
+    expect(await runScheduledBackup(options, new Date(day(1).getTime() + 60_000))).toBeNull();
+    expect(await runScheduledBackup(options, day(2))).not.toBeNull();
+    expect(listDatabaseBackups(backupDir)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,249 @@
+// @vitest-environment node
+/**
+ * Deck Import Service Tests
+ *
+ * Tests for reading and importing flashcard decks:
+ * - ZIP container reading (stored/deflated entries, size limits)
+ * - Anki package notes, fields and review history
+ * - Duplicate detection against existing goal content
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+
+import { readAnkiPackage, importDeck } from '../deck-import.service';
+import { openZip } from '../file-formats/zip-reader';
+import { clearFSRSCache } from '../fsrs-optimizer.service';
+import { DEFAULT_WEIGHTS } from '../../../core/fsrs';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+interface ZipFile {
+  name: string;
+  data: Buffer;
+  deflate?: boolean;
+  /** Override the uncompressed size written to the directory */
+  declaredSize?: number;
+}
+
+function buildZip(files: ZipFile[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const data = file.deflate ? deflateRawSync(file.data) : file.data;
+    const method = file.deflate ? 8 : 0;
+    const size = file.declaredSize ?? file.data.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const REVIEW_DAY = Date.UTC(2025, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Minimal Anki collection: two notes, the first with a reverse card and reviews */
+function buildCollection(): Buffer {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE notes (id INTEGER PRIMARY KEY, flds TEXT, tags TEXT);
+    CREATE TABLE cards (id INTEGER PRIMARY KEY, nid INTEGER, ord INTEGER);
+    CREATE TABLE revlog (id INTEGER PRIMARY KEY, cid INTEGER, ease INTEGER, type INTEGER);
+  `);
+  db.prepare('INSERT INTO notes VALUES (?, ?, ?)').run(1, '<b>bonjour</b>\x1fhello', ' greeting basics ');
+  db.prepare('INSERT INTO notes VALUES (?, ?, ?)').run(2, 'merci\x1fthank you', '');
+  db.prepare('INSERT INTO cards VALUES (?, ?, ?)').run(11, 1, 0);
+  db.prepare('INSERT INTO cards VALUES (?, ?, ?)').run(12, 1, 1);
+  db.prepare('INSERT INTO cards VALUES (?, ?, ?)').run(21, 2, 0);
+  db.prepare('INSERT INTO revlog VALUES (?, ?, ?, ?)').run(REVIEW_DAY, 11, 3, 0);
+  db.prepare('INSERT INTO revlog VALUES (?, ?, ?, ?)').run(REVIEW_DAY + 3 * DAY_MS, 11, 4, 1);
+  // Review of the reverse card is not carried over
+  db.prepare('INSERT INTO revlog VALUES (?, ?, ?, ?)').run(REVIEW_DAY + DAY_MS, 12, 1, 1);
+  const buffer = db.serialize();
+  db.close();
+  return buffer;
+}
+
+// ============================================================================
+// ZIP Reader
+// ============================================================================
+
+describe('openZip', () => {
+  it('reads stored and deflated entries', () => {
+    const zip = openZip(
+      buildZip([
+        { name: 'a.txt', data: Buffer.from('plain') },
+        { name: 'b.txt', data: Buffer.from('squeezed '.repeat(20)), deflate: true },
+      ])
+    );
+
+    expect(zip.entries.map((e) => e.name)).toEqual(['a.txt', 'b.txt']);
+    expect(zip.read('a.txt')?.toString()).toBe('plain');
+    expect(zip.read('b.txt')?.toString()).toBe('squeezed '.repeat(20));
+    expect(zip.read('missing.txt')).toBeNull();
+  });
+
+  it('refuses to inflate past the declared size', () => {
+    const zip = openZip(
+      buildZip([{ name: 'bomb.bin', data: Buffer.alloc(64 * 1024), deflate: true, declaredSize: 16 }])
+    );
+
+    expect(() => zip.read('bomb.bin')).toThrow(/exceeds its declared size/);
+  });
+
+  it('rejects data that is not a ZIP archive', () => {
+    expect(() => openZip(Buffer.from('not a zip at all, just some text'))).toThrow(/Not a ZIP/);
+  });
+});
+
+// ============================================================================
+// Anki Packages
+// ============================================================================
+
+describe('readAnkiPackage', () => {
+  it('turns notes into cards with the first card review history', () => {
+    const apkg = buildZip([{ name: 'collection.anki2', data: buildCollection(), deflate: true }]);
+
+    const cards = readAnkiPackage(apkg);
+
+    expect(cards).toHaveLength(2);
+    expect(cards[0]).toMatchObject({ front: 'bonjour', back: 'hello', tags: ['greeting', 'basics'] });
+    expect(cards[0].reviews.map((r) => r.ease)).toEqual([3, 4]);
+    expect(cards[0].reviews[0].timestamp).toEqual(new Date(REVIEW_DAY));
+    expect(cards[1]).toMatchObject({ front: 'merci', back: 'thank you', tags: [], reviews: [] });
+  });
+
+  it('prefers the anki21 collection when both are present', () => {
+    const apkg = buildZip([
+      { name: 'collection.anki2', data: Buffer.from('legacy placeholder') },
+      { name: 'collection.anki21', data: buildCollection() },
+    ]);
+
+    expect(readAnkiPackage(apkg).map((c) => c.front)).toEqual(['bonjour', 'merci']);
+  });
+
+  it('explains the compressed collection format', () => {
+    const apkg = buildZip([{ name: 'collection.anki21b', data: Buffer.from('zstd') }]);
+
+    expect(() => readAnkiPackage(apkg)).toThrow(/Support older Anki versions/);
+  });
+});
+
+// ============================================================================
+// Import
+// ============================================================================
+
+describe('importDeck', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    clearFSRSCache();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'deck-import-'));
+    mockPrisma.goalSpec.findUnique.mockResolvedValue({ userId: 'user-1' });
+    mockPrisma.user.findUnique.mockResolvedValue({ fsrsWeights: null });
+    mockPrisma.languageObject.create.mockResolvedValue({});
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('skips cards whose front exists in the goal under any type', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue([{ content: 'Bonjour' }]);
+    const file = path.join(dir, 'deck.csv');
+    await fs.writeFile(file, 'bonjour,hello\nmerci,thank you\nMerci,thanks\n');
+
+    const result = await importDeck('goal-1', file);
+
+    expect(mockPrisma.languageObject.findMany).toHaveBeenCalledWith({
+      where: { goalId: 'goal-1' },
+      select: { content: true },
+    });
+    expect(result).toMatchObject({ imported: 1, skipped: 2 });
+    expect(mockPrisma.languageObject.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.languageObject.create.mock.calls[0][0].data).toMatchObject({
+      goalId: 'goal-1',
+      type: 'LEX',
+      content: 'merci',
+    });
+  });
+
+  it('seeds mastery from Anki review history', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue([]);
+    const file = path.join(dir, 'deck.apkg');
+    await fs.writeFile(file, buildZip([{ name: 'collection.anki2', data: buildCollection() }]));
+
+    const result = await importDeck('goal-1', file);
+
+    expect(result).toMatchObject({ imported: 2, withHistory: 1, skipped: 0 });
+    const [first, second] = mockPrisma.languageObject.create.mock.calls.map((c) => c[0].data);
+    expect(first.masteryState.create.exposureCount).toBe(2);
+    expect(JSON.parse(first.contentJson)).toMatchObject({ translation: 'hello', source: 'anki' });
+    expect(second.masteryState).toBeUndefined();
+  });
+
+  it('replays history with the learner\'s fitted FSRS weights', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue([]);
+    const file = path.join(dir, 'deck.apkg');
+    await fs.writeFile(file, buildZip([{ name: 'collection.anki2', data: buildCollection() }]));
+
+    await importDeck('goal-1', file);
+    const defaultStability = mockPrisma.languageObject.create.mock.calls[0][0].data.masteryState.create.fsrsStability;
+
+    clearFSRSCache();
+    mockPrisma.languageObject.create.mockClear();
+    const fitted = [...DEFAULT_WEIGHTS];
+    fitted[2] *= 3;
+    fitted[3] *= 3;
+    mockPrisma.user.findUnique.mockResolvedValue({ fsrsWeights: JSON.stringify(fitted) });
+    await importDeck('goal-1', file);
+
+    expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'user-1' } }));
+    const fittedStability = mockPrisma.languageObject.create.mock.calls[0][0].data.masteryState.create.fsrsStability;
+    expect(fittedStability).not.toBeCloseTo(defaultStability);
+  });
+
+  it('rejects unknown goals', async () => {
+    mockPrisma.goalSpec.findUnique.mockResolvedValue(null);
+
+    await expect(importDeck('missing', path.join(dir, 'deck.csv'))).rejects.toThrow('Goal not found');
+  });
+});
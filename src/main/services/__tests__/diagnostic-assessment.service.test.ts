@@ -0,0 +1,153 @@
+// @vitest-environment node
+/**
+ * Diagnostic Assessment Service Tests
+ *
+ * Tests for the adaptive placement test:
+ * - Item selection across components without revealing the answer key
+ * - Stopping on precision or item count
+ * - Storing per-component theta with a ThetaSnapshot
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+import { NOW } from './helpers/fixtures';
+
+import {
+  nextPlacementStep,
+  completePlacementTest,
+  PLACEMENT_ITEM_BANK,
+  PLACEMENT_TEST_CONFIG,
+  type PlacementAnswer,
+} from '../diagnostic-assessment.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+/** Run the test for a learner who knows every item up to a difficulty */
+function takeTest(ability: number): { answers: PlacementAnswer[]; steps: number } {
+  const answers: PlacementAnswer[] = [];
+  let step = nextPlacementStep(answers);
+  while (!step.done && step.nextItem) {
+    const item = PLACEMENT_ITEM_BANK.find((i) => i.id === step.nextItem!.id)!;
+    answers.push({
+      itemId: item.id,
+      answer: item.difficulty <= ability ? item.correctAnswer : 'no idea',
+      responseTimeMs: 4000,
+    });
+    step = nextPlacementStep(answers);
+  }
+  return { answers, steps: answers.length };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.$transaction.mockImplementation(async (ops: unknown[]) => ops);
+  mockPrisma.session.create.mockReturnValue({ id: 'session-1' });
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('nextPlacementStep', () => {
+  it('starts with a vocabulary item and hides the answer key', () => {
+    const step = nextPlacementStep([]);
+
+    expect(step.done).toBe(false);
+    expect(step.itemsAnswered).toBe(0);
+    expect(step.nextItem?.component).toBe('LEX');
+    expect(step.nextItem).not.toHaveProperty('correctAnswer');
+  });
+
+  it('moves on to the least certain component', () => {
+    const first = nextPlacementStep([]).nextItem!;
+    const second = nextPlacementStep([{ itemId: first.id, answer: 'x', responseTimeMs: 3000 }]);
+
+    expect(second.nextItem?.component).not.toBe('LEX');
+    expect(second.estimate.components.LEX.itemsAnswered).toBe(1);
+  });
+
+  it('places strong and weak learners at opposite ends', () => {
+    const strong = takeTest(2.5);
+    const weak = takeTest(-2.5);
+
+    const strongStep = nextPlacementStep(strong.answers);
+    const weakStep = nextPlacementStep(weak.answers);
+
+    expect(strongStep.done).toBe(true);
+    expect(strongStep.estimate.thetaGlobal).toBeGreaterThan(1.5);
+    expect(weakStep.estimate.thetaGlobal).toBeLessThan(-1.5);
+    expect(weakStep.estimate.estimatedCEFR).toBe('A1');
+  });
+
+  it('stops on precision or at the item limit', () => {
+    for (const ability of [-1, 0.5, 2]) {
+      const { answers, steps } = takeTest(ability);
+      const final = nextPlacementStep(answers);
+
+      expect(steps).toBeLessThanOrEqual(PLACEMENT_TEST_CONFIG.maxItems);
+      expect(
+        steps === PLACEMENT_TEST_CONFIG.maxItems ||
+          final.estimate.standardError < PLACEMENT_TEST_CONFIG.seThreshold
+      ).toBe(true);
+    }
+  });
+
+  it('ignores unknown and repeated items', () => {
+    const first = nextPlacementStep([]).nextItem!;
+    const step = nextPlacementStep([
+      { itemId: first.id, answer: 'x', responseTimeMs: 3000 },
+      { itemId: first.id, answer: 'x', responseTimeMs: 3000 },
+      { itemId: 'not-an-item', answer: 'x', responseTimeMs: 3000 },
+    ]);
+
+    expect(step.itemsAnswered).toBe(1);
+  });
+});
+
+describe('completePlacementTest', () => {
+  it('stores per-component theta and a snapshot in an evaluation session', async () => {
+    const { answers } = takeTest(1);
+
+    const result = await completePlacementTest('user-1', 'goal-1', answers, NOW);
+
+    expect(result.sessionId).toBe('session-1');
+    expect(result.itemsAnswered).toBe(answers.length);
+
+    const userUpdate = mockPrisma.user.update.mock.calls[0][0];
+    expect(userUpdate.where).toEqual({ id: 'user-1' });
+    expect(userUpdate.data).toEqual({
+      thetaGlobal: result.thetaGlobal,
+      thetaPhonology: result.components.PHON.theta,
+      thetaMorphology: result.components.MORPH.theta,
+      thetaLexical: result.components.LEX.theta,
+      thetaSyntactic: result.components.SYNT.theta,
+      thetaPragmatic: result.components.PRAG.theta,
+    });
+
+    const session = mockPrisma.session.create.mock.calls[0][0].data;
+    expect(session).toMatchObject({
+      userId: 'user-1',
+      goalId: 'goal-1',
+      mode: 'evaluation',
+      endedAt: NOW,
+      responseCount: answers.length,
+      correctCount: result.correctCount,
+    });
+    expect(session.startedAt).toEqual(new Date(NOW.getTime() - answers.length * 4000));
+    expect(session.thetaSnapshots.create).toMatchObject({
+      thetaGlobal: result.thetaGlobal,
+      seGlobal: result.standardError,
+    });
+  });
+
+  it('refuses to score an empty test', async () => {
+    await expect(completePlacementTest('user-1', 'goal-1', [], NOW)).rejects.toThrow(
+      'No placement answers to score'
+    );
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+});
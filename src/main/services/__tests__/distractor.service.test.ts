@@ -0,0 +1,183 @@
+// @vitest-environment node
+/**
+ * Distractor Service Tests
+ *
+ * Tests for MCQ distractors wired to the database:
+ * - Building options from goal vocabulary and the learner's L1, without
+ *   retired distractors
+ * - Counting exposures and picks, retiring distractors nobody picks, and
+ *   filing picks as errors
+ * - Reporting attractiveness per strategy
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+
+import {
+  buildMCQOptions,
+  recordDistractorOutcome,
+  recordDistractorError,
+  getDistractorAnalytics,
+} from '../distractor.service';
+import type { Distractor } from '../../../core/tasks';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function row(id: string, content: string) {
+  return {
+    id,
+    type: 'LEX',
+    content,
+    goalId: 'goal-1',
+    frequency: 0.5,
+    relationalDensity: 0.5,
+    contextualContribution: 0.5,
+    domainDistribution: null,
+    priority: 0,
+    irtDifficulty: 0,
+    irtDiscrimination: 1,
+  };
+}
+
+function stat(content: string, timesShown: number, timesPicked: number, retired = false) {
+  return {
+    id: `d-${content}`,
+    objectId: 'o-make',
+    content,
+    strategy: 'orthographic_similar',
+    timesShown,
+    timesPicked,
+    retired,
+    retiredAt: retired ? new Date('2026-10-17') : null,
+    object: { content: 'make' },
+  };
+}
+
+const offered: Distractor[] = [
+  { content: 'do', strategy: 'common_confusion', plausibility: 0.85, explanation: 'confused' },
+  { content: 'male', strategy: 'orthographic_similar', plausibility: 0.7, explanation: 'spelling' },
+];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.distractorStat.findMany.mockResolvedValue([]);
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('buildMCQOptions', () => {
+  beforeEach(() => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue({
+      ...row('o-make', 'make'),
+      goal: { user: { nativeLanguage: 'es' } },
+    });
+    mockPrisma.languageObject.findMany.mockResolvedValue([
+      row('w-1', 'male'),
+      row('w-2', 'mask'),
+      row('w-3', 'bake'),
+      row('w-4', 'cake'),
+    ]);
+  });
+
+  it('offers L1 confusions first and records the strategy of every distractor', async () => {
+    const { options, distractors } = await buildMCQOptions('o-make', 'make');
+
+    expect(options).toHaveLength(4);
+    expect(options).toContain('make');
+    expect(distractors[0]).toMatchObject({ content: 'do', strategy: 'common_confusion' });
+    expect(distractors.map((d) => d.content).sort()).toEqual(options.filter((o) => o !== 'make').sort());
+  });
+
+  it('never offers retired distractors', async () => {
+    mockPrisma.distractorStat.findMany.mockResolvedValue([{ content: 'do' }]);
+
+    const { options } = await buildMCQOptions('o-make', 'make');
+
+    expect(options).not.toContain('do');
+    expect(mockPrisma.distractorStat.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { objectId: 'o-make', retired: true } })
+    );
+  });
+
+  it('returns only the answer for unknown objects', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(null);
+
+    expect(await buildMCQOptions('missing', 'make')).toEqual({ options: ['make'], distractors: [] });
+  });
+});
+
+describe('recordDistractorOutcome', () => {
+  it('counts every shown distractor and returns the one picked', async () => {
+    mockPrisma.distractorStat.upsert.mockImplementation(
+      async (args: { create: { content: string } }) => stat(args.create.content, 5, 1)
+    );
+
+    const pick = await recordDistractorOutcome('o-make', offered, 'DO');
+
+    expect(mockPrisma.distractorStat.upsert).toHaveBeenCalledTimes(2);
+    const [first, second] = mockPrisma.distractorStat.upsert.mock.calls.map((c) => c[0]);
+    expect(first.update).toEqual({ timesShown: { increment: 1 }, timesPicked: { increment: 1 } });
+    expect(second.update).toEqual({ timesShown: { increment: 1 }, timesPicked: undefined });
+    expect(pick).toMatchObject({ id: 'd-do', strategy: 'common_confusion' });
+    expect(mockPrisma.distractorStat.update).not.toHaveBeenCalled();
+  });
+
+  it('retires distractors shown often without being picked', async () => {
+    const now = new Date('2026-10-18T12:00:00Z');
+    mockPrisma.distractorStat.upsert.mockImplementation(
+      async (args: { create: { content: string } }) =>
+        args.create.content === 'male' ? stat('male', 25, 0) : stat('do', 25, 10)
+    );
+
+    const pick = await recordDistractorOutcome('o-make', offered, 'make', now);
+
+    expect(pick).toBeNull();
+    expect(mockPrisma.distractorStat.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.distractorStat.update).toHaveBeenCalledWith({
+      where: { id: 'd-male' },
+      data: { retired: true, retiredAt: now },
+    });
+  });
+});
+
+describe('recordDistractorError', () => {
+  it('files the pick as a rule-based error of the strategy component', async () => {
+    await recordDistractorError(
+      'r-1',
+      'o-make',
+      { id: 'd-made', content: 'made', strategy: 'morphological_variant', explanation: 'form' },
+      'make'
+    );
+
+    expect(mockPrisma.errorAnalysis.create.mock.calls[0][0].data).toMatchObject({
+      responseId: 'r-1',
+      component: 'MORPH',
+      source: 'rule_based',
+      correction: 'make',
+    });
+  });
+});
+
+describe('getDistractorAnalytics', () => {
+  it('reports strategies, attractive and retired distractors', async () => {
+    mockPrisma.distractorStat.findMany.mockResolvedValue([
+      { ...stat('do', 30, 12), strategy: 'common_confusion' },
+      stat('male', 40, 1, true),
+      stat('mask', 5, 3),
+    ]);
+
+    const analytics = await getDistractorAnalytics('goal-1');
+
+    expect(analytics.totals).toEqual({ distractors: 3, retired: 1, timesShown: 75, timesPicked: 16 });
+    expect(analytics.strategies[0].strategy).toBe('common_confusion');
+    expect(analytics.attractive.map((d) => d.content)).toEqual(['do']);
+    expect(analytics.attractive[0]).toMatchObject({ objectContent: 'make', component: 'LEX', pickRate: 0.4 });
+    expect(analytics.retired.map((d) => d.content)).toEqual(['male']);
+  });
+});
@@ -0,0 +1,381 @@
+// @vitest-environment node
+/**
+ * Document Ingestion Service Tests
+ *
+ * Tests for turning uploads into clean text with quality reports:
+ * - PDF text layer (FlateDecode content, ToUnicode fonts, hyphenation, decode limits)
+ * - DOCX paragraphs and EPUB chapters in spine order
+ * - SRT/VTT cues with timestamps
+ * - HTML boilerplate removal
+ * - Format detection, quality assessment and upload processing
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { deflateSync } from 'zlib';
+
+vi.mock('../../db/prisma', () => ({
+  getPrisma: () => ({}),
+}));
+
+import {
+  ingestDocument,
+  detectDocumentFormat,
+  assessExtractionQuality,
+  extractRtfText,
+} from '../corpus-sources/document-ingestion.service';
+import { processUserUploads } from '../corpus-sources/corpus-pipeline.service';
+import { readPdfText } from '../file-formats/pdf-reader';
+import { parseSubtitles } from '../file-formats/subtitle-reader';
+import { extractReadableText } from '../file-formats/html-text';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+type PdfObjectSpec = string | { dict: string; stream: string };
+
+/** Assemble a PDF from object bodies (numbered from 1); streams are deflated */
+function buildPdf(objects: PdfObjectSpec[]): Buffer {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  objects.forEach((spec, i) => {
+    if (typeof spec === 'string') {
+      parts.push(Buffer.from(`${i + 1} 0 obj\n${spec}\nendobj\n`, 'latin1'));
+    } else {
+      const data = deflateSync(Buffer.from(spec.stream, 'latin1'));
+      parts.push(
+        Buffer.from(
+          `${i + 1} 0 obj\n<< ${spec.dict} /Filter /FlateDecode /Length ${data.length} >>\nstream\n`,
+          'latin1'
+        ),
+        data,
+        Buffer.from('\nendstream\nendobj\n', 'latin1')
+      );
+    }
+  });
+  parts.push(Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1'));
+  return Buffer.concat(parts);
+}
+
+const TO_UNICODE = [
+  '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+  '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+  '3 beginbfchar <0003> <0020> <0004> <0043> <0007> <00E9> endbfchar',
+  '1 beginbfrange <0005> <0006> [<0061> <0066>] endbfrange',
+  '1 beginbfrange <0010> <0012> <0073> endbfrange',
+  'endcmap CMapName currentdict /CMap defineresource pop end end',
+].join('\n');
+
+function policyPdf(): Buffer {
+  return buildPdf([
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> >>',
+    '<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>',
+    '<< /Type /Page /Parent 2 0 R /Contents [8 0 R] >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type0 /BaseFont /ABCDEF+Calibri /ToUnicode 9 0 R >>',
+    {
+      dict: '',
+      stream:
+        'BT /F1 11 Tf 72 720 Td (Hand hygiene is re-) Tj 0 -14 Td (quired before patient contact.) Tj ET\n' +
+        'BT /F1 11 Tf 1 0 0 1 72 680 Tm [(Wash)-250(your)-250(hands \\(twice\\))] TJ ET',
+    },
+    {
+      dict: '',
+      stream: 'BT /F2 12 Tf 72 720 Td <0004000500060007> Tj <0003> Tj <001000110012> Tj ET',
+    },
+    { dict: '', stream: TO_UNICODE },
+  ]);
+}
+
+interface ZipFile {
+  name: string;
+  data: string;
+}
+
+/** Stored (uncompressed) ZIP archive */
+function buildZip(files: ZipFile[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const data = Buffer.from(file.data, 'utf8');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const DOCX_XML =
+  '<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="x"><w:body>' +
+  '<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Falls Prevention</w:t></w:r></w:p>' +
+  '<w:p><w:r><w:t xml:space="preserve">Assess every patient </w:t></w:r>' +
+  '<w:r><w:t>on admission &amp; after a fall.</w:t></w:r><w:r><w:tab/><w:t>Section 2</w:t></w:r></w:p>' +
+  '<w:p/></w:body></w:document>';
+
+function epub(): Buffer {
+  const chapter = (title: string, body: string) =>
+    `<?xml version="1.0"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>${title}</title></head>` +
+    `<body><h1>${title}</h1><p>${body}</p></body></html>`;
+  return buildZip([
+    { name: 'mimetype', data: 'application/epub+zip' },
+    {
+      name: 'META-INF/container.xml',
+      data: '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>',
+    },
+    {
+      name: 'OEBPS/content.opf',
+      data:
+        '<package><manifest>' +
+        '<item id="c2" href="text/two.xhtml" media-type="application/xhtml+xml"/>' +
+        '<item id="c1" href="text/one.xhtml" media-type="application/xhtml+xml"/>' +
+        '<item id="css" href="style.css" media-type="text/css"/>' +
+        '</manifest><spine><itemref idref="c1"/><itemref idref="c2"/></spine></package>',
+    },
+    {
+      name: 'OEBPS/text/one.xhtml',
+      data: chapter('Arrival', 'The night shift began with a handover.'),
+    },
+    { name: 'OEBPS/text/two.xhtml', data: chapter('Rounds', 'Every patient was checked twice.') },
+  ]);
+}
+
+const SRT = [
+  '1',
+  '00:00:01,000 --> 00:00:03,500',
+  '<i>Good morning,</i> nurse.',
+  '',
+  '2',
+  '00:00:04,000 --> 00:00:06,250',
+  '{\\an8}Where does it hurt?',
+  '',
+].join('\r\n');
+
+const VTT = [
+  'WEBVTT',
+  '',
+  'NOTE recorded on ward 3',
+  '',
+  'intro',
+  '00:01.000 --> 00:02.500 align:start',
+  '<v Doctor>Take a deep breath.</v>',
+  '',
+  '01:00:00.000 --> 01:00:01.000',
+  'Thank you &amp; goodbye.',
+].join('\n');
+
+const HTML = `<!DOCTYPE html><html><head><title>Sepsis | Hospital Intranet</title>
+<script>var tracking = "Sepsis kills";</script></head><body>
+<header><a href="/">Home</a></header>
+<nav><ul><li><a href="/a">Policies</a></li><li><a href="/b">Rotas</a></li></ul></nav>
+<div class="cookie-banner"><p>We use cookies to improve your experience on this site.</p></div>
+<article>
+  <h1>Recognising sepsis</h1>
+  <p>Sepsis is a life-threatening reaction to an infection.</p>
+  <p>Escalate to the outreach team when the early warning score is five or more.</p>
+  <ul class="links"><li><a href="/x">Antibiotic guideline for adult inpatients</a></li><li><a href="/y">Fluid resuscitation chart</a></li></ul>
+  <div class="share"><p>Share this page with your colleagues on the ward.</p></div>
+</article>
+<footer><p>Copyright 2026 Hospital Trust. All rights reserved.</p></footer>
+</body></html>`;
+
+function upload(filename: string, content: string | Buffer, mimeType: string) {
+  return {
+    filename,
+    content: typeof content === 'string' ? content : content.toString('base64'),
+    mimeType,
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('readPdfText', () => {
+  it('reads compressed content streams through simple and ToUnicode fonts', () => {
+    const pdf = readPdfText(policyPdf());
+
+    expect(pdf.pages).toEqual([
+      'Hand hygiene is re-\nquired before patient contact.\nWash your hands (twice)',
+      'Café stu',
+    ]);
+    expect(pdf.warnings).toEqual([]);
+  });
+
+  it('skips streams that decode past the per-stream limit', () => {
+    const pdf = readPdfText(policyPdf(), { maxStreamBytes: 200, maxDocumentBytes: 1024 * 1024 });
+
+    expect(pdf.pages[0]).toContain('Wash your hands (twice)');
+    expect(pdf.warnings).toContain('Some compressed streams were too large to decode');
+  });
+
+  it('stops decoding once the document budget is spent', () => {
+    const pdf = readPdfText(policyPdf(), { maxStreamBytes: 1024 * 1024, maxDocumentBytes: 200 });
+
+    expect(pdf.pages).toEqual([
+      'Hand hygiene is re-\nquired before patient contact.\nWash your hands (twice)',
+      '',
+    ]);
+    expect(pdf.warnings).toContain('The document decompresses to too much data; the rest was skipped');
+  });
+
+  it('rejects files that are not PDFs', () => {
+    expect(() => readPdfText(Buffer.from('hello'))).toThrow('Not a PDF file');
+  });
+});
+
+describe('ingestDocument', () => {
+  it('keeps PDF pages as segments and joins hyphenated lines', () => {
+    const doc = ingestDocument(upload('policy.pdf', policyPdf(), 'application/pdf'));
+
+    expect(doc.format).toBe('pdf');
+    expect(doc.text).toBe(
+      'Hand hygiene is required before patient contact. Wash your hands (twice)\n\nCafé stu'
+    );
+    expect(doc.segments).toEqual([
+      { page: 1, start: 0, end: 72 },
+      { page: 2, start: 74, end: 82 },
+    ]);
+    expect(doc.text.slice(doc.segments[1].start, doc.segments[1].end)).toBe('Café stu');
+  });
+
+  it('extracts DOCX paragraphs', () => {
+    const docx = buildZip([{ name: 'word/document.xml', data: DOCX_XML }]);
+    const doc = ingestDocument(
+      upload(
+        'falls.docx',
+        docx,
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      )
+    );
+
+    expect(doc.text).toBe(
+      'Falls Prevention\n\nAssess every patient on admission & after a fall. Section 2'
+    );
+    expect(doc.segments).toHaveLength(2);
+  });
+
+  it('reads EPUB chapters in spine order', () => {
+    const doc = ingestDocument(upload('book.epub', epub(), 'application/epub+zip'));
+
+    expect(doc.format).toBe('epub');
+    expect(doc.text.split('\n\n')).toEqual([
+      'Arrival',
+      'The night shift began with a handover.',
+      'Rounds',
+      'Every patient was checked twice.',
+    ]);
+    expect(doc.segments.map((s) => s.chapter)).toEqual([1, 1, 2, 2]);
+  });
+
+  it('keeps subtitle timestamps on each cue', () => {
+    const doc = ingestDocument(upload('episode.srt', SRT, 'application/x-subrip'));
+
+    expect(doc.text).toBe('Good morning, nurse.\n\nWhere does it hurt?');
+    expect(doc.segments[1]).toMatchObject({ startMs: 4000, endMs: 6250 });
+  });
+
+  it('fails gracefully on unreadable uploads', () => {
+    const doc = ingestDocument(
+      upload('broken.pdf', Buffer.from('%PDF-1.4 nothing here'), 'application/pdf')
+    );
+
+    expect(doc.report).toMatchObject({ quality: 'failed', used: false, words: 0 });
+    expect(doc.report.warnings).toContain('No text could be extracted');
+  });
+});
+
+describe('parseSubtitles', () => {
+  it('parses WebVTT, skipping headers and notes', () => {
+    expect(parseSubtitles(VTT)).toEqual([
+      { startMs: 1000, endMs: 2500, text: 'Take a deep breath.' },
+      { startMs: 3600000, endMs: 3601000, text: 'Thank you & goodbye.' },
+    ]);
+  });
+});
+
+describe('extractReadableText', () => {
+  it('keeps article prose and drops navigation, banners and link lists', () => {
+    const html = extractReadableText(HTML);
+
+    expect(html.title).toBe('Sepsis | Hospital Intranet');
+    expect(html.blocks).toEqual([
+      'Recognising sepsis',
+      'Sepsis is a life-threatening reaction to an infection.',
+      'Escalate to the outreach team when the early warning score is five or more.',
+    ]);
+    expect(html.removedBlocks).toBe(2);
+  });
+});
+
+describe('format detection and quality', () => {
+  it('trusts content over declared types', () => {
+    expect(detectDocumentFormat(upload('file.bin', policyPdf(), 'application/octet-stream'))).toBe(
+      'pdf'
+    );
+    expect(detectDocumentFormat(upload('notes.txt', VTT, 'text/plain'))).toBe('vtt');
+    expect(detectDocumentFormat(upload('notes.txt', 'Just some notes.', 'text/plain'))).toBe(
+      'text'
+    );
+  });
+
+  it('flags glyph soup as poor', () => {
+    const garbled = assessExtractionQuality(
+      'Tf BT ET xqzt bcdf Tj 0 0 1 rg q Q cm gs W n re f* sdkfj qwrt'
+    );
+    const prose = assessExtractionQuality(
+      'Patients must be assessed within 24 hours of admission.'
+    );
+
+    expect(garbled.quality).toBe('poor');
+    expect(prose.quality).toBe('good');
+    expect(prose.warnings).toEqual(['Very little text was extracted']);
+  });
+
+  it('strips RTF control words and decodes escapes', () => {
+    const rtf =
+      "{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}\\f0 Caf\\'e9 policy\\par Second \\u8212? line}";
+
+    expect(extractRtfText(rtf).trim()).toBe('Café policy\nSecond — line');
+  });
+});
+
+describe('processUserUploads', () => {
+  it('reports every document and skips unusable ones', async () => {
+    const result = await processUserUploads('goal-1', [
+      upload('policy.pdf', policyPdf(), 'application/pdf'),
+      upload('scan.pdf', Buffer.from('%PDF-1.4 nothing here'), 'application/pdf'),
+    ]);
+
+    expect(result.documentCount).toBe(1);
+    expect(result.documents.map((d) => [d.filename, d.used])).toEqual([
+      ['policy.pdf', true],
+      ['scan.pdf', false],
+    ]);
+    expect(result.items.map((i) => i.content)).toContain('hygiene');
+  });
+});
@@ -0,0 +1,355 @@
+// @vitest-environment node
+/**
+ * Glossary Service Tests
+ *
+ * Tests for the bilingual glossary of language objects:
+ * - Dictionary senses from corpus packs in the learner's native language
+ * - The primary gloss shown in hints and feedback
+ * - Editing, reordering and deleting senses
+ * - Provider senses and filling a goal's glossary
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+interface SenseRow {
+  id: string;
+  objectId: string;
+  senseIndex: number;
+  partOfSpeech: string | null;
+  definition: string | null;
+  translation: string | null;
+  l1: string | null;
+  examples: string;
+  source: string;
+  updatedAt: Date;
+}
+
+// In-memory GlossarySense table
+const rows: SenseRow[] = [];
+let nextId = 1;
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+
+const generateGlossary = vi.fn();
+vi.mock('../claude.service', () => ({
+  getClaudeService: () => ({ generateGlossary }),
+}));
+
+import {
+  findDictionarySenses,
+  primaryGloss,
+  getGloss,
+  addGlossarySense,
+  updateGlossarySense,
+  makePrimarySense,
+  deleteGlossarySense,
+  importGlossaryFromDictionaries,
+  generateGlossaryWithProvider,
+  fillGlossaryForGoal,
+} from '../glossary.service';
+import { configureCorpusPacks, parseCorpusPack } from '../corpus-sources/corpus-pack.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+// The in-memory GlossarySense table behind the mock
+const senses = mockPrisma.glossarySense;
+senses.findMany.mockImplementation(({ where }: { where: { objectId: string } }) =>
+  Promise.resolve(
+    rows
+      .filter((r) => r.objectId === where.objectId)
+      .sort((a, b) => a.senseIndex - b.senseIndex)
+      .map((r) => ({ ...r }))
+  )
+);
+senses.findUnique.mockImplementation(({ where }: { where: { id: string } }) =>
+  Promise.resolve(rows.find((r) => r.id === where.id) ?? null)
+);
+senses.count.mockImplementation(({ where }: { where: { objectId: string } }) =>
+  Promise.resolve(rows.filter((r) => r.objectId === where.objectId).length)
+);
+senses.create.mockImplementation(({ data }: { data: Omit<SenseRow, 'id' | 'updatedAt'> }) => {
+  const row = { ...data, id: `sense-${nextId++}`, updatedAt: new Date() };
+  rows.push(row);
+  return Promise.resolve(row);
+});
+senses.update.mockImplementation(({ where, data }: { where: { id: string }; data: Partial<SenseRow> }) => {
+  const row = rows.find((r) => r.id === where.id);
+  Object.assign(row ?? {}, data);
+  return Promise.resolve(row);
+});
+senses.delete.mockImplementation(({ where }: { where: { id: string } }) => {
+  rows.splice(
+    rows.findIndex((r) => r.id === where.id),
+    1
+  );
+  return Promise.resolve();
+});
+senses.deleteMany.mockImplementation(({ where }: { where: { objectId: string; source: string } }) => {
+  for (const row of rows.filter((r) => r.objectId === where.objectId && r.source === where.source)) {
+    rows.splice(rows.indexOf(row), 1);
+  }
+  return Promise.resolve();
+});
+
+const PACK = JSON.stringify({
+  format: 'logos-corpus-pack',
+  version: 1,
+  id: 'nursing-bilingual',
+  name: 'Nursing Bilingual',
+  language: 'en',
+  entries: [
+    {
+      word: 'chart',
+      pos: 'n',
+      rank: 900,
+      definition: 'A record of a patient’s condition and treatment.',
+      translations: { ko: '차트', es: 'historia clínica' },
+      examples: ['Check the chart before giving medication.'],
+    },
+    {
+      word: 'charted',
+      lemma: 'chart',
+      pos: 'v',
+      rank: 4000,
+      definition: 'To record information in a chart.',
+      translations: { es: 'registrar' },
+    },
+    {
+      word: 'chart',
+      pos: 'n',
+      rank: 900,
+      definition: 'A record of a patient’s condition and treatment.',
+    },
+    { word: 'ward', pos: 'n', rank: 1200 },
+  ],
+});
+
+const SPANISH_PACK = PACK.replace('"language":"en"', '"language":"es"').replace(
+  'nursing-bilingual',
+  'spanish-core'
+);
+
+function object(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'obj-1',
+    content: 'chart',
+    contentJson: null,
+    goal: { domain: 'medical', user: { nativeLanguage: 'es', targetLanguage: 'en' } },
+    ...overrides,
+  };
+}
+
+function senseRow(overrides: Partial<SenseRow>): SenseRow {
+  return {
+    id: `sense-${nextId++}`,
+    objectId: 'obj-1',
+    senseIndex: 0,
+    partOfSpeech: null,
+    definition: null,
+    translation: null,
+    l1: null,
+    examples: '[]',
+    source: 'user',
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+let tmp: string;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  rows.length = 0;
+  nextId = 1;
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'logos-glossary-'));
+  fs.writeFileSync(path.join(tmp, 'nursing-bilingual.json'), PACK);
+  configureCorpusPacks({ bundledDir: tmp, userDir: path.join(tmp, 'user') });
+  mockPrisma.languageObject.findUnique.mockResolvedValue(object());
+});
+
+afterEach(() => {
+  configureCorpusPacks(null);
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('findDictionarySenses', () => {
+  it('takes matching entries in the target language with native-language translations', () => {
+    const packs = [parseCorpusPack(PACK), parseCorpusPack(SPANISH_PACK)];
+
+    expect(findDictionarySenses(packs, 'Chart', 'en', 'es-MX')).toEqual([
+      {
+        partOfSpeech: 'noun',
+        definition: 'A record of a patient’s condition and treatment.',
+        translation: 'historia clínica',
+        l1: 'es',
+        examples: ['Check the chart before giving medication.'],
+      },
+      {
+        partOfSpeech: 'verb',
+        definition: 'To record information in a chart.',
+        translation: 'registrar',
+        l1: 'es',
+        examples: undefined,
+      },
+      {
+        partOfSpeech: 'noun',
+        definition: 'A record of a patient’s condition and treatment.',
+        translation: undefined,
+        l1: null,
+        examples: undefined,
+      },
+    ]);
+    expect(findDictionarySenses(packs, 'ward', 'en', 'es')).toEqual([]);
+  });
+});
+
+describe('primaryGloss', () => {
+  it('uses the primary definition and the first translation into the native language', () => {
+    const senses = [
+      senseRow({ definition: 'A map of the sea.' }),
+      senseRow({ senseIndex: 1, translation: '차트', l1: 'ko' }),
+      senseRow({
+        senseIndex: 2,
+        definition: 'A patient record.',
+        translation: 'historia',
+        l1: 'es',
+      }),
+    ].map((row) => ({ ...row, source: 'user' as const, examples: ['A sea chart.'] }));
+
+    expect(primaryGloss(senses, 'es')).toEqual({
+      partOfSpeech: null,
+      definition: 'A map of the sea.',
+      translation: 'historia',
+      example: 'A sea chart.',
+    });
+    expect(primaryGloss([], 'es')).toBeNull();
+  });
+
+  it('imports dictionary senses the first time a gloss is needed', async () => {
+    const gloss = await getGloss('obj-1');
+
+    expect(gloss).toMatchObject({ translation: 'historia clínica', partOfSpeech: 'noun' });
+    expect(rows.map((r) => [r.senseIndex, r.source])).toEqual([
+      [0, 'dictionary'],
+      [1, 'dictionary'],
+      [2, 'dictionary'],
+    ]);
+
+    await getGloss('obj-1');
+    expect(mockPrisma.glossarySense.create).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('dictionary import', () => {
+  it('replaces earlier dictionary senses and keeps the learner’s own', async () => {
+    rows.push(
+      senseRow({ senseIndex: 0, definition: 'Old entry.', source: 'dictionary' }),
+      senseRow({ senseIndex: 1, translation: 'gráfico', l1: 'es', source: 'user' })
+    );
+
+    const senses = await importGlossaryFromDictionaries('obj-1');
+
+    expect(senses.map((s) => [s.senseIndex, s.source, s.translation])).toEqual([
+      [0, 'user', 'gráfico'],
+      [1, 'dictionary', 'historia clínica'],
+      [2, 'dictionary', 'registrar'],
+      [3, 'dictionary', null],
+    ]);
+  });
+
+  it('falls back to the definition stored by the corpus pipeline', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(
+      object({
+        content: 'triage',
+        contentJson: JSON.stringify({ pos: 'noun', definition: 'Sorting patients by urgency.' }),
+      })
+    );
+
+    const senses = await importGlossaryFromDictionaries('obj-1');
+
+    expect(senses).toMatchObject([
+      { partOfSpeech: 'noun', definition: 'Sorting patients by urgency.', source: 'dictionary' },
+    ]);
+  });
+});
+
+describe('editing', () => {
+  it('adds, edits, reorders and deletes senses', async () => {
+    let senses = await addGlossarySense('obj-1', {
+      definition: 'A diagram.',
+      translation: 'gráfico',
+      examples: ['  A bar chart. ', ''],
+    });
+    expect(senses[0]).toMatchObject({ l1: 'es', examples: ['A bar chart.'], source: 'user' });
+
+    rows.push(senseRow({ senseIndex: 1, definition: 'A patient record.', source: 'dictionary' }));
+    const recordId = rows[1].id;
+
+    senses = await updateGlossarySense(recordId, { translation: 'historia clínica' });
+    expect(senses[1]).toMatchObject({
+      definition: 'A patient record.',
+      translation: 'historia clínica',
+      l1: 'es',
+      source: 'user',
+    });
+
+    senses = await makePrimarySense(recordId);
+    expect(senses.map((s) => s.definition)).toEqual(['A patient record.', 'A diagram.']);
+
+    senses = await deleteGlossarySense(recordId);
+    expect(senses).toMatchObject([{ senseIndex: 0, definition: 'A diagram.' }]);
+
+    await expect(addGlossarySense('obj-1', { partOfSpeech: 'noun' })).rejects.toThrow(
+      /definition or a translation/
+    );
+  });
+});
+
+describe('provider', () => {
+  it('stores generated senses as provider senses in the learner’s language', async () => {
+    generateGlossary.mockResolvedValue([
+      {
+        partOfSpeech: 'noun',
+        definition: 'A patient record.',
+        translation: 'historia',
+        examples: [],
+      },
+    ]);
+
+    const senses = await generateGlossaryWithProvider('obj-1');
+
+    expect(generateGlossary).toHaveBeenCalledWith({
+      content: 'chart',
+      targetLanguage: 'en',
+      nativeLanguage: 'es',
+      domain: 'medical',
+    });
+    expect(senses).toMatchObject([{ translation: 'historia', l1: 'es', source: 'provider' }]);
+  });
+
+  it('fills a goal from dictionaries first and the provider for the rest', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue([{ id: 'obj-1' }, { id: 'obj-2' }]);
+    mockPrisma.languageObject.findUnique.mockImplementation(
+      ({ where }: { where: { id: string } }) =>
+        Promise.resolve(where.id === 'obj-1' ? object() : object({ id: 'obj-2', content: 'ward' }))
+    );
+    generateGlossary.mockRejectedValue(new Error('No AI provider configured for content'));
+
+    const result = await fillGlossaryForGoal('goal-1', { useProvider: true });
+
+    expect(result).toEqual({ missing: 2, fromDictionary: 1, fromProvider: 0, unresolved: 1 });
+    expect(mockPrisma.languageObject.findMany.mock.calls[0][0]).toMatchObject({
+      where: { goalId: 'goal-1', type: 'LEX', glossary: { none: {} } },
+    });
+  });
+});
@@ -0,0 +1,153 @@
+// @vitest-environment node
+/**
+ * Grammar Track Service Tests
+ *
+ * Tests for the construction track wired to the database:
+ * - Creating one SYNT object per catalog construction
+ * - Reporting the roadmap with status and object IDs
+ * - Keeping track objects out of the vocabulary queue and scheduling only
+ *   unlocked constructions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+
+import {
+  grammarTargetLevel,
+  syncGrammarObjects,
+  syncAllGrammarObjects,
+  getGrammarRoadmap,
+  planGrammarPractice,
+} from '../grammar-track.service';
+import { CORE_CONSTRUCTIONS } from '../../../core/grammar';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+function synt(id: string, constructionId: string, stage?: number, nextReview: Date | null = null) {
+  return {
+    id,
+    type: 'SYNT',
+    content: CORE_CONSTRUCTIONS[constructionId].name,
+    masteryState: stage === undefined ? null : { stage, nextReview },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.goalSpec.findUnique.mockResolvedValue({ benchmark: 'IELTS' });
+  mockPrisma.languageObject.createMany.mockImplementation(
+    async (args: { data: unknown[] }) => ({ count: args.data.length })
+  );
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('grammarTargetLevel', () => {
+  it('uses CEFR benchmarks and defaults otherwise', () => {
+    expect(grammarTargetLevel('B1')).toBe('B1');
+    expect(grammarTargetLevel('IELTS')).toBe('B2');
+    expect(grammarTargetLevel(null)).toBe('B2');
+  });
+});
+
+describe('syncGrammarObjects', () => {
+  it('creates the constructions a goal is missing', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue([{ content: CORE_CONSTRUCTIONS.svo_basic.name }]);
+
+    const created = await syncGrammarObjects('goal-1');
+
+    const data = mockPrisma.languageObject.createMany.mock.calls[0][0].data;
+    expect(created).toBe(Object.keys(CORE_CONSTRUCTIONS).length - 1);
+    expect(data.some((d: { content: string }) => d.content === CORE_CONSTRUCTIONS.svo_basic.name)).toBe(false);
+
+    const presentSimple = data.find((d: { content: string }) => d.content === 'Present Simple Tense');
+    expect(presentSimple).toMatchObject({ goalId: 'goal-1', type: 'SYNT', irtDifficulty: -2 });
+    expect(JSON.parse(presentSimple.contentJson).constructionId).toBe('present_simple');
+  });
+
+  it('does nothing once the track exists', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue(
+      Object.values(CORE_CONSTRUCTIONS).map((c) => ({ content: c.name }))
+    );
+
+    expect(await syncGrammarObjects('goal-1')).toBe(0);
+    expect(mockPrisma.languageObject.createMany).not.toHaveBeenCalled();
+  });
+
+  it('backfills every goal at once', async () => {
+    mockPrisma.goalSpec.findMany.mockResolvedValue([{ id: 'goal-1' }, { id: 'goal-2' }]);
+    mockPrisma.languageObject.findMany.mockResolvedValue([]);
+
+    const created = await syncAllGrammarObjects();
+
+    expect(created).toBe(2 * Object.keys(CORE_CONSTRUCTIONS).length);
+    expect(mockPrisma.languageObject.createMany.mock.calls.map((c) => c[0].data[0].goalId)).toEqual([
+      'goal-1',
+      'goal-2',
+    ]);
+  });
+});
+
+describe('getGrammarRoadmap', () => {
+  it('reports status and object IDs up to the goal level', async () => {
+    mockPrisma.goalSpec.findUnique.mockResolvedValue({ benchmark: 'A2' });
+    mockPrisma.languageObject.findMany.mockResolvedValue([
+      synt('o-svo', 'svo_basic', 4),
+      synt('o-sv', 'sv_intransitive', 2),
+      synt('o-past', 'past_simple'),
+    ]);
+
+    const roadmap = await getGrammarRoadmap('goal-1');
+
+    expect(roadmap.targetLevel).toBe('A2');
+    expect(roadmap.entries.every((e) => ['A1', 'A2'].includes(e.cefrLevel))).toBe(true);
+    expect(roadmap.entries.find((e) => e.constructionId === 'svo_basic')).toMatchObject({
+      objectId: 'o-svo',
+      status: 'mastered',
+    });
+    expect(roadmap.entries.find((e) => e.constructionId === 'past_simple')).toMatchObject({
+      objectId: 'o-past',
+      status: 'locked',
+      missingPrerequisites: ['present_simple'],
+    });
+    expect(roadmap.counts.mastered).toBe(1);
+    expect(mockPrisma.languageObject.createMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown goals', async () => {
+    mockPrisma.goalSpec.findUnique.mockResolvedValue(null);
+
+    await expect(getGrammarRoadmap('missing')).rejects.toThrow('Goal not found');
+  });
+});
+
+describe('planGrammarPractice', () => {
+  it('separates the track and schedules due and unlocked constructions', () => {
+    const objects = [
+      { id: 'w-1', type: 'LEX', content: 'analysis', masteryState: null },
+      synt('o-svo', 'svo_basic', 2, new Date('2026-10-17')),
+      synt('o-sv', 'sv_intransitive', 3, new Date('2026-10-30')),
+      synt('o-present', 'present_simple'),
+      synt('o-passive', 'passive_basic'),
+    ];
+
+    const plan = planGrammarPractice(objects, 20, now);
+
+    expect([...plan.trackObjectIds].sort()).toEqual(['o-passive', 'o-present', 'o-sv', 'o-svo']);
+    expect(plan.practiceObjectIds).toEqual(['o-svo', 'o-present']);
+  });
+
+  it('leaves no grammar slots in very short sessions', () => {
+    const plan = planGrammarPractice([synt('o-svo', 'svo_basic')], 4, now);
+
+    expect(plan.practiceObjectIds).toEqual([]);
+  });
+});
@@ -0,0 +1,6 @@
+/**
+ * Shared fixtures for service tests.
+ */
+
+/** Fixed clock for tests that reason about due dates and recency */
+export const NOW = new Date('2026-10-18T12:00:00');
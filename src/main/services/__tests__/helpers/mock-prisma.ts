@@ -0,0 +1,56 @@
+/**
+ * Prisma Test Double
+ *
+ * Stands in for db/prisma in service tests. Every model method is a vi.fn
+ * created on first use, so tests only stub what the service reads:
+ *
+ *   vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+ *   import { mockPrisma } from './helpers/mock-prisma';
+ *
+ * $transaction runs an interactive callback against mockPrisma itself and
+ * awaits an array of operations; override it to test rollbacks.
+ */
+
+import { vi, type Mock } from 'vitest';
+
+export type MockDelegate = Record<string, Mock>;
+
+export type MockPrisma = Record<string, MockDelegate> & { $transaction: Mock };
+
+function createDelegate(): MockDelegate {
+  const methods: MockDelegate = {};
+  return new Proxy(methods, {
+    get: (target, method) => {
+      if (typeof method !== 'string' || method === 'then') {
+        return undefined;
+      }
+      target[method] ??= vi.fn();
+      return target[method];
+    },
+  });
+}
+
+const delegates: Record<string, MockDelegate> = {};
+
+const $transaction = vi.fn(async (operations: unknown) =>
+  typeof operations === 'function'
+    ? (operations as (tx: MockPrisma) => Promise<unknown>)(mockPrisma)
+    : Promise.all(operations as Promise<unknown>[])
+);
+
+export const mockPrisma = new Proxy(delegates, {
+  get: (target, model) => {
+    if (model === '$transaction') {
+      return $transaction;
+    }
+    if (typeof model !== 'string' || model === 'then') {
+      return undefined;
+    }
+    target[model] ??= createDelegate();
+    return target[model];
+  },
+}) as MockPrisma;
+
+export function getPrisma(): MockPrisma {
+  return mockPrisma;
+}
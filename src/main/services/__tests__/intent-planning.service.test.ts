@@ -0,0 +1,169 @@
+// @vitest-environment node
+/**
+ * Intent Planning Service Tests
+ *
+ * Tests for planning how an item is practised:
+ * - Choosing an intent near the target success from the learner's theta
+ * - Picking companion objects with the constraint solver
+ * - Carrying the intent into generation settings
+ * - Calibrating logged predictions against outcomes
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+
+import {
+  planTaskIntent,
+  intentGenerationConfig,
+  toTaskIntent,
+  getIntentCalibration,
+} from '../intent-planning.service';
+import { TRADITIONAL_TASK_TYPES } from '../../../core/tasks';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function row(id: string, content: string, stage: number | null = 2) {
+  return {
+    id,
+    type: 'LEX',
+    content,
+    goalId: 'goal-1',
+    frequency: 0.8,
+    relationalDensity: 0.5,
+    contextualContribution: 0.5,
+    priority: 0,
+    irtDifficulty: 0,
+    irtDiscrimination: 1,
+    morphologicalScore: null,
+    phonologicalDifficulty: null,
+    masteryState: stage === null ? null : { stage, nextReview: null },
+  };
+}
+
+function target(stage: number, cueFreeAccuracy = 0.6, cueAssistedAccuracy = 0.7) {
+  return {
+    ...row('o-make', 'make'),
+    masteryState: { stage, cueFreeAccuracy, cueAssistedAccuracy, nextReview: null },
+    goal: {
+      user: {
+        thetaLexical: 1,
+        thetaMorphology: -1,
+        thetaPhonology: 0,
+        thetaSyntactic: 0,
+        thetaPragmatic: 0,
+      },
+    },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.response.findMany.mockResolvedValue([]);
+  mockPrisma.languageObject.findMany.mockResolvedValue([]);
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('planTaskIntent', () => {
+  it('returns null for unknown objects', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(null);
+
+    expect(await planTaskIntent('s-1', 'missing')).toBeNull();
+  });
+
+  it('plans an intent near the target and a task type for the stage', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(target(2));
+
+    const plan = await planTaskIntent('s-1', 'o-make', 0.8);
+
+    expect(plan).not.toBeNull();
+    expect(plan!.targetSuccess).toBe(0.8);
+    expect(plan!.expectedSuccess).toBeGreaterThan(0);
+    const [minStage, maxStage] = TRADITIONAL_TASK_TYPES[plan!.taskType].masteryRange;
+    expect(2).toBeGreaterThanOrEqual(minStage);
+    expect(2).toBeLessThanOrEqual(maxStage);
+  });
+
+  it('avoids the intents used last in the session', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(target(3));
+    const first = await planTaskIntent('s-1', 'o-make', 0.9);
+
+    mockPrisma.response.findMany.mockResolvedValue([{ intent: first!.intent }]);
+    const second = await planTaskIntent('s-1', 'o-make', 0.9);
+
+    expect(second!.intent).not.toBe(first!.intent);
+    expect(mockPrisma.response.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { sessionId: 's-1', intent: { not: null } } })
+    );
+  });
+
+  it('picks companions from the goal within the task mastery range', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(target(2));
+    mockPrisma.languageObject.findMany.mockResolvedValue([
+      row('w-1', 'take', 2),
+      row('w-2', 'do', 2),
+      row('w-3', 'have', 2),
+      row('w-4', 'get', 2),
+      row('w-5', 'far', 4),
+    ]);
+
+    const plan = await planTaskIntent('s-1', 'o-make', 0.8);
+    const [minStage, maxStage] = TRADITIONAL_TASK_TYPES[plan!.taskType].masteryRange;
+    const stages: Record<string, number> = { 'w-1': 2, 'w-2': 2, 'w-3': 2, 'w-4': 2, 'w-5': 4 };
+
+    expect(plan!.companions.length).toBeGreaterThan(0);
+    expect(plan!.companions.length).toBeLessThanOrEqual(3);
+    for (const companion of plan!.companions) {
+      expect(stages[companion.objectId]).toBeGreaterThanOrEqual(minStage);
+      expect(stages[companion.objectId]).toBeLessThanOrEqual(maxStage);
+    }
+    expect(mockPrisma.languageObject.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { goalId: 'goal-1', type: 'LEX', id: { not: 'o-make' } } })
+    );
+  });
+});
+
+describe('intentGenerationConfig', () => {
+  it('caps scaffolding at the intent level and times fluency tasks', () => {
+    expect(intentGenerationConfig({ intent: 'fluency_building', expectedSuccess: 0.8, targetSuccess: 0.8 }))
+      .toEqual({ maxCueLevel: 0, fluencyRatio: 1 });
+    expect(intentGenerationConfig({ intent: 'introduce_new', expectedSuccess: 0.8, targetSuccess: 0.8 }))
+      .toEqual({ maxCueLevel: 3, fluencyRatio: 0.3 });
+  });
+
+  it('stores the plan on a task by companion ID', () => {
+    expect(
+      toTaskIntent({
+        intent: 'reinforce_known',
+        expectedSuccess: 0.82,
+        targetSuccess: 0.8,
+        taskType: 'cloze_deletion',
+        companions: [{ objectId: 'w-1', content: 'take' }],
+      })
+    ).toEqual({ intent: 'reinforce_known', expectedSuccess: 0.82, targetSuccess: 0.8, companionObjectIds: ['w-1'] });
+  });
+});
+
+describe('getIntentCalibration', () => {
+  it('summarizes logged predictions of the goal', async () => {
+    mockPrisma.response.findMany.mockResolvedValue([
+      { intent: 'reinforce_known', predictedSuccess: 0.8, correct: true },
+      { intent: 'reinforce_known', predictedSuccess: 0.8, correct: false },
+    ]);
+
+    const calibration = await getIntentCalibration('goal-1');
+
+    expect(calibration).toMatchObject({ goalId: 'goal-1', sampleCount: 2, observedRate: 0.5 });
+    expect(mockPrisma.response.findMany.mock.calls[0][0].where).toEqual({
+      object: { goalId: 'goal-1' },
+      intent: { not: null },
+      predictedSuccess: { not: null },
+    });
+  });
+});
@@ -0,0 +1,229 @@
+// @vitest-environment node
+/**
+ * LLM Provider Tests
+ *
+ * Tests for routing AI capabilities to configurable backends:
+ * - The OpenAI-compatible provider's request and response handling
+ * - Building providers from per-capability settings
+ * - ClaudeService sending each capability to its own provider
+ * - Falling back to offline templates, never to another provider
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OpenAICompatibleProvider } from '../llm-providers/openai-compatible';
+import { AnthropicProvider } from '../llm-providers/anthropic';
+import { createCapabilityProviders } from '../llm-providers/registry';
+import type { CompletionRequest } from '../llm-providers/types';
+import { ClaudeService } from '../claude.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function completion(text: string) {
+  return {
+    model: 'llama-3-8b',
+    choices: [{ message: { role: 'assistant', content: text } }],
+    usage: { completion_tokens: 7 },
+  };
+}
+
+function stubProvider(text: string) {
+  return {
+    kind: 'openai-compatible' as const,
+    model: 'stub',
+    complete: vi.fn(async (_request: CompletionRequest) => ({ text, model: 'stub', outputTokens: 3 })),
+    ping: vi.fn(async () => undefined),
+  };
+}
+
+const contentRequest = {
+  type: 'example' as const,
+  content: 'triage',
+  targetLanguage: 'en',
+  nativeLanguage: 'ko',
+};
+
+const errorRequest = {
+  content: 'triage',
+  userResponse: 'triaj',
+  expectedResponse: 'triage',
+  targetLanguage: 'en',
+  nativeLanguage: 'ko',
+};
+
+const hintRequest = {
+  content: 'triage',
+  targetLanguage: 'en',
+  nativeLanguage: 'ko',
+  hintLevel: 1 as const,
+};
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('OpenAICompatibleProvider', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async () => jsonResponse(completion('A nurse performs triage.')));
+  });
+
+  it('posts a chat completion with system and user messages', async () => {
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:8080/v1/',
+      model: 'llama-3-8b',
+      apiKey: 'local-key',
+      fetch: fetchMock,
+    });
+
+    const result = await provider.complete({ system: 'Be brief.', prompt: 'Use triage', maxTokens: 64 });
+
+    expect(result).toEqual({ text: 'A nurse performs triage.', model: 'llama-3-8b', outputTokens: 7 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer local-key' });
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'llama-3-8b',
+      max_tokens: 64,
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Use triage' },
+      ],
+      stream: false,
+    });
+  });
+
+  it('omits the authorization header without a key', async () => {
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:11434/v1',
+      model: 'qwen2.5',
+      fetch: fetchMock,
+    });
+
+    await provider.complete({ prompt: 'hi', maxTokens: 8 });
+
+    expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('Authorization');
+  });
+
+  it('throws on error status and empty replies', async () => {
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:8080/v1',
+      model: 'llama-3-8b',
+      fetch: fetchMock,
+    });
+
+    fetchMock.mockResolvedValueOnce(new Response('model not loaded', { status: 503 }));
+    await expect(provider.complete({ prompt: 'hi', maxTokens: 8 })).rejects.toThrow(
+      'Model server returned 503: model not loaded'
+    );
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({ choices: [] }));
+    await expect(provider.complete({ prompt: 'hi', maxTokens: 8 })).rejects.toThrow('No text content');
+  });
+});
+
+describe('createCapabilityProviders', () => {
+  it('builds one provider per distinct configuration', () => {
+    const local = { kind: 'openai-compatible' as const, baseUrl: 'http://10.0.0.5:8000/v1', model: 'mistral' };
+    const providers = createCapabilityProviders(
+      { content: { kind: 'anthropic', apiKey: 'sk-test' }, errorAnalysis: local, hints: { ...local } },
+      { anthropicApiKey: undefined }
+    );
+
+    expect(providers.content).toBeInstanceOf(AnthropicProvider);
+    expect(providers.errorAnalysis).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(providers.hints).toBe(providers.errorAnalysis);
+  });
+
+  it('maps offline to no provider', () => {
+    const providers = createCapabilityProviders({
+      content: { kind: 'offline' },
+      errorAnalysis: { kind: 'offline' },
+      hints: { kind: 'offline' },
+    });
+
+    expect(providers).toEqual({ content: null, errorAnalysis: null, hints: null });
+  });
+
+  it('rejects an openai-compatible provider without an endpoint', () => {
+    expect(() =>
+      createCapabilityProviders({
+        content: { kind: 'openai-compatible', model: 'mistral' },
+        errorAnalysis: { kind: 'offline' },
+        hints: { kind: 'offline' },
+      })
+    ).toThrow('baseUrl');
+  });
+});
+
+describe('ClaudeService with providers', () => {
+  it('sends each capability to its configured provider', async () => {
+    const content = stubProvider('Triage sorts patients by urgency.');
+    const errors = stubProvider(
+      '{"errorType":"spelling","component":"LEX","explanation":"Misspelled","correction":"triage"}'
+    );
+    const hints = stubProvider('  Think of emergency rooms.  ');
+    const service = new ClaudeService({
+      providers: { content, errorAnalysis: errors, hints },
+      cacheEnabled: false,
+    });
+
+    const generated = await service.generateContent(contentRequest);
+    const analysis = await service.analyzeError(errorRequest);
+    const hint = await service.getHint(hintRequest);
+
+    expect(generated.content).toBe('Triage sorts patients by urgency.');
+    expect(generated.metadata).toMatchObject({ provider: 'openai-compatible', model: 'stub', offline: false });
+    expect(analysis).toMatchObject({ component: 'LEX', correction: 'triage' });
+    expect(hint.hint).toBe('Think of emergency rooms.');
+    expect(content.complete).toHaveBeenCalledTimes(1);
+    expect(errors.complete).toHaveBeenCalledTimes(1);
+    expect(hints.complete).toHaveBeenCalledTimes(1);
+    expect(hints.complete.mock.calls[0][0].maxTokens).toBe(256);
+  });
+
+  it('falls back to offline templates instead of another provider', async () => {
+    const local = stubProvider('unused');
+    local.complete.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const external = stubProvider('external');
+    const service = new ClaudeService({
+      providers: { content: external, errorAnalysis: local, hints: null },
+      cacheEnabled: false,
+    });
+
+    const analysis = await service.analyzeError(errorRequest);
+    const hint = await service.getHint(hintRequest);
+
+    expect(analysis.correction).toBe('triage');
+    expect(hint.level).toBe(1);
+    expect(external.complete).not.toHaveBeenCalled();
+    expect(service.getStatus()).toMatchObject({ online: false, errorMessage: 'No AI provider configured for hints' });
+  });
+
+  it('pings each distinct provider once when checking status', async () => {
+    const local = stubProvider('ok');
+    const service = new ClaudeService({ providers: { content: local, errorAnalysis: local, hints: null } });
+
+    const status = await service.checkStatus();
+
+    expect(status.online).toBe(true);
+    expect(local.ping).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports offline when no capability has a provider', async () => {
+    const service = new ClaudeService({ providers: { content: null, errorAnalysis: null, hints: null } });
+
+    const status = await service.checkStatus();
+
+    expect(status).toMatchObject({ online: false, errorMessage: 'No AI provider configured' });
+  });
+});
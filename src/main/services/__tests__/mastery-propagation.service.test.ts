@@ -0,0 +1,206 @@
+// @vitest-environment node
+/**
+ * Mastery Propagation Service Tests
+ *
+ * Tests for carrying progress over to word families and collocates:
+ * - Family detection by shared stem
+ * - Capped difficulty and stability updates with an audit log entry
+ * - No propagation for wrong answers or disabled goals
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+import { NOW } from './helpers/fixtures';
+
+import {
+  familyStrength,
+  propagateFromResponse,
+  getPropagationLog,
+  PROPAGATION_CONFIG,
+} from '../mastery-propagation.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function word(id: string, content: string, irtDifficulty: number, fsrsStability: number | null = null) {
+  return {
+    id,
+    content,
+    type: 'LEX',
+    priority: 0.5,
+    irtDifficulty,
+    masteryState: fsrsStability === null ? null : { stage: 1, fsrsStability },
+  };
+}
+
+const REGULATE = {
+  ...word('o-regulate', 'regulate', 0.5, 30),
+  goalId: 'goal-1',
+  goal: { propagationEnabled: true },
+};
+
+const CORRECT = {
+  objectId: 'o-regulate',
+  previousStage: 1 as const,
+  newStage: 2 as const,
+  correct: true,
+  responseTimeMs: 2500,
+  responseId: 'r-1',
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.languageObject.findUnique.mockResolvedValue(REGULATE);
+  mockPrisma.languageObject.findMany.mockResolvedValue([
+    word('o-regulation', 'regulation', 1.0, 10),
+    word('o-regulatory', 'regulatory', 1.2),
+  ]);
+  mockPrisma.collocation.findMany.mockResolvedValue([]);
+  mockPrisma.propagationLog.groupBy.mockResolvedValue([]);
+  mockPrisma.$transaction.mockResolvedValue([]);
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('familyStrength', () => {
+  it('links words sharing a long stem', () => {
+    expect(familyStrength('regulate', 'regulation')).toBeCloseTo(0.7);
+    expect(familyStrength('Regulatory', 'regulation')).toBeCloseTo(0.7);
+  });
+
+  it('ignores short or partial overlaps and phrases', () => {
+    expect(familyStrength('form', 'formal')).toBe(0);
+    expect(familyStrength('constitution', 'constant')).toBe(0);
+    expect(familyStrength('regulate', 'regulate prices')).toBe(0);
+    expect(familyStrength('regulate', 'regulate')).toBe(0);
+  });
+});
+
+describe('propagateFromResponse', () => {
+  it('makes family members easier and logs each update', async () => {
+    const summary = await propagateFromResponse(CORRECT, NOW);
+
+    expect(summary.enabled).toBe(true);
+    expect(summary.updates.map((u) => u.targetObjectId)).toEqual(['o-regulation', 'o-regulatory']);
+
+    // 0.5 (stage 1→2) × 0.7 stem share × 0.8 family weight × 0.8 confidence
+    const [regulation, regulatory] = summary.updates;
+    expect(regulation.magnitude).toBeCloseTo(0.224);
+    expect(regulation.difficultyDelta).toBeCloseTo(-0.112);
+    expect(regulation.stabilityDelta).toBeCloseTo(0.672);
+    expect(regulatory.stabilityDelta).toBe(0);
+    expect(regulatory.stabilityBefore).toBeNull();
+
+    expect(mockPrisma.languageObject.update).toHaveBeenCalledWith({
+      where: { id: 'o-regulation' },
+      data: { irtDifficulty: expect.closeTo(0.888, 5) },
+    });
+    expect(mockPrisma.masteryState.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.propagationLog.create).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.propagationLog.create.mock.calls[0][0].data).toMatchObject({
+      goalId: 'goal-1',
+      responseId: 'r-1',
+      sourceObjectId: 'o-regulate',
+      targetObjectId: 'o-regulation',
+      relationType: 'morphological',
+      difficultyBefore: 1.0,
+      stabilityBefore: 10,
+      reason: 'Transfer from "regulate" (stage 1→2)',
+    });
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('reaches collocates with confidence from their co-occurrence count', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue([]);
+    mockPrisma.collocation.findMany.mockResolvedValue([
+      {
+        word1Id: 'o-strictly',
+        word2Id: 'o-regulate',
+        npmi: 0.6,
+        cooccurrence: 5,
+        word1: word('o-strictly', 'strictly', 0.2),
+        word2: REGULATE,
+      },
+    ]);
+
+    const summary = await propagateFromResponse(CORRECT, NOW);
+
+    expect(summary.updates).toHaveLength(1);
+    expect(summary.updates[0]).toMatchObject({ targetObjectId: 'o-strictly', relationType: 'collocational' });
+    // 0.5 × 0.6 npmi × 0.5 collocation weight × 0.5 confidence
+    expect(summary.updates[0].magnitude).toBeCloseTo(0.075);
+  });
+
+  it('caps what a neighbour can receive in total', async () => {
+    mockPrisma.propagationLog.groupBy.mockResolvedValue([
+      {
+        targetObjectId: 'o-regulation',
+        _sum: { difficultyDelta: -(PROPAGATION_CONFIG.maxDifficultyDrop - 0.02), stabilityDelta: 10 },
+      },
+      {
+        targetObjectId: 'o-regulatory',
+        _sum: { difficultyDelta: -PROPAGATION_CONFIG.maxDifficultyDrop, stabilityDelta: 0 },
+      },
+    ]);
+
+    const summary = await propagateFromResponse(CORRECT, NOW);
+
+    expect(summary.updates).toHaveLength(1);
+    expect(summary.updates[0].difficultyDelta).toBeCloseTo(-0.02);
+    expect(summary.updates[0].stabilityDelta).toBe(0);
+    expect(mockPrisma.masteryState.update).not.toHaveBeenCalled();
+  });
+
+  it('does nothing for wrong answers or when the goal has it switched off', async () => {
+    expect((await propagateFromResponse({ ...CORRECT, correct: false }, NOW)).updates).toEqual([]);
+
+    mockPrisma.languageObject.findUnique.mockResolvedValue({
+      ...REGULATE,
+      goal: { propagationEnabled: false },
+    });
+    const summary = await propagateFromResponse(CORRECT, NOW);
+
+    expect(summary).toEqual({ sourceObjectId: 'o-regulate', enabled: false, updates: [] });
+    expect(mockPrisma.languageObject.findMany).not.toHaveBeenCalled();
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('getPropagationLog', () => {
+  it('returns null for unknown goals', async () => {
+    mockPrisma.goalSpec.findUnique.mockResolvedValue(null);
+
+    expect(await getPropagationLog('missing')).toBeNull();
+  });
+
+  it('lists recent updates with word content', async () => {
+    mockPrisma.goalSpec.findUnique.mockResolvedValue({ propagationEnabled: true });
+    mockPrisma.propagationLog.findMany.mockResolvedValue([
+      {
+        id: 'p-1',
+        createdAt: NOW,
+        sourceObjectId: 'o-regulate',
+        targetObjectId: 'o-regulation',
+        relationType: 'morphological',
+        magnitude: 0.112,
+        difficultyDelta: -0.056,
+        stabilityDelta: 0.336,
+        source: { content: 'regulate' },
+        target: { content: 'regulation' },
+      },
+    ]);
+
+    const log = await getPropagationLog('goal-1', 5);
+
+    expect(mockPrisma.propagationLog.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { goalId: 'goal-1' }, take: 5 })
+    );
+    expect(log).toMatchObject({ goalId: 'goal-1', enabled: true });
+    expect(log!.entries[0]).toMatchObject({ sourceContent: 'regulate', targetContent: 'regulation' });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Milestone Service Tests
+ *
+ * Tests for milestone detection wired to the database:
+ * - Streak counting and progress-state construction
+ * - Rewinding a stage change when no prior snapshot exists
+ * - Persisting earned events without re-awarding non-repeatables
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+
+import {
+  computeStreakDays,
+  buildProgressState,
+  createSessionActivity,
+  rewindStageChange,
+  checkMilestones,
+  acknowledgeMilestones,
+  clearMilestoneCache,
+} from '../milestone.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-10-18T12:00:00.000Z');
+
+function daysAgo(days: number): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+function objects(stages: Record<string, number>) {
+  return Object.entries(stages).map(([id, stage]) => ({
+    id,
+    type: 'LEX',
+    masteryState: { stage },
+  }));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  clearMilestoneCache();
+  mockPrisma.response.groupBy.mockResolvedValue([]);
+  mockPrisma.session.findMany.mockResolvedValue([]);
+  mockPrisma.session.count.mockResolvedValue(0);
+  mockPrisma.milestoneEvent.groupBy.mockResolvedValue([]);
+  mockPrisma.milestoneEvent.create.mockImplementation(async ({ data }) => ({
+    id: `event-${data.milestoneId}`,
+    ...data,
+  }));
+});
+
+// ============================================================================
+// Progress State
+// ============================================================================
+
+describe('computeStreakDays', () => {
+  it('counts consecutive days ending today', () => {
+    expect(computeStreakDays([daysAgo(0), daysAgo(1), daysAgo(2), daysAgo(4)], now)).toBe(3);
+  });
+
+  it('keeps a streak alive when today has no activity yet', () => {
+    expect(computeStreakDays([daysAgo(1), daysAgo(2)], now)).toBe(2);
+  });
+
+  it('returns 0 after a missed day', () => {
+    expect(computeStreakDays([daysAgo(2), daysAgo(3)], now)).toBe(0);
+  });
+});
+
+describe('buildProgressState', () => {
+  it('groups objects by stage and derives accuracy and perfect sessions', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue(objects({ a: 0, b: 2, c: 4 }));
+    mockPrisma.response.groupBy.mockImplementation(({ by }: { by: string[] }) =>
+      Promise.resolve(
+        by[0] === 'objectId'
+          ? [
+              { objectId: 'a', correct: true, _count: { _all: 3 } },
+              { objectId: 'b', correct: true, _count: { _all: 2 } },
+              { objectId: 'b', correct: false, _count: { _all: 1 } },
+            ]
+          : [
+              { sessionId: 's1', correct: true, _count: { _all: 5 } },
+              { sessionId: 's2', correct: false, _count: { _all: 1 } },
+            ]
+      )
+    );
+    mockPrisma.session.count.mockResolvedValue(2);
+    mockPrisma.session.findMany.mockResolvedValue([
+      { startedAt: daysAgo(0), endedAt: new Date(daysAgo(0).getTime() + 20 * 60000) },
+    ]);
+
+    const state = await buildProgressState('user-1', now);
+
+    expect(state.objectsByStage[0]).toEqual(['a']);
+    expect(state.objectsByStage[4]).toEqual(['c']);
+    expect(state.objectsByComponent.LEX).toEqual(['a', 'b', 'c']);
+    expect(state.automaticObjects.LEX).toEqual(['c']);
+    expect(state.totalReviews).toBe(6);
+    expect(state.overallAccuracy).toBeCloseTo(5 / 6);
+    expect(state.componentAccuracy.LEX).toBeCloseTo(5 / 6);
+    expect(state.perfectSessions).toBe(1);
+    expect(state.sessionCount).toBe(2);
+    expect(state.totalStudyTimeMinutes).toBe(20);
+    expect(state.currentStreakDays).toBe(1);
+  });
+
+  it('only reads sessions since the previous check into carried activity', async () => {
+    const activity = createSessionActivity();
+    mockPrisma.session.findMany.mockResolvedValue([
+      { startedAt: daysAgo(1), endedAt: new Date(daysAgo(1).getTime() + 30 * 60000) },
+    ]);
+    await buildProgressState('user-1', daysAgo(1), activity);
+
+    mockPrisma.session.findMany.mockClear();
+    mockPrisma.session.findMany.mockResolvedValue([
+      { startedAt: daysAgo(0), endedAt: new Date(daysAgo(0).getTime() + 10 * 60000) },
+    ]);
+    const state = await buildProgressState('user-1', now, activity);
+
+    expect(mockPrisma.session.findMany.mock.calls[0][0].where.startedAt).toEqual({
+      gt: daysAgo(1),
+      lte: now,
+    });
+    expect(state.totalStudyTimeMinutes).toBe(40);
+    expect(state.currentStreakDays).toBe(2);
+  });
+});
+
+describe('rewindStageChange', () => {
+  it('moves the changed object back to its previous stage', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue(objects({ a: 4 }));
+    const state = await buildProgressState('user-1', now);
+
+    const previous = rewindStageChange(state, { objectId: 'a', from: 3, to: 4 });
+
+    expect(previous.objectsByStage[3]).toEqual(['a']);
+    expect(previous.objectsByStage[4]).toEqual([]);
+    expect(previous.automaticObjects.LEX).toEqual([]);
+    expect(state.objectsByStage[4]).toEqual(['a']);
+  });
+});
+
+// ============================================================================
+// Detection and Persistence
+// ============================================================================
+
+describe('checkMilestones', () => {
+  it('persists a first-mastery event on a 3 -> 4 transition', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue(objects({ a: 4 }));
+
+    const events = await checkMilestones('user-1', {
+      sessionId: 'session-1',
+      goalId: 'goal-1',
+      stageChange: { objectId: 'a', from: 3, to: 4 },
+    });
+
+    const ids = events.map((e) => e.milestoneId);
+    expect(ids).toContain('stage_3_to_4');
+    expect(ids).toContain('first_mastery');
+    expect(mockPrisma.milestoneEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          milestoneId: 'first_mastery',
+          sessionId: 'session-1',
+          goalId: 'goal-1',
+        }),
+      })
+    );
+    expect(events[0].data).toEqual(expect.objectContaining({ stage: 4 }));
+  });
+
+  it('returns nothing when progress has not changed', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue(objects({ a: 1 }));
+
+    const events = await checkMilestones('user-1', { sessionId: 'session-1' });
+
+    expect(events).toEqual([]);
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('does not re-award non-repeatable milestones already stored', async () => {
+    mockPrisma.milestoneEvent.groupBy.mockResolvedValue([
+      { milestoneId: 'first_mastery', _max: { createdAt: daysAgo(3) } },
+    ]);
+    mockPrisma.languageObject.findMany.mockResolvedValue(objects({ a: 4, b: 4 }));
+
+    const events = await checkMilestones('user-1', {
+      stageChange: { objectId: 'b', from: 3, to: 4 },
+    });
+
+    expect(events.map((e) => e.milestoneId)).not.toContain('first_mastery');
+  });
+
+  it('runs overlapping checks for a user one after the other', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValueOnce(objects({ a: 0 }));
+    mockPrisma.languageObject.findMany.mockResolvedValue(objects({ a: 1 }));
+
+    const [first, second, third] = await Promise.all([
+      checkMilestones('user-1', { sessionId: 'session-1' }),
+      checkMilestones('user-1', { sessionId: 'session-1' }),
+      checkMilestones('user-1', { sessionId: 'session-1' }),
+    ]);
+
+    expect(first).toEqual([]);
+    expect(second.map((e) => e.milestoneId)).toEqual(['stage_0_to_1']);
+    expect(third).toEqual([]);
+  });
+
+  it('compares against the previous snapshot on later checks', async () => {
+    mockPrisma.languageObject.findMany.mockResolvedValue(objects({ a: 0 }));
+    await checkMilestones('user-1', { sessionId: 'session-1' });
+
+    mockPrisma.languageObject.findMany.mockResolvedValue(objects({ a: 1 }));
+    const events = await checkMilestones('user-1', { sessionId: 'session-1' });
+
+    expect(events.map((e) => e.milestoneId)).toEqual(['stage_0_to_1']);
+  });
+});
+
+describe('acknowledgeMilestones', () => {
+  it('limits the update to the given ids', async () => {
+    mockPrisma.milestoneEvent.updateMany.mockResolvedValue({ count: 2 });
+
+    const count = await acknowledgeMilestones('user-1', ['m1', 'm2']);
+
+    expect(count).toBe(2);
+    expect(mockPrisma.milestoneEvent.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', acknowledged: false, id: { in: ['m1', 'm2'] } },
+      data: { acknowledged: true },
+    });
+  });
+});
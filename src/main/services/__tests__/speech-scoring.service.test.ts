@@ -0,0 +1,155 @@
+// @vitest-environment node
+/**
+ * Speech Scoring Service Tests
+ *
+ * Tests for scoring recorded attempts:
+ * - Choosing the recognizer from its configuration
+ * - Running a local engine as a child process
+ * - Updating the speaking theta and logging per-phoneme G2P responses
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+
+import {
+  createPhonemeRecognizer,
+  setPhonemeRecognizer,
+  scoreSpeechAttempt,
+} from '../speech-scoring.service';
+import { StubPhonemeRecognizer } from '../speech-recognizers/stub';
+import { CommandPhonemeRecognizer } from '../speech-recognizers/command';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const attempt = {
+  userId: 'user-1',
+  word: 'think',
+  audio: new Uint8Array([82, 73, 70, 70]),
+  mimeType: 'audio/wav',
+  responseTimeMs: 2500,
+  nativeLanguage: 'ko',
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.g2PThetaProfile.findUnique.mockResolvedValue(null);
+  mockPrisma.g2PItemParameter.upsert.mockImplementation(
+    async (args: { create: { pattern: string } }) => ({ id: `pattern-${args.create.pattern}` })
+  );
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('createPhonemeRecognizer', () => {
+  it('builds the stub, a command engine, or nothing', () => {
+    expect(createPhonemeRecognizer('')).toBeNull();
+    expect(createPhonemeRecognizer(undefined)).toBeNull();
+    expect(createPhonemeRecognizer('stub')).toBeInstanceOf(StubPhonemeRecognizer);
+
+    const engine = createPhonemeRecognizer('/opt/bin/allosaurus --lang eng');
+    expect(engine).toBeInstanceOf(CommandPhonemeRecognizer);
+    expect(engine?.name).toBe('allosaurus');
+  });
+});
+
+describe('CommandPhonemeRecognizer', () => {
+  it('reads phonemes from the last line of the engine output', async () => {
+    const engine = new CommandPhonemeRecognizer({
+      command: process.execPath,
+      args: ['-e', 'console.log("loading model"); console.log(process.argv[1]);', '{expected}'],
+    });
+
+    const result = await engine.recognize({
+      audio: attempt.audio,
+      mimeType: 'audio/wav',
+      word: 'think',
+      expectedPhonemes: ['θ', 'ɪ', 'n', 'k'],
+    });
+
+    expect(result.phonemes).toEqual(['θ', 'ɪ', 'n', 'k']);
+  });
+
+  it('reports engine failures', async () => {
+    const engine = new CommandPhonemeRecognizer({
+      command: process.execPath,
+      args: ['-e', 'console.error("no model"); process.exit(2);'],
+    });
+
+    await expect(
+      engine.recognize({ audio: attempt.audio, mimeType: 'audio/wav', word: 'think', expectedPhonemes: [] })
+    ).rejects.toThrow('no model');
+  });
+});
+
+describe('scoreSpeechAttempt', () => {
+  it('scores the attempt and logs a G2P response per phoneme', async () => {
+    const recognizer = new StubPhonemeRecognizer({ think: ['s', 'ɪ', 'n', 'k'] });
+    setPhonemeRecognizer(recognizer);
+
+    const result = await scoreSpeechAttempt(attempt);
+
+    expect(recognizer.requests[0].expectedPhonemes).toEqual(['θ', 'ɪ', 'n', 'k']);
+    expect(result).toMatchObject({ correct: false, accuracy: 0.75, recognizer: 'stub' });
+    expect(result.errors[0].l1Pattern?.reason).toBe('Korean lacks dental fricatives');
+
+    // Four phonemes plus the word
+    expect(mockPrisma.g2PResponse.create).toHaveBeenCalledTimes(5);
+    expect(mockPrisma.g2PResponse.create.mock.calls[0][0].data).toMatchObject({
+      userId: 'user-1',
+      patternId: 'pattern-θ',
+      correct: false,
+      modality: 'speaking',
+      targetLayer: 'alphabetic',
+      wordContext: 'think',
+    });
+    expect(mockPrisma.g2PItemParameter.upsert.mock.calls[4][0].create).toMatchObject({
+      pattern: 'think',
+      patternType: 'word',
+    });
+
+    const saved = mockPrisma.g2PThetaProfile.upsert.mock.calls[0][0];
+    expect(saved.where).toEqual({ userId: 'user-1' });
+    expect(saved.update.thetaSpeaking).toBe(result.thetaSpeaking);
+    expect(JSON.parse(saved.update.responseCounts).speaking).toBe(5);
+  });
+
+  it('continues from the stored profile', async () => {
+    setPhonemeRecognizer(new StubPhonemeRecognizer());
+    mockPrisma.g2PThetaProfile.findUnique.mockResolvedValue({
+      updatedAt: new Date(),
+      thetaPhonological: 0.5,
+      thetaAlphabetic: 0.4,
+      thetaSyllable: 0.3,
+      thetaWord: 0.6,
+      thetaReading: 0.2,
+      thetaListening: 0.1,
+      thetaSpeaking: 1.2,
+      thetaWriting: 0,
+      sePhonological: 0.5,
+      seAlphabetic: 0.5,
+      seSyllable: 0.5,
+      seWord: 0.5,
+      responseCounts: '{"speaking":12}',
+    });
+
+    const result = await scoreSpeechAttempt(attempt);
+
+    expect(result.correct).toBe(true);
+    expect(mockPrisma.g2PResponse.create.mock.calls[0][0].data.priorTheta).toBe(1.2);
+    expect(result.thetaSpeaking).toBeGreaterThan(1.2);
+    expect(JSON.parse(mockPrisma.g2PThetaProfile.upsert.mock.calls[0][0].update.responseCounts).speaking).toBe(17);
+  });
+
+  it('refuses to score without a recognizer', async () => {
+    setPhonemeRecognizer(null);
+
+    await expect(scoreSpeechAttempt(attempt)).rejects.toThrow('No speech recognizer configured');
+    expect(mockPrisma.g2PThetaProfile.upsert).not.toHaveBeenCalled();
+  });
+});
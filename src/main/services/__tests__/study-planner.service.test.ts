@@ -0,0 +1,271 @@
+/**
+ * Study Planner Service Tests
+ *
+ * Tests for multi-goal planning wired to the database:
+ * - Mirroring GoalSpecs into CurriculumGoals
+ * - Persisting the Pareto frontier and the chosen weekly allocation
+ * - Interleaving session queues across goals with shared objects served once
+ *   and grammar constructions in their own slots
+ * - Crediting session time back to the plan
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+
+import {
+  getWeekStart,
+  createStudyPlan,
+  buildInterleavedQueue,
+  recordSessionTime,
+} from '../study-planner.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const now = new Date(2026, 9, 14, 12, 0, 0); // Wednesday
+const weekStart = new Date(2026, 9, 12);
+
+const specs = [
+  { id: 'ielts', domain: 'academic', benchmark: 'IELTS', modality: '["reading"]', deadline: new Date(2026, 10, 20) },
+  { id: 'celban', domain: 'medical', benchmark: 'CELBAN', modality: '["speaking"]', deadline: null },
+];
+
+function object(id: string, goalId: string, content: string, priority = 0.5, stage?: number) {
+  return {
+    id,
+    goalId,
+    type: 'LEX',
+    content,
+    priority,
+    frequency: 0.5,
+    relationalDensity: 0.5,
+    contextualContribution: 0.5,
+    irtDifficulty: 0,
+    masteryState: stage === undefined ? null : { stage, nextReview: null, cueFreeAccuracy: 0 },
+  };
+}
+
+const objects = [
+  object('i-1', 'ielts', 'analysis', 0.9),
+  object('i-2', 'ielts', 'hypothesis'),
+  object('i-3', 'ielts', 'coherent'),
+  object('i-4', 'ielts', 'furthermore'),
+  object('c-1', 'celban', 'Analysis', 0.4),
+  object('c-2', 'celban', 'triage'),
+  object('c-3', 'celban', 'dosage'),
+  object('c-4', 'celban', 'vital signs', 0.5, 3),
+];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.goalSpec.findMany.mockResolvedValue(specs);
+  mockPrisma.curriculumGoal.findMany.mockResolvedValue([]);
+  mockPrisma.curriculumGoal.create.mockImplementation(async ({ data }) => ({
+    id: `cg-${data.goalSpecId}`,
+    targetTheta: 2,
+    weight: 1,
+    ...data,
+  }));
+  mockPrisma.languageObject.findMany.mockResolvedValue(objects);
+  mockPrisma.languageObject.createMany.mockResolvedValue({ count: 0 });
+  mockPrisma.timeAllocation.findMany.mockResolvedValue([]);
+  mockPrisma.paretoSolution.create.mockImplementation(async ({ data }) => data);
+  mockPrisma.timeAllocation.create.mockImplementation(async ({ data }) => data);
+  mockPrisma.sharedObjectGoal.create.mockImplementation(async ({ data }) => data);
+  mockPrisma.user.findUnique.mockResolvedValue({ id: 'user-1', thetaGlobal: 0, nativeLanguage: 'ko' });
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('getWeekStart', () => {
+  it('returns Monday midnight of the same week', () => {
+    expect(getWeekStart(now)).toEqual(weekStart);
+    expect(getWeekStart(new Date(2026, 9, 18, 23, 0))).toEqual(weekStart);
+    expect(getWeekStart(new Date(2026, 9, 19, 1, 0))).toEqual(new Date(2026, 9, 19));
+  });
+});
+
+describe('createStudyPlan', () => {
+  it('allocates the weekly budget across all active goals', async () => {
+    const plan = await createStudyPlan('user-1', { weeklyMinutes: 300, now });
+
+    expect(plan.allocations.map((a) => a.goalId)).toEqual(['ielts', 'celban']);
+    expect(plan.allocations.every((a) => a.plannedMinutes > 0)).toBe(true);
+    const total = plan.allocations.reduce((sum, a) => sum + a.plannedMinutes, 0);
+    expect(Math.abs(total - 300)).toBeLessThanOrEqual(1);
+
+    // Mastery proxy: CELBAN has one object at stage 3 of 4 objects
+    expect(plan.allocations[1].progress).toBeCloseTo(3 / 16);
+  });
+
+  it('stores the frontier with exactly one selected solution', async () => {
+    await createStudyPlan('user-1', { weeklyMinutes: 300, preference: 'deadline_focused', now });
+
+    const rows = mockPrisma.paretoSolution.create.mock.calls.map(([arg]) => arg.data);
+    expect(rows.filter((r) => r.selected)).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ selected: true, paretoRank: 0, preference: 'deadline_focused' });
+    expect(rows.every((r) => r.sessionDate.getTime() === weekStart.getTime())).toBe(true);
+
+    const allocations = mockPrisma.timeAllocation.create.mock.calls.map(([arg]) => arg.data);
+    expect(allocations.map((a) => a.goalId).sort()).toEqual(['cg-celban', 'cg-ielts']);
+  });
+
+  it('records objects shared by content under one representative', async () => {
+    const plan = await createStudyPlan('user-1', { weeklyMinutes: 300, now });
+
+    expect(plan.sharedObjectCount).toBe(1);
+    const rows = mockPrisma.sharedObjectGoal.create.mock.calls.map(([arg]) => arg.data);
+    expect(rows).toEqual([
+      { objectId: 'i-1', goalId: 'cg-ielts' },
+      { objectId: 'i-1', goalId: 'cg-celban' },
+    ]);
+  });
+
+  it('applies deadline changes to the goal before planning', async () => {
+    const deadline = new Date(2026, 11, 1);
+    await createStudyPlan('user-1', { weeklyMinutes: 120, deadlines: { celban: deadline }, now });
+
+    expect(mockPrisma.goalSpec.updateMany).toHaveBeenCalledWith({
+      where: { id: 'celban', userId: 'user-1' },
+      data: { deadline },
+    });
+  });
+
+  it('keeps minutes already practiced when re-planning', async () => {
+    mockPrisma.timeAllocation.findMany.mockResolvedValue([{ goalId: 'cg-ielts', actualMinutes: 45 }]);
+
+    const plan = await createStudyPlan('user-1', { weeklyMinutes: 300, now });
+
+    expect(plan.allocations[0].actualMinutes).toBe(45);
+  });
+
+  it('rejects planning without active goals', async () => {
+    mockPrisma.goalSpec.findMany.mockResolvedValue([]);
+
+    await expect(createStudyPlan('user-1', { weeklyMinutes: 300, now })).rejects.toThrow('No active goals');
+  });
+});
+
+describe('buildInterleavedQueue', () => {
+  beforeEach(() => {
+    mockPrisma.paretoSolution.findMany.mockResolvedValue([
+      {
+        allocation: JSON.stringify({ ielts: 200, celban: 100 }),
+        objectiveScores: '{}',
+        dominated: false,
+        selected: true,
+        preference: 'balanced',
+        createdAt: now,
+      },
+    ]);
+    mockPrisma.timeAllocation.findMany.mockResolvedValue([
+      { goalId: 'cg-ielts', allocatedMinutes: 200, actualMinutes: 0, utilityScore: 0 },
+      { goalId: 'cg-celban', allocatedMinutes: 100, actualMinutes: 0, utilityScore: 0 },
+    ]);
+    mockPrisma.sharedObjectGoal.groupBy.mockResolvedValue([{ objectId: 'i-1' }]);
+    mockPrisma.sharedObjectGoal.findMany.mockResolvedValue([
+      { objectId: 'i-1', goalId: 'cg-ielts' },
+      { objectId: 'i-1', goalId: 'cg-celban' },
+    ]);
+  });
+
+  it('interleaves objects from every goal by the stored allocation', async () => {
+    const queue = await buildInterleavedQueue('user-1', { sessionSize: 6, newItemRatio: 1, now });
+
+    expect(queue.primaryGoalId).toBe('ielts');
+    expect(queue.items).toHaveLength(6);
+    expect(new Set(queue.items.map((i) => i.goalId))).toEqual(new Set(['ielts', 'celban']));
+    expect(queue.items.filter((i) => i.goalId === 'ielts').length).toBeGreaterThan(
+      queue.items.filter((i) => i.goalId === 'celban').length
+    );
+  });
+
+  it('leaves suspended and buried objects out', async () => {
+    await buildInterleavedQueue('user-1', { sessionSize: 6, now });
+
+    const queueQuery = mockPrisma.languageObject.findMany.mock.calls.find(
+      ([args]) => (args as { include?: unknown }).include
+    );
+    expect(queueQuery?.[0].where).toMatchObject({
+      suspended: false,
+      OR: [{ buriedUntil: null }, { buriedUntil: { lte: now } }],
+    });
+  });
+
+  it('serves a shared object once, crediting both goals', async () => {
+    const queue = await buildInterleavedQueue('user-1', { sessionSize: 8, now });
+
+    const shared = queue.items.filter((i) => i.content.toLowerCase() === 'analysis');
+    expect(shared).toHaveLength(1);
+    expect(shared[0]).toMatchObject({ objectId: 'i-1', isShared: true });
+    expect(shared[0].benefitingGoals.sort()).toEqual(['celban', 'ielts']);
+  });
+
+  it('gives unlocked grammar constructions their own slots', async () => {
+    const construction = { ...object('i-g', 'ielts', 'Basic SVO (Subject-Verb-Object)', 0.1), type: 'SYNT' };
+    const locked = { ...object('i-l', 'ielts', 'Basic Passive Voice', 0.95), type: 'SYNT' };
+    mockPrisma.languageObject.findMany.mockResolvedValue([...objects, construction, locked]);
+
+    const queue = await buildInterleavedQueue('user-1', { sessionSize: 10, newItemRatio: 1, now });
+
+    const ids = queue.items.map((i) => i.objectId);
+    expect(ids).toContain('i-g');
+    expect(ids).not.toContain('i-l');
+    expect(mockPrisma.languageObject.createMany).not.toHaveBeenCalled();
+  });
+
+  it('favours goals that are behind their planned minutes', async () => {
+    mockPrisma.timeAllocation.findMany.mockResolvedValue([
+      { goalId: 'cg-ielts', allocatedMinutes: 200, actualMinutes: 200, utilityScore: 0 },
+      { goalId: 'cg-celban', allocatedMinutes: 100, actualMinutes: 0, utilityScore: 0 },
+    ]);
+
+    const queue = await buildInterleavedQueue('user-1', { sessionSize: 4, now });
+
+    expect(queue.primaryGoalId).toBe('celban');
+    expect(queue.allocation).toEqual({ ielts: 0, celban: 100 });
+  });
+});
+
+describe('recordSessionTime', () => {
+  it('splits the session duration by the goals answered', async () => {
+    mockPrisma.session.findUnique.mockResolvedValue({
+      userId: 'user-1',
+      startedAt: now,
+      endedAt: new Date(now.getTime() + 30 * 60000),
+    });
+    mockPrisma.response.findMany.mockResolvedValue([
+      { object: { goalId: 'ielts' } },
+      { object: { goalId: 'ielts' } },
+      { object: { goalId: 'celban' } },
+    ]);
+    mockPrisma.curriculumGoal.findMany.mockResolvedValue([
+      { id: 'cg-ielts', goalSpecId: 'ielts' },
+      { id: 'cg-celban', goalSpecId: 'celban' },
+    ]);
+
+    await recordSessionTime('session-1');
+
+    expect(mockPrisma.timeAllocation.updateMany).toHaveBeenCalledWith({
+      where: { goalId: 'cg-ielts', sessionDate: weekStart },
+      data: { actualMinutes: { increment: 20 } },
+    });
+    expect(mockPrisma.timeAllocation.updateMany).toHaveBeenCalledWith({
+      where: { goalId: 'cg-celban', sessionDate: weekStart },
+      data: { actualMinutes: { increment: 10 } },
+    });
+  });
+
+  it('does nothing for a session that has not ended', async () => {
+    mockPrisma.session.findUnique.mockResolvedValue({ userId: 'user-1', startedAt: now, endedAt: null });
+
+    await recordSessionTime('session-1');
+
+    expect(mockPrisma.timeAllocation.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -6,24 +6,14 @@
  * - z(w) vector task matching
  * - Difficulty calculation
  * - Modality selection
+ * - Issuing tasks to a session
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 // Mock dependencies
-vi.mock('@main/db/prisma', () => ({
-  getPrisma: () => ({
-    languageObject: {
-      findUnique: vi.fn(),
-    },
-    masteryState: {
-      findUnique: vi.fn(),
-    },
-    collocation: {
-      findMany: vi.fn(),
-    },
-  }),
-}));
+vi.mock('@main/db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
 
 vi.mock('../claude.service', () => ({
   generateTaskContent: vi.fn().mockResolvedValue({
@@ -33,6 +23,8 @@ vi.mock('../claude.service', () => ({
   }),
 }));
 
+import { issueTask, getIssuedTask, type GeneratedTask } from '../task-generation.service';
+
 // Define local helper functions that mirror the service behavior
 // These test the core logic without needing the full service infrastructure
 
@@ -395,3 +387,52 @@ describe('Task Variety Enforcement', () => {
     }
   });
 });
+
+describe('Issued Tasks', () => {
+  const task = {
+    spec: { objectId: 'obj-1', format: 'fill_blank' },
+    prompt: 'Le ___ est rouge',
+    expectedAnswer: 'livre',
+    metadata: { generatedAt: new Date(), source: 'cache', estimatedTimeSeconds: 10 },
+  } as unknown as GeneratedTask;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('gives every issue of the same task its own row', async () => {
+    mockPrisma.issuedTask.create
+      .mockResolvedValueOnce({ id: 'issued-1' })
+      .mockResolvedValueOnce({ id: 'issued-2' });
+
+    const first = await issueTask('session-1', task);
+    const second = await issueTask('session-1', task);
+
+    expect([first, second]).toEqual(['issued-1', 'issued-2']);
+    expect(mockPrisma.issuedTask.create).toHaveBeenCalledWith({
+      data: { sessionId: 'session-1', objectId: 'obj-1', taskContent: JSON.stringify(task) },
+      select: { id: true },
+    });
+  });
+
+  it('returns the issuing session and whether the task was answered', async () => {
+    const answeredAt = new Date();
+    mockPrisma.issuedTask.findUnique.mockResolvedValue({
+      id: 'issued-1',
+      sessionId: 'session-1',
+      answeredAt,
+      taskContent: JSON.stringify(task),
+    });
+
+    const issued = await getIssuedTask('issued-1');
+
+    expect(issued).toMatchObject({ id: 'issued-1', sessionId: 'session-1', answeredAt });
+    expect(issued?.task.expectedAnswer).toBe('livre');
+  });
+
+  it('returns null for an unknown task', async () => {
+    mockPrisma.issuedTask.findUnique.mockResolvedValue(null);
+
+    expect(await getIssuedTask('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,240 @@
+// @vitest-environment node
+/**
+ * User Object Graph Service Tests
+ *
+ * Tests for the encounter ledger and per-object exposure balance:
+ * - Recording encounters and rebuilding the relationship
+ * - Imbalance findings ("only ever recognised, never produced")
+ * - Modality preferences and queue bias limited to the goal's modalities
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+import { NOW } from './helpers/fixtures';
+
+import {
+  encounterCategory,
+  trainedModalities,
+  recordEncounter,
+  getObjectExposure,
+  getPreferredModality,
+  applyExposureBias,
+} from '../user-object-graph.service';
+import type { QueueItem } from '../../../core/priority';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const LISTENING_GOAL = JSON.stringify(['reading', 'listening']);
+const READING_GOAL = JSON.stringify(['reading']);
+
+function ledgerRow(i: number, taskCategory: string, modality = 'visual', successful = true) {
+  return {
+    id: `e-${i}`,
+    createdAt: new Date(NOW.getTime() - (10 - i) * 86400000),
+    userId: 'user-1',
+    objectId: 'o-1',
+    taskCategory,
+    taskType: taskCategory === 'interpretation' ? 'recognition' : 'recall_free',
+    taskFormat: taskCategory === 'interpretation' ? 'mcq' : 'fill_blank',
+    modality,
+    domain: 'general',
+    userTheta: 0,
+    itemDifficulty: 0,
+    successful,
+    responseTimeMs: 3000,
+    cueLevel: 0,
+  };
+}
+
+function relationship(objectId: string, counts: Partial<Record<string, number>>) {
+  return {
+    objectId,
+    interpretationEncounters: 0,
+    productionEncounters: 0,
+    visualEncounters: 0,
+    auditoryEncounters: 0,
+    mixedEncounters: 0,
+    ...counts,
+  };
+}
+
+function queueItem(id: string, finalScore: number): QueueItem {
+  return {
+    object: {
+      id,
+      content: id,
+      type: 'LEX',
+      frequency: 0.5,
+      relationalDensity: 0.5,
+      contextualContribution: 0.5,
+      irtDifficulty: 0,
+    },
+    priority: finalScore,
+    urgency: 0,
+    finalScore,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.objectEncounter.create.mockResolvedValue({});
+  mockPrisma.userObjectRelationship.upsert.mockResolvedValue({});
+  mockPrisma.userObjectRelationship.findUnique.mockResolvedValue(null);
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('encounterCategory', () => {
+  it('treats recognition formats as interpretation whatever the task type', () => {
+    expect(encounterCategory('timed', 'mcq')).toBe('interpretation');
+    expect(encounterCategory('recall', 'fill_blank')).toBe('production');
+    expect(encounterCategory('speaking', 'pronunciation')).toBe('production');
+  });
+
+  it('only trains audio when the goal includes listening or speaking', () => {
+    expect(trainedModalities(READING_GOAL)).toEqual(['visual']);
+    expect(trainedModalities(LISTENING_GOAL)).toEqual(['visual', 'auditory', 'mixed']);
+    expect(trainedModalities('not json')).toEqual(['visual']);
+  });
+});
+
+describe('recordEncounter', () => {
+  it('logs the encounter and rebuilds the relationship from the ledger', async () => {
+    mockPrisma.objectEncounter.findMany.mockResolvedValue(
+      [ledgerRow(2, 'production'), ledgerRow(1, 'interpretation', 'auditory')]
+    );
+
+    const stats = await recordEncounter(
+      {
+        userId: 'user-1',
+        objectId: 'o-1',
+        responseId: 'r-1',
+        taskType: 'recall',
+        taskFormat: 'fill_blank',
+        modality: 'text',
+        domain: 'medical',
+        successful: true,
+        responseTimeMs: 2000,
+        cueLevel: 0,
+      },
+      NOW
+    );
+
+    expect(mockPrisma.objectEncounter.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        responseId: 'r-1',
+        taskCategory: 'production',
+        modality: 'visual',
+        domain: 'medical',
+        createdAt: NOW,
+      }),
+    });
+    expect(stats).toMatchObject({ totalEncounters: 2, interpretationEncounters: 1, productionEncounters: 1 });
+
+    const upsert = mockPrisma.userObjectRelationship.upsert.mock.calls[0][0];
+    expect(upsert.where).toEqual({ userId_objectId: { userId: 'user-1', objectId: 'o-1' } });
+    expect(upsert.create).toMatchObject({ encounterCount: 1, firstEncounter: NOW, interpretationRatio: 0.5 });
+    expect(upsert.update).toMatchObject({ encounterCount: { increment: 1 }, relationshipType: 'learning' });
+  });
+
+  it('marks a mastered relationship as lapsed after a miss', async () => {
+    mockPrisma.objectEncounter.findMany.mockResolvedValue([ledgerRow(1, 'production', 'visual', false)]);
+    mockPrisma.userObjectRelationship.findUnique.mockResolvedValue({ relationshipType: 'mastered' });
+
+    await recordEncounter(
+      {
+        userId: 'user-1',
+        objectId: 'o-1',
+        taskType: 'recall',
+        taskFormat: 'fill_blank',
+        modality: 'visual',
+        domain: 'general',
+        successful: false,
+        responseTimeMs: 5000,
+        cueLevel: 0,
+      },
+      NOW
+    );
+
+    expect(mockPrisma.userObjectRelationship.upsert.mock.calls[0][0].update.relationshipType).toBe('lapsed');
+  });
+});
+
+describe('getObjectExposure', () => {
+  it('returns null for unknown objects', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(null);
+
+    expect(await getObjectExposure('user-1', 'missing')).toBeNull();
+  });
+
+  it('reports objects that are only ever recognised', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue({ goal: { modality: READING_GOAL } });
+    mockPrisma.objectEncounter.findMany.mockResolvedValue(
+      [5, 4, 3, 2, 1].map((i) => ledgerRow(i, 'interpretation'))
+    );
+
+    const exposure = await getObjectExposure('user-1', 'o-1');
+
+    expect(exposure).toMatchObject({
+      totalEncounters: 5,
+      interpretationEncounters: 5,
+      productionEncounters: 0,
+      recommendedCategory: 'production',
+      recommendedModality: null,
+      trainedModalities: ['visual'],
+    });
+    expect(exposure!.findings).toEqual([
+      { kind: 'never_produced', message: 'You only ever recognise this word, never produce it.' },
+    ]);
+    expect(exposure!.recent[0].createdAt).toEqual(ledgerRow(5, 'interpretation').createdAt);
+  });
+
+  it('flags a trained modality that is missing', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue({ goal: { modality: LISTENING_GOAL } });
+    mockPrisma.objectEncounter.findMany.mockResolvedValue([
+      ...[1, 2, 3].map((i) => ledgerRow(i, 'interpretation')),
+      ...[4, 5, 6].map((i) => ledgerRow(i, 'production', 'mixed')),
+    ].reverse());
+
+    const exposure = await getObjectExposure('user-1', 'o-1');
+
+    expect(exposure!.recommendedCategory).toBeNull();
+    expect(exposure!.recommendedModality).toBe('auditory');
+    expect(exposure!.findings).toEqual([
+      { kind: 'modality_gap', modality: 'auditory', message: 'You have never heard this word.' },
+    ]);
+  });
+});
+
+describe('practice bias', () => {
+  it('prefers an under-practised modality only when the goal trains it', async () => {
+    mockPrisma.userObjectRelationship.findUnique.mockResolvedValue(
+      relationship('o-1', { interpretationEncounters: 3, productionEncounters: 3, visualEncounters: 6 })
+    );
+
+    expect(await getPreferredModality('user-1', 'o-1', LISTENING_GOAL)).toBe('auditory');
+    expect(await getPreferredModality('user-1', 'o-1', READING_GOAL)).toBeUndefined();
+  });
+
+  it('moves lopsided objects up the queue', async () => {
+    mockPrisma.userObjectRelationship.findMany.mockResolvedValue([
+      relationship('o-lopsided', { interpretationEncounters: 6, visualEncounters: 6 }),
+      relationship('o-balanced', { interpretationEncounters: 3, productionEncounters: 3, visualEncounters: 6 }),
+    ]);
+
+    const queue = await applyExposureBias('user-1', READING_GOAL, [
+      queueItem('o-balanced', 1),
+      queueItem('o-new', 0.95),
+      queueItem('o-lopsided', 0.9),
+    ]);
+
+    expect(queue.map((q) => q.object.id)).toEqual(['o-lopsided', 'o-balanced', 'o-new']);
+    expect(queue[0].finalScore).toBeCloseTo(0.9 * 1.3);
+  });
+});
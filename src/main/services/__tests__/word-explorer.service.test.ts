@@ -0,0 +1,246 @@
+// @vitest-environment node
+/**
+ * Word Explorer Service Tests
+ *
+ * Tests for the learner-facing object browser:
+ * - Faceted search over a goal's objects
+ * - Object details with the FSRS card and morphological family
+ * - Suspending, burying and resetting items
+ * - Manual edits with stage transitions logged
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+import { NOW } from './helpers/fixtures';
+
+vi.mock('../../db/repositories/collocation.repository', () => ({
+  getCollocationsForWord: vi.fn().mockResolvedValue([
+    { word: 'decision', wordId: 'o-decision', pmi: 4.2, npmi: 0.6, cooccurrence: 12, significance: 3 },
+  ]),
+}));
+
+import {
+  searchGoalObjects,
+  getObjectDetail,
+  applyObjectAction,
+  editObject,
+  difficultyBand,
+} from '../word-explorer.service';
+import { clearFSRSCache } from '../fsrs-optimizer.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function row(
+  id: string,
+  content: string,
+  options: {
+    type?: string;
+    stage?: number | null;
+    nextReview?: Date | null;
+    irtDifficulty?: number;
+    domains?: Record<string, number>;
+    suspended?: boolean;
+    buriedUntil?: Date | null;
+  } = {}
+) {
+  const stage = options.stage === undefined ? 1 : options.stage;
+  return {
+    id,
+    createdAt: new Date('2026-10-01'),
+    goalId: 'goal-1',
+    goal: { userId: 'user-1' },
+    type: options.type ?? 'LEX',
+    content,
+    frequency: 0.5,
+    relationalDensity: 0.3,
+    domainDistribution: options.domains ? JSON.stringify(options.domains) : null,
+    morphologicalScore: null,
+    phonologicalDifficulty: null,
+    priority: 0.5,
+    irtDifficulty: options.irtDifficulty ?? 0,
+    irtDiscrimination: 1,
+    suspended: options.suspended ?? false,
+    buriedUntil: options.buriedUntil ?? null,
+    masteryState:
+      stage === null
+        ? null
+        : {
+            id: `m-${id}`,
+            stage,
+            nextReview: options.nextReview ?? null,
+            lastReviewedAt: null,
+            exposureCount: 3,
+            cueFreeAccuracy: 0.4,
+            cueAssistedAccuracy: 0.7,
+            fsrsState: 'review',
+            fsrsDifficulty: 5,
+            fsrsStability: 4,
+            fsrsReps: 3,
+            fsrsLapses: 1,
+            fsrsLastReview: new Date('2026-10-16T12:00:00'),
+            fsrsNextReview: new Date('2026-10-20T12:00:00'),
+            stageTransitions: [],
+          },
+  };
+}
+
+const ROWS = [
+  row('o-1', 'decide', { stage: 2, nextReview: new Date('2026-10-17'), irtDifficulty: -2, domains: { business: 0.8 } }),
+  row('o-2', 'decision', { stage: 1, nextReview: new Date('2026-10-25'), irtDifficulty: 0.5, domains: { business: 0.5, news: 0.2 } }),
+  row('o-3', 'take off', { type: 'MWE', stage: null, irtDifficulty: 2 }),
+  row('o-4', 'deadline', { stage: 3, nextReview: new Date('2026-10-19'), suspended: true }),
+];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  clearFSRSCache();
+  mockPrisma.languageObject.findMany.mockResolvedValue(ROWS);
+  mockPrisma.user.findUnique.mockResolvedValue({ fsrsWeights: null });
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('difficultyBand', () => {
+  it('splits IRT difficulty into three bands', () => {
+    expect(difficultyBand(-1.5)).toBe('easy');
+    expect(difficultyBand(-1)).toBe('medium');
+    expect(difficultyBand(1)).toBe('hard');
+  });
+});
+
+describe('searchGoalObjects', () => {
+  it('counts facets over the objects matching the query', async () => {
+    const { facets, totalCount } = await searchGoalObjects({ goalId: 'goal-1', query: 'de' }, NOW);
+
+    expect(totalCount).toBe(3);
+    expect(facets.types).toEqual({ LEX: 3 });
+    expect(facets.stages).toEqual({ 0: 0, 1: 1, 2: 1, 3: 1, 4: 0 });
+    expect(facets.status).toEqual({ active: 2, suspended: 1, buried: 0 });
+    expect(facets.due).toEqual({ now: 1, today: 1, week: 3 });
+    expect(facets.domains).toMatchObject({ business: 2, news: 1, general: 1 });
+  });
+
+  it('applies facet filters, sorting and pagination', async () => {
+    const due = await searchGoalObjects({ goalId: 'goal-1', due: 'week', status: 'active' }, NOW);
+    expect(due.items.map((i) => i.id)).toEqual(['o-1', 'o-2', 'o-3']);
+
+    const hard = await searchGoalObjects({ goalId: 'goal-1', difficulty: 'hard', types: ['MWE'] }, NOW);
+    expect(hard.items.map((i) => i.content)).toEqual(['take off']);
+
+    const page = await searchGoalObjects(
+      { goalId: 'goal-1', domain: 'business', sort: 'mastery', limit: 1, offset: 1 },
+      NOW
+    );
+    expect(page.totalCount).toBe(2);
+    expect(page.items[0]).toMatchObject({ id: 'o-2', stage: 1, domains: ['business', 'news'] });
+  });
+});
+
+describe('getObjectDetail', () => {
+  it('returns null for unknown objects', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(null);
+
+    expect(await getObjectDetail('missing', NOW)).toBeNull();
+  });
+
+  it('gathers the card, collocations and morphological family', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(ROWS[1]);
+    mockPrisma.languageObject.findMany.mockResolvedValue([
+      { id: 'o-1', content: 'decide', masteryState: { stage: 2 } },
+      { id: 'o-5', content: 'decisive', masteryState: null },
+    ]);
+
+    const detail = await getObjectDetail('o-2', NOW);
+
+    expect(detail!.card).toMatchObject({ state: 'review', reps: 3, lapses: 1 });
+    expect(detail!.card!.retrievability).toBeCloseTo(Math.exp(-2 / 4));
+    expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'user-1' } })
+    );
+    expect(detail!.collocations).toEqual([{ objectId: 'o-decision', content: 'decision', pmi: 4.2 }]);
+    expect(detail!.morphology.suffixes.length).toBeGreaterThan(0);
+    for (const member of detail!.morphology.family) {
+      expect(['o-1', 'o-5']).toContain(member.objectId);
+    }
+  });
+});
+
+describe('applyObjectAction', () => {
+  beforeEach(() => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(ROWS[0]);
+  });
+
+  it('suspends and buries until the next day', async () => {
+    await applyObjectAction('o-1', 'suspend', NOW);
+    await applyObjectAction('o-1', 'bury', NOW);
+
+    expect(mockPrisma.languageObject.update).toHaveBeenCalledWith({
+      where: { id: 'o-1' },
+      data: { suspended: true },
+    });
+    expect(mockPrisma.languageObject.update).toHaveBeenLastCalledWith({
+      where: { id: 'o-1' },
+      data: { buriedUntil: new Date('2026-10-19T00:00:00') },
+    });
+  });
+
+  it('resets the card and logs a manual transition', async () => {
+    await applyObjectAction('o-1', 'reset', NOW);
+
+    expect(mockPrisma.stageTransition.create.mock.calls[0][0].data).toMatchObject({
+      masteryStateId: 'm-o-1',
+      fromStage: 2,
+      toStage: 0,
+      trigger: 'manual',
+    });
+    expect(mockPrisma.masteryState.update.mock.calls[0][0].data).toMatchObject({
+      stage: 0,
+      fsrsState: 'new',
+      fsrsReps: 0,
+      nextReview: null,
+    });
+  });
+});
+
+describe('editObject', () => {
+  it('rejects content already used in the goal', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(ROWS[0]);
+    mockPrisma.languageObject.findFirst.mockResolvedValue({ id: 'o-2' });
+
+    await expect(editObject('o-1', { content: 'decision' }, NOW)).rejects.toThrow('already');
+    expect(mockPrisma.languageObject.update).not.toHaveBeenCalled();
+  });
+
+  it('updates fields and logs a manual stage change', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(ROWS[0]);
+
+    await editObject('o-1', { irtDifficulty: 1.2, stage: 4 }, NOW);
+
+    expect(mockPrisma.languageObject.update).toHaveBeenCalledWith({
+      where: { id: 'o-1' },
+      data: { irtDifficulty: 1.2 },
+    });
+    expect(mockPrisma.stageTransition.create.mock.calls[0][0].data).toMatchObject({
+      fromStage: 2,
+      toStage: 4,
+      trigger: 'manual',
+    });
+    expect(mockPrisma.masteryState.update).toHaveBeenCalledWith({ where: { objectId: 'o-1' }, data: { stage: 4 } });
+  });
+
+  it('creates the mastery state for objects never studied', async () => {
+    mockPrisma.languageObject.findUnique.mockResolvedValue(ROWS[2]);
+    const nextReview = new Date('2026-10-20');
+
+    await editObject('o-3', { nextReview }, NOW);
+
+    expect(mockPrisma.masteryState.create).toHaveBeenCalledWith({ data: { objectId: 'o-3', nextReview } });
+    expect(mockPrisma.stageTransition.create).not.toHaveBeenCalled();
+  });
+});
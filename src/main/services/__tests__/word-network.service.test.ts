@@ -0,0 +1,147 @@
+// @vitest-environment node
+/**
+ * Word Network Service Tests
+ *
+ * Tests for the learner-facing word graph:
+ * - Neighborhoods from collocations, object connections and lexical relations
+ * - Depth, relation filters and the node cap
+ * - Cluster session queues over a neighborhood
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/prisma', () => import('./helpers/mock-prisma'));
+import { mockPrisma } from './helpers/mock-prisma';
+import { NOW } from './helpers/fixtures';
+
+import { getObjectNeighborhood, getClusterQueue } from '../word-network.service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function row(id: string, content: string, stage: number | null, suspended = false) {
+  return {
+    id,
+    goalId: 'goal-1',
+    content,
+    type: 'LEX',
+    frequency: 0.5,
+    suspended,
+    buriedUntil: null,
+    masteryState: stage === null ? null : { stage },
+  };
+}
+
+const ROWS = [
+  row('o-big', 'big', 1),
+  row('o-large', 'large', 2),
+  row('o-huge', 'huge', 0, true),
+  row('o-small', 'small', 0),
+  row('o-deal', 'deal', 3),
+  row('o-agreement', 'agreement', null),
+];
+
+const COLLOCATIONS = [{ word1Id: 'o-big', word2Id: 'o-deal', pmi: 3.1, npmi: 0.4 }];
+
+const CONNECTIONS = [
+  { sourceObjectId: 'o-deal', targetObjectId: 'o-agreement', connectionType: 'collocational', weight: 0.5, pmi: 0 },
+];
+
+function touches(ids: string[], ...ends: string[]): boolean {
+  return ends.some((end) => ids.includes(end));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.languageObject.findUnique.mockImplementation(({ where }) =>
+    Promise.resolve(ROWS.find((r) => r.id === where.id) ?? null)
+  );
+  mockPrisma.languageObject.findMany.mockImplementation(({ where }) =>
+    Promise.resolve(
+      where.content
+        ? ROWS.filter((r) => where.content.in.includes(r.content))
+        : ROWS.filter((r) => where.id.in.includes(r.id))
+    )
+  );
+  mockPrisma.collocation.findMany.mockImplementation(({ where }) => {
+    const ids: string[] = where.OR[0].word1Id.in;
+    return Promise.resolve(COLLOCATIONS.filter((c) => touches(ids, c.word1Id, c.word2Id)));
+  });
+  mockPrisma.objectConnection.findMany.mockImplementation(({ where }) => {
+    const ids: string[] = where.OR[0].sourceObjectId.in;
+    return Promise.resolve(CONNECTIONS.filter((c) => touches(ids, c.sourceObjectId, c.targetObjectId)));
+  });
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('getObjectNeighborhood', () => {
+  it('returns null for unknown objects', async () => {
+    expect(await getObjectNeighborhood('missing', {}, NOW)).toBeNull();
+  });
+
+  it('links collocations and lexical relations of the center', async () => {
+    const graph = await getObjectNeighborhood('o-big', { depth: 1 }, NOW);
+
+    expect(graph!.nodes.map((n) => n.id).sort()).toEqual(['o-big', 'o-deal', 'o-huge', 'o-large', 'o-small']);
+    expect(graph!.nodes.find((n) => n.id === 'o-huge')).toMatchObject({ depth: 1, status: 'suspended' });
+    expect(graph!.edges).toContainEqual({
+      source: 'o-big',
+      target: 'o-deal',
+      relation: 'collocation',
+      label: 'collocation',
+      weight: 0.4,
+      pmi: 3.1,
+    });
+    expect(graph!.edges).toContainEqual(
+      expect.objectContaining({ source: 'o-big', target: 'o-large', relation: 'semantic', label: 'synonym' })
+    );
+    expect(graph!.edges).toContainEqual(
+      expect.objectContaining({ source: 'o-big', target: 'o-small', label: 'antonym', weight: 0.7 })
+    );
+    expect(graph!.truncated).toBe(false);
+  });
+
+  it('follows stored connections on later hops', async () => {
+    const graph = await getObjectNeighborhood('o-big', { depth: 2, relations: ['collocation'] }, NOW);
+
+    expect(graph!.nodes.map((n) => [n.id, n.depth])).toEqual([
+      ['o-big', 0],
+      ['o-deal', 1],
+      ['o-agreement', 2],
+    ]);
+    expect(graph!.edges.find((e) => e.target === 'o-agreement')).toMatchObject({
+      relation: 'collocation',
+      label: 'collocational',
+      pmi: null,
+    });
+    expect(graph!.edges.every((e) => e.relation === 'collocation')).toBe(true);
+  });
+
+  it('keeps the strongest neighbors within maxNodes', async () => {
+    const graph = await getObjectNeighborhood('o-big', { depth: 1, maxNodes: 2 }, NOW);
+
+    expect(graph!.nodes).toHaveLength(2);
+    expect(graph!.truncated).toBe(true);
+    expect(graph!.edges).toHaveLength(1);
+    expect(graph!.edges[0]).toMatchObject({ label: 'synonym', weight: 0.9 });
+  });
+});
+
+describe('getClusterQueue', () => {
+  it('queues the center, then active neighbors nearest and least mastered first', async () => {
+    const queue = await getClusterQueue('o-big', 12, NOW);
+
+    expect(queue!.items.map((i) => i.objectId)).toEqual(['o-big', 'o-small', 'o-large', 'o-deal', 'o-agreement']);
+    expect(queue!.items[0]).toMatchObject({ goalId: 'goal-1', content: 'big', finalScore: 1, isShared: false });
+  });
+
+  it('stops at the session size', async () => {
+    const queue = await getClusterQueue('o-big', 2, NOW);
+
+    expect(queue!.items).toHaveLength(2);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Automatization Service
+ *
+ * Keeps a per-object automatization profile up to date from the stored
+ * response history (Response.responseTimeMs), using core/automatization.ts
+ * for the declarative → procedural → automatic classification and
+ * core/state/fluency-diversity-state.ts for the fluency summary.
+ *
+ * - refreshAutomatizationProfile recomputes an object's profile after a
+ *   response and stores the level on its MasteryState, where it serves as
+ *   one of the Stage 4 criteria.
+ * - buildSpeedRound picks known but slow objects for a timed drill with a
+ *   deadline policy: the session shrinks the answer deadline after each
+ *   on-time correct answer and relaxes it after a miss.
+ */
+
+import { getPrisma } from '../db/prisma';
+import { schedulableObjectWhere } from '../db/repositories/mastery.repository';
+import {
+  createAutomatizationProfile,
+  suggestPracticeConditions,
+  type AutomatizationCategory,
+  type AutomatizationProfile,
+  type ResponseObservation,
+} from '../../core/automatization';
+import {
+  calculateFluencyMetrics,
+  type FluencyMetrics,
+} from '../../core/state/fluency-diversity-state';
+import type { MasteryStage, TaskModality } from '../../core/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AutomatizationSummary {
+  objectId: string;
+  level: number;
+  category: AutomatizationCategory;
+  /** Mean RT of correct responses */
+  meanResponseTimeMs: number | null;
+  /** Coefficient of variation of correct RTs (lower = more stable) */
+  responseTimeCv: number | null;
+  confidence: number;
+  nObservations: number;
+}
+
+export interface AutomatizationDetail extends AutomatizationSummary {
+  /** Improvement trend (-1 to 1) */
+  trend: number;
+  /** Whether accuracy holds up on the fastest responses */
+  maintainsAccuracyUnderPressure: boolean | null;
+  fluency: FluencyMetrics;
+  suggestions: string[];
+}
+
+export interface SpeedDeadlinePolicy {
+  /** Deadline for the first item */
+  startMs: number;
+  minMs: number;
+  maxMs: number;
+  /** Factor applied after an on-time correct answer */
+  shrink: number;
+  /** Factor applied after a miss or timeout */
+  relax: number;
+}
+
+export interface SpeedRoundItem {
+  objectId: string;
+  goalId: string;
+  content: string;
+  type: string;
+  masteryStage: MasteryStage;
+  automatizationLevel: number;
+  meanResponseTimeMs: number | null;
+}
+
+export interface SpeedRound {
+  goalId: string;
+  items: SpeedRoundItem[];
+  deadline: SpeedDeadlinePolicy;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const AUTOMATIZATION_CONFIG = {
+  /** Most recent responses analyzed per object */
+  historySize: 60,
+  speedRoundSize: 15,
+  /** Speed rounds drill items the learner can already recall */
+  speedRoundMinStage: 2,
+  /** Starting deadline relative to the items' mean correct RT */
+  deadlineHeadroom: 1.5,
+  deadline: {
+    startMs: 6000,
+    minMs: 1200,
+    maxMs: 10000,
+    shrink: 0.85,
+    relax: 1.2,
+  },
+};
+
+const RESPONSE_SELECT = {
+  createdAt: true,
+  correct: true,
+  responseTimeMs: true,
+  cueLevel: true,
+  taskType: true,
+  taskFormat: true,
+  modality: true,
+};
+
+// =============================================================================
+// Profiles
+// =============================================================================
+
+type ResponseRow = {
+  createdAt: Date;
+  correct: boolean;
+  responseTimeMs: number;
+  cueLevel: number;
+  taskType: string;
+  taskFormat: string;
+  modality: string;
+};
+
+function toObservation(row: ResponseRow): ResponseObservation {
+  return {
+    responseTimeMs: row.responseTimeMs,
+    isCorrect: row.correct,
+    taskType: row.taskType,
+    cueLevel: Math.max(0, Math.min(3, row.cueLevel)) as ResponseObservation['cueLevel'],
+    timestamp: row.createdAt.getTime(),
+    // Task formats stand in for contexts in the transfer analysis
+    contextId: row.taskFormat,
+  };
+}
+
+function toSummary(profile: AutomatizationProfile): AutomatizationSummary {
+  const measured = profile.cvAnalysis.meanRT > 0;
+  return {
+    objectId: profile.objectId,
+    level: profile.automatizationLevel,
+    category: profile.category,
+    meanResponseTimeMs: measured ? profile.cvAnalysis.meanRT : null,
+    responseTimeCv: measured ? profile.cvAnalysis.cv : null,
+    confidence: profile.confidence,
+    nObservations: profile.nObservations,
+  };
+}
+
+async function loadHistory(objectId: string): Promise<ResponseRow[]> {
+  const rows = await getPrisma().response.findMany({
+    where: { objectId },
+    orderBy: { createdAt: 'desc' },
+    take: AUTOMATIZATION_CONFIG.historySize,
+    select: RESPONSE_SELECT,
+  });
+  return rows.reverse();
+}
+
+/**
+ * Recompute an object's profile from its response history and store it on
+ * the mastery state (if the object has one yet).
+ */
+export async function refreshAutomatizationProfile(
+  objectId: string,
+  now: Date = new Date()
+): Promise<AutomatizationSummary> {
+  const history = await loadHistory(objectId);
+  const summary = toSummary(createAutomatizationProfile(objectId, history.map(toObservation)));
+
+  await getPrisma().masteryState.updateMany({
+    where: { objectId },
+    data: {
+      automatizationLevel: summary.level,
+      automatizationCategory: summary.category,
+      meanResponseTimeMs: summary.meanResponseTimeMs,
+      responseTimeCv: summary.responseTimeCv,
+      automatizationUpdatedAt: now,
+    },
+  });
+
+  return summary;
+}
+
+/**
+ * Full profile of an object with fluency metrics and practice suggestions.
+ */
+export async function getAutomatizationDetail(objectId: string): Promise<AutomatizationDetail> {
+  const history = await loadHistory(objectId);
+  const profile = createAutomatizationProfile(objectId, history.map(toObservation));
+  const fluency = calculateFluencyMetrics(
+    history.map((row) => ({
+      responseTimeMs: row.responseTimeMs,
+      isCorrect: row.correct,
+      modality: row.modality as TaskModality,
+      timestamp: row.createdAt.getTime(),
+    }))
+  );
+
+  return {
+    ...toSummary(profile),
+    trend: profile.trend,
+    maintainsAccuracyUnderPressure: profile.satAnalysis?.maintainsAccuracyUnderPressure ?? null,
+    fluency,
+    suggestions: profile.nObservations > 0 ? suggestPracticeConditions(profile) : [],
+  };
+}
+
+// =============================================================================
+// Speed Rounds
+// =============================================================================
+
+/**
+ * Timed drill over known objects of a goal, least automatized first.
+ * The starting deadline leaves some headroom over the items' usual speed.
+ */
+export async function buildSpeedRound(
+  goalId: string,
+  size: number = AUTOMATIZATION_CONFIG.speedRoundSize,
+  now: Date = new Date()
+): Promise<SpeedRound> {
+  const states = await getPrisma().masteryState.findMany({
+    where: {
+      stage: { gte: AUTOMATIZATION_CONFIG.speedRoundMinStage },
+      object: { goalId, ...schedulableObjectWhere(now) },
+    },
+    orderBy: [{ automatizationLevel: 'asc' }, { stage: 'asc' }],
+    take: size,
+    include: { object: { select: { id: true, content: true, type: true } } },
+  });
+
+  const items = states.map((s) => ({
+    objectId: s.object.id,
+    goalId,
+    content: s.object.content,
+    type: s.object.type,
+    masteryStage: s.stage as MasteryStage,
+    automatizationLevel: s.automatizationLevel,
+    meanResponseTimeMs: s.meanResponseTimeMs,
+  }));
+
+  const { deadline, deadlineHeadroom } = AUTOMATIZATION_CONFIG;
+  const known = items.flatMap((i) => (i.meanResponseTimeMs !== null ? [i.meanResponseTimeMs] : []));
+  const startMs =
+    known.length > 0
+      ? Math.round(
+          Math.max(
+            deadline.minMs,
+            Math.min(deadline.maxMs, (known.reduce((a, b) => a + b, 0) / known.length) * deadlineHeadroom)
+          )
+        )
+      : deadline.startMs;
+
+  return { goalId, items, deadline: { ...deadline, startMs } };
+}
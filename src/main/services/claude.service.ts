@@ -4,24 +4,42 @@
  * Handles all Claude API interactions for the LOGOS application.
  * Provides content generation, error analysis, and adaptive hints.
  *
- * Uses the Anthropic SDK for type-safe API access.
+ * Each capability (content, error analysis, hints) is served by its own
+ * LLM provider: the Anthropic API or any OpenAI-compatible endpoint, such as
+ * a local model server. See llm-providers/ for the backends.
  *
  * Features:
- * - Online mode: Full Claude API integration
+ * - Online mode: Full model integration through the configured providers
  * - Offline fallback: Template-based content generation when API unavailable
  * - Response caching: Reduces API calls for repeated requests
  * - Graceful degradation: Automatic fallback on API errors
+ *
+ * A failing provider falls back to the offline templates, never to another
+ * provider, so a capability routed to a local server never reaches an
+ * external API.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import type { AICapability, AIProviderSettingsMap } from '../../core/types';
+import { DistractorGenerator } from '../../core/tasks';
+import { AnthropicProvider } from './llm-providers/anthropic';
+import {
+  AI_CAPABILITIES,
+  createCapabilityProviders,
+  type CapabilityProviders,
+} from './llm-providers/registry';
+import type { LLMProvider } from './llm-providers/types';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export interface ClaudeConfig {
-  apiKey: string;
+  /** Anthropic key for capabilities without an explicit provider */
+  apiKey?: string;
+  /** Anthropic model used with apiKey */
   model?: string;
+  /** Provider per capability; null forces offline templates */
+  providers?: Partial<CapabilityProviders>;
   maxTokens?: number;
   cacheEnabled?: boolean;
   cacheTTL?: number; // TTL in milliseconds
@@ -53,6 +71,22 @@ export interface HintRequest {
   previousHints?: string[];
 }
 
+export interface GlossaryRequest {
+  content: string;
+  targetLanguage: string;
+  nativeLanguage: string;
+  /** Goal domain, so the most relevant sense comes first */
+  domain?: string;
+}
+
+export interface GeneratedSense {
+  partOfSpeech?: string;
+  definition: string;
+  /** Translation into the native language */
+  translation?: string;
+  examples: string[];
+}
+
 export interface GeneratedContent {
   content: string;
   type: string;
@@ -178,11 +212,11 @@ class OfflineFallbackGenerator {
    * Generate a template-based exercise when API is unavailable.
    */
   generateExercise(request: ContentRequest): GeneratedContent {
-    const { content, targetLanguage, difficulty } = request;
+    const { content, nativeLanguage, difficulty } = request;
     const difficultyLevel = this.getDifficultyLabel(difficulty);
 
-    // Generate MCQ from similar words pattern
-    const mcqExercise = this.generateMCQExercise(content, targetLanguage);
+    // Generate MCQ from L1 confusions and similar spellings
+    const mcqExercise = this.generateMCQExercise(content, nativeLanguage);
 
     // Generate fill-in-the-blank exercise
     const fillBlankExercise = this.generateFillBlankExercise(content);
@@ -374,12 +408,25 @@ Note: Contextual examples are available when connected to the internet.
 
   private generateMCQExercise(
     content: string,
-    _language: string
+    nativeLanguage: string
   ): { question: string; options: string[]; answer: string } {
-    // Generate distractors by modifying the content
-    const distractors = this.generateDistractors(content);
+    // Without vocabulary the generator offers L1 confusions, then
+    // misspellings of the word
+    const { distractors } = new DistractorGenerator().generate(
+      {
+        id: 'offline',
+        type: 'LEX',
+        content,
+        fre: { frequency: 0, relationalDensity: 0, contextualContribution: 0 },
+        priority: 0,
+        irtDifficulty: 0,
+        irtDiscrimination: 1,
+        goalId: '',
+      },
+      { count: 3, nativeLanguage }
+    );
 
-    const options = [content, ...distractors].sort(() => Math.random() - 0.5);
+    const options = [content, ...distractors.map((d) => d.content)].sort(() => Math.random() - 0.5);
 
     return {
       question: `Which of the following is the correct form?`,
@@ -388,47 +435,6 @@ Note: Contextual examples are available when connected to the internet.
     };
   }
 
-  private generateDistractors(word: string): string[] {
-    const distractors: string[] = [];
-
-    // Swap two adjacent letters
-    if (word.length > 1) {
-      const swapPos = Math.floor(Math.random() * (word.length - 1));
-      const swapped =
-        word.slice(0, swapPos) +
-        word[swapPos + 1] +
-        word[swapPos] +
-        word.slice(swapPos + 2);
-      if (swapped !== word) {
-        distractors.push(swapped);
-      }
-    }
-
-    // Remove a letter
-    if (word.length > 2) {
-      const removePos = Math.floor(Math.random() * word.length);
-      const removed = word.slice(0, removePos) + word.slice(removePos + 1);
-      if (!distractors.includes(removed)) {
-        distractors.push(removed);
-      }
-    }
-
-    // Double a letter
-    const doublePos = Math.floor(Math.random() * word.length);
-    const doubled =
-      word.slice(0, doublePos + 1) + word[doublePos] + word.slice(doublePos + 1);
-    if (!distractors.includes(doubled)) {
-      distractors.push(doubled);
-    }
-
-    // Ensure we have at least 3 distractors
-    while (distractors.length < 3) {
-      distractors.push(word + String.fromCharCode(97 + distractors.length));
-    }
-
-    return distractors.slice(0, 3);
-  }
-
   private generateFillBlankExercise(content: string): { question: string; answer: string } {
     const words = content.split(/\s+/);
 
@@ -527,8 +533,7 @@ Note: Contextual examples are available when connected to the internet.
  * - Response caching to reduce API calls
  */
 export class ClaudeService {
-  private client: Anthropic;
-  private model: string;
+  private providers: CapabilityProviders;
   private maxTokens: number;
   private cache: ContentCache;
   private cacheEnabled: boolean;
@@ -539,10 +544,15 @@ export class ClaudeService {
   private lastError: string | undefined;
 
   constructor(config: ClaudeConfig) {
-    this.client = new Anthropic({
-      apiKey: config.apiKey,
-    });
-    this.model = config.model || 'claude-sonnet-4-20250514';
+    const fallback = config.apiKey
+      ? new AnthropicProvider({ apiKey: config.apiKey, model: config.model })
+      : null;
+    this.providers = {
+      content: config.providers?.content !== undefined ? config.providers.content : fallback,
+      errorAnalysis:
+        config.providers?.errorAnalysis !== undefined ? config.providers.errorAnalysis : fallback,
+      hints: config.providers?.hints !== undefined ? config.providers.hints : fallback,
+    };
     this.maxTokens = config.maxTokens || 1024;
     this.cacheEnabled = config.cacheEnabled ?? true;
     this.cache = new ContentCache(config.cacheTTL);
@@ -554,21 +564,26 @@ export class ClaudeService {
   // ============================================================================
 
   /**
-   * Check if the Claude API is available and responsive.
+   * Check if the configured providers are available and responsive.
    *
-   * Makes a lightweight API call to verify connectivity.
+   * Makes a lightweight call to each distinct provider.
    * Updates internal online/offline state.
    */
   async checkStatus(): Promise<ServiceStatus> {
     const startTime = Date.now();
 
     try {
-      // Make a minimal API call to check connectivity
-      await this.client.messages.create({
-        model: this.model,
-        max_tokens: 1,
-        messages: [{ role: 'user', content: 'ping' }],
-      });
+      const providers = [...new Set(AI_CAPABILITIES.map((c) => this.providers[c]))].filter(
+        (p): p is LLMProvider => p !== null
+      );
+      if (providers.length === 0) {
+        throw new Error('No AI provider configured');
+      }
+
+      // Make a minimal call to each backend to check connectivity
+      for (const provider of providers) {
+        await provider.ping();
+      }
 
       this.isOnline = true;
       this.lastStatusCheck = new Date();
@@ -614,6 +629,13 @@ export class ClaudeService {
     return this.isOnline;
   }
 
+  /**
+   * Get the provider serving a capability (null = offline templates).
+   */
+  getProvider(capability: AICapability): LLMProvider | null {
+    return this.providers[capability];
+  }
+
   // ============================================================================
   // Content Generation Methods
   // ============================================================================
@@ -729,6 +751,29 @@ export class ClaudeService {
     }
   }
 
+  /**
+   * Generate glossary senses (definition, native-language translation and
+   * examples) for a word or phrase, most relevant sense first.
+   *
+   * There is no offline fallback: throws when no content provider is
+   * configured or the response holds no usable senses.
+   */
+  async generateGlossary(request: GlossaryRequest): Promise<GeneratedSense[]> {
+    const cacheKey = this.cache.generateKey('glossary', request as unknown as Record<string, unknown>);
+    if (this.cacheEnabled) {
+      const cached = this.cache.get<GeneratedSense[]>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const result = await this.generateGlossaryOnline(request);
+    if (this.cacheEnabled) {
+      this.cache.set(cacheKey, result);
+    }
+    return result;
+  }
+
   // ============================================================================
   // Cache Management Methods
   // ============================================================================
@@ -769,24 +814,20 @@ export class ClaudeService {
     const systemPrompt = this.buildContentSystemPrompt(request);
     const userPrompt = this.buildContentUserPrompt(request);
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: this.maxTokens,
+    const provider = this.requireProvider('content');
+    const response = await provider.complete({
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }],
+      prompt: userPrompt,
+      maxTokens: this.maxTokens,
     });
 
-    const textContent = response.content.find((c) => c.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text content in response');
-    }
-
     return {
-      content: textContent.text,
+      content: response.text,
       type: request.type,
       metadata: {
-        model: this.model,
-        tokens: response.usage.output_tokens,
+        model: response.model,
+        provider: provider.kind,
+        tokens: response.outputTokens,
         offline: false,
       },
     };
@@ -816,21 +857,15 @@ Target: "${request.content}"
 User wrote: "${request.userResponse}"
 Expected: "${request.expectedResponse}"`;
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: this.maxTokens,
+    const response = await this.requireProvider('errorAnalysis').complete({
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }],
+      prompt: userPrompt,
+      maxTokens: this.maxTokens,
     });
 
-    const textContent = response.content.find((c) => c.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text content in response');
-    }
-
     try {
       // Extract JSON from response
-      const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
+      const jsonMatch = response.text.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
         throw new Error('No JSON found in response');
       }
@@ -840,7 +875,7 @@ Expected: "${request.expectedResponse}"`;
       return {
         errorType: 'Unknown',
         component: 'LEX',
-        explanation: textContent.text,
+        explanation: response.text,
         correction: request.expectedResponse,
       };
     }
@@ -866,25 +901,65 @@ Respond with just the hint text, no preamble.`;
 
     const userPrompt = `The learner needs help with: "${request.content}"${request.translation ? `\nMeaning: "${request.translation}"` : ''}`;
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 256,
+    const response = await this.requireProvider('hints').complete({
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }],
+      prompt: userPrompt,
+      maxTokens: 256,
     });
 
-    const textContent = response.content.find((c) => c.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text content in response');
-    }
-
     return {
-      hint: textContent.text.trim(),
+      hint: response.text.trim(),
       level: request.hintLevel,
       remainingLevels: 3 - request.hintLevel,
     };
   }
 
+  private async generateGlossaryOnline(request: GlossaryRequest): Promise<GeneratedSense[]> {
+    const systemPrompt = `You are a bilingual lexicographer writing a ${request.targetLanguage} learner's dictionary for ${request.nativeLanguage} speakers.
+
+List up to 3 common senses of the entry${request.domain ? `, starting with the sense used in ${request.domain} contexts` : ''}.
+
+Respond in JSON format:
+[
+  {
+    "partOfSpeech": "noun|verb|adjective|adverb|...",
+    "definition": "a short learner-friendly definition in ${request.targetLanguage}",
+    "translation": "the ${request.nativeLanguage} equivalent",
+    "examples": ["one natural ${request.targetLanguage} example sentence"]
+  }
+]`;
+
+    const response = await this.requireProvider('content').complete({
+      system: systemPrompt,
+      prompt: `Entry: "${request.content}"`,
+      maxTokens: this.maxTokens,
+    });
+
+    const jsonMatch = response.text.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error('No glossary JSON found in response');
+    }
+    const parsed = JSON.parse(jsonMatch[0]) as unknown;
+    const senses = (Array.isArray(parsed) ? parsed : [])
+      .filter((sense): sense is Record<string, unknown> => typeof sense === 'object' && sense !== null)
+      .filter((sense) => typeof sense.definition === 'string' && sense.definition.trim() !== '')
+      .map((sense) => ({
+        partOfSpeech: typeof sense.partOfSpeech === 'string' ? sense.partOfSpeech : undefined,
+        definition: String(sense.definition).trim(),
+        translation:
+          typeof sense.translation === 'string' && sense.translation.trim() !== ''
+            ? sense.translation.trim()
+            : undefined,
+        examples: Array.isArray(sense.examples)
+          ? sense.examples.filter((e): e is string => typeof e === 'string' && e.trim() !== '')
+          : [],
+      }));
+    if (senses.length === 0) {
+      throw new Error('Glossary response held no senses');
+    }
+    return senses;
+  }
+
   // ============================================================================
   // Private Offline Methods
   // ============================================================================
@@ -906,6 +981,18 @@ Respond with just the hint text, no preamble.`;
   // Private Helper Methods
   // ============================================================================
 
+  /**
+   * Provider for a capability; throws (triggering the offline fallback) when
+   * the capability is set to offline.
+   */
+  private requireProvider(capability: AICapability): LLMProvider {
+    const provider = this.providers[capability];
+    if (!provider) {
+      throw new Error(`No AI provider configured for ${capability}`);
+    }
+    return provider;
+  }
+
   private buildContentSystemPrompt(request: ContentRequest): string {
     const basePrompt = `You are a language learning content generator for ${request.targetLanguage} learners whose native language is ${request.nativeLanguage}.`;
 
@@ -960,12 +1047,23 @@ Generate example sentences or usage patterns. Provide:
 // ============================================================================
 
 let serviceInstance: ClaudeService | null = null;
+let providerSettings: AIProviderSettingsMap | null = null;
 
 /**
  * Get or create the Claude service instance.
+ *
+ * Uses the provider settings from configureClaudeService when present;
+ * otherwise every capability goes to Anthropic with ANTHROPIC_API_KEY.
  */
 export function getClaudeService(apiKey?: string): ClaudeService {
   if (!serviceInstance) {
+    if (providerSettings) {
+      serviceInstance = new ClaudeService({
+        providers: createCapabilityProviders(providerSettings, { anthropicApiKey: apiKey }),
+      });
+      return serviceInstance;
+    }
+
     const key = apiKey || process.env.ANTHROPIC_API_KEY;
     if (!key) {
       throw new Error('ANTHROPIC_API_KEY is required');
@@ -975,9 +1073,21 @@ export function getClaudeService(apiKey?: string): ClaudeService {
   return serviceInstance;
 }
 
+/**
+ * Route each capability to the provider chosen in user settings.
+ * The next getClaudeService call builds a fresh instance (and cache).
+ */
+export function configureClaudeService(settings: AIProviderSettingsMap): void {
+  // Build eagerly so invalid settings fail here rather than on first use
+  createCapabilityProviders(settings);
+  providerSettings = settings;
+  serviceInstance = null;
+}
+
 /**
  * Reset the service instance (for testing).
  */
 export function resetClaudeService(): void {
   serviceInstance = null;
+  providerSettings = null;
 }
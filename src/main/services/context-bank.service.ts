@@ -0,0 +1,389 @@
+/**
+ * Context Bank Service
+ *
+ * Keeps the sentences of uploaded documents as authentic contexts for
+ * practice. After goal:upload-corpus has ingested a document, its text is
+ * segmented into sentences (with their offsets, page or cue timing), each
+ * sentence is rated with analyzeSyntacticComplexity/estimateCEFRLevel, and
+ * indexed by the goal's language objects it contains.
+ *
+ * Task generation asks selectContextSentence for a sentence containing the
+ * target: candidates closest to (slightly below) the learner's syntactic
+ * theta win, so the target is the only new thing in the sentence, and
+ * sentences served before are rotated out.
+ */
+
+import { getPrisma } from '../db/prisma';
+import {
+  analyzeSyntacticComplexity,
+  estimateCEFRLevel,
+  type CEFRLevel,
+} from '../../core/syntactic';
+import type {
+  DocumentSegment,
+  IngestedDocument,
+} from './corpus-sources/document-ingestion.service';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BankSentence {
+  text: string;
+  /** Character range in the document text */
+  start: number;
+  end: number;
+  page?: number;
+  startMs?: number;
+  endMs?: number;
+}
+
+export interface ContextBankSummary {
+  documents: number;
+  sentences: number;
+  /** Sentence-object index entries created */
+  links: number;
+}
+
+export interface ContextCandidate {
+  sentenceId: string;
+  difficulty: number;
+  wordCount: number;
+  servedCount: number;
+}
+
+export interface ContextSentenceMatch {
+  sentenceId: string;
+  objectId: string;
+  text: string;
+  /** Where the target occurs in the sentence */
+  matchStart: number;
+  matchEnd: number;
+  cefrLevel: CEFRLevel;
+  difficulty: number;
+  filename: string;
+  page: number | null;
+  startMs: number | null;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const CONTEXT_BANK_CONFIG = {
+  minWords: 5,
+  maxWords: 40,
+  maxSentencesPerDocument: 2000,
+  /** Index entries kept per object and document */
+  maxSentencesPerObject: 30,
+  /** Contexts are pitched this far below the learner's theta */
+  targetOffset: -0.5,
+  /** Fit penalty per earlier serving of the same sentence */
+  servedPenalty: 0.3,
+  /** Theta of the middle of each CEFR band */
+  cefrTheta: { A1: -2, A2: -1, B1: 0, B2: 1, C1: 2, C2: 3 } as Record<CEFRLevel, number>,
+};
+
+/** Abbreviations whose period does not end a sentence */
+const ABBREVIATIONS = new Set([
+  'dr',
+  'mr',
+  'mrs',
+  'ms',
+  'prof',
+  'st',
+  'vs',
+  'etc',
+  'e.g',
+  'i.e',
+  'cf',
+  'approx',
+  'no',
+  'fig',
+  'inc',
+  'ltd',
+  'dept',
+  'min',
+  'max',
+  'mg',
+  'ml',
+  'ca',
+  'jr',
+  'sr',
+]);
+
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+(?=["'“‘([]?[\p{Lu}\p{N}])/gu;
+
+// =============================================================================
+// Segmentation
+// =============================================================================
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((w) => /\p{L}/u.test(w)).length;
+}
+
+/**
+ * Split a document's text into sentences, keeping each sentence's offsets
+ * and the location (page, cue) of the segment it came from. Fragments
+ * (headings, labels) and run-ons outside the configured length are dropped;
+ * subtitle cues are kept without final punctuation.
+ */
+export function segmentSentences(text: string, segments: DocumentSegment[]): BankSentence[] {
+  const sentences: BankSentence[] = [];
+
+  for (const segment of segments) {
+    const body = text.slice(segment.start, segment.end);
+    const isCue = segment.startMs !== undefined;
+    let start = 0;
+
+    const emit = (from: number, to: number) => {
+      const raw = body.slice(from, to);
+      const trimmed = raw.trim();
+      const offset = segment.start + from + (raw.length - raw.trimStart().length);
+      const words = countWords(trimmed);
+      if (
+        words < CONTEXT_BANK_CONFIG.minWords ||
+        words > CONTEXT_BANK_CONFIG.maxWords ||
+        (!isCue && !/[.!?…]["'”’)\]]*$/.test(trimmed))
+      ) {
+        return;
+      }
+      sentences.push({
+        text: trimmed,
+        start: offset,
+        end: offset + trimmed.length,
+        page: segment.page,
+        startMs: segment.startMs,
+        endMs: segment.endMs,
+      });
+    };
+
+    for (const match of body.matchAll(SENTENCE_END)) {
+      const index = match.index ?? 0;
+      const lastWord = /(\S+)$/.exec(body.slice(start, index))?.[1] ?? '';
+      const bare = lastWord.replace(/^["'“‘(]+/, '').toLowerCase();
+      if (ABBREVIATIONS.has(bare) || /^\p{L}$/u.test(bare)) {
+        continue;
+      }
+      const end = index + match[0].trimEnd().length;
+      emit(start, end);
+      start = index + match[0].length;
+    }
+    emit(start, body.length);
+  }
+
+  return sentences;
+}
+
+// =============================================================================
+// Indexing
+// =============================================================================
+
+interface ObjectMatcher {
+  words: Map<string, string>;
+  phrases: Array<{ id: string; pattern: RegExp }>;
+}
+
+function buildMatcher(objects: Array<{ id: string; content: string }>): ObjectMatcher {
+  const words = new Map<string, string>();
+  const phrases: ObjectMatcher['phrases'] = [];
+
+  for (const object of objects) {
+    const content = object.content.trim().toLowerCase();
+    // Only plain words and phrases can be found in running text
+    if (!/^\p{L}[\p{L}'’ -]*$/u.test(content)) {
+      continue;
+    }
+    if (content.includes(' ')) {
+      const pattern = content.replace(/\s+/g, '\\s+');
+      phrases.push({ id: object.id, pattern: new RegExp(`(?<!\\p{L})${pattern}(?!\\p{L})`, 'iu') });
+    } else if (!words.has(content)) {
+      words.set(content, object.id);
+    }
+  }
+  return { words, phrases };
+}
+
+/** First occurrence of each known object in a sentence */
+function findObjects(
+  sentence: string,
+  matcher: ObjectMatcher
+): Array<{ objectId: string; matchStart: number; matchEnd: number }> {
+  const found = new Map<string, { matchStart: number; matchEnd: number }>();
+
+  for (const token of sentence.matchAll(/\p{L}+(?:['’-]\p{L}+)*/gu)) {
+    const id = matcher.words.get(token[0].toLowerCase());
+    if (id && !found.has(id)) {
+      const matchStart = token.index ?? 0;
+      found.set(id, { matchStart, matchEnd: matchStart + token[0].length });
+    }
+  }
+  for (const phrase of matcher.phrases) {
+    const match = phrase.pattern.exec(sentence);
+    if (match && !found.has(phrase.id)) {
+      found.set(phrase.id, { matchStart: match.index, matchEnd: match.index + match[0].length });
+    }
+  }
+
+  return [...found].map(([objectId, range]) => ({ objectId, ...range }));
+}
+
+/**
+ * Store the sentences of ingested documents for a goal and index them by
+ * the goal's language objects. Re-uploading a file replaces its sentences.
+ */
+export async function storeContextSentences(
+  goalId: string,
+  documents: IngestedDocument[]
+): Promise<ContextBankSummary> {
+  const db = getPrisma();
+  const objects = await db.languageObject.findMany({
+    where: { goalId },
+    select: { id: true, content: true },
+  });
+  const matcher = buildMatcher(objects);
+  const summary: ContextBankSummary = { documents: 0, sentences: 0, links: 0 };
+
+  for (const doc of documents) {
+    const sentences = segmentSentences(doc.text, doc.segments).slice(
+      0,
+      CONTEXT_BANK_CONFIG.maxSentencesPerDocument
+    );
+
+    const rated = sentences.map((sentence) => {
+      const metrics = analyzeSyntacticComplexity(sentence.text);
+      const cefrLevel = estimateCEFRLevel(metrics);
+      return {
+        ...sentence,
+        wordCount: countWords(sentence.text),
+        complexity: metrics.complexityScore,
+        cefrLevel,
+        difficulty: CONTEXT_BANK_CONFIG.cefrTheta[cefrLevel],
+      };
+    });
+
+    await db.$transaction(async (tx) => {
+      await tx.sourceDocument.deleteMany({ where: { goalId, filename: doc.filename } });
+      const stored = await tx.sourceDocument.create({
+        data: {
+          goalId,
+          filename: doc.filename,
+          format: doc.format,
+          quality: doc.report.quality,
+          characters: doc.text.length,
+          sentences: { create: rated },
+        },
+        include: { sentences: { select: { id: true, start: true, text: true } } },
+      });
+
+      const perObject = new Map<string, number>();
+      const links = stored.sentences
+        .sort((a, b) => a.start - b.start)
+        .flatMap((sentence) =>
+          findObjects(sentence.text, matcher).flatMap((match) => {
+            const count = perObject.get(match.objectId) ?? 0;
+            if (count >= CONTEXT_BANK_CONFIG.maxSentencesPerObject) {
+              return [];
+            }
+            perObject.set(match.objectId, count + 1);
+            return [{ sentenceId: sentence.id, ...match }];
+          })
+        );
+      if (links.length > 0) {
+        await tx.contextSentenceObject.createMany({ data: links });
+      }
+
+      summary.documents++;
+      summary.sentences += stored.sentences.length;
+      summary.links += links.length;
+    });
+  }
+
+  return summary;
+}
+
+// =============================================================================
+// Selection
+// =============================================================================
+
+/**
+ * Order candidate sentences by fit to the learner: distance from the
+ * target difficulty, plus a penalty for each time a sentence was already
+ * used. Shorter sentences win ties.
+ */
+export function rankContextSentences<T extends ContextCandidate>(
+  candidates: T[],
+  theta: number
+): T[] {
+  const target = theta + CONTEXT_BANK_CONFIG.targetOffset;
+  const fit = (c: ContextCandidate) =>
+    Math.abs(c.difficulty - target) + c.servedCount * CONTEXT_BANK_CONFIG.servedPenalty;
+
+  return [...candidates].sort((a, b) => fit(a) - fit(b) || a.wordCount - b.wordCount);
+}
+
+/**
+ * Best authentic sentence for practising an object, or null when none of
+ * the learner's documents contains it. The chosen sentence is marked as
+ * served so the next task rotates to another one.
+ */
+export async function selectContextSentence(
+  objectId: string,
+  now: Date = new Date()
+): Promise<ContextSentenceMatch | null> {
+  const db = getPrisma();
+  const links = await db.contextSentenceObject.findMany({
+    where: { objectId },
+    include: { sentence: { include: { document: { select: { filename: true } } } } },
+  });
+  if (links.length === 0) {
+    return null;
+  }
+
+  const object = await db.languageObject.findUnique({
+    where: { id: objectId },
+    select: { goal: { select: { user: { select: { thetaSyntactic: true } } } } },
+  });
+  const theta = object?.goal.user.thetaSyntactic ?? 0;
+
+  const [best] = rankContextSentences(
+    links.map((link) => ({
+      link,
+      sentenceId: link.sentenceId,
+      difficulty: link.sentence.difficulty,
+      wordCount: link.sentence.wordCount,
+      servedCount: link.servedCount,
+    })),
+    theta
+  );
+  const { link } = best;
+
+  await db.contextSentenceObject.update({
+    where: { sentenceId_objectId: { sentenceId: link.sentenceId, objectId } },
+    data: { servedCount: { increment: 1 }, lastServedAt: now },
+  });
+
+  return {
+    sentenceId: link.sentenceId,
+    objectId,
+    text: link.sentence.text,
+    matchStart: link.matchStart,
+    matchEnd: link.matchEnd,
+    cefrLevel: link.sentence.cefrLevel as CEFRLevel,
+    difficulty: link.sentence.difficulty,
+    filename: link.sentence.document.filename,
+    page: link.sentence.page,
+    startMs: link.sentence.startMs,
+  };
+}
+
+/**
+ * The sentence with the target replaced by a blank, and the form of the
+ * target as it appears in the sentence.
+ */
+export function toCloze(match: ContextSentenceMatch): { context: string; answer: string } {
+  return {
+    context: `${match.text.slice(0, match.matchStart)}________${match.text.slice(match.matchEnd)}`,
+    answer: match.text.slice(match.matchStart, match.matchEnd),
+  };
+}
@@ -0,0 +1,559 @@
+/**
+ * Corpus Pack Service
+ *
+ * Offline vocabulary for the corpus pipeline. A corpus pack is a frequency
+ * list in which every entry carries its part of speech and lemma, and
+ * optionally a definition, IPA transcription, translations into learners'
+ * native languages and example sentences. Packs are JSON:
+ *
+ *   { format: 'logos-corpus-pack', version, id, name, language, sources,
+ *     domains, entries: [{ word, lemma, pos, rank, domains?, definition?, ipa?,
+ *     translations?: { [l1]: text }, examples? }] }
+ *
+ * or TSV, with the manifest in `# key: value` comment lines followed by a
+ * header row (word and pos required; rank defaults to the row number;
+ * `translation_<l1>` columns hold translations and `example` one example).
+ *
+ * Packs shipped with the app are read from the bundled directory; packs the
+ * user installs are stored as JSON in the user directory and replace a
+ * bundled pack with the same id. A pack's `sources` names the registry
+ * sources it serves (coca, bnc, wiktionary...); packs that name none are
+ * general packs and back every `static` source without a pack of its own.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import type { PartOfSpeech } from '../../../core/syntactic';
+import type { CorpusSource } from './registry';
+import type { ExtractionResult, VocabularyItem } from './corpus-pipeline.service';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CorpusPackEntry {
+  word: string;
+  lemma: string;
+  pos: PartOfSpeech;
+  /** Position in the source frequency list (1 = most frequent) */
+  rank: number;
+  /** Domains the word is especially relevant to */
+  domains?: string[];
+  definition?: string;
+  ipa?: string;
+  /** Translations keyed by ISO 639-1 code of the learner's native language */
+  translations?: Record<string, string>;
+  examples?: string[];
+}
+
+export interface CorpusPack {
+  id: string;
+  name: string;
+  description?: string;
+  /** ISO 639-1 code of the pack's language */
+  language: string;
+  version: number;
+  /** Registry source ids this pack serves; empty for general packs */
+  sources: string[];
+  domains: string[];
+  license?: string;
+  entries: CorpusPackEntry[];
+}
+
+export interface LoadedCorpusPack extends CorpusPack {
+  /** Shipped with the app rather than installed by the user */
+  bundled: boolean;
+}
+
+export interface CorpusPackInfo {
+  id: string;
+  name: string;
+  description: string | null;
+  language: string;
+  version: number;
+  sources: string[];
+  domains: string[];
+  entryCount: number;
+  /** Entries with a definition */
+  definitions: number;
+  /** Entries with an IPA transcription */
+  pronunciations: number;
+  /** Native languages the pack has translations for */
+  translationLanguages: string[];
+  bundled: boolean;
+}
+
+export interface CorpusPackDirectories {
+  /** Packs shipped with the app (read-only) */
+  bundledDir: string;
+  /** Packs installed by the user */
+  userDir: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Format tag of JSON packs */
+export const CORPUS_PACK_FORMAT = 'logos-corpus-pack';
+
+/** Current pack format version */
+export const CORPUS_PACK_VERSION = 1;
+
+export const CORPUS_PACK_CONFIG = {
+  maxEntries: 250000,
+  /** Ranks are scaled against this list size for the 0-1 frequency */
+  referenceRank: 20000,
+  /** Domain-relevant entries rank as if this many times more frequent */
+  domainBoost: 20,
+  /** Closed-class words are taught through grammar, not as vocabulary items */
+  closedClasses: [
+    'preposition',
+    'conjunction',
+    'determiner',
+    'pronoun',
+    'interjection',
+    'auxiliary',
+  ] as PartOfSpeech[],
+};
+
+/** Tag spellings of common frequency lists (COCA, BNC/CLAWS, Penn, UD) */
+const POS_ALIASES: Record<string, PartOfSpeech> = {
+  n: 'noun',
+  nn: 'noun',
+  noun: 'noun',
+  propn: 'noun',
+  v: 'verb',
+  vb: 'verb',
+  verb: 'verb',
+  j: 'adjective',
+  jj: 'adjective',
+  adj: 'adjective',
+  adjective: 'adjective',
+  r: 'adverb',
+  rb: 'adverb',
+  adv: 'adverb',
+  adverb: 'adverb',
+  i: 'preposition',
+  in: 'preposition',
+  prep: 'preposition',
+  adp: 'preposition',
+  preposition: 'preposition',
+  c: 'conjunction',
+  cc: 'conjunction',
+  cconj: 'conjunction',
+  sconj: 'conjunction',
+  conj: 'conjunction',
+  conjunction: 'conjunction',
+  a: 'determiner',
+  at: 'determiner',
+  d: 'determiner',
+  dt: 'determiner',
+  det: 'determiner',
+  determiner: 'determiner',
+  p: 'pronoun',
+  prp: 'pronoun',
+  pron: 'pronoun',
+  pronoun: 'pronoun',
+  u: 'interjection',
+  uh: 'interjection',
+  intj: 'interjection',
+  interj: 'interjection',
+  interjection: 'interjection',
+  md: 'auxiliary',
+  aux: 'auxiliary',
+  auxiliary: 'auxiliary',
+};
+
+const EntrySchema = z.object({
+  word: z.string().trim().min(1).max(100),
+  lemma: z.string().trim().min(1).max(100).optional(),
+  pos: z.string().trim().min(1).max(20),
+  rank: z.number().int().min(1),
+  domains: z.array(z.string().min(1)).optional(),
+  definition: z.string().trim().min(1).max(1000).optional(),
+  ipa: z.string().trim().min(1).max(100).optional(),
+  translations: z
+    .record(z.string().regex(/^[a-z]{2,3}$/), z.string().trim().min(1).max(500))
+    .optional(),
+  examples: z.array(z.string().trim().min(1).max(1000)).max(20).optional(),
+});
+
+const PackSchema = z.object({
+  format: z.literal(CORPUS_PACK_FORMAT),
+  version: z.number().int().min(1),
+  id: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9-]{0,63}$/, 'Pack id must be lowercase letters, digits and dashes'),
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  language: z.string().regex(/^[a-z]{2,3}$/, 'Language must be an ISO 639 code'),
+  sources: z.array(z.string().min(1)).default([]),
+  domains: z.array(z.string().min(1)).default(['*']),
+  license: z.string().max(200).optional(),
+  entries: z.array(EntrySchema).min(1).max(CORPUS_PACK_CONFIG.maxEntries),
+});
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Map a part-of-speech tag from any common tagset to ours.
+ */
+export function normalizePos(tag: string): PartOfSpeech {
+  const key = tag.trim().toLowerCase();
+  // Penn tags carry inflection suffixes (NNS, VBD, PRP$...)
+  return (
+    POS_ALIASES[key] ?? POS_ALIASES[key.slice(0, 3)] ?? POS_ALIASES[key.slice(0, 2)] ?? 'unknown'
+  );
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
+
+/**
+ * Read a TSV pack into the JSON pack shape for validation.
+ */
+function tsvToRawPack(text: string): Record<string, unknown> {
+  const manifest: Record<string, unknown> = { format: CORPUS_PACK_FORMAT, version: 1 };
+  const lines = text.split(/\r?\n/);
+  let columns: string[] | null = null;
+  const entries: Array<Record<string, unknown>> = [];
+
+  for (const line of lines) {
+    if (line.trim() === '') {
+      continue;
+    }
+    if (line.startsWith('#')) {
+      const match = /^#\s*([a-z]+)\s*:\s*(.*)$/i.exec(line);
+      if (match) {
+        const key = match[1].toLowerCase();
+        const value = match[2].trim();
+        manifest[key] =
+          key === 'sources' || key === 'domains'
+            ? splitList(value)
+            : key === 'version'
+              ? Number(value)
+              : value;
+      }
+      continue;
+    }
+
+    const cells = line.split('\t').map((cell) => cell.trim());
+    if (!columns) {
+      columns = cells.map((cell) => cell.toLowerCase());
+      if (!columns.includes('word') || !columns.includes('pos')) {
+        throw new Error('TSV pack header must name the word and pos columns');
+      }
+      continue;
+    }
+
+    const entry: Record<string, unknown> = { rank: entries.length + 1 };
+    columns.forEach((column, i) => {
+      const cell = cells[i] ?? '';
+      if (cell === '') {
+        return;
+      }
+      if (column === 'rank') {
+        entry.rank = Number(cell);
+      } else if (column === 'domains') {
+        entry.domains = splitList(cell);
+      } else if (column === 'example') {
+        entry.examples = [cell];
+      } else if (column.startsWith('translation_')) {
+        const translations = (entry.translations ?? {}) as Record<string, string>;
+        translations[column.slice('translation_'.length)] = cell;
+        entry.translations = translations;
+      } else if (['word', 'lemma', 'pos', 'definition', 'ipa'].includes(column)) {
+        entry[column] = cell;
+      }
+    });
+    entries.push(entry);
+  }
+
+  return { ...manifest, entries };
+}
+
+/**
+ * Parse and validate a corpus pack (JSON or TSV). Throws with a descriptive
+ * message when the file is not a valid pack.
+ */
+export function parseCorpusPack(text: string): CorpusPack {
+  const content = text.replace(/^\uFEFF/, '');
+  let raw: unknown;
+  if (content.trimStart().startsWith('{')) {
+    try {
+      raw = JSON.parse(content);
+    } catch (err) {
+      throw new Error(`Invalid pack JSON: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  } else {
+    raw = tsvToRawPack(content);
+  }
+
+  const parsed = PackSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const location = issue?.path.join('.') || 'pack';
+    throw new Error(`Invalid corpus pack at ${location}: ${issue?.message ?? 'unknown error'}`);
+  }
+
+  const pack = parsed.data;
+  if (pack.version > CORPUS_PACK_VERSION) {
+    throw new Error(
+      `Pack format version ${pack.version} is newer than supported version ${CORPUS_PACK_VERSION}`
+    );
+  }
+
+  return {
+    id: pack.id,
+    name: pack.name,
+    description: pack.description,
+    language: pack.language,
+    version: pack.version,
+    sources: pack.sources,
+    domains: pack.domains,
+    license: pack.license,
+    entries: pack.entries.map((entry) => ({
+      word: entry.word,
+      lemma: entry.lemma ?? entry.word,
+      pos: normalizePos(entry.pos),
+      rank: entry.rank,
+      domains: entry.domains,
+      definition: entry.definition,
+      ipa: entry.ipa,
+      translations: entry.translations,
+      examples: entry.examples,
+    })),
+  };
+}
+
+// =============================================================================
+// Pack Store
+// =============================================================================
+
+let directories: CorpusPackDirectories | null = null;
+let loaded: Promise<LoadedCorpusPack[]> | null = null;
+
+/**
+ * Set where bundled and installed packs live. Until this is called no packs
+ * are available.
+ */
+export function configureCorpusPacks(dirs: CorpusPackDirectories | null): void {
+  directories = dirs;
+  clearCorpusPackCache();
+}
+
+/**
+ * Forget loaded packs so the next read goes back to disk.
+ */
+export function clearCorpusPackCache(): void {
+  loaded = null;
+}
+
+async function readPackDir(dir: string, bundled: boolean): Promise<LoadedCorpusPack[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const packs: LoadedCorpusPack[] = [];
+  for (const file of files.filter((f) => /\.(json|tsv)$/i.test(f)).sort()) {
+    try {
+      const pack = parseCorpusPack(await fs.readFile(path.join(dir, file), 'utf-8'));
+      packs.push({ ...pack, bundled });
+    } catch (err) {
+      console.warn(`[CorpusPacks] Skipping ${file}:`, err instanceof Error ? err.message : err);
+    }
+  }
+  return packs;
+}
+
+/**
+ * All available packs; installed packs replace bundled ones with the same id.
+ */
+export function loadCorpusPacks(): Promise<LoadedCorpusPack[]> {
+  if (!directories) {
+    return Promise.resolve([]);
+  }
+  if (!loaded) {
+    const { bundledDir, userDir } = directories;
+    loaded = Promise.all([readPackDir(bundledDir, true), readPackDir(userDir, false)]).then(
+      ([bundled, installed]) => {
+        const byId = new Map<string, LoadedCorpusPack>();
+        for (const pack of [...bundled, ...installed]) {
+          byId.set(pack.id, pack);
+        }
+        return [...byId.values()];
+      }
+    );
+  }
+  return loaded;
+}
+
+function toPackInfo(pack: LoadedCorpusPack): CorpusPackInfo {
+  return {
+    id: pack.id,
+    name: pack.name,
+    description: pack.description ?? null,
+    language: pack.language,
+    version: pack.version,
+    sources: pack.sources,
+    domains: pack.domains,
+    entryCount: pack.entries.length,
+    definitions: pack.entries.filter((e) => e.definition).length,
+    pronunciations: pack.entries.filter((e) => e.ipa).length,
+    translationLanguages: [
+      ...new Set(pack.entries.flatMap((e) => Object.keys(e.translations ?? {}))),
+    ].sort(),
+    bundled: pack.bundled,
+  };
+}
+
+/**
+ * Summaries of the available packs.
+ */
+export async function listCorpusPacks(): Promise<CorpusPackInfo[]> {
+  return (await loadCorpusPacks()).map(toPackInfo);
+}
+
+/**
+ * Validate a pack file and install it into the user's pack directory.
+ * Installing a pack with an existing id replaces it.
+ */
+export async function installCorpusPack(filePath: string): Promise<CorpusPackInfo> {
+  if (!directories) {
+    throw new Error('Corpus packs are not configured');
+  }
+
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf-8');
+  } catch (err) {
+    throw new Error(
+      `Could not read pack ${path.basename(filePath)}: ${err instanceof Error ? err.message : 'Unknown error'}`
+    );
+  }
+  const pack = parseCorpusPack(text);
+
+  await fs.mkdir(directories.userDir, { recursive: true });
+  // Installed packs are always stored as normalized JSON
+  await fs.rm(path.join(directories.userDir, `${pack.id}.tsv`), { force: true });
+  await fs.writeFile(
+    path.join(directories.userDir, `${pack.id}.json`),
+    JSON.stringify({ format: CORPUS_PACK_FORMAT, ...pack }),
+    'utf-8'
+  );
+  clearCorpusPackCache();
+
+  return toPackInfo({ ...pack, bundled: false });
+}
+
+/**
+ * Remove a pack the user installed. Bundled packs cannot be removed; if the
+ * removed pack replaced a bundled one, the bundled pack is available again.
+ */
+export async function removeCorpusPack(id: string): Promise<void> {
+  if (!directories) {
+    throw new Error('Corpus packs are not configured');
+  }
+  const pack = (await loadCorpusPacks()).find((p) => p.id === id);
+  if (!pack) {
+    throw new Error(`Corpus pack not found: ${id}`);
+  }
+  if (pack.bundled) {
+    throw new Error('Bundled corpus packs cannot be removed');
+  }
+
+  await fs.rm(path.join(directories.userDir, `${id}.json`), { force: true });
+  await fs.rm(path.join(directories.userDir, `${id}.tsv`), { force: true });
+  clearCorpusPackCache();
+}
+
+// =============================================================================
+// Vocabulary
+// =============================================================================
+
+/**
+ * Packs that serve a registry source: the packs naming it, or the general
+ * packs when none does.
+ */
+export async function getPacksForSource(source: CorpusSource): Promise<LoadedCorpusPack[]> {
+  const packs = await loadCorpusPacks();
+  const dedicated = packs.filter((p) => p.sources.includes(source.id));
+  return dedicated.length > 0 ? dedicated : packs.filter((p) => p.sources.length === 0);
+}
+
+/**
+ * Whether any pack names this source; such sources are read from packs
+ * whatever their access method.
+ */
+export async function hasDedicatedPack(sourceId: string): Promise<boolean> {
+  return (await loadCorpusPacks()).some((p) => p.sources.includes(sourceId));
+}
+
+/**
+ * Scale a frequency rank to the pipeline's 0-1 log-scale frequency.
+ */
+export function rankToFrequency(rank: number): number {
+  const scaled = 1 - Math.log(rank) / Math.log(CORPUS_PACK_CONFIG.referenceRank);
+  return Math.min(1, Math.max(0.01, scaled));
+}
+
+/**
+ * Pick vocabulary for a goal domain from packs. Open-class lemmas are
+ * ordered by rank, with entries relevant to the domain boosted so they
+ * interleave with the core vocabulary.
+ */
+export function extractVocabularyFromPacks(
+  packs: CorpusPack[],
+  domain: string,
+  targetCount: number,
+  sourceId: string
+): ExtractionResult {
+  const best = new Map<string, { entry: CorpusPackEntry; score: number }>();
+  let entryCount = 0;
+
+  for (const pack of packs) {
+    for (const entry of pack.entries) {
+      entryCount++;
+      if (CORPUS_PACK_CONFIG.closedClasses.includes(entry.pos)) {
+        continue;
+      }
+      const relevant = entry.domains?.includes(domain) ?? false;
+      const score = relevant ? entry.rank / CORPUS_PACK_CONFIG.domainBoost : entry.rank;
+      const key = entry.lemma.toLowerCase();
+      const existing = best.get(key);
+      if (!existing || score < existing.score) {
+        best.set(key, { entry, score });
+      }
+    }
+  }
+
+  const items: VocabularyItem[] = [...best.values()]
+    .sort((a, b) => a.score - b.score)
+    .slice(0, targetCount)
+    .map(({ entry }) => ({
+      content: entry.lemma,
+      type: 'LEX',
+      frequency: rankToFrequency(entry.rank),
+      domainDistribution:
+        entry.domains && entry.domains.length > 0
+          ? Object.fromEntries(entry.domains.map((d) => [d, 1 / (entry.domains?.length ?? 1)]))
+          : undefined,
+      sourceId,
+      pos: entry.pos,
+      definition: entry.definition,
+      ipa: entry.ipa,
+    }));
+
+  return { items, documentCount: packs.length, tokenCount: entryCount };
+}
@@ -43,6 +43,17 @@ import {
   analyzeMetadiscourse,
   getDomainStatistics,
 } from '../../../core/pragmatics';
+import {
+  ingestDocument,
+  type UploadedDocument,
+  type DocumentExtractionReport,
+  type IngestedDocument,
+} from './document-ingestion.service';
+import {
+  getPacksForSource,
+  hasDedicatedPack,
+  extractVocabularyFromPacks,
+} from './corpus-pack.service';
 
 // =============================================================================
 // Types
@@ -62,6 +73,10 @@ export interface VocabularyItem {
   frequency: number;
   domainDistribution?: Record<string, number>;
   sourceId: string;
+  /** Dictionary data, when the source provides it (corpus packs) */
+  pos?: string;
+  definition?: string;
+  ipa?: string;
 }
 
 export interface PopulationResult {
@@ -89,6 +104,13 @@ export interface ExtractionResult {
   tokenCount: number;
 }
 
+export interface UploadExtractionResult extends ExtractionResult {
+  /** Extraction report for every uploaded document */
+  documents: DocumentExtractionReport[];
+  /** Text of the documents used, for the context sentence bank */
+  ingested: IngestedDocument[];
+}
+
 // =============================================================================
 // Main Pipeline
 // =============================================================================
@@ -225,6 +247,11 @@ async function fetchAndExtractVocabulary(
   nlDescription?: string,
   targetCount: number = 100
 ): Promise<ExtractionResult> {
+  // A source with an installed pack of its own is always read offline
+  if (await hasDedicatedPack(source.id)) {
+    return fetchFromCorpusPacks(source, goal, nlDescription, targetCount);
+  }
+
   switch (source.accessMethod) {
     case 'claude':
       return generateVocabularyWithClaude(source, goal, nlDescription, targetCount);
@@ -242,14 +269,31 @@ async function fetchAndExtractVocabulary(
       return generateVocabularyWithClaude(source, goal, nlDescription, targetCount);
 
     case 'static':
-      // Static exam materials - use Claude with specific exam context
-      return generateVocabularyWithClaude(source, goal, nlDescription, targetCount);
+      // Bundled or installed corpus packs
+      return fetchFromCorpusPacks(source, goal, nlDescription, targetCount);
 
     default:
       return { items: [], documentCount: 0, tokenCount: 0 };
   }
 }
 
+/**
+ * Read vocabulary from the corpus packs serving a source. Without any pack,
+ * fall back to Claude generation in the style of the source.
+ */
+async function fetchFromCorpusPacks(
+  source: CorpusSource,
+  goal: GoalSpec,
+  nlDescription?: string,
+  targetCount: number = 100
+): Promise<ExtractionResult> {
+  const packs = await getPacksForSource(source);
+  if (packs.length === 0) {
+    return generateVocabularyWithClaude(source, goal, nlDescription, targetCount);
+  }
+  return extractVocabularyFromPacks(packs, goal.domain, targetCount, source.id);
+}
+
 /**
  * Fetch vocabulary from API sources.
  */
@@ -619,17 +663,27 @@ function generateFallbackVocabulary(): VocabularyItem[] {
 
 /**
  * Process user-uploaded documents for vocabulary extraction.
+ * Documents whose extraction failed or came out garbled are reported but
+ * contribute no vocabulary.
  */
 export async function processUserUploads(
   _goalId: string,
-  documents: Array<{ filename: string; content: string; mimeType: string }>
-): Promise<ExtractionResult> {
+  documents: UploadedDocument[]
+): Promise<UploadExtractionResult> {
   const allItems: VocabularyItem[] = [];
+  const reports: DocumentExtractionReport[] = [];
+  const used: IngestedDocument[] = [];
   let totalTokens = 0;
 
   for (const doc of documents) {
-    const text = extractTextFromDocument(doc.content, doc.mimeType);
-    const tokens = tokenize(text);
+    const ingested = ingestDocument(doc);
+    reports.push(ingested.report);
+    if (!ingested.report.used) {
+      continue;
+    }
+    used.push(ingested);
+
+    const tokens = tokenize(ingested.text);
     totalTokens += tokens.length;
 
     // Extract vocabulary from tokens
@@ -639,135 +693,13 @@ export async function processUserUploads(
 
   return {
     items: deduplicateVocabulary(allItems),
-    documentCount: documents.length,
+    documentCount: used.length,
     tokenCount: totalTokens,
+    documents: reports,
+    ingested: used,
   };
 }
 
-/**
- * Extract text from document based on MIME type.
- * Supports plain text, HTML, PDF, and DOCX formats.
- */
-function extractTextFromDocument(content: string, mimeType: string): string {
-  switch (mimeType) {
-    case 'text/plain':
-    case 'text/markdown':
-      return content;
-
-    case 'text/html':
-      // Strip HTML tags
-      return content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
-
-    case 'application/pdf':
-      // PDF content is typically pre-extracted before reaching here
-      // For base64-encoded PDF, attempt basic text extraction
-      return extractPDFText(content);
-
-    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-    case 'application/msword':
-      // DOCX/DOC content extraction
-      return extractDOCXText(content);
-
-    case 'application/rtf':
-      // RTF text extraction
-      return extractRTFText(content);
-
-    default:
-      // For unknown types, treat as plain text
-      return content;
-  }
-}
-
-/**
- * Extract text from PDF content.
- * Handles both pre-extracted text and base64-encoded PDF data.
- */
-function extractPDFText(content: string): string {
-  // If content is base64-encoded, try to decode and extract text
-  if (content.startsWith('data:application/pdf;base64,') || /^[A-Za-z0-9+/=]+$/.test(content.slice(0, 100))) {
-    try {
-      // For base64 content, we need to extract raw text
-      // PDF parsing is complex; this handles simple text-based PDFs
-      const decoded = Buffer.from(content.replace(/^data:[^,]+,/, ''), 'base64').toString('utf-8');
-
-      // Look for text objects in PDF stream (simplified extraction)
-      const textMatches = decoded.match(/\(([^)]+)\)/g);
-      if (textMatches) {
-        return textMatches
-          .map(m => m.slice(1, -1)) // Remove parentheses
-          .filter(t => t.length > 1 && !/^[\x00-\x1f]+$/.test(t)) // Filter control chars
-          .join(' ')
-          .replace(/\s+/g, ' ')
-          .trim();
-      }
-
-      // Fallback: extract printable ASCII sequences
-      const printable = decoded.match(/[\x20-\x7E]{4,}/g);
-      return printable ? printable.join(' ').replace(/\s+/g, ' ').trim() : content;
-    } catch {
-      // If decoding fails, return original content
-      return content;
-    }
-  }
-
-  // Content is already extracted text
-  return content;
-}
-
-/**
- * Extract text from DOCX content.
- * DOCX is a ZIP archive containing XML files.
- */
-function extractDOCXText(content: string): string {
-  // If content is base64-encoded, decode it
-  if (content.startsWith('data:') || /^[A-Za-z0-9+/=]+$/.test(content.slice(0, 100))) {
-    try {
-      const decoded = Buffer.from(content.replace(/^data:[^,]+,/, ''), 'base64').toString('utf-8');
-
-      // DOCX files contain XML; extract text from <w:t> tags
-      const textMatches = decoded.match(/<w:t[^>]*>([^<]*)<\/w:t>/g);
-      if (textMatches) {
-        return textMatches
-          .map(m => m.replace(/<[^>]+>/g, ''))
-          .join(' ')
-          .replace(/\s+/g, ' ')
-          .trim();
-      }
-
-      // Fallback: extract any readable text sequences
-      const printable = decoded.match(/[\x20-\x7E]{4,}/g);
-      return printable ? printable.join(' ').replace(/\s+/g, ' ').trim() : content;
-    } catch {
-      return content;
-    }
-  }
-
-  // Content is already extracted text
-  return content;
-}
-
-/**
- * Extract text from RTF content.
- * RTF uses control words prefixed with backslash.
- */
-function extractRTFText(content: string): string {
-  // Remove RTF control sequences
-  let text = content
-    // Remove RTF header
-    .replace(/^\{\\rtf[^}]*\}?/i, '')
-    // Remove control words
-    .replace(/\\[a-z]+\d*\s?/gi, '')
-    // Remove escaped characters
-    .replace(/\\'[0-9a-f]{2}/gi, ' ')
-    // Remove braces
-    .replace(/[{}]/g, '')
-    // Normalize whitespace
-    .replace(/\s+/g, ' ')
-    .trim();
-
-  return text;
-}
-
 /**
  * Tokenize text into words.
  */
@@ -895,6 +827,15 @@ async function insertVocabulary(
           domainDistribution: item.domainDistribution
             ? JSON.stringify(item.domainDistribution)
             : null,
+          contentJson:
+            item.pos || item.definition || item.ipa
+              ? JSON.stringify({
+                  pos: item.pos,
+                  definition: item.definition,
+                  ipa: item.ipa,
+                  source: item.sourceId,
+                })
+              : null,
           priority: item.frequency, // Initial priority based on frequency
         },
         update: {
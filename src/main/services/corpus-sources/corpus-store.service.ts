@@ -0,0 +1,144 @@
+/**
+ * Corpus Store Service
+ *
+ * Persists dynamic corpus API responses in the CorpusCache table and logs
+ * every API source query in CorpusQuery, so Wikipedia, Wiktionary and REST
+ * corpus lookups survive restarts and can be audited. Each core source is
+ * mirrored by a CorpusSource row keyed on its name.
+ *
+ * connectDynamicCorpus() hands the store and the global fetch to the core
+ * module at startup; until then its API sources stay offline.
+ */
+
+import { getPrisma } from '../../db/prisma';
+import {
+  configureDynamicCorpus,
+  type CorpusQuery,
+  type CorpusSource,
+  type CorpusStore,
+  type ExtractedItem,
+  type StoredCorpusResult,
+} from '../../../core/dynamic-corpus';
+
+/** CorpusSource row ids by core source id */
+const sourceRowIds = new Map<string, string>();
+
+/**
+ * Returns the CorpusSource row for a core source, creating or refreshing it
+ * on first use.
+ */
+async function getSourceRowId(source: CorpusSource): Promise<string> {
+  const known = sourceRowIds.get(source.id);
+  if (known) {
+    return known;
+  }
+
+  const fields = {
+    sourceType: source.type,
+    endpoint: source.baseUrl ?? null,
+    domains: JSON.stringify(source.domains),
+    languages: JSON.stringify(source.languages),
+    isAvailable: source.isAvailable,
+    requiresAuth: source.requiresAuth,
+    priority: source.priority,
+    rateLimitPerMinute: source.rateLimit ?? 60,
+  };
+  const row = await getPrisma().corpusSource.upsert({
+    where: { name: source.name },
+    create: { name: source.name, ...fields },
+    update: fields,
+  });
+  sourceRowIds.set(source.id, row.id);
+  return row.id;
+}
+
+/**
+ * Difficulty ceiling of a query, stored as the table's target level.
+ */
+function targetLevel(query: CorpusQuery): number {
+  return query.maxDifficulty ?? 1;
+}
+
+/**
+ * CorpusStore over the CorpusCache and CorpusQuery tables.
+ */
+export const prismaCorpusStore: CorpusStore = {
+  async getCached(_source, cacheKey, now) {
+    const row = await getPrisma().corpusCache.findUnique({ where: { cacheKey } });
+    if (!row || row.expiresAt <= now) {
+      return null;
+    }
+
+    const content = JSON.parse(row.content) as { items: ExtractedItem[]; totalAvailable: number };
+    return {
+      items: content.items,
+      totalAvailable: content.totalAvailable,
+      expiresAt: row.expiresAt,
+    };
+  },
+
+  async putCached(source, cacheKey, query, result: StoredCorpusResult) {
+    const sourceId = await getSourceRowId(source);
+    const fields = {
+      sourceId,
+      content: JSON.stringify({ items: result.items, totalAvailable: result.totalAvailable }),
+      expiresAt: result.expiresAt,
+      domain: query.domain,
+      targetLevel: targetLevel(query),
+      itemCount: result.items.length,
+    };
+
+    await getPrisma().corpusCache.upsert({
+      where: { cacheKey },
+      create: { cacheKey, ...fields },
+      update: fields,
+    });
+  },
+
+  async recordQuery(source, query, log) {
+    const db = getPrisma();
+    const sourceId = await getSourceRowId(source);
+
+    await db.corpusQuery.create({
+      data: {
+        sourceId,
+        domain: query.domain,
+        targetLevel: targetLevel(query),
+        queryType: 'vocabulary',
+        filters: JSON.stringify({
+          genre: query.genre,
+          language: query.language,
+          keywords: query.keywords,
+          posFilter: query.posFilter,
+          minFrequency: query.minFrequency,
+          targetCount: query.targetCount,
+        }),
+        resultCount: log.resultCount,
+        cacheHit: log.cacheHit,
+        latencyMs: Math.round(log.latencyMs),
+        success: log.success,
+        error: log.error ?? null,
+      },
+    });
+
+    if (!log.cacheHit) {
+      await db.corpusSource.update({ where: { id: sourceId }, data: { lastQueryAt: new Date() } });
+    }
+  },
+};
+
+/**
+ * Forget CorpusSource row ids, after the database was replaced.
+ */
+export function clearCorpusSourceIds(): void {
+  sourceRowIds.clear();
+}
+
+/**
+ * Enables the dynamic corpus API sources over the network, persisting
+ * their responses in the database.
+ */
+export function connectDynamicCorpus(): void {
+  sourceRowIds.clear();
+  configureDynamicCorpus({ fetch: globalThis.fetch.bind(globalThis), store: prismaCorpusStore });
+}
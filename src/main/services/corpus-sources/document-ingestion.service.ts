@@ -0,0 +1,417 @@
+/**
+ * Document Ingestion Service
+ *
+ * Turns uploaded documents (goal:upload-corpus) into clean text for the
+ * corpus pipeline. Each format goes through a reader in file-formats/:
+ * - PDF: text layer per page (FlateDecode, ToUnicode fonts)
+ * - DOCX: paragraphs; EPUB: chapters in spine order
+ * - SRT/VTT: subtitle cues, timestamps kept
+ * - HTML: readability-style main text, boilerplate removed
+ * - RTF, Markdown and plain text
+ *
+ * The text is kept as segments (paragraph, page, chapter or cue) with their
+ * character offsets, and every document gets a quality report so learners
+ * can see when an upload produced little or garbled text.
+ */
+
+import { readPdfText } from '../file-formats/pdf-reader';
+import { readDocxParagraphs, readEpubChapters } from '../file-formats/office-reader';
+import { extractReadableText } from '../file-formats/html-text';
+import { parseSubtitles } from '../file-formats/subtitle-reader';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DocumentFormat =
+  'text' | 'markdown' | 'html' | 'pdf' | 'docx' | 'epub' | 'srt' | 'vtt' | 'rtf';
+
+export type ExtractionQuality = 'good' | 'fair' | 'poor' | 'failed';
+
+export interface UploadedDocument {
+  filename: string;
+  /** Plain text, base64, or a base64 data URL */
+  content: string;
+  mimeType: string;
+}
+
+export interface DocumentSegment {
+  /** Character range of the segment in the document text */
+  start: number;
+  end: number;
+  /** 1-based page (PDF) */
+  page?: number;
+  /** 1-based chapter (EPUB) */
+  chapter?: number;
+  /** Cue timing (subtitles) */
+  startMs?: number;
+  endMs?: number;
+}
+
+export interface DocumentExtractionReport {
+  filename: string;
+  format: DocumentFormat;
+  quality: ExtractionQuality;
+  characters: number;
+  words: number;
+  segments: number;
+  /** Share of alphabetic tokens that look like real words (0-1) */
+  wordLikeRatio: number;
+  /** Whether the text was used for vocabulary extraction */
+  used: boolean;
+  warnings: string[];
+}
+
+export interface IngestedDocument {
+  filename: string;
+  format: DocumentFormat;
+  text: string;
+  segments: DocumentSegment[];
+  report: DocumentExtractionReport;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const INGESTION_CONFIG = {
+  /** Word-like ratio at or above which extraction counts as good */
+  goodRatio: 0.85,
+  /** Below this the text is treated as garbled and not used */
+  poorRatio: 0.65,
+  /** Documents shorter than this get a warning */
+  minWords: 30,
+  /** Longest token still considered a word */
+  maxWordLength: 30,
+};
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/epub+zip': 'epub',
+  'application/x-subrip': 'srt',
+  'text/srt': 'srt',
+  'text/vtt': 'vtt',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf',
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  txt: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  pdf: 'pdf',
+  docx: 'docx',
+  epub: 'epub',
+  srt: 'srt',
+  vtt: 'vtt',
+  rtf: 'rtf',
+};
+
+const BINARY_FORMATS = new Set<DocumentFormat>(['pdf', 'docx', 'epub']);
+
+// =============================================================================
+// Format Detection
+// =============================================================================
+
+/**
+ * Decode upload content to bytes. Binary formats arrive base64-encoded;
+ * text formats may be plain text or a base64 data URL.
+ */
+function decodeContent(content: string, binary: boolean): Buffer {
+  const dataUrl = /^data:[^,]*?(;base64)?,/.exec(content);
+  if (dataUrl) {
+    const payload = content.slice(dataUrl[0].length);
+    return dataUrl[1]
+      ? Buffer.from(payload, 'base64')
+      : Buffer.from(decodeURIComponent(payload), 'utf8');
+  }
+  return binary ? Buffer.from(content, 'base64') : Buffer.from(content, 'utf8');
+}
+
+function sniffFormat(bytes: Buffer): DocumentFormat | null {
+  const head = bytes.subarray(0, 1024).toString('latin1');
+  if (head.startsWith('%PDF-')) {
+    return 'pdf';
+  }
+  if (head.startsWith('PK\x03\x04')) {
+    if (head.includes('mimetypeapplication/epub+zip')) {
+      return 'epub';
+    }
+    return bytes.includes('word/document.xml') ? 'docx' : null;
+  }
+  const text = head.replace(/^(\uFEFF|\u00EF\u00BB\u00BF)/, '').trimStart();
+  if (text.startsWith('WEBVTT')) {
+    return 'vtt';
+  }
+  if (/^\d+\s*\n\s*\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/.test(text.replace(/\r/g, ''))) {
+    return 'srt';
+  }
+  if (text.startsWith('{\\rtf')) {
+    return 'rtf';
+  }
+  if (/^<(!doctype html|html|\?xml[^>]*>\s*<html)/i.test(text)) {
+    return 'html';
+  }
+  return null;
+}
+
+/**
+ * Work out a document's format from its content, MIME type and filename,
+ * in that order of trust.
+ */
+export function detectDocumentFormat(doc: UploadedDocument): DocumentFormat {
+  const extension = /\.([a-z0-9]+)$/i.exec(doc.filename)?.[1].toLowerCase() ?? '';
+  const declared =
+    MIME_FORMATS[doc.mimeType.split(';')[0].trim().toLowerCase()] ?? EXTENSION_FORMATS[extension];
+
+  if (declared && BINARY_FORMATS.has(declared)) {
+    return sniffFormat(decodeContent(doc.content, true)) ?? declared;
+  }
+  const sniffedText = sniffFormat(decodeContent(doc.content, false));
+  if (sniffedText && !BINARY_FORMATS.has(sniffedText)) {
+    return sniffedText;
+  }
+  // Undeclared binary uploads (e.g. application/octet-stream)
+  const sniffedBinary = declared ? null : sniffFormat(decodeContent(doc.content, true));
+  return sniffedBinary ?? declared ?? 'text';
+}
+
+// =============================================================================
+// Readers
+// =============================================================================
+
+interface RawSegment extends Omit<DocumentSegment, 'start' | 'end'> {
+  text: string;
+}
+
+interface ReaderOutput {
+  segments: RawSegment[];
+  warnings: string[];
+}
+
+function paragraphs(text: string, separator = /\n\s*\n/): RawSegment[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split(separator)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .filter((p) => p !== '')
+    .map((p) => ({ text: p }));
+}
+
+/**
+ * Plain text of an RTF document: control words and groups such as the font
+ * table are dropped, \'hh escapes decoded as Latin-1 and \uN as Unicode.
+ */
+export function extractRtfText(rtf: string): string {
+  const skipGroups =
+    /\{\\(\*|fonttbl|colortbl|stylesheet|info|pict|header|footer|listtable|listoverridetable)[^{}]*(\{[^{}]*\}[^{}]*)*\}/g;
+  let text = rtf;
+  // Nested destination groups need a few passes
+  for (let i = 0; i < 5; i++) {
+    const next = text.replace(skipGroups, '');
+    if (next === text) {
+      break;
+    }
+    text = next;
+  }
+
+  return text
+    .replace(/\\(par|line|sect|page)\b\s?/g, '\n')
+    .replace(/\\tab\b\s?/g, '\t')
+    .replace(/\\u(-?\d+)\s?(\\'[0-9a-f]{2}|\?)?/gi, (_m, code: string) =>
+      String.fromCharCode((Number(code) + 0x10000) % 0x10000)
+    )
+    .replace(/\\'([0-9a-f]{2})/gi, (_m, hex: string) =>
+      Buffer.from([parseInt(hex, 16)]).toString('latin1')
+    )
+    .replace(/\\([{}\\])/g, '$1')
+    .replace(/\\[a-z]+-?\d*\s?/gi, '')
+    .replace(/[{}]/g, '')
+    .replace(/\n[ \t]+/g, '\n');
+}
+
+/**
+ * Markdown source to prose: markup, code blocks and link targets removed.
+ */
+function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|`)(\S[^\n]*?)\1/g, '$2');
+}
+
+/**
+ * Join PDF lines into paragraphs, undoing end-of-line hyphenation.
+ */
+function pdfPageText(page: string): string {
+  return page
+    .replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2')
+    .replace(/\n(?=\p{Ll})/gu, ' ')
+    .replace(/\n/g, ' ')
+    .trim();
+}
+
+function readDocument(format: DocumentFormat, bytes: Buffer): ReaderOutput {
+  switch (format) {
+    case 'pdf': {
+      const pdf = readPdfText(bytes);
+      return {
+        segments: pdf.pages.flatMap((page, i) => {
+          const text = pdfPageText(page);
+          return text === '' ? [] : [{ text, page: i + 1 }];
+        }),
+        warnings: pdf.warnings,
+      };
+    }
+    case 'docx':
+      return { segments: readDocxParagraphs(bytes).map((text) => ({ text })), warnings: [] };
+    case 'epub': {
+      const chapters = readEpubChapters(bytes);
+      return {
+        segments: chapters.flatMap((chapter, i) =>
+          chapter.blocks.map((text) => ({ text, chapter: i + 1 }))
+        ),
+        warnings: chapters.length === 0 ? ['No readable chapters found in the book'] : [],
+      };
+    }
+    case 'srt':
+    case 'vtt':
+      return {
+        segments: parseSubtitles(bytes.toString('utf8')).map((cue) => ({
+          text: cue.text,
+          startMs: cue.startMs,
+          endMs: cue.endMs,
+        })),
+        warnings: [],
+      };
+    case 'html': {
+      const html = extractReadableText(bytes.toString('utf8'));
+      return {
+        segments: html.blocks.map((text) => ({ text })),
+        warnings:
+          html.removedBlocks > html.blocks.length
+            ? [`Removed ${html.removedBlocks} navigation or boilerplate blocks`]
+            : [],
+      };
+    }
+    case 'rtf':
+      return { segments: paragraphs(extractRtfText(bytes.toString('utf8')), /\n+/), warnings: [] };
+    case 'markdown':
+      return { segments: paragraphs(stripMarkdown(bytes.toString('utf8'))), warnings: [] };
+    case 'text':
+      return { segments: paragraphs(bytes.toString('utf8')), warnings: [] };
+  }
+}
+
+// =============================================================================
+// Quality
+// =============================================================================
+
+function isWordLike(token: string): boolean {
+  if (token.length > INGESTION_CONFIG.maxWordLength || !/^\p{L}+(['’-]\p{L}+)*$/u.test(token)) {
+    return false;
+  }
+  // Latin-script words have vowels; runs of consonants are broken glyph maps
+  const bare = token.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+  if (/^[a-z'’-]+$/.test(bare)) {
+    return /[aeiouy]/.test(bare) && !/(.)\1\1/.test(bare);
+  }
+  return true;
+}
+
+/**
+ * Assess extracted text: how much there is and how much of it reads as
+ * words rather than glyph soup.
+ */
+export function assessExtractionQuality(text: string): {
+  quality: ExtractionQuality;
+  words: number;
+  wordLikeRatio: number;
+  warnings: string[];
+} {
+  const tokens = text
+    .split(/\s+/)
+    .map((t) => t.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter((t) => t !== '');
+  // Numbers say nothing about extraction quality either way
+  const alphabetic = tokens.filter((t) => !/^[\p{N}.,:/%-]+$/u.test(t));
+  const wordLike = alphabetic.filter(isWordLike).length;
+  const wordLikeRatio = alphabetic.length > 0 ? wordLike / alphabetic.length : 0;
+
+  const warnings: string[] = [];
+  let quality: ExtractionQuality;
+  if (alphabetic.length === 0) {
+    quality = 'failed';
+    warnings.push('No text could be extracted');
+  } else if (wordLikeRatio < INGESTION_CONFIG.poorRatio) {
+    quality = 'poor';
+    warnings.push('Extracted text looks garbled and was not used for vocabulary');
+  } else if (wordLikeRatio < INGESTION_CONFIG.goodRatio) {
+    quality = 'fair';
+  } else {
+    quality = 'good';
+  }
+  if (quality !== 'failed' && tokens.length < INGESTION_CONFIG.minWords) {
+    warnings.push('Very little text was extracted');
+  }
+
+  return { quality, words: tokens.length, wordLikeRatio, warnings };
+}
+
+// =============================================================================
+// Ingestion
+// =============================================================================
+
+/**
+ * Extract the text of one uploaded document with its segments and a quality
+ * report. Never throws: unreadable documents come back with quality 'failed'.
+ */
+export function ingestDocument(doc: UploadedDocument): IngestedDocument {
+  let format: DocumentFormat = 'text';
+  let output: ReaderOutput;
+  try {
+    format = detectDocumentFormat(doc);
+    output = readDocument(format, decodeContent(doc.content, BINARY_FORMATS.has(format)));
+  } catch (err) {
+    output = { segments: [], warnings: [err instanceof Error ? err.message : String(err)] };
+  }
+
+  let text = '';
+  const segments: DocumentSegment[] = [];
+  for (const { text: segmentText, ...location } of output.segments) {
+    if (text !== '') {
+      text += '\n\n';
+    }
+    segments.push({ ...location, start: text.length, end: text.length + segmentText.length });
+    text += segmentText;
+  }
+
+  const assessment = assessExtractionQuality(text);
+  return {
+    filename: doc.filename,
+    format,
+    text,
+    segments,
+    report: {
+      filename: doc.filename,
+      format,
+      quality: assessment.quality,
+      characters: text.length,
+      words: assessment.words,
+      segments: segments.length,
+      wordLikeRatio: Math.round(assessment.wordLikeRatio * 1000) / 1000,
+      used: assessment.quality === 'good' || assessment.quality === 'fair',
+      warnings: [...output.warnings, ...assessment.warnings],
+    },
+  };
+}
@@ -361,8 +361,8 @@ export function getRecommendedSources(
 export function getDefaultSourceIds(goal: GoalSpec): string[] {
   const recommended = getRecommendedSources(goal, undefined, 10);
 
-  // Always include user uploads and Claude fallback
-  const defaultIds = new Set<string>(['user-upload', 'claude-generated']);
+  // Always include user uploads, offline corpus packs and Claude fallback
+  const defaultIds = new Set<string>(['user-upload', 'corpus-packs', 'claude-generated']);
 
   // Add top recommended sources
   for (const ranked of recommended) {
@@ -290,7 +290,7 @@ export const CORPUS_SOURCES: CorpusSource[] = [
     type: 'corpus',
     domains: ['*'],
     modalities: ['reading', 'listening', 'writing', 'speaking'],
-    accessMethod: 'api',
+    accessMethod: 'static', // Frequency list from a corpus pack
     url: 'https://www.english-corpora.org/coca/',
     reliability: 0.95,
     enabled: true,
@@ -303,12 +303,24 @@ export const CORPUS_SOURCES: CorpusSource[] = [
     type: 'corpus',
     domains: ['*'],
     modalities: ['reading', 'listening', 'writing', 'speaking'],
-    accessMethod: 'api',
+    accessMethod: 'static', // Frequency list from a corpus pack
     url: 'http://www.natcorp.ox.ac.uk/',
     reliability: 0.95,
     enabled: true,
     priority: 80,
   },
+  {
+    id: 'corpus-packs',
+    name: 'Offline Corpus Packs',
+    description: 'Bundled and installed frequency lists and dictionaries, available offline',
+    type: 'corpus',
+    domains: ['*'],
+    modalities: ['reading', 'listening', 'writing', 'speaking'],
+    accessMethod: 'static',
+    reliability: 0.9,
+    enabled: true,
+    priority: 90,
+  },
 
   // =========================================================================
   // Special Sources
@@ -0,0 +1,1423 @@
+/**
+ * Data Archive Service
+ *
+ * Exports and imports the learner's full history as a versioned,
+ * schema-tagged JSON archive so it can be moved between machines.
+ *
+ * Archive layout:
+ *   { format, schemaVersion, exportedAt, scope, counts, checksum, data }
+ *
+ * `data` holds one array per user-owned table (see ARCHIVE_TABLES).
+ * Shared caches, machine-local queues and tables the app never writes are
+ * listed in ARCHIVE_EXCLUDED_MODELS and left untouched by import. Import
+ * validates the archive, assigns fresh IDs to every row, rewrites foreign
+ * keys, and then merges into or replaces the local database inside a single
+ * transaction.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { getPrisma } from '../db/prisma';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Format tag written into every archive. */
+export const ARCHIVE_FORMAT = 'logos-archive';
+
+/**
+ * Current archive schema version. Bump when the table layout changes.
+ * Version 2 added every user-owned table beyond the learning core.
+ */
+export const ARCHIVE_SCHEMA_VERSION = 2;
+
+/** Tables included in an archive, in foreign-key insertion order. */
+export const ARCHIVE_TABLES = [
+  'users',
+  'goalSpecs',
+  'languageObjects',
+  'masteryStates',
+  'stageTransitions',
+  'sessions',
+  'responses',
+  'thetaSnapshots',
+  'collocations',
+  'errorAnalyses',
+  'componentErrorStats',
+  'experimentAssignments',
+  'milestoneEvents',
+  'distractorStats',
+  'propagationLogs',
+  'sourceDocuments',
+  'contextSentences',
+  'contextSentenceObjects',
+  'glossarySenses',
+  'userObjectRelationships',
+  'objectEncounters',
+  'objectConnections',
+  'g2pItemParameters',
+  'g2pThetaProfiles',
+  'g2pResponses',
+  'curriculumGoals',
+  'timeAllocations',
+  'sharedObjectGoals',
+  'paretoSolutions',
+] as const;
+
+export type ArchiveTable = typeof ARCHIVE_TABLES[number];
+
+/** Prisma model stored in each archive table. */
+export const ARCHIVE_TABLE_MODELS: Record<ArchiveTable, string> = {
+  users: 'User',
+  goalSpecs: 'GoalSpec',
+  languageObjects: 'LanguageObject',
+  masteryStates: 'MasteryState',
+  stageTransitions: 'StageTransition',
+  sessions: 'Session',
+  responses: 'Response',
+  thetaSnapshots: 'ThetaSnapshot',
+  collocations: 'Collocation',
+  errorAnalyses: 'ErrorAnalysis',
+  componentErrorStats: 'ComponentErrorStats',
+  experimentAssignments: 'ExperimentAssignment',
+  milestoneEvents: 'MilestoneEvent',
+  distractorStats: 'DistractorStat',
+  propagationLogs: 'PropagationLog',
+  sourceDocuments: 'SourceDocument',
+  contextSentences: 'ContextSentence',
+  contextSentenceObjects: 'ContextSentenceObject',
+  glossarySenses: 'GlossarySense',
+  userObjectRelationships: 'UserObjectRelationship',
+  objectEncounters: 'ObjectEncounter',
+  objectConnections: 'ObjectConnection',
+  g2pItemParameters: 'G2PItemParameter',
+  g2pThetaProfiles: 'G2PThetaProfile',
+  g2pResponses: 'G2PResponse',
+  curriculumGoals: 'CurriculumGoal',
+  timeAllocations: 'TimeAllocation',
+  sharedObjectGoals: 'SharedObjectGoal',
+  paretoSolutions: 'ParetoSolution',
+};
+
+/**
+ * Models an archive does not carry, and why. Import never touches them,
+ * except that issued tasks go with their session on replace.
+ */
+export const ARCHIVE_EXCLUDED_MODELS: Record<string, string> = {
+  CachedTask: 'generated tasks, reissued on demand',
+  IssuedTask: 'tasks awaiting an answer in a local session',
+  OfflineQueueItem: 'background work pending on this machine',
+  ThresholdExperiment: 'experiment definitions shared by all users',
+  CorpusSource: 'shared corpus cache',
+  CorpusQuery: 'shared corpus cache',
+  CorpusCache: 'shared corpus cache',
+  ExtractedVocabulary: 'shared corpus cache',
+  SpreadingActivationLog: 'not written by the app',
+  OnboardingSession: 'not written by the app',
+  OnboardingStep: 'not written by the app',
+  ParsedGoalHistory: 'not written by the app',
+  ClarifyingQuestion: 'not written by the app',
+};
+
+// =============================================================================
+// Record Schemas
+// =============================================================================
+
+const id = z.string().min(1);
+const optionalText = z.string().nullable().optional();
+const optionalNumber = z.number().nullable().optional();
+const optionalDate = z.coerce.date().nullable().optional();
+
+const UserRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  nativeLanguage: z.string(),
+  targetLanguage: z.string(),
+  thetaGlobal: z.number(),
+  thetaPhonology: z.number(),
+  thetaMorphology: z.number(),
+  thetaLexical: z.number(),
+  thetaSyntactic: z.number(),
+  thetaPragmatic: z.number(),
+  fsrsWeights: optionalText,
+  fsrsCalibration: optionalText,
+  fsrsOptimizedAt: optionalDate,
+  settings: optionalText,
+});
+
+const GoalSpecRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  domain: z.string(),
+  modality: z.string(),
+  genre: z.string(),
+  purpose: z.string(),
+  benchmark: optionalText,
+  deadline: optionalDate,
+  completionPercent: z.number(),
+  isActive: z.boolean(),
+  propagationEnabled: z.boolean().optional(),
+  userId: id,
+});
+
+const LanguageObjectRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  type: z.string(),
+  content: z.string(),
+  contentJson: optionalText,
+  frequency: z.number(),
+  relationalDensity: z.number(),
+  contextualContribution: z.number(),
+  domainDistribution: optionalText,
+  morphologicalScore: optionalNumber,
+  phonologicalDifficulty: optionalNumber,
+  pragmaticScore: optionalNumber,
+  syntacticComplexity: optionalNumber,
+  priority: z.number(),
+  irtDifficulty: z.number(),
+  irtDiscrimination: z.number(),
+  irtGuessing: z.number(),
+  suspended: z.boolean().optional(),
+  buriedUntil: optionalDate,
+  goalId: id,
+});
+
+const MasteryStateRecordSchema = z.object({
+  id,
+  stage: z.number().int().min(0).max(4),
+  fsrsDifficulty: z.number(),
+  fsrsStability: z.number(),
+  fsrsLastReview: optionalDate,
+  fsrsNextReview: optionalDate,
+  fsrsReps: z.number().int(),
+  fsrsLapses: z.number().int(),
+  fsrsState: z.string(),
+  cueFreeAccuracy: z.number(),
+  cueAssistedAccuracy: z.number(),
+  exposureCount: z.number().int(),
+  automatizationLevel: z.number().optional(),
+  automatizationCategory: z.string().optional(),
+  meanResponseTimeMs: optionalNumber,
+  responseTimeCv: optionalNumber,
+  automatizationUpdatedAt: optionalDate,
+  nextReview: optionalDate,
+  lastReviewedAt: optionalDate,
+  priority: z.number(),
+  objectId: id,
+});
+
+const StageTransitionRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  masteryStateId: id,
+  fromStage: z.number().int(),
+  toStage: z.number().int(),
+  trigger: z.string(),
+  cueFreeAccuracyAtTransition: z.number(),
+  cueAssistedAccuracyAtTransition: z.number(),
+  exposureCountAtTransition: z.number().int(),
+  metadata: optionalText,
+  thresholdConfigId: optionalText,
+  experimentId: optionalText,
+  experimentGroupId: optionalText,
+});
+
+const SessionRecordSchema = z.object({
+  id,
+  startedAt: z.coerce.date(),
+  endedAt: optionalDate,
+  mode: z.string(),
+  itemsPracticed: z.number().int(),
+  stageTransitions: z.number().int(),
+  fluencyTaskCount: z.number().int(),
+  versatilityTaskCount: z.number().int(),
+  responseCount: z.number().int(),
+  correctCount: z.number().int(),
+  userId: id,
+  goalId: id,
+});
+
+const ResponseRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  taskType: z.string(),
+  taskFormat: z.string(),
+  modality: z.string(),
+  correct: z.boolean(),
+  responseTimeMs: z.number().int(),
+  cueLevel: z.number().int(),
+  response: optionalText,
+  expected: optionalText,
+  responseContent: optionalText,
+  expectedContent: optionalText,
+  taskId: optionalText,
+  credit: optionalNumber,
+  matchType: optionalText,
+  distractorId: optionalText,
+  distractorStrategy: optionalText,
+  intent: optionalText,
+  predictedSuccess: optionalNumber,
+  irtThetaContribution: optionalNumber,
+  sessionId: id,
+  objectId: id,
+});
+
+const ThetaSnapshotRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  thetaGlobal: z.number(),
+  thetaPhonology: z.number(),
+  thetaMorphology: z.number(),
+  thetaLexical: z.number(),
+  thetaSyntactic: z.number(),
+  thetaPragmatic: z.number(),
+  seGlobal: z.number(),
+  sessionId: id,
+});
+
+const CollocationRecordSchema = z.object({
+  id,
+  word1Id: id,
+  word2Id: id,
+  pmi: z.number(),
+  npmi: z.number(),
+  cooccurrence: z.number().int(),
+  significance: z.number(),
+});
+
+const ErrorAnalysisRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  responseId: id,
+  component: z.string(),
+  errorType: z.string(),
+  explanation: z.string(),
+  correction: z.string(),
+  similarErrors: optionalText,
+  confidence: z.number(),
+  source: z.string(),
+  objectId: id,
+});
+
+const ComponentErrorStatsRecordSchema = z.object({
+  id,
+  updatedAt: z.coerce.date(),
+  component: z.string(),
+  totalErrors: z.number().int(),
+  recentErrors: z.number().int(),
+  errorRate: z.number(),
+  trend: z.number(),
+  recommendation: optionalText,
+  userId: id,
+  goalId: optionalText,
+});
+
+const ExperimentAssignmentRecordSchema = z.object({
+  id,
+  assignedAt: z.coerce.date(),
+  groupId: z.string(),
+  configId: z.string(),
+  userId: id,
+  experimentId: id,
+});
+
+const MilestoneEventRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  milestoneId: z.string(),
+  type: z.string(),
+  priority: z.string(),
+  title: z.string(),
+  description: z.string(),
+  celebrationMessage: optionalText,
+  iconId: optionalText,
+  pointsAwarded: z.number().int(),
+  data: optionalText,
+  acknowledged: z.boolean(),
+  userId: id,
+  goalId: optionalText,
+  sessionId: optionalText,
+});
+
+const DistractorStatRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  content: z.string(),
+  strategy: z.string(),
+  plausibility: z.number(),
+  explanation: z.string(),
+  timesShown: z.number().int(),
+  timesPicked: z.number().int(),
+  retired: z.boolean(),
+  retiredAt: optionalDate,
+  objectId: id,
+});
+
+const PropagationLogRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  goalId: id,
+  responseId: optionalText,
+  relationType: z.string(),
+  depth: z.number().int(),
+  magnitude: z.number(),
+  reason: z.string(),
+  difficultyBefore: z.number(),
+  difficultyDelta: z.number(),
+  stabilityBefore: optionalNumber,
+  stabilityDelta: z.number(),
+  sourceObjectId: id,
+  targetObjectId: id,
+});
+
+const SourceDocumentRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  goalId: id,
+  filename: z.string(),
+  format: z.string(),
+  quality: z.string(),
+  characters: z.number().int(),
+});
+
+const ContextSentenceRecordSchema = z.object({
+  id,
+  documentId: id,
+  text: z.string(),
+  start: z.number().int(),
+  end: z.number().int(),
+  page: optionalNumber,
+  startMs: optionalNumber,
+  endMs: optionalNumber,
+  wordCount: z.number().int(),
+  complexity: z.number(),
+  cefrLevel: z.string(),
+  difficulty: z.number(),
+});
+
+const ContextSentenceObjectRecordSchema = z.object({
+  sentenceId: id,
+  objectId: id,
+  matchStart: z.number().int(),
+  matchEnd: z.number().int(),
+  servedCount: z.number().int(),
+  lastServedAt: optionalDate,
+});
+
+const GlossarySenseRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  objectId: id,
+  senseIndex: z.number().int(),
+  partOfSpeech: optionalText,
+  definition: optionalText,
+  translation: optionalText,
+  l1: optionalText,
+  examples: z.string(),
+  source: z.string(),
+});
+
+const UserObjectRelationshipRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  userId: id,
+  objectId: id,
+  relationshipType: z.string(),
+  strength: z.number(),
+  encounterCount: z.number().int(),
+  lastEncounter: optionalDate,
+  firstEncounter: optionalDate,
+  successRate: z.number(),
+  avgResponseTime: z.number().int(),
+  activationLevel: z.number(),
+  decayRate: z.number(),
+  interpretationEncounters: z.number().int(),
+  productionEncounters: z.number().int(),
+  visualEncounters: z.number().int(),
+  auditoryEncounters: z.number().int(),
+  mixedEncounters: z.number().int(),
+  interpretationSuccessRate: z.number(),
+  productionSuccessRate: z.number(),
+  interpretationRatio: z.number(),
+  modalityBalance: z.number(),
+});
+
+const ObjectEncounterRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  userId: id,
+  responseId: optionalText,
+  taskCategory: z.string(),
+  taskType: z.string(),
+  taskFormat: z.string(),
+  modality: z.string(),
+  domain: z.string(),
+  userTheta: z.number(),
+  itemDifficulty: z.number(),
+  successful: z.boolean(),
+  responseTimeMs: z.number().int(),
+  cueLevel: z.number().int(),
+  objectId: id,
+});
+
+const ObjectConnectionRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  sourceObjectId: id,
+  targetObjectId: id,
+  connectionType: z.string(),
+  weight: z.number(),
+  bidirectional: z.boolean(),
+  cooccurrenceCount: z.number().int(),
+  pmi: z.number(),
+});
+
+const G2PItemParameterRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  pattern: z.string(),
+  patternType: z.string(),
+  difficulty: z.number(),
+  discrimination: z.number(),
+  targetLayer: z.string(),
+  frequency: z.number(),
+  regularity: z.number(),
+  l1Adjustments: z.string(),
+});
+
+const G2PThetaProfileRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  userId: id,
+  thetaPhonological: z.number(),
+  thetaAlphabetic: z.number(),
+  thetaSyllable: z.number(),
+  thetaWord: z.number(),
+  thetaSupra: z.number(),
+  thetaReading: z.number(),
+  thetaWriting: z.number(),
+  thetaListening: z.number(),
+  thetaSpeaking: z.number(),
+  sePhonological: z.number(),
+  seAlphabetic: z.number(),
+  seSyllable: z.number(),
+  seWord: z.number(),
+  seSupra: z.number(),
+  responseCounts: z.string(),
+});
+
+const G2PResponseRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  userId: id,
+  patternId: id,
+  correct: z.boolean(),
+  responseTimeMs: z.number().int(),
+  modality: z.string(),
+  targetLayer: z.string(),
+  wordContext: optionalText,
+  taskType: z.string(),
+  priorTheta: z.number(),
+  posteriorTheta: z.number(),
+  information: z.number(),
+});
+
+const CurriculumGoalRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  userId: id,
+  name: z.string(),
+  domain: z.string(),
+  targetTheta: z.number(),
+  currentTheta: z.number(),
+  deadline: optionalDate,
+  weight: z.number(),
+  totalObjects: z.number().int(),
+  masteredObjects: z.number().int(),
+  isActive: z.boolean(),
+  modalities: z.string(),
+  goalSpecId: optionalText,
+});
+
+const TimeAllocationRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  goalId: id,
+  sessionDate: z.coerce.date(),
+  allocatedMinutes: z.number().int(),
+  actualMinutes: z.number().int(),
+  paretoRank: z.number().int(),
+  utilityScore: z.number(),
+});
+
+const SharedObjectGoalRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  objectId: id,
+  goalId: id,
+  relevance: z.number(),
+  transferWeight: z.number(),
+});
+
+const ParetoSolutionRecordSchema = z.object({
+  id,
+  createdAt: z.coerce.date(),
+  userId: id,
+  sessionDate: z.coerce.date(),
+  allocation: z.string(),
+  paretoRank: z.number().int(),
+  dominated: z.boolean(),
+  objectiveScores: z.string(),
+  preference: z.string(),
+  selected: z.boolean(),
+});
+
+/** Tables added in version 2 default to empty so version 1 archives still load */
+const ArchiveDataSchema = z.object({
+  users: z.array(UserRecordSchema),
+  goalSpecs: z.array(GoalSpecRecordSchema),
+  languageObjects: z.array(LanguageObjectRecordSchema),
+  masteryStates: z.array(MasteryStateRecordSchema),
+  stageTransitions: z.array(StageTransitionRecordSchema),
+  sessions: z.array(SessionRecordSchema),
+  responses: z.array(ResponseRecordSchema),
+  thetaSnapshots: z.array(ThetaSnapshotRecordSchema),
+  collocations: z.array(CollocationRecordSchema),
+  errorAnalyses: z.array(ErrorAnalysisRecordSchema),
+  componentErrorStats: z.array(ComponentErrorStatsRecordSchema).default([]),
+  experimentAssignments: z.array(ExperimentAssignmentRecordSchema).default([]),
+  milestoneEvents: z.array(MilestoneEventRecordSchema).default([]),
+  distractorStats: z.array(DistractorStatRecordSchema).default([]),
+  propagationLogs: z.array(PropagationLogRecordSchema).default([]),
+  sourceDocuments: z.array(SourceDocumentRecordSchema).default([]),
+  contextSentences: z.array(ContextSentenceRecordSchema).default([]),
+  contextSentenceObjects: z.array(ContextSentenceObjectRecordSchema).default([]),
+  glossarySenses: z.array(GlossarySenseRecordSchema).default([]),
+  userObjectRelationships: z.array(UserObjectRelationshipRecordSchema).default([]),
+  objectEncounters: z.array(ObjectEncounterRecordSchema).default([]),
+  objectConnections: z.array(ObjectConnectionRecordSchema).default([]),
+  g2pItemParameters: z.array(G2PItemParameterRecordSchema).default([]),
+  g2pThetaProfiles: z.array(G2PThetaProfileRecordSchema).default([]),
+  g2pResponses: z.array(G2PResponseRecordSchema).default([]),
+  curriculumGoals: z.array(CurriculumGoalRecordSchema).default([]),
+  timeAllocations: z.array(TimeAllocationRecordSchema).default([]),
+  sharedObjectGoals: z.array(SharedObjectGoalRecordSchema).default([]),
+  paretoSolutions: z.array(ParetoSolutionRecordSchema).default([]),
+});
+
+const ArchiveEnvelopeSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  schemaVersion: z.number().int().min(1),
+  exportedAt: z.string(),
+  scope: z.object({
+    goalIds: z.array(z.string()).nullable(),
+    includeHistory: z.boolean(),
+  }),
+  checksum: z.string(),
+  data: z.unknown(),
+});
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ArchiveData = z.infer<typeof ArchiveDataSchema>;
+
+export interface LogosArchive {
+  format: typeof ARCHIVE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  scope: {
+    goalIds: string[] | null;
+    includeHistory: boolean;
+  };
+  counts: Record<ArchiveTable, number>;
+  checksum: string;
+  data: ArchiveData;
+}
+
+export interface ExportOptions {
+  /** Restrict the export to these goals (all goals when omitted) */
+  goalIds?: string[];
+  /** Include sessions, responses and other history tables (default: true) */
+  includeHistory?: boolean;
+}
+
+export interface ImportOptions {
+  /** Merge into the existing database (true) or replace it entirely (false) */
+  merge: boolean;
+}
+
+export interface ImportResult {
+  imported: Record<ArchiveTable, number>;
+  skipped: number;
+  errors: string[];
+  /** Models the archive does not carry; their local rows were left as they were */
+  excluded: string[];
+}
+
+/**
+ * Local rows that archived references resolve against during remapping.
+ */
+export interface LocalReferences {
+  /** Existing experiment ids; assignments to other experiments are dropped */
+  experimentIds?: Set<string>;
+  /** Existing G2P item ids keyed by `${pattern}:${patternType}` */
+  g2pItemIds?: Map<string, string>;
+}
+
+export interface RemapResult {
+  data: ArchiveData;
+  /** Rows dropped because a foreign key pointed outside the archive */
+  skipped: number;
+  errors: string[];
+}
+
+// =============================================================================
+// Archive Construction
+// =============================================================================
+
+/**
+ * Read the requested scope from the database and build an archive.
+ */
+export async function buildArchive(options: ExportOptions = {}): Promise<LogosArchive> {
+  const db = getPrisma();
+  const includeHistory = options.includeHistory ?? true;
+  const goalFilter = options.goalIds && options.goalIds.length > 0
+    ? { id: { in: options.goalIds } }
+    : {};
+
+  const goalSpecs = await db.goalSpec.findMany({ where: goalFilter });
+  const goalIds = goalSpecs.map((g) => g.id);
+
+  const users = options.goalIds
+    ? await db.user.findMany({ where: { id: { in: [...new Set(goalSpecs.map((g) => g.userId))] } } })
+    : await db.user.findMany();
+  const userIds = users.map((u) => u.id);
+
+  const languageObjects = await db.languageObject.findMany({
+    where: { goalId: { in: goalIds } },
+  });
+  const objectIds = languageObjects.map((o) => o.id);
+
+  const masteryStates = await db.masteryState.findMany({
+    where: { objectId: { in: objectIds } },
+  });
+
+  const collocations = await db.collocation.findMany({
+    where: { word1Id: { in: objectIds }, word2Id: { in: objectIds } },
+  });
+
+  const componentErrorStats = await db.componentErrorStats.findMany({
+    where: { userId: { in: userIds } },
+  });
+  const experimentAssignments = await db.experimentAssignment.findMany({
+    where: { userId: { in: userIds } },
+  });
+  const distractorStats = await db.distractorStat.findMany({ where: { objectId: { in: objectIds } } });
+  const glossarySenses = await db.glossarySense.findMany({ where: { objectId: { in: objectIds } } });
+
+  const sourceDocuments = await db.sourceDocument.findMany({ where: { goalId: { in: goalIds } } });
+  const contextSentences = await db.contextSentence.findMany({
+    where: { documentId: { in: sourceDocuments.map((d) => d.id) } },
+  });
+  const contextSentenceObjects = await db.contextSentenceObject.findMany({
+    where: { sentenceId: { in: contextSentences.map((c) => c.id) } },
+  });
+
+  const userObjectRelationships = await db.userObjectRelationship.findMany({
+    where: { objectId: { in: objectIds } },
+  });
+  const objectConnections = await db.objectConnection.findMany({
+    where: { sourceObjectId: { in: objectIds }, targetObjectId: { in: objectIds } },
+  });
+  const g2pThetaProfiles = await db.g2PThetaProfile.findMany({ where: { userId: { in: userIds } } });
+
+  const curriculumGoals = await db.curriculumGoal.findMany({
+    where: options.goalIds
+      ? { userId: { in: userIds }, goalSpecId: { in: goalIds } }
+      : { userId: { in: userIds } },
+  });
+  const curriculumGoalIds = curriculumGoals.map((g) => g.id);
+  const timeAllocations = await db.timeAllocation.findMany({ where: { goalId: { in: curriculumGoalIds } } });
+  const sharedObjectGoals = await db.sharedObjectGoal.findMany({
+    where: { goalId: { in: curriculumGoalIds } },
+  });
+  const paretoSolutions = await db.paretoSolution.findMany({ where: { userId: { in: userIds } } });
+
+  let stageTransitions: ArchiveData['stageTransitions'] = [];
+  let sessions: ArchiveData['sessions'] = [];
+  let responses: ArchiveData['responses'] = [];
+  let thetaSnapshots: ArchiveData['thetaSnapshots'] = [];
+  let errorAnalyses: ArchiveData['errorAnalyses'] = [];
+  let milestoneEvents: ArchiveData['milestoneEvents'] = [];
+  let propagationLogs: ArchiveData['propagationLogs'] = [];
+  let objectEncounters: ArchiveData['objectEncounters'] = [];
+  let g2pResponses: ArchiveData['g2pResponses'] = [];
+  let g2pItemParameters: ArchiveData['g2pItemParameters'] = [];
+
+  if (includeHistory) {
+    stageTransitions = await db.stageTransition.findMany({
+      where: { masteryStateId: { in: masteryStates.map((m) => m.id) } },
+    });
+    sessions = await db.session.findMany({ where: { goalId: { in: goalIds } } });
+    const sessionIds = sessions.map((s) => s.id);
+    responses = await db.response.findMany({ where: { sessionId: { in: sessionIds } } });
+    thetaSnapshots = await db.thetaSnapshot.findMany({ where: { sessionId: { in: sessionIds } } });
+    errorAnalyses = await db.errorAnalysis.findMany({ where: { objectId: { in: objectIds } } });
+    milestoneEvents = await db.milestoneEvent.findMany({ where: { userId: { in: userIds } } });
+    propagationLogs = await db.propagationLog.findMany({ where: { goalId: { in: goalIds } } });
+    objectEncounters = await db.objectEncounter.findMany({ where: { objectId: { in: objectIds } } });
+    g2pResponses = await db.g2PResponse.findMany({ where: { userId: { in: userIds } } });
+    // Shared item bank; only the patterns the responses refer to travel
+    g2pItemParameters = await db.g2PItemParameter.findMany({
+      where: { id: { in: [...new Set(g2pResponses.map((r) => r.patternId))] } },
+    });
+  }
+
+  const data: ArchiveData = {
+    users,
+    goalSpecs,
+    languageObjects,
+    masteryStates,
+    stageTransitions,
+    sessions,
+    responses,
+    thetaSnapshots,
+    collocations,
+    errorAnalyses,
+    componentErrorStats,
+    experimentAssignments,
+    milestoneEvents,
+    distractorStats,
+    propagationLogs,
+    sourceDocuments,
+    contextSentences,
+    contextSentenceObjects,
+    glossarySenses,
+    userObjectRelationships,
+    objectEncounters,
+    objectConnections,
+    g2pItemParameters,
+    g2pThetaProfiles,
+    g2pResponses,
+    curriculumGoals,
+    timeAllocations,
+    sharedObjectGoals,
+    paretoSolutions,
+  };
+
+  return createArchive(data, {
+    goalIds: options.goalIds && options.goalIds.length > 0 ? options.goalIds : null,
+    includeHistory,
+  });
+}
+
+/**
+ * Wrap table data in the archive envelope (format tag, version, counts, checksum).
+ */
+export function createArchive(
+  data: ArchiveData,
+  scope: LogosArchive['scope'],
+  exportedAt: Date = new Date()
+): LogosArchive {
+  const counts = {} as Record<ArchiveTable, number>;
+  for (const table of ARCHIVE_TABLES) {
+    counts[table] = data[table].length;
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    schemaVersion: ARCHIVE_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    scope,
+    counts,
+    checksum: computeChecksum(data),
+    data,
+  };
+}
+
+/**
+ * SHA-256 over the serialized table data.
+ * Dates are normalized through JSON so in-memory and parsed archives agree.
+ */
+export function computeChecksum(data: unknown): string {
+  return createHash('sha256').update(JSON.stringify(data)).digest('hex');
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate a parsed archive: format tag, schema version, checksum, and
+ * every table row. Throws with a descriptive message on failure.
+ */
+export function validateArchive(raw: unknown): LogosArchive {
+  const envelope = ArchiveEnvelopeSchema.safeParse(raw);
+  if (!envelope.success) {
+    throw new Error('Not a LOGOS archive (missing or invalid format header)');
+  }
+
+  const { schemaVersion, checksum } = envelope.data;
+  if (schemaVersion > ARCHIVE_SCHEMA_VERSION) {
+    throw new Error(
+      `Archive schema version ${schemaVersion} is newer than supported version ${ARCHIVE_SCHEMA_VERSION}`
+    );
+  }
+
+  if (computeChecksum(envelope.data.data) !== checksum) {
+    throw new Error('Archive checksum mismatch: file is corrupted or was modified');
+  }
+
+  const data = ArchiveDataSchema.safeParse(envelope.data.data);
+  if (!data.success) {
+    const issue = data.error.issues[0];
+    const location = issue?.path.join('.') ?? 'data';
+    throw new Error(`Invalid archive data at ${location}: ${issue?.message ?? 'unknown error'}`);
+  }
+
+  return {
+    ...envelope.data,
+    format: ARCHIVE_FORMAT,
+    counts: createArchive(data.data, envelope.data.scope).counts,
+    data: data.data,
+  };
+}
+
+// =============================================================================
+// ID Remapping
+// =============================================================================
+
+/**
+ * Assign a fresh ID to every row and rewrite all foreign keys.
+ *
+ * Rows whose parent is not present in the archive are dropped and counted
+ * as skipped. When `userIdOverride` is set, every archived user collapses
+ * onto that existing local user instead of being recreated; the local user's
+ * own profile rows (G2P profile, experiment assignments, user-wide error
+ * stats) are kept and the archived ones are not imported.
+ *
+ * G2P item parameters are a shared bank: archived items that already exist
+ * locally (same pattern and type) are reused rather than inserted.
+ */
+export function remapArchiveIds(
+  data: ArchiveData,
+  newId: () => string = randomUUID,
+  userIdOverride?: string,
+  local: LocalReferences = {}
+): RemapResult {
+  const errors: string[] = [];
+  let skipped = 0;
+
+  const buildMap = (rows: Array<{ id: string }>) =>
+    new Map(rows.map((row) => [row.id, newId()] as const));
+
+  const userMap = new Map(
+    data.users.map((u) => [u.id, userIdOverride ?? newId()] as const)
+  );
+  const goalMap = buildMap(data.goalSpecs);
+  const objectMap = buildMap(data.languageObjects);
+  const masteryMap = buildMap(data.masteryStates);
+  const sessionMap = buildMap(data.sessions);
+  const responseMap = buildMap(data.responses);
+  const distractorMap = buildMap(data.distractorStats);
+  const documentMap = buildMap(data.sourceDocuments);
+  const sentenceMap = buildMap(data.contextSentences);
+  const curriculumMap = buildMap(data.curriculumGoals);
+  const g2pItemMap = new Map(
+    data.g2pItemParameters.map((p) => [
+      p.id,
+      local.g2pItemIds?.get(`${p.pattern}:${p.patternType}`) ?? newId(),
+    ] as const)
+  );
+
+  /** Keep rows whose foreign keys all resolve; report the rest. */
+  function remapRows<T extends { id: string }>(
+    table: ArchiveTable,
+    rows: T[],
+    idMap: Map<string, string> | null,
+    remap: (row: T) => T | null
+  ): T[] {
+    const result: T[] = [];
+    for (const row of rows) {
+      const mapped = remap(row);
+      if (!mapped) {
+        skipped++;
+        errors.push(`${table}:${row.id} references a record missing from the archive`);
+        continue;
+      }
+      result.push({ ...mapped, id: idMap?.get(row.id) ?? newId() });
+    }
+    return result;
+  }
+
+  const users = userIdOverride
+    ? []
+    : data.users.map((u) => ({ ...u, id: userMap.get(u.id)! }));
+  const userOf = (userId: string) => userMap.get(userId) ?? userIdOverride;
+
+  const goalSpecs = remapRows('goalSpecs', data.goalSpecs, goalMap, (g) => {
+    const userId = userOf(g.userId);
+    return userId ? { ...g, userId } : null;
+  });
+
+  const languageObjects = remapRows('languageObjects', data.languageObjects, objectMap, (o) => {
+    const goalId = goalMap.get(o.goalId);
+    return goalId ? { ...o, goalId } : null;
+  });
+
+  const masteryStates = remapRows('masteryStates', data.masteryStates, masteryMap, (m) => {
+    const objectId = objectMap.get(m.objectId);
+    return objectId ? { ...m, objectId } : null;
+  });
+
+  const stageTransitions = remapRows('stageTransitions', data.stageTransitions, null, (t) => {
+    const masteryStateId = masteryMap.get(t.masteryStateId);
+    return masteryStateId ? { ...t, masteryStateId } : null;
+  });
+
+  const sessions = remapRows('sessions', data.sessions, sessionMap, (s) => {
+    const userId = userOf(s.userId);
+    const goalId = goalMap.get(s.goalId);
+    return userId && goalId ? { ...s, userId, goalId } : null;
+  });
+
+  const responses = remapRows('responses', data.responses, responseMap, (r) => {
+    const sessionId = sessionMap.get(r.sessionId);
+    const objectId = objectMap.get(r.objectId);
+    // The picked distractor is a soft reference to a DistractorStat row
+    const distractorId = r.distractorId ? distractorMap.get(r.distractorId) ?? null : r.distractorId;
+    return sessionId && objectId ? { ...r, sessionId, objectId, distractorId } : null;
+  });
+
+  const thetaSnapshots = remapRows('thetaSnapshots', data.thetaSnapshots, null, (t) => {
+    const sessionId = sessionMap.get(t.sessionId);
+    return sessionId ? { ...t, sessionId } : null;
+  });
+
+  const collocations = remapRows('collocations', data.collocations, null, (c) => {
+    const word1Id = objectMap.get(c.word1Id);
+    const word2Id = objectMap.get(c.word2Id);
+    return word1Id && word2Id ? { ...c, word1Id, word2Id } : null;
+  });
+
+  const errorAnalyses = remapRows('errorAnalyses', data.errorAnalyses, null, (e) => {
+    const objectId = objectMap.get(e.objectId);
+    // responseId is a soft reference; keep the row even if the response was not exported
+    const responseId = responseMap.get(e.responseId) ?? newId();
+    return objectId ? { ...e, objectId, responseId } : null;
+  });
+
+  const componentErrorStats = remapRows('componentErrorStats', data.componentErrorStats, null, (c) => {
+    const userId = userOf(c.userId);
+    const goalId = c.goalId ? goalMap.get(c.goalId) ?? null : null;
+    return userId ? { ...c, userId, goalId } : null;
+  }).filter((c) => !userIdOverride || c.goalId !== null);
+
+  const experimentAssignments = remapRows(
+    'experimentAssignments',
+    userIdOverride ? [] : data.experimentAssignments,
+    null,
+    (a) => {
+      const userId = userOf(a.userId);
+      const knownExperiment = !local.experimentIds || local.experimentIds.has(a.experimentId);
+      return userId && knownExperiment ? { ...a, userId } : null;
+    }
+  );
+
+  const milestoneEvents = remapRows('milestoneEvents', data.milestoneEvents, null, (m) => {
+    const userId = userOf(m.userId);
+    const goalId = m.goalId ? goalMap.get(m.goalId) ?? null : null;
+    const sessionId = m.sessionId ? sessionMap.get(m.sessionId) ?? null : null;
+    return userId ? { ...m, userId, goalId, sessionId } : null;
+  });
+
+  const distractorStats = remapRows('distractorStats', data.distractorStats, distractorMap, (d) => {
+    const objectId = objectMap.get(d.objectId);
+    return objectId ? { ...d, objectId } : null;
+  });
+
+  const propagationLogs = remapRows('propagationLogs', data.propagationLogs, null, (p) => {
+    const goalId = goalMap.get(p.goalId);
+    const sourceObjectId = objectMap.get(p.sourceObjectId);
+    const targetObjectId = objectMap.get(p.targetObjectId);
+    const responseId = p.responseId ? responseMap.get(p.responseId) ?? null : null;
+    return goalId && sourceObjectId && targetObjectId
+      ? { ...p, goalId, sourceObjectId, targetObjectId, responseId }
+      : null;
+  });
+
+  const sourceDocuments = remapRows('sourceDocuments', data.sourceDocuments, documentMap, (d) => {
+    const goalId = goalMap.get(d.goalId);
+    return goalId ? { ...d, goalId } : null;
+  });
+
+  const contextSentences = remapRows('contextSentences', data.contextSentences, sentenceMap, (c) => {
+    const documentId = documentMap.get(c.documentId);
+    return documentId ? { ...c, documentId } : null;
+  });
+
+  // Keyed by (sentence, object) rather than an id
+  const contextSentenceObjects: ArchiveData['contextSentenceObjects'] = [];
+  for (const link of data.contextSentenceObjects) {
+    const sentenceId = sentenceMap.get(link.sentenceId);
+    const objectId = objectMap.get(link.objectId);
+    if (!sentenceId || !objectId) {
+      skipped++;
+      errors.push(
+        `contextSentenceObjects:${link.sentenceId}/${link.objectId} references a record missing from the archive`
+      );
+      continue;
+    }
+    contextSentenceObjects.push({ ...link, sentenceId, objectId });
+  }
+
+  const glossarySenses = remapRows('glossarySenses', data.glossarySenses, null, (g) => {
+    const objectId = objectMap.get(g.objectId);
+    return objectId ? { ...g, objectId } : null;
+  });
+
+  const userObjectRelationships = remapRows(
+    'userObjectRelationships',
+    data.userObjectRelationships,
+    null,
+    (r) => {
+      const userId = userOf(r.userId);
+      const objectId = objectMap.get(r.objectId);
+      return userId && objectId ? { ...r, userId, objectId } : null;
+    }
+  );
+
+  const objectEncounters = remapRows('objectEncounters', data.objectEncounters, null, (e) => {
+    const userId = userOf(e.userId);
+    const objectId = objectMap.get(e.objectId);
+    const responseId = e.responseId ? responseMap.get(e.responseId) ?? null : null;
+    return userId && objectId ? { ...e, userId, objectId, responseId } : null;
+  });
+
+  const objectConnections = remapRows('objectConnections', data.objectConnections, null, (c) => {
+    const sourceObjectId = objectMap.get(c.sourceObjectId);
+    const targetObjectId = objectMap.get(c.targetObjectId);
+    return sourceObjectId && targetObjectId ? { ...c, sourceObjectId, targetObjectId } : null;
+  });
+
+  const g2pItemParameters = data.g2pItemParameters
+    .filter((p) => !local.g2pItemIds?.has(`${p.pattern}:${p.patternType}`))
+    .map((p) => ({ ...p, id: g2pItemMap.get(p.id)! }));
+
+  const g2pThetaProfiles = remapRows(
+    'g2pThetaProfiles',
+    userIdOverride ? [] : data.g2pThetaProfiles,
+    null,
+    (p) => {
+      const userId = userOf(p.userId);
+      return userId ? { ...p, userId } : null;
+    }
+  );
+
+  const g2pResponses = remapRows('g2pResponses', data.g2pResponses, null, (r) => {
+    const userId = userOf(r.userId);
+    const patternId = g2pItemMap.get(r.patternId);
+    return userId && patternId ? { ...r, userId, patternId } : null;
+  });
+
+  const curriculumGoals = remapRows('curriculumGoals', data.curriculumGoals, curriculumMap, (g) => {
+    const userId = userOf(g.userId);
+    const goalSpecId = g.goalSpecId ? goalMap.get(g.goalSpecId) ?? null : null;
+    return userId ? { ...g, userId, goalSpecId } : null;
+  });
+
+  const timeAllocations = remapRows('timeAllocations', data.timeAllocations, null, (a) => {
+    const goalId = curriculumMap.get(a.goalId);
+    return goalId ? { ...a, goalId } : null;
+  });
+
+  const sharedObjectGoals = remapRows('sharedObjectGoals', data.sharedObjectGoals, null, (s) => {
+    const goalId = curriculumMap.get(s.goalId);
+    const objectId = objectMap.get(s.objectId);
+    return goalId && objectId ? { ...s, goalId, objectId } : null;
+  });
+
+  const paretoSolutions = remapRows('paretoSolutions', data.paretoSolutions, null, (p) => {
+    const userId = userOf(p.userId);
+    return userId
+      ? {
+          ...p,
+          userId,
+          allocation: remapJsonKeys(p.allocation, goalMap),
+          objectiveScores: remapJsonKeys(p.objectiveScores, goalMap),
+        }
+      : null;
+  });
+
+  return {
+    data: {
+      users,
+      goalSpecs,
+      languageObjects,
+      masteryStates,
+      stageTransitions,
+      sessions,
+      responses,
+      thetaSnapshots,
+      collocations,
+      errorAnalyses,
+      componentErrorStats,
+      experimentAssignments,
+      milestoneEvents,
+      distractorStats,
+      propagationLogs,
+      sourceDocuments,
+      contextSentences,
+      contextSentenceObjects,
+      glossarySenses,
+      userObjectRelationships,
+      objectEncounters,
+      objectConnections,
+      g2pItemParameters,
+      g2pThetaProfiles,
+      g2pResponses,
+      curriculumGoals,
+      timeAllocations,
+      sharedObjectGoals,
+      paretoSolutions,
+    },
+    skipped,
+    errors,
+  };
+}
+
+/**
+ * Rewrite the keys of a JSON object (goal id -> value); unknown keys are dropped.
+ */
+function remapJsonKeys(json: string, idMap: Map<string, string>): string {
+  try {
+    const entries = Object.entries(JSON.parse(json) as Record<string, unknown>);
+    return JSON.stringify(
+      Object.fromEntries(entries.flatMap(([key, value]) => {
+        const mapped = idMap.get(key);
+        return mapped ? [[mapped, value]] : [];
+      }))
+    );
+  } catch {
+    return json;
+  }
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Import a validated archive into the database.
+ *
+ * Merge mode attaches all archived goals to the existing local user (the app
+ * is single-user). Replace mode deletes the rows of every archived table
+ * (users cascade to goals, objects and history; user-keyed tables without a
+ * foreign key are cleared explicitly) before inserting the archive. Models in
+ * ARCHIVE_EXCLUDED_MODELS are never touched and are reported as excluded.
+ */
+export async function importArchive(
+  archive: LogosArchive,
+  options: ImportOptions
+): Promise<ImportResult> {
+  const db = getPrisma();
+
+  const localUser = options.merge ? await db.user.findFirst() : null;
+  const experiments = await db.thresholdExperiment.findMany({ select: { id: true } });
+  const g2pItems = await db.g2PItemParameter.findMany({
+    select: { id: true, pattern: true, patternType: true },
+  });
+
+  const remapped = remapArchiveIds(archive.data, randomUUID, localUser?.id, {
+    experimentIds: new Set(experiments.map((e) => e.id)),
+    g2pItemIds: new Map(g2pItems.map((p) => [`${p.pattern}:${p.patternType}`, p.id])),
+  });
+  const { data } = remapped;
+
+  await db.$transaction(async (tx) => {
+    if (!options.merge) {
+      await tx.user.deleteMany({});
+      // Keyed by user or object id without a foreign key, so nothing cascades to them
+      await tx.userObjectRelationship.deleteMany({});
+      await tx.objectConnection.deleteMany({});
+      await tx.g2PThetaProfile.deleteMany({});
+      await tx.g2PResponse.deleteMany({});
+      await tx.curriculumGoal.deleteMany({});
+      await tx.paretoSolution.deleteMany({});
+    }
+
+    // Insert in foreign-key order
+    if (data.users.length > 0) {
+      await tx.user.createMany({ data: data.users });
+    }
+    if (data.goalSpecs.length > 0) {
+      await tx.goalSpec.createMany({ data: data.goalSpecs });
+    }
+    if (data.languageObjects.length > 0) {
+      await tx.languageObject.createMany({ data: data.languageObjects });
+    }
+    if (data.masteryStates.length > 0) {
+      await tx.masteryState.createMany({ data: data.masteryStates });
+    }
+    if (data.stageTransitions.length > 0) {
+      await tx.stageTransition.createMany({ data: data.stageTransitions });
+    }
+    if (data.sessions.length > 0) {
+      await tx.session.createMany({ data: data.sessions });
+    }
+    if (data.responses.length > 0) {
+      await tx.response.createMany({ data: data.responses });
+    }
+    if (data.thetaSnapshots.length > 0) {
+      await tx.thetaSnapshot.createMany({ data: data.thetaSnapshots });
+    }
+    if (data.collocations.length > 0) {
+      await tx.collocation.createMany({ data: data.collocations });
+    }
+    if (data.errorAnalyses.length > 0) {
+      await tx.errorAnalysis.createMany({ data: data.errorAnalyses });
+    }
+    if (data.componentErrorStats.length > 0) {
+      await tx.componentErrorStats.createMany({ data: data.componentErrorStats });
+    }
+    if (data.experimentAssignments.length > 0) {
+      await tx.experimentAssignment.createMany({ data: data.experimentAssignments });
+    }
+    if (data.milestoneEvents.length > 0) {
+      await tx.milestoneEvent.createMany({ data: data.milestoneEvents });
+    }
+    if (data.distractorStats.length > 0) {
+      await tx.distractorStat.createMany({ data: data.distractorStats });
+    }
+    if (data.propagationLogs.length > 0) {
+      await tx.propagationLog.createMany({ data: data.propagationLogs });
+    }
+    if (data.sourceDocuments.length > 0) {
+      await tx.sourceDocument.createMany({ data: data.sourceDocuments });
+    }
+    if (data.contextSentences.length > 0) {
+      await tx.contextSentence.createMany({ data: data.contextSentences });
+    }
+    if (data.contextSentenceObjects.length > 0) {
+      await tx.contextSentenceObject.createMany({ data: data.contextSentenceObjects });
+    }
+    if (data.glossarySenses.length > 0) {
+      await tx.glossarySense.createMany({ data: data.glossarySenses });
+    }
+    if (data.userObjectRelationships.length > 0) {
+      await tx.userObjectRelationship.createMany({ data: data.userObjectRelationships });
+    }
+    if (data.objectEncounters.length > 0) {
+      await tx.objectEncounter.createMany({ data: data.objectEncounters });
+    }
+    if (data.objectConnections.length > 0) {
+      await tx.objectConnection.createMany({ data: data.objectConnections });
+    }
+    if (data.g2pItemParameters.length > 0) {
+      await tx.g2PItemParameter.createMany({ data: data.g2pItemParameters });
+    }
+    if (data.g2pThetaProfiles.length > 0) {
+      await tx.g2PThetaProfile.createMany({ data: data.g2pThetaProfiles });
+    }
+    if (data.g2pResponses.length > 0) {
+      await tx.g2PResponse.createMany({ data: data.g2pResponses });
+    }
+    if (data.curriculumGoals.length > 0) {
+      await tx.curriculumGoal.createMany({ data: data.curriculumGoals });
+    }
+    if (data.timeAllocations.length > 0) {
+      await tx.timeAllocation.createMany({ data: data.timeAllocations });
+    }
+    if (data.sharedObjectGoals.length > 0) {
+      await tx.sharedObjectGoal.createMany({ data: data.sharedObjectGoals });
+    }
+    if (data.paretoSolutions.length > 0) {
+      await tx.paretoSolution.createMany({ data: data.paretoSolutions });
+    }
+  });
+
+  const imported = {} as Record<ArchiveTable, number>;
+  for (const table of ARCHIVE_TABLES) {
+    imported[table] = data[table].length;
+  }
+
+  return {
+    imported,
+    skipped: remapped.skipped,
+    errors: remapped.errors,
+    excluded: Object.keys(ARCHIVE_EXCLUDED_MODELS),
+  };
+}
+
+// =============================================================================
+// File Operations
+// =============================================================================
+
+/**
+ * Build an archive and write it to disk.
+ *
+ * @param filePath - Destination file (created along with its directory)
+ */
+export async function exportArchiveToFile(
+  filePath: string,
+  options: ExportOptions = {}
+): Promise<{ filePath: string; size: number; counts: Record<ArchiveTable, number> }> {
+  const archive = await buildArchive(options);
+  const json = JSON.stringify(archive, null, 2);
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, json, 'utf-8');
+
+  return {
+    filePath,
+    size: Buffer.byteLength(json, 'utf-8'),
+    counts: archive.counts,
+  };
+}
+
+/**
+ * Read, validate and import an archive file.
+ */
+export async function importArchiveFromFile(
+  filePath: string,
+  options: ImportOptions
+): Promise<ImportResult> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (err) {
+    throw new Error(
+      `Could not read archive ${path.basename(filePath)}: ${err instanceof Error ? err.message : 'Unknown error'}`
+    );
+  }
+
+  const archive = validateArchive(raw);
+  return importArchive(archive, options);
+}
+
+/**
+ * Write a full archive (all goals, with history) into the backup directory.
+ */
+export async function createArchiveBackup(
+  backupDir: string,
+  now: Date = new Date()
+): Promise<{ path: string; timestamp: string }> {
+  const timestamp = now.toISOString();
+  const fileName = `logos-backup-${timestamp.replace(/[:.]/g, '-')}.json`;
+  const result = await exportArchiveToFile(path.join(backupDir, fileName), { includeHistory: true });
+
+  return { path: result.filePath, timestamp };
+}
@@ -0,0 +1,405 @@
+/**
+ * Database Backup Service
+ *
+ * Snapshots the SQLite database with SQLite's online backup API (through
+ * better-sqlite3), so copies are consistent even while Prisma is connected.
+ *
+ * - Scheduled: at most one snapshot per day while the app runs
+ * - Pre-migration: before migrations not yet recorded in _prisma_migrations
+ * - Manual and pre-restore snapshots
+ *
+ * Each snapshot gets a sidecar JSON file with its SHA-256 checksum. The
+ * newest N snapshots are kept per reason, so daily copies never push out
+ * the one taken before a migration.
+ *
+ * Paths are passed in rather than read from Electron, so the same code runs
+ * from the npm pre-migration hook.
+ */
+
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type BackupReason = 'scheduled' | 'manual' | 'pre-migration' | 'pre-restore';
+
+export interface DatabaseBackup {
+  /** File name of the snapshot, used to select it for restore */
+  id: string;
+  path: string;
+  reason: BackupReason;
+  createdAt: Date;
+  size: number;
+  checksum: string;
+  /** Newest applied migration when the snapshot was taken */
+  migration: string | null;
+  /** False when the file no longer matches its checksum */
+  valid: boolean;
+}
+
+export interface BackupOptions {
+  dbPath: string;
+  backupDir: string;
+  reason: BackupReason;
+  /** Snapshots to keep per reason (default BACKUP_CONFIG.keep) */
+  keep?: number;
+  now?: Date;
+}
+
+export interface RestoreOptions {
+  dbPath: string;
+  backupDir: string;
+  backupId: string;
+  keep?: number;
+}
+
+export interface RestoreResult {
+  restored: DatabaseBackup;
+  /** Snapshot of the database that was replaced (null if it was unreadable) */
+  safetyBackup: DatabaseBackup | null;
+}
+
+export interface BackupSchedulerOptions {
+  dbPath: string;
+  backupDir: string;
+  keep?: number;
+  intervalMs?: number;
+  checkEveryMs?: number;
+}
+
+interface BackupSidecar {
+  reason: BackupReason;
+  createdAt: string;
+  size: number;
+  checksum: string;
+  migration: string | null;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const BACKUP_CONFIG = {
+  keep: 7,
+  /** Minimum time between scheduled snapshots */
+  intervalMs: 24 * 60 * 60 * 1000,
+  /** How often the scheduler checks whether a snapshot is due */
+  checkEveryMs: 60 * 60 * 1000,
+  filePrefix: 'logos-',
+} as const;
+
+const BACKUP_REASONS: readonly BackupReason[] = ['scheduled', 'manual', 'pre-migration', 'pre-restore'];
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+/**
+ * Resolve a Prisma SQLite URL (file:./dev.db) to an absolute path.
+ * Relative paths are relative to the schema directory, as in Prisma.
+ */
+export function resolveDatabasePath(databaseUrl: string, schemaDir: string): string {
+  const file = databaseUrl.replace(/^file:/, '').split('?')[0];
+  return path.isAbsolute(file) ? file : path.resolve(schemaDir, file);
+}
+
+function sidecarPath(backupPath: string): string {
+  return `${backupPath}.json`;
+}
+
+function fileTimestamp(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function sha256File(filePath: string): string {
+  return createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * Names of applied migrations, oldest first (empty for a fresh database).
+ */
+function readAppliedMigrations(dbPath: string): string[] {
+  if (!fs.existsSync(dbPath)) {
+    return [];
+  }
+  const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+  try {
+    const table = db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = '_prisma_migrations'")
+      .get();
+    if (!table) {
+      return [];
+    }
+    const rows = db
+      .prepare(
+        'SELECT migration_name FROM _prisma_migrations WHERE finished_at IS NOT NULL AND rolled_back_at IS NULL ORDER BY migration_name'
+      )
+      .all() as Array<{ migration_name: string }>;
+    return rows.map((r) => r.migration_name);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Throw unless SQLite's integrity check passes for the file.
+ */
+function assertIntact(filePath: string): void {
+  const db = new Database(filePath, { readonly: true, fileMustExist: true });
+  try {
+    const result = db.pragma('integrity_check', { simple: true });
+    if (result !== 'ok') {
+      throw new Error(`Integrity check failed: ${String(result)}`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+function readSidecar(backupPath: string): BackupSidecar | null {
+  try {
+    return JSON.parse(fs.readFileSync(sidecarPath(backupPath), 'utf-8')) as BackupSidecar;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete the oldest snapshots of a reason beyond the keep limit.
+ */
+function rotateBackups(backupDir: string, reason: BackupReason, keep: number): void {
+  const stale = listDatabaseBackups(backupDir, { verify: false })
+    .filter((b) => b.reason === reason)
+    .slice(Math.max(0, keep));
+
+  for (const backup of stale) {
+    fs.rmSync(backup.path, { force: true });
+    fs.rmSync(sidecarPath(backup.path), { force: true });
+  }
+}
+
+// =============================================================================
+// Backup & Restore
+// =============================================================================
+
+/**
+ * Snapshot the database and rotate older copies of the same reason.
+ */
+export async function createDatabaseBackup(options: BackupOptions): Promise<DatabaseBackup> {
+  const { dbPath, backupDir, reason } = options;
+  const keep = options.keep ?? BACKUP_CONFIG.keep;
+  const now = options.now ?? new Date();
+
+  if (!fs.existsSync(dbPath)) {
+    throw new Error(`Database not found: ${dbPath}`);
+  }
+  fs.mkdirSync(backupDir, { recursive: true });
+
+  const id = `${BACKUP_CONFIG.filePrefix}${reason}-${fileTimestamp(now)}.db`;
+  const target = path.join(backupDir, id);
+
+  const source = new Database(dbPath, { fileMustExist: true });
+  try {
+    await source.backup(target);
+  } finally {
+    source.close();
+  }
+
+  const applied = readAppliedMigrations(target);
+  const sidecar: BackupSidecar = {
+    reason,
+    createdAt: now.toISOString(),
+    size: fs.statSync(target).size,
+    checksum: sha256File(target),
+    migration: applied.length > 0 ? applied[applied.length - 1] : null,
+  };
+  fs.writeFileSync(sidecarPath(target), JSON.stringify(sidecar, null, 2), 'utf-8');
+
+  rotateBackups(backupDir, reason, keep);
+
+  return { id, path: target, ...sidecar, createdAt: now, valid: true };
+}
+
+/**
+ * List snapshots, newest first.
+ * With verify (default), each file's checksum is recomputed.
+ */
+export function listDatabaseBackups(
+  backupDir: string,
+  options: { verify?: boolean } = {}
+): DatabaseBackup[] {
+  if (!fs.existsSync(backupDir)) {
+    return [];
+  }
+  const verify = options.verify ?? true;
+
+  const backups: DatabaseBackup[] = [];
+  for (const file of fs.readdirSync(backupDir)) {
+    if (!file.startsWith(BACKUP_CONFIG.filePrefix) || !file.endsWith('.db')) {
+      continue;
+    }
+    const filePath = path.join(backupDir, file);
+    const sidecar = readSidecar(filePath);
+    if (!sidecar || !BACKUP_REASONS.includes(sidecar.reason)) {
+      continue;
+    }
+    backups.push({
+      id: file,
+      path: filePath,
+      reason: sidecar.reason,
+      createdAt: new Date(sidecar.createdAt),
+      size: sidecar.size,
+      checksum: sidecar.checksum,
+      migration: sidecar.migration,
+      valid: verify ? sha256File(filePath) === sidecar.checksum : true,
+    });
+  }
+
+  return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Replace the database with a snapshot.
+ *
+ * The snapshot must match its checksum and pass SQLite's integrity check.
+ * The current database is snapshotted first ('pre-restore') when readable,
+ * so a restore can itself be undone. Callers must disconnect Prisma first.
+ */
+export async function restoreDatabaseBackup(options: RestoreOptions): Promise<RestoreResult> {
+  const { dbPath, backupDir, backupId } = options;
+
+  const backup = listDatabaseBackups(backupDir).find((b) => b.id === backupId);
+  if (!backup) {
+    throw new Error(`Backup not found: ${backupId}`);
+  }
+  if (!backup.valid) {
+    throw new Error(`Backup ${backupId} does not match its checksum`);
+  }
+  assertIntact(backup.path);
+
+  let safetyBackup: DatabaseBackup | null = null;
+  if (fs.existsSync(dbPath)) {
+    try {
+      safetyBackup = await createDatabaseBackup({
+        dbPath,
+        backupDir,
+        reason: 'pre-restore',
+        keep: options.keep,
+      });
+    } catch (err) {
+      // A corrupted database is the usual reason to restore
+      console.warn('[Backup] Current database could not be saved before restore:', err);
+    }
+  }
+
+  const source = new Database(backup.path, { readonly: true, fileMustExist: true });
+  try {
+    // Stale WAL files would be replayed over the restored pages
+    fs.rmSync(`${dbPath}-wal`, { force: true });
+    fs.rmSync(`${dbPath}-shm`, { force: true });
+    await source.backup(dbPath);
+  } finally {
+    source.close();
+  }
+
+  return { restored: backup, safetyBackup };
+}
+
+/**
+ * Snapshot the database if the migrations directory holds migrations the
+ * database has not applied yet. Returns null when nothing is pending.
+ */
+export async function backupBeforePendingMigrations(options: {
+  dbPath: string;
+  backupDir: string;
+  migrationsDir: string;
+  keep?: number;
+}): Promise<DatabaseBackup | null> {
+  const { dbPath, migrationsDir } = options;
+  if (!fs.existsSync(dbPath) || !fs.existsSync(migrationsDir)) {
+    return null;
+  }
+
+  const applied = new Set(readAppliedMigrations(dbPath));
+  const pending = fs
+    .readdirSync(migrationsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !applied.has(entry.name));
+  if (pending.length === 0) {
+    return null;
+  }
+
+  return createDatabaseBackup({ ...options, reason: 'pre-migration' });
+}
+
+// =============================================================================
+// Scheduler
+// =============================================================================
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+/** Scheduled snapshot being taken now */
+let schedulerRun: Promise<void> | null = null;
+
+/**
+ * Take a scheduled snapshot when the newest one is older than the interval.
+ */
+export async function runScheduledBackup(
+  options: BackupSchedulerOptions,
+  now: Date = new Date()
+): Promise<DatabaseBackup | null> {
+  const intervalMs = options.intervalMs ?? BACKUP_CONFIG.intervalMs;
+  const latest = listDatabaseBackups(options.backupDir, { verify: false }).find(
+    (b) => b.reason === 'scheduled'
+  );
+  if (latest && now.getTime() - latest.createdAt.getTime() < intervalMs) {
+    return null;
+  }
+  return createDatabaseBackup({ ...options, reason: 'scheduled', now });
+}
+
+/**
+ * Start daily snapshots: checks now and then periodically.
+ * Restarting replaces the previous scheduler.
+ */
+export function startBackupScheduler(options: BackupSchedulerOptions): void {
+  void stopBackupScheduler();
+
+  const check = () => {
+    if (schedulerRun) {
+      return;
+    }
+    schedulerRun = runScheduledBackup(options)
+      .then(
+        () => undefined,
+        (err) => {
+          console.error('[Backup] Scheduled backup failed:', err);
+        }
+      )
+      .finally(() => {
+        schedulerRun = null;
+      });
+  };
+
+  check();
+  schedulerTimer = setInterval(check, options.checkEveryMs ?? BACKUP_CONFIG.checkEveryMs);
+  // Never keep the app alive just for backups
+  schedulerTimer.unref?.();
+}
+
+/**
+ * Stop the backup scheduler, waiting for a snapshot it is taking.
+ */
+export async function stopBackupScheduler(): Promise<void> {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+  await schedulerRun;
+}
@@ -0,0 +1,268 @@
+/**
+ * Deck Import Service
+ *
+ * Imports flashcard decks from other tools into a goal:
+ * - Anki packages (.apkg): the SQLite collection inside the ZIP is opened with
+ *   better-sqlite3; notes become LanguageObjects and each note's review log is
+ *   replayed through FSRS to seed its MasteryState.
+ * - CSV/TSV decks: front/back columns, optional tags column.
+ *
+ * Cards whose front already exists in the goal (as any object type) are
+ * skipped, matching the goal/content uniqueness of LanguageObjects.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { getPrisma } from '../db/prisma';
+import { openZip } from './file-formats/zip-reader';
+import {
+  parseDelimitedDeck,
+  replayReviewHistory,
+  stripDeckMarkup,
+  type DeckCard,
+  type DeckReview,
+  type DelimitedDeckOptions,
+} from '../../core/deck-import';
+import { getUserFSRS } from './fsrs-optimizer.service';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DeckFormat = 'apkg' | 'csv' | 'tsv';
+
+export interface DeckImportOptions extends DelimitedDeckOptions {
+  /** File format; inferred from the extension when omitted */
+  format?: DeckFormat;
+  /** LanguageObject type for imported cards (default LEX) */
+  type?: string;
+}
+
+export interface DeckImportResult {
+  /** LanguageObjects created */
+  imported: number;
+  /** Of those, how many had review history migrated into MasteryState */
+  withHistory: number;
+  /** Cards skipped as duplicates or invalid */
+  skipped: number;
+  errors: string[];
+}
+
+interface AnkiNoteRow {
+  id: number;
+  flds: string;
+  tags: string;
+}
+
+interface AnkiCardRow {
+  id: number;
+  nid: number;
+}
+
+interface AnkiRevlogRow {
+  id: number;
+  cid: number;
+  ease: number;
+  type: number;
+}
+
+// =============================================================================
+// Format Readers
+// =============================================================================
+
+/** Large decks take longer than Prisma's default 5s interactive transaction */
+const IMPORT_TRANSACTION_TIMEOUT_MS = 120_000;
+
+/** Anki field separator inside notes.flds */
+const ANKI_FIELD_SEPARATOR = '\x1f';
+
+/**
+ * Infer the deck format from a file name.
+ */
+export function detectDeckFormat(filePath: string): DeckFormat {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.apkg' || ext === '.colpkg') {
+    return 'apkg';
+  }
+  if (ext === '.tsv' || ext === '.txt') {
+    return 'tsv';
+  }
+  if (ext === '.csv') {
+    return 'csv';
+  }
+  throw new Error(`Unsupported deck file type: ${ext || filePath}`);
+}
+
+/**
+ * Extract cards and review history from an Anki package.
+ *
+ * Each note becomes one card (first field = front, second = back). Review
+ * history comes from the note's first card, which is the forward direction
+ * in standard note types.
+ */
+export function readAnkiPackage(buffer: Buffer): DeckCard[] {
+  const zip = openZip(buffer);
+  const collection = zip.read('collection.anki21') ?? zip.read('collection.anki2');
+
+  if (!collection) {
+    if (zip.entries.some((e) => e.name === 'collection.anki21b')) {
+      throw new Error(
+        'This package uses the compressed Anki 2.1.50+ format. ' +
+          'Re-export it from Anki with "Support older Anki versions" enabled.'
+      );
+    }
+    throw new Error('Not an Anki package (no collection found)');
+  }
+
+  const db = new Database(collection, { readonly: true });
+
+  try {
+    const notes = db.prepare('SELECT id, flds, tags FROM notes ORDER BY id').all() as AnkiNoteRow[];
+    const cards = db.prepare('SELECT id, nid FROM cards ORDER BY nid, ord').all() as AnkiCardRow[];
+    const revlog = db
+      .prepare('SELECT id, cid, ease, type FROM revlog ORDER BY id')
+      .all() as AnkiRevlogRow[];
+
+    const firstCardByNote = new Map<number, number>();
+    for (const card of cards) {
+      if (!firstCardByNote.has(card.nid)) {
+        firstCardByNote.set(card.nid, card.id);
+      }
+    }
+
+    const reviewsByCard = new Map<number, DeckReview[]>();
+    for (const entry of revlog) {
+      const reviews = reviewsByCard.get(entry.cid) ?? [];
+      // revlog.id is the review time in epoch milliseconds
+      reviews.push({ timestamp: new Date(entry.id), ease: entry.ease, type: entry.type });
+      reviewsByCard.set(entry.cid, reviews);
+    }
+
+    return notes.map((note) => {
+      const fields = note.flds.split(ANKI_FIELD_SEPARATOR);
+      const cardId = firstCardByNote.get(note.id);
+
+      return {
+        front: stripDeckMarkup(fields[0] ?? ''),
+        back: stripDeckMarkup(fields[1] ?? ''),
+        tags: note.tags.split(/\s+/).filter(Boolean),
+        reviews: cardId !== undefined ? reviewsByCard.get(cardId) ?? [] : [],
+      };
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Read a deck file into cards, collecting per-row parse errors.
+ */
+export async function readDeckFile(
+  filePath: string,
+  options: DeckImportOptions = {}
+): Promise<{ cards: DeckCard[]; errors: string[] }> {
+  const format = options.format ?? detectDeckFormat(filePath);
+  const buffer = await fs.readFile(filePath);
+
+  if (format === 'apkg') {
+    return { cards: readAnkiPackage(buffer), errors: [] };
+  }
+
+  return parseDelimitedDeck(buffer.toString('utf8'), {
+    ...options,
+    delimiter: options.delimiter ?? (format === 'tsv' ? '\t' : undefined),
+  });
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Import a deck file into a goal.
+ */
+export async function importDeck(
+  goalId: string,
+  filePath: string,
+  options: DeckImportOptions = {}
+): Promise<DeckImportResult> {
+  const db = getPrisma();
+  const goal = await db.goalSpec.findUnique({ where: { id: goalId }, select: { userId: true } });
+  if (!goal) {
+    throw new Error('Goal not found');
+  }
+  // Review history is replayed with the learner's fitted weights
+  const fsrs = await getUserFSRS(goal.userId);
+  const format = options.format ?? detectDeckFormat(filePath);
+  const { cards, errors } = await readDeckFile(filePath, { ...options, format });
+  const type = options.type ?? 'LEX';
+
+  // Content is unique per goal regardless of type
+  const existing = await db.languageObject.findMany({
+    where: { goalId },
+    select: { content: true },
+  });
+  const seen = new Set(existing.map((o) => o.content.toLowerCase()));
+
+  let skipped = errors.length;
+  let imported = 0;
+  let withHistory = 0;
+
+  await db.$transaction(async (tx) => {
+    for (const card of cards) {
+      const content = card.front.slice(0, 1000);
+      const key = content.toLowerCase();
+      if (!content || seen.has(key)) {
+        skipped++;
+        continue;
+      }
+      seen.add(key);
+
+      const history = card.reviews.length > 0 ? replayReviewHistory(card.reviews, fsrs) : null;
+      const seeded = history !== null && history.exposureCount > 0;
+      const nextReview = seeded ? fsrs.nextReviewDate(history.fsrsCard) : null;
+
+      await tx.languageObject.create({
+        data: {
+          goalId,
+          type,
+          content,
+          contentJson: JSON.stringify({
+            translation: card.back || undefined,
+            tags: card.tags.length > 0 ? card.tags : undefined,
+            source: format === 'apkg' ? 'anki' : format,
+          }),
+          frequency: 0.5,
+          relationalDensity: 0.5,
+          contextualContribution: 0.5,
+          masteryState: seeded
+            ? {
+                create: {
+                  stage: history.stage,
+                  fsrsStability: history.fsrsCard.stability,
+                  fsrsDifficulty: history.fsrsCard.difficulty,
+                  fsrsReps: history.fsrsCard.reps,
+                  fsrsLapses: history.fsrsCard.lapses,
+                  fsrsLastReview: history.fsrsCard.lastReview,
+                  fsrsNextReview: nextReview,
+                  fsrsState: history.fsrsCard.state,
+                  cueFreeAccuracy: history.cueFreeAccuracy,
+                  exposureCount: history.exposureCount,
+                  nextReview,
+                  lastReviewedAt: history.fsrsCard.lastReview,
+                },
+              }
+            : undefined,
+        },
+      });
+
+      imported++;
+      if (seeded) {
+        withHistory++;
+      }
+    }
+  }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+
+  return { imported, withHistory, skipped, errors };
+}
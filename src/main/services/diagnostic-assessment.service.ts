@@ -5,12 +5,17 @@
  * 1. User profile data (purpose, daily time, prior experience)
  * 2. Optional placement test results
  * 3. Domain-specific difficulty calibration
+ * 4. A computer-adaptive placement test (nextPlacementStep /
+ *    completePlacementTest) that replaces the profile guess with a measured
+ *    per-component theta
  *
  * Reference: IRT (Item Response Theory) - 2PL model for theta estimation
  * Reference: CEFR framework for level mapping
  */
 
 import { getPrisma } from '../db/prisma';
+import { estimateThetaEAP, selectItemKL, selectNextItem } from '../../core/irt';
+import type { ItemParameter } from '../../core/types';
 
 // =============================================================================
 // Types
@@ -594,6 +599,499 @@ function getPlacementItemContent(
   };
 }
 
+// =============================================================================
+// Adaptive Placement Test
+// =============================================================================
+
+type PlacementComponent = PlacementItem['component'];
+
+/** Test order when components are equally uncertain */
+const PLACEMENT_COMPONENTS: PlacementComponent[] = ['LEX', 'SYNT', 'MORPH', 'PHON', 'PRAG'];
+
+export const PLACEMENT_TEST_CONFIG = {
+  /** Stop once the global estimate is this precise... */
+  seThreshold: 0.45,
+  /** ...but not before this many items */
+  minItems: 6,
+  maxItems: 20,
+  /** Above this SE the posterior is wide enough for KL selection to pay off */
+  klThreshold: 0.6,
+  /**
+   * The test starts from a neutral prior rather than the profile guess,
+   * which is often far off; it is wide enough to reach both ends of the bank
+   */
+  priorSD: 1.5,
+  /** Component estimates are shrunk towards the global one */
+  componentPriorSD: 1,
+};
+
+/** A calibrated placement item (2PL: a = discrimination, b = difficulty) */
+export interface PlacementBankItem extends PlacementItem {
+  discrimination: number;
+}
+
+/** An administered item as shown to the learner (no answer key) */
+export interface PlacementQuestion {
+  id: string;
+  component: PlacementComponent;
+  content: string;
+  prompt: string;
+  options: string[];
+}
+
+export interface PlacementAnswer {
+  itemId: string;
+  answer: string;
+  responseTimeMs: number;
+}
+
+export interface ComponentPlacement {
+  theta: number;
+  standardError: number;
+  itemsAnswered: number;
+}
+
+export interface PlacementEstimate {
+  thetaGlobal: number;
+  standardError: number;
+  estimatedCEFR: CEFRLevel;
+  components: Record<PlacementComponent, ComponentPlacement>;
+}
+
+export interface PlacementStep {
+  done: boolean;
+  itemsAnswered: number;
+  maxItems: number;
+  estimate: PlacementEstimate;
+  nextItem: PlacementQuestion | null;
+}
+
+export interface PlacementResult extends PlacementEstimate {
+  sessionId: string;
+  itemsAnswered: number;
+  correctCount: number;
+}
+
+interface GradedAnswer {
+  item: PlacementBankItem;
+  correct: boolean;
+  responseTimeMs: number;
+}
+
+/**
+ * Administer the next item of a computer-adaptive placement test.
+ *
+ * Stateless: the caller sends every answer given so far. The component
+ * whose estimate is least certain is tested next; within it, the item is
+ * chosen by KL divergence while the posterior is wide and by Fisher
+ * information once it narrows. The test stops when the global SE drops
+ * below the threshold, at the item limit, or when the bank runs out.
+ *
+ * @param answers - Answers given so far, in order
+ */
+export function nextPlacementStep(answers: PlacementAnswer[]): PlacementStep {
+  const { seThreshold, minItems, maxItems } = PLACEMENT_TEST_CONFIG;
+  const graded = gradePlacementAnswers(answers);
+  const estimate = estimatePlacement(graded);
+  const used = new Set(graded.map((g) => g.item.id));
+
+  const done =
+    graded.length >= maxItems ||
+    used.size >= PLACEMENT_ITEM_BANK.length ||
+    (graded.length >= minItems && estimate.standardError < seThreshold);
+  const next = done ? null : selectPlacementItem(estimate, used);
+
+  return {
+    done: next === null,
+    itemsAnswered: graded.length,
+    maxItems,
+    estimate,
+    nextItem: next
+      ? {
+          id: next.id,
+          component: next.component,
+          content: next.content,
+          prompt: next.prompt,
+          options: shuffleArray(next.options),
+        }
+      : null,
+  };
+}
+
+/**
+ * Score a finished (or abandoned) placement test and store the result:
+ * per-component theta on the user, and an evaluation session with a
+ * ThetaSnapshot recording where the learner started.
+ */
+export async function completePlacementTest(
+  userId: string,
+  goalId: string,
+  answers: PlacementAnswer[],
+  now: Date = new Date()
+): Promise<PlacementResult> {
+  const db = getPrisma();
+  const graded = gradePlacementAnswers(answers);
+  if (graded.length === 0) {
+    throw new Error('No placement answers to score');
+  }
+
+  const estimate = estimatePlacement(graded);
+  const { components } = estimate;
+  const thetas = {
+    thetaGlobal: estimate.thetaGlobal,
+    thetaPhonology: components.PHON.theta,
+    thetaMorphology: components.MORPH.theta,
+    thetaLexical: components.LEX.theta,
+    thetaSyntactic: components.SYNT.theta,
+    thetaPragmatic: components.PRAG.theta,
+  };
+  const correctCount = graded.filter((g) => g.correct).length;
+  const durationMs = graded.reduce((sum, g) => sum + g.responseTimeMs, 0);
+
+  const [, session] = await db.$transaction([
+    db.user.update({ where: { id: userId }, data: thetas }),
+    db.session.create({
+      data: {
+        userId,
+        goalId,
+        mode: 'evaluation',
+        startedAt: new Date(now.getTime() - durationMs),
+        endedAt: now,
+        itemsPracticed: graded.length,
+        responseCount: graded.length,
+        correctCount,
+        thetaSnapshots: {
+          create: { ...thetas, seGlobal: estimate.standardError, createdAt: now },
+        },
+      },
+    }),
+  ]);
+
+  return { ...estimate, sessionId: session.id, itemsAnswered: graded.length, correctCount };
+}
+
+/**
+ * Match answers to bank items. Unknown and repeated items are ignored.
+ */
+function gradePlacementAnswers(answers: PlacementAnswer[]): GradedAnswer[] {
+  const seen = new Set<string>();
+  const graded: GradedAnswer[] = [];
+
+  for (const answer of answers) {
+    const item = PLACEMENT_ITEM_BANK.find((i) => i.id === answer.itemId);
+    if (!item || seen.has(item.id)) {
+      continue;
+    }
+    seen.add(item.id);
+    graded.push({
+      item,
+      correct: answer.answer.trim() === item.correctAnswer,
+      responseTimeMs: answer.responseTimeMs,
+    });
+  }
+
+  return graded;
+}
+
+function toItemParameter(item: PlacementBankItem): ItemParameter {
+  return { id: item.id, a: item.discrimination, b: item.difficulty };
+}
+
+/**
+ * EAP estimates for the whole test and per component. Component estimates
+ * use the global estimate as their prior, so a component with few items
+ * stays close to the learner's overall level.
+ */
+function estimatePlacement(graded: GradedAnswer[]): PlacementEstimate {
+  const { priorSD, componentPriorSD } = PLACEMENT_TEST_CONFIG;
+  const global = estimateThetaEAP(
+    graded.map((g) => g.correct),
+    graded.map((g) => toItemParameter(g.item)),
+    0,
+    priorSD
+  );
+
+  const components = {} as Record<PlacementComponent, ComponentPlacement>;
+  for (const component of PLACEMENT_COMPONENTS) {
+    const own = graded.filter((g) => g.item.component === component);
+    const estimate = estimateThetaEAP(
+      own.map((g) => g.correct),
+      own.map((g) => toItemParameter(g.item)),
+      global.theta,
+      componentPriorSD
+    );
+    components[component] = {
+      theta: roundToDecimal(estimate.theta, 2),
+      standardError: roundToDecimal(estimate.se, 2),
+      itemsAnswered: own.length,
+    };
+  }
+
+  return {
+    thetaGlobal: roundToDecimal(global.theta, 2),
+    standardError: roundToDecimal(global.se, 2),
+    estimatedCEFR: thetaToCEFR(global.theta),
+    components,
+  };
+}
+
+/**
+ * Next item from the least certain component that has unused items.
+ */
+function selectPlacementItem(
+  estimate: PlacementEstimate,
+  used: Set<string>
+): PlacementBankItem | null {
+  const candidates = PLACEMENT_COMPONENTS.map((component) => ({
+    component,
+    placement: estimate.components[component],
+    pool: PLACEMENT_ITEM_BANK.filter((i) => i.component === component && !used.has(i.id)),
+  })).filter((c) => c.pool.length > 0);
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const target = candidates.reduce((best, c) =>
+    c.placement.standardError > best.placement.standardError ||
+    (c.placement.standardError === best.placement.standardError &&
+      c.placement.itemsAnswered < best.placement.itemsAnswered)
+      ? c
+      : best
+  );
+
+  const { theta, standardError } = target.placement;
+  const params = target.pool.map(toItemParameter);
+  const chosen =
+    standardError > PLACEMENT_TEST_CONFIG.klThreshold
+      ? selectItemKL(theta, standardError, params)
+      : selectNextItem(theta, params, used);
+
+  return target.pool.find((i) => i.id === chosen?.id) ?? null;
+}
+
+/**
+ * Calibrated placement items, six per component from A1 to C1.
+ * Difficulty (b) is on the theta scale used by thetaToCEFR.
+ */
+export const PLACEMENT_ITEM_BANK: PlacementBankItem[] = [
+  // Lexical
+  {
+    id: 'cat-lex-1', component: 'LEX', difficulty: -2.2, discrimination: 1.2,
+    content: 'hot',
+    prompt: 'Select the opposite:',
+    options: ['cold', 'warm', 'big', 'wet'],
+    correctAnswer: 'cold',
+  },
+  {
+    id: 'cat-lex-2', component: 'LEX', difficulty: -1.1, discrimination: 1.3,
+    content: 'important',
+    prompt: 'Select the synonym:',
+    options: ['trivial', 'significant', 'minor', 'weak'],
+    correctAnswer: 'significant',
+  },
+  {
+    id: 'cat-lex-3', component: 'LEX', difficulty: -0.2, discrimination: 1.4,
+    content: 'The patient is drowsy.',
+    prompt: 'A drowsy patient is:',
+    options: ['angry', 'sleepy', 'hungry', 'confused'],
+    correctAnswer: 'sleepy',
+  },
+  {
+    id: 'cat-lex-4', component: 'LEX', difficulty: 0.6, discrimination: 1.5,
+    content: 'adverse effects',
+    prompt: 'Adverse effects are:',
+    options: ['expected', 'minor', 'harmful', 'helpful'],
+    correctAnswer: 'harmful',
+  },
+  {
+    id: 'cat-lex-5', component: 'LEX', difficulty: 1.4, discrimination: 1.4,
+    content: 'ubiquitous',
+    prompt: 'This word means:',
+    options: ['rare', 'everywhere', 'unique', 'dangerous'],
+    correctAnswer: 'everywhere',
+  },
+  {
+    id: 'cat-lex-6', component: 'LEX', difficulty: 2.3, discrimination: 1.2,
+    content: 'The results were equivocal.',
+    prompt: 'Equivocal results are:',
+    options: ['conclusive', 'identical', 'negative', 'ambiguous'],
+    correctAnswer: 'ambiguous',
+  },
+  // Syntactic
+  {
+    id: 'cat-synt-1', component: 'SYNT', difficulty: -2.0, discrimination: 1.2,
+    content: 'She ___ to the store yesterday.',
+    prompt: 'Complete with the correct verb form:',
+    options: ['go', 'goes', 'went', 'going'],
+    correctAnswer: 'went',
+  },
+  {
+    id: 'cat-synt-2', component: 'SYNT', difficulty: -1.0, discrimination: 1.3,
+    content: 'There ___ two nurses on the ward.',
+    prompt: 'Complete the sentence:',
+    options: ['is', 'are', 'be', 'am'],
+    correctAnswer: 'are',
+  },
+  {
+    id: 'cat-synt-3', component: 'SYNT', difficulty: -0.1, discrimination: 1.4,
+    content: 'If the fever rises, ___ the doctor.',
+    prompt: 'Complete the sentence:',
+    options: ['called', 'calling', 'call', 'would call'],
+    correctAnswer: 'call',
+  },
+  {
+    id: 'cat-synt-4', component: 'SYNT', difficulty: 0.7, discrimination: 1.5,
+    content: 'The report, which was submitted late, ___ rejected.',
+    prompt: 'Complete with the correct verb form:',
+    options: ['was', 'were', 'being', 'been'],
+    correctAnswer: 'was',
+  },
+  {
+    id: 'cat-synt-5', component: 'SYNT', difficulty: 1.5, discrimination: 1.4,
+    content: 'Had I known about the allergy, I ___ a different drug.',
+    prompt: 'Complete the sentence:',
+    options: ['would prescribe', 'would have prescribed', 'will prescribe', 'had prescribed'],
+    correctAnswer: 'would have prescribed',
+  },
+  {
+    id: 'cat-synt-6', component: 'SYNT', difficulty: 2.3, discrimination: 1.2,
+    content: 'Not until the results came back ___ the diagnosis.',
+    prompt: 'Complete the sentence:',
+    options: ['they confirmed', 'did they confirm', 'they did confirm', 'confirmed they'],
+    correctAnswer: 'did they confirm',
+  },
+  // Morphological
+  {
+    id: 'cat-morph-1', component: 'MORPH', difficulty: -2.0, discrimination: 1.1,
+    content: 'unhappy',
+    prompt: 'What is the root word?',
+    options: ['un', 'happy', 'hap', 'unhap'],
+    correctAnswer: 'happy',
+  },
+  {
+    id: 'cat-morph-2', component: 'MORPH', difficulty: -1.0, discrimination: 1.2,
+    content: 'care',
+    prompt: 'Which ending makes an adjective meaning "without care"?',
+    options: ['-ful', '-less', '-ness', '-ly'],
+    correctAnswer: '-less',
+  },
+  {
+    id: 'cat-morph-3', component: 'MORPH', difficulty: -0.1, discrimination: 1.3,
+    content: 'pre-operative',
+    prompt: 'The prefix "pre-" means:',
+    options: ['after', 'during', 'before', 'against'],
+    correctAnswer: 'before',
+  },
+  {
+    id: 'cat-morph-4', component: 'MORPH', difficulty: 0.7, discrimination: 1.3,
+    content: 'regulate',
+    prompt: 'Which word is the noun form?',
+    options: ['regulatory', 'regulation', 'regulated', 'regularly'],
+    correctAnswer: 'regulation',
+  },
+  {
+    id: 'cat-morph-5', component: 'MORPH', difficulty: 1.4, discrimination: 1.1,
+    content: 'internationalization',
+    prompt: 'How many morphemes are in this word?',
+    options: ['3', '4', '5', '6'],
+    correctAnswer: '5',
+  },
+  {
+    id: 'cat-morph-6', component: 'MORPH', difficulty: 2.1, discrimination: 1.2,
+    content: 'tendinitis',
+    prompt: 'The ending "-itis" means:',
+    options: ['removal', 'inflammation', 'study of', 'pain'],
+    correctAnswer: 'inflammation',
+  },
+  // Phonological
+  {
+    id: 'cat-phon-1', component: 'PHON', difficulty: -2.0, discrimination: 1.0,
+    content: 'knight',
+    prompt: 'Which letter is silent in this word?',
+    options: ['k', 'n', 'i', 'g'],
+    correctAnswer: 'k',
+  },
+  {
+    id: 'cat-phon-2', component: 'PHON', difficulty: -1.0, discrimination: 1.1,
+    content: 'nurse',
+    prompt: 'Which word rhymes with this one?',
+    options: ['horse', 'purse', 'nose', 'north'],
+    correctAnswer: 'purse',
+  },
+  {
+    id: 'cat-phon-3', component: 'PHON', difficulty: -0.2, discrimination: 1.2,
+    content: 'Word stress',
+    prompt: 'Which word is stressed on the second syllable?',
+    options: ['patient', 'hospital', 'procedure', 'medicine'],
+    correctAnswer: 'procedure',
+  },
+  {
+    id: 'cat-phon-4', component: 'PHON', difficulty: 0.6, discrimination: 1.1,
+    content: 'through',
+    prompt: 'How many sounds (phonemes) are in this word?',
+    options: ['3', '4', '5', '7'],
+    correctAnswer: '3',
+  },
+  {
+    id: 'cat-phon-5', component: 'PHON', difficulty: 1.3, discrimination: 1.2,
+    content: '"ch" as /k/',
+    prompt: 'In which word is "ch" pronounced /k/?',
+    options: ['chair', 'chest', 'chronic', 'cheap'],
+    correctAnswer: 'chronic',
+  },
+  {
+    id: 'cat-phon-6', component: 'PHON', difficulty: 2.1, discrimination: 1.0,
+    content: 'Homophones',
+    prompt: 'Which pair sounds exactly the same?',
+    options: ['lose / loose', 'cite / site', 'quite / quiet', 'breath / breathe'],
+    correctAnswer: 'cite / site',
+  },
+  // Pragmatic
+  {
+    id: 'cat-prag-1', component: 'PRAG', difficulty: -1.8, discrimination: 1.0,
+    content: 'Asking a stranger for directions',
+    prompt: 'The most appropriate phrase is:',
+    options: ['Tell me the way!', 'Excuse me, could you help me?', 'Hey, where is it?', 'You must tell me.'],
+    correctAnswer: 'Excuse me, could you help me?',
+  },
+  {
+    id: 'cat-prag-2', component: 'PRAG', difficulty: -0.9, discrimination: 1.1,
+    content: 'A colleague says: "Thanks for covering my shift."',
+    prompt: 'The most natural reply is:',
+    options: ['Yes.', 'You should thank me.', 'No problem, happy to help.', 'Why?'],
+    correctAnswer: 'No problem, happy to help.',
+  },
+  {
+    id: 'cat-prag-3', component: 'PRAG', difficulty: 0.0, discrimination: 1.2,
+    content: 'Asking a patient to wait',
+    prompt: 'The most appropriate phrase is:',
+    options: ['Wait.', 'Would you mind waiting a few minutes?', 'You have to wait now.', 'Sit down and wait.'],
+    correctAnswer: 'Would you mind waiting a few minutes?',
+  },
+  {
+    id: 'cat-prag-4', component: 'PRAG', difficulty: 0.8, discrimination: 1.2,
+    content: 'Declining a formal invitation',
+    prompt: 'The most appropriate response is:',
+    options: ['No way!', 'I can\'t come.', 'I regret that I am unable to attend.', 'Whatever.'],
+    correctAnswer: 'I regret that I am unable to attend.',
+  },
+  {
+    id: 'cat-prag-5', component: 'PRAG', difficulty: 1.5, discrimination: 1.1,
+    content: 'A doctor says: "You might want to double-check that dose."',
+    prompt: 'She most likely means:',
+    options: ['The dose is fine.', 'The dose is probably wrong.', 'You may leave.', 'She is unsure what you want.'],
+    correctAnswer: 'The dose is probably wrong.',
+  },
+  {
+    id: 'cat-prag-6', component: 'PRAG', difficulty: 2.2, discrimination: 1.0,
+    content: 'At handover: "He\'s been a bit unsettled overnight."',
+    prompt: 'This most likely means:',
+    options: ['He moved to another room.', 'He was discharged.', 'He has a fever.', 'He was restless and slept poorly.'],
+    correctAnswer: 'He was restless and slept poorly.',
+  },
+];
+
 // =============================================================================
 // Utilities
 // =============================================================================
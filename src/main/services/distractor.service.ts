@@ -0,0 +1,327 @@
+/**
+ * Distractor Service
+ *
+ * Builds MCQ options with core/tasks/distractor-generator.ts and tracks how
+ * each distractor performs with core/tasks/distractor-analytics.ts.
+ *
+ * - buildMCQOptions generates distractors from the goal's vocabulary and
+ *   the learner's L1, skipping retired ones, and keeps the strategy behind
+ *   each option on the task.
+ * - recordDistractorOutcome counts the exposure of every distractor in an
+ *   answered MCQ and the learner's pick, retiring distractors nobody picks.
+ * - recordDistractorError files a picked distractor as a rule-based error
+ *   of the component its strategy targets.
+ * - getDistractorAnalytics reports attractiveness per strategy and the most
+ *   attractive and retired distractors of a goal.
+ */
+
+import { getPrisma } from '../db/prisma';
+import { createErrorAnalysis } from '../db/repositories/error-analysis.repository';
+import {
+  DistractorGenerator,
+  DISTRACTOR_ERROR_COMPONENT,
+  assessDistractor,
+  distractorPickRate,
+  findPickedDistractor,
+  summarizeDistractorStrategies,
+  type Distractor,
+  type DistractorStrategy,
+  type StrategyAttractiveness,
+} from '../../core/tasks';
+import type { ComponentCode, LanguageObject, LanguageObjectType } from '../../core/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for an MCQ and the distractors among them.
+ */
+export interface MCQOptionSet {
+  /** Correct answer and distractors, shuffled */
+  options: string[];
+  distractors: Distractor[];
+}
+
+/**
+ * The distractor a learner picked.
+ */
+export interface DistractorPick {
+  id: string;
+  content: string;
+  strategy: DistractorStrategy;
+  explanation: string;
+}
+
+export interface DistractorSummary {
+  id: string;
+  objectId: string;
+  objectContent: string;
+  content: string;
+  strategy: DistractorStrategy;
+  component: ComponentCode;
+  timesShown: number;
+  timesPicked: number;
+  pickRate: number;
+  retiredAt: Date | null;
+}
+
+export interface DistractorAnalytics {
+  goalId: string;
+  totals: { distractors: number; retired: number; timesShown: number; timesPicked: number };
+  strategies: StrategyAttractiveness[];
+  /** Distractors learners fall for, most picked first */
+  attractive: DistractorSummary[];
+  /** Distractors retired for never being picked, most recent first */
+  retired: DistractorSummary[];
+}
+
+/**
+ * Strategies tried for MCQ distractors, in order. False friends are left
+ * out: they are L1 words and would give the answer away among target
+ * language options.
+ */
+const MCQ_DISTRACTOR_STRATEGIES: DistractorStrategy[] = [
+  'common_confusion',
+  'semantic_related',
+  'morphological_variant',
+  'orthographic_similar',
+  'phonological_similar',
+  'random_same_pos',
+];
+
+/** Same-type objects loaded as distractor candidates */
+const VOCABULARY_SIZE = 300;
+
+// =============================================================================
+// Option Generation
+// =============================================================================
+
+function parseDomains(json: string | null): Record<string, number> | undefined {
+  if (!json) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(json) as Record<string, number>;
+  } catch {
+    return undefined;
+  }
+}
+
+function toGeneratorObject(row: {
+  id: string;
+  type: string;
+  content: string;
+  goalId: string;
+  frequency: number;
+  relationalDensity: number;
+  contextualContribution: number;
+  domainDistribution: string | null;
+  priority: number;
+  irtDifficulty: number;
+  irtDiscrimination: number;
+}): LanguageObject {
+  return {
+    id: row.id,
+    type: row.type as LanguageObjectType,
+    content: row.content,
+    goalId: row.goalId,
+    fre: {
+      frequency: row.frequency,
+      relationalDensity: row.relationalDensity,
+      contextualContribution: row.contextualContribution,
+    },
+    priority: row.priority,
+    irtDifficulty: row.irtDifficulty,
+    irtDiscrimination: row.irtDiscrimination,
+    domainDistribution: parseDomains(row.domainDistribution),
+  };
+}
+
+/**
+ * Build MCQ options for an object: the correct answer plus `count`
+ * distractors from the goal's vocabulary of the same type and the
+ * learner's L1 confusions. Retired distractors are never offered.
+ */
+export async function buildMCQOptions(
+  objectId: string,
+  correctAnswer: string,
+  count: number = 3
+): Promise<MCQOptionSet> {
+  const db = getPrisma();
+
+  const object = await db.languageObject.findUnique({
+    where: { id: objectId },
+    include: { goal: { select: { user: { select: { nativeLanguage: true } } } } },
+  });
+  if (!object) {
+    return { options: [correctAnswer], distractors: [] };
+  }
+
+  const [vocabulary, retired] = await Promise.all([
+    db.languageObject.findMany({
+      where: { goalId: object.goalId, type: object.type, id: { not: objectId } },
+      orderBy: { frequency: 'desc' },
+      take: VOCABULARY_SIZE,
+    }),
+    db.distractorStat.findMany({
+      where: { objectId, retired: true },
+      select: { content: true },
+    }),
+  ]);
+
+  const generator = new DistractorGenerator();
+  generator.loadVocabulary(vocabulary.map(toGeneratorObject));
+
+  const { distractors } = generator.generate(
+    { ...toGeneratorObject(object), content: correctAnswer },
+    {
+      count,
+      preferredStrategies: MCQ_DISTRACTOR_STRATEGIES,
+      nativeLanguage: object.goal.user.nativeLanguage,
+      excludeWords: retired.map((r) => r.content),
+    }
+  );
+
+  const options = [correctAnswer, ...distractors.map((d) => d.content)];
+  return { options: options.sort(() => Math.random() - 0.5), distractors };
+}
+
+// =============================================================================
+// Outcome Tracking
+// =============================================================================
+
+/**
+ * Record an answered MCQ: every distractor it offered was shown once, and
+ * the one matching the answer (if any) was picked. Distractors that have
+ * been shown enough without being picked are retired.
+ *
+ * @returns The picked distractor, or null for a correct or unmatched answer
+ */
+export async function recordDistractorOutcome(
+  objectId: string,
+  distractors: Distractor[],
+  answer: string,
+  now: Date = new Date()
+): Promise<DistractorPick | null> {
+  const db = getPrisma();
+  const picked = findPickedDistractor(distractors, answer);
+  let pick: DistractorPick | null = null;
+
+  for (const distractor of distractors) {
+    const isPick = distractor === picked;
+    const row = await db.distractorStat.upsert({
+      where: { objectId_content: { objectId, content: distractor.content } },
+      create: {
+        objectId,
+        content: distractor.content,
+        strategy: distractor.strategy,
+        plausibility: distractor.plausibility,
+        explanation: distractor.explanation,
+        timesShown: 1,
+        timesPicked: isPick ? 1 : 0,
+      },
+      update: {
+        timesShown: { increment: 1 },
+        timesPicked: isPick ? { increment: 1 } : undefined,
+      },
+    });
+
+    if (!row.retired && assessDistractor(row) === 'retire') {
+      await db.distractorStat.update({
+        where: { id: row.id },
+        data: { retired: true, retiredAt: now },
+      });
+    }
+    if (isPick) {
+      pick = {
+        id: row.id,
+        content: row.content,
+        strategy: distractor.strategy,
+        explanation: distractor.explanation,
+      };
+    }
+  }
+
+  return pick;
+}
+
+/**
+ * File a picked distractor as a rule-based error analysis of the response.
+ */
+export async function recordDistractorError(
+  responseId: string,
+  objectId: string,
+  pick: DistractorPick,
+  correction: string
+): Promise<void> {
+  await createErrorAnalysis({
+    responseId,
+    objectId,
+    component: DISTRACTOR_ERROR_COMPONENT[pick.strategy],
+    errorType: `Distractor: ${pick.strategy}`,
+    explanation: pick.explanation,
+    correction,
+    source: 'rule_based',
+  });
+}
+
+// =============================================================================
+// Analytics
+// =============================================================================
+
+/**
+ * Distractor attractiveness for a goal.
+ */
+export async function getDistractorAnalytics(
+  goalId: string,
+  limit: number = 10
+): Promise<DistractorAnalytics> {
+  const rows = await getPrisma().distractorStat.findMany({
+    where: { object: { goalId } },
+    include: { object: { select: { content: true } } },
+  });
+
+  const summaries = rows.map((r) => {
+    const strategy = r.strategy as DistractorStrategy;
+    const summary: DistractorSummary = {
+      id: r.id,
+      objectId: r.objectId,
+      objectContent: r.object.content,
+      content: r.content,
+      strategy,
+      component: DISTRACTOR_ERROR_COMPONENT[strategy] ?? 'LEX',
+      timesShown: r.timesShown,
+      timesPicked: r.timesPicked,
+      pickRate: distractorPickRate(r),
+      retiredAt: r.retiredAt,
+    };
+    return { summary, retired: r.retired, verdict: assessDistractor(r) };
+  });
+
+  const attractive = summaries
+    .filter((s) => !s.retired && s.verdict === 'attractive')
+    .map((s) => s.summary)
+    .sort((a, b) => b.pickRate - a.pickRate)
+    .slice(0, limit);
+  const retired = summaries
+    .filter((s) => s.retired)
+    .map((s) => s.summary)
+    .sort((a, b) => (b.retiredAt?.getTime() ?? 0) - (a.retiredAt?.getTime() ?? 0))
+    .slice(0, limit);
+
+  return {
+    goalId,
+    totals: {
+      distractors: rows.length,
+      retired: rows.filter((r) => r.retired).length,
+      timesShown: rows.reduce((sum, r) => sum + r.timesShown, 0),
+      timesPicked: rows.reduce((sum, r) => sum + r.timesPicked, 0),
+    },
+    strategies: summarizeDistractorStrategies(
+      rows.map((r) => ({ ...r, strategy: r.strategy as DistractorStrategy }))
+    ),
+    attractive,
+    retired,
+  };
+}
@@ -0,0 +1,306 @@
+/**
+ * HTML Text Extraction
+ *
+ * Readability-style extraction of the main text of an HTML page (or an EPUB
+ * chapter): drops scripts, navigation, headers/footers, forms and elements
+ * whose class or id marks them as boilerplate, keeps only <article>/<main>
+ * content when the page has one, and discards link-heavy blocks such as menus
+ * and "related articles" lists. Text is returned as one string per block.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface HtmlText {
+  title: string | null;
+  blocks: string[];
+  /** Text blocks discarded as boilerplate */
+  removedBlocks: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Elements whose content is never body text */
+const SKIP_TAGS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'head',
+  'iframe',
+  'canvas',
+  'object',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'form',
+  'button',
+  'select',
+  'textarea',
+  'menu',
+]);
+
+const VOID_TAGS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+]);
+
+const BLOCK_TAGS = new Set([
+  'p',
+  'div',
+  'section',
+  'article',
+  'main',
+  'li',
+  'ul',
+  'ol',
+  'dl',
+  'dt',
+  'dd',
+  'blockquote',
+  'pre',
+  'table',
+  'tr',
+  'td',
+  'th',
+  'caption',
+  'figure',
+  'figcaption',
+  'br',
+  'hr',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'body',
+]);
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+/** class/id fragments of navigation, ads, cookie banners, share bars, etc. */
+const BOILERPLATE_PATTERN =
+  /\b(nav|navbar|menu|breadcrumbs?|sidebar|footer|header|banner|cookie|consent|advert|ads?|promo|share|social|comments?|related|newsletter|subscribe|popup|modal|skip-link|masthead)\b/i;
+
+/** Blocks whose text is mostly link text are menus or link lists */
+const MAX_LINK_DENSITY = 0.5;
+
+/** Short blocks without sentence punctuation are labels, not prose */
+const MIN_BLOCK_WORDS = 4;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  deg: '°',
+  middot: '·',
+  bull: '•',
+  shy: '',
+  eacute: 'é',
+  egrave: 'è',
+  agrave: 'à',
+  aacute: 'á',
+  iacute: 'í',
+  oacute: 'ó',
+  uacute: 'ú',
+  ntilde: 'ñ',
+  uuml: 'ü',
+  ouml: 'ö',
+  auml: 'ä',
+  ccedil: 'ç',
+  szlig: 'ß',
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Decode HTML/XML character references.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function attribute(attrs: string, name: string): string {
+  const match = new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(attrs);
+  return match ? (match[2] ?? match[3] ?? match[4] ?? '') : '';
+}
+
+function isBoilerplate(tag: string, attrs: string): boolean {
+  if (SKIP_TAGS.has(tag)) {
+    return true;
+  }
+  if (
+    attribute(attrs, 'aria-hidden') === 'true' ||
+    /\bhidden\b/.test(attrs.replace(/=\s*("[^"]*"|'[^']*')/g, ''))
+  ) {
+    return true;
+  }
+  const role = attribute(attrs, 'role');
+  if (/^(navigation|banner|contentinfo|complementary|search|dialog)$/i.test(role)) {
+    return true;
+  }
+  return BOILERPLATE_PATTERN.test(`${attribute(attrs, 'class')} ${attribute(attrs, 'id')}`);
+}
+
+// =============================================================================
+// Extraction
+// =============================================================================
+
+interface Block {
+  text: string;
+  linkChars: number;
+  heading: boolean;
+}
+
+/**
+ * Extract the readable text of an HTML document.
+ */
+export function extractReadableText(html: string): HtmlText {
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/<![^>]*>|<\?[^>]*\?>/g, '');
+
+  const titleMatch = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(source);
+  const title = titleMatch
+    ? decodeEntities(titleMatch[1]).replace(/\s+/g, ' ').trim() || null
+    : null;
+
+  // Pages with a main content element only contribute what is inside it
+  const scoped = /<(article|main)[\s>]|role\s*=\s*["']?main/i.test(source);
+
+  const stack: Array<{ tag: string; skip: boolean; content: boolean; link: boolean }> = [];
+  const blocks: Block[] = [];
+  let current: Block = { text: '', linkChars: 0, heading: false };
+
+  const flush = (heading = false) => {
+    if (current.text.trim() !== '') {
+      blocks.push(current);
+    }
+    current = { text: '', linkChars: 0, heading };
+  };
+
+  const tagPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)([^>]*)>/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  const addText = (raw: string) => {
+    const top = stack[stack.length - 1];
+    const skipping = top?.skip ?? false;
+    const inContent = !scoped || (top?.content ?? false);
+    if (skipping || !inContent || raw === '') {
+      return;
+    }
+    const text = decodeEntities(raw);
+    current.text += text;
+    if (top?.link) {
+      current.linkChars += text.trim().length;
+    }
+  };
+
+  while ((match = tagPattern.exec(source)) !== null) {
+    addText(source.slice(last, match.index));
+    last = tagPattern.lastIndex;
+
+    const closing = match[1] === '/';
+    const tag = match[2].toLowerCase().replace(/^.*:/, '');
+    const attrs = match[3];
+
+    if (BLOCK_TAGS.has(tag)) {
+      flush(!closing && HEADING_TAGS.has(tag));
+    }
+
+    if (closing) {
+      const index = stack.map((s) => s.tag).lastIndexOf(tag);
+      if (index !== -1) {
+        stack.length = index;
+      }
+      continue;
+    }
+    if (VOID_TAGS.has(tag) || attrs.trim().endsWith('/')) {
+      continue;
+    }
+
+    // Raw-text elements: jump past their content without tokenizing it
+    if (tag === 'script' || tag === 'style') {
+      const end = source.toLowerCase().indexOf(`</${tag}`, last);
+      last = end === -1 ? source.length : end;
+      tagPattern.lastIndex = last;
+      continue;
+    }
+
+    const parent = stack[stack.length - 1];
+    stack.push({
+      tag,
+      skip: (parent?.skip ?? false) || isBoilerplate(tag, attrs),
+      content:
+        (parent?.content ?? false) ||
+        tag === 'article' ||
+        tag === 'main' ||
+        /^main$/i.test(attribute(attrs, 'role')),
+      link: (parent?.link ?? false) || tag === 'a',
+    });
+  }
+  addText(source.slice(last));
+  flush();
+
+  let removedBlocks = 0;
+  const kept: string[] = [];
+  for (const block of blocks) {
+    const text = block.text.replace(/\s+/g, ' ').trim();
+    const words = text.split(' ').length;
+    const linkHeavy = block.linkChars / text.length > MAX_LINK_DENSITY;
+    const fragment = !block.heading && words < MIN_BLOCK_WORDS && !/[.!?:;]$/.test(text);
+    if (linkHeavy || fragment) {
+      removedBlocks++;
+    } else {
+      kept.push(text);
+    }
+  }
+
+  return { title, blocks: kept, removedBlocks };
+}
@@ -0,0 +1,113 @@
+/**
+ * Office Document Readers
+ *
+ * Text extraction from the ZIP-based document formats:
+ * - DOCX: paragraphs of word/document.xml (runs, tabs and breaks)
+ * - EPUB: chapters in spine order, each through the HTML text extractor
+ */
+
+import { posix } from 'path';
+import { openZip, type ZipArchive } from './zip-reader';
+import { decodeEntities, extractReadableText } from './html-text';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface EpubChapter {
+  href: string;
+  title: string | null;
+  blocks: string[];
+  removedBlocks: number;
+}
+
+// =============================================================================
+// DOCX
+// =============================================================================
+
+/**
+ * Paragraphs of a Word document, empty paragraphs dropped.
+ */
+export function readDocxParagraphs(buffer: Buffer): string[] {
+  const xml = openZip(buffer).read('word/document.xml');
+  if (!xml) {
+    throw new Error('Not a Word document (word/document.xml missing)');
+  }
+
+  const paragraphs: string[] = [];
+  for (const paragraph of xml.toString('utf8').matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g)) {
+    let text = '';
+    for (const run of paragraph[0].matchAll(
+      /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>|<w:noBreakHyphen\/>/g
+    )) {
+      if (run[1] !== undefined) {
+        text += decodeEntities(run[1]);
+      } else if (run[2] === 'tab') {
+        text += '\t';
+      } else if (run[2]) {
+        text += '\n';
+      } else {
+        text += '-';
+      }
+    }
+    const cleaned = text.replace(/[ \t]+/g, ' ').trim();
+    if (cleaned !== '') {
+      paragraphs.push(cleaned);
+    }
+  }
+  return paragraphs;
+}
+
+// =============================================================================
+// EPUB
+// =============================================================================
+
+function attributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attrs[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+function readText(zip: ZipArchive, name: string): string | null {
+  return zip.read(name)?.toString('utf8') ?? null;
+}
+
+/**
+ * Chapters of an EPUB in reading (spine) order.
+ */
+export function readEpubChapters(buffer: Buffer): EpubChapter[] {
+  const zip = openZip(buffer);
+  const container = readText(zip, 'META-INF/container.xml');
+  const rootfile = container ? /<rootfile\b[^>]*>/.exec(container) : null;
+  const opfPath = rootfile ? attributes(rootfile[0])['full-path'] : undefined;
+  const opf = opfPath ? readText(zip, opfPath) : null;
+  if (!opfPath || !opf) {
+    throw new Error('Not an EPUB (package document missing)');
+  }
+
+  const manifest = new Map<string, { href: string; mediaType: string }>();
+  for (const item of opf.matchAll(/<(?:\w+:)?item\b[^>]*>/g)) {
+    const attrs = attributes(item[0]);
+    if (attrs.id && attrs.href) {
+      manifest.set(attrs.id, { href: attrs.href, mediaType: attrs['media-type'] ?? '' });
+    }
+  }
+
+  const baseDir = posix.dirname(opfPath);
+  const chapters: EpubChapter[] = [];
+  for (const itemref of opf.matchAll(/<(?:\w+:)?itemref\b[^>]*>/g)) {
+    const item = manifest.get(attributes(itemref[0]).idref ?? '');
+    if (!item || !/html/.test(item.mediaType)) {
+      continue;
+    }
+    const href = decodeURIComponent(item.href.split('#')[0]);
+    const html = readText(zip, baseDir === '.' ? href : posix.join(baseDir, href));
+    if (html === null) {
+      continue;
+    }
+    chapters.push({ href, ...extractReadableText(html) });
+  }
+  return chapters;
+}
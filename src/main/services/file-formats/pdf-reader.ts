@@ -0,0 +1,896 @@
+/**
+ * PDF Reader
+ *
+ * Extracts the text layer of a PDF held in memory, page by page:
+ * - indirect objects, including those packed in object streams (PDF 1.5+)
+ * - FlateDecode streams via Node's zlib
+ * - content stream text operators (Tj, TJ, ', ") with line breaks from the
+ *   text positioning operators, and text inside form XObjects
+ * - ToUnicode CMaps for embedded/subset fonts, WinAnsi for simple fonts
+ *
+ * Scanned PDFs have no text layer and yield empty pages; encrypted PDFs are
+ * rejected. Works on the raw bytes as a latin1 string so byte offsets and
+ * characters coincide.
+ */
+
+import { inflateSync, constants as zlibConstants } from 'zlib';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface PdfRef {
+  ref: number;
+}
+
+interface PdfString {
+  str: string;
+}
+
+interface PdfDict {
+  dict: Record<string, PdfValue>;
+}
+
+interface PdfOperator {
+  op: string;
+}
+
+type PdfValue = number | boolean | null | string | PdfRef | PdfString | PdfDict | PdfValue[];
+
+interface PdfObject {
+  value: PdfValue;
+  /** Raw (still encoded) stream bytes */
+  stream?: string;
+}
+
+interface PdfFont {
+  /** Bytes per character code */
+  codeBytes: number;
+  toUnicode: Map<number, string> | null;
+}
+
+export interface PdfText {
+  pages: string[];
+  warnings: string[];
+}
+
+/** Caps on decompressed stream data, against compression bombs */
+export interface PdfDecodeLimits {
+  /** Largest decoded size of a single stream */
+  maxStreamBytes: number;
+  /** Decoded bytes allowed across all streams of one document */
+  maxDocumentBytes: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const WHITESPACE = '\0\t\n\f\r ';
+const DELIMITERS = '()<>[]{}/%';
+
+/** Nested form XObjects followed when collecting page text */
+const MAX_FORM_DEPTH = 5;
+
+const DEFAULT_DECODE_LIMITS: PdfDecodeLimits = {
+  maxStreamBytes: 64 * 1024 * 1024,
+  maxDocumentBytes: 256 * 1024 * 1024,
+};
+
+const BUDGET_WARNING = 'The document decompresses to too much data; the rest was skipped';
+
+/** TJ adjustments (thousandths of an em) wide enough to be a word gap */
+const WORD_GAP = 180;
+
+/** cp1252 characters in 0x80–0x9F, which WinAnsiEncoding uses */
+const WIN_ANSI_HIGH: Record<number, string> = {
+  0x80: '€',
+  0x82: '‚',
+  0x83: 'ƒ',
+  0x84: '„',
+  0x85: '…',
+  0x86: '†',
+  0x87: '‡',
+  0x88: 'ˆ',
+  0x89: '‰',
+  0x8a: 'Š',
+  0x8b: '‹',
+  0x8c: 'Œ',
+  0x8e: 'Ž',
+  0x91: '‘',
+  0x92: '’',
+  0x93: '“',
+  0x94: '”',
+  0x95: '•',
+  0x96: '–',
+  0x97: '—',
+  0x98: '˜',
+  0x99: '™',
+  0x9a: 'š',
+  0x9b: '›',
+  0x9c: 'œ',
+  0x9e: 'ž',
+  0x9f: 'Ÿ',
+};
+
+// =============================================================================
+// Lexer
+// =============================================================================
+
+function isWhitespace(ch: string): boolean {
+  return WHITESPACE.includes(ch);
+}
+
+function isRegular(ch: string): boolean {
+  return ch !== '' && !isWhitespace(ch) && !DELIMITERS.includes(ch);
+}
+
+/**
+ * Tokenizer and object parser over PDF syntax, shared by the file body,
+ * object streams and content streams.
+ */
+class PdfParser {
+  constructor(
+    private readonly src: string,
+    public pos = 0
+  ) {}
+
+  get done(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.src.length;
+  }
+
+  skipWhitespace(): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (isWhitespace(ch)) {
+        this.pos++;
+      } else if (ch === '%') {
+        while (
+          this.pos < this.src.length &&
+          this.src[this.pos] !== '\n' &&
+          this.src[this.pos] !== '\r'
+        ) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  /** Parse one value; bare keywords come back as operators */
+  parse(): PdfValue | PdfOperator {
+    this.skipWhitespace();
+    const ch = this.src[this.pos];
+
+    if (ch === '/') {
+      return this.parseName();
+    }
+    if (ch === '(') {
+      return { str: this.parseLiteralString() };
+    }
+    if (ch === '<') {
+      if (this.src[this.pos + 1] === '<') {
+        return this.parseDict();
+      }
+      return { str: this.parseHexString() };
+    }
+    if (ch === '[') {
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (this.pos >= this.src.length) {
+          return items;
+        }
+        if (this.src[this.pos] === ']') {
+          this.pos++;
+          return items;
+        }
+        const item = this.parse();
+        if (!isOperator(item)) {
+          items.push(item);
+        }
+      }
+    }
+    if (ch === ']' || ch === '>' || ch === ')' || ch === '{' || ch === '}') {
+      this.pos++;
+      return { op: ch };
+    }
+
+    const word = this.readRegular();
+    if (word === '') {
+      this.pos++;
+      return { op: '' };
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return this.parseNumberOrRef(Number(word), /^\d+$/.test(word));
+    }
+    if (word === 'true' || word === 'false') {
+      return word === 'true';
+    }
+    if (word === 'null') {
+      return null;
+    }
+    return { op: word };
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (this.pos < this.src.length && isRegular(this.src[this.pos])) {
+      this.pos++;
+    }
+    return this.src.slice(start, this.pos);
+  }
+
+  /** "12 0 R" is a reference; otherwise the number stands alone */
+  private parseNumberOrRef(value: number, isInteger: boolean): PdfValue {
+    if (!isInteger) {
+      return value;
+    }
+    const save = this.pos;
+    this.skipWhitespace();
+    const generation = this.readRegular();
+    if (/^\d+$/.test(generation)) {
+      this.skipWhitespace();
+      if (this.src[this.pos] === 'R' && !isRegular(this.src[this.pos + 1] ?? '')) {
+        this.pos++;
+        return { ref: value };
+      }
+    }
+    this.pos = save;
+    return value;
+  }
+
+  private parseName(): string {
+    this.pos++;
+    const raw = this.readRegular();
+    return (
+      '/' +
+      raw.replace(/#([0-9a-fA-F]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    );
+  }
+
+  private parseDict(): PdfDict {
+    this.pos += 2;
+    const dict: Record<string, PdfValue> = {};
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.src.length) {
+        return { dict };
+      }
+      if (this.src.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        return { dict };
+      }
+      const key = this.parse();
+      if (typeof key !== 'string') {
+        continue;
+      }
+      const value = this.parse();
+      dict[key.slice(1)] = isOperator(value) ? null : value;
+    }
+  }
+
+  private parseLiteralString(): string {
+    this.pos++;
+    let depth = 1;
+    let out = '';
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos++];
+      if (ch === '\\') {
+        const next = this.src[this.pos++];
+        const simple: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+        if (next in simple) {
+          out += simple[next];
+        } else if (next >= '0' && next <= '7') {
+          let octal = next;
+          while (octal.length < 3 && this.src[this.pos] >= '0' && this.src[this.pos] <= '7') {
+            octal += this.src[this.pos++];
+          }
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === '\r') {
+          if (this.src[this.pos] === '\n') {
+            this.pos++;
+          }
+        } else if (next !== '\n') {
+          out += next;
+        }
+      } else if (ch === '(') {
+        depth++;
+        out += ch;
+      } else if (ch === ')') {
+        depth--;
+        if (depth === 0) {
+          break;
+        }
+        out += ch;
+      } else {
+        out += ch;
+      }
+    }
+    return out;
+  }
+
+  private parseHexString(): string {
+    this.pos++;
+    const end = this.src.indexOf('>', this.pos);
+    const stop = end === -1 ? this.src.length : end;
+    let hex = this.src.slice(this.pos, stop).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = stop + 1;
+    if (hex.length % 2 === 1) {
+      hex += '0';
+    }
+    let out = '';
+    for (let i = 0; i < hex.length; i += 2) {
+      out += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+    }
+    return out;
+  }
+}
+
+function isOperator(value: PdfValue | PdfOperator): value is PdfOperator {
+  return typeof value === 'object' && value !== null && 'op' in value;
+}
+
+function isRef(value: PdfValue | undefined): value is PdfRef {
+  return typeof value === 'object' && value !== null && 'ref' in value;
+}
+
+function isDict(value: PdfValue | undefined): value is PdfDict {
+  return typeof value === 'object' && value !== null && 'dict' in value;
+}
+
+function isString(value: PdfValue | undefined): value is PdfString {
+  return typeof value === 'object' && value !== null && 'str' in value;
+}
+
+// =============================================================================
+// Document Structure
+// =============================================================================
+
+class PdfDocument {
+  readonly objects = new Map<number, PdfObject>();
+  readonly warnings = new Set<string>();
+  /** Decoded bytes so far, against the document limit */
+  private decodedBytes = 0;
+
+  constructor(
+    private readonly src: string,
+    private readonly limits: PdfDecodeLimits
+  ) {
+    this.readObjects();
+    this.readObjectStreams();
+  }
+
+  private readObjects(): void {
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = header.exec(this.src)) !== null) {
+      const parser = new PdfParser(this.src, match.index + match[0].length);
+      const value = parser.parse();
+      if (isOperator(value)) {
+        continue;
+      }
+
+      const object: PdfObject = { value };
+      parser.skipWhitespace();
+      if (this.src.startsWith('stream', parser.pos)) {
+        let start = parser.pos + 'stream'.length;
+        if (this.src[start] === '\r') {
+          start++;
+        }
+        if (this.src[start] === '\n') {
+          start++;
+        }
+        const length = isDict(value) ? value.dict.Length : undefined;
+        let end = typeof length === 'number' ? start + length : -1;
+        if (end < 0 || !/^\s*endstream/.test(this.src.slice(end, end + 20))) {
+          end = this.src.indexOf('endstream', start);
+          if (end === -1) {
+            end = this.src.length;
+          }
+        }
+        object.stream = this.src.slice(start, end);
+        header.lastIndex = end;
+      } else {
+        header.lastIndex = parser.pos;
+      }
+
+      // Later definitions (incremental updates) replace earlier ones
+      this.objects.set(Number(match[1]), object);
+    }
+  }
+
+  private readObjectStreams(): void {
+    for (const object of [...this.objects.values()]) {
+      if (!isDict(object.value) || object.value.dict.Type !== '/ObjStm') {
+        continue;
+      }
+      const data = this.decodeStream(object);
+      const first = this.resolve(object.value.dict.First);
+      const count = this.resolve(object.value.dict.N);
+      if (data === null || typeof first !== 'number' || typeof count !== 'number') {
+        continue;
+      }
+
+      const index = new PdfParser(data.slice(0, first));
+      for (let i = 0; i < count; i++) {
+        const number = index.parse();
+        const offset = index.parse();
+        if (typeof number !== 'number' || typeof offset !== 'number') {
+          break;
+        }
+        if (!this.objects.has(number)) {
+          const value = new PdfParser(data, first + offset).parse();
+          if (!isOperator(value)) {
+            this.objects.set(number, { value });
+          }
+        }
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (isRef(value) && depth < 10) {
+      return this.resolve(this.objects.get(value.ref)?.value, depth + 1);
+    }
+    return value;
+  }
+
+  resolveDict(value: PdfValue | undefined): Record<string, PdfValue> | null {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved.dict : null;
+  }
+
+  /** Decoded stream data, or null when a filter is unsupported */
+  decodeStream(object: PdfObject | undefined): string | null {
+    if (!object?.stream || !isDict(object.value)) {
+      return null;
+    }
+    const filter = this.resolve(object.value.dict.Filter);
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map((f) =>
+      this.resolve(f)
+    );
+
+    let data = object.stream;
+    for (const f of filters) {
+      if (f !== '/FlateDecode' && f !== '/Fl') {
+        this.warnings.add(
+          `Unsupported stream filter ${typeof f === 'string' ? f.slice(1) : 'array'}`
+        );
+        return null;
+      }
+      const budget = this.limits.maxDocumentBytes - this.decodedBytes;
+      if (budget <= 0) {
+        this.warnings.add(BUDGET_WARNING);
+        return null;
+      }
+      const limit = Math.min(this.limits.maxStreamBytes, budget);
+      try {
+        // Sync flush tolerates streams truncated or padded by their writer
+        const inflated = inflateSync(Buffer.from(data, 'latin1'), {
+          finishFlush: zlibConstants.Z_SYNC_FLUSH,
+          maxOutputLength: limit,
+        });
+        this.decodedBytes += inflated.length;
+        data = inflated.toString('latin1');
+      } catch (err) {
+        if (err instanceof RangeError) {
+          this.warnings.add(
+            limit < this.limits.maxStreamBytes
+              ? BUDGET_WARNING
+              : 'Some compressed streams were too large to decode'
+          );
+        } else {
+          this.warnings.add('Some compressed streams could not be decoded');
+        }
+        return null;
+      }
+    }
+    return data;
+  }
+
+  streamOf(value: PdfValue | undefined): string | null {
+    return isRef(value) ? this.decodeStream(this.objects.get(value.ref)) : null;
+  }
+
+  /** Page dictionaries in reading order, with inherited resources */
+  pages(): Array<{ page: Record<string, PdfValue>; resources: Record<string, PdfValue> | null }> {
+    const catalog = [...this.objects.values()].find(
+      (o) => isDict(o.value) && o.value.dict.Type === '/Catalog'
+    );
+    const root = catalog && isDict(catalog.value) ? catalog.value.dict.Pages : undefined;
+    const pages: Array<{
+      page: Record<string, PdfValue>;
+      resources: Record<string, PdfValue> | null;
+    }> = [];
+    const visited = new Set<number>();
+
+    const walk = (node: PdfValue | undefined, inherited: Record<string, PdfValue> | null): void => {
+      if (isRef(node)) {
+        if (visited.has(node.ref)) {
+          return;
+        }
+        visited.add(node.ref);
+      }
+      const dict = this.resolveDict(node);
+      if (!dict) {
+        return;
+      }
+      const resources = this.resolveDict(dict.Resources) ?? inherited;
+      if (dict.Type === '/Page' || (!dict.Kids && dict.Contents)) {
+        pages.push({ page: dict, resources });
+        return;
+      }
+      const kids = this.resolve(dict.Kids);
+      if (Array.isArray(kids)) {
+        for (const kid of kids) {
+          walk(kid, resources);
+        }
+      }
+    };
+    walk(root, null);
+
+    if (pages.length > 0) {
+      return pages;
+    }
+
+    // No usable page tree: fall back to page objects in file order
+    return [...this.objects.entries()]
+      .sort(([a], [b]) => a - b)
+      .flatMap(([, o]) =>
+        isDict(o.value) && o.value.dict.Type === '/Page'
+          ? [{ page: o.value.dict, resources: this.resolveDict(o.value.dict.Resources) }]
+          : []
+      );
+  }
+
+  isEncrypted(): boolean {
+    return /\/Encrypt\s+(\d+\s+\d+\s+R|<<)/.test(this.src);
+  }
+}
+
+// =============================================================================
+// Fonts
+// =============================================================================
+
+function utf16be(bytes: string): string {
+  let out = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  }
+  return out;
+}
+
+function bytesToCode(bytes: string): number {
+  let code = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    code = code * 256 + bytes.charCodeAt(i);
+  }
+  return code;
+}
+
+/**
+ * Parse a ToUnicode CMap into code → text, plus the code width in bytes.
+ */
+export function parseToUnicodeCMap(cmap: string): { codeBytes: number; map: Map<number, string> } {
+  const map = new Map<number, string>();
+  const parser = (body: string) => {
+    const values: PdfValue[] = [];
+    const p = new PdfParser(body);
+    while (!p.done) {
+      const v = p.parse();
+      if (!isOperator(v)) {
+        values.push(v);
+      }
+    }
+    return values;
+  };
+
+  let codeBytes = 1;
+  const codespace = /begincodespacerange([\s\S]*?)endcodespacerange/.exec(cmap);
+  if (codespace) {
+    const [low] = parser(codespace[1]);
+    if (isString(low)) {
+      codeBytes = Math.max(1, low.str.length);
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    const values = parser(block[1]);
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      const [src, dst] = [values[i], values[i + 1]];
+      if (isString(src) && isString(dst)) {
+        map.set(bytesToCode(src.str), utf16be(dst.str));
+      }
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const values = parser(block[1]);
+    for (let i = 0; i + 2 < values.length; i += 3) {
+      const [lo, hi, dst] = [values[i], values[i + 1], values[i + 2]];
+      if (!isString(lo) || !isString(hi)) {
+        continue;
+      }
+      const start = bytesToCode(lo.str);
+      const end = Math.min(bytesToCode(hi.str), start + 0xffff);
+      if (isString(dst)) {
+        const base = utf16be(dst.str);
+        const last = base.charCodeAt(base.length - 1);
+        for (let code = start; code <= end; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(last + code - start));
+        }
+      } else if (Array.isArray(dst)) {
+        dst.forEach((d, k) => {
+          if (isString(d)) {
+            map.set(start + k, utf16be(d.str));
+          }
+        });
+      }
+    }
+  }
+
+  return { codeBytes, map };
+}
+
+function loadFont(doc: PdfDocument, value: PdfValue | undefined): PdfFont {
+  const dict = doc.resolveDict(value);
+  const cmapData = dict ? doc.streamOf(dict.ToUnicode) : null;
+  const composite = dict?.Subtype === '/Type0';
+
+  if (cmapData) {
+    const { codeBytes, map } = parseToUnicodeCMap(cmapData);
+    return { codeBytes: composite ? Math.max(2, codeBytes) : codeBytes, toUnicode: map };
+  }
+  return { codeBytes: composite ? 2 : 1, toUnicode: null };
+}
+
+function decodeWinAnsi(code: number): string {
+  return WIN_ANSI_HIGH[code] ?? (code >= 0x20 ? String.fromCharCode(code) : '');
+}
+
+// =============================================================================
+// Content Streams
+// =============================================================================
+
+interface TextCollector {
+  out: string;
+  /** Baseline of the last positioned text line */
+  lastY: number | null;
+  undecoded: number;
+}
+
+function decodeText(bytes: string, font: PdfFont | null, collector: TextCollector): string {
+  const width = font?.codeBytes ?? 1;
+  let out = '';
+  for (let i = 0; i + width <= bytes.length; i += width) {
+    const code = bytesToCode(bytes.slice(i, i + width));
+    const mapped = font?.toUnicode?.get(code);
+    if (mapped !== undefined) {
+      out += mapped;
+    } else if (width === 1) {
+      out += decodeWinAnsi(code);
+    } else {
+      collector.undecoded++;
+    }
+  }
+  return out;
+}
+
+function newLine(collector: TextCollector): void {
+  if (collector.out !== '' && !collector.out.endsWith('\n')) {
+    collector.out += '\n';
+  }
+}
+
+function space(collector: TextCollector): void {
+  if (collector.out !== '' && !/\s$/.test(collector.out)) {
+    collector.out += ' ';
+  }
+}
+
+/** Start a new line when the baseline moves, otherwise separate words */
+function moveTo(collector: TextCollector, y: number): void {
+  if (collector.lastY !== null && Math.abs(y - collector.lastY) > 0.5) {
+    newLine(collector);
+  } else {
+    space(collector);
+  }
+  collector.lastY = y;
+}
+
+/**
+ * Interpret a content stream, appending its text to the collector.
+ */
+function collectText(
+  doc: PdfDocument,
+  content: string,
+  resources: Record<string, PdfValue> | null,
+  collector: TextCollector,
+  depth = 0
+): void {
+  const fonts = new Map<string, PdfFont>();
+  const fontDict = resources ? doc.resolveDict(resources.Font) : null;
+  const xobjects = resources ? doc.resolveDict(resources.XObject) : null;
+  let font: PdfFont | null = null;
+  let lineY = 0;
+  let leading = 0;
+
+  const parser = new PdfParser(content);
+  const operands: PdfValue[] = [];
+
+  const show = (value: PdfValue | undefined) => {
+    if (isString(value)) {
+      collector.out += decodeText(value.str, font, collector);
+    }
+  };
+
+  while (!parser.done) {
+    const token = parser.parse();
+    if (!isOperator(token)) {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.op) {
+      case 'Tf': {
+        const name = operands[operands.length - 2];
+        if (typeof name === 'string') {
+          const key = name.slice(1);
+          if (!fonts.has(key)) {
+            fonts.set(key, loadFont(doc, fontDict?.[key]));
+          }
+          font = fonts.get(key) ?? null;
+        }
+        break;
+      }
+      case 'Tj':
+        show(operands[operands.length - 1]);
+        break;
+      case "'":
+      case '"':
+        lineY -= leading;
+        newLine(collector);
+        collector.lastY = lineY;
+        show(operands[operands.length - 1]);
+        break;
+      case 'TJ': {
+        const items = operands[operands.length - 1];
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (typeof item === 'number') {
+              if (item < -WORD_GAP) {
+                space(collector);
+              }
+            } else {
+              show(item);
+            }
+          }
+        }
+        break;
+      }
+      case 'BT':
+        lineY = 0;
+        break;
+      case 'TL': {
+        const tl = operands[operands.length - 1];
+        leading = typeof tl === 'number' ? tl : leading;
+        break;
+      }
+      case 'Td':
+      case 'TD': {
+        const ty = operands[operands.length - 1];
+        if (typeof ty === 'number') {
+          if (token.op === 'TD') {
+            leading = -ty;
+          }
+          lineY += ty;
+          moveTo(collector, lineY);
+        }
+        break;
+      }
+      case 'T*':
+        lineY -= leading;
+        newLine(collector);
+        collector.lastY = lineY;
+        break;
+      case 'Tm': {
+        const y = operands[operands.length - 1];
+        if (typeof y === 'number') {
+          lineY = y;
+          moveTo(collector, lineY);
+        }
+        break;
+      }
+      case 'ET':
+        space(collector);
+        break;
+      case 'BI': {
+        // Inline image data is binary; skip to its end marker
+        const end = content.slice(parser.pos).search(/\sEI(\s|$)/);
+        parser.pos = end === -1 ? content.length : parser.pos + end + 3;
+        break;
+      }
+      case 'Do': {
+        const name = operands[operands.length - 1];
+        const ref = typeof name === 'string' ? xobjects?.[name.slice(1)] : undefined;
+        const form = isRef(ref) ? doc.objects.get(ref.ref) : undefined;
+        if (
+          form &&
+          isDict(form.value) &&
+          form.value.dict.Subtype === '/Form' &&
+          depth < MAX_FORM_DEPTH
+        ) {
+          const data = doc.decodeStream(form);
+          if (data !== null) {
+            const formResources = doc.resolveDict(form.value.dict.Resources) ?? resources;
+            collectText(doc, data, formResources, collector, depth + 1);
+          }
+        }
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+}
+
+function contentOf(doc: PdfDocument, page: Record<string, PdfValue>): string {
+  const contents = page.Contents;
+  const refs = Array.isArray(contents) ? contents : [contents];
+  const resolved = refs.flatMap((r) => {
+    const target = doc.resolve(r);
+    return Array.isArray(target) ? target : [r];
+  });
+  return resolved
+    .map((r) => doc.streamOf(r))
+    .filter((s): s is string => s !== null)
+    .join('\n');
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+/**
+ * Extract the text of each page of a PDF.
+ * Streams past the decode limits are skipped with a warning.
+ */
+export function readPdfText(
+  buffer: Buffer,
+  limits: PdfDecodeLimits = DEFAULT_DECODE_LIMITS
+): PdfText {
+  const src = buffer.toString('latin1');
+  if (!src.slice(0, 1024).includes('%PDF-')) {
+    throw new Error('Not a PDF file');
+  }
+
+  const doc = new PdfDocument(src, limits);
+  if (doc.isEncrypted()) {
+    throw new Error('Encrypted PDFs are not supported');
+  }
+
+  let undecoded = 0;
+  const pages = doc.pages().map(({ page, resources }) => {
+    const collector: TextCollector = { out: '', lastY: null, undecoded: 0 };
+    collectText(doc, contentOf(doc, page), resources, collector);
+    undecoded += collector.undecoded;
+    return collector.out
+      .split('\n')
+      .map((line) => line.replace(/\s+/g, ' ').trim())
+      .filter((line) => line !== '')
+      .join('\n');
+  });
+
+  const warnings = [...doc.warnings];
+  if (undecoded > 0) {
+    warnings.push('Some fonts have no Unicode mapping; parts of the text could not be read');
+  }
+  if (pages.length > 0 && pages.every((p) => p === '')) {
+    warnings.push('No text layer found; the PDF may be scanned images');
+  }
+  return { pages, warnings };
+}
@@ -0,0 +1,86 @@
+/**
+ * Subtitle Reader
+ *
+ * Parses SubRip (.srt) and WebVTT (.vtt) subtitle files into timed cues.
+ * Formatting tags (<i>, <b>, <c.class>, <v Speaker>), ASS-style override
+ * blocks ({\an8}) and cue settings are removed; timestamps are kept so text
+ * can be traced back to its place in the video.
+ */
+
+import { decodeEntities } from './html-text';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SubtitleCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+const TIMING_LINE = new RegExp(`${TIMESTAMP.source}\\s*-->\\s*${TIMESTAMP.source}`);
+
+function toMs(
+  hours: string | undefined,
+  minutes: string,
+  seconds: string,
+  fraction: string
+): number {
+  return (
+    ((Number(hours ?? 0) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 +
+    Number(fraction.padEnd(3, '0'))
+  );
+}
+
+function cleanCueText(lines: string[]): string {
+  return decodeEntities(
+    lines
+      .join(' ')
+      .replace(/<[^>]*>/g, '')
+      .replace(/\{\\[^}]*\}/g, '')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse SRT or WebVTT text into cues, in file order.
+ */
+export function parseSubtitles(text: string): SubtitleCue[] {
+  const blocks = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/);
+
+  const cues: SubtitleCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    // Headers, NOTE/STYLE/REGION blocks and stray lines have no timing line
+    if (timingIndex === -1) {
+      continue;
+    }
+
+    const timing = TIMING_LINE.exec(lines[timingIndex]);
+    if (!timing) {
+      continue;
+    }
+    const cueText = cleanCueText(lines.slice(timingIndex + 1));
+    if (cueText === '') {
+      continue;
+    }
+
+    cues.push({
+      startMs: toMs(timing[1], timing[2], timing[3], timing[4]),
+      endMs: toMs(timing[5], timing[6], timing[7], timing[8]),
+      text: cueText,
+    });
+  }
+  return cues;
+}
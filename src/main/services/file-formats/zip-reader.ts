@@ -0,0 +1,142 @@
+/**
+ * ZIP Reader
+ *
+ * Minimal reader for ZIP containers (Anki .apkg, and similar package formats).
+ * Walks the central directory and inflates entries with Node's zlib, so no
+ * native or third-party unzip dependency is needed.
+ *
+ * Supports stored (0) and deflated (8) entries. ZIP64 and encrypted archives
+ * are rejected.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/** EOCD record is 22 bytes plus an optional comment of up to 64 KiB */
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+/** Largest entry we will decompress (guards against ZIP bombs) */
+const MAX_ENTRY_SIZE = 512 * 1024 * 1024;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  method: number;
+  /** Offset of the local file header */
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  entries: ZipEntry[];
+  /** Read and decompress an entry by name; returns null when absent */
+  read(name: string): Buffer | null;
+}
+
+// =============================================================================
+// Reader
+// =============================================================================
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const stop = Math.max(0, buffer.length - MAX_EOCD_SEARCH);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP archive (end of central directory not found)');
+}
+
+function readEntry(buffer: Buffer, entry: ZipEntry): Buffer {
+  const offset = entry.localHeaderOffset;
+  if (buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+  }
+
+  const nameLength = buffer.readUInt16LE(offset + 26);
+  const extraLength = buffer.readUInt16LE(offset + 28);
+  const dataStart = offset + 30 + nameLength + extraLength;
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) {
+    return Buffer.from(data);
+  }
+  if (entry.method === METHOD_DEFLATED) {
+    if (entry.uncompressedSize > MAX_ENTRY_SIZE) {
+      throw new Error(`ZIP entry too large: ${entry.name}`);
+    }
+    try {
+      // Never inflate past the size the directory declares
+      return inflateRawSync(data, { maxOutputLength: Math.max(1, entry.uncompressedSize) });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new Error(`ZIP entry exceeds its declared size: ${entry.name}`);
+      }
+      throw error;
+    }
+  }
+  throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+}
+
+/**
+ * Open a ZIP archive held in memory.
+ */
+export function openZip(buffer: Buffer): ZipArchive {
+  const eocd = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  const directoryOffset = buffer.readUInt32LE(eocd + 16);
+
+  if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    if (flags & 0x1) {
+      throw new Error('Encrypted ZIP archives are not supported');
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+
+    entries.push({
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return {
+    entries,
+    read(name: string): Buffer | null {
+      const entry = entries.find((e) => e.name === name);
+      return entry ? readEntry(buffer, entry) : null;
+    },
+  };
+}
@@ -0,0 +1,284 @@
+/**
+ * FSRS Optimizer Service
+ *
+ * Fits per-user FSRS weights from the learner's own Response history and
+ * hands out schedulers that use them.
+ * Wraps the pure optimizer from core/fsrs-optimizer.ts with persistence on
+ * the User row and a per-user scheduler cache.
+ */
+
+import { getPrisma } from '../db/prisma';
+import { FSRS, DEFAULT_WEIGHTS, DEFAULT_PARAMETERS, responseToRating } from '../../core/fsrs';
+import {
+  optimizeWeightsAsync,
+  countScoredReviews,
+  type CalibrationReport,
+  type OptimizationResult,
+  type ReviewSequence,
+} from '../../core/fsrs-optimizer';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UserFSRSParameters {
+  weights: number[];
+  /** False when the user is still on DEFAULT_WEIGHTS */
+  personalized: boolean;
+  optimizedAt: Date | null;
+  calibration: { before: CalibrationSummary; after: CalibrationSummary } | null;
+}
+
+/** Calibration report without the per-bin breakdown, as persisted */
+export type CalibrationSummary = Omit<CalibrationReport, 'bins'>;
+
+export interface UserOptimizationResult extends OptimizationResult {
+  userId: string;
+  /** Whether new weights were written to the database */
+  saved: boolean;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const FSRS_OPTIMIZER_CONFIG = {
+  /** Minimum repeat reviews before a first fit is attempted */
+  minSamples: 100,
+  /** New responses needed since the last fit before refitting */
+  minNewResponses: 200,
+  /** Adam iterations per fit */
+  iterations: 80,
+  /** Wall-clock cap on one fit; the best weights found so far are kept */
+  maxDurationMs: 10_000,
+};
+
+// =============================================================================
+// Scheduler Cache
+// =============================================================================
+
+const schedulerCache = new Map<string, { fsrs: FSRS; requestRetention: number }>();
+
+/**
+ * Parse stored weights, rejecting anything that is not 17 finite numbers.
+ */
+function parseWeights(json: string | null): number[] | null {
+  if (!json) {
+    return null;
+  }
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === DEFAULT_WEIGHTS.length &&
+      parsed.every((w) => typeof w === 'number' && Number.isFinite(w))
+    ) {
+      return parsed as number[];
+    }
+  } catch {
+    // Fall through to defaults
+  }
+  return null;
+}
+
+/**
+ * Get an FSRS scheduler configured with the user's fitted weights.
+ * Falls back to DEFAULT_WEIGHTS when the user has not been optimized yet.
+ */
+export async function getUserFSRS(
+  userId: string,
+  requestRetention: number = DEFAULT_PARAMETERS.requestRetention
+): Promise<FSRS> {
+  const cached = schedulerCache.get(userId);
+  if (cached && cached.requestRetention === requestRetention) {
+    return cached.fsrs;
+  }
+
+  const db = getPrisma();
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { fsrsWeights: true },
+  });
+
+  const fsrs = new FSRS({
+    w: parseWeights(user?.fsrsWeights ?? null) ?? DEFAULT_WEIGHTS,
+    requestRetention,
+  });
+  schedulerCache.set(userId, { fsrs, requestRetention });
+  return fsrs;
+}
+
+/**
+ * Drop cached schedulers (all users, or one).
+ */
+export function clearFSRSCache(userId?: string): void {
+  if (userId) {
+    schedulerCache.delete(userId);
+  } else {
+    schedulerCache.clear();
+  }
+}
+
+// =============================================================================
+// Parameters
+// =============================================================================
+
+/**
+ * Get the user's current FSRS weights and last calibration report.
+ */
+export async function getUserFSRSParameters(userId: string): Promise<UserFSRSParameters> {
+  const db = getPrisma();
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { fsrsWeights: true, fsrsCalibration: true, fsrsOptimizedAt: true },
+  });
+
+  const weights = parseWeights(user?.fsrsWeights ?? null);
+  let calibration: UserFSRSParameters['calibration'] = null;
+  if (user?.fsrsCalibration) {
+    try {
+      calibration = JSON.parse(user.fsrsCalibration) as UserFSRSParameters['calibration'];
+    } catch {
+      calibration = null;
+    }
+  }
+
+  return {
+    weights: weights ?? [...DEFAULT_WEIGHTS],
+    personalized: weights !== null,
+    optimizedAt: user?.fsrsOptimizedAt ?? null,
+    calibration,
+  };
+}
+
+/**
+ * Revert a user to DEFAULT_WEIGHTS.
+ */
+export async function resetUserFSRSParameters(userId: string): Promise<void> {
+  const db = getPrisma();
+  await db.user.update({
+    where: { id: userId },
+    data: { fsrsWeights: null, fsrsCalibration: null, fsrsOptimizedAt: null },
+  });
+  clearFSRSCache(userId);
+}
+
+// =============================================================================
+// Optimization Job
+// =============================================================================
+
+/**
+ * Load the user's responses as per-object review sequences.
+ *
+ * Ratings are reconstructed with responseToRating from correctness,
+ * cue level and response time.
+ */
+export async function loadReviewSequences(userId: string): Promise<ReviewSequence[]> {
+  const db = getPrisma();
+  const responses = await db.response.findMany({
+    where: { session: { userId } },
+    select: {
+      objectId: true,
+      correct: true,
+      cueLevel: true,
+      responseTimeMs: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const byObject = new Map<string, ReviewSequence>();
+  for (const r of responses) {
+    const sequence = byObject.get(r.objectId) ?? [];
+    sequence.push({
+      rating: responseToRating({
+        correct: r.correct,
+        cueLevel: Math.min(3, Math.max(0, r.cueLevel)) as 0 | 1 | 2 | 3,
+        responseTimeMs: r.responseTimeMs,
+      }),
+      timestamp: r.createdAt,
+    });
+    byObject.set(r.objectId, sequence);
+  }
+
+  return [...byObject.values()];
+}
+
+/**
+ * Fit FSRS weights to a user's history and persist them when they improve
+ * log-loss over the user's current weights.
+ */
+export async function optimizeUserFSRS(userId: string): Promise<UserOptimizationResult> {
+  const db = getPrisma();
+  const [sequences, current] = await Promise.all([
+    loadReviewSequences(userId),
+    getUserFSRSParameters(userId),
+  ]);
+
+  // Fitted in slices so the main process keeps serving IPC during the fit
+  const result = await optimizeWeightsAsync(sequences, {
+    initialWeights: current.weights,
+    iterations: FSRS_OPTIMIZER_CONFIG.iterations,
+    minSamples: FSRS_OPTIMIZER_CONFIG.minSamples,
+    maxDurationMs: FSRS_OPTIMIZER_CONFIG.maxDurationMs,
+  });
+
+  const summarize = ({ bins: _bins, ...summary }: CalibrationReport): CalibrationSummary => summary;
+
+  if (result.improved) {
+    await db.user.update({
+      where: { id: userId },
+      data: {
+        fsrsWeights: JSON.stringify(result.weights),
+        fsrsCalibration: JSON.stringify({
+          before: summarize(result.before),
+          after: summarize(result.after),
+        }),
+        fsrsOptimizedAt: new Date(),
+      },
+    });
+    clearFSRSCache(userId);
+  } else if (!result.reason) {
+    // Record the attempt so the refit threshold counts from now
+    await db.user.update({
+      where: { id: userId },
+      data: { fsrsOptimizedAt: new Date() },
+    });
+  }
+
+  return { ...result, userId, saved: result.improved };
+}
+
+/**
+ * Refit a user's weights only when enough new history has accumulated.
+ * Intended to run in the background after a session ends.
+ */
+export async function maybeOptimizeUserFSRS(
+  userId: string
+): Promise<UserOptimizationResult | null> {
+  const db = getPrisma();
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { fsrsOptimizedAt: true },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.fsrsOptimizedAt) {
+    const newResponses = await db.response.count({
+      where: { session: { userId }, createdAt: { gt: user.fsrsOptimizedAt } },
+    });
+    if (newResponses < FSRS_OPTIMIZER_CONFIG.minNewResponses) {
+      return null;
+    }
+  } else {
+    const sequences = await loadReviewSequences(userId);
+    if (countScoredReviews(sequences) < FSRS_OPTIMIZER_CONFIG.minSamples) {
+      return null;
+    }
+  }
+
+  return optimizeUserFSRS(userId);
+}
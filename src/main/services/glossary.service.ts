@@ -0,0 +1,533 @@
+/**
+ * Glossary Service
+ *
+ * Bilingual glossary of a goal's language objects. Each object can have
+ * several senses (GlossarySense rows), each with a part of speech, a
+ * target-language definition, a translation into the learner's native
+ * language (L1) and example usage. Sense 0 is the primary sense: it is the
+ * gloss shown in hints and answer feedback, and its translation is the
+ * prompt of translation tasks.
+ *
+ * Senses come from three places, recorded in their source:
+ * - dictionary: entries of the installed corpus packs for the goal's target
+ *   language, or the definition stored with the object by the corpus pipeline
+ * - provider: generated by the configured AI content provider
+ * - user: added or edited by hand in the Word Explorer
+ *
+ * Re-importing or regenerating replaces only senses of that source, so the
+ * learner's own edits are never overwritten.
+ */
+
+import { getPrisma } from '../db/prisma';
+import { getClaudeService } from './claude.service';
+import { loadCorpusPacks, type CorpusPack } from './corpus-sources/corpus-pack.service';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type GlossarySource = 'dictionary' | 'provider' | 'user';
+
+export interface GlossarySenseInput {
+  partOfSpeech?: string | null;
+  definition?: string | null;
+  translation?: string | null;
+  /** Language of the translation (ISO 639-1) */
+  l1?: string | null;
+  examples?: string[];
+}
+
+export interface GlossarySenseRecord {
+  id: string;
+  objectId: string;
+  senseIndex: number;
+  partOfSpeech: string | null;
+  definition: string | null;
+  translation: string | null;
+  l1: string | null;
+  examples: string[];
+  source: GlossarySource;
+  updatedAt: Date;
+}
+
+/** The gloss shown for an object in hints and feedback */
+export interface Gloss {
+  partOfSpeech: string | null;
+  definition: string | null;
+  /** Translation into the learner's native language, if known */
+  translation: string | null;
+  example: string | null;
+}
+
+export interface GlossaryFillOptions {
+  /** Ask the AI provider for objects no dictionary covers */
+  useProvider?: boolean;
+  /** Maximum objects to fill in one run */
+  limit?: number;
+}
+
+export interface GlossaryFillResult {
+  /** Objects without a glossary before the run */
+  missing: number;
+  fromDictionary: number;
+  fromProvider: number;
+  /** Objects still without a glossary */
+  unresolved: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const GLOSSARY_CONFIG = {
+  /** Dictionary senses imported per object */
+  maxDictionarySenses: 5,
+  /** Examples kept per sense */
+  maxExamples: 5,
+  defaultFillLimit: 200,
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Base ISO 639-1 code of a language setting ('pt-BR' -> 'pt').
+ */
+export function languageCode(language: string): string {
+  return language.trim().toLowerCase().split(/[-_]/)[0];
+}
+
+function clean(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+function toRecord(row: {
+  id: string;
+  objectId: string;
+  senseIndex: number;
+  partOfSpeech: string | null;
+  definition: string | null;
+  translation: string | null;
+  l1: string | null;
+  examples: string;
+  source: string;
+  updatedAt: Date;
+}): GlossarySenseRecord {
+  let examples: string[] = [];
+  try {
+    const parsed = JSON.parse(row.examples) as unknown;
+    examples = Array.isArray(parsed)
+      ? parsed.filter((e): e is string => typeof e === 'string')
+      : [];
+  } catch {
+    examples = [];
+  }
+  return {
+    id: row.id,
+    objectId: row.objectId,
+    senseIndex: row.senseIndex,
+    partOfSpeech: row.partOfSpeech,
+    definition: row.definition,
+    translation: row.translation,
+    l1: row.l1,
+    examples,
+    source: row.source as GlossarySource,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Column values for a sense input.
+ *
+ * @throws If the sense has neither a definition nor a translation
+ */
+function senseData(input: GlossarySenseInput) {
+  const definition = clean(input.definition);
+  const translation = clean(input.translation);
+  if (!definition && !translation) {
+    throw new Error('A glossary sense needs a definition or a translation');
+  }
+  return {
+    partOfSpeech: clean(input.partOfSpeech),
+    definition,
+    translation,
+    l1: translation && input.l1 ? languageCode(input.l1) : null,
+    examples: JSON.stringify(
+      (input.examples ?? [])
+        .map((e) => e.trim())
+        .filter((e) => e !== '')
+        .slice(0, GLOSSARY_CONFIG.maxExamples)
+    ),
+  };
+}
+
+/**
+ * The object with the languages of its goal's learner.
+ */
+async function loadObjectLanguages(objectId: string) {
+  const object = await getPrisma().languageObject.findUnique({
+    where: { id: objectId },
+    select: {
+      id: true,
+      content: true,
+      contentJson: true,
+      goal: {
+        select: {
+          domain: true,
+          user: { select: { nativeLanguage: true, targetLanguage: true } },
+        },
+      },
+    },
+  });
+  if (!object) {
+    throw new Error(`Language object not found: ${objectId}`);
+  }
+  return object;
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/**
+ * All senses of an object, primary sense first.
+ */
+export async function getGlossary(objectId: string): Promise<GlossarySenseRecord[]> {
+  const rows = await getPrisma().glossarySense.findMany({
+    where: { objectId },
+    orderBy: { senseIndex: 'asc' },
+  });
+  return rows.map(toRecord);
+}
+
+/**
+ * The gloss of a set of senses for a learner: the primary sense's
+ * definition, and the first translation into their native language.
+ */
+export function primaryGloss(senses: GlossarySenseRecord[], nativeLanguage: string): Gloss | null {
+  if (senses.length === 0) {
+    return null;
+  }
+  const [primary] = senses;
+  const l1 = languageCode(nativeLanguage);
+  const translated = senses.find((s) => s.translation && s.l1 === l1);
+  const defined = primary.definition ? primary : senses.find((s) => s.definition);
+
+  return {
+    partOfSpeech: (defined ?? primary).partOfSpeech,
+    definition: defined?.definition ?? null,
+    translation: translated?.translation ?? null,
+    example: (defined ?? primary).examples[0] ?? null,
+  };
+}
+
+/**
+ * The gloss of an object for its learner, importing dictionary senses on
+ * first use. Returns null when no glossary is available.
+ */
+export async function getGloss(objectId: string): Promise<Gloss | null> {
+  const object = await loadObjectLanguages(objectId);
+  let senses = await getGlossary(objectId);
+  if (senses.length === 0) {
+    senses = await importGlossaryFromDictionaries(objectId);
+  }
+  return primaryGloss(senses, object.goal.user.nativeLanguage);
+}
+
+// =============================================================================
+// Editing
+// =============================================================================
+
+/**
+ * Replace the senses of one source, keeping the others (and their order)
+ * ahead of the new ones.
+ */
+async function replaceSenses(
+  objectId: string,
+  source: GlossarySource,
+  inputs: GlossarySenseInput[]
+): Promise<GlossarySenseRecord[]> {
+  const db = getPrisma();
+  await db.glossarySense.deleteMany({ where: { objectId, source } });
+  const kept = await getGlossary(objectId);
+  await renumber(kept);
+
+  for (const [i, input] of inputs.entries()) {
+    await db.glossarySense.create({
+      data: { objectId, senseIndex: kept.length + i, source, ...senseData(input) },
+    });
+  }
+  return getGlossary(objectId);
+}
+
+/**
+ * Close gaps in sense numbering after a delete.
+ */
+async function renumber(senses: GlossarySenseRecord[]): Promise<void> {
+  const db = getPrisma();
+  for (const [i, sense] of senses.entries()) {
+    if (sense.senseIndex !== i) {
+      await db.glossarySense.update({ where: { id: sense.id }, data: { senseIndex: i } });
+    }
+  }
+}
+
+/**
+ * Add a hand-written sense after the existing ones. Translations are taken
+ * to be in the learner's native language unless l1 says otherwise.
+ */
+export async function addGlossarySense(
+  objectId: string,
+  input: GlossarySenseInput
+): Promise<GlossarySenseRecord[]> {
+  const db = getPrisma();
+  const object = await loadObjectLanguages(objectId);
+  const count = await db.glossarySense.count({ where: { objectId } });
+  await db.glossarySense.create({
+    data: {
+      objectId,
+      senseIndex: count,
+      source: 'user',
+      ...senseData({ ...input, l1: input.l1 ?? object.goal.user.nativeLanguage }),
+    },
+  });
+  return getGlossary(objectId);
+}
+
+/**
+ * Edit a sense. Edited senses count as the learner's own and survive
+ * re-importing and regenerating.
+ */
+export async function updateGlossarySense(
+  senseId: string,
+  input: GlossarySenseInput
+): Promise<GlossarySenseRecord[]> {
+  const db = getPrisma();
+  const sense = await db.glossarySense.findUnique({ where: { id: senseId } });
+  if (!sense) {
+    throw new Error(`Glossary sense not found: ${senseId}`);
+  }
+  const current = toRecord(sense);
+  const object = await loadObjectLanguages(sense.objectId);
+  await db.glossarySense.update({
+    where: { id: senseId },
+    data: {
+      source: 'user',
+      ...senseData({
+        partOfSpeech: input.partOfSpeech !== undefined ? input.partOfSpeech : current.partOfSpeech,
+        definition: input.definition !== undefined ? input.definition : current.definition,
+        translation: input.translation !== undefined ? input.translation : current.translation,
+        l1: input.l1 ?? current.l1 ?? object.goal.user.nativeLanguage,
+        examples: input.examples ?? current.examples,
+      }),
+    },
+  });
+  return getGlossary(sense.objectId);
+}
+
+/**
+ * Move a sense to the front so it becomes the primary sense.
+ */
+export async function makePrimarySense(senseId: string): Promise<GlossarySenseRecord[]> {
+  const sense = await getPrisma().glossarySense.findUnique({ where: { id: senseId } });
+  if (!sense) {
+    throw new Error(`Glossary sense not found: ${senseId}`);
+  }
+  const senses = await getGlossary(sense.objectId);
+  await renumber([
+    ...senses.filter((s) => s.id === senseId),
+    ...senses.filter((s) => s.id !== senseId),
+  ]);
+  return getGlossary(sense.objectId);
+}
+
+/**
+ * Delete a sense and renumber the rest.
+ */
+export async function deleteGlossarySense(senseId: string): Promise<GlossarySenseRecord[]> {
+  const db = getPrisma();
+  const sense = await db.glossarySense.findUnique({ where: { id: senseId } });
+  if (!sense) {
+    throw new Error(`Glossary sense not found: ${senseId}`);
+  }
+  await db.glossarySense.delete({ where: { id: senseId } });
+  const rest = await getGlossary(sense.objectId);
+  await renumber(rest);
+  return getGlossary(sense.objectId);
+}
+
+// =============================================================================
+// Dictionaries
+// =============================================================================
+
+/**
+ * Senses for a word from pack entries in the target language whose word or
+ * lemma matches it, in pack order. Entries repeating a definition already
+ * taken are skipped.
+ */
+export function findDictionarySenses(
+  packs: CorpusPack[],
+  content: string,
+  targetLanguage: string,
+  nativeLanguage: string
+): GlossarySenseInput[] {
+  const key = content.trim().toLowerCase();
+  const target = languageCode(targetLanguage);
+  const l1 = languageCode(nativeLanguage);
+  const senses: GlossarySenseInput[] = [];
+  const seen = new Set<string>();
+
+  for (const pack of packs.filter((p) => languageCode(p.language) === target)) {
+    for (const entry of pack.entries) {
+      if (entry.word.toLowerCase() !== key && entry.lemma.toLowerCase() !== key) {
+        continue;
+      }
+      const translation = entry.translations?.[l1];
+      if (!entry.definition && !translation) {
+        continue;
+      }
+      const signature = `${entry.pos}|${entry.definition ?? ''}|${translation ?? ''}`;
+      if (seen.has(signature)) {
+        continue;
+      }
+      seen.add(signature);
+      senses.push({
+        partOfSpeech: entry.pos === 'unknown' ? null : entry.pos,
+        definition: entry.definition,
+        translation,
+        l1: translation ? l1 : null,
+        examples: entry.examples,
+      });
+    }
+  }
+  return senses.slice(0, GLOSSARY_CONFIG.maxDictionarySenses);
+}
+
+/**
+ * Definition the corpus pipeline stored with the object, as a sense.
+ */
+function storedDefinition(contentJson: string | null): GlossarySenseInput | null {
+  if (!contentJson) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(contentJson) as { pos?: unknown; definition?: unknown };
+    if (typeof parsed.definition !== 'string' || parsed.definition.trim() === '') {
+      return null;
+    }
+    return {
+      partOfSpeech: typeof parsed.pos === 'string' && parsed.pos !== 'unknown' ? parsed.pos : null,
+      definition: parsed.definition,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Import an object's dictionary senses from the installed corpus packs,
+ * falling back to the definition stored with the object. Replaces earlier
+ * dictionary senses.
+ *
+ * @returns The object's senses after the import
+ */
+export async function importGlossaryFromDictionaries(
+  objectId: string
+): Promise<GlossarySenseRecord[]> {
+  const object = await loadObjectLanguages(objectId);
+  const { nativeLanguage, targetLanguage } = object.goal.user;
+
+  let senses = findDictionarySenses(
+    await loadCorpusPacks(),
+    object.content,
+    targetLanguage,
+    nativeLanguage
+  );
+  if (senses.length === 0) {
+    const stored = storedDefinition(object.contentJson);
+    senses = stored ? [stored] : [];
+  }
+  if (senses.length === 0) {
+    return getGlossary(objectId);
+  }
+  return replaceSenses(objectId, 'dictionary', senses);
+}
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+/**
+ * Generate an object's senses with the AI content provider. Replaces
+ * earlier provider senses.
+ *
+ * @throws If no content provider is configured or generation fails
+ */
+export async function generateGlossaryWithProvider(
+  objectId: string
+): Promise<GlossarySenseRecord[]> {
+  const object = await loadObjectLanguages(objectId);
+  const { nativeLanguage, targetLanguage } = object.goal.user;
+
+  const generated = await getClaudeService().generateGlossary({
+    content: object.content,
+    targetLanguage,
+    nativeLanguage,
+    domain: object.goal.domain,
+  });
+  return replaceSenses(
+    objectId,
+    'provider',
+    generated.map((sense) => ({ ...sense, l1: nativeLanguage }))
+  );
+}
+
+// =============================================================================
+// Goals
+// =============================================================================
+
+/**
+ * Fill the glossary of a goal's vocabulary objects that have none yet,
+ * from dictionaries first and optionally the AI provider.
+ */
+export async function fillGlossaryForGoal(
+  goalId: string,
+  options: GlossaryFillOptions = {}
+): Promise<GlossaryFillResult> {
+  const objects = await getPrisma().languageObject.findMany({
+    where: { goalId, type: 'LEX', glossary: { none: {} } },
+    orderBy: { priority: 'desc' },
+    select: { id: true },
+    take: options.limit ?? GLOSSARY_CONFIG.defaultFillLimit,
+  });
+
+  const result: GlossaryFillResult = {
+    missing: objects.length,
+    fromDictionary: 0,
+    fromProvider: 0,
+    unresolved: 0,
+  };
+
+  for (const { id } of objects) {
+    if ((await importGlossaryFromDictionaries(id)).length > 0) {
+      result.fromDictionary++;
+      continue;
+    }
+    if (options.useProvider) {
+      try {
+        await generateGlossaryWithProvider(id);
+        result.fromProvider++;
+        continue;
+      } catch (err) {
+        console.warn(
+          `[Glossary] Generation failed for ${id}:`,
+          err instanceof Error ? err.message : err
+        );
+      }
+    }
+    result.unresolved++;
+  }
+  return result;
+}
@@ -0,0 +1,219 @@
+/**
+ * Grammar Track Service
+ *
+ * Runs the construction catalog as a curriculum track next to vocabulary
+ * with core/grammar/grammar-track.ts.
+ *
+ * - syncGrammarObjects gives every goal one SYNT LanguageObject per
+ *   catalog construction, so constructions are scheduled and mastered
+ *   like any other object. It runs when a goal is created or changed and
+ *   at startup, never on the read paths.
+ * - getGrammarRoadmap reports the roadmap with each construction's status
+ *   and the prerequisites still holding it back.
+ * - planGrammarPractice splits a goal's loaded objects into the track and
+ *   everything else and picks the constructions for a session's grammar
+ *   slots; locked constructions are never scheduled.
+ */
+
+import { getPrisma } from '../db/prisma';
+import {
+  CORE_CONSTRUCTIONS,
+  GRAMMAR_TRACK_CONFIG,
+  getTrackConstruction,
+  buildGrammarRoadmap,
+  grammarSlots,
+  selectGrammarPractice,
+  type ConstructionProgress,
+  type GrammarRoadmapEntry,
+  type GrammarTrackStatus,
+} from '../../core/grammar';
+import type { CEFRLevel } from '../../core/syntactic';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Loaded LanguageObject fields the track needs.
+ */
+export interface GrammarTrackObject {
+  id: string;
+  type: string;
+  content: string;
+  masteryState: { stage: number; nextReview: Date | null } | null;
+}
+
+export interface GrammarPracticePlan {
+  /** Objects that belong to the track and are kept out of the vocabulary queue */
+  trackObjectIds: Set<string>;
+  /** Track objects to practise this session, in roadmap order */
+  practiceObjectIds: string[];
+}
+
+export interface GoalGrammarRoadmap {
+  goalId: string;
+  targetLevel: CEFRLevel;
+  entries: Array<GrammarRoadmapEntry & { objectId: string | null }>;
+  counts: Record<GrammarTrackStatus, number>;
+}
+
+const CEFR_LEVELS: readonly string[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+// =============================================================================
+// Track Objects
+// =============================================================================
+
+/**
+ * Roadmap level for a goal: its benchmark when that is a CEFR level,
+ * otherwise the default.
+ */
+export function grammarTargetLevel(benchmark: string | null | undefined): CEFRLevel {
+  return benchmark && CEFR_LEVELS.includes(benchmark)
+    ? (benchmark as CEFRLevel)
+    : GRAMMAR_TRACK_CONFIG.defaultTargetLevel;
+}
+
+/**
+ * Create the SYNT objects for catalog constructions a goal doesn't have yet.
+ * Returns the number created.
+ */
+export async function syncGrammarObjects(goalId: string): Promise<number> {
+  const db = getPrisma();
+  const constructions = Object.values(CORE_CONSTRUCTIONS);
+
+  const existing = await db.languageObject.findMany({
+    where: { goalId, content: { in: constructions.map((c) => c.name) } },
+    select: { content: true },
+  });
+  const have = new Set(existing.map((o) => o.content));
+  const missing = constructions.filter((c) => !have.has(c.name));
+  if (missing.length === 0) {
+    return 0;
+  }
+
+  const created = await db.languageObject.createMany({
+    data: missing.map((c) => ({
+      goalId,
+      type: 'SYNT',
+      content: c.name,
+      contentJson: JSON.stringify({
+        constructionId: c.id,
+        pattern: c.pattern,
+        category: c.category,
+        cefrLevel: c.cefrLevel,
+        examples: c.examples,
+        prerequisites: c.prerequisites,
+      }),
+      frequency: c.frequency,
+      relationalDensity: 0.5,
+      contextualContribution: 0.5,
+      syntacticComplexity: c.complexity,
+      irtDifficulty: GRAMMAR_TRACK_CONFIG.cefrDifficulty[c.cefrLevel],
+      priority: c.frequency,
+    })),
+  });
+
+  return created.count;
+}
+
+/**
+ * Sync the track objects of every goal, for goals created before the track.
+ * Returns the number created.
+ */
+export async function syncAllGrammarObjects(): Promise<number> {
+  const goals = await getPrisma().goalSpec.findMany({ select: { id: true } });
+  let created = 0;
+  for (const goal of goals) {
+    created += await syncGrammarObjects(goal.id);
+  }
+  return created;
+}
+
+function progressOf(objects: GrammarTrackObject[]): {
+  progress: Map<string, ConstructionProgress>;
+  objectIds: Map<string, string>;
+} {
+  const progress = new Map<string, ConstructionProgress>();
+  const objectIds = new Map<string, string>();
+
+  for (const obj of objects) {
+    const construction = getTrackConstruction(obj.type, obj.content);
+    if (!construction) {
+      continue;
+    }
+    objectIds.set(construction.id, obj.id);
+    progress.set(construction.id, {
+      stage: obj.masteryState?.stage ?? 0,
+      nextReview: obj.masteryState?.nextReview ?? null,
+    });
+  }
+
+  return { progress, objectIds };
+}
+
+// =============================================================================
+// Roadmap
+// =============================================================================
+
+/**
+ * A goal's grammar roadmap. The target level defaults to the goal's benchmark.
+ */
+export async function getGrammarRoadmap(
+  goalId: string,
+  level?: CEFRLevel
+): Promise<GoalGrammarRoadmap> {
+  const db = getPrisma();
+
+  const goal = await db.goalSpec.findUnique({ where: { id: goalId }, select: { benchmark: true } });
+  if (!goal) {
+    throw new Error('Goal not found');
+  }
+  const targetLevel = level ?? grammarTargetLevel(goal.benchmark);
+
+  const objects = await db.languageObject.findMany({
+    where: { goalId, type: 'SYNT' },
+    select: {
+      id: true,
+      type: true,
+      content: true,
+      masteryState: { select: { stage: true, nextReview: true } },
+    },
+  });
+  const { progress, objectIds } = progressOf(objects);
+
+  const entries = buildGrammarRoadmap(progress, targetLevel).map((entry) => ({
+    ...entry,
+    objectId: objectIds.get(entry.constructionId) ?? null,
+  }));
+  const counts: Record<GrammarTrackStatus, number> = { mastered: 0, practising: 0, available: 0, locked: 0 };
+  for (const entry of entries) {
+    counts[entry.status]++;
+  }
+
+  return { goalId, targetLevel, entries, counts };
+}
+
+// =============================================================================
+// Session Scheduling
+// =============================================================================
+
+/**
+ * Split a goal's loaded objects into the grammar track and the rest, and
+ * pick the track objects for a session's grammar slots.
+ */
+export function planGrammarPractice(
+  objects: GrammarTrackObject[],
+  sessionSize: number,
+  now: Date = new Date(),
+  targetLevel: CEFRLevel = GRAMMAR_TRACK_CONFIG.defaultTargetLevel
+): GrammarPracticePlan {
+  const { progress, objectIds } = progressOf(objects);
+  // Only constructions with an object can be scheduled
+  const roadmap = buildGrammarRoadmap(progress, targetLevel).filter((e) => objectIds.has(e.constructionId));
+  const picked = selectGrammarPractice(roadmap, grammarSlots(sessionSize), now);
+
+  return {
+    trackObjectIds: new Set(objectIds.values()),
+    practiceObjectIds: picked.flatMap((id) => objectIds.get(id) ?? []),
+  };
+}
@@ -40,6 +40,7 @@ export {
   type TaskModality,
   type TaskSpec,
   type GeneratedTask,
+  type IssuedTask,
   type TaskGenerationConfig,
   // Functions
   selectTaskFormat,
@@ -52,6 +53,10 @@ export {
   getCachedTask,
   cacheTask,
   getOrGenerateTask,
+  issueTask,
+  getIssuedTask,
+  gradeTaskResponse,
+  generateConstructionTask,
   // Claude-enhanced
   generateTaskWithClaude,
   getOrGenerateTaskWithClaude,
@@ -147,6 +152,7 @@ export {
   type PopulationResult,
   type CorpusDocument,
   type ExtractionResult,
+  type UploadExtractionResult,
   // Functions
   populateVocabularyForGoal,
   processUserUploads,
@@ -154,6 +160,50 @@ export {
   clearVocabulary,
 } from './corpus-sources/corpus-pipeline.service';
 
+// Document Ingestion Service (PDF, DOCX, EPUB, subtitles, HTML)
+export {
+  // Types
+  type DocumentFormat,
+  type ExtractionQuality,
+  type UploadedDocument,
+  type DocumentSegment,
+  type DocumentExtractionReport,
+  type IngestedDocument,
+  // Constants
+  INGESTION_CONFIG,
+  // Functions
+  detectDocumentFormat,
+  assessExtractionQuality,
+  ingestDocument,
+} from './corpus-sources/document-ingestion.service';
+
+// Corpus Pack Service (offline frequency lists and dictionaries)
+export {
+  // Types
+  type CorpusPackEntry,
+  type CorpusPack,
+  type LoadedCorpusPack,
+  type CorpusPackInfo,
+  type CorpusPackDirectories,
+  // Constants
+  CORPUS_PACK_FORMAT,
+  CORPUS_PACK_VERSION,
+  CORPUS_PACK_CONFIG,
+  // Functions
+  normalizePos,
+  parseCorpusPack,
+  configureCorpusPacks,
+  loadCorpusPacks,
+  listCorpusPacks,
+  installCorpusPack,
+  removeCorpusPack,
+  getPacksForSource,
+  extractVocabularyFromPacks,
+} from './corpus-sources/corpus-pack.service';
+
+// Corpus Store Service (persisted dynamic corpus API responses)
+export { prismaCorpusStore, connectDynamicCorpus } from './corpus-sources/corpus-store.service';
+
 // Offline Queue Service
 export {
   // Types
@@ -176,15 +226,38 @@ export {
   type ContentRequest,
   type ErrorAnalysisRequest,
   type HintRequest,
+  type GlossaryRequest,
+  type GeneratedSense,
   type GeneratedContent,
   type ErrorAnalysis,
   type Hint,
   type ServiceStatus,
   // Functions
   getClaudeService,
+  configureClaudeService,
   ClaudeService,
 } from './claude.service';
 
+// LLM Providers
+export {
+  // Types
+  type CompletionRequest,
+  type CompletionResult,
+  type LLMProvider,
+} from './llm-providers/types';
+export { AnthropicProvider, DEFAULT_ANTHROPIC_MODEL } from './llm-providers/anthropic';
+export { OpenAICompatibleProvider } from './llm-providers/openai-compatible';
+export {
+  // Types
+  type CapabilityProviders,
+  type ProviderEnvironment,
+  // Functions
+  createProvider,
+  createCapabilityProviders,
+  AI_CAPABILITIES,
+  DEFAULT_AI_PROVIDERS,
+} from './llm-providers/registry';
+
 // Agent Trigger Service
 export {
   // Types
@@ -208,3 +281,345 @@ export {
   type HookContext,
   type HookResult,
 } from './agent-hooks.service';
+
+// Data Archive Service (export / import / backup)
+export {
+  // Types
+  type ArchiveTable,
+  type ArchiveData,
+  type LogosArchive,
+  type ExportOptions,
+  type ImportOptions,
+  type ImportResult,
+  // Constants
+  ARCHIVE_FORMAT,
+  ARCHIVE_SCHEMA_VERSION,
+  ARCHIVE_TABLES,
+  // Functions
+  buildArchive,
+  createArchive,
+  validateArchive,
+  remapArchiveIds,
+  importArchive,
+  exportArchiveToFile,
+  importArchiveFromFile,
+  createArchiveBackup,
+} from './data-archive.service';
+
+// Database Backup Service (SQLite snapshots, rotation, scheduler)
+export {
+  // Types
+  type BackupReason,
+  type DatabaseBackup,
+  type BackupOptions,
+  type RestoreOptions,
+  type RestoreResult,
+  type BackupSchedulerOptions,
+  // Constants
+  BACKUP_CONFIG,
+  // Functions
+  resolveDatabasePath,
+  createDatabaseBackup,
+  listDatabaseBackups,
+  restoreDatabaseBackup,
+  backupBeforePendingMigrations,
+  runScheduledBackup,
+  startBackupScheduler,
+  stopBackupScheduler,
+} from './database-backup.service';
+
+// Deck Import Service (Anki .apkg / CSV / TSV)
+export {
+  // Types
+  type DeckFormat,
+  type DeckImportOptions,
+  type DeckImportResult,
+  // Functions
+  detectDeckFormat,
+  readAnkiPackage,
+  readDeckFile,
+  importDeck,
+} from './deck-import.service';
+
+// FSRS Optimizer Service (per-user weights)
+export {
+  // Types
+  type UserFSRSParameters,
+  type CalibrationSummary,
+  type UserOptimizationResult,
+  // Constants
+  FSRS_OPTIMIZER_CONFIG,
+  // Functions
+  getUserFSRS,
+  clearFSRSCache,
+  getUserFSRSParameters,
+  resetUserFSRSParameters,
+  loadReviewSequences,
+  optimizeUserFSRS,
+  maybeOptimizeUserFSRS,
+} from './fsrs-optimizer.service';
+
+// Milestone Service (detection, persistence, history)
+export {
+  // Types
+  type StageChange,
+  type MilestoneCheckContext,
+  type StoredMilestoneEvent,
+  type MilestoneHistoryOptions,
+  type MilestoneHistory,
+  // Constants
+  MILESTONE_SERVICE_CONFIG,
+  // Functions
+  clearMilestoneCache,
+  computeStreakDays,
+  buildProgressState,
+  rewindStageChange,
+  checkMilestones,
+  getMilestoneHistory,
+  acknowledgeMilestones,
+} from './milestone.service';
+
+// Threshold Experiment Service (A/B tests of stage thresholds)
+export {
+  // Types
+  type ExperimentMetric,
+  type ExperimentGroupDefinition,
+  type CreateExperimentInput,
+  type ThresholdExperimentRecord,
+  type UserThresholdConfig,
+  type ExperimentGroupResult,
+  type ExperimentResults,
+  // Functions
+  customConfigId,
+  loadExperiments,
+  clearExperimentCache,
+  createExperiment,
+  listExperiments,
+  endExperiment,
+  getThresholdConfigForUser,
+  getExperimentResults,
+} from './threshold-experiment.service';
+
+// Study Planner Service (multi-goal allocation and interleaved sessions)
+export {
+  // Types
+  type StudyPlanInput,
+  type SyncedGoal,
+  type GoalAllocation,
+  type FrontierPoint,
+  type StudyPlan,
+  type InterleavedQueueOptions,
+  type InterleavedQueueItem,
+  type InterleavedQueue,
+  // Constants
+  STUDY_PLANNER_CONFIG,
+  // Functions
+  getWeekStart,
+  syncCurriculumGoals,
+  createStudyPlan,
+  getStudyPlan,
+  buildInterleavedQueue,
+  recordSessionTime,
+} from './study-planner.service';
+
+// Speech Scoring Service (recorded attempts scored against G2P expectations)
+export {
+  // Types
+  type SpeechAttempt,
+  type SpeechScoreResult,
+  // Functions
+  createPhonemeRecognizer,
+  getPhonemeRecognizer,
+  setPhonemeRecognizer,
+  loadG2PThetaProfile,
+  scoreSpeechAttempt,
+} from './speech-scoring.service';
+
+// Speech Recognizers
+export {
+  // Types
+  type RecognitionRequest,
+  type RecognitionResult,
+  type PhonemeRecognizer,
+} from './speech-recognizers/types';
+export { CommandPhonemeRecognizer } from './speech-recognizers/command';
+export { StubPhonemeRecognizer } from './speech-recognizers/stub';
+
+// Grammar Track Service (construction curriculum alongside vocabulary)
+export {
+  // Types
+  type GrammarTrackObject,
+  type GrammarPracticePlan,
+  type GoalGrammarRoadmap,
+  // Functions
+  syncGrammarObjects,
+  syncAllGrammarObjects,
+  grammarTargetLevel,
+  getGrammarRoadmap,
+  planGrammarPractice,
+} from './grammar-track.service';
+
+// Distractor Service (MCQ distractors and their attractiveness)
+export {
+  // Types
+  type MCQOptionSet,
+  type DistractorPick,
+  type DistractorSummary,
+  type DistractorAnalytics,
+  // Functions
+  buildMCQOptions,
+  recordDistractorOutcome,
+  recordDistractorError,
+  getDistractorAnalytics,
+} from './distractor.service';
+
+// Intent Planning Service (pedagogical intent per task and its calibration)
+export {
+  // Types
+  type IntentPlan,
+  type TaskIntent,
+  type GoalIntentCalibration,
+  // Functions
+  planTaskIntent,
+  intentGenerationConfig,
+  toTaskIntent,
+  getIntentCalibration,
+} from './intent-planning.service';
+
+// Word Explorer Service (faceted object search, details and item actions)
+export {
+  // Types
+  type ObjectStatus,
+  type DueWindow,
+  type DifficultyBand,
+  type ExplorerSort,
+  type ExplorerAction,
+  type ExplorerQuery,
+  type ExplorerItem,
+  type ExplorerFacets,
+  type ExplorerSearchResult,
+  type ExplorerObjectDetail,
+  type ExplorerEdit,
+  // Constants
+  WORD_EXPLORER_CONFIG,
+  // Functions
+  difficultyBand,
+  objectStatus,
+  searchGoalObjects,
+  getObjectDetail,
+  applyObjectAction,
+  editObject,
+} from './word-explorer.service';
+
+// Word Network Service (object neighborhoods and cluster sessions)
+export {
+  // Types
+  type WordRelation,
+  type WordGraphNode,
+  type WordGraphEdge,
+  type WordNeighborhood,
+  type NeighborhoodOptions,
+  type ClusterQueue,
+  // Constants
+  WORD_NETWORK_CONFIG,
+  // Functions
+  getObjectNeighborhood,
+  getClusterQueue,
+} from './word-network.service';
+
+// Automatization Service (response-time profiles and speed rounds)
+export {
+  // Types
+  type AutomatizationSummary,
+  type AutomatizationDetail,
+  type SpeedDeadlinePolicy,
+  type SpeedRoundItem,
+  type SpeedRound,
+  // Constants
+  AUTOMATIZATION_CONFIG,
+  // Functions
+  refreshAutomatizationProfile,
+  getAutomatizationDetail,
+  buildSpeedRound,
+} from './automatization.service';
+
+// User Object Graph Service (encounter ledger and exposure balance)
+export {
+  // Types
+  type EncounterModality,
+  type EncounterInput,
+  type ExposureFindingKind,
+  type ExposureFinding,
+  type EncounterSummary,
+  type ObjectExposure,
+  // Constants
+  USER_OBJECT_GRAPH_CONFIG,
+  // Functions
+  encounterCategory,
+  normalizeModality,
+  trainedModalities,
+  recordEncounter,
+  getObjectExposure,
+  getPreferredModality,
+  applyExposureBias,
+} from './user-object-graph.service';
+
+// Mastery Propagation Service (progress carried over to word families and collocates)
+export {
+  // Types
+  type PropagationSource,
+  type PropagatedUpdate,
+  type PropagationSummary,
+  type PropagationLogEntry,
+  type GoalPropagationLog,
+  // Constants
+  PROPAGATION_CONFIG,
+  // Functions
+  familyStrength,
+  propagateFromResponse,
+  getPropagationLog,
+  setPropagationEnabled,
+} from './mastery-propagation.service';
+
+// Context Bank Service (authentic sentences from uploaded documents)
+export {
+  // Types
+  type BankSentence,
+  type ContextBankSummary,
+  type ContextCandidate,
+  type ContextSentenceMatch,
+  // Constants
+  CONTEXT_BANK_CONFIG,
+  // Functions
+  segmentSentences,
+  storeContextSentences,
+  rankContextSentences,
+  selectContextSentence,
+  toCloze,
+} from './context-bank.service';
+
+// Glossary Service (bilingual senses of language objects)
+export {
+  // Types
+  type GlossarySource,
+  type GlossarySenseInput,
+  type GlossarySenseRecord,
+  type Gloss,
+  type GlossaryFillOptions,
+  type GlossaryFillResult,
+  // Constants
+  GLOSSARY_CONFIG,
+  // Functions
+  languageCode,
+  getGlossary,
+  primaryGloss,
+  getGloss,
+  addGlossarySense,
+  updateGlossarySense,
+  makePrimarySense,
+  deleteGlossarySense,
+  findDictionarySenses,
+  importGlossaryFromDictionaries,
+  generateGlossaryWithProvider,
+  fillGlossaryForGoal,
+} from './glossary.service';
@@ -0,0 +1,271 @@
+/**
+ * Intent Planning Service
+ *
+ * Decides how the next item is practised. An intent is chosen with
+ * core/content/intent-targeting.ts so the predicted success lands near the
+ * learner's target rate, a task type is picked for the intent and stage,
+ * and TaskConstraintSolver chooses companion objects from the goal that
+ * fit the task.
+ *
+ * Issued tasks carry the plan, so each response logs the intent and the
+ * predicted success, and getIntentCalibration compares the two.
+ */
+
+import { getPrisma } from '../db/prisma';
+import {
+  PEDAGOGICAL_INTENTS,
+  INTENT_TARGETING_CONFIG,
+  companionDifficulty,
+  getScaffoldingLevel,
+  selectIntentForTarget,
+  summarizeIntentCalibration,
+  type IntentCalibration,
+  type IntentChoice,
+  type PedagogicalIntent,
+} from '../../core/content';
+import {
+  TaskConstraintSolver,
+  selectOptimalTaskType,
+  type TraditionalTaskType,
+} from '../../core/tasks';
+import type {
+  ComponentType,
+  LanguageObject,
+  LanguageObjectType,
+  MasteryStage,
+} from '../../core/types';
+import type { TaskGenerationConfig } from './task-generation.service';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How an item will be practised.
+ */
+export interface IntentPlan extends IntentChoice {
+  /** Traditional task type suited to the intent and stage */
+  taskType: TraditionalTaskType;
+  /** Objects picked to accompany the item, best fit first */
+  companions: Array<{ objectId: string; content: string }>;
+}
+
+/**
+ * The plan fields stored on an issued task.
+ */
+export interface TaskIntent {
+  intent: PedagogicalIntent;
+  expectedSuccess: number;
+  targetSuccess: number;
+  companionObjectIds: string[];
+}
+
+export interface GoalIntentCalibration extends IntentCalibration {
+  goalId: string;
+}
+
+/** Companion objects chosen per task */
+const COMPANION_COUNT = 3;
+
+/** Goal objects considered as companions */
+const COMPANION_CANDIDATES = 200;
+
+/** Responses read for calibration, most recent first */
+const CALIBRATION_WINDOW = 2000;
+
+/** User theta field for each object type */
+const THETA_FIELD: Record<LanguageObjectType, ThetaField> = {
+  LEX: 'thetaLexical',
+  MWE: 'thetaLexical',
+  TERM: 'thetaLexical',
+  MORPH: 'thetaMorphology',
+  G2P: 'thetaPhonology',
+  SYNT: 'thetaSyntactic',
+  PRAG: 'thetaPragmatic',
+};
+
+/** Component a task for each object type exercises */
+const OBJECT_COMPONENT: Record<LanguageObjectType, ComponentType> = {
+  LEX: 'lexical',
+  MWE: 'lexical',
+  TERM: 'lexical',
+  MORPH: 'morphological',
+  G2P: 'phonological',
+  SYNT: 'syntactic',
+  PRAG: 'pragmatic',
+};
+
+type ThetaField =
+  | 'thetaLexical'
+  | 'thetaMorphology'
+  | 'thetaPhonology'
+  | 'thetaSyntactic'
+  | 'thetaPragmatic';
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+function toSolverObject(row: {
+  id: string;
+  type: string;
+  content: string;
+  goalId: string;
+  frequency: number;
+  relationalDensity: number;
+  contextualContribution: number;
+  priority: number;
+  irtDifficulty: number;
+  irtDiscrimination: number;
+  morphologicalScore: number | null;
+  phonologicalDifficulty: number | null;
+}): LanguageObject {
+  return {
+    id: row.id,
+    type: row.type as LanguageObjectType,
+    content: row.content,
+    goalId: row.goalId,
+    fre: {
+      frequency: row.frequency,
+      relationalDensity: row.relationalDensity,
+      contextualContribution: row.contextualContribution,
+    },
+    priority: row.priority,
+    irtDifficulty: row.irtDifficulty,
+    irtDiscrimination: row.irtDiscrimination,
+    frequency: row.frequency,
+    morphologicalScore: row.morphologicalScore ?? undefined,
+    phonologicalDifficulty: row.phonologicalDifficulty ?? undefined,
+  };
+}
+
+/**
+ * Plan the next task for an object in a session.
+ *
+ * @param targetSuccess - Success rate to aim for (0-1)
+ * @returns The plan, or null if the object does not exist
+ */
+export async function planTaskIntent(
+  sessionId: string,
+  objectId: string,
+  targetSuccess: number = INTENT_TARGETING_CONFIG.defaultTargetSuccess
+): Promise<IntentPlan | null> {
+  const db = getPrisma();
+
+  const object = await db.languageObject.findUnique({
+    where: { id: objectId },
+    include: { masteryState: true, goal: { select: { user: true } } },
+  });
+  if (!object) {
+    return null;
+  }
+
+  const type = (THETA_FIELD[object.type as LanguageObjectType] ? object.type : 'LEX') as LanguageObjectType;
+  const theta = object.goal.user[THETA_FIELD[type]];
+  const mastery = object.masteryState;
+  const stage = (mastery?.stage ?? 0) as MasteryStage;
+
+  const recent = await db.response.findMany({
+    where: { sessionId, intent: { not: null } },
+    orderBy: { createdAt: 'desc' },
+    take: INTENT_TARGETING_CONFIG.recentWindow,
+    select: { intent: true },
+  });
+
+  const choice = selectIntentForTarget({
+    masteryStage: stage,
+    theta,
+    difficulty: object.irtDifficulty,
+    targetSuccess,
+    scaffoldingGap: mastery ? mastery.cueAssistedAccuracy - mastery.cueFreeAccuracy : 0,
+    recentIntents: recent.reverse().map((r) => r.intent as PedagogicalIntent),
+  });
+  const taskType = selectOptimalTaskType(stage, OBJECT_COMPONENT[type], choice.intent);
+
+  const candidates = await db.languageObject.findMany({
+    where: { goalId: object.goalId, type: object.type, id: { not: objectId } },
+    include: { masteryState: { select: { stage: true, nextReview: true } } },
+    orderBy: { priority: 'desc' },
+    take: COMPANION_CANDIDATES,
+  });
+
+  const masteryStates = new Map<string, { stage: MasteryStage; nextReview?: Date }>();
+  for (const c of candidates) {
+    if (c.masteryState) {
+      masteryStates.set(c.id, {
+        stage: c.masteryState.stage as MasteryStage,
+        nextReview: c.masteryState.nextReview ?? undefined,
+      });
+    }
+  }
+
+  const { selected } = new TaskConstraintSolver().solve(
+    candidates.map(toSolverObject),
+    {
+      taskType,
+      intent: choice.intent,
+      difficulty: companionDifficulty(choice.targetSuccess, theta),
+      excludeIds: [objectId],
+      maxObjects: COMPANION_COUNT,
+      preferDue: true,
+    },
+    masteryStates
+  );
+
+  return {
+    ...choice,
+    taskType,
+    companions: selected.map((s) => ({ objectId: s.object.id, content: s.object.content })),
+  };
+}
+
+/**
+ * Generation settings that carry out a plan: scaffolding up to the
+ * intent's level, and fluency tasks for time-pressured intents.
+ */
+export function intentGenerationConfig(plan: IntentChoice): TaskGenerationConfig {
+  return {
+    maxCueLevel: getScaffoldingLevel(plan.intent),
+    fluencyRatio: PEDAGOGICAL_INTENTS[plan.intent].timePressure ? 1 : 0.3,
+  };
+}
+
+/**
+ * The plan fields stored on an issued task.
+ */
+export function toTaskIntent(plan: IntentPlan): TaskIntent {
+  return {
+    intent: plan.intent,
+    expectedSuccess: plan.expectedSuccess,
+    targetSuccess: plan.targetSuccess,
+    companionObjectIds: plan.companions.map((c) => c.objectId),
+  };
+}
+
+// =============================================================================
+// Calibration
+// =============================================================================
+
+/**
+ * Compare the success predicted when tasks were issued with the outcomes
+ * of a goal's responses.
+ */
+export async function getIntentCalibration(goalId: string): Promise<GoalIntentCalibration> {
+  const responses = await getPrisma().response.findMany({
+    where: { object: { goalId }, intent: { not: null }, predictedSuccess: { not: null } },
+    orderBy: { createdAt: 'desc' },
+    take: CALIBRATION_WINDOW,
+    select: { intent: true, predictedSuccess: true, correct: true },
+  });
+
+  return {
+    goalId,
+    ...summarizeIntentCalibration(
+      responses.map((r) => ({
+        intent: r.intent ?? '',
+        predictedSuccess: r.predictedSuccess ?? 0,
+        correct: r.correct,
+      }))
+    ),
+  };
+}
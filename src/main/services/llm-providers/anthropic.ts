@@ -0,0 +1,66 @@
+/**
+ * Anthropic Provider
+ *
+ * Sends prompts to the Anthropic Messages API through the official SDK.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { CompletionRequest, CompletionResult, LLMProvider } from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-20250514';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AnthropicProviderConfig {
+  apiKey: string;
+  model?: string;
+}
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+export class AnthropicProvider implements LLMProvider {
+  readonly kind = 'anthropic' as const;
+  readonly model: string;
+  private client: Anthropic;
+
+  constructor(config: AnthropicProviderConfig) {
+    this.client = new Anthropic({ apiKey: config.apiKey });
+    this.model = config.model || DEFAULT_ANTHROPIC_MODEL;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      ...(request.system ? { system: request.system } : {}),
+      messages: [{ role: 'user', content: request.prompt }],
+    });
+
+    const textContent = response.content.find((c) => c.type === 'text');
+    if (!textContent || textContent.type !== 'text') {
+      throw new Error('No text content in response');
+    }
+
+    return {
+      text: textContent.text,
+      model: this.model,
+      outputTokens: response.usage.output_tokens,
+    };
+  }
+
+  async ping(): Promise<void> {
+    await this.client.messages.create({
+      model: this.model,
+      max_tokens: 1,
+      messages: [{ role: 'user', content: 'ping' }],
+    });
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Sends prompts to any server implementing the OpenAI chat completions
+ * API (llama.cpp server, vLLM, Ollama, LM Studio, ...). Intended for local
+ * or on-premises model servers so learner text stays inside the network.
+ */
+
+import type { CompletionRequest, CompletionResult, LLMProvider } from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/** How much of an error body to include in the thrown message */
+const MAX_ERROR_BODY = 200;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface OpenAICompatibleProviderConfig {
+  /** Base URL including the API version, e.g. http://localhost:8080/v1 */
+  baseUrl: string;
+  model: string;
+  /** Sent as a bearer token when set */
+  apiKey?: string;
+  timeoutMs?: number;
+  /** Injectable for testing */
+  fetch?: typeof fetch;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: unknown } }>;
+  usage?: { completion_tokens?: number };
+}
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly kind = 'openai-compatible' as const;
+  readonly model: string;
+  private endpoint: string;
+  private apiKey: string | undefined;
+  private timeoutMs: number;
+  private fetchFn: typeof fetch;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.fetchFn = config.fetch ?? fetch;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const data = await this.post(request);
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || text.length === 0) {
+      throw new Error('No text content in response');
+    }
+
+    return {
+      text,
+      model: data.model ?? this.model,
+      outputTokens: data.usage?.completion_tokens,
+    };
+  }
+
+  async ping(): Promise<void> {
+    // A one-token reply may be empty, so only the round trip is checked
+    await this.post({ prompt: 'ping', maxTokens: 1 });
+  }
+
+  private async post(request: CompletionRequest): Promise<ChatCompletionResponse> {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+
+    const response = await this.fetchFn(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens,
+        messages,
+        stream: false,
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(
+        `Model server returned ${response.status}${body ? `: ${body.slice(0, MAX_ERROR_BODY)}` : ''}`
+      );
+    }
+
+    return (await response.json()) as ChatCompletionResponse;
+  }
+}
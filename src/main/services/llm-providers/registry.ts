@@ -0,0 +1,102 @@
+/**
+ * LLM Provider Registry
+ *
+ * Builds providers from the per-capability AI settings. Capabilities with
+ * identical settings share one provider instance so status checks ping each
+ * backend only once.
+ */
+
+import type {
+  AICapability,
+  AIProviderSettings,
+  AIProviderSettingsMap,
+} from '../../../core/types';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import type { LLMProvider } from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const AI_CAPABILITIES: readonly AICapability[] = ['content', 'errorAnalysis', 'hints'];
+
+export const DEFAULT_AI_PROVIDERS: AIProviderSettingsMap = {
+  content: { kind: 'anthropic' },
+  errorAnalysis: { kind: 'anthropic' },
+  hints: { kind: 'anthropic' },
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Provider per capability; null means offline templates only */
+export type CapabilityProviders = Record<AICapability, LLMProvider | null>;
+
+export interface ProviderEnvironment {
+  /** Used when Anthropic settings carry no key (defaults to ANTHROPIC_API_KEY) */
+  anthropicApiKey?: string;
+  /** Injectable for testing */
+  fetch?: typeof fetch;
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Create the provider for one capability's settings.
+ * Returns null for 'offline' and for Anthropic without any API key.
+ */
+export function createProvider(
+  settings: AIProviderSettings,
+  env: ProviderEnvironment = {}
+): LLMProvider | null {
+  switch (settings.kind) {
+    case 'anthropic': {
+      const apiKey = settings.apiKey || env.anthropicApiKey || process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        return null;
+      }
+      return new AnthropicProvider({ apiKey, model: settings.model });
+    }
+
+    case 'openai-compatible':
+      if (!settings.baseUrl || !settings.model) {
+        throw new Error('openai-compatible providers need a baseUrl and a model');
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: settings.baseUrl,
+        model: settings.model,
+        apiKey: settings.apiKey,
+        fetch: env.fetch,
+      });
+
+    case 'offline':
+      return null;
+  }
+}
+
+/**
+ * Create providers for every capability, sharing instances between
+ * capabilities with identical settings.
+ */
+export function createCapabilityProviders(
+  settings: AIProviderSettingsMap,
+  env: ProviderEnvironment = {}
+): CapabilityProviders {
+  const byConfig = new Map<string, LLMProvider | null>();
+  const providers = {} as CapabilityProviders;
+
+  for (const capability of AI_CAPABILITIES) {
+    const config = settings[capability];
+    const key = JSON.stringify([config.kind, config.baseUrl, config.model, config.apiKey]);
+    if (!byConfig.has(key)) {
+      byConfig.set(key, createProvider(config, env));
+    }
+    providers[capability] = byConfig.get(key) ?? null;
+  }
+
+  return providers;
+}
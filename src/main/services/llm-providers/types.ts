@@ -0,0 +1,44 @@
+/**
+ * LLM Provider Types
+ *
+ * Common interface for the model backends behind content generation,
+ * error analysis, and hints. Prompts are built by the Claude service;
+ * a provider only turns a system/user prompt pair into text.
+ */
+
+import type { AIProviderKind } from '../../../core/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CompletionRequest {
+  system?: string;
+  prompt: string;
+  maxTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  model: string;
+  outputTokens?: number;
+}
+
+export interface LLMProvider {
+  /** Backend kind, reported in generated content metadata */
+  readonly kind: Exclude<AIProviderKind, 'offline'>;
+
+  /** Model that answers requests */
+  readonly model: string;
+
+  /**
+   * Complete a single-turn prompt.
+   * Throws on transport errors and empty responses.
+   */
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+
+  /**
+   * Minimal request to verify the backend is reachable.
+   */
+  ping(): Promise<void>;
+}
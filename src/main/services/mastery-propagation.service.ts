@@ -0,0 +1,420 @@
+/**
+ * Mastery Propagation Service
+ *
+ * Carries part of the progress on an answered object over to its
+ * morphological family (regulate → regulation, regulatory) and its PMI
+ * collocates, using core/indirect-update.ts for the ripple magnitudes and
+ * core/transfer-prediction.ts for the relations.
+ *
+ * A correct answer makes each neighbour a little easier (IRT difficulty)
+ * and, if it is already being studied, a little more stable (FSRS
+ * stability). Every change is capped per step and in total, and written to
+ * PropagationLog so it can be audited or traced back to its response.
+ * Goals can switch propagation off (GoalSpec.propagationEnabled).
+ */
+
+import { getPrisma } from '../db/prisma';
+import {
+  propagateUpdate,
+  DEFAULT_PROPAGATION_CONFIG,
+  type ObjectPropagationState,
+  type ObjectUpdateEvent,
+} from '../../core/indirect-update';
+import {
+  createTransferRelation,
+  type TransferRelation,
+  type TransferType,
+} from '../../core/transfer-prediction';
+import type { ComponentType, MasteryStage } from '../../core/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PropagationSource {
+  objectId: string;
+  previousStage: MasteryStage;
+  newStage: MasteryStage;
+  correct: boolean;
+  responseTimeMs: number;
+  responseId?: string;
+}
+
+export interface PropagatedUpdate {
+  targetObjectId: string;
+  relationType: TransferType;
+  magnitude: number;
+  difficultyBefore: number;
+  difficultyDelta: number;
+  stabilityBefore: number | null;
+  stabilityDelta: number;
+}
+
+export interface PropagationSummary {
+  sourceObjectId: string;
+  enabled: boolean;
+  updates: PropagatedUpdate[];
+}
+
+export interface PropagationLogEntry {
+  id: string;
+  createdAt: Date;
+  sourceObjectId: string;
+  sourceContent: string;
+  targetObjectId: string;
+  targetContent: string;
+  relationType: TransferType;
+  magnitude: number;
+  difficultyDelta: number;
+  stabilityDelta: number;
+}
+
+export interface GoalPropagationLog {
+  goalId: string;
+  enabled: boolean;
+  entries: PropagationLogEntry[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const PROPAGATION_CONFIG = {
+  /** Neighbours read per relation type */
+  neighbourLimit: 12,
+  /** Family members share a stem of at least this many characters... */
+  minStemLength: 5,
+  /** ...covering at least this share of the longer word */
+  minStemShare: 0.6,
+  /** Co-occurrences at which a collocation is fully trusted */
+  confidentCooccurrence: 10,
+  /** Largest difficulty drop from one update (logits) */
+  maxDifficultyStep: 0.25,
+  /** Largest total drop a neighbour can receive through propagation */
+  maxDifficultyDrop: 1.0,
+  /** Difficulty floor of the IRT scale */
+  minDifficulty: -3,
+  /** Largest stability boost from one update (days) */
+  maxStabilityStep: 2,
+  /** Largest total boost a neighbour can receive through propagation */
+  maxStabilityBoost: 10,
+  /** Changes smaller than this are not applied */
+  minChange: 0.001,
+  logLimit: 20,
+};
+
+const NEIGHBOUR_SELECT = {
+  id: true,
+  content: true,
+  type: true,
+  priority: true,
+  irtDifficulty: true,
+  masteryState: { select: { stage: true, fsrsStability: true } },
+};
+
+type NeighbourRow = {
+  id: string;
+  content: string;
+  type: string;
+  priority: number;
+  irtDifficulty: number;
+  masteryState: { stage: number; fsrsStability: number } | null;
+};
+
+// =============================================================================
+// Relations
+// =============================================================================
+
+function sharedStemLength(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Share of the longer word covered by the stem two words share, or 0 if
+ * they are not of one family.
+ */
+export function familyStrength(a: string, b: string): number {
+  const [x, y] = [a.toLowerCase().trim(), b.toLowerCase().trim()];
+  if (x === y || x.includes(' ') || y.includes(' ')) {
+    return 0;
+  }
+  const stem = sharedStemLength(x, y);
+  const share = stem / Math.max(x.length, y.length);
+  return stem >= PROPAGATION_CONFIG.minStemLength && share >= PROPAGATION_CONFIG.minStemShare
+    ? share
+    : 0;
+}
+
+function toState(row: NeighbourRow, now: Date): ObjectPropagationState {
+  return {
+    objectId: row.id,
+    masteryStage: (row.masteryState?.stage ?? 0) as MasteryStage,
+    difficulty: row.irtDifficulty,
+    stability: row.masteryState?.fsrsStability ?? 0,
+    priority: row.priority,
+    component: (row.type === 'G2P' ? 'PHON' : row.type) as ComponentType,
+    lastUpdated: now.getTime(),
+  };
+}
+
+/**
+ * Family members and collocates of an object, as transfer relations.
+ */
+async function loadNeighbours(
+  source: NeighbourRow,
+  goalId: string
+): Promise<{ relations: TransferRelation[]; rows: NeighbourRow[] }> {
+  const db = getPrisma();
+  const { neighbourLimit, minStemLength, confidentCooccurrence } = PROPAGATION_CONFIG;
+  const relations: TransferRelation[] = [];
+  const rows = new Map<string, NeighbourRow>();
+
+  if (source.content.length >= minStemLength) {
+    const candidates = await db.languageObject.findMany({
+      where: {
+        goalId,
+        id: { not: source.id },
+        content: { startsWith: source.content.slice(0, minStemLength) },
+      },
+      select: NEIGHBOUR_SELECT,
+      take: neighbourLimit * 5,
+    });
+    const family = candidates
+      .map((row) => ({ row, strength: familyStrength(source.content, row.content) }))
+      .filter((f) => f.strength > 0)
+      .sort((a, b) => b.strength - a.strength)
+      .slice(0, neighbourLimit);
+    for (const { row, strength } of family) {
+      rows.set(row.id, row);
+      relations.push(createTransferRelation(source.id, row.id, 'morphological', strength, 'bidirectional'));
+    }
+  }
+
+  const collocations = await db.collocation.findMany({
+    where: { OR: [{ word1Id: source.id }, { word2Id: source.id }], npmi: { gt: 0 } },
+    orderBy: { npmi: 'desc' },
+    take: neighbourLimit,
+    include: { word1: { select: NEIGHBOUR_SELECT }, word2: { select: NEIGHBOUR_SELECT } },
+  });
+  for (const c of collocations) {
+    const other = c.word1Id === source.id ? c.word2 : c.word1;
+    if (rows.has(other.id)) {
+      continue;
+    }
+    rows.set(other.id, other);
+    relations.push(
+      createTransferRelation(
+        source.id,
+        other.id,
+        'collocational',
+        c.npmi,
+        'bidirectional',
+        Math.min(1, c.cooccurrence / confidentCooccurrence)
+      )
+    );
+  }
+
+  return { relations, rows: [...rows.values()] };
+}
+
+// =============================================================================
+// Propagation
+// =============================================================================
+
+/**
+ * Propagate a response to the answered object's neighbours.
+ *
+ * Only correct answers propagate; misses leave neighbours alone. Each
+ * neighbour's change is capped per step and by what it has already
+ * received, so repeated answers cannot drive a word to trivial.
+ */
+export async function propagateFromResponse(
+  source: PropagationSource,
+  now: Date = new Date()
+): Promise<PropagationSummary> {
+  const db = getPrisma();
+  const object = await db.languageObject.findUnique({
+    where: { id: source.objectId },
+    select: { ...NEIGHBOUR_SELECT, goalId: true, goal: { select: { propagationEnabled: true } } },
+  });
+  const enabled = object?.goal.propagationEnabled ?? false;
+  const summary: PropagationSummary = { sourceObjectId: source.objectId, enabled, updates: [] };
+  if (!object || !enabled || !source.correct) {
+    return summary;
+  }
+
+  const { relations, rows } = await loadNeighbours(object, object.goalId);
+  if (relations.length === 0) {
+    return summary;
+  }
+
+  const states = new Map([object, ...rows].map((row) => [row.id, toState(row, now)]));
+  const event: ObjectUpdateEvent = {
+    sourceObjectId: object.id,
+    updateType: 'response',
+    newStage: source.newStage,
+    previousStage: source.previousStage,
+    accuracy: 1,
+    responseTimeMs: source.responseTimeMs,
+    timestamp: now.getTime(),
+    component: states.get(object.id)?.component ?? 'LEX',
+  };
+  const result = propagateUpdate(event, relations, states, {
+    ...DEFAULT_PROPAGATION_CONFIG,
+    maxDepth: 1,
+    updatePriority: false,
+  });
+  if (result.indirectUpdates.length === 0) {
+    return summary;
+  }
+
+  // What each neighbour has already received
+  const received = await db.propagationLog.groupBy({
+    by: ['targetObjectId'],
+    where: { targetObjectId: { in: result.indirectUpdates.map((u) => u.targetObjectId) } },
+    _sum: { difficultyDelta: true, stabilityDelta: true },
+  });
+  const totals = new Map(received.map((r) => [r.targetObjectId, r._sum]));
+
+  const cfg = PROPAGATION_CONFIG;
+  const writes = [];
+  for (const update of result.indirectUpdates) {
+    const target = rows.find((r) => r.id === update.targetObjectId);
+    if (!target) {
+      continue;
+    }
+    const total = totals.get(target.id);
+
+    const dropLeft = Math.max(0, cfg.maxDifficultyDrop + (total?.difficultyDelta ?? 0));
+    const difficultyDelta = Math.max(
+      update.difficultyAdjustment,
+      -cfg.maxDifficultyStep,
+      -dropLeft,
+      Math.min(0, cfg.minDifficulty - target.irtDifficulty)
+    );
+
+    const boostLeft = Math.max(0, cfg.maxStabilityBoost - (total?.stabilityDelta ?? 0));
+    const stabilityDelta = target.masteryState
+      ? Math.min(update.stabilityBoost, cfg.maxStabilityStep, boostLeft)
+      : 0;
+
+    if (-difficultyDelta < cfg.minChange && stabilityDelta < cfg.minChange) {
+      continue;
+    }
+
+    writes.push(
+      db.languageObject.update({
+        where: { id: target.id },
+        data: { irtDifficulty: target.irtDifficulty + difficultyDelta },
+      })
+    );
+    if (target.masteryState && stabilityDelta >= cfg.minChange) {
+      writes.push(
+        db.masteryState.update({
+          where: { objectId: target.id },
+          data: { fsrsStability: target.masteryState.fsrsStability + stabilityDelta },
+        })
+      );
+    }
+    writes.push(
+      db.propagationLog.create({
+        data: {
+          createdAt: now,
+          goalId: object.goalId,
+          responseId: source.responseId,
+          sourceObjectId: object.id,
+          targetObjectId: target.id,
+          relationType: update.relationshipType,
+          depth: update.depth,
+          magnitude: update.magnitude,
+          reason: update.reason.replace(object.id, `"${object.content}"`),
+          difficultyBefore: target.irtDifficulty,
+          difficultyDelta,
+          stabilityBefore: target.masteryState?.fsrsStability ?? null,
+          stabilityDelta,
+        },
+      })
+    );
+
+    summary.updates.push({
+      targetObjectId: target.id,
+      relationType: update.relationshipType,
+      magnitude: update.magnitude,
+      difficultyBefore: target.irtDifficulty,
+      difficultyDelta,
+      stabilityBefore: target.masteryState?.fsrsStability ?? null,
+      stabilityDelta,
+    });
+  }
+
+  if (writes.length > 0) {
+    await db.$transaction(writes);
+  }
+  return summary;
+}
+
+// =============================================================================
+// Settings and Log
+// =============================================================================
+
+/**
+ * Recent propagated updates of a goal, newest first.
+ *
+ * @returns The log, or null if the goal does not exist
+ */
+export async function getPropagationLog(
+  goalId: string,
+  limit: number = PROPAGATION_CONFIG.logLimit
+): Promise<GoalPropagationLog | null> {
+  const db = getPrisma();
+  const goal = await db.goalSpec.findUnique({
+    where: { id: goalId },
+    select: { propagationEnabled: true },
+  });
+  if (!goal) {
+    return null;
+  }
+
+  const rows = await db.propagationLog.findMany({
+    where: { goalId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    include: {
+      source: { select: { content: true } },
+      target: { select: { content: true } },
+    },
+  });
+
+  return {
+    goalId,
+    enabled: goal.propagationEnabled,
+    entries: rows.map((r) => ({
+      id: r.id,
+      createdAt: r.createdAt,
+      sourceObjectId: r.sourceObjectId,
+      sourceContent: r.source.content,
+      targetObjectId: r.targetObjectId,
+      targetContent: r.target.content,
+      relationType: r.relationType as TransferType,
+      magnitude: r.magnitude,
+      difficultyDelta: r.difficultyDelta,
+      stabilityDelta: r.stabilityDelta,
+    })),
+  };
+}
+
+/**
+ * Switch propagation on or off for a goal. Updates already applied stay.
+ */
+export async function setPropagationEnabled(goalId: string, enabled: boolean): Promise<boolean> {
+  const goal = await getPrisma().goalSpec.update({
+    where: { id: goalId },
+    data: { propagationEnabled: enabled },
+    select: { propagationEnabled: true },
+  });
+  return goal.propagationEnabled;
+}
@@ -0,0 +1,520 @@
+/**
+ * Milestone Service
+ *
+ * Runs the MilestoneRegistry from core/milestone-events.ts against the
+ * learner's progress after responses and at session end, persists earned
+ * events in the MilestoneEvent table, and serves the milestone history.
+ *
+ * One registry is kept per user. It is seeded from stored events so that
+ * non-repeatable milestones are not awarded twice across restarts. Checks
+ * for the same user run one at a time, and response history is read through
+ * aggregate queries so a check costs the same on day one and day 500.
+ */
+
+import { getPrisma } from '../db/prisma';
+import {
+  MilestoneRegistry,
+  DEFAULT_MILESTONES,
+  createEmptyProgressState,
+  type LearnerProgressState,
+  type MilestoneEvent,
+  type MilestoneType,
+} from '../../core/milestone-events';
+import type { MasteryStage } from '../../core/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A mastery stage change that triggered the check.
+ */
+export interface StageChange {
+  objectId: string;
+  from: number;
+  to: number;
+}
+
+export interface MilestoneCheckContext {
+  sessionId?: string;
+  goalId?: string;
+  stageChange?: StageChange;
+}
+
+/**
+ * A persisted milestone event as returned to the renderer.
+ */
+export interface StoredMilestoneEvent {
+  id: string;
+  milestoneId: string;
+  type: MilestoneType;
+  priority: MilestoneEvent['priority'];
+  title: string;
+  description: string;
+  celebrationMessage: string | null;
+  iconId: string | null;
+  pointsAwarded: number;
+  data: MilestoneEvent['data'];
+  acknowledged: boolean;
+  goalId: string | null;
+  sessionId: string | null;
+  createdAt: Date;
+}
+
+export interface MilestoneHistoryOptions {
+  limit?: number;
+  offset?: number;
+  type?: string;
+  unacknowledgedOnly?: boolean;
+}
+
+/**
+ * Study time and active days, accumulated from sessions that started or
+ * ended since the last check.
+ */
+export interface SessionActivity {
+  studyMs: number;
+  /** Days (since the epoch) with a session start */
+  days: Set<number>;
+  /** Sessions before this instant are already counted */
+  through: Date | null;
+}
+
+export interface MilestoneHistory {
+  events: StoredMilestoneEvent[];
+  total: number;
+  unacknowledged: number;
+  totalPoints: number;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const MILESTONE_SERVICE_CONFIG = {
+  /** Responses per session needed before a session can count as perfect */
+  minPerfectSessionResponses: 5,
+  /** Default page size for history queries */
+  defaultHistoryLimit: 50,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Registry Cache
+// =============================================================================
+
+interface UserMilestoneState {
+  registry: MilestoneRegistry;
+  lastState: LearnerProgressState | null;
+  sessionId: string | null;
+  activity: SessionActivity;
+}
+
+const userStates = new Map<string, UserMilestoneState>();
+
+/** Pending check per user; the next check waits for it */
+const pendingChecks = new Map<string, Promise<StoredMilestoneEvent[]>>();
+
+/**
+ * Get (or build from stored events) the registry for a user.
+ */
+async function getUserMilestoneState(userId: string): Promise<UserMilestoneState> {
+  const cached = userStates.get(userId);
+  if (cached) {
+    return cached;
+  }
+
+  const db = getPrisma();
+  const past = await db.milestoneEvent.groupBy({
+    by: ['milestoneId'],
+    where: { userId },
+    _max: { createdAt: true },
+  });
+
+  const repeatable = new Set(DEFAULT_MILESTONES.filter((d) => d.repeatable).map((d) => d.id));
+  const registry = new MilestoneRegistry();
+  registry.deserialize(
+    JSON.stringify({
+      history: [],
+      achievedNonRepeatables: past
+        .map((p) => p.milestoneId)
+        .filter((id) => !repeatable.has(id)),
+      lastEmissionByMilestone: Object.fromEntries(
+        past
+          .filter((p) => p._max.createdAt)
+          .map((p) => [p.milestoneId, p._max.createdAt!.getTime()])
+      ),
+    })
+  );
+
+  const state: UserMilestoneState = {
+    registry,
+    lastState: null,
+    sessionId: null,
+    activity: createSessionActivity(),
+  };
+  userStates.set(userId, state);
+  return state;
+}
+
+/**
+ * Drop cached registries (all users, or one).
+ */
+export function clearMilestoneCache(userId?: string): void {
+  if (userId) {
+    userStates.delete(userId);
+  } else {
+    userStates.clear();
+  }
+}
+
+// =============================================================================
+// Progress State
+// =============================================================================
+
+/**
+ * Count consecutive days with study activity ending today or yesterday.
+ */
+export function computeStreakDays(activityDates: Date[], now: Date = new Date()): number {
+  const days = new Set(activityDates.map((d) => Math.floor(d.getTime() / DAY_MS)));
+  let day = Math.floor(now.getTime() / DAY_MS);
+
+  // A streak is still alive if the learner has not studied yet today
+  if (!days.has(day)) {
+    day -= 1;
+  }
+
+  let streak = 0;
+  while (days.has(day)) {
+    streak++;
+    day--;
+  }
+  return streak;
+}
+
+function pushTo(map: Record<string, string[]>, key: string, id: string): void {
+  if (!map[key]) {
+    map[key] = [];
+  }
+  map[key].push(id);
+}
+
+export function createSessionActivity(): SessionActivity {
+  return { studyMs: 0, days: new Set(), through: null };
+}
+
+/**
+ * Add sessions that started or ended since `activity.through` (all of them
+ * on the first call).
+ */
+async function updateSessionActivity(
+  userId: string,
+  activity: SessionActivity,
+  now: Date
+): Promise<void> {
+  const db = getPrisma();
+  const range = activity.through ? { gt: activity.through, lte: now } : { lte: now };
+  const [started, ended] = await Promise.all([
+    db.session.findMany({
+      where: { userId, startedAt: range },
+      select: { startedAt: true },
+    }),
+    db.session.findMany({
+      where: { userId, endedAt: range },
+      select: { startedAt: true, endedAt: true },
+    }),
+  ]);
+
+  for (const s of started) {
+    activity.days.add(Math.floor(s.startedAt.getTime() / DAY_MS));
+  }
+  for (const s of ended) {
+    activity.studyMs += s.endedAt ? s.endedAt.getTime() - s.startedAt.getTime() : 0;
+  }
+  activity.through = now;
+}
+
+/**
+ * Build a LearnerProgressState snapshot for a user from the database.
+ *
+ * Responses are only ever counted in aggregate. `activity` carries session
+ * time between checks; a fresh one reads the whole session history.
+ */
+export async function buildProgressState(
+  userId: string,
+  now: Date = new Date(),
+  activity: SessionActivity = createSessionActivity()
+): Promise<LearnerProgressState> {
+  const db = getPrisma();
+  const responseWhere = { session: { userId } };
+  const [objects, byObject, bySession, sessionCount] = await Promise.all([
+    db.languageObject.findMany({
+      where: { goal: { userId } },
+      select: { id: true, type: true, masteryState: { select: { stage: true } } },
+    }),
+    db.response.groupBy({
+      by: ['objectId', 'correct'],
+      where: responseWhere,
+      _count: { _all: true },
+    }),
+    db.response.groupBy({
+      by: ['sessionId', 'correct'],
+      where: responseWhere,
+      _count: { _all: true },
+    }),
+    db.session.count({ where: { userId } }),
+    updateSessionActivity(userId, activity, now),
+  ]);
+
+  const state = createEmptyProgressState(userId);
+  state.timestamp = now.getTime();
+
+  const objectTypes = new Map<string, string>();
+  for (const obj of objects) {
+    const stage = Math.min(4, Math.max(0, obj.masteryState?.stage ?? 0)) as MasteryStage;
+    objectTypes.set(obj.id, obj.type);
+    state.objectsByStage[stage].push(obj.id);
+    pushTo(state.objectsByComponent, obj.type, obj.id);
+    if (stage === 4) {
+      pushTo(state.automaticObjects, obj.type, obj.id);
+    }
+  }
+
+  const byComponent = new Map<string, { correct: number; total: number }>();
+  let correct = 0;
+  let total = 0;
+  for (const group of byObject) {
+    const count = group._count._all;
+    const type = objectTypes.get(group.objectId) ?? 'LEX';
+    const component = byComponent.get(type) ?? { correct: 0, total: 0 };
+    component.total += count;
+    component.correct += group.correct ? count : 0;
+    byComponent.set(type, component);
+    total += count;
+    correct += group.correct ? count : 0;
+  }
+
+  const sessionTotals = new Map<string, { correct: number; total: number }>();
+  for (const group of bySession) {
+    const count = group._count._all;
+    const session = sessionTotals.get(group.sessionId) ?? { correct: 0, total: 0 };
+    session.total += count;
+    session.correct += group.correct ? count : 0;
+    sessionTotals.set(group.sessionId, session);
+  }
+
+  state.totalReviews = total;
+  state.overallAccuracy = total > 0 ? correct / total : 0;
+  for (const [component, stats] of byComponent) {
+    state.componentAccuracy[component] = stats.correct / stats.total;
+  }
+  state.perfectSessions = [...sessionTotals.values()].filter(
+    (s) => s.total >= MILESTONE_SERVICE_CONFIG.minPerfectSessionResponses && s.correct === s.total
+  ).length;
+
+  state.sessionCount = sessionCount;
+  state.totalStudyTimeMinutes = Math.round(activity.studyMs / 60000);
+  state.currentStreakDays = computeStreakDays(
+    [...activity.days].map((day) => new Date(day * DAY_MS)),
+    now
+  );
+
+  return state;
+}
+
+/**
+ * Reconstruct the state just before a stage change, for when no earlier
+ * snapshot is cached (first check after startup).
+ */
+export function rewindStageChange(
+  state: LearnerProgressState,
+  change?: StageChange
+): LearnerProgressState {
+  const objectsByStage = Object.fromEntries(
+    Object.entries(state.objectsByStage).map(([stage, ids]) => [stage, [...ids]])
+  ) as LearnerProgressState['objectsByStage'];
+  const automaticObjects = Object.fromEntries(
+    Object.entries(state.automaticObjects).map(([type, ids]) => [type, [...ids]])
+  );
+
+  if (change && change.from !== change.to) {
+    const to = Math.min(4, Math.max(0, change.to)) as MasteryStage;
+    const from = Math.min(4, Math.max(0, change.from)) as MasteryStage;
+    objectsByStage[to] = objectsByStage[to].filter((id) => id !== change.objectId);
+    objectsByStage[from].push(change.objectId);
+    if (to === 4) {
+      for (const type of Object.keys(automaticObjects)) {
+        automaticObjects[type] = automaticObjects[type].filter((id) => id !== change.objectId);
+      }
+    }
+  }
+
+  return { ...state, objectsByStage, automaticObjects };
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+function toStored(row: {
+  id: string;
+  milestoneId: string;
+  type: string;
+  priority: string;
+  title: string;
+  description: string;
+  celebrationMessage: string | null;
+  iconId: string | null;
+  pointsAwarded: number;
+  data: string | null;
+  acknowledged: boolean;
+  goalId: string | null;
+  sessionId: string | null;
+  createdAt: Date;
+}): StoredMilestoneEvent {
+  let data: MilestoneEvent['data'] = {};
+  if (row.data) {
+    try {
+      data = JSON.parse(row.data) as MilestoneEvent['data'];
+    } catch {
+      data = {};
+    }
+  }
+
+  return {
+    ...row,
+    type: row.type as MilestoneType,
+    priority: row.priority as MilestoneEvent['priority'],
+    data,
+  };
+}
+
+/**
+ * Run milestone detection for a user and persist any events earned.
+ *
+ * Compares the current progress snapshot with the one from the previous
+ * check. Returns the newly stored events (empty when nothing was earned).
+ * Checks for one user are queued so each compares against the snapshot
+ * the one before it left behind.
+ */
+export function checkMilestones(
+  userId: string,
+  context: MilestoneCheckContext = {}
+): Promise<StoredMilestoneEvent[]> {
+  const previous = pendingChecks.get(userId);
+  const check = previous
+    ? previous.catch(() => []).then(() => runMilestoneCheck(userId, context))
+    : runMilestoneCheck(userId, context);
+  pendingChecks.set(userId, check);
+
+  const release = (): void => {
+    if (pendingChecks.get(userId) === check) {
+      pendingChecks.delete(userId);
+    }
+  };
+  void check.then(release, release);
+  return check;
+}
+
+async function runMilestoneCheck(
+  userId: string,
+  context: MilestoneCheckContext
+): Promise<StoredMilestoneEvent[]> {
+  const db = getPrisma();
+  const userState = await getUserMilestoneState(userId);
+
+  if (context.sessionId && context.sessionId !== userState.sessionId) {
+    userState.registry.resetSessionCounter();
+    userState.sessionId = context.sessionId;
+  }
+
+  const current = await buildProgressState(userId, new Date(), userState.activity);
+  const previous = userState.lastState ?? rewindStageChange(current, context.stageChange);
+  userState.lastState = current;
+
+  const earned = userState.registry.checkProgress(current, previous);
+  if (earned.length === 0) {
+    return [];
+  }
+
+  const stored = await db.$transaction(
+    earned.map((event) =>
+      db.milestoneEvent.create({
+        data: {
+          userId,
+          milestoneId: event.milestoneId,
+          type: event.type,
+          priority: event.priority,
+          title: event.title,
+          description: event.description,
+          celebrationMessage: event.celebrationMessage ?? null,
+          iconId: event.iconId ?? null,
+          pointsAwarded: event.pointsAwarded,
+          data: JSON.stringify(event.data),
+          acknowledged: event.acknowledged,
+          goalId: context.goalId ?? null,
+          sessionId: context.sessionId ?? null,
+          createdAt: new Date(event.timestamp),
+        },
+      })
+    )
+  );
+
+  return stored.map(toStored);
+}
+
+// =============================================================================
+// History
+// =============================================================================
+
+/**
+ * Get a user's stored milestone events, newest first.
+ */
+export async function getMilestoneHistory(
+  userId: string,
+  options: MilestoneHistoryOptions = {}
+): Promise<MilestoneHistory> {
+  const db = getPrisma();
+  const where = {
+    userId,
+    ...(options.type ? { type: options.type } : {}),
+    ...(options.unacknowledgedOnly ? { acknowledged: false } : {}),
+  };
+
+  const [rows, total, unacknowledged, points] = await Promise.all([
+    db.milestoneEvent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? MILESTONE_SERVICE_CONFIG.defaultHistoryLimit,
+      skip: options.offset ?? 0,
+    }),
+    db.milestoneEvent.count({ where }),
+    db.milestoneEvent.count({ where: { userId, acknowledged: false } }),
+    db.milestoneEvent.aggregate({ where: { userId }, _sum: { pointsAwarded: true } }),
+  ]);
+
+  return {
+    events: rows.map(toStored),
+    total,
+    unacknowledged,
+    totalPoints: points._sum.pointsAwarded ?? 0,
+  };
+}
+
+/**
+ * Mark milestone events as seen (the given ids, or all of the user's).
+ * Returns the number of events updated.
+ */
+export async function acknowledgeMilestones(userId: string, ids?: string[]): Promise<number> {
+  const db = getPrisma();
+  const result = await db.milestoneEvent.updateMany({
+    where: {
+      userId,
+      acknowledged: false,
+      ...(ids ? { id: { in: ids } } : {}),
+    },
+    data: { acknowledged: true },
+  });
+  return result.count;
+}
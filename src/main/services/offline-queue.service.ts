@@ -463,6 +463,20 @@ export function getOfflineQueueService(): OfflineQueueService {
   return serviceInstance;
 }
 
+/**
+ * Pause or resume background processing, if the service was started.
+ */
+export function setOfflineQueuePaused(paused: boolean): void {
+  if (!serviceInstance) {
+    return;
+  }
+  if (paused) {
+    serviceInstance.stopProcessing();
+  } else {
+    serviceInstance.startProcessing();
+  }
+}
+
 /**
  * Reset the service instance (for testing).
  */
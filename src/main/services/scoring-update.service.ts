@@ -32,6 +32,8 @@ import { updateObjectPriority } from '../db/repositories/goal.repository';
 import type { GeneratedTask, TaskSpec } from './task-generation.service';
 import { calculateEffectivePriority, calculateMasteryAdjustment, calculateUrgencyScore } from './state-priority.service';
 import { calibrateItems } from '../../core/irt';
+import type { MasteryStage } from '../../core/types';
+import { propagateFromResponse } from './mastery-propagation.service';
 import {
   FlexibleEvaluationEngine,
   createEvaluationEngine,
@@ -572,7 +574,21 @@ export async function processResponse(
     }
   }
 
-  // 6c. Check bottleneck and adjust priority if needed (async, non-blocking)
+  // 6c. Propagate to the object's family and collocates
+  try {
+    await propagateFromResponse({
+      objectId: spec.objectId,
+      previousStage: previousStage as MasteryStage,
+      newStage: transactionResult.stageTransition.newStage as MasteryStage,
+      correct: evaluation.correct,
+      responseTimeMs,
+      responseId: transactionResult.responseRecord.id,
+    });
+  } catch (err) {
+    console.error('Mastery propagation failed (non-critical):', err);
+  }
+
+  // 6d. Check bottleneck and adjust priority if needed (async, non-blocking)
   detectBottlenecks(userId, object.goalId).then(async (bottlenecks) => {
     const componentCode = mapTypeToComponent(object.type);
     const isBottleneck = bottlenecks.some(
@@ -0,0 +1,94 @@
+/**
+ * Command Phoneme Recognizer
+ *
+ * Runs a locally installed speech engine as a child process, e.g. the
+ * Allosaurus phoneme recognizer or a Montreal Forced Aligner wrapper.
+ * Audio never leaves the machine.
+ *
+ * The recording is written to a temporary file. Arguments may contain
+ * {audio} (the file path) and {expected} (space-separated expected
+ * phonemes, for forced aligners); without {audio} the path is appended.
+ * The last non-empty line of stdout must hold space-separated IPA phonemes.
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { PhonemeRecognizer, RecognitionRequest, RecognitionResult } from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/wav': '.wav',
+  'audio/webm': '.webm',
+  'audio/ogg': '.ogg',
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CommandPhonemeRecognizerConfig {
+  command: string;
+  args?: string[];
+  timeoutMs?: number;
+}
+
+// =============================================================================
+// Recognizer
+// =============================================================================
+
+export class CommandPhonemeRecognizer implements PhonemeRecognizer {
+  readonly name: string;
+  private command: string;
+  private args: string[];
+  private timeoutMs: number;
+
+  constructor(config: CommandPhonemeRecognizerConfig) {
+    this.command = config.command;
+    this.args = config.args ?? [];
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.name = path.basename(config.command);
+  }
+
+  async recognize(request: RecognitionRequest): Promise<RecognitionResult> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'logos-speech-'));
+    const audioPath = path.join(dir, `attempt${AUDIO_EXTENSIONS[request.mimeType] ?? '.wav'}`);
+
+    try {
+      await fs.writeFile(audioPath, request.audio);
+      const stdout = await this.run(this.buildArgs(audioPath, request.expectedPhonemes));
+      const line = stdout.split(/\r?\n/).map(l => l.trim()).filter(Boolean).pop();
+      if (!line) {
+        throw new Error(`${this.name} produced no phonemes`);
+      }
+      return { phonemes: line.split(/\s+/) };
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private buildArgs(audioPath: string, expectedPhonemes: string[]): string[] {
+    const args = this.args.map(arg =>
+      arg.replace('{audio}', audioPath).replace('{expected}', expectedPhonemes.join(' '))
+    );
+    return this.args.some(arg => arg.includes('{audio}')) ? args : [...args, audioPath];
+  }
+
+  private run(args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      execFile(this.command, args, { timeout: this.timeoutMs, encoding: 'utf-8' }, (err, stdout, stderr) => {
+        if (err) {
+          reject(new Error(`${this.name} failed: ${stderr.trim() || err.message}`));
+          return;
+        }
+        resolve(stdout);
+      });
+    });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Stub Phoneme Recognizer
+ *
+ * Deterministic recognizer for tests and development without a speech
+ * engine. Returns scripted phonemes per word, or the expected phonemes
+ * (a perfect attempt) for unscripted words.
+ */
+
+import type { PhonemeRecognizer, RecognitionRequest, RecognitionResult } from './types';
+
+// =============================================================================
+// Recognizer
+// =============================================================================
+
+export class StubPhonemeRecognizer implements PhonemeRecognizer {
+  readonly name = 'stub';
+  /** Requests received, for assertions */
+  readonly requests: RecognitionRequest[] = [];
+  private script: Map<string, string[]>;
+
+  constructor(script: Record<string, string[]> = {}) {
+    this.script = new Map(Object.entries(script).map(([word, phonemes]) => [word.toLowerCase(), phonemes]));
+  }
+
+  async recognize(request: RecognitionRequest): Promise<RecognitionResult> {
+    this.requests.push(request);
+    const phonemes = this.script.get(request.word.toLowerCase()) ?? request.expectedPhonemes;
+    return { phonemes, confidence: 1 };
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Speech Recognizer Types
+ *
+ * Common interface for the local engines that turn a recorded attempt into
+ * phonemes. Phoneme recognizers ignore the expected sequence; forced
+ * aligners use it to decide which of the expected phonemes were produced.
+ * Scoring against the G2P expectation happens in core/pronunciation.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RecognitionRequest {
+  /** Encoded audio (16 kHz mono WAV from the renderer) */
+  audio: Uint8Array;
+  mimeType: string;
+  /** Word the learner was asked to say */
+  word: string;
+  /** Phonemes predicted by the G2P rules, in IPA */
+  expectedPhonemes: string[];
+}
+
+export interface RecognitionResult {
+  /** Phonemes heard, in IPA */
+  phonemes: string[];
+  /** Engine confidence (0-1) when reported */
+  confidence?: number;
+}
+
+export interface PhonemeRecognizer {
+  /** Engine name, reported with scores */
+  readonly name: string;
+
+  /**
+   * Recognize the phonemes in a recording.
+   * Throws when the engine fails or produces no output.
+   */
+  recognize(request: RecognitionRequest): Promise<RecognitionResult>;
+}
@@ -0,0 +1,262 @@
+/**
+ * Speech Scoring Service
+ *
+ * Scores spoken attempts at a word. A pluggable local recognizer turns the
+ * recording into phonemes, core/pronunciation compares them with the G2P
+ * expectation, and the per-phoneme results update the learner's
+ * G2PThetaProfile in the speaking modality and are logged as G2PResponse
+ * rows.
+ *
+ * The recognizer comes from LOGOS_PHONEME_RECOGNIZER: 'stub' for the
+ * deterministic test recognizer, or a command line for a local engine
+ * (see speech-recognizers/command.ts). Unset means speaking tasks are off.
+ */
+
+import { getPrisma } from '../db/prisma';
+import { analyzeG2PWithL1 } from '../../core/g2p';
+import {
+  g2pToIRTParameters,
+  getContextualDifficulty,
+  updateG2PThetaProfile,
+  createInitialG2PThetaProfile,
+  type G2PThetaProfile,
+  type G2PResponse,
+} from '../../core/g2p-irt';
+import { fisherInformation } from '../../core/irt';
+import {
+  expectedPhonemes,
+  scorePronunciation,
+  resolveInterferenceL1,
+  toG2PResponses,
+  type PronunciationScore,
+} from '../../core/pronunciation';
+import { CommandPhonemeRecognizer } from './speech-recognizers/command';
+import { StubPhonemeRecognizer } from './speech-recognizers/stub';
+import type { PhonemeRecognizer } from './speech-recognizers/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SpeechAttempt {
+  userId: string;
+  word: string;
+  audio: Uint8Array;
+  mimeType: string;
+  responseTimeMs: number;
+  /** Learner L1 (ISO 639-1 code) */
+  nativeLanguage: string;
+}
+
+export interface SpeechScoreResult extends PronunciationScore {
+  /** Engine that produced the phonemes */
+  recognizer: string;
+  /** Speaking theta after the update */
+  thetaSpeaking: number;
+}
+
+// =============================================================================
+// Recognizer
+// =============================================================================
+
+let activeRecognizer: PhonemeRecognizer | null | undefined;
+
+/**
+ * Build a recognizer from a spec: 'stub', a command line, or nothing.
+ */
+export function createPhonemeRecognizer(
+  spec: string | undefined = process.env.LOGOS_PHONEME_RECOGNIZER
+): PhonemeRecognizer | null {
+  const trimmed = spec?.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (trimmed === 'stub') {
+    return new StubPhonemeRecognizer();
+  }
+  const [command, ...args] = trimmed.split(/\s+/);
+  return new CommandPhonemeRecognizer({ command, args });
+}
+
+/**
+ * Get the configured recognizer (null when speaking is unavailable).
+ */
+export function getPhonemeRecognizer(): PhonemeRecognizer | null {
+  if (activeRecognizer === undefined) {
+    activeRecognizer = createPhonemeRecognizer();
+  }
+  return activeRecognizer;
+}
+
+/**
+ * Replace the recognizer (tests, or an engine chosen at runtime).
+ */
+export function setPhonemeRecognizer(recognizer: PhonemeRecognizer | null): void {
+  activeRecognizer = recognizer;
+}
+
+// =============================================================================
+// Theta Profile Persistence
+// =============================================================================
+
+/**
+ * Load a user's G2P theta profile, or a fresh one if none is stored.
+ */
+export async function loadG2PThetaProfile(userId: string): Promise<G2PThetaProfile> {
+  const profile = createInitialG2PThetaProfile(userId);
+  const row = await getPrisma().g2PThetaProfile.findUnique({ where: { userId } });
+  if (!row) {
+    return profile;
+  }
+
+  let counts: Partial<G2PThetaProfile['responseCounts']> = {};
+  try {
+    counts = JSON.parse(row.responseCounts) as Partial<G2PThetaProfile['responseCounts']>;
+  } catch {
+    // Corrupt counts only cost reliability, not the thetas
+  }
+
+  return {
+    ...profile,
+    updatedAt: row.updatedAt,
+    thetaPhonological: row.thetaPhonological,
+    thetaAlphabetic: row.thetaAlphabetic,
+    thetaSyllable: row.thetaSyllable,
+    thetaWord: row.thetaWord,
+    thetaReading: row.thetaReading,
+    thetaListening: row.thetaListening,
+    thetaSpeaking: row.thetaSpeaking,
+    thetaWriting: row.thetaWriting,
+    standardErrors: {
+      ...profile.standardErrors,
+      phonological: row.sePhonological,
+      alphabetic: row.seAlphabetic,
+      syllable: row.seSyllable,
+      word: row.seWord,
+    },
+    responseCounts: { ...profile.responseCounts, ...counts },
+  };
+}
+
+async function saveG2PThetaProfile(profile: G2PThetaProfile): Promise<void> {
+  const data = {
+    thetaPhonological: profile.thetaPhonological,
+    thetaAlphabetic: profile.thetaAlphabetic,
+    thetaSyllable: profile.thetaSyllable,
+    thetaWord: profile.thetaWord,
+    thetaReading: profile.thetaReading,
+    thetaListening: profile.thetaListening,
+    thetaSpeaking: profile.thetaSpeaking,
+    thetaWriting: profile.thetaWriting,
+    sePhonological: profile.standardErrors.phonological,
+    seAlphabetic: profile.standardErrors.alphabetic,
+    seSyllable: profile.standardErrors.syllable,
+    seWord: profile.standardErrors.word,
+    responseCounts: JSON.stringify(profile.responseCounts),
+  };
+
+  await getPrisma().g2PThetaProfile.upsert({
+    where: { userId: profile.userId },
+    create: { userId: profile.userId, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Apply responses to the profile one by one, logging each as a G2PResponse
+ * against its pattern (a phoneme, or the word for the word-level response).
+ */
+async function recordG2PResponses(
+  profile: G2PThetaProfile,
+  responses: G2PResponse[],
+  patterns: string[],
+  word: string
+): Promise<G2PThetaProfile> {
+  const db = getPrisma();
+  let current = profile;
+
+  for (let i = 0; i < responses.length; i++) {
+    const response = responses[i];
+    const layer = response.context.targetLayer;
+    const next = updateG2PThetaProfile(current, response);
+
+    const pattern = await db.g2PItemParameter.upsert({
+      where: {
+        pattern_patternType: {
+          pattern: patterns[i],
+          patternType: layer === 'word' ? 'word' : 'phoneme',
+        },
+      },
+      create: {
+        pattern: patterns[i],
+        patternType: layer === 'word' ? 'word' : 'phoneme',
+        targetLayer: layer,
+      },
+      update: {},
+      select: { id: true },
+    });
+
+    await db.g2PResponse.create({
+      data: {
+        userId: profile.userId,
+        patternId: pattern.id,
+        correct: response.correct,
+        responseTimeMs: response.responseTimeMs,
+        modality: response.context.modality,
+        targetLayer: layer,
+        wordContext: word,
+        taskType: response.context.taskType,
+        priorTheta: current.thetaSpeaking,
+        posteriorTheta: next.thetaSpeaking,
+        information: fisherInformation(
+          current.thetaSpeaking,
+          response.itemParams.discrimination,
+          getContextualDifficulty(response.itemParams, response.context)
+        ),
+      },
+    });
+
+    current = next;
+  }
+
+  return current;
+}
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+/**
+ * Score a spoken attempt and update the learner's speaking ability.
+ *
+ * @throws When no recognizer is configured or the recognizer fails
+ */
+export async function scoreSpeechAttempt(attempt: SpeechAttempt): Promise<SpeechScoreResult> {
+  const recognizer = getPhonemeRecognizer();
+  if (!recognizer) {
+    throw new Error('No speech recognizer configured');
+  }
+
+  const recognition = await recognizer.recognize({
+    audio: attempt.audio,
+    mimeType: attempt.mimeType,
+    word: attempt.word,
+    expectedPhonemes: expectedPhonemes(attempt.word).map(p => p.phoneme),
+  });
+
+  const l1 = resolveInterferenceL1(attempt.nativeLanguage);
+  const score = scorePronunciation(attempt.word, recognition.phonemes, { l1 });
+  const itemParams = g2pToIRTParameters(analyzeG2PWithL1(attempt.word, l1));
+  const responses = toG2PResponses(
+    score,
+    itemParams,
+    { taskType: 'production', isTimed: false, userL1: l1 },
+    attempt.responseTimeMs
+  );
+
+  const profile = await loadG2PThetaProfile(attempt.userId);
+  const updated = await recordG2PResponses(profile, responses, [...score.expected, attempt.word], attempt.word);
+  await saveG2PThetaProfile(updated);
+
+  return { ...score, recognizer: recognizer.name, thetaSpeaking: updated.thetaSpeaking };
+}
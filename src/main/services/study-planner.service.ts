@@ -0,0 +1,728 @@
+/**
+ * Study Planner Service
+ *
+ * Plans study time across all active goals with core/multi-curriculum.ts.
+ *
+ * - Every active GoalSpec is mirrored into a CurriculumGoal (linked by
+ *   goalSpecId) with its deadline, weight and mastery-based progress.
+ * - createStudyPlan computes the Pareto frontier for a weekly time budget,
+ *   selects one allocation by preference, stores the frontier in
+ *   ParetoSolution and the chosen minutes per goal in TimeAllocation.
+ * - Objects with the same content in several goals are recorded in
+ *   SharedObjectGoal and served once for all of them.
+ * - buildInterleavedQueue merges the per-goal priority queues following
+ *   the chosen allocation, so one session covers every goal, with grammar
+ *   track constructions spread through each goal's share.
+ * - recordSessionTime credits practice time back to TimeAllocation.
+ *
+ * Renderer-facing IDs are GoalSpec IDs; CurriculumGoal IDs stay internal.
+ */
+
+import { getPrisma } from '../db/prisma';
+import { schedulableObjectWhere } from '../db/repositories/mastery.repository';
+import {
+  computeParetoFrontier,
+  selectParetoOptimalAllocation,
+  calculateDeadlineRisk,
+  findSharedObjects,
+  interleaveByAllocation,
+  type AllocationPreference,
+  type CurriculumGoal,
+  type InterleaveCandidate,
+  type ParetoSolution,
+} from '../../core/multi-curriculum';
+import {
+  buildLearningQueue,
+  getSessionItems,
+  inferLevel,
+  getWeightsForLevel,
+  type LanguageObject,
+  type MasteryInfo,
+  type PriorityWeights,
+  type QueueItem,
+  type UserState,
+} from '../../core/priority';
+import { interleaveGrammar } from '../../core/grammar';
+import { planGrammarPractice, grammarTargetLevel } from './grammar-track.service';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface StudyPlanInput {
+  /** Total study minutes available per week */
+  weeklyMinutes: number;
+  preference?: AllocationPreference;
+  /** Deadline per GoalSpec ID; null clears the deadline */
+  deadlines?: Record<string, Date | null>;
+  /** Importance weight (0-1) per GoalSpec ID */
+  weights?: Record<string, number>;
+  now?: Date;
+}
+
+/**
+ * Active GoalSpec mirrored into a CurriculumGoal; `core` is keyed by the
+ * GoalSpec ID so core results map straight back to the renderer.
+ */
+export interface SyncedGoal {
+  goalSpecId: string;
+  curriculumGoalId: string;
+  domain: string;
+  progress: number;
+  core: CurriculumGoal;
+}
+
+export interface GoalAllocation {
+  goalId: string;
+  curriculumGoalId: string;
+  name: string;
+  domain: string;
+  deadline: Date | null;
+  weight: number;
+  /** Share of the weekly budget (0-1) */
+  fraction: number;
+  plannedMinutes: number;
+  /** Minutes practiced this week, credited at session end */
+  actualMinutes: number;
+  expectedProgress: number;
+  deadlineRisk: number;
+  /** Mastery-based progress toward the goal (0-1) */
+  progress: number;
+}
+
+export interface FrontierPoint {
+  /** Fraction per GoalSpec ID */
+  allocation: Record<string, number>;
+  expectedProgress: Record<string, number>;
+  dominated: boolean;
+  selected: boolean;
+}
+
+export interface StudyPlan {
+  weekStart: Date;
+  weeklyMinutes: number;
+  preference: AllocationPreference;
+  allocations: GoalAllocation[];
+  frontier: FrontierPoint[];
+  sharedObjectCount: number;
+  createdAt: Date;
+}
+
+export interface InterleavedQueueOptions {
+  sessionSize?: number;
+  newItemRatio?: number;
+  weights?: PriorityWeights | null;
+  now?: Date;
+}
+
+export interface InterleavedQueueItem extends InterleaveCandidate {
+  content: string;
+  type: string;
+  masteryStage: number;
+  finalScore: number;
+  isShared: boolean;
+  benefitingGoals: string[];
+}
+
+export interface InterleavedQueue {
+  /** Allocation the queue follows (fraction per GoalSpec ID) */
+  allocation: Record<string, number>;
+  /** Goal with the largest share; sessions are recorded against it */
+  primaryGoalId: string | null;
+  items: InterleavedQueueItem[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const STUDY_PLANNER_CONFIG = {
+  /** Weekly budget when no plan exists (default daily goal × 7) */
+  defaultWeeklyMinutes: 210,
+  defaultPreference: 'balanced' as AllocationPreference,
+  defaultSessionSize: 20,
+  /** Mastery stage counted as mastered for CurriculumGoal.masteredObjects */
+  masteredStage: 3,
+  /** Cap on minutes credited per session (sessions left open overnight) */
+  maxCreditedSessionMinutes: 240,
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Monday 00:00 (local time) of the week containing `now`.
+ */
+export function getWeekStart(now: Date = new Date()): Date {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const daysSinceMonday = (start.getDay() + 6) % 7;
+  start.setDate(start.getDate() - daysSinceMonday);
+  return start;
+}
+
+function parseJsonRecord(json: string): Record<string, number> {
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, number>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function sharedKey(type: string, content: string): string {
+  return `${type}:${content.trim().toLowerCase()}`;
+}
+
+// =============================================================================
+// Goal Sync
+// =============================================================================
+
+/**
+ * Mirror the user's active GoalSpecs into CurriculumGoal rows.
+ *
+ * currentTheta is a mastery proxy: targetTheta × (mean stage / 4), so the
+ * core progress functions see how far each goal has come.
+ */
+export async function syncCurriculumGoals(userId: string): Promise<SyncedGoal[]> {
+  const db = getPrisma();
+
+  const specs = await db.goalSpec.findMany({
+    where: { userId, isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  const existing = await db.curriculumGoal.findMany({ where: { userId } });
+  const bySpec = new Map(existing.filter((g) => g.goalSpecId).map((g) => [g.goalSpecId!, g]));
+
+  const objects = await db.languageObject.findMany({
+    where: { goalId: { in: specs.map((s) => s.id) } },
+    select: { goalId: true, masteryState: { select: { stage: true } } },
+  });
+  const stats = new Map<string, { total: number; mastered: number; stageSum: number }>();
+  for (const obj of objects) {
+    const entry = stats.get(obj.goalId) ?? { total: 0, mastered: 0, stageSum: 0 };
+    const stage = obj.masteryState?.stage ?? 0;
+    entry.total++;
+    entry.stageSum += stage;
+    if (stage >= STUDY_PLANNER_CONFIG.masteredStage) {
+      entry.mastered++;
+    }
+    stats.set(obj.goalId, entry);
+  }
+
+  const synced: SyncedGoal[] = [];
+  for (const spec of specs) {
+    const entry = stats.get(spec.id) ?? { total: 0, mastered: 0, stageSum: 0 };
+    const progress = entry.total > 0 ? entry.stageSum / (entry.total * 4) : 0;
+    const current = bySpec.get(spec.id);
+    const targetTheta = current?.targetTheta ?? 2.0;
+    const data = {
+      name: spec.benchmark ? `${spec.benchmark} (${spec.domain})` : spec.domain,
+      domain: spec.domain,
+      deadline: spec.deadline,
+      currentTheta: targetTheta * progress,
+      totalObjects: entry.total,
+      masteredObjects: entry.mastered,
+      modalities: spec.modality,
+      isActive: true,
+    };
+
+    const row = current
+      ? await db.curriculumGoal.update({ where: { id: current.id }, data })
+      : await db.curriculumGoal.create({ data: { ...data, userId, goalSpecId: spec.id } });
+
+    let modalities: string[] = [];
+    try {
+      const parsed: unknown = JSON.parse(row.modalities);
+      modalities = Array.isArray(parsed) ? (parsed as string[]) : [];
+    } catch {
+      modalities = [];
+    }
+
+    synced.push({
+      goalSpecId: spec.id,
+      curriculumGoalId: row.id,
+      domain: row.domain,
+      progress,
+      core: {
+        id: spec.id,
+        name: row.name,
+        domain: row.domain,
+        targetTheta: row.targetTheta,
+        currentTheta: row.currentTheta,
+        deadline: row.deadline ?? undefined,
+        weight: row.weight,
+        isActive: true,
+        totalObjects: row.totalObjects,
+        masteredObjects: row.masteredObjects,
+        modalities,
+      },
+    });
+  }
+
+  // Goals that were deactivated or deleted drop out of planning
+  const activeSpecIds = new Set(specs.map((s) => s.id));
+  const stale = existing.filter((g) => g.isActive && (!g.goalSpecId || !activeSpecIds.has(g.goalSpecId)));
+  if (stale.length > 0) {
+    await db.curriculumGoal.updateMany({
+      where: { id: { in: stale.map((g) => g.id) } },
+      data: { isActive: false },
+    });
+  }
+
+  return synced;
+}
+
+// =============================================================================
+// Shared Objects
+// =============================================================================
+
+interface SharedObjectGroup {
+  /** Object served for the whole group */
+  representativeId: string;
+  /** GoalSpec IDs containing the object */
+  goalIds: string[];
+  priorityBoost: number;
+}
+
+/**
+ * Find objects present in several goals (same type and content) and store
+ * them in SharedObjectGoal under their representative object ID.
+ *
+ * @returns Shared groups keyed by sharedKey(type, content)
+ */
+async function refreshSharedObjects(goals: SyncedGoal[]): Promise<Map<string, SharedObjectGroup>> {
+  const db = getPrisma();
+  const groups = new Map<string, SharedObjectGroup>();
+  if (goals.length < 2) {
+    return groups;
+  }
+
+  const objects = await db.languageObject.findMany({
+    where: { goalId: { in: goals.map((g) => g.goalSpecId) } },
+    select: { id: true, goalId: true, type: true, content: true, priority: true, irtDifficulty: true },
+    orderBy: { priority: 'desc' },
+  });
+
+  const byKey = new Map<string, typeof objects>();
+  for (const obj of objects) {
+    const key = sharedKey(obj.type, obj.content);
+    const list = byKey.get(key) ?? [];
+    list.push(obj);
+    byKey.set(key, list);
+  }
+
+  const objectGoalMap: Record<string, string[]> = {};
+  const difficulties: Record<string, number> = {};
+  const keyByRepresentative = new Map<string, string>();
+  for (const [key, list] of byKey) {
+    const goalIds = Array.from(new Set(list.map((o) => o.goalId)));
+    if (goalIds.length < 2) {
+      continue;
+    }
+    // Highest-priority copy represents the group (list is priority-sorted)
+    const representative = list[0];
+    objectGoalMap[representative.id] = goalIds;
+    difficulties[representative.id] = representative.irtDifficulty;
+    keyByRepresentative.set(representative.id, key);
+  }
+
+  for (const shared of findSharedObjects(objectGoalMap, difficulties, {})) {
+    groups.set(keyByRepresentative.get(shared.objectId)!, {
+      representativeId: shared.objectId,
+      goalIds: shared.benefitingGoals,
+      priorityBoost: shared.priorityBoost,
+    });
+  }
+
+  const curriculumIdBySpec = new Map(goals.map((g) => [g.goalSpecId, g.curriculumGoalId]));
+  await db.$transaction([
+    db.sharedObjectGoal.deleteMany({
+      where: { goalId: { in: goals.map((g) => g.curriculumGoalId) } },
+    }),
+    ...Array.from(groups.values()).flatMap((group) =>
+      group.goalIds.map((goalSpecId) =>
+        db.sharedObjectGoal.create({
+          data: { objectId: group.representativeId, goalId: curriculumIdBySpec.get(goalSpecId)! },
+        })
+      )
+    ),
+  ]);
+
+  return groups;
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+function toFrontierPoint(solution: ParetoSolution, selected: boolean): FrontierPoint {
+  return {
+    allocation: solution.goalAllocations,
+    expectedProgress: solution.expectedProgress,
+    dominated: solution.isDominated,
+    selected,
+  };
+}
+
+/**
+ * Compute and store this week's allocation across all active goals.
+ */
+export async function createStudyPlan(userId: string, input: StudyPlanInput): Promise<StudyPlan> {
+  const db = getPrisma();
+  const now = input.now ?? new Date();
+  const preference = input.preference ?? STUDY_PLANNER_CONFIG.defaultPreference;
+  const weekStart = getWeekStart(now);
+
+  // Apply deadline / weight changes before syncing so the plan sees them
+  for (const [goalSpecId, deadline] of Object.entries(input.deadlines ?? {})) {
+    await db.goalSpec.updateMany({ where: { id: goalSpecId, userId }, data: { deadline } });
+  }
+  for (const [goalSpecId, weight] of Object.entries(input.weights ?? {})) {
+    await db.curriculumGoal.updateMany({ where: { goalSpecId, userId }, data: { weight } });
+  }
+
+  const goals = await syncCurriculumGoals(userId);
+  if (goals.length === 0) {
+    throw new Error('No active goals to plan');
+  }
+
+  const coreGoals = goals.map((g) => g.core);
+  const frontier = computeParetoFrontier(coreGoals, input.weeklyMinutes);
+  const chosen = selectParetoOptimalAllocation(frontier, preference, input.weights);
+  if (!chosen) {
+    throw new Error('Could not select an allocation');
+  }
+
+  const ranked = [chosen, ...frontier.filter((s) => s !== chosen)];
+  const minutesFor = (solution: ParetoSolution) => {
+    const minutes: Record<string, number> = {};
+    for (const [goalId, fraction] of Object.entries(solution.goalAllocations)) {
+      minutes[goalId] = Math.round(fraction * input.weeklyMinutes);
+    }
+    return minutes;
+  };
+
+  const previous = await db.timeAllocation.findMany({
+    where: { goalId: { in: goals.map((g) => g.curriculumGoalId) }, sessionDate: weekStart },
+  });
+  const actualByGoal = new Map(previous.map((a) => [a.goalId, a.actualMinutes]));
+
+  // Replanning within a week replaces the plan but keeps minutes already practiced
+  await db.$transaction([
+    db.paretoSolution.deleteMany({ where: { userId, sessionDate: weekStart } }),
+    db.timeAllocation.deleteMany({
+      where: { goalId: { in: goals.map((g) => g.curriculumGoalId) }, sessionDate: weekStart },
+    }),
+    ...ranked.map((solution, rank) =>
+      db.paretoSolution.create({
+        data: {
+          userId,
+          sessionDate: weekStart,
+          allocation: JSON.stringify(minutesFor(solution)),
+          objectiveScores: JSON.stringify(solution.expectedProgress),
+          paretoRank: rank,
+          dominated: solution.isDominated,
+          preference,
+          selected: solution === chosen,
+        },
+      })
+    ),
+    ...goals.map((goal) =>
+      db.timeAllocation.create({
+        data: {
+          goalId: goal.curriculumGoalId,
+          sessionDate: weekStart,
+          allocatedMinutes: minutesFor(chosen)[goal.goalSpecId] ?? 0,
+          actualMinutes: actualByGoal.get(goal.curriculumGoalId) ?? 0,
+          paretoRank: 0,
+          utilityScore: chosen.expectedProgress[goal.goalSpecId] ?? 0,
+        },
+      })
+    ),
+  ]);
+
+  const shared = await refreshSharedObjects(goals);
+
+  return {
+    weekStart,
+    weeklyMinutes: input.weeklyMinutes,
+    preference,
+    allocations: goals.map((goal) => ({
+      goalId: goal.goalSpecId,
+      curriculumGoalId: goal.curriculumGoalId,
+      name: goal.core.name,
+      domain: goal.domain,
+      deadline: goal.core.deadline ?? null,
+      weight: goal.core.weight,
+      fraction: chosen.goalAllocations[goal.goalSpecId] ?? 0,
+      plannedMinutes: minutesFor(chosen)[goal.goalSpecId] ?? 0,
+      actualMinutes: actualByGoal.get(goal.curriculumGoalId) ?? 0,
+      expectedProgress: chosen.expectedProgress[goal.goalSpecId] ?? 0,
+      deadlineRisk: calculateDeadlineRisk(goal.core),
+      progress: goal.progress,
+    })),
+    frontier: ranked.map((solution) => toFrontierPoint(solution, solution === chosen)),
+    sharedObjectCount: shared.size,
+    createdAt: now,
+  };
+}
+
+/**
+ * Load this week's stored plan, or null when none was made yet.
+ */
+export async function getStudyPlan(userId: string, now: Date = new Date()): Promise<StudyPlan | null> {
+  const db = getPrisma();
+  const weekStart = getWeekStart(now);
+
+  const solutions = await db.paretoSolution.findMany({
+    where: { userId, sessionDate: weekStart },
+    orderBy: { paretoRank: 'asc' },
+  });
+  const chosen = solutions.find((s) => s.selected);
+  if (!chosen) {
+    return null;
+  }
+
+  const goals = await syncCurriculumGoals(userId);
+  const allocations = await db.timeAllocation.findMany({
+    where: { goalId: { in: goals.map((g) => g.curriculumGoalId) }, sessionDate: weekStart },
+  });
+  const allocationByGoal = new Map(allocations.map((a) => [a.goalId, a]));
+  const sharedCount = await db.sharedObjectGoal.groupBy({
+    by: ['objectId'],
+    where: { goalId: { in: goals.map((g) => g.curriculumGoalId) } },
+  });
+
+  const weeklyMinutes = Object.values(parseJsonRecord(chosen.allocation)).reduce((sum, m) => sum + m, 0);
+  const toFractions = (minutes: Record<string, number>) => {
+    const fractions: Record<string, number> = {};
+    for (const [goalId, value] of Object.entries(minutes)) {
+      fractions[goalId] = weeklyMinutes > 0 ? value / weeklyMinutes : 0;
+    }
+    return fractions;
+  };
+
+  return {
+    weekStart,
+    weeklyMinutes,
+    preference: chosen.preference as AllocationPreference,
+    allocations: goals.map((goal) => {
+      const row = allocationByGoal.get(goal.curriculumGoalId);
+      const planned = row?.allocatedMinutes ?? 0;
+      return {
+        goalId: goal.goalSpecId,
+        curriculumGoalId: goal.curriculumGoalId,
+        name: goal.core.name,
+        domain: goal.domain,
+        deadline: goal.core.deadline ?? null,
+        weight: goal.core.weight,
+        fraction: weeklyMinutes > 0 ? planned / weeklyMinutes : 0,
+        plannedMinutes: planned,
+        actualMinutes: row?.actualMinutes ?? 0,
+        expectedProgress: row?.utilityScore ?? 0,
+        deadlineRisk: calculateDeadlineRisk(goal.core),
+        progress: goal.progress,
+      };
+    }),
+    frontier: solutions.map((s) => ({
+      allocation: toFractions(parseJsonRecord(s.allocation)),
+      expectedProgress: parseJsonRecord(s.objectiveScores),
+      dominated: s.dominated,
+      selected: s.selected,
+    })),
+    sharedObjectCount: sharedCount.length,
+    createdAt: chosen.createdAt,
+  };
+}
+
+// =============================================================================
+// Interleaved Sessions
+// =============================================================================
+
+/**
+ * Build one session queue across all active goals following this week's
+ * allocation (planning with defaults if no plan exists yet).
+ *
+ * Goals behind their weekly minutes are favoured: the allocation used is
+ * the remaining planned minutes per goal, falling back to the plan itself
+ * once every goal has met its share.
+ */
+export async function buildInterleavedQueue(
+  userId: string,
+  options: InterleavedQueueOptions = {}
+): Promise<InterleavedQueue> {
+  const db = getPrisma();
+  const now = options.now ?? new Date();
+  const sessionSize = options.sessionSize ?? STUDY_PLANNER_CONFIG.defaultSessionSize;
+
+  const plan =
+    (await getStudyPlan(userId, now)) ??
+    (await createStudyPlan(userId, { weeklyMinutes: STUDY_PLANNER_CONFIG.defaultWeeklyMinutes, now }));
+
+  const allocation: Record<string, number> = {};
+  const remaining = plan.allocations.map((a) => Math.max(0, a.plannedMinutes - a.actualMinutes));
+  const useRemaining = remaining.some((m) => m > 0);
+  plan.allocations.forEach((a, i) => {
+    allocation[a.goalId] = useRemaining ? remaining[i] : a.fraction;
+  });
+
+  const goalIds = plan.allocations.map((a) => a.goalId);
+  const primaryGoalId = goalIds.length > 0
+    ? goalIds.reduce((best, id) => (allocation[id] > allocation[best] ? id : best))
+    : null;
+
+  const user = await db.user.findUnique({ where: { id: userId } });
+  const theta = user?.thetaGlobal ?? 0;
+  const userState: UserState = {
+    theta,
+    weights: options.weights ?? getWeightsForLevel(inferLevel(theta)),
+    l1Language: user?.nativeLanguage || undefined,
+  };
+
+  const benchmarks = await db.goalSpec.findMany({
+    where: { id: { in: goalIds } },
+    select: { id: true, benchmark: true },
+  });
+  const benchmarkByGoal = new Map(benchmarks.map((g) => [g.id, g.benchmark]));
+  const objects = await db.languageObject.findMany({
+    where: { goalId: { in: goalIds }, ...schedulableObjectWhere(now) },
+    include: { masteryState: true },
+  });
+
+  // Shared groups from the stored SharedObjectGoal rows
+  const sharedRows = await db.sharedObjectGoal.findMany({
+    where: { goalId: { in: plan.allocations.map((a) => a.curriculumGoalId) } },
+  });
+  const specByCurriculum = new Map(plan.allocations.map((a) => [a.curriculumGoalId, a.goalId]));
+  const sharedGoals = new Map<string, string[]>();
+  for (const row of sharedRows) {
+    const list = sharedGoals.get(row.objectId) ?? [];
+    list.push(specByCurriculum.get(row.goalId)!);
+    sharedGoals.set(row.objectId, list);
+  }
+  const objectById = new Map(objects.map((o) => [o.id, o]));
+  const representativeByKey = new Map<string, string>();
+  for (const representativeId of sharedGoals.keys()) {
+    const rep = objectById.get(representativeId);
+    if (rep) {
+      representativeByKey.set(sharedKey(rep.type, rep.content), representativeId);
+    }
+  }
+  const boostFor = (goalCount: number) => Math.log(1 + goalCount) / Math.log(5);
+
+  const queues: Record<string, InterleavedQueueItem[]> = {};
+  for (const goalId of goalIds) {
+    const goalObjects = objects.filter((o) => o.goalId === goalId);
+    const languageObjects: LanguageObject[] = goalObjects.map((obj) => ({
+      id: obj.id,
+      content: obj.content,
+      type: obj.type,
+      frequency: obj.frequency,
+      relationalDensity: obj.relationalDensity,
+      contextualContribution: obj.contextualContribution,
+      irtDifficulty: obj.irtDifficulty,
+    }));
+    const masteryMap = new Map<string, MasteryInfo>();
+    for (const obj of goalObjects) {
+      if (obj.masteryState) {
+        masteryMap.set(obj.id, {
+          stage: obj.masteryState.stage,
+          nextReview: obj.masteryState.nextReview,
+          cueFreeAccuracy: obj.masteryState.cueFreeAccuracy,
+        });
+      }
+    }
+
+    // Grammar track objects get their own slots instead of competing with vocabulary
+    const grammar = planGrammarPractice(
+      goalObjects,
+      sessionSize,
+      now,
+      grammarTargetLevel(benchmarkByGoal.get(goalId))
+    );
+    const queue = buildLearningQueue(languageObjects, userState, masteryMap, now);
+    const vocabulary = queue.filter((item) => !grammar.trackObjectIds.has(item.object.id));
+    // Practice objects missing from the queue (e.g. filtered out) are skipped
+    const queueById = new Map(queue.map((item) => [item.object.id, item]));
+    const practice = grammar.practiceObjectIds.flatMap((id) => queueById.get(id) ?? []);
+
+    const toInterleaved = (item: QueueItem): InterleavedQueueItem => {
+      const representativeId = representativeByKey.get(sharedKey(item.object.type, item.object.content));
+      const benefitingGoals = representativeId ? sharedGoals.get(representativeId)! : [goalId];
+      const served = representativeId ? objectById.get(representativeId)! : null;
+      return {
+        objectId: served?.id ?? item.object.id,
+        goalId,
+        content: item.object.content,
+        type: item.object.type,
+        masteryStage: served ? served.masteryState?.stage ?? 0 : item.masteryInfo?.stage ?? 0,
+        finalScore: item.finalScore * (1 + (representativeId ? boostFor(benefitingGoals.length) : 0)),
+        isShared: Boolean(representativeId),
+        benefitingGoals,
+      };
+    };
+    const items = getSessionItems(vocabulary, sessionSize - practice.length, options.newItemRatio)
+      .map(toInterleaved)
+      .sort((a, b) => b.finalScore - a.finalScore);
+    queues[goalId] = interleaveGrammar(items, practice.map(toInterleaved));
+  }
+
+  return {
+    allocation,
+    primaryGoalId,
+    items: interleaveByAllocation(queues, allocation, sessionSize),
+  };
+}
+
+/**
+ * Credit a finished session's duration to this week's TimeAllocation rows,
+ * split by the goals of the objects answered.
+ */
+export async function recordSessionTime(sessionId: string): Promise<void> {
+  const db = getPrisma();
+
+  const session = await db.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, startedAt: true, endedAt: true },
+  });
+  if (!session?.endedAt) {
+    return;
+  }
+
+  const minutes = Math.min(
+    (session.endedAt.getTime() - session.startedAt.getTime()) / 60000,
+    STUDY_PLANNER_CONFIG.maxCreditedSessionMinutes
+  );
+  const responses = await db.response.findMany({
+    where: { sessionId },
+    select: { object: { select: { goalId: true } } },
+  });
+  if (responses.length === 0 || minutes <= 0) {
+    return;
+  }
+
+  const counts = new Map<string, number>();
+  for (const r of responses) {
+    counts.set(r.object.goalId, (counts.get(r.object.goalId) ?? 0) + 1);
+  }
+
+  const weekStart = getWeekStart(session.startedAt);
+  const goals = await db.curriculumGoal.findMany({
+    where: { userId: session.userId, goalSpecId: { in: Array.from(counts.keys()) } },
+    select: { id: true, goalSpecId: true },
+  });
+
+  await db.$transaction(
+    goals.map((goal) =>
+      db.timeAllocation.updateMany({
+        where: { goalId: goal.id, sessionDate: weekStart },
+        data: {
+          actualMinutes: {
+            increment: Math.round((minutes * (counts.get(goal.goalSpecId!) ?? 0)) / responses.length),
+          },
+        },
+      })
+    )
+  );
+}
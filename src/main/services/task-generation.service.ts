@@ -11,6 +11,10 @@ import { getMasteryState } from '../db/repositories/mastery.repository';
 import { getCollocationsForWord } from '../db/repositories/collocation.repository';
 import { getWordDifficulty, type WordDifficultyResult } from './pmi.service';
 import { getClaudeService } from './claude.service';
+import { buildMCQOptions } from './distractor.service';
+import { selectContextSentence, toCloze, type ContextSentenceMatch } from './context-bank.service';
+import { getGloss, type Gloss } from './glossary.service';
+import type { TaskIntent } from './intent-planning.service';
 import type { LearningQueueItem } from './state-priority.service';
 import {
   recommendTask,
@@ -20,6 +24,14 @@ import {
   type WordProfile,
 } from '../../core/task-matching';
 import { analyzeResponseTime, getTargetResponseTime } from '../../core/response-timing';
+import { gradeAnswer, type AnswerVerdict } from '../../core/answer-grading';
+import type { Distractor } from '../../core/tasks';
+import {
+  GRAMMAR_TRACK_CONFIG,
+  getTrackConstruction,
+  buildConstructionTask,
+  type SyntacticConstruction,
+} from '../../core/grammar';
 import {
   selectContextWithGeneralization,
   getObjectUsageSpace,
@@ -57,9 +69,19 @@ export interface GeneratedTask {
   spec: TaskSpec;
   prompt: string;
   expectedAnswer: string;
+  /** Other answers accepted with full credit */
+  acceptedAnswers?: string[];
   options?: string[];
+  /** MCQ distractors among the options, with the strategy behind each */
+  distractors?: Distractor[];
+  /** Intent the task was issued for and its predicted success */
+  intent?: TaskIntent;
   hints?: string[];
+  /** Primary glossary sense of the target, shown with hints and feedback */
+  gloss?: Gloss;
   context?: string;
+  /** Uploaded document the context sentence was taken from */
+  contextSource?: ContextSource;
   relatedWords?: string[];
   metadata: {
     generatedAt: Date;
@@ -68,6 +90,24 @@ export interface GeneratedTask {
   };
 }
 
+/**
+ * A task handed to the learner in one session.
+ */
+export interface IssuedTask {
+  id: string;
+  sessionId: string;
+  /** Set once a response consumed the task */
+  answeredAt: Date | null;
+  task: GeneratedTask;
+}
+
+export interface ContextSource {
+  sentenceId: string;
+  filename: string;
+  page: number | null;
+  startMs: number | null;
+}
+
 export interface TaskGenerationConfig {
   preferredModality?: TaskModality;
   maxCueLevel?: CueLevel;
@@ -379,46 +419,6 @@ function mapFormatToTaskType(format: TaskFormat): TaskType {
   return mapping[format];
 }
 
-/**
- * Generate MCQ options (distractors).
- */
-async function generateMCQOptions(
-  objectId: string,
-  correctAnswer: string,
-  count: number = 3
-): Promise<string[]> {
-  const db = getPrisma();
-
-  // Get object to find similar items
-  const object = await db.languageObject.findUnique({
-    where: { id: objectId },
-  });
-
-  if (!object) return [correctAnswer];
-
-  // Find similar objects by type
-  const similar = await db.languageObject.findMany({
-    where: {
-      goalId: object.goalId,
-      type: object.type,
-      id: { not: objectId },
-    },
-    take: count * 2,
-    orderBy: { frequency: 'desc' },
-  });
-
-  // Shuffle and select
-  const distractors = similar
-    .map((s) => s.content)
-    .filter((c) => c !== correctAnswer)
-    .sort(() => Math.random() - 0.5)
-    .slice(0, count);
-
-  // Combine with correct answer and shuffle
-  const options = [correctAnswer, ...distractors];
-  return options.sort(() => Math.random() - 0.5);
-}
-
 /**
  * Generate a complete task with content.
  */
@@ -427,7 +427,8 @@ export async function generateTask(
   config: TaskGenerationConfig = {}
 ): Promise<GeneratedTask> {
   const spec = await generateTaskSpec(item, config);
-  const hints = generateHints(spec.content, spec.cueLevel);
+  const gloss = await findGloss(spec.objectId);
+  const hints = [...glossHints(gloss, spec), ...generateHints(spec.content, spec.cueLevel)];
 
   // Get collocations for context
   const collocations = await getCollocationsForWord(spec.objectId, 3, 5);
@@ -436,19 +437,34 @@ export async function generateTask(
   let prompt: string;
   let expectedAnswer: string = spec.content;
   let options: string[] | undefined;
+  let distractors: Distractor[] | undefined;
   let context: string | undefined;
+  let authentic: ContextSentenceMatch | null = null;
 
   // Generate format-specific content
   switch (spec.format) {
     case 'mcq':
-      options = await generateMCQOptions(spec.objectId, spec.content);
-      prompt = generateMCQPrompt(spec, relatedWords);
+      ({ options, distractors } = await buildMCQOptions(spec.objectId, spec.content));
+      authentic = await findAuthenticContext(spec.objectId);
+      if (authentic) {
+        // Context inference: pick the word that fits the learner's own sentence
+        prompt = 'Which word completes this sentence?';
+        context = toCloze(authentic).context;
+      } else {
+        prompt = generateMCQPrompt(spec, relatedWords, gloss);
+      }
       break;
 
     case 'fill_blank':
-      const result = generateFillBlankPrompt(spec, relatedWords);
-      prompt = result.prompt;
-      context = result.context;
+      authentic = await findAuthenticContext(spec.objectId);
+      if (authentic) {
+        prompt = 'Fill in the blank:';
+        context = toCloze(authentic).context;
+      } else {
+        const result = generateFillBlankPrompt(spec, relatedWords, gloss);
+        prompt = result.prompt;
+        context = result.context;
+      }
       break;
 
     case 'matching':
@@ -481,8 +497,11 @@ export async function generateTask(
     prompt,
     expectedAnswer,
     options,
+    distractors,
     hints: spec.cueLevel > 0 ? hints : undefined,
+    gloss: gloss ?? undefined,
     context,
+    contextSource: authentic ? toContextSource(authentic) : undefined,
     relatedWords: relatedWords.length > 0 ? relatedWords : undefined,
     metadata: {
       generatedAt: new Date(),
@@ -496,7 +515,67 @@ export async function generateTask(
 // Prompt Generation Helpers
 // =============================================================================
 
-function generateMCQPrompt(spec: TaskSpec, relatedWords: string[]): string {
+/**
+ * Sentence from the learner's uploaded documents containing the target.
+ * Authentic contexts take precedence over template ones; without any (or
+ * if the bank cannot be read) the templates are used.
+ */
+async function findAuthenticContext(objectId: string): Promise<ContextSentenceMatch | null> {
+  try {
+    return await selectContextSentence(objectId);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Primary gloss of the target for the learner, or null when it has no
+ * glossary (or the glossary cannot be read).
+ */
+async function findGloss(objectId: string): Promise<Gloss | null> {
+  try {
+    return await getGloss(objectId);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the target in a gloss text so it does not give the answer away.
+ */
+function maskTarget(text: string, content: string): string {
+  const escaped = content.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.replace(new RegExp(`\\b${escaped}\\b`, 'gi'), '____');
+}
+
+/**
+ * Meaning hint ahead of the form hints: the native-language translation,
+ * or the definition when the translation is the task prompt or unknown.
+ */
+function glossHints(gloss: Gloss | null, spec: TaskSpec, isTranslation = false): string[] {
+  if (!gloss || spec.cueLevel === 0) {
+    return [];
+  }
+  if (gloss.translation && !isTranslation) {
+    return [`Meaning: "${gloss.translation}"`];
+  }
+  return gloss.definition ? [`Meaning: ${maskTarget(gloss.definition, spec.content)}`] : [];
+}
+
+function toContextSource(match: ContextSentenceMatch): ContextSource {
+  return {
+    sentenceId: match.sentenceId,
+    filename: match.filename,
+    page: match.page,
+    startMs: match.startMs,
+  };
+}
+
+function generateMCQPrompt(spec: TaskSpec, relatedWords: string[], gloss: Gloss | null): string {
+  if (gloss?.definition) {
+    return `Which word means "${maskTarget(gloss.definition, spec.content)}"?`;
+  }
+
   const prompts = [
     `Which word means "${getDefinitionPlaceholder(spec.content)}"?`,
     `Select the correct word to complete: "${relatedWords[0] ?? 'The'} ____"`,
@@ -508,7 +587,8 @@ function generateMCQPrompt(spec: TaskSpec, relatedWords: string[]): string {
 
 function generateFillBlankPrompt(
   spec: TaskSpec,
-  relatedWords: string[]
+  relatedWords: string[],
+  gloss: Gloss | null
 ): { prompt: string; context: string } {
   const collocation = relatedWords[0];
 
@@ -521,7 +601,24 @@ function generateFillBlankPrompt(
 
   return {
     prompt: `Type the word that matches this definition:`,
-    context: getDefinitionPlaceholder(spec.content),
+    context: gloss?.definition
+      ? maskTarget(gloss.definition, spec.content)
+      : getDefinitionPlaceholder(spec.content),
+  };
+}
+
+/**
+ * Translation of the primary sense's native-language gloss back into the
+ * target language.
+ */
+function generateTranslationPrompt(
+  spec: TaskSpec,
+  translation: string,
+  gloss: Gloss
+): { prompt: string; context: string | undefined } {
+  return {
+    prompt: `Translate into the language you are learning: "${translation}"`,
+    context: gloss.definition ? maskTarget(gloss.definition, spec.content) : undefined,
   };
 }
 
@@ -826,6 +923,67 @@ export async function cacheTask(
   });
 }
 
+/**
+ * Issue a task to the learner in a session.
+ * Every call gets its own row, so a cached task handed out twice is
+ * answered twice under different ids.
+ *
+ * @returns The issued task id the answer is submitted against
+ */
+export async function issueTask(sessionId: string, task: GeneratedTask): Promise<string> {
+  const issued = await getPrisma().issuedTask.create({
+    data: {
+      sessionId,
+      objectId: task.spec.objectId,
+      taskContent: JSON.stringify(task),
+    },
+    select: { id: true },
+  });
+
+  return issued.id;
+}
+
+/**
+ * Look up an issued task by id.
+ * The task is returned even once answered so the caller can tell a
+ * repeated submission from an unknown task.
+ */
+export async function getIssuedTask(taskId: string): Promise<IssuedTask | null> {
+  const issued = await getPrisma().issuedTask.findUnique({ where: { id: taskId } });
+  if (!issued) {
+    return null;
+  }
+
+  try {
+    return {
+      id: issued.id,
+      sessionId: issued.sessionId,
+      answeredAt: issued.answeredAt,
+      task: JSON.parse(issued.taskContent) as GeneratedTask,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Grade a response to an issued task.
+ * Choice formats only accept an offered option; typed answers get typo,
+ * accent and inflection tolerance.
+ */
+export function gradeTaskResponse(task: GeneratedTask, response: string): AnswerVerdict {
+  const isChoice = task.spec.format === 'mcq' && Boolean(task.options?.length);
+  return gradeAnswer(
+    response,
+    {
+      expected: task.expectedAnswer,
+      alternatives: task.acceptedAnswers,
+      options: isChoice ? task.options : undefined,
+    },
+    { mode: isChoice ? 'choice' : 'text' }
+  );
+}
+
 /**
  * Generate or retrieve cached task.
  */
@@ -887,7 +1045,8 @@ export async function generateTaskWithClaude(
 
   // Generate spec first (same as template-based)
   const spec = await generateTaskSpec(item, config);
-  const hints = generateHints(spec.content, spec.cueLevel);
+  const gloss = await findGloss(spec.objectId);
+  const hints = [...glossHints(gloss, spec), ...generateHints(spec.content, spec.cueLevel)];
 
   // Get collocations for context
   const collocations = await getCollocationsForWord(spec.objectId, 3, 5);
@@ -916,6 +1075,7 @@ export async function generateTaskWithClaude(
         prompt: claudePrompt,
         expectedAnswer: spec.content,
         hints: spec.cueLevel > 0 ? hints : undefined,
+        gloss: gloss ?? undefined,
         relatedWords: relatedWords.length > 0 ? relatedWords : undefined,
         metadata: {
           generatedAt: new Date(),
@@ -1059,9 +1219,14 @@ export async function generateTaskWithMatching(
     clause_selection: 'mcq',                // Select appropriate clause type
     error_correction: 'fill_blank',         // Fix syntactic errors
     sentence_writing: 'free_response',      // Produce target structure
+    // Typed recall of the word from its native-language gloss
+    translation: 'fill_blank',
   };
 
   const format = taskTypeToFormat[recommendation.taskType] ?? selectTaskFormat(stage);
+  const gloss = await findGloss(item.objectId);
+  const translation =
+    recommendation.taskType === 'translation' ? (gloss?.translation ?? null) : null;
 
   // Get optimal modality from z(w) vector
   const modality = config.preferredModality ?? (getOptimalModality(zVector) as TaskModality);
@@ -1099,7 +1264,10 @@ export async function generateTaskWithMatching(
     isFluencyTask,
   };
 
-  const hints = generateHints(spec.content, spec.cueLevel);
+  const hints = [
+    ...glossHints(gloss, spec, translation !== null),
+    ...generateHints(spec.content, spec.cueLevel),
+  ];
 
   // Get collocations for context
   const collocations = await getCollocationsForWord(spec.objectId, 3, 5);
@@ -1108,19 +1276,38 @@ export async function generateTaskWithMatching(
   let prompt: string;
   let expectedAnswer: string = spec.content;
   let options: string[] | undefined;
+  let distractors: Distractor[] | undefined;
   let context: string | undefined;
+  let authentic: ContextSentenceMatch | null = null;
 
   // Generate format-specific content with task type awareness
   switch (spec.format) {
     case 'mcq':
-      options = await generateMCQOptions(spec.objectId, spec.content);
-      prompt = generateMCQPrompt(spec, relatedWords);
+      ({ options, distractors } = await buildMCQOptions(spec.objectId, spec.content));
+      authentic = await findAuthenticContext(spec.objectId);
+      if (authentic) {
+        // Context inference: pick the word that fits the learner's own sentence
+        prompt = 'Which word completes this sentence?';
+        context = toCloze(authentic).context;
+      } else {
+        prompt = generateMCQPrompt(spec, relatedWords, gloss);
+      }
       break;
 
     case 'fill_blank':
-      const result = generateFillBlankPrompt(spec, relatedWords);
-      prompt = result.prompt;
-      context = result.context;
+      if (translation && gloss) {
+        ({ prompt, context } = generateTranslationPrompt(spec, translation, gloss));
+        break;
+      }
+      authentic = await findAuthenticContext(spec.objectId);
+      if (authentic) {
+        prompt = 'Fill in the blank:';
+        context = toCloze(authentic).context;
+      } else {
+        const result = generateFillBlankPrompt(spec, relatedWords, gloss);
+        prompt = result.prompt;
+        context = result.context;
+      }
       break;
 
     case 'matching':
@@ -1160,8 +1347,11 @@ export async function generateTaskWithMatching(
     prompt,
     expectedAnswer,
     options,
+    distractors,
     hints: spec.cueLevel > 0 ? hints : undefined,
+    gloss: gloss ?? undefined,
     context,
+    contextSource: authentic ? toContextSource(authentic) : undefined,
     relatedWords: relatedWords.length > 0 ? relatedWords : undefined,
     metadata: {
       generatedAt: new Date(),
@@ -1180,6 +1370,48 @@ export async function generateTaskWithMatching(
   };
 }
 
+/**
+ * Generate a practice task for a grammar track construction: picking the
+ * sentence that uses it while it is new, rebuilding an example afterwards.
+ */
+export async function generateConstructionTask(
+  item: LearningQueueItem,
+  construction: SyntacticConstruction,
+  config: TaskGenerationConfig = {}
+): Promise<GeneratedTask> {
+  const mastery = await getMasteryState(item.objectId);
+  const stage = mastery?.stage ?? item.stage;
+  const built = buildConstructionTask(construction, stage, mastery?.exposureCount ?? 0);
+
+  const spec: TaskSpec = {
+    objectId: item.objectId,
+    content: item.content,
+    type: item.type,
+    format: built.format,
+    modality: config.preferredModality ?? 'visual',
+    cueLevel: 0,
+    difficulty: calculateTaskDifficulty(
+      GRAMMAR_TRACK_CONFIG.cefrDifficulty[construction.cefrLevel] + (config.difficultyAdjustment ?? 0),
+      built.format,
+      0
+    ),
+    isFluencyTask: false,
+  };
+
+  return {
+    spec,
+    prompt: built.prompt,
+    expectedAnswer: built.expectedAnswer,
+    options: built.options,
+    hints: built.hints,
+    metadata: {
+      generatedAt: new Date(),
+      source: 'template',
+      estimatedTimeSeconds: built.format === 'mcq' ? 10 : 25,
+    },
+  };
+}
+
 /**
  * Get or generate task using task-matching when available.
  */
@@ -1187,21 +1419,25 @@ export async function getOrGenerateTaskWithMatching(
   item: LearningQueueItem,
   config: EnhancedTaskGenerationConfig = {}
 ): Promise<GeneratedTask> {
-  // Try cache first
+  // Try cache first; a task in another modality does not meet a preference
   const cached = await getCachedTask(
     item.objectId,
     item.type,
     selectTaskFormat(item.stage).toString()
   );
 
-  if (cached) {
+  if (cached && (!config.preferredModality || cached.spec.modality === config.preferredModality)) {
     return cached;
   }
 
-  // Generate new task using task-matching if enabled
-  const task = config.useTaskMatching
-    ? await generateTaskWithMatching(item, config)
-    : await generateTask(item, config);
+  // Grammar track constructions are practised on their example sentences;
+  // everything else uses task-matching if enabled
+  const construction = getTrackConstruction(item.type, item.content);
+  const task = construction
+    ? await generateConstructionTask(item, construction, config)
+    : config.useTaskMatching
+      ? await generateTaskWithMatching(item, config)
+      : await generateTask(item, config);
 
   // Cache for future use
   await cacheTask(
@@ -2028,12 +2264,13 @@ export async function generateMultiObjectTask(
     config.maxCueLevel
   );
 
-  const hints = generateHints(primaryObject.content, cueLevel);
+  const gloss = await findGloss(primaryItem.objectId);
   const collocations = await getCollocationsForWord(primaryItem.objectId, 3, 5);
   const relatedWords = collocations.map(c => c.word);
 
   let prompt: string;
   let options: string[] | undefined;
+  let distractors: Distractor[] | undefined;
   let context: string | undefined;
 
   const spec: TaskSpec = {
@@ -2046,16 +2283,17 @@ export async function generateMultiObjectTask(
     difficulty: multiObjectSpec.compositeDifficulty,
     isFluencyTask,
   };
+  const hints = [...glossHints(gloss, spec), ...generateHints(primaryObject.content, cueLevel)];
 
   // Generate format-specific content
   switch (format) {
     case 'mcq':
-      options = await generateMCQOptions(primaryItem.objectId, primaryObject.content);
-      prompt = generateMCQPrompt(spec, relatedWords);
+      ({ options, distractors } = await buildMCQOptions(primaryItem.objectId, primaryObject.content));
+      prompt = generateMCQPrompt(spec, relatedWords, gloss);
       break;
 
     case 'fill_blank':
-      const result = generateFillBlankPrompt(spec, relatedWords);
+      const result = generateFillBlankPrompt(spec, relatedWords, gloss);
       prompt = result.prompt;
       context = result.context;
       break;
@@ -2093,7 +2331,9 @@ export async function generateMultiObjectTask(
     prompt,
     expectedAnswer,
     options,
+    distractors,
     hints: cueLevel > 0 ? hints : undefined,
+    gloss: gloss ?? undefined,
     context,
     relatedWords: relatedWords.length > 0 ? relatedWords : undefined,
     metadata: {
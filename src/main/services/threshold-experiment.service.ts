@@ -0,0 +1,511 @@
+/**
+ * Threshold Experiment Service
+ *
+ * Persists A/B experiments on stage thresholds and mirrors them into the
+ * ThresholdRegistry from core/stage-thresholds.ts.
+ *
+ * - Experiments and their groups are stored in ThresholdExperiment.
+ * - Users are assigned with the registry's deterministic hash, and the
+ *   assignment is stored so it survives restarts.
+ * - session:submit-response asks for the user's ThresholdConfig and logs
+ *   every StageTransition with the config/experiment/group that decided it.
+ * - getExperimentResults compares groups on retention and time-to-mastery.
+ */
+
+import { randomUUID } from 'crypto';
+import { getPrisma } from '../db/prisma';
+import {
+  thresholdRegistry,
+  computeRetention,
+  compareProportions,
+  summarizeDurations,
+  type ABTest,
+  type ABTestGroup,
+  type ThresholdConfig,
+  type RetentionStats,
+  type ProportionComparison,
+} from '../../core/stage-thresholds';
+import type { StageThresholds } from '../../core/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ExperimentMetric = ABTest['primaryMetric'];
+
+/**
+ * Experiment group; `thresholds` defines a custom configuration for the group
+ * instead of referencing a registered one by configId.
+ */
+export interface ExperimentGroupDefinition extends Omit<ABTestGroup, 'configId'> {
+  configId?: string;
+  thresholds?: StageThresholds;
+}
+
+export interface CreateExperimentInput {
+  name: string;
+  description?: string;
+  primaryMetric: ExperimentMetric;
+  groups: ExperimentGroupDefinition[];
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface ThresholdExperimentRecord {
+  id: string;
+  name: string;
+  description: string;
+  primaryMetric: ExperimentMetric;
+  groups: ABTestGroup[];
+  startDate: Date;
+  endDate: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export interface UserThresholdConfig {
+  config: ThresholdConfig;
+  /** Set when the config comes from an experiment group */
+  experimentId: string | null;
+  groupId: string | null;
+}
+
+export interface ExperimentGroupResult {
+  groupId: string;
+  configId: string;
+  users: number;
+  transitions: number;
+  advancements: number;
+  demotions: number;
+  /** Share of logged transitions that were advancements */
+  advancementRate: number;
+  /** Recall on all repeat reviews during the experiment */
+  retention: RetentionStats;
+  /** Recall on reviews at least 30 days after the previous one */
+  retention30d: RetentionStats;
+  /** Days from an object's first response to reaching Stage 4 */
+  timeToMasteryDays: { count: number; mean: number; median: number };
+  /** Difference from the control (first) group; null for the control itself */
+  vsControl: { retention: ProportionComparison; retention30d: ProportionComparison } | null;
+}
+
+export interface ExperimentResults {
+  experiment: ThresholdExperimentRecord;
+  controlGroupId: string;
+  groups: ExperimentGroupResult[];
+}
+
+// =============================================================================
+// Registry Sync
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let experimentsLoaded = false;
+const userConfigCache = new Map<string, UserThresholdConfig>();
+
+/**
+ * Config ID used for a group's custom thresholds.
+ */
+export function customConfigId(experimentId: string, groupId: string): string {
+  return `experiment:${experimentId}:${groupId}`;
+}
+
+function parseGroups(json: string): ExperimentGroupDefinition[] {
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return Array.isArray(parsed) ? (parsed as ExperimentGroupDefinition[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function toRecord(row: {
+  id: string;
+  name: string;
+  description: string;
+  primaryMetric: string;
+  groups: string;
+  startDate: Date;
+  endDate: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+}): ThresholdExperimentRecord {
+  return {
+    ...row,
+    primaryMetric: row.primaryMetric as ExperimentMetric,
+    groups: parseGroups(row.groups).map(({ id, configId, proportion, hypothesis, thresholds }) => ({
+      id,
+      configId: thresholds ? customConfigId(row.id, id) : (configId ?? ''),
+      proportion,
+      hypothesis,
+    })),
+  };
+}
+
+/**
+ * Register custom group configs and the A/B test itself with the registry.
+ * Throws when proportions or thresholds are invalid.
+ */
+function registerWithRegistry(
+  id: string,
+  name: string,
+  description: string,
+  primaryMetric: ExperimentMetric,
+  groups: ExperimentGroupDefinition[],
+  startDate: Date,
+  endDate: Date | null,
+  isActive: boolean
+): void {
+  const resolved: ABTestGroup[] = groups.map((group) => {
+    if (group.thresholds) {
+      const configId = customConfigId(id, group.id);
+      thresholdRegistry.registerConfig({
+        id: configId,
+        name: `${name} / ${group.id}`,
+        description: group.hypothesis,
+        thresholds: group.thresholds,
+        isExperimental: true,
+        version: 1,
+        createdAt: startDate,
+      });
+      return { id: group.id, configId, proportion: group.proportion, hypothesis: group.hypothesis };
+    }
+    if (!group.configId) {
+      throw new Error(`Group ${group.id} needs a configId or custom thresholds`);
+    }
+    return {
+      id: group.id,
+      configId: group.configId,
+      proportion: group.proportion,
+      hypothesis: group.hypothesis,
+    };
+  });
+
+  thresholdRegistry.registerABTest({
+    id,
+    name,
+    description,
+    groups: resolved,
+    startDate,
+    endDate: endDate ?? undefined,
+    primaryMetric,
+    isActive,
+  });
+}
+
+/**
+ * Load stored experiments into the registry (once per process).
+ */
+export async function loadExperiments(): Promise<void> {
+  if (experimentsLoaded) {
+    return;
+  }
+
+  const db = getPrisma();
+  const rows = await db.thresholdExperiment.findMany({ orderBy: { createdAt: 'asc' } });
+
+  for (const row of rows) {
+    try {
+      registerWithRegistry(
+        row.id,
+        row.name,
+        row.description,
+        row.primaryMetric as ExperimentMetric,
+        parseGroups(row.groups),
+        row.startDate,
+        row.endDate,
+        row.isActive
+      );
+    } catch (err) {
+      console.warn(`[Experiments] Skipping invalid experiment ${row.id}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  experimentsLoaded = true;
+}
+
+/**
+ * Forget loaded experiments and cached user configs.
+ */
+export function clearExperimentCache(): void {
+  experimentsLoaded = false;
+  userConfigCache.clear();
+}
+
+// =============================================================================
+// Experiment Management
+// =============================================================================
+
+/**
+ * Create and start an experiment. Group proportions must sum to 1.
+ */
+export async function createExperiment(input: CreateExperimentInput): Promise<ThresholdExperimentRecord> {
+  await loadExperiments();
+
+  const id = randomUUID();
+  const startDate = input.startDate ?? new Date();
+  const description = input.description ?? '';
+
+  // Stored groups keep custom thresholds so they can be re-registered on load
+  registerWithRegistry(
+    id,
+    input.name,
+    description,
+    input.primaryMetric,
+    input.groups,
+    startDate,
+    input.endDate ?? null,
+    true
+  );
+
+  const db = getPrisma();
+  const row = await db.thresholdExperiment.create({
+    data: {
+      id,
+      name: input.name,
+      description,
+      primaryMetric: input.primaryMetric,
+      groups: JSON.stringify(input.groups),
+      startDate,
+      endDate: input.endDate ?? null,
+      isActive: true,
+    },
+  });
+
+  userConfigCache.clear();
+  return toRecord(row);
+}
+
+/**
+ * List experiments, newest first.
+ */
+export async function listExperiments(activeOnly: boolean = false): Promise<ThresholdExperimentRecord[]> {
+  const db = getPrisma();
+  const rows = await db.thresholdExperiment.findMany({
+    where: activeOnly ? { isActive: true } : {},
+    orderBy: { createdAt: 'desc' },
+  });
+  return rows.map(toRecord);
+}
+
+/**
+ * Stop an experiment. Users fall back to the default configuration;
+ * their assignments and logged transitions are kept for analysis.
+ */
+export async function endExperiment(experimentId: string): Promise<ThresholdExperimentRecord> {
+  await loadExperiments();
+
+  const db = getPrisma();
+  const row = await db.thresholdExperiment.update({
+    where: { id: experimentId },
+    data: { isActive: false, endDate: new Date() },
+  });
+
+  registerWithRegistry(
+    row.id,
+    row.name,
+    row.description,
+    row.primaryMetric as ExperimentMetric,
+    parseGroups(row.groups),
+    row.startDate,
+    row.endDate,
+    false
+  );
+
+  userConfigCache.clear();
+  return toRecord(row);
+}
+
+// =============================================================================
+// Assignment
+// =============================================================================
+
+/**
+ * Get the threshold configuration that should decide a user's stage
+ * transitions.
+ *
+ * The first running experiment (oldest first) wins. Existing stored
+ * assignments are reused; new users are assigned with the registry's
+ * deterministic hash and the assignment is persisted. Falls back to the
+ * registry default when there is no running experiment or on any error.
+ */
+export async function getThresholdConfigForUser(userId: string): Promise<UserThresholdConfig> {
+  const cached = userConfigCache.get(userId);
+  if (cached) {
+    return cached;
+  }
+
+  const fallback: UserThresholdConfig = {
+    config: thresholdRegistry.getDefaultConfig(),
+    experimentId: null,
+    groupId: null,
+  };
+
+  try {
+    await loadExperiments();
+    const db = getPrisma();
+    const now = Date.now();
+
+    const running = thresholdRegistry
+      .listActiveTests()
+      .filter((t) => t.startDate.getTime() <= now && (!t.endDate || t.endDate.getTime() > now))
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+    let result = fallback;
+    for (const test of running) {
+      const stored = await db.experimentAssignment.findUnique({
+        where: { userId_experimentId: { userId, experimentId: test.id } },
+      });
+
+      if (stored) {
+        const config = thresholdRegistry.getConfig(stored.configId);
+        if (config) {
+          result = { config, experimentId: test.id, groupId: stored.groupId };
+          break;
+        }
+        continue;
+      }
+
+      const assignment = thresholdRegistry.assignUserToTest(userId, test.id);
+      const config = assignment ? thresholdRegistry.getConfig(assignment.configId) : undefined;
+      if (assignment && config) {
+        await db.experimentAssignment.upsert({
+          where: { userId_experimentId: { userId, experimentId: test.id } },
+          create: {
+            userId,
+            experimentId: test.id,
+            groupId: assignment.groupId,
+            configId: assignment.configId,
+          },
+          update: {},
+        });
+        result = { config, experimentId: test.id, groupId: assignment.groupId };
+        break;
+      }
+    }
+
+    userConfigCache.set(userId, result);
+    return result;
+  } catch (err) {
+    console.warn('[Experiments] Falling back to default thresholds:', err instanceof Error ? err.message : err);
+    return fallback;
+  }
+}
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+/**
+ * Compare experiment groups on retention and time-to-mastery.
+ *
+ * The first group is treated as control; every other group gets a
+ * two-proportion z-test on both retention measures against it.
+ */
+export async function getExperimentResults(experimentId: string): Promise<ExperimentResults> {
+  const db = getPrisma();
+  const row = await db.thresholdExperiment.findUnique({ where: { id: experimentId } });
+  if (!row) {
+    throw new Error(`Experiment not found: ${experimentId}`);
+  }
+
+  const experiment = toRecord(row);
+  const windowEnd = experiment.endDate ?? new Date();
+
+  const [assignments, transitions] = await Promise.all([
+    db.experimentAssignment.findMany({
+      where: { experimentId },
+      select: { userId: true, groupId: true },
+    }),
+    db.stageTransition.findMany({
+      where: { experimentId },
+      select: {
+        fromStage: true,
+        toStage: true,
+        createdAt: true,
+        experimentGroupId: true,
+        masteryState: { select: { objectId: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  const groups: ExperimentGroupResult[] = [];
+  for (const group of experiment.groups) {
+    const userIds = assignments.filter((a) => a.groupId === group.id).map((a) => a.userId);
+    const groupTransitions = transitions.filter((t) => t.experimentGroupId === group.id);
+
+    const responses = userIds.length > 0
+      ? await db.response.findMany({
+          where: {
+            session: { userId: { in: userIds } },
+            createdAt: { gte: experiment.startDate, lte: windowEnd },
+          },
+          select: { objectId: true, correct: true, createdAt: true },
+        })
+      : [];
+    const reviews = responses.map((r) => ({
+      objectId: r.objectId,
+      correct: r.correct,
+      timestamp: r.createdAt,
+    }));
+
+    // First Stage 4 arrival per object, measured from its first response
+    const masteredAt = new Map<string, Date>();
+    for (const t of groupTransitions) {
+      if (t.toStage === 4 && !masteredAt.has(t.masteryState.objectId)) {
+        masteredAt.set(t.masteryState.objectId, t.createdAt);
+      }
+    }
+    const firstSeen = masteredAt.size > 0
+      ? await db.response.groupBy({
+          by: ['objectId'],
+          where: { objectId: { in: [...masteredAt.keys()] } },
+          _min: { createdAt: true },
+        })
+      : [];
+    const masteryDays = firstSeen
+      .filter((f) => f._min.createdAt)
+      .map((f) => (masteredAt.get(f.objectId)!.getTime() - f._min.createdAt!.getTime()) / DAY_MS);
+
+    const advancements = groupTransitions.filter((t) => t.toStage > t.fromStage).length;
+    const demotions = groupTransitions.filter((t) => t.toStage < t.fromStage).length;
+
+    groups.push({
+      groupId: group.id,
+      configId: group.configId,
+      users: userIds.length,
+      transitions: groupTransitions.length,
+      advancements,
+      demotions,
+      advancementRate: groupTransitions.length > 0 ? advancements / groupTransitions.length : 0,
+      retention: computeRetention(reviews),
+      retention30d: computeRetention(reviews, 30),
+      timeToMasteryDays: summarizeDurations(masteryDays),
+      vsControl: null,
+    });
+  }
+
+  const control = groups[0];
+  if (control) {
+    for (const group of groups.slice(1)) {
+      group.vsControl = {
+        retention: compareProportions(
+          control.retention.recalled,
+          control.retention.reviews,
+          group.retention.recalled,
+          group.retention.reviews
+        ),
+        retention30d: compareProportions(
+          control.retention30d.recalled,
+          control.retention30d.reviews,
+          group.retention30d.recalled,
+          group.retention30d.reviews
+        ),
+      };
+    }
+  }
+
+  return { experiment, controlGroupId: control?.groupId ?? '', groups };
+}
@@ -0,0 +1,483 @@
+/**
+ * User Object Graph Service
+ *
+ * Keeps the encounter ledger (ObjectEncounter) and the per-user object
+ * relationship (UserObjectRelationship) up to date, using
+ * core/user-object-graph.ts for the interpretation/production ratio,
+ * modality balance and knowledge strength.
+ *
+ * - recordEncounter logs the context of every response and rebuilds the
+ *   relationship's exposure counts from the most recent encounters.
+ * - getObjectExposure reports how an object has been practised and where
+ *   the practice is lopsided ("you only ever recognise this word").
+ * - getPreferredModality and applyExposureBias steer task generation and
+ *   the learning queue toward the under-practised side. Modalities the
+ *   goal does not train (e.g. listening for a reading-only goal) are
+ *   never asked for.
+ */
+
+import { getPrisma } from '../db/prisma';
+import {
+  buildRelationshipStats,
+  classifyTaskCategory,
+  type ObjectEncounter,
+  type ObjectRelationshipStats,
+  type TaskCategory,
+} from '../../core/user-object-graph';
+import type { QueueItem } from '../../core/priority';
+import type { TaskFormat, TaskModality, TaskType } from '../../core/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Modalities tracked separately in the ledger */
+export type EncounterModality = 'visual' | 'auditory' | 'mixed';
+
+export interface EncounterInput {
+  userId: string;
+  objectId: string;
+  responseId?: string;
+  taskType: string;
+  taskFormat: string;
+  modality: string;
+  domain: string;
+  successful: boolean;
+  responseTimeMs: number;
+  cueLevel: number;
+  userTheta?: number;
+  itemDifficulty?: number;
+}
+
+export type ExposureFindingKind =
+  | 'never_produced'
+  | 'never_interpreted'
+  | 'mostly_interpretation'
+  | 'mostly_production'
+  | 'modality_gap';
+
+export interface ExposureFinding {
+  kind: ExposureFindingKind;
+  /** Under-practised modality, for modality gaps */
+  modality?: EncounterModality;
+  message: string;
+}
+
+export interface EncounterSummary {
+  createdAt: Date;
+  taskCategory: TaskCategory;
+  taskType: string;
+  taskFormat: string;
+  modality: EncounterModality;
+  successful: boolean;
+}
+
+export interface ObjectExposure {
+  objectId: string;
+  totalEncounters: number;
+  interpretationEncounters: number;
+  productionEncounters: number;
+  interpretationSuccessRate: number;
+  productionSuccessRate: number;
+  modalityEncounters: Record<EncounterModality, number>;
+  /** 0 = all production, 1 = all interpretation */
+  interpretationRatio: number;
+  /** 0 = single modality, 1 = balanced */
+  modalityBalance: number;
+  knowledgeStrength: number;
+  /** Modalities the object's goal trains */
+  trainedModalities: EncounterModality[];
+  /** Under-practised side to practise next, if any */
+  recommendedCategory: TaskCategory | null;
+  recommendedModality: EncounterModality | null;
+  findings: ExposureFinding[];
+  recent: EncounterSummary[];
+}
+
+/** Counts shared by the relationship row and ObjectRelationshipStats */
+type ExposureCounts = Pick<
+  ObjectRelationshipStats,
+  | 'interpretationEncounters'
+  | 'productionEncounters'
+  | 'visualEncounters'
+  | 'auditoryEncounters'
+  | 'mixedEncounters'
+>;
+
+interface ExposureGaps {
+  category: TaskCategory | null;
+  modality: EncounterModality | null;
+  /** How one-sided the practice is (0-1) */
+  severity: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const USER_OBJECT_GRAPH_CONFIG = {
+  /** Most recent encounters the relationship is rebuilt from */
+  ledgerSize: 200,
+  /** Encounters shown in the exposure report */
+  recentSize: 10,
+  /** Encounters needed before an imbalance is reported */
+  minEncounters: 4,
+  /** Category ratio bounds (same as buildRelationshipProfile) */
+  categoryBounds: { low: 0.3, high: 0.7 },
+  /** A trained modality below this share of encounters is a gap */
+  modalityGapShare: 0.2,
+  /** Queue score multiplier at full severity (1 + queueBoost) */
+  queueBoost: 0.3,
+  /** Knowledge strength at which the relationship counts as mastered */
+  masteredStrength: 0.8,
+};
+
+/** Formats that only ask the learner to recognise the answer */
+const RECEPTIVE_FORMATS = new Set(['mcq', 'matching']);
+
+const MODALITY_ALIASES: Record<string, EncounterModality> = {
+  visual: 'visual',
+  text: 'visual',
+  auditory: 'auditory',
+  audio: 'auditory',
+  mixed: 'mixed',
+};
+
+const MODALITY_PRACTICE: Record<EncounterModality, string> = {
+  visual: 'read this word',
+  auditory: 'heard this word',
+  mixed: 'practised this word with audio and text together',
+};
+
+// =============================================================================
+// Classification
+// =============================================================================
+
+/**
+ * Interpretation or production. Recognition formats are interpretation
+ * whatever the task type says (a timed MCQ is still recognition).
+ */
+export function encounterCategory(taskType: string, taskFormat: string): TaskCategory {
+  return RECEPTIVE_FORMATS.has(taskFormat) ? 'interpretation' : classifyTaskCategory(taskType);
+}
+
+export function normalizeModality(modality: string): EncounterModality {
+  return MODALITY_ALIASES[modality] ?? 'visual';
+}
+
+/**
+ * Modalities a goal trains, from its JSON skill list.
+ * Text is always practised; audio only when the goal includes listening
+ * or speaking.
+ */
+export function trainedModalities(goalModality: string | null | undefined): EncounterModality[] {
+  let skills: string[] = [];
+  try {
+    skills = goalModality ? (JSON.parse(goalModality) as string[]) : [];
+  } catch {
+    skills = [];
+  }
+  return skills.includes('listening') || skills.includes('speaking')
+    ? ['visual', 'auditory', 'mixed']
+    : ['visual'];
+}
+
+function modalityCounts(counts: ExposureCounts): Record<EncounterModality, number> {
+  return {
+    visual: counts.visualEncounters,
+    auditory: counts.auditoryEncounters,
+    mixed: counts.mixedEncounters,
+  };
+}
+
+/**
+ * The under-practised category and modality of an object, if any.
+ */
+function findExposureGaps(counts: ExposureCounts, modalities: EncounterModality[]): ExposureGaps {
+  const { minEncounters, categoryBounds, modalityGapShare } = USER_OBJECT_GRAPH_CONFIG;
+  const gaps: ExposureGaps = { category: null, modality: null, severity: 0 };
+
+  const total = counts.interpretationEncounters + counts.productionEncounters;
+  if (total < minEncounters) {
+    return gaps;
+  }
+
+  const ratio = counts.interpretationEncounters / total;
+  if (ratio > categoryBounds.high || ratio < categoryBounds.low) {
+    gaps.category = ratio > categoryBounds.high ? 'production' : 'interpretation';
+    gaps.severity = Math.abs(ratio - 0.5) * 2;
+  }
+
+  if (modalities.length > 1) {
+    const byModality = modalityCounts(counts);
+    const least = modalities.reduce((a, b) => (byModality[b] < byModality[a] ? b : a));
+    const share = byModality[least] / total;
+    if (share < modalityGapShare) {
+      gaps.modality = least;
+      gaps.severity = Math.max(gaps.severity, 1 - share / modalityGapShare);
+    }
+  }
+
+  return gaps;
+}
+
+function describeGaps(counts: ExposureCounts, gaps: ExposureGaps): ExposureFinding[] {
+  const findings: ExposureFinding[] = [];
+
+  if (gaps.category === 'production') {
+    findings.push(
+      counts.productionEncounters === 0
+        ? { kind: 'never_produced', message: 'You only ever recognise this word, never produce it.' }
+        : { kind: 'mostly_interpretation', message: 'You mostly recognise this word; try producing it.' }
+    );
+  } else if (gaps.category === 'interpretation') {
+    findings.push(
+      counts.interpretationEncounters === 0
+        ? { kind: 'never_interpreted', message: 'You only ever produce this word, never recognise it in context.' }
+        : { kind: 'mostly_production', message: 'You mostly produce this word; try recognising it in context.' }
+    );
+  }
+
+  if (gaps.modality) {
+    const never = modalityCounts(counts)[gaps.modality] === 0;
+    findings.push({
+      kind: 'modality_gap',
+      modality: gaps.modality,
+      message: `You have ${never ? 'never' : 'rarely'} ${MODALITY_PRACTICE[gaps.modality]}.`,
+    });
+  }
+
+  return findings;
+}
+
+// =============================================================================
+// Ledger
+// =============================================================================
+
+type EncounterRow = {
+  id: string;
+  createdAt: Date;
+  userId: string;
+  objectId: string;
+  taskCategory: string;
+  taskType: string;
+  taskFormat: string;
+  modality: string;
+  domain: string;
+  userTheta: number;
+  itemDifficulty: number;
+  successful: boolean;
+  responseTimeMs: number;
+  cueLevel: number;
+};
+
+function toEncounter(row: EncounterRow): ObjectEncounter {
+  return {
+    id: row.id,
+    createdAt: row.createdAt,
+    objectId: row.objectId,
+    userId: row.userId,
+    context: {
+      taskCategory: row.taskCategory as TaskCategory,
+      taskType: row.taskType as TaskType,
+      taskFormat: row.taskFormat as TaskFormat,
+      modality: row.modality as TaskModality,
+      domain: row.domain,
+      userTheta: row.userTheta,
+      itemDifficulty: row.itemDifficulty,
+    },
+    outcome: {
+      successful: row.successful,
+      responseTimeMs: row.responseTimeMs,
+      cueLevel: row.cueLevel,
+    },
+  };
+}
+
+async function loadLedger(userId: string, objectId: string): Promise<EncounterRow[]> {
+  const rows = await getPrisma().objectEncounter.findMany({
+    where: { userId, objectId },
+    orderBy: { createdAt: 'desc' },
+    take: USER_OBJECT_GRAPH_CONFIG.ledgerSize,
+  });
+  return rows.reverse();
+}
+
+/**
+ * Log a response as an encounter and rebuild the user's relationship with
+ * the object from the ledger.
+ */
+export async function recordEncounter(
+  input: EncounterInput,
+  now: Date = new Date()
+): Promise<ObjectRelationshipStats> {
+  const db = getPrisma();
+  const { userId, objectId } = input;
+
+  await db.objectEncounter.create({
+    data: {
+      createdAt: now,
+      userId,
+      objectId,
+      responseId: input.responseId,
+      taskCategory: encounterCategory(input.taskType, input.taskFormat),
+      taskType: input.taskType,
+      taskFormat: input.taskFormat,
+      modality: normalizeModality(input.modality),
+      domain: input.domain,
+      userTheta: input.userTheta ?? 0,
+      itemDifficulty: input.itemDifficulty ?? 0,
+      successful: input.successful,
+      responseTimeMs: input.responseTimeMs,
+      cueLevel: input.cueLevel,
+    },
+  });
+
+  const ledger = await loadLedger(userId, objectId);
+  const stats = buildRelationshipStats(ledger.map(toEncounter), objectId, userId);
+  const meanResponseTime =
+    ledger.length > 0 ? ledger.reduce((sum, e) => sum + e.responseTimeMs, 0) / ledger.length : 0;
+
+  const existing = await db.userObjectRelationship.findUnique({
+    where: { userId_objectId: { userId, objectId } },
+    select: { relationshipType: true },
+  });
+  const relationshipType =
+    stats.knowledgeStrength >= USER_OBJECT_GRAPH_CONFIG.masteredStrength
+      ? 'mastered'
+      : existing?.relationshipType === 'mastered' && !input.successful
+        ? 'lapsed'
+        : 'learning';
+
+  const exposure = {
+    relationshipType,
+    strength: stats.knowledgeStrength,
+    lastEncounter: now,
+    successRate: stats.overallSuccessRate,
+    avgResponseTime: Math.round(meanResponseTime),
+    interpretationEncounters: stats.interpretationEncounters,
+    productionEncounters: stats.productionEncounters,
+    visualEncounters: stats.visualEncounters,
+    auditoryEncounters: stats.auditoryEncounters,
+    mixedEncounters: stats.mixedEncounters,
+    interpretationSuccessRate: stats.interpretationSuccessRate,
+    productionSuccessRate: stats.productionSuccessRate,
+    interpretationRatio: stats.interpretationRatio,
+    modalityBalance: stats.modalityBalance,
+  };
+
+  await db.userObjectRelationship.upsert({
+    where: { userId_objectId: { userId, objectId } },
+    create: { userId, objectId, ...exposure, encounterCount: 1, firstEncounter: now },
+    update: { ...exposure, encounterCount: { increment: 1 } },
+  });
+
+  return stats;
+}
+
+// =============================================================================
+// Exposure Reports
+// =============================================================================
+
+/**
+ * How an object has been practised by a user, with any imbalance spelled
+ * out.
+ *
+ * @returns The report, or null if the object does not exist
+ */
+export async function getObjectExposure(
+  userId: string,
+  objectId: string
+): Promise<ObjectExposure | null> {
+  const object = await getPrisma().languageObject.findUnique({
+    where: { id: objectId },
+    select: { goal: { select: { modality: true } } },
+  });
+  if (!object) {
+    return null;
+  }
+
+  const ledger = await loadLedger(userId, objectId);
+  const stats = buildRelationshipStats(ledger.map(toEncounter), objectId, userId);
+  const modalities = trainedModalities(object.goal.modality);
+  const gaps = findExposureGaps(stats, modalities);
+
+  return {
+    objectId,
+    totalEncounters: stats.totalEncounters,
+    interpretationEncounters: stats.interpretationEncounters,
+    productionEncounters: stats.productionEncounters,
+    interpretationSuccessRate: stats.interpretationSuccessRate,
+    productionSuccessRate: stats.productionSuccessRate,
+    modalityEncounters: modalityCounts(stats),
+    interpretationRatio: stats.interpretationRatio,
+    modalityBalance: stats.modalityBalance,
+    knowledgeStrength: stats.knowledgeStrength,
+    trainedModalities: modalities,
+    recommendedCategory: gaps.category,
+    recommendedModality: gaps.modality,
+    findings: describeGaps(stats, gaps),
+    recent: ledger
+      .slice(-USER_OBJECT_GRAPH_CONFIG.recentSize)
+      .reverse()
+      .map((e) => ({
+        createdAt: e.createdAt,
+        taskCategory: e.taskCategory as TaskCategory,
+        taskType: e.taskType,
+        taskFormat: e.taskFormat,
+        modality: normalizeModality(e.modality),
+        successful: e.successful,
+      })),
+  };
+}
+
+// =============================================================================
+// Practice Bias
+// =============================================================================
+
+/**
+ * The modality a new task for the object should use, when one of the
+ * goal's modalities is under-practised.
+ */
+export async function getPreferredModality(
+  userId: string,
+  objectId: string,
+  goalModality: string | null | undefined
+): Promise<EncounterModality | undefined> {
+  const relationship = await getPrisma().userObjectRelationship.findUnique({
+    where: { userId_objectId: { userId, objectId } },
+  });
+  if (!relationship) {
+    return undefined;
+  }
+  return findExposureGaps(relationship, trainedModalities(goalModality)).modality ?? undefined;
+}
+
+/**
+ * Raise the queue score of objects with lopsided practice so they come up
+ * while the gap can be worked on, then re-rank the queue.
+ */
+export async function applyExposureBias(
+  userId: string,
+  goalModality: string | null | undefined,
+  queue: QueueItem[]
+): Promise<QueueItem[]> {
+  if (queue.length === 0) {
+    return queue;
+  }
+
+  const relationships = await getPrisma().userObjectRelationship.findMany({
+    where: { userId, objectId: { in: queue.map((item) => item.object.id) } },
+  });
+  const modalities = trainedModalities(goalModality);
+  const severity = new Map(
+    relationships.map((r) => [r.objectId, findExposureGaps(r, modalities).severity])
+  );
+
+  return queue
+    .map((item) => {
+      const boost = 1 + USER_OBJECT_GRAPH_CONFIG.queueBoost * (severity.get(item.object.id) ?? 0);
+      return boost === 1 ? item : { ...item, finalScore: item.finalScore * boost };
+    })
+    .sort((a, b) => b.finalScore - a.finalScore);
+}
@@ -0,0 +1,636 @@
+/**
+ * Word Explorer Service
+ *
+ * Backs the learner-facing Word Explorer. A goal's objects are loaded as
+ * ComponentObjectStates and queried with ComponentSearchEngine, and facet
+ * counts are returned for the filter controls. Object details gather the
+ * FSRS card, stage history, collocations and morphological family.
+ *
+ * Learners can also suspend, bury, reset or edit an item by hand.
+ * Suspended and buried objects are kept out of the queues by
+ * schedulableObjectWhere in mastery.repository.ts.
+ */
+
+import { getPrisma } from '../db/prisma';
+import { getCollocationsForWord } from '../db/repositories/collocation.repository';
+import {
+  createComponentObjectState,
+  createSearchEngineWithData,
+  type ComponentObjectState,
+  type LanguageComponent,
+  type SearchFilters,
+} from '../../core/state';
+import type { FSRSState } from '../../core/fsrs';
+import { getUserFSRS } from './fsrs-optimizer.service';
+import { analyzeMorphology } from '../../core/morphology';
+import type { LanguageObjectType, MasteryStage } from '../../core/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ObjectStatus = 'active' | 'suspended' | 'buried';
+
+/** Review windows offered by the due-date facet */
+export type DueWindow = 'now' | 'today' | 'week';
+
+export type DifficultyBand = 'easy' | 'medium' | 'hard';
+
+export type ExplorerSort = 'alphabetical' | 'priority' | 'frequency' | 'mastery' | 'recency';
+
+export type ExplorerAction = 'suspend' | 'unsuspend' | 'bury' | 'unbury' | 'reset';
+
+export interface ExplorerQuery {
+  goalId: string;
+  query?: string;
+  types?: string[];
+  stages?: MasteryStage[];
+  due?: DueWindow;
+  domain?: string;
+  difficulty?: DifficultyBand;
+  status?: ObjectStatus;
+  sort?: ExplorerSort;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ExplorerItem {
+  id: string;
+  content: string;
+  type: string;
+  stage: MasteryStage;
+  nextReview: Date | null;
+  /** IRT difficulty (logits) */
+  difficulty: number;
+  difficultyBand: DifficultyBand;
+  /** Domains the object occurs in, most frequent first */
+  domains: string[];
+  priority: number;
+  status: ObjectStatus;
+  buriedUntil: Date | null;
+}
+
+/**
+ * Counts per facet value among the objects matching the text query.
+ */
+export interface ExplorerFacets {
+  types: Record<string, number>;
+  stages: Record<number, number>;
+  due: Record<DueWindow, number>;
+  domains: Record<string, number>;
+  difficulty: Record<DifficultyBand, number>;
+  status: Record<ObjectStatus, number>;
+}
+
+export interface ExplorerSearchResult {
+  items: ExplorerItem[];
+  totalCount: number;
+  facets: ExplorerFacets;
+}
+
+export interface ExplorerObjectDetail {
+  item: ExplorerItem;
+  frequency: number;
+  irtDiscrimination: number;
+  /** FSRS card, null until the object has a mastery state */
+  card: {
+    state: FSRSState;
+    difficulty: number;
+    stability: number;
+    reps: number;
+    lapses: number;
+    lastReview: Date | null;
+    nextReview: Date | null;
+    retrievability: number;
+  } | null;
+  accuracy: { cueFree: number; cueAssisted: number; exposureCount: number } | null;
+  automatization: { level: number; category: string; meanResponseTimeMs: number | null } | null;
+  /** Stage transitions, most recent first */
+  stageHistory: Array<{ fromStage: number; toStage: number; trigger: string; createdAt: Date }>;
+  collocations: Array<{ objectId: string; content: string; pmi: number }>;
+  morphology: {
+    root: string;
+    prefixes: string[];
+    suffixes: string[];
+    family: Array<{ objectId: string; content: string; stage: MasteryStage }>;
+  };
+}
+
+/**
+ * Manual changes to an object. Stage and review date changes create the
+ * mastery state when the object has none.
+ */
+export interface ExplorerEdit {
+  content?: string;
+  irtDifficulty?: number;
+  frequency?: number;
+  stage?: MasteryStage;
+  nextReview?: Date | null;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const WORD_EXPLORER_CONFIG = {
+  defaultLimit: 50,
+  /** Difficulty bands in logits, min inclusive and max exclusive */
+  difficultyBands: {
+    easy: [-Infinity, -1],
+    medium: [-1, 1],
+    hard: [1, Infinity],
+  } as Record<DifficultyBand, [number, number]>,
+  stageHistoryLimit: 20,
+  collocationLimit: 10,
+  familyLimit: 20,
+  /** Shorter roots are too ambiguous to look up a family */
+  minRootLength: 3,
+};
+
+/** Search engine component for each object type */
+const OBJECT_COMPONENT: Record<LanguageObjectType, LanguageComponent> = {
+  LEX: 'vocabulary',
+  MWE: 'vocabulary',
+  TERM: 'vocabulary',
+  MORPH: 'morphology',
+  G2P: 'g2p',
+  SYNT: 'grammar',
+  PRAG: 'pragmatic',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+type ObjectRow = {
+  id: string;
+  createdAt: Date;
+  type: string;
+  content: string;
+  frequency: number;
+  relationalDensity: number;
+  domainDistribution: string | null;
+  morphologicalScore: number | null;
+  phonologicalDifficulty: number | null;
+  priority: number;
+  irtDifficulty: number;
+  suspended: boolean;
+  buriedUntil: Date | null;
+  masteryState: {
+    stage: number;
+    nextReview: Date | null;
+    lastReviewedAt: Date | null;
+    exposureCount: number;
+    cueFreeAccuracy: number;
+    cueAssistedAccuracy: number;
+  } | null;
+};
+
+function parseDomains(json: string | null): Record<string, number> | undefined {
+  if (!json) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(json) as Record<string, number>;
+  } catch {
+    return undefined;
+  }
+}
+
+function startOfTomorrow(now: Date): Date {
+  const date = new Date(now);
+  date.setHours(24, 0, 0, 0);
+  return date;
+}
+
+function dueCutoff(window: DueWindow, now: Date): Date {
+  switch (window) {
+    case 'now':
+      return now;
+    case 'today':
+      return new Date(startOfTomorrow(now).getTime() - 1);
+    case 'week':
+      return new Date(now.getTime() + 7 * DAY_MS);
+  }
+}
+
+export function difficultyBand(difficulty: number): DifficultyBand {
+  const bands = WORD_EXPLORER_CONFIG.difficultyBands;
+  if (difficulty < bands.medium[0]) {
+    return 'easy';
+  }
+  return difficulty < bands.medium[1] ? 'medium' : 'hard';
+}
+
+/** Whether an object is queued, suspended or buried at the given time */
+export function objectStatus(row: { suspended: boolean; buriedUntil: Date | null }, now: Date): ObjectStatus {
+  if (row.suspended) {
+    return 'suspended';
+  }
+  return row.buriedUntil && row.buriedUntil > now ? 'buried' : 'active';
+}
+
+function toState(row: ObjectRow): ComponentObjectState {
+  const mastery = row.masteryState;
+  const domains = parseDomains(row.domainDistribution);
+  const state = createComponentObjectState(
+    row.id,
+    OBJECT_COMPONENT[row.type as LanguageObjectType] ?? 'vocabulary',
+    row.content,
+    {
+      F: row.frequency,
+      R: row.relationalDensity,
+      ...(domains ? { D: domains } : {}),
+      M: row.morphologicalScore ?? 0.5,
+      P: row.phonologicalDifficulty ?? 0.5,
+    }
+  );
+
+  state.goalContextPriority = row.priority;
+  state.irtMetrics.difficultyCalibration = row.irtDifficulty;
+  state.exposureHistory.lastExposure = mastery?.lastReviewedAt ?? null;
+  state.exposureHistory.totalExposures = mastery?.exposureCount ?? 0;
+  state.masteryState = {
+    ...state.masteryState,
+    stage: (mastery?.stage ?? 0) as MasteryStage,
+    cueFreeAccuracy: mastery?.cueFreeAccuracy ?? 0,
+    cueAssistedAccuracy: mastery?.cueAssistedAccuracy ?? 0,
+    scaffoldingGap: mastery ? mastery.cueAssistedAccuracy - mastery.cueFreeAccuracy : 0,
+    // Objects never scheduled are due right away, as in getReviewQueue
+    nextReviewDate: mastery?.nextReview ?? row.createdAt,
+  };
+  return state;
+}
+
+function toItem(row: ObjectRow, now: Date): ExplorerItem {
+  // Same fallback as createComponentObjectState, so items match the domain facet
+  const domains = parseDomains(row.domainDistribution) ?? { general: 1 };
+  return {
+    id: row.id,
+    content: row.content,
+    type: row.type,
+    stage: (row.masteryState?.stage ?? 0) as MasteryStage,
+    nextReview: row.masteryState?.nextReview ?? null,
+    difficulty: row.irtDifficulty,
+    difficultyBand: difficultyBand(row.irtDifficulty),
+    domains: Object.entries(domains)
+      .filter(([, weight]) => weight > 0)
+      .sort((a, b) => b[1] - a[1])
+      .map(([domain]) => domain),
+    priority: row.priority,
+    status: objectStatus(row, now),
+    buriedUntil: row.buriedUntil,
+  };
+}
+
+function countFacets(rows: ObjectRow[], states: ComponentObjectState[], now: Date): ExplorerFacets {
+  const facets: ExplorerFacets = {
+    types: {},
+    stages: { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0 },
+    due: { now: 0, today: 0, week: 0 },
+    domains: {},
+    difficulty: { easy: 0, medium: 0, hard: 0 },
+    status: { active: 0, suspended: 0, buried: 0 },
+  };
+  const cutoffs = (['now', 'today', 'week'] as DueWindow[]).map((w) => [w, dueCutoff(w, now)] as const);
+  const byId = new Map(rows.map((r) => [r.id, r]));
+
+  for (const state of states) {
+    const row = byId.get(state.objectId);
+    if (!row) {
+      continue;
+    }
+    const item = toItem(row, now);
+    facets.types[item.type] = (facets.types[item.type] ?? 0) + 1;
+    facets.stages[item.stage] += 1;
+    facets.difficulty[item.difficultyBand] += 1;
+    facets.status[item.status] += 1;
+    for (const domain of Object.keys(state.featureVector.D).filter((d) => state.featureVector.D[d])) {
+      facets.domains[domain] = (facets.domains[domain] ?? 0) + 1;
+    }
+    for (const [window, cutoff] of cutoffs) {
+      if (state.masteryState.nextReviewDate <= cutoff) {
+        facets.due[window] += 1;
+      }
+    }
+  }
+  return facets;
+}
+
+// =============================================================================
+// Search
+// =============================================================================
+
+/**
+ * Faceted search over a goal's objects.
+ *
+ * Facet counts cover every object matching the text query, so choosing a
+ * facet value does not hide the counts of the other values.
+ */
+export async function searchGoalObjects(
+  query: ExplorerQuery,
+  now: Date = new Date()
+): Promise<ExplorerSearchResult> {
+  const rows: ObjectRow[] = await getPrisma().languageObject.findMany({
+    where: { goalId: query.goalId },
+    include: { masteryState: true },
+  });
+
+  const states = rows.map(toState);
+  const engine = createSearchEngineWithData(states);
+  const facets = countFacets(rows, engine.search({ query: query.query }).items, now);
+
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  for (const row of rows) {
+    const excluded =
+      (query.types && query.types.length > 0 && !query.types.includes(row.type)) ||
+      (query.status && objectStatus(row, now) !== query.status);
+    if (excluded) {
+      engine.remove(row.id);
+    }
+  }
+
+  const filters: SearchFilters = {
+    query: query.query,
+    masteryStages: query.stages && query.stages.length > 0 ? query.stages : undefined,
+    dueBefore: query.due ? dueCutoff(query.due, now) : undefined,
+    domain: query.domain,
+    difficultyRange: query.difficulty ? WORD_EXPLORER_CONFIG.difficultyBands[query.difficulty] : undefined,
+  };
+  const result = engine.search(
+    filters,
+    query.sort ?? 'alphabetical',
+    query.limit ?? WORD_EXPLORER_CONFIG.defaultLimit,
+    query.offset ?? 0
+  );
+
+  return {
+    items: result.items.flatMap((s) => {
+      const row = byId.get(s.objectId);
+      return row ? [toItem(row, now)] : [];
+    }),
+    totalCount: result.totalCount,
+    facets,
+  };
+}
+
+// =============================================================================
+// Details
+// =============================================================================
+
+/**
+ * Everything the detail pane shows for one object.
+ *
+ * @returns The details, or null if the object does not exist
+ */
+export async function getObjectDetail(
+  objectId: string,
+  now: Date = new Date()
+): Promise<ExplorerObjectDetail | null> {
+  const db = getPrisma();
+  const object = await db.languageObject.findUnique({
+    where: { id: objectId },
+    include: {
+      goal: { select: { userId: true } },
+      masteryState: {
+        include: {
+          stageTransitions: {
+            orderBy: { createdAt: 'desc' },
+            take: WORD_EXPLORER_CONFIG.stageHistoryLimit,
+          },
+        },
+      },
+    },
+  });
+  if (!object) {
+    return null;
+  }
+
+  const mastery = object.masteryState;
+  const card = mastery
+    ? {
+        state: mastery.fsrsState as FSRSState,
+        difficulty: mastery.fsrsDifficulty,
+        stability: mastery.fsrsStability,
+        reps: mastery.fsrsReps,
+        lapses: mastery.fsrsLapses,
+        lastReview: mastery.fsrsLastReview,
+        nextReview: mastery.fsrsNextReview ?? mastery.nextReview,
+        retrievability: 0,
+      }
+    : null;
+  if (card) {
+    const fsrs = await getUserFSRS(object.goal.userId);
+    card.retrievability = fsrs.retrievability(card, now);
+  }
+
+  const collocations = await getCollocationsForWord(
+    objectId,
+    undefined,
+    WORD_EXPLORER_CONFIG.collocationLimit
+  );
+
+  const analysis = analyzeMorphology(object.content);
+  const family =
+    analysis.root.length >= WORD_EXPLORER_CONFIG.minRootLength
+      ? await db.languageObject.findMany({
+          where: { goalId: object.goalId, id: { not: objectId }, content: { contains: analysis.root } },
+          select: { id: true, content: true, masteryState: { select: { stage: true } } },
+          take: WORD_EXPLORER_CONFIG.familyLimit * 5,
+        })
+      : [];
+
+  return {
+    item: toItem(object, now),
+    frequency: object.frequency,
+    irtDiscrimination: object.irtDiscrimination,
+    card,
+    accuracy: mastery
+      ? {
+          cueFree: mastery.cueFreeAccuracy,
+          cueAssisted: mastery.cueAssistedAccuracy,
+          exposureCount: mastery.exposureCount,
+        }
+      : null,
+    automatization: mastery?.automatizationUpdatedAt
+      ? {
+          level: mastery.automatizationLevel,
+          category: mastery.automatizationCategory,
+          meanResponseTimeMs: mastery.meanResponseTimeMs,
+        }
+      : null,
+    stageHistory: (mastery?.stageTransitions ?? []).map((t) => ({
+      fromStage: t.fromStage,
+      toStage: t.toStage,
+      trigger: t.trigger,
+      createdAt: t.createdAt,
+    })),
+    collocations: collocations.map((c) => ({ objectId: c.wordId, content: c.word, pmi: c.pmi })),
+    morphology: {
+      root: analysis.root,
+      prefixes: analysis.prefixes.map((a) => a.form),
+      suffixes: analysis.suffixes.map((a) => a.form),
+      family: family
+        .filter((f) => analyzeMorphology(f.content).root === analysis.root)
+        .slice(0, WORD_EXPLORER_CONFIG.familyLimit)
+        .map((f) => ({
+          objectId: f.id,
+          content: f.content,
+          stage: (f.masteryState?.stage ?? 0) as MasteryStage,
+        })),
+    },
+  };
+}
+
+// =============================================================================
+// Item Actions
+// =============================================================================
+
+async function recordManualTransition(
+  mastery: {
+    id: string;
+    stage: number;
+    cueFreeAccuracy: number;
+    cueAssistedAccuracy: number;
+    exposureCount: number;
+  },
+  toStage: number,
+  action: string
+): Promise<void> {
+  await getPrisma().stageTransition.create({
+    data: {
+      masteryStateId: mastery.id,
+      fromStage: mastery.stage,
+      toStage,
+      trigger: 'manual',
+      cueFreeAccuracyAtTransition: mastery.cueFreeAccuracy,
+      cueAssistedAccuracyAtTransition: mastery.cueAssistedAccuracy,
+      exposureCountAtTransition: mastery.exposureCount,
+      metadata: JSON.stringify({ action }),
+    },
+  });
+}
+
+/**
+ * Suspend, bury or reset an object. Buried objects return to the queues
+ * at the start of the next day; a reset puts the object back to stage 0
+ * with a fresh FSRS card and logs a manual stage transition.
+ */
+export async function applyObjectAction(
+  objectId: string,
+  action: ExplorerAction,
+  now: Date = new Date()
+): Promise<ExplorerObjectDetail | null> {
+  const db = getPrisma();
+  const object = await db.languageObject.findUnique({
+    where: { id: objectId },
+    include: { masteryState: true },
+  });
+  if (!object) {
+    return null;
+  }
+
+  switch (action) {
+    case 'suspend':
+    case 'unsuspend':
+      await db.languageObject.update({
+        where: { id: objectId },
+        data: { suspended: action === 'suspend' },
+      });
+      break;
+
+    case 'bury':
+    case 'unbury':
+      await db.languageObject.update({
+        where: { id: objectId },
+        data: { buriedUntil: action === 'bury' ? startOfTomorrow(now) : null },
+      });
+      break;
+
+    case 'reset':
+      if (object.masteryState) {
+        await recordManualTransition(object.masteryState, 0, action);
+        await db.masteryState.update({
+          where: { objectId },
+          data: {
+            stage: 0,
+            fsrsDifficulty: 5,
+            fsrsStability: 0,
+            fsrsLastReview: null,
+            fsrsNextReview: null,
+            fsrsReps: 0,
+            fsrsLapses: 0,
+            fsrsState: 'new',
+            cueFreeAccuracy: 0,
+            cueAssistedAccuracy: 0,
+            exposureCount: 0,
+            nextReview: null,
+            lastReviewedAt: null,
+          },
+        });
+      }
+      break;
+  }
+
+  return getObjectDetail(objectId, now);
+}
+
+/**
+ * Apply manual edits to an object.
+ *
+ * @throws If another object of the goal already has the new content
+ */
+export async function editObject(
+  objectId: string,
+  changes: ExplorerEdit,
+  now: Date = new Date()
+): Promise<ExplorerObjectDetail | null> {
+  const db = getPrisma();
+  const object = await db.languageObject.findUnique({
+    where: { id: objectId },
+    include: { masteryState: true },
+  });
+  if (!object) {
+    return null;
+  }
+
+  const content = changes.content?.trim();
+  if (content && content !== object.content) {
+    const duplicate = await db.languageObject.findFirst({
+      where: { goalId: object.goalId, content, id: { not: objectId } },
+      select: { id: true },
+    });
+    if (duplicate) {
+      throw new Error(`Another object in this goal is already "${content}"`);
+    }
+  }
+
+  const objectData = {
+    ...(content ? { content } : {}),
+    ...(changes.irtDifficulty !== undefined ? { irtDifficulty: changes.irtDifficulty } : {}),
+    ...(changes.frequency !== undefined ? { frequency: changes.frequency } : {}),
+  };
+  if (Object.keys(objectData).length > 0) {
+    await db.languageObject.update({ where: { id: objectId }, data: objectData });
+  }
+
+  const masteryData = {
+    ...(changes.stage !== undefined ? { stage: changes.stage } : {}),
+    ...(changes.nextReview !== undefined ? { nextReview: changes.nextReview } : {}),
+  };
+  if (Object.keys(masteryData).length > 0) {
+    const mastery = object.masteryState;
+    if (mastery) {
+      if (changes.stage !== undefined && changes.stage !== mastery.stage) {
+        await recordManualTransition(mastery, changes.stage, 'edit');
+      }
+      await db.masteryState.update({ where: { objectId }, data: masteryData });
+    } else {
+      await db.masteryState.create({ data: { objectId, ...masteryData } });
+    }
+  }
+
+  return getObjectDetail(objectId, now);
+}
@@ -0,0 +1,331 @@
+/**
+ * Word Network Service
+ *
+ * Builds the neighborhood of an object as a graph for the learner-facing
+ * network view. Edges come from three places: PMI collocations
+ * (Collocation), stored object connections (ObjectConnection), and the
+ * lexical relations of core/semantic-network.ts between objects of the
+ * same goal. Nodes carry their mastery stage so the view can colour them.
+ *
+ * A neighborhood also doubles as a study cluster: getClusterQueue turns
+ * it into a session queue for a short practice round on those words.
+ */
+
+import { getPrisma } from '../db/prisma';
+import { getLexicalRelations, type LexicalRelation } from '../../core/semantic-network';
+import type { MasteryStage } from '../../core/types';
+import { objectStatus, type ObjectStatus } from './word-explorer.service';
+import type { InterleavedQueueItem } from './study-planner.service';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WordRelation = 'collocation' | 'semantic' | 'morphological' | 'phonological' | 'syntactic';
+
+export interface WordGraphNode {
+  id: string;
+  label: string;
+  type: string;
+  stage: MasteryStage;
+  /** Hops from the center object */
+  depth: number;
+  frequency: number;
+  status: ObjectStatus;
+}
+
+export interface WordGraphEdge {
+  source: string;
+  target: string;
+  relation: WordRelation;
+  /** Finer relation, e.g. 'synonym' for semantic edges */
+  label: string;
+  /** Strength for display (0-1) */
+  weight: number;
+  /** PMI of the pair, when known */
+  pmi: number | null;
+}
+
+export interface WordNeighborhood {
+  centerId: string;
+  goalId: string;
+  nodes: WordGraphNode[];
+  edges: WordGraphEdge[];
+  /** Whether neighbors were dropped to stay within maxNodes */
+  truncated: boolean;
+}
+
+export interface NeighborhoodOptions {
+  depth?: number;
+  maxNodes?: number;
+  relations?: WordRelation[];
+}
+
+export interface ClusterQueue {
+  centerObjectId: string;
+  items: InterleavedQueueItem[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const WORD_NETWORK_CONFIG = {
+  defaultDepth: 2,
+  maxDepth: 3,
+  defaultMaxNodes: 40,
+  /** Edges read per frontier node from each edge table */
+  edgesPerNode: 12,
+  /** Objects practised in a cluster session */
+  clusterSize: 12,
+};
+
+/** Display strength of lexical relations */
+const SEMANTIC_WEIGHT: Partial<Record<LexicalRelation, number>> = {
+  synonym: 0.9,
+  antonym: 0.7,
+  hypernym: 0.6,
+  hyponym: 0.6,
+};
+
+/** ObjectConnection.connectionType to graph relation */
+const CONNECTION_RELATION: Record<string, WordRelation> = {
+  semantic: 'semantic',
+  phonological: 'phonological',
+  morphological: 'morphological',
+  collocational: 'collocation',
+  syntactic: 'syntactic',
+};
+
+const ALL_RELATIONS: WordRelation[] = ['collocation', 'semantic', 'morphological', 'phonological', 'syntactic'];
+
+// =============================================================================
+// Neighborhood
+// =============================================================================
+
+const NODE_SELECT = {
+  id: true,
+  goalId: true,
+  content: true,
+  type: true,
+  frequency: true,
+  suspended: true,
+  buriedUntil: true,
+  masteryState: { select: { stage: true } },
+};
+
+function toGraphNode(
+  row: {
+    id: string;
+    content: string;
+    type: string;
+    frequency: number;
+    suspended: boolean;
+    buriedUntil: Date | null;
+    masteryState: { stage: number } | null;
+  },
+  depth: number,
+  now: Date
+): WordGraphNode {
+  return {
+    id: row.id,
+    label: row.content,
+    type: row.type,
+    stage: (row.masteryState?.stage ?? 0) as MasteryStage,
+    depth,
+    frequency: row.frequency,
+    status: objectStatus(row, now),
+  };
+}
+
+function edgeKey(edge: WordGraphEdge): string {
+  const [a, b] = [edge.source, edge.target].sort();
+  return `${a}|${b}|${edge.relation}|${edge.label}`;
+}
+
+/**
+ * Edges touching the frontier objects.
+ */
+async function loadFrontierEdges(
+  goalId: string,
+  frontier: Array<{ id: string; label: string }>,
+  relations: Set<WordRelation>
+): Promise<WordGraphEdge[]> {
+  const db = getPrisma();
+  const ids = frontier.map((n) => n.id);
+  const take = ids.length * WORD_NETWORK_CONFIG.edgesPerNode;
+  const edges: WordGraphEdge[] = [];
+
+  if (relations.has('collocation')) {
+    const collocations = await db.collocation.findMany({
+      where: { OR: [{ word1Id: { in: ids } }, { word2Id: { in: ids } }] },
+      orderBy: { pmi: 'desc' },
+      take,
+    });
+    for (const c of collocations) {
+      edges.push({
+        source: c.word1Id,
+        target: c.word2Id,
+        relation: 'collocation',
+        label: 'collocation',
+        weight: Math.max(0, Math.min(1, c.npmi)),
+        pmi: c.pmi,
+      });
+    }
+  }
+
+  const connections = await db.objectConnection.findMany({
+    where: { OR: [{ sourceObjectId: { in: ids } }, { targetObjectId: { in: ids } }] },
+    orderBy: { weight: 'desc' },
+    take,
+  });
+  for (const c of connections) {
+    const relation = CONNECTION_RELATION[c.connectionType];
+    if (relation && relations.has(relation)) {
+      edges.push({
+        source: c.sourceObjectId,
+        target: c.targetObjectId,
+        relation,
+        label: c.connectionType,
+        weight: Math.max(0, Math.min(1, c.weight)),
+        pmi: c.pmi !== 0 ? c.pmi : null,
+      });
+    }
+  }
+
+  if (relations.has('semantic')) {
+    const related = frontier.flatMap((node) =>
+      [...getLexicalRelations(node.label)].flatMap(([relation, words]) =>
+        words.map((word) => ({ from: node.id, relation, word }))
+      )
+    );
+    if (related.length > 0) {
+      const matches = await db.languageObject.findMany({
+        where: { goalId, content: { in: [...new Set(related.map((r) => r.word))] } },
+        select: { id: true, content: true },
+      });
+      const idByContent = new Map(matches.map((m) => [m.content.toLowerCase(), m.id]));
+      for (const r of related) {
+        const target = idByContent.get(r.word);
+        if (target && target !== r.from) {
+          edges.push({
+            source: r.from,
+            target,
+            relation: 'semantic',
+            label: r.relation,
+            weight: SEMANTIC_WEIGHT[r.relation] ?? 0.5,
+            pmi: null,
+          });
+        }
+      }
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * The graph around an object, expanded breadth-first.
+ *
+ * Each hop keeps the most strongly connected new neighbors until maxNodes
+ * is reached. Only edges between kept nodes are returned.
+ *
+ * @returns The neighborhood, or null if the object does not exist
+ */
+export async function getObjectNeighborhood(
+  objectId: string,
+  options: NeighborhoodOptions = {},
+  now: Date = new Date()
+): Promise<WordNeighborhood | null> {
+  const db = getPrisma();
+  const depth = Math.min(options.depth ?? WORD_NETWORK_CONFIG.defaultDepth, WORD_NETWORK_CONFIG.maxDepth);
+  const maxNodes = options.maxNodes ?? WORD_NETWORK_CONFIG.defaultMaxNodes;
+  const relations = new Set(options.relations ?? ALL_RELATIONS);
+
+  const center = await db.languageObject.findUnique({ where: { id: objectId }, select: NODE_SELECT });
+  if (!center) {
+    return null;
+  }
+
+  const centerNode = toGraphNode(center, 0, now);
+  const nodes = new Map<string, WordGraphNode>([[center.id, centerNode]]);
+  const edges = new Map<string, WordGraphEdge>();
+  let frontier: WordGraphNode[] = [centerNode];
+  let truncated = false;
+
+  for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+    const found = await loadFrontierEdges(center.goalId, frontier, relations);
+    const frontierIds = new Set(frontier.map((n) => n.id));
+
+    const strength = new Map<string, number>();
+    for (const edge of found) {
+      edges.set(edgeKey(edge), edges.get(edgeKey(edge)) ?? edge);
+      const other = frontierIds.has(edge.source) ? edge.target : edge.source;
+      if (!nodes.has(other)) {
+        strength.set(other, Math.max(strength.get(other) ?? 0, edge.weight));
+      }
+    }
+
+    const slots = Math.max(0, maxNodes - nodes.size);
+    const ranked = [...strength.entries()].sort((a, b) => b[1] - a[1]).map(([id]) => id);
+    truncated = truncated || ranked.length > slots;
+
+    const rows = await db.languageObject.findMany({
+      where: { id: { in: ranked.slice(0, slots) }, goalId: center.goalId },
+      select: NODE_SELECT,
+    });
+    frontier = rows.map((row) => toGraphNode(row, hop, now));
+    for (const node of frontier) {
+      nodes.set(node.id, node);
+    }
+  }
+
+  return {
+    centerId: center.id,
+    goalId: center.goalId,
+    nodes: [...nodes.values()],
+    edges: [...edges.values()].filter((e) => nodes.has(e.source) && nodes.has(e.target)),
+    truncated,
+  };
+}
+
+// =============================================================================
+// Cluster Sessions
+// =============================================================================
+
+/**
+ * Session queue over an object's neighborhood: the object first, then its
+ * neighbors nearest and least mastered first. Suspended and buried
+ * objects are left out.
+ */
+export async function getClusterQueue(
+  objectId: string,
+  sessionSize: number = WORD_NETWORK_CONFIG.clusterSize,
+  now: Date = new Date()
+): Promise<ClusterQueue | null> {
+  const neighborhood = await getObjectNeighborhood(
+    objectId,
+    { depth: WORD_NETWORK_CONFIG.defaultDepth, maxNodes: sessionSize * 2 },
+    now
+  );
+  if (!neighborhood) {
+    return null;
+  }
+
+  const items = neighborhood.nodes
+    .filter((n) => n.status === 'active')
+    .sort((a, b) => a.depth - b.depth || a.stage - b.stage)
+    .slice(0, sessionSize)
+    .map((n) => ({
+      objectId: n.id,
+      goalId: neighborhood.goalId,
+      content: n.label,
+      type: n.type,
+      masteryStage: n.stage,
+      finalScore: 1 / (1 + n.depth),
+      isShared: false,
+      benefitingGoals: [neighborhood.goalId],
+    }));
+
+  return { centerObjectId: objectId, items };
+}
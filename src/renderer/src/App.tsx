@@ -4,15 +4,44 @@ import DashboardPage from './pages/DashboardPage';
 import SessionPage from './pages/SessionPage';
 import OnboardingPage from './pages/OnboardingPage';
 import SettingsPage from './pages/SettingsPage';
+import WordExplorerPage from './pages/WordExplorerPage';
+import WordNetworkPage from './pages/WordNetworkPage';
+import type { MilestoneRecord } from '../../shared/types';
 
 function App() {
     const [needsOnboarding, setNeedsOnboarding] = useState<boolean | null>(null);
     const [loading, setLoading] = useState(true);
+    const [milestones, setMilestones] = useState<MilestoneRecord[]>([]);
 
     useEffect(() => {
         checkOnboardingStatus();
     }, []);
 
+    // Apply the saved theme; 'system' follows the OS preference via CSS
+    useEffect(() => {
+        window.logos.profile.getSettings()
+            .then((settings) => {
+                document.documentElement.dataset.theme = settings.theme;
+            })
+            .catch((error) => {
+                console.error('Failed to load theme:', error);
+            });
+    }, []);
+
+    // Milestones are pushed from the main process as they are earned
+    useEffect(() => {
+        return window.logos.milestones.onAchieved((earned) => {
+            setMilestones(prev => [...prev, ...earned.filter(m => !m.acknowledged)]);
+        });
+    }, []);
+
+    const dismissMilestone = (id: string) => {
+        setMilestones(prev => prev.filter(m => m.id !== id));
+        window.logos.milestones.acknowledge([id]).catch((error) => {
+            console.error('Failed to acknowledge milestone:', error);
+        });
+    };
+
     const checkOnboardingStatus = async () => {
         try {
             const status = await window.logos.onboarding.checkStatus();
@@ -44,6 +73,34 @@ function App() {
 
     return (
         <Router>
+            {milestones.length > 0 && (
+                <div style={{
+                    position: 'fixed',
+                    top: 'var(--spacing-lg)',
+                    right: 'var(--spacing-lg)',
+                    zIndex: 1000,
+                    display: 'grid',
+                    gap: 'var(--spacing-sm)',
+                    maxWidth: '320px',
+                }}>
+                    {milestones.slice(-3).map(milestone => (
+                        <div key={milestone.id} className="card" style={{ padding: 'var(--spacing-md)' }}>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                                <strong>{milestone.title}</strong>
+                                <button className="btn btn-secondary" onClick={() => dismissMilestone(milestone.id)}>
+                                    ✕
+                                </button>
+                            </div>
+                            <p className="text-secondary" style={{ margin: 'var(--spacing-xs) 0 0 0', fontSize: '0.875rem' }}>
+                                {milestone.celebrationMessage ?? milestone.description}
+                            </p>
+                            {milestone.pointsAwarded > 0 && (
+                                <span className="badge">+{milestone.pointsAwarded} pts</span>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
             <Routes>
                 {needsOnboarding ? (
                     <>
@@ -55,6 +112,8 @@ function App() {
                         <Route path="/" element={<DashboardPage />} />
                         <Route path="/session/:goalId" element={<SessionPage />} />
                         <Route path="/settings" element={<SettingsPage />} />
+                        <Route path="/explorer/:goalId" element={<WordExplorerPage />} />
+                        <Route path="/network/:goalId/:objectId" element={<WordNetworkPage />} />
                         <Route path="*" element={<Navigate to="/" replace />} />
                     </>
                 )}
@@ -1,8 +1,53 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { GoalSpec } from '../../../shared/types';
+import type {
+    AnalyticsGetDistractorsResponse,
+    AnalyticsGetIntentCalibrationResponse,
+    GoalSpec,
+    GoalGrammarRoadmap,
+    GoalPropagationLog,
+    GrammarTrackStatus,
+    StudyPlan,
+    StudyAllocationPreference,
+} from '../../../shared/types';
 import { isMvpMode } from '../../../shared/mvp-config';
 
+const GRAMMAR_STATUS_BADGE: Record<GrammarTrackStatus, string> = {
+    mastered: 'badge-success',
+    practising: 'badge-warning',
+    available: 'badge-primary',
+    locked: '',
+};
+
+const DISTRACTOR_STRATEGY_LABEL: Record<string, string> = {
+    phonological_similar: 'Similar sound',
+    orthographic_similar: 'Similar spelling',
+    semantic_related: 'Related meaning',
+    morphological_variant: 'Other word form',
+    common_confusion: 'L1 confusion',
+    random_same_pos: 'Same word class',
+    translation_false_friend: 'False friend',
+};
+
+const INTENT_LABEL: Record<string, string> = {
+    introduce_new: 'Introduce',
+    reinforce_known: 'Reinforce',
+    test_comprehension: 'Comprehension check',
+    elicit_production: 'Production',
+    contextual_usage: 'Usage in context',
+    error_detection: 'Error spotting',
+    metalinguistic: 'Form focus',
+    fluency_building: 'Fluency',
+    transfer_testing: 'Transfer',
+};
+
+const RELATION_LABEL: Record<string, string> = {
+    morphological: 'word family',
+    collocational: 'collocate',
+};
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
 export default function DashboardPage() {
     const navigate = useNavigate();
     const [goals, setGoals] = useState<GoalSpec[]>([]);
@@ -14,6 +59,16 @@ export default function DashboardPage() {
         wordsReady: 0,
     });
     const [recentSessions, setRecentSessions] = useState<any[]>([]);
+    const [plan, setPlan] = useState<StudyPlan | null>(null);
+    const [weeklyMinutes, setWeeklyMinutes] = useState(210);
+    const [preference, setPreference] = useState<StudyAllocationPreference>('balanced');
+    const [deadlines, setDeadlines] = useState<Record<string, string>>({});
+    const [planning, setPlanning] = useState(false);
+    const [planError, setPlanError] = useState<string | null>(null);
+    const [grammar, setGrammar] = useState<GoalGrammarRoadmap | null>(null);
+    const [distractors, setDistractors] = useState<AnalyticsGetDistractorsResponse | null>(null);
+    const [calibration, setCalibration] = useState<AnalyticsGetIntentCalibrationResponse | null>(null);
+    const [propagation, setPropagation] = useState<GoalPropagationLog | null>(null);
 
     useEffect(() => {
         loadDashboard();
@@ -25,42 +80,18 @@ export default function DashboardPage() {
             const goalsList = await window.logos.goal.list(false);
             setGoals(goalsList);
 
+            const currentPlan = await window.logos.planner.getPlan();
+            setPlan(currentPlan);
+            if (currentPlan) {
+                setWeeklyMinutes(currentPlan.weeklyMinutes);
+                setPreference(currentPlan.preference);
+            }
+            setDeadlines(Object.fromEntries(
+                goalsList.map(g => [g.id, g.deadline ? new Date(g.deadline).toISOString().slice(0, 10) : ''])
+            ));
+
             if (goalsList.length > 0) {
-                const goal = goalsList[0]; // Get first active goal
-                setActiveGoal(goal);
-
-                // Load vocabulary stats
-                const objects = await window.logos.object.list(goal.id, { limit: 1000 });
-                const totalObjects = objects.length;
-                const masteredObjects = objects.filter((obj: any) => obj.masteryState?.stage >= 3).length;
-                const coverage = totalObjects > 0 ? (masteredObjects / totalObjects) * 100 : 0;
-
-                // Calculate average mastery
-                let totalStage = 0;
-                let count = 0;
-                for (const obj of objects) {
-                    if (obj.masteryState) {
-                        totalStage += obj.masteryState.stage;
-                        count++;
-                    }
-                }
-                const avgStage = count > 0 ? totalStage / count : 0;
-
-                // Count words ready for review
-                const queue = await window.logos.queue.build(goal.id, { sessionSize: 100 });
-                const readyCount = queue.length;
-
-                setStats({
-                    vocabularyCoverage: Math.round(coverage),
-                    averageMasteryStage: parseFloat(avgStage.toFixed(1)),
-                    wordsReady: readyCount,
-                });
-
-                // Load recent sessions (MVP: limit to 5)
-                const sessions = await window.logos.session.getHistory(goal.id, {
-                    limit: isMvpMode() ? 5 : 20,
-                });
-                setRecentSessions(sessions);
+                await loadGoalStats(goalsList[0]);
             }
         } catch (error) {
             console.error('Failed to load dashboard:', error);
@@ -69,6 +100,93 @@ export default function DashboardPage() {
         }
     };
 
+    const loadGoalStats = async (goal: GoalSpec) => {
+        try {
+            setActiveGoal(goal);
+
+            // Load vocabulary stats
+            const objects = await window.logos.object.list(goal.id, { limit: 1000 });
+            const totalObjects = objects.length;
+            const masteredObjects = objects.filter((obj: any) => obj.masteryState?.stage >= 3).length;
+            const coverage = totalObjects > 0 ? (masteredObjects / totalObjects) * 100 : 0;
+
+            // Calculate average mastery
+            let totalStage = 0;
+            let count = 0;
+            for (const obj of objects) {
+                if (obj.masteryState) {
+                    totalStage += obj.masteryState.stage;
+                    count++;
+                }
+            }
+            const avgStage = count > 0 ? totalStage / count : 0;
+
+            // Count words ready for review
+            const queue = await window.logos.queue.build(goal.id, { sessionSize: 100 });
+            const readyCount = queue.length;
+
+            setStats({
+                vocabularyCoverage: Math.round(coverage),
+                averageMasteryStage: parseFloat(avgStage.toFixed(1)),
+                wordsReady: readyCount,
+            });
+
+            // Load recent sessions (MVP: limit to 5)
+            const sessions = await window.logos.session.getHistory(goal.id, {
+                limit: isMvpMode() ? 5 : 20,
+            });
+            setRecentSessions(sessions);
+
+            setGrammar(await window.logos.goal.getGrammarRoadmap(goal.id));
+            setDistractors(await window.logos.analytics.getDistractors(goal.id, 5));
+            setCalibration(await window.logos.analytics.getIntentCalibration(goal.id));
+            setPropagation(await window.logos.propagation.getLog(goal.id, 8));
+        } catch (error) {
+            console.error('Failed to load goal stats:', error);
+        }
+    };
+
+    const togglePropagation = async (enabled: boolean) => {
+        if (!activeGoal || !propagation) {
+            return;
+        }
+        try {
+            const result = await window.logos.propagation.setEnabled(activeGoal.id, enabled);
+            setPropagation({ ...propagation, enabled: result.enabled });
+        } catch (error) {
+            console.error('Failed to update propagation:', error);
+        }
+    };
+
+    const planWeek = async () => {
+        setPlanning(true);
+        setPlanError(null);
+        try {
+            const updated = await window.logos.planner.createPlan({
+                weeklyMinutes,
+                preference,
+                deadlines: Object.fromEntries(
+                    Object.entries(deadlines).map(([id, date]) => [id, date ? new Date(date).toISOString() : null])
+                ),
+            });
+            setPlan(updated);
+        } catch (error) {
+            console.error('Failed to plan week:', error);
+            setPlanError(error instanceof Error ? error.message : 'Failed to plan week');
+        } finally {
+            setPlanning(false);
+        }
+    };
+
+    const startInterleavedSession = () => {
+        // The session is recorded against the goal with the largest share
+        const primary = plan?.allocations.reduce((best, a) => (a.fraction > best.fraction ? a : best));
+        const goalId = primary?.goalId ?? activeGoal?.id;
+        if (goalId) {
+            navigate(`/session/${goalId}?interleave=1`);
+        }
+    };
+
     const startSession = () => {
         if (activeGoal) {
             navigate(`/session/${activeGoal.id}`);
@@ -126,13 +244,119 @@ export default function DashboardPage() {
                             </p>
                         )}
                     </div>
-                    <button className="btn btn-secondary" onClick={() => navigate('/settings')}>
-                        ⚙️ Settings
-                    </button>
+                    <div className="flex gap-sm">
+                        <button className="btn btn-secondary" onClick={() => navigate(`/explorer/${activeGoal.id}`)}>
+                            📖 Word Explorer
+                        </button>
+                        <button className="btn btn-secondary" onClick={() => navigate('/settings')}>
+                            ⚙️ Settings
+                        </button>
+                    </div>
                 </div>
             </header>
 
             <div className="container">
+                {/* Goal Switcher */}
+                {goals.length > 1 && (
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--spacing-sm)', marginBottom: 'var(--spacing-lg)' }}>
+                        {goals.map(goal => (
+                            <button
+                                key={goal.id}
+                                className={`btn ${goal.id === activeGoal.id ? 'btn-primary' : 'btn-secondary'}`}
+                                onClick={() => void loadGoalStats(goal)}
+                            >
+                                {goal.benchmark ?? goal.domain}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {/* Weekly Study Plan */}
+                {goals.length > 1 && (
+                    <div className="card" style={{ marginBottom: 'var(--spacing-2xl)' }}>
+                        <h3 style={{ marginBottom: 'var(--spacing-md)' }}>Weekly Study Plan</h3>
+                        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: 'var(--spacing-md)', marginBottom: 'var(--spacing-md)' }}>
+                            <label>
+                                <div className="text-secondary" style={{ fontSize: '0.875rem' }}>Minutes per week</div>
+                                <input
+                                    type="number"
+                                    min={10}
+                                    max={5040}
+                                    value={weeklyMinutes}
+                                    onChange={(e) => setWeeklyMinutes(Number(e.target.value))}
+                                />
+                            </label>
+                            <label>
+                                <div className="text-secondary" style={{ fontSize: '0.875rem' }}>Strategy</div>
+                                <select value={preference} onChange={(e) => setPreference(e.target.value as StudyAllocationPreference)}>
+                                    <option value="balanced">Balanced progress</option>
+                                    <option value="deadline_focused">Deadlines first</option>
+                                    <option value="progress_focused">Maximum progress</option>
+                                    <option value="synergy_focused">Shared vocabulary</option>
+                                </select>
+                            </label>
+                            {goals.map(goal => (
+                                <label key={goal.id}>
+                                    <div className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                        {goal.benchmark ?? goal.domain} deadline
+                                    </div>
+                                    <input
+                                        type="date"
+                                        value={deadlines[goal.id] ?? ''}
+                                        onChange={(e) => setDeadlines(prev => ({ ...prev, [goal.id]: e.target.value }))}
+                                    />
+                                </label>
+                            ))}
+                        </div>
+
+                        {plan && (
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)', marginBottom: 'var(--spacing-md)' }}>
+                                {plan.allocations.map(allocation => (
+                                    <div key={allocation.goalId}>
+                                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.875rem' }}>
+                                            <span>
+                                                {allocation.name}
+                                                {allocation.deadlineRisk >= 0.5 && (
+                                                    <span className="badge badge-warning" style={{ marginLeft: 'var(--spacing-sm)' }}>
+                                                        deadline at risk
+                                                    </span>
+                                                )}
+                                            </span>
+                                            <span className="text-secondary">
+                                                {allocation.actualMinutes} / {allocation.plannedMinutes} min ({Math.round(allocation.fraction * 100)}%)
+                                            </span>
+                                        </div>
+                                        <div className="progress-bar" style={{ marginTop: 'var(--spacing-xs)' }}>
+                                            <div
+                                                className="progress-bar-fill"
+                                                style={{ width: `${allocation.plannedMinutes > 0 ? Math.min(100, (allocation.actualMinutes / allocation.plannedMinutes) * 100) : 0}%` }}
+                                            />
+                                        </div>
+                                    </div>
+                                ))}
+                                {plan.sharedObjectCount > 0 && (
+                                    <p className="text-secondary" style={{ margin: 0, fontSize: '0.75rem' }}>
+                                        {plan.sharedObjectCount} shared words count toward several goals at once.
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
+                        {planError && (
+                            <p style={{ color: 'var(--color-error)', fontSize: '0.875rem' }}>{planError}</p>
+                        )}
+
+                        <div style={{ display: 'flex', gap: 'var(--spacing-md)' }}>
+                            <button className="btn btn-secondary" onClick={() => void planWeek()} disabled={planning || weeklyMinutes < 10}>
+                                {planning ? 'Planning...' : plan ? 'Re-plan Week' : 'Plan My Week'}
+                            </button>
+                            <button className="btn btn-primary" onClick={startInterleavedSession} disabled={!plan}>
+                                Start Multi-Goal Session
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {/* Key Metrics */}
                 <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: 'var(--spacing-lg)', marginBottom: 'var(--spacing-2xl)' }}>
                     <div className="card">
@@ -187,8 +411,164 @@ export default function DashboardPage() {
                             Recommended session: 20-30 minutes
                         </p>
                     )}
+                    {activeGoal && (
+                        <button
+                            className="btn btn-secondary"
+                            style={{ marginTop: 'var(--spacing-md)' }}
+                            onClick={() => navigate(`/session/${activeGoal.id}?speed=1`)}
+                        >
+                            ⚡ Speed Round
+                        </button>
+                    )}
                 </div>
 
+                {/* Grammar Roadmap */}
+                {grammar && grammar.entries.length > 0 && (
+                    <div className="card" style={{ marginBottom: 'var(--spacing-2xl)' }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 'var(--spacing-md)' }}>
+                            <h3 style={{ margin: 0 }}>Grammar Roadmap to {grammar.targetLevel}</h3>
+                            <span className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                {grammar.counts.mastered} mastered · {grammar.counts.practising} in practice · {grammar.counts.locked} locked
+                            </span>
+                        </div>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+                            {grammar.entries.map((entry, index) => (
+                                <div
+                                    key={entry.constructionId}
+                                    style={{
+                                        display: 'flex',
+                                        justifyContent: 'space-between',
+                                        alignItems: 'center',
+                                        opacity: entry.status === 'locked' ? 0.6 : 1,
+                                    }}
+                                >
+                                    <div>
+                                        <div style={{ fontWeight: 500 }}>
+                                            {index + 1}. {entry.name}
+                                            <span className="text-secondary" style={{ marginLeft: 'var(--spacing-sm)', fontSize: '0.75rem' }}>
+                                                {entry.cefrLevel} · {entry.pattern}
+                                            </span>
+                                        </div>
+                                        {entry.status === 'locked' && (
+                                            <div className="text-secondary" style={{ fontSize: '0.75rem' }}>
+                                                Needs: {entry.missingPrerequisites
+                                                    .map(id => grammar.entries.find(e => e.constructionId === id)?.name ?? id)
+                                                    .join(', ')}
+                                            </div>
+                                        )}
+                                    </div>
+                                    <span className={`badge ${GRAMMAR_STATUS_BADGE[entry.status]}`}>
+                                        {entry.status === 'practising' ? `stage ${entry.stage}` : entry.status}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Answer Choices */}
+                {distractors && distractors.totals.timesShown > 0 && (
+                    <div className="card" style={{ marginBottom: 'var(--spacing-2xl)' }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 'var(--spacing-md)' }}>
+                            <h3 style={{ margin: 0 }}>Answer Choices</h3>
+                            <span className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                {distractors.totals.distractors} wrong options · {distractors.totals.retired} retired
+                            </span>
+                        </div>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)', marginBottom: 'var(--spacing-md)' }}>
+                            {distractors.strategies.map(s => (
+                                <div key={s.strategy} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                                    <span>{DISTRACTOR_STRATEGY_LABEL[s.strategy] ?? s.strategy}</span>
+                                    <span className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                        picked {percent(s.pickRate)} of {s.timesShown} times
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                        {distractors.attractive.length > 0 && (
+                            <>
+                                <div className="text-secondary" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-sm)' }}>
+                                    Most tempting wrong answers
+                                </div>
+                                {distractors.attractive.map(d => (
+                                    <div key={d.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                                        <span>
+                                            <strong>{d.content}</strong> instead of {d.objectContent}
+                                        </span>
+                                        <span className="badge badge-warning">
+                                            {d.component} · {percent(d.pickRate)}
+                                        </span>
+                                    </div>
+                                ))}
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {/* Task Targeting */}
+                {calibration && calibration.sampleCount > 0 && (
+                    <div className="card" style={{ marginBottom: 'var(--spacing-2xl)' }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 'var(--spacing-md)' }}>
+                            <h3 style={{ margin: 0 }}>Task Targeting</h3>
+                            <span className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                aiming for {percent(calibration.targetSuccess)} correct
+                            </span>
+                        </div>
+                        <p className="text-secondary" style={{ marginTop: 0 }}>
+                            Predicted {percent(calibration.meanPredicted)}, actual {percent(calibration.observedRate)} over{' '}
+                            {calibration.sampleCount} answers
+                        </p>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+                            {calibration.byIntent.map(row => (
+                                <div key={row.intent} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                                    <span>{INTENT_LABEL[row.intent] ?? row.intent}</span>
+                                    <span className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                        predicted {percent(row.meanPredicted)} · actual {percent(row.observedRate)} ({row.count})
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Related Words */}
+                {propagation && (
+                    <div className="card" style={{ marginBottom: 'var(--spacing-2xl)' }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 'var(--spacing-md)' }}>
+                            <h3 style={{ margin: 0 }}>Related Words</h3>
+                            <label className="text-secondary" style={{ fontSize: '0.875rem', display: 'flex', gap: 'var(--spacing-sm)', alignItems: 'center' }}>
+                                <input
+                                    type="checkbox"
+                                    checked={propagation.enabled}
+                                    onChange={e => void togglePropagation(e.target.checked)}
+                                />
+                                Carry progress over
+                            </label>
+                        </div>
+                        <p className="text-secondary" style={{ marginTop: 0 }}>
+                            {propagation.enabled
+                                ? 'Getting a word right makes its family and collocates a little easier.'
+                                : 'Every word is scheduled on its own answers only.'}
+                        </p>
+                        {propagation.entries.length > 0 && (
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+                                {propagation.entries.map(entry => (
+                                    <div key={entry.id} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                                        <span>
+                                            <strong>{entry.sourceContent}</strong> → {entry.targetContent}
+                                        </span>
+                                        <span className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                            {RELATION_LABEL[entry.relationType] ?? entry.relationType} · difficulty{' '}
+                                            {entry.difficultyDelta.toFixed(2)}
+                                            {entry.stabilityDelta > 0 && ` · +${entry.stabilityDelta.toFixed(1)}d stability`}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* Recent Progress */}
                 <div className="card">
                     <h3 style={{ marginBottom: 'var(--spacing-lg)' }}>Recent Progress</h3>
@@ -1,6 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { GoalSpec } from '../../../shared/types';
+import type {
+    PlacementAnswer,
+    PlacementComponent,
+    PlacementResult,
+    PlacementStep,
+} from '../../../shared/types';
+
+const COMPONENT_LABELS: Record<PlacementComponent, string> = {
+    LEX: 'Vocabulary',
+    SYNT: 'Grammar',
+    MORPH: 'Word forms',
+    PHON: 'Pronunciation',
+    PRAG: 'Appropriateness',
+};
 
 interface OnboardingPageProps {
     onComplete: () => void;
@@ -11,6 +24,11 @@ export default function OnboardingPage({ onComplete }: OnboardingPageProps) {
     const [step, setStep] = useState(1);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [goalId, setGoalId] = useState<string | null>(null);
+    const [placement, setPlacement] = useState<PlacementStep | null>(null);
+    const [answers, setAnswers] = useState<PlacementAnswer[]>([]);
+    const [placementResult, setPlacementResult] = useState<PlacementResult | null>(null);
+    const shownAt = useRef(0);
 
     const [formData, setFormData] = useState({
         nativeLanguage: 'en',
@@ -67,15 +85,85 @@ export default function OnboardingPage({ onComplete }: OnboardingPageProps) {
 
         try {
             // Create user and goal through onboarding
-            await window.logos.onboarding.complete({
+            const result = await window.logos.onboarding.complete({
                 ...formData,
                 modality: formData.modality,
             });
 
-            onComplete();
-            navigate('/');
+            // Offer the placement test before entering the app
+            setGoalId(result.goalId);
+            setStep(4);
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to complete onboarding');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const finishOnboarding = () => {
+        onComplete();
+        navigate('/');
+    };
+
+    const showPlacementStep = (next: PlacementStep) => {
+        setPlacement(next);
+        shownAt.current = Date.now();
+    };
+
+    const startPlacement = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            setAnswers([]);
+            showPlacementStep(await window.logos.onboarding.placementNext([]));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to start placement test');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const scorePlacement = async (given: PlacementAnswer[]) => {
+        if (!goalId || given.length === 0) {
+            finishOnboarding();
+            return;
+        }
+        setPlacementResult(await window.logos.onboarding.placementComplete(goalId, given));
+    };
+
+    const answerPlacement = async (option: string) => {
+        if (!placement?.nextItem) {
+            return;
+        }
+        const given = [
+            ...answers,
+            { itemId: placement.nextItem.id, answer: option, responseTimeMs: Date.now() - shownAt.current },
+        ];
+        setAnswers(given);
+        setLoading(true);
+        setError(null);
+        try {
+            const next = await window.logos.onboarding.placementNext(given);
+            if (next.done) {
+                await scorePlacement(given);
+            } else {
+                showPlacementStep(next);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to continue placement test');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const stopPlacement = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            await scorePlacement(answers);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to score placement test');
+        } finally {
             setLoading(false);
         }
     };
@@ -278,9 +366,98 @@ export default function OnboardingPage({ onComplete }: OnboardingPageProps) {
                     </div>
                 )}
 
+                {step === 4 && !placement && !placementResult && (
+                    <div>
+                        <h3>Find your starting level</h3>
+                        <p className="text-secondary" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-lg)' }}>
+                            A short adaptive test (up to 20 questions) that gets harder or easier as you answer.
+                            It sets your starting difficulty far more accurately than a guess.
+                        </p>
+
+                        <div style={{ marginTop: 'var(--spacing-xl)', display: 'flex', justifyContent: 'space-between' }}>
+                            <button className="btn btn-secondary" disabled={loading} onClick={finishOnboarding}>
+                                Skip for now
+                            </button>
+                            <button className="btn btn-primary" disabled={loading} onClick={() => void startPlacement()}>
+                                {loading ? <span className="spinner" /> : 'Start Placement Test →'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {step === 4 && placement?.nextItem && !placementResult && (
+                    <div>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+                            <span className="badge">{COMPONENT_LABELS[placement.nextItem.component]}</span>
+                            <span className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                Question {placement.itemsAnswered + 1} of up to {placement.maxItems}
+                            </span>
+                        </div>
+                        <div className="progress-bar" style={{ margin: 'var(--spacing-md) 0 var(--spacing-lg)' }}>
+                            <div
+                                className="progress-bar-fill"
+                                style={{ width: `${(placement.itemsAnswered / placement.maxItems) * 100}%` }}
+                            />
+                        </div>
+
+                        <h3 style={{ marginBottom: 'var(--spacing-sm)' }}>{placement.nextItem.content}</h3>
+                        <p className="text-secondary" style={{ marginBottom: 'var(--spacing-lg)' }}>
+                            {placement.nextItem.prompt}
+                        </p>
+
+                        <div style={{ display: 'grid', gap: 'var(--spacing-md)' }}>
+                            {placement.nextItem.options.map(option => (
+                                <button
+                                    key={option}
+                                    className="btn btn-secondary"
+                                    style={{ textAlign: 'left' }}
+                                    disabled={loading}
+                                    onClick={() => void answerPlacement(option)}
+                                >
+                                    {option}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div style={{ marginTop: 'var(--spacing-xl)', display: 'flex', justifyContent: 'flex-end' }}>
+                            <button className="btn btn-secondary" disabled={loading} onClick={() => void stopPlacement()}>
+                                {answers.length > 0 ? 'Finish early' : 'Skip test'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {step === 4 && placementResult && (
+                    <div>
+                        <h3>Your starting level: {placementResult.estimatedCEFR}</h3>
+                        <p className="text-secondary" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-lg)' }}>
+                            {placementResult.correctCount} of {placementResult.itemsAnswered} correct · estimate
+                            within ±{placementResult.standardError.toFixed(2)}
+                        </p>
+
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+                            {(Object.keys(COMPONENT_LABELS) as PlacementComponent[]).map(component => (
+                                <div key={component} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                                    <span>{COMPONENT_LABELS[component]}</span>
+                                    <span className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                        θ {placementResult.components[component].theta.toFixed(2)} ·{' '}
+                                        {placementResult.components[component].itemsAnswered} questions
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div style={{ marginTop: 'var(--spacing-xl)', display: 'flex', justifyContent: 'flex-end' }}>
+                            <button className="btn btn-primary" onClick={finishOnboarding}>
+                                Start Learning →
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {/* Progress indicator */}
                 <div style={{ marginTop: 'var(--spacing-2xl)', display: 'flex', justifyContent: 'center', gap: 'var(--spacing-sm)' }}>
-                    {[1, 2, 3].map(i => (
+                    {[1, 2, 3, 4].map(i => (
                         <div
                             key={i}
                             style={{
@@ -1,10 +1,41 @@
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import type { Task, TaskContent } from '../../../shared/types';
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import type {
+    Task,
+    InterleavedQueueItem,
+    SpeedRound,
+    SessionScoreSpeechResponse,
+    AnswerGradingInfo,
+    TaskContextSource,
+} from '../../../shared/types';
+import { startSpeechRecording, type SpeechRecording } from '../speech-recorder';
+
+// Every Nth task is spoken when the goal includes speaking
+const SPEAKING_INTERVAL = 3;
+
+function describeContextSource(source: TaskContextSource): string {
+    if (source.page !== null) {
+        return `${source.filename}, page ${source.page}`;
+    }
+    if (source.startMs !== null) {
+        const seconds = Math.floor(source.startMs / 1000);
+        return `${source.filename} at ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    }
+    return source.filename;
+}
 
 export default function SessionPage() {
     const { goalId } = useParams<{ goalId: string }>();
     const navigate = useNavigate();
+    const [searchParams] = useSearchParams();
+    // Interleaved sessions follow the weekly plan across all goals
+    const interleaved = searchParams.get('interleave') === '1';
+    // Cluster sessions practise one object and its neighbors in the word network
+    const clusterObjectId = searchParams.get('cluster');
+    // Speed rounds drill known words against a shrinking answer deadline
+    const speedRound = searchParams.get('speed') === '1';
+    const usesPlannedItems = interleaved || clusterObjectId !== null || speedRound;
+    const [plannedItems, setPlannedItems] = useState<InterleavedQueueItem[]>([]);
     const [sessionId, setSessionId] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
     const [currentTask, setCurrentTask] = useState<Task | null>(null);
@@ -13,26 +44,85 @@ export default function SessionPage() {
     const [userAnswer, setUserAnswer] = useState('');
     const [showFeedback, setShowFeedback] = useState(false);
     const [isCorrect, setIsCorrect] = useState(false);
+    // Tasks are issued and graded by main
+    const [issuedTaskId, setIssuedTaskId] = useState<string | null>(null);
+    const [taskError, setTaskError] = useState<string | null>(null);
+    const [taskOptions, setTaskOptions] = useState<string[]>([]);
+    const [contextSource, setContextSource] = useState<TaskContextSource | null>(null);
+    const [grading, setGrading] = useState<AnswerGradingInfo | null>(null);
+    const [submitting, setSubmitting] = useState(false);
     const [startTime, setStartTime] = useState(Date.now());
     const [sessionStats, setSessionStats] = useState({
         correct: 0,
         total: 0,
     });
+    const [speakingEnabled, setSpeakingEnabled] = useState(false);
+    const [isRecording, setIsRecording] = useState(false);
+    const [scoringSpeech, setScoringSpeech] = useState(false);
+    const [speechResult, setSpeechResult] = useState<SessionScoreSpeechResponse | null>(null);
+    const [speechError, setSpeechError] = useState<string | null>(null);
+    const recordingRef = useRef<SpeechRecording | null>(null);
+    const [deadlinePolicy, setDeadlinePolicy] = useState<SpeedRound['deadline'] | null>(null);
+    const [deadlineMs, setDeadlineMs] = useState(0);
+    const [clock, setClock] = useState(Date.now());
 
     useEffect(() => {
         if (goalId) {
             initSession();
         }
+        return () => recordingRef.current?.cancel();
     }, [goalId]);
 
+    // Speaking tasks need a speaking goal and a configured recognizer
+    const loadSpeakingEnabled = async () => {
+        try {
+            const [goal, speech] = await Promise.all([
+                window.logos.goal.get(goalId!),
+                window.logos.session.getSpeechStatus(),
+            ]);
+            return Boolean(goal?.modality.includes('speaking')) && speech.available;
+        } catch (error) {
+            console.error('Failed to check speaking support:', error);
+            return false;
+        }
+    };
+
     const initSession = async () => {
         try {
             // Start a new session
-            const session = await window.logos.session.start(goalId!, 'learning', 20);
+            const session = await window.logos.session.start(goalId!, speedRound ? 'training' : 'learning', 20);
             setSessionId(session.sessionId);
 
+            const speaking = !speedRound && await loadSpeakingEnabled();
+            setSpeakingEnabled(speaking);
+
+            let items: InterleavedQueueItem[] = [];
+            if (interleaved) {
+                const queue = await window.logos.planner.getSessionQueue({ sessionSize: 20 });
+                items = queue.items;
+                setPlannedItems(items);
+                setTotalTasks(Math.max(1, items.length));
+            } else if (clusterObjectId) {
+                const queue = await window.logos.network.getClusterQueue(clusterObjectId);
+                items = queue.items;
+                setPlannedItems(items);
+                setTotalTasks(Math.max(1, items.length));
+            } else if (speedRound) {
+                const round = await window.logos.automatization.getSpeedRound(goalId!);
+                items = round.items.map(item => ({
+                    ...item,
+                    finalScore: 1 - item.automatizationLevel,
+                    isShared: false,
+                    benefitingGoals: [item.goalId],
+                }));
+                setPlannedItems(items);
+                setTotalTasks(Math.max(1, items.length));
+                setDeadlinePolicy(round.deadline);
+                setDeadlineMs(round.deadline.startMs);
+            }
+
             // Load first task
-            await loadNextTask();
+            await loadNextTask(items, 0, speaking, session.sessionId);
         } catch (error) {
             console.error('Failed to start session:', error);
         } finally {
@@ -40,10 +130,23 @@ export default function SessionPage() {
         }
     };
 
-    const loadNextTask = async () => {
+    const getQueueItem = async (items: InterleavedQueueItem[], index: number) => {
+        if (usesPlannedItems) {
+            const item = items[index];
+            return item ? { objectId: item.objectId, content: item.content, stage: item.masteryStage } : null;
+        }
+        return window.logos.queue.getNext(goalId!, []);
+    };
+
+    const loadNextTask = async (
+        items: InterleavedQueueItem[],
+        index: number,
+        speaking: boolean,
+        activeSessionId: string | null
+    ) => {
         try {
             // Get next item from queue
-            const queueItem = await window.logos.queue.getNext(goalId!, []);
+            const queueItem = await getQueueItem(items, index);
 
             if (!queueItem) {
                 // No more tasks - end session
@@ -51,59 +154,101 @@ export default function SessionPage() {
                 return;
             }
 
-            // Try to generate task from Claude
-            try {
-                const taskContent: TaskContent = await window.logos.claude.generateContent(
-                    'exercise',
-                    queueItem.objectId,
-                    {
-                        taskType: queueItem.stage === 0 ? 'recognition' : queueItem.stage === 1 ? 'recall' : 'production',
-                        masteryStage: queueItem.stage,
-                    }
-                );
-
-                const task: Task = {
+            setSpeechResult(null);
+            setSpeechError(null);
+            setTaskError(null);
+            setGrading(null);
+            setIssuedTaskId(null);
+            setTaskOptions([]);
+            setContextSource(null);
+
+            if (speaking && index % SPEAKING_INTERVAL === SPEAKING_INTERVAL - 1) {
+                setCurrentTask({
                     id: Math.random().toString(),
+                    spec: {
+                        objectId: queueItem.objectId,
+                        targetContent: queueItem.content,
+                        targetStage: queueItem.stage,
+                        taskType: 'speaking',
+                        taskFormat: 'pronunciation',
+                        modality: 'auditory',
+                        domain: 'general',
+                        userTheta: 0,
+                    },
+                    content: {
+                        prompt: `Say "${queueItem.content}" aloud`,
+                        correctAnswer: queueItem.content,
+                        distractors: [],
+                        hints: [],
+                        context: '',
+                        explanation: '',
+                    },
+                    generatedAt: new Date(),
+                    expiresAt: new Date(Date.now() + 86400000),
+                });
+                setUserAnswer('');
+                setShowFeedback(false);
+                setStartTime(Date.now());
+                return;
+            }
+
+            // Main issues the task and keeps the answer for grading
+            try {
+                if (!activeSessionId) {
+                    throw new Error('No active session');
+                }
+                const issued = await window.logos.session.generateTask(activeSessionId, queueItem.objectId);
+
+                setIssuedTaskId(issued.taskId);
+                setTaskOptions(issued.options ?? []);
+                setContextSource(issued.contextSource ?? null);
+                setCurrentTask({
+                    id: issued.taskId,
                     spec: {
                         objectId: queueItem.objectId,
                         targetContent: queueItem.content,
                         targetStage: queueItem.stage,
                         taskType: queueItem.stage === 0 ? 'recognition' : queueItem.stage === 1 ? 'recall_free' : 'production',
-                        taskFormat: 'mcq',
+                        taskFormat: issued.format,
                         modality: 'visual',
                         domain: 'general',
                         userTheta: 0,
                     },
-                    content: taskContent,
+                    content: {
+                        prompt: issued.prompt,
+                        correctAnswer: '',
+                        distractors: [],
+                        hints: issued.hints ?? [],
+                        context: issued.context ?? '',
+                        explanation: '',
+                    },
                     generatedAt: new Date(),
                     expiresAt: new Date(Date.now() + 86400000),
-                };
-
-                setCurrentTask(task);
+                });
             } catch (err) {
-                // Fallback to simple task
-                const fallbackContent: TaskContent = {
-                    prompt: `What does "${queueItem.content}" mean?`,
-                    correctAnswer: queueItem.content,
-                    distractors: ['Option A', 'Option B', 'Option C'],
-                    hints: [],
-                    context: '',
-                    explanation: `This is a learning task for: ${queueItem.content}`,
-                };
-
+                // Without an issued task there is nothing main can grade; offer to skip the item
+                console.error('Failed to generate task:', err);
+                setTaskError(err instanceof Error ? err.message : 'Could not prepare a task for this item.');
                 setCurrentTask({
-                    id: Math.random().toString(),
+                    id: queueItem.objectId,
                     spec: {
                         objectId: queueItem.objectId,
                         targetContent: queueItem.content,
-                        targetStage: 0,
+                        targetStage: queueItem.stage,
                         taskType: 'recognition',
-                        taskFormat: 'mcq',
+                        taskFormat: 'free_response',
                         modality: 'visual',
                         domain: 'general',
                         userTheta: 0,
                     },
-                    content: fallbackContent,
+                    content: {
+                        prompt: queueItem.content,
+                        correctAnswer: '',
+                        distractors: [],
+                        hints: [],
+                        context: '',
+                        explanation: '',
+                    },
                     generatedAt: new Date(),
                     expiresAt: new Date(Date.now() + 86400000),
                 });
@@ -117,36 +262,117 @@ export default function SessionPage() {
         }
     };
 
-    const submitAnswer = () => {
-        if (!currentTask || !sessionId) return;
+    const submitAnswer = async () => {
+        if (!currentTask || !sessionId || !issuedTaskId || submitting) return;
 
-        const correct = userAnswer.toLowerCase().trim() === currentTask.content.correctAnswer.toLowerCase().trim();
-        setIsCorrect(correct);
-        setShowFeedback(true);
-
-        // Record response
         const responseTime = Date.now() - startTime;
-        window.logos.session.recordResponse({
-            sessionId,
-            objectId: currentTask.spec.objectId,
-            correct,
-            cueLevel: 0,
-            responseTimeMs: responseTime,
-            errorComponents: correct ? undefined : ['LEX'],
-        });
+        let correct: boolean;
+        setSubmitting(true);
+        try {
+            const result = await window.logos.session.recordResponse({
+                sessionId,
+                objectId: currentTask.spec.objectId,
+                taskId: issuedTaskId,
+                cueLevel: 0,
+                responseTimeMs: responseTime,
+                responseContent: userAnswer,
+                taskType: speedRound ? 'timed' : undefined,
+            });
+            setGrading(result.grading ?? null);
+            correct = result.grading?.correct ?? false;
+        } catch (error) {
+            console.error('Failed to grade answer:', error);
+            return;
+        } finally {
+            setSubmitting(false);
+        }
 
+        setIsCorrect(correct);
+        setShowFeedback(true);
         setSessionStats(prev => ({
             correct: prev.correct + (correct ? 1 : 0),
             total: prev.total + 1,
         }));
+
+        if (deadlinePolicy) {
+            const onTime = correct && responseTime <= deadlineMs;
+            const next = deadlineMs * (onTime ? deadlinePolicy.shrink : deadlinePolicy.relax);
+            setDeadlineMs(Math.round(Math.max(deadlinePolicy.minMs, Math.min(deadlinePolicy.maxMs, next))));
+        }
+    };
+
+    // Speed round countdown; the answer is submitted as it stands when time runs out
+    useEffect(() => {
+        if (!deadlinePolicy || !currentTask || taskError || showFeedback) {
+            return;
+        }
+        const timer = setInterval(() => setClock(Date.now()), 100);
+        return () => clearInterval(timer);
+    }, [deadlinePolicy, currentTask, taskError, showFeedback]);
+
+    useEffect(() => {
+        if (deadlinePolicy && currentTask && !showFeedback && clock - startTime >= deadlineMs) {
+            void submitAnswer();
+        }
+    }, [clock]);
+
+    const startRecording = async () => {
+        setSpeechError(null);
+        try {
+            recordingRef.current = await startSpeechRecording();
+            setIsRecording(true);
+        } catch (error) {
+            console.error('Failed to start recording:', error);
+            setSpeechError('Microphone unavailable. Check microphone permissions.');
+        }
+    };
+
+    const submitSpeech = async () => {
+        const recording = recordingRef.current;
+        if (!recording || !currentTask || !sessionId) {
+            return;
+        }
+
+        recordingRef.current = null;
+        setIsRecording(false);
+        setScoringSpeech(true);
+        const responseTime = Date.now() - startTime;
+
+        try {
+            const result = await window.logos.session.scoreSpeech({
+                sessionId,
+                objectId: currentTask.spec.objectId,
+                audio: await recording.stop(),
+                mimeType: 'audio/wav',
+                responseTimeMs: responseTime,
+            });
+
+            // Main records the attempt as a response when it scores it
+            setSpeechResult(result);
+            setIsCorrect(result.correct);
+            setShowFeedback(true);
+
+            setSessionStats(prev => ({
+                correct: prev.correct + (result.correct ? 1 : 0),
+                total: prev.total + 1,
+            }));
+        } catch (error) {
+            console.error('Failed to score speech:', error);
+            setSpeechError(error instanceof Error ? error.message : 'Could not score the recording.');
+        } finally {
+            setScoringSpeech(false);
+        }
     };
 
     const nextTask = () => {
+        recordingRef.current?.cancel();
+        recordingRef.current = null;
+        setIsRecording(false);
         if (taskIndex + 1 >= totalTasks) {
             endSession();
         } else {
             setTaskIndex(taskIndex + 1);
-            loadNextTask();
+            loadNextTask(plannedItems, taskIndex + 1, speakingEnabled, sessionId);
         }
     };
 
@@ -180,14 +406,16 @@ export default function SessionPage() {
         );
     }
 
+    // Time spent on the current speed-round item
+    const elapsedMs = Math.max(0, clock - startTime);
+
     const accuracy = sessionStats.total > 0
         ? Math.round((sessionStats.correct / sessionStats.total) * 100)
         : 0;
 
-    // Prepare options for MCQ (combine correct answer with distractors)
-    const options = currentTask.content.distractors.length > 0
-        ? [currentTask.content.correctAnswer, ...currentTask.content.distractors].sort(() => Math.random() - 0.5)
-        : [];
+    const isSpeakingTask = currentTask.spec.taskFormat === 'pronunciation';
+
+    const options = taskOptions;
 
     return (
         <div style={{ minHeight: '100vh', paddingBottom: 'var(--spacing-2xl)' }}>
@@ -201,7 +429,13 @@ export default function SessionPage() {
                 <div className="container">
                     <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 'var(--spacing-md)' }}>
                         <div>
-                            <h2 style={{ margin: 0, fontSize: '1.25rem' }}>Learning Session</h2>
+                            <h2 style={{ margin: 0, fontSize: '1.25rem' }}>
+                                {interleaved
+                                    ? 'Multi-Goal Session'
+                                    : clusterObjectId
+                                        ? 'Cluster Session'
+                                        : speedRound ? 'Speed Round' : 'Learning Session'}
+                            </h2>
                             <p className="text-secondary" style={{ margin: '0.25rem 0 0 0', fontSize: '0.875rem' }}>
                                 {taskIndex + 1} of {totalTasks} • {accuracy}% accuracy
                             </p>
@@ -222,11 +456,47 @@ export default function SessionPage() {
                     <div style={{ marginBottom: 'var(--spacing-2xl)' }}>
                         <div className="text-secondary" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-sm)' }}>
                             {currentTask.spec.taskType.replace('_', ' ')}
+                            {plannedItems[taskIndex]?.isShared && (
+                                <span className="badge" style={{ marginLeft: 'var(--spacing-sm)' }}>
+                                    Counts for {plannedItems[taskIndex].benefitingGoals.length} goals
+                                </span>
+                            )}
                         </div>
                         <h3 style={{ fontSize: '1.5rem', marginBottom: 'var(--spacing-lg)' }}>
                             {currentTask.content.prompt}
                         </h3>
 
+                        {/* Context Sentence */}
+                        {currentTask.content.context && (
+                            <div style={{ fontSize: '1.125rem', marginBottom: 'var(--spacing-lg)' }}>
+                                <p>{currentTask.content.context}</p>
+                                {contextSource && (
+                                    <div className="text-secondary" style={{ fontSize: '0.75rem', marginTop: 'var(--spacing-xs)' }}>
+                                        From your document {describeContextSource(contextSource)}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Speed Round Deadline */}
+                        {deadlinePolicy && !showFeedback && (
+                            <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                                <div className="flex justify-between text-secondary" style={{ fontSize: '0.75rem', marginBottom: 'var(--spacing-xs)' }}>
+                                    <span>Answer within {(deadlineMs / 1000).toFixed(1)}s</span>
+                                    <span>{(Math.max(0, deadlineMs - elapsedMs) / 1000).toFixed(1)}s left</span>
+                                </div>
+                                <div className="progress-bar">
+                                    <div
+                                        className="progress-bar-fill"
+                                        style={{
+                                            width: `${Math.max(0, 1 - elapsedMs / deadlineMs) * 100}%`,
+                                            backgroundColor: 'var(--color-warning)',
+                                        }}
+                                    />
+                                </div>
+                            </div>
+                        )}
+
                         {/* Multiple Choice Options */}
                         {options.length > 0 && !showFeedback && (
                             <div style={{ display: 'grid', gap: 'var(--spacing-md)' }}>
@@ -250,14 +520,43 @@ export default function SessionPage() {
                             </div>
                         )}
 
+                        {/* Spoken Response */}
+                        {isSpeakingTask && !showFeedback && (
+                            <div className="text-center">
+                                <div style={{ fontSize: '2rem', fontWeight: 600, marginBottom: 'var(--spacing-lg)' }}>
+                                    {currentTask.spec.targetContent}
+                                </div>
+                                {speechError && (
+                                    <p style={{ color: 'var(--color-error)' }}>{speechError}</p>
+                                )}
+                                {scoringSpeech && (
+                                    <div className="flex items-center gap-sm" style={{ justifyContent: 'center' }}>
+                                        <div className="spinner" />
+                                        <span className="text-secondary">Listening to your attempt...</span>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Task Could Not Be Issued */}
+                        {taskError && (
+                            <p style={{ color: 'var(--color-error)' }}>
+                                No task could be prepared for this item: {taskError}
+                            </p>
+                        )}
+
                         {/* Free Text Input */}
-                        {options.length === 0 && !showFeedback && (
+                        {options.length === 0 && !isSpeakingTask && !taskError && !showFeedback && (
                             <div>
                                 <input
                                     type="text"
                                     value={userAnswer}
                                     onChange={(e) => setUserAnswer(e.target.value)}
-                                    onKeyPress={(e) => e.key === 'Enter' && userAnswer && submitAnswer()}
+                                    onKeyPress={(e) => {
+                                        if (e.key === 'Enter' && userAnswer) {
+                                            void submitAnswer();
+                                        }
+                                    }}
                                     placeholder="Type your answer..."
                                     autoFocus
                                     style={{ fontSize: '1.125rem', padding: 'var(--spacing-lg)' }}
@@ -283,16 +582,65 @@ export default function SessionPage() {
                                 }}>
                                     {isCorrect ? '✓ Correct!' : '✗ Incorrect'}
                                 </div>
-                                {!isCorrect && (
+                                {grading && grading.matchType !== 'exact' && (
+                                    <p style={{ margin: '0 0 var(--spacing-md) 0' }}>
+                                        {grading.feedback}
+                                        {grading.credit > 0 && grading.credit < 1 && (
+                                            <span className="text-secondary"> ({Math.round(grading.credit * 100)}% credit)</span>
+                                        )}
+                                    </p>
+                                )}
+                                {speechResult && (
+                                    <div style={{ fontSize: '0.875rem' }}>
+                                        <div>
+                                            <span className="text-secondary">Expected: </span>
+                                            /{speechResult.expected.join('')}/
+                                        </div>
+                                        <div>
+                                            <span className="text-secondary">Heard: </span>
+                                            /{speechResult.recognized.join('')}/
+                                            {' '}({Math.round(speechResult.accuracy * 100)}% of sounds)
+                                        </div>
+                                        {speechResult.errors.length > 0 && (
+                                            <ul style={{ margin: 'var(--spacing-sm) 0 0 0', paddingLeft: 'var(--spacing-lg)' }}>
+                                                {speechResult.errors.map((e, index) => (
+                                                    <li key={index}>
+                                                        {e.type === 'substitution' && `/${e.expected}/ sounded like /${e.recognized}/`}
+                                                        {e.type === 'deletion' && `/${e.expected}/ was missing`}
+                                                        {e.type === 'insertion' && `Extra /${e.recognized}/`}
+                                                        {e.reason && <span className="text-secondary"> — {e.reason}</span>}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                )}
+                                {(!isCorrect || (grading && grading.credit < 1)) && !speechResult && (
                                     <div>
                                         <div className="text-secondary" style={{ fontSize: '0.875rem' }}>
                                             Correct answer:
                                         </div>
                                         <div style={{ fontSize: '1.125rem', fontWeight: 500 }}>
-                                            {currentTask.content.correctAnswer}
+                                            {grading?.expected ?? currentTask.content.correctAnswer}
                                         </div>
                                     </div>
                                 )}
+                                {grading?.gloss && (
+                                    <div style={{ marginTop: 'var(--spacing-md)', fontSize: '0.875rem' }}>
+                                        <div className="text-secondary">
+                                            Meaning{grading.gloss.partOfSpeech && ` (${grading.gloss.partOfSpeech})`}:
+                                        </div>
+                                        {grading.gloss.translation && (
+                                            <div style={{ fontWeight: 500 }}>{grading.gloss.translation}</div>
+                                        )}
+                                        {grading.gloss.definition && <div>{grading.gloss.definition}</div>}
+                                        {grading.gloss.example && (
+                                            <div className="text-secondary" style={{ fontStyle: 'italic' }}>
+                                                {grading.gloss.example}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
                                 {currentTask.content.explanation && (
                                     <div style={{ marginTop: 'var(--spacing-md)', fontSize: '0.875rem' }}>
                                         <div className="text-secondary">Explanation:</div>
@@ -305,11 +653,31 @@ export default function SessionPage() {
 
                     {/* Action Buttons */}
                     <div style={{ display: 'flex', justifyContent: 'center', gap: 'var(--spacing-md)' }}>
-                        {!showFeedback ? (
+                        {isSpeakingTask && !showFeedback ? (
+                            <>
+                                <button
+                                    className="btn btn-primary"
+                                    onClick={() => void (isRecording ? submitSpeech() : startRecording())}
+                                    disabled={scoringSpeech}
+                                    style={{ minWidth: '200px' }}
+                                >
+                                    {isRecording ? '■ Stop & Check' : '🎙 Record'}
+                                </button>
+                                {speechError && (
+                                    <button className="btn btn-secondary" onClick={nextTask}>
+                                        Skip
+                                    </button>
+                                )}
+                            </>
+                        ) : taskError ? (
+                            <button className="btn btn-secondary" onClick={nextTask} style={{ minWidth: '200px' }}>
+                                Skip
+                            </button>
+                        ) : !showFeedback ? (
                             <button
                                 className="btn btn-primary"
-                                onClick={submitAnswer}
-                                disabled={!userAnswer}
+                                onClick={() => void submitAnswer()}
+                                disabled={!userAnswer || submitting}
                                 style={{ minWidth: '200px' }}
                             >
                                 Submit Answer
@@ -1,7 +1,279 @@
+import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import type {
+    UserSettings,
+    UserFREWeights,
+    AICapability,
+    AIProviderKind,
+    AIProviderSettings,
+    ReviewLoadPreviewResponse,
+    SyncStatus,
+    OfflineQueueStats,
+    DatabaseBackupInfo,
+    DatabaseBackupReason,
+    CorpusPackInfo,
+} from '../../../shared/types';
+
+const CAPABILITY_LABELS: Record<AICapability, string> = {
+    content: 'Content generation',
+    errorAnalysis: 'Error analysis',
+    hints: 'Hints',
+};
+
+const DEFAULT_WEIGHTS: UserFREWeights = { f: 0.4, r: 0.3, e: 0.3 };
+
+const BACKUP_REASON_LABELS: Record<DatabaseBackupReason, string> = {
+    scheduled: 'Daily',
+    manual: 'Manual',
+    'pre-migration': 'Before update',
+    'pre-restore': 'Before restore',
+};
+
+/**
+ * Check that custom priority weights are each 0-1 and sum to 1.
+ * Returns an error message, or null when valid.
+ */
+function validateWeights(weights: UserFREWeights | null): string | null {
+    if (!weights) {
+        return null;
+    }
+    const values = [weights.f, weights.r, weights.e];
+    if (values.some(v => Number.isNaN(v) || v < 0 || v > 1)) {
+        return 'Each weight must be between 0 and 1.';
+    }
+    const sum = values.reduce((a, b) => a + b, 0);
+    if (Math.abs(sum - 1) > 0.01) {
+        return `Weights must sum to 1 (currently ${sum.toFixed(2)}).`;
+    }
+    return null;
+}
+
+function describeDestination(provider: AIProviderSettings): string {
+    switch (provider.kind) {
+        case 'anthropic':
+            return 'Learner text is sent to the Anthropic API.';
+        case 'openai-compatible':
+            return provider.baseUrl
+                ? `Learner text is sent to ${provider.baseUrl}.`
+                : 'Enter the address of your model server.';
+        case 'offline':
+            return 'Built-in templates. Nothing leaves this computer.';
+    }
+}
 
 export default function SettingsPage() {
     const navigate = useNavigate();
+    const [settings, setSettings] = useState<UserSettings | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ kind: 'success' | 'error'; text: string } | null>(null);
+    const [preview, setPreview] = useState<ReviewLoadPreviewResponse | null>(null);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+    const [queueStats, setQueueStats] = useState<OfflineQueueStats | null>(null);
+    const [syncMessage, setSyncMessage] = useState<string | null>(null);
+    const [includeHistory, setIncludeHistory] = useState(true);
+    const [importMerge, setImportMerge] = useState(true);
+    const [dataMessage, setDataMessage] = useState<string | null>(null);
+    const [dataBusy, setDataBusy] = useState(false);
+    const [backups, setBackups] = useState<DatabaseBackupInfo[]>([]);
+    const [packs, setPacks] = useState<CorpusPackInfo[]>([]);
+    const [packMessage, setPackMessage] = useState<string | null>(null);
+    const [packBusy, setPackBusy] = useState(false);
+
+    useEffect(() => {
+        void loadSettings();
+        void loadSyncStatus();
+        void loadBackups();
+        void loadPacks();
+    }, []);
+
+    // Preview the review load shortly after the retention slider settles
+    const retention = settings?.targetRetention;
+    useEffect(() => {
+        if (retention === undefined) {
+            return;
+        }
+        const timer = setTimeout(() => {
+            window.logos.profile.previewReviewLoad(retention)
+                .then(setPreview)
+                .catch(() => setPreview(null));
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [retention]);
+
+    const loadSettings = async () => {
+        try {
+            setSettings(await window.logos.profile.getSettings());
+        } catch (error) {
+            console.error('Failed to load settings:', error);
+            setMessage({ kind: 'error', text: 'Could not load settings.' });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const loadSyncStatus = async () => {
+        try {
+            const [status, stats] = await Promise.all([
+                window.logos.sync.getStatus(),
+                window.logos.sync.getQueueStats(),
+            ]);
+            setSyncStatus(status);
+            setQueueStats(stats);
+        } catch (error) {
+            console.error('Failed to load sync status:', error);
+        }
+    };
+
+    const loadBackups = async () => {
+        try {
+            setBackups(await window.logos.system.listBackups());
+        } catch (error) {
+            console.error('Failed to list backups:', error);
+        }
+    };
+
+    const loadPacks = async () => {
+        try {
+            setPacks(await window.logos.corpus.listPacks());
+        } catch (error) {
+            console.error('Failed to list corpus packs:', error);
+        }
+    };
+
+    const update = <K extends keyof UserSettings>(key: K, value: UserSettings[K]) => {
+        setSettings(prev => (prev ? { ...prev, [key]: value } : prev));
+        setMessage(null);
+    };
+
+    const updateWeight = (key: keyof UserFREWeights, value: number) => {
+        update('priorityWeights', { ...(settings?.priorityWeights ?? DEFAULT_WEIGHTS), [key]: value });
+    };
+
+    const updateProvider = (capability: AICapability, changes: Partial<AIProviderSettings>) => {
+        if (!settings) {
+            return;
+        }
+        update('aiProviders', {
+            ...settings.aiProviders,
+            [capability]: { ...settings.aiProviders[capability], ...changes },
+        });
+    };
+
+    const weightError = validateWeights(settings?.priorityWeights ?? null);
+
+    const handleSave = async () => {
+        if (!settings || weightError) {
+            return;
+        }
+        setSaving(true);
+        setMessage(null);
+        try {
+            const saved = await window.logos.profile.updateSettings(settings);
+            setSettings(saved);
+            document.documentElement.dataset.theme = saved.theme;
+            setMessage({ kind: 'success', text: 'Settings saved.' });
+        } catch (error) {
+            setMessage({ kind: 'error', text: error instanceof Error ? error.message : 'Failed to save settings.' });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const runSyncAction = async (action: () => Promise<string>) => {
+        setSyncMessage(null);
+        try {
+            setSyncMessage(await action());
+        } catch (error) {
+            setSyncMessage(error instanceof Error ? error.message : 'Sync action failed.');
+        }
+        await loadSyncStatus();
+    };
+
+    const runDataAction = async (action: () => Promise<string>) => {
+        setDataBusy(true);
+        setDataMessage(null);
+        try {
+            setDataMessage(await action());
+        } catch (error) {
+            setDataMessage(error instanceof Error ? error.message : 'Operation failed.');
+        } finally {
+            setDataBusy(false);
+        }
+    };
+
+    const handleRestore = (backup: DatabaseBackupInfo) => {
+        const when = new Date(backup.createdAt).toLocaleString();
+        if (!window.confirm(`Replace all current data with the backup from ${when}? The current data is backed up first.`)) {
+            return;
+        }
+        void runDataAction(async () => {
+            await window.logos.system.restoreBackup(backup.id);
+            // Every page holds data from the replaced database
+            window.location.reload();
+            return 'Backup restored.';
+        });
+    };
+
+    const handleImport = () => {
+        if (!importMerge && !window.confirm('Replace ALL local learning data with the archive you choose?')) {
+            return;
+        }
+        void runDataAction(async () => {
+            // The archive is picked in a dialog shown by the main process
+            const result = await window.logos.system.importData(importMerge);
+            if (!result) {
+                return 'Import cancelled.';
+            }
+            const total = Object.values(result.imported).reduce((a, b) => a + b, 0);
+            return result.errors.length > 0
+                ? `Imported ${total} records with ${result.errors.length} errors: ${result.errors[0]}`
+                : `Imported ${total} records (${result.skipped} skipped).`;
+        });
+    };
+
+    const runPackAction = async (action: () => Promise<string>) => {
+        setPackBusy(true);
+        setPackMessage(null);
+        try {
+            setPackMessage(await action());
+        } catch (error) {
+            setPackMessage(error instanceof Error ? error.message : 'Operation failed.');
+        } finally {
+            setPackBusy(false);
+        }
+        await loadPacks();
+    };
+
+    const handleInstallPack = (file: File | undefined) => {
+        // Electron exposes the absolute path of files chosen in the renderer
+        const filePath = file?.path;
+        if (!filePath) {
+            return;
+        }
+        void runPackAction(async () => {
+            const pack = await window.logos.corpus.installPack(filePath);
+            return `Installed ${pack.name} (${pack.entryCount.toLocaleString()} entries).`;
+        });
+    };
+
+    const handleRemovePack = (pack: CorpusPackInfo) => {
+        if (!window.confirm(`Remove the corpus pack "${pack.name}"?`)) {
+            return;
+        }
+        void runPackAction(async () => {
+            await window.logos.corpus.removePack(pack.id);
+            return `Removed ${pack.name}.`;
+        });
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center" style={{ height: '100vh' }}>
+                <div className="spinner" />
+            </div>
+        );
+    }
 
     return (
         <div style={{ minHeight: '100vh', paddingBottom: 'var(--spacing-2xl)' }}>
@@ -11,20 +283,472 @@ export default function SettingsPage() {
                 padding: 'var(--spacing-lg) 0',
                 marginBottom: 'var(--spacing-2xl)',
             }}>
-                <div className="container">
+                <div className="container flex justify-between items-center">
                     <h1 style={{ margin: 0, fontSize: '1.5rem' }}>Settings</h1>
+                    <button className="btn btn-secondary" onClick={() => navigate('/')}>
+                        ← Back to Dashboard
+                    </button>
                 </div>
             </header>
 
-            <div className="container" style={{ maxWidth: '800px' }}>
+            <div className="container flex flex-col gap-lg" style={{ maxWidth: '800px' }}>
+                {!settings ? (
+                    <div className="card">
+                        <p className="text-secondary">{message?.text ?? 'Settings are unavailable.'}</p>
+                    </div>
+                ) : (
+                    <>
+                        {/* Learning */}
+                        <div className="card">
+                            <h3>Learning</h3>
+                            <div className="flex gap-md" style={{ flexWrap: 'wrap', marginBottom: 'var(--spacing-md)' }}>
+                                <label className="flex flex-col gap-sm">
+                                    <span className="text-secondary">Daily goal (minutes)</span>
+                                    <input
+                                        type="number"
+                                        min={5}
+                                        max={480}
+                                        value={settings.dailyGoal}
+                                        onChange={(e) => update('dailyGoal', Number(e.target.value))}
+                                    />
+                                </label>
+                                <label className="flex flex-col gap-sm">
+                                    <span className="text-secondary">Session length (minutes)</span>
+                                    <input
+                                        type="number"
+                                        min={5}
+                                        max={120}
+                                        value={settings.sessionLength}
+                                        onChange={(e) => update('sessionLength', Number(e.target.value))}
+                                    />
+                                </label>
+                            </div>
+
+                            <label className="flex flex-col gap-sm">
+                                <span className="text-secondary">
+                                    Target retention: <strong>{Math.round(settings.targetRetention * 100)}%</strong>
+                                </span>
+                                <input
+                                    type="range"
+                                    min={0.7}
+                                    max={0.99}
+                                    step={0.01}
+                                    value={settings.targetRetention}
+                                    onChange={(e) => update('targetRetention', Number(e.target.value))}
+                                />
+                            </label>
+                            {preview && (
+                                <div style={{ marginTop: 'var(--spacing-md)' }}>
+                                    {preview.reviewedItems === 0 ? (
+                                        <p className="text-secondary" style={{ margin: 0 }}>
+                                            Review load appears once you have reviewed some items.
+                                        </p>
+                                    ) : (
+                                        <div className="flex gap-lg">
+                                            {[preview.current, preview.proposed].map((load, i) => (
+                                                <div key={i}>
+                                                    <div className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                                        {i === 0 ? 'Current' : 'With this setting'} ({Math.round(load.targetRetention * 100)}%)
+                                                    </div>
+                                                    <div className="font-semibold">
+                                                        ~{load.dailyReviews.toFixed(1)} reviews/day
+                                                    </div>
+                                                    <div className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                                        {load.dueInHorizon} due in the next {preview.horizonDays} days ·
+                                                        {' '}every {load.averageIntervalDays.toFixed(1)} days on average
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            <label className="flex flex-col gap-sm" style={{ marginTop: 'var(--spacing-md)' }}>
+                                <span className="text-secondary">
+                                    Target success rate: <strong>{Math.round(settings.targetSuccessRate * 100)}%</strong>
+                                </span>
+                                <input
+                                    type="range"
+                                    min={0.5}
+                                    max={0.95}
+                                    step={0.05}
+                                    value={settings.targetSuccessRate}
+                                    onChange={(e) => update('targetSuccessRate', Number(e.target.value))}
+                                />
+                                <span className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                    Tasks are chosen so you answer about this share correctly.
+                                </span>
+                            </label>
+                        </div>
+
+                        {/* Priority weights */}
+                        <div className="card">
+                            <h3>Item Priority</h3>
+                            <p className="text-secondary">
+                                How new words are ranked: frequency (F), relational density (R) and contextual
+                                contribution (E).
+                            </p>
+                            <label className="flex items-center gap-sm" style={{ marginBottom: 'var(--spacing-md)' }}>
+                                <input
+                                    type="checkbox"
+                                    style={{ width: 'auto' }}
+                                    checked={settings.priorityWeights === null}
+                                    onChange={(e) => update('priorityWeights', e.target.checked ? null : DEFAULT_WEIGHTS)}
+                                />
+                                <span>Use defaults for my level</span>
+                            </label>
+                            {settings.priorityWeights && (
+                                <>
+                                    <div className="flex gap-md">
+                                        {(['f', 'r', 'e'] as const).map(key => (
+                                            <label key={key} className="flex flex-col gap-sm">
+                                                <span className="text-secondary">{key.toUpperCase()}</span>
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    max={1}
+                                                    step={0.05}
+                                                    value={settings.priorityWeights?.[key] ?? 0}
+                                                    onChange={(e) => updateWeight(key, Number(e.target.value))}
+                                                />
+                                            </label>
+                                        ))}
+                                    </div>
+                                    {weightError && (
+                                        <p style={{ color: 'var(--color-error)', margin: 'var(--spacing-sm) 0 0 0' }}>
+                                            {weightError}
+                                        </p>
+                                    )}
+                                </>
+                            )}
+                        </div>
+
+                        {/* Appearance */}
+                        <div className="card">
+                            <h3>Appearance & Feedback</h3>
+                            <div className="flex flex-col gap-sm">
+                                <label className="flex items-center gap-sm">
+                                    <span className="text-secondary">Theme</span>
+                                    <select
+                                        value={settings.theme}
+                                        onChange={(e) => update('theme', e.target.value as UserSettings['theme'])}
+                                    >
+                                        <option value="system">System</option>
+                                        <option value="light">Light</option>
+                                        <option value="dark">Dark</option>
+                                    </select>
+                                </label>
+                                <label className="flex items-center gap-sm">
+                                    <input
+                                        type="checkbox"
+                                        style={{ width: 'auto' }}
+                                        checked={settings.notificationsEnabled}
+                                        onChange={(e) => update('notificationsEnabled', e.target.checked)}
+                                    />
+                                    <span>Notifications</span>
+                                </label>
+                                <label className="flex items-center gap-sm">
+                                    <input
+                                        type="checkbox"
+                                        style={{ width: 'auto' }}
+                                        checked={settings.soundEnabled}
+                                        onChange={(e) => update('soundEnabled', e.target.checked)}
+                                    />
+                                    <span>Sound effects</span>
+                                </label>
+                            </div>
+                        </div>
+
+                        {/* AI providers */}
+                        <div className="card">
+                            <h3>AI Providers</h3>
+                            <p className="text-secondary">
+                                Choose where each feature runs. An OpenAI-compatible server (llama.cpp, vLLM,
+                                Ollama) keeps learner text on your network.
+                            </p>
+                            <div className="flex flex-col gap-lg">
+                                {(Object.keys(CAPABILITY_LABELS) as AICapability[]).map(capability => {
+                                    const provider = settings.aiProviders[capability];
+                                    return (
+                                        <div key={capability}>
+                                            <h5 style={{ marginBottom: 'var(--spacing-xs)' }}>{CAPABILITY_LABELS[capability]}</h5>
+                                            <div className="flex gap-md" style={{ flexWrap: 'wrap' }}>
+                                                <select
+                                                    value={provider.kind}
+                                                    onChange={(e) => updateProvider(capability, { kind: e.target.value as AIProviderKind })}
+                                                >
+                                                    <option value="anthropic">Anthropic</option>
+                                                    <option value="openai-compatible">OpenAI-compatible server</option>
+                                                    <option value="offline">Offline templates</option>
+                                                </select>
+                                                {provider.kind === 'openai-compatible' && (
+                                                    <input
+                                                        type="url"
+                                                        placeholder="http://localhost:8080/v1"
+                                                        value={provider.baseUrl ?? ''}
+                                                        onChange={(e) => updateProvider(capability, { baseUrl: e.target.value })}
+                                                    />
+                                                )}
+                                                {provider.kind !== 'offline' && (
+                                                    <>
+                                                        <input
+                                                            type="text"
+                                                            placeholder={provider.kind === 'anthropic' ? 'Default model' : 'Model name'}
+                                                            value={provider.model ?? ''}
+                                                            onChange={(e) => updateProvider(capability, { model: e.target.value })}
+                                                        />
+                                                        <input
+                                                            type="password"
+                                                            placeholder={provider.kind === 'anthropic' ? 'API key (or ANTHROPIC_API_KEY)' : 'API key (optional)'}
+                                                            value={provider.apiKey ?? ''}
+                                                            onChange={(e) => updateProvider(capability, { apiKey: e.target.value })}
+                                                        />
+                                                    </>
+                                                )}
+                                            </div>
+                                            <p className="text-secondary" style={{ margin: 'var(--spacing-xs) 0 0 0', fontSize: '0.875rem' }}>
+                                                {describeDestination(provider)}
+                                            </p>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+
+                        <div className="flex items-center gap-md">
+                            <button
+                                className="btn btn-primary"
+                                onClick={() => void handleSave()}
+                                disabled={saving || weightError !== null}
+                            >
+                                {saving ? 'Saving...' : 'Save Settings'}
+                            </button>
+                            {message && (
+                                <span style={{ color: message.kind === 'error' ? 'var(--color-error)' : 'var(--color-success)' }}>
+                                    {message.text}
+                                </span>
+                            )}
+                        </div>
+                    </>
+                )}
+
+                {/* Sync */}
+                <div className="card">
+                    <div className="flex justify-between items-center">
+                        <h3>Sync & Offline Queue</h3>
+                        {syncStatus && (
+                            <span className={`badge ${syncStatus.online ? 'badge-success' : 'badge-warning'}`}>
+                                {syncStatus.online ? 'Online' : 'Offline'}
+                            </span>
+                        )}
+                    </div>
+                    {syncStatus && (
+                        <p className="text-secondary">
+                            {syncStatus.pendingItems} pending · {syncStatus.processingItems} processing ·
+                            {' '}{syncStatus.failedItems} failed
+                            {queueStats ? ` · ${queueStats.completed} completed` : ''}
+                            {syncStatus.lastSync ? ` · last sync ${new Date(syncStatus.lastSync).toLocaleString()}` : ''}
+                        </p>
+                    )}
+                    <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+                        <button
+                            className="btn btn-primary"
+                            onClick={() => void runSyncAction(async () => {
+                                const result = await window.logos.sync.forceSync();
+                                return `Processed ${result.processed}, ${result.failed} failed, ${result.remaining} remaining.`;
+                            })}
+                        >
+                            Sync Now
+                        </button>
+                        <button
+                            className="btn btn-secondary"
+                            onClick={() => void runSyncAction(async () => {
+                                const result = await window.logos.sync.checkConnectivity();
+                                return result.online ? 'AI providers are reachable.' : 'AI providers are not reachable.';
+                            })}
+                        >
+                            Test Connection
+                        </button>
+                        <button
+                            className="btn btn-secondary"
+                            onClick={() => void runSyncAction(async () => {
+                                const result = await window.logos.sync.retryFailed();
+                                return `Retrying ${result.retried} items.`;
+                            })}
+                        >
+                            Retry Failed
+                        </button>
+                        <button
+                            className="btn btn-secondary"
+                            onClick={() => void runSyncAction(async () => {
+                                const result = await window.logos.sync.clearCompleted();
+                                return `Cleared ${result.cleared} completed items.`;
+                            })}
+                        >
+                            Clear Completed
+                        </button>
+                        {syncStatus && (
+                            <button
+                                className="btn btn-secondary"
+                                onClick={() => void runSyncAction(async () => {
+                                    const result = await window.logos.sync.setOnline(!syncStatus.online);
+                                    return result.online ? 'Back online.' : 'Working offline.';
+                                })}
+                            >
+                                {syncStatus.online ? 'Work Offline' : 'Go Online'}
+                            </button>
+                        )}
+                    </div>
+                    {syncMessage && (
+                        <p className="text-secondary" style={{ margin: 'var(--spacing-sm) 0 0 0' }}>{syncMessage}</p>
+                    )}
+                </div>
+
+                {/* Corpus Packs */}
                 <div className="card">
-                    <h3>Application Settings</h3>
-                    <p className="text-secondary">
-                        Settings functionality coming soon. For now, you can manage your learning goals from the dashboard.
+                    <h3>Corpus Packs</h3>
+                    <p className="text-secondary" style={{ marginTop: 0, fontSize: '0.875rem' }}>
+                        Frequency lists and dictionaries used to build vocabulary offline, without an AI provider.
                     </p>
-                    <button className="btn btn-primary" onClick={() => navigate('/')}>
-                        ← Back to Dashboard
-                    </button>
+                    <div className="flex flex-col gap-md">
+                        {packs.length === 0 ? (
+                            <p className="text-secondary" style={{ margin: 0 }}>No corpus packs available.</p>
+                        ) : (
+                            <div className="flex flex-col gap-sm">
+                                {packs.map(pack => (
+                                    <div key={pack.id} className="flex justify-between items-center gap-md">
+                                        <span>
+                                            {pack.name}
+                                            {' '}<span className="badge">{pack.bundled ? 'Bundled' : 'Installed'}</span>
+                                            {' '}<span className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                                {pack.language.toUpperCase()} · {pack.entryCount.toLocaleString()} entries
+                                                {pack.definitions > 0 && ` · ${pack.definitions.toLocaleString()} definitions`}
+                                                {pack.translationLanguages.length > 0 &&
+                                                    ` · translations to ${pack.translationLanguages.join(', ').toUpperCase()}`}
+                                                {pack.sources.length > 0 && ` · serves ${pack.sources.join(', ')}`}
+                                            </span>
+                                        </span>
+                                        {!pack.bundled && (
+                                            <button
+                                                className="btn btn-secondary"
+                                                disabled={packBusy}
+                                                onClick={() => handleRemovePack(pack)}
+                                            >
+                                                Remove
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <div>
+                            <label className="btn btn-secondary" style={{ cursor: packBusy ? 'not-allowed' : 'pointer' }}>
+                                Install Pack…
+                                <input
+                                    type="file"
+                                    accept=".json,.tsv"
+                                    disabled={packBusy}
+                                    style={{ display: 'none' }}
+                                    onChange={(e) => {
+                                        handleInstallPack(e.target.files?.[0]);
+                                        e.target.value = '';
+                                    }}
+                                />
+                            </label>
+                        </div>
+                        {packMessage && (
+                            <p className="text-secondary" style={{ margin: 0 }}>{packMessage}</p>
+                        )}
+                    </div>
+                </div>
+
+                {/* Data */}
+                <div className="card">
+                    <h3>Your Data</h3>
+                    <div className="flex flex-col gap-md">
+                        <div className="flex items-center gap-md" style={{ flexWrap: 'wrap' }}>
+                            <button
+                                className="btn btn-primary"
+                                disabled={dataBusy}
+                                onClick={() => void runDataAction(async () => {
+                                    const result = await window.logos.system.exportData({ includeHistory });
+                                    return result ? `Exported to ${result.filePath}` : 'Export cancelled.';
+                                })}
+                            >
+                                Export Data
+                            </button>
+                            <label className="flex items-center gap-sm">
+                                <input
+                                    type="checkbox"
+                                    style={{ width: 'auto' }}
+                                    checked={includeHistory}
+                                    onChange={(e) => setIncludeHistory(e.target.checked)}
+                                />
+                                <span>Include response history</span>
+                            </label>
+                        </div>
+                        <div>
+                            <button
+                                className="btn btn-secondary"
+                                disabled={dataBusy}
+                                onClick={() => void runDataAction(async () => {
+                                    const result = await window.logos.system.backup();
+                                    await loadBackups();
+                                    return `Backup written to ${result.path}`;
+                                })}
+                            >
+                                Back Up Now
+                            </button>
+                            <p className="text-secondary" style={{ margin: 'var(--spacing-sm) 0 0 0', fontSize: '0.875rem' }}>
+                                The database is also backed up daily and before updates.
+                            </p>
+                            {backups.length > 0 && (
+                                <div className="flex flex-col gap-sm" style={{ marginTop: 'var(--spacing-sm)' }}>
+                                    {backups.map(backup => (
+                                        <div key={backup.id} className="flex justify-between items-center gap-md">
+                                            <span>
+                                                {new Date(backup.createdAt).toLocaleString()}
+                                                {' '}<span className="badge">{BACKUP_REASON_LABELS[backup.reason]}</span>
+                                                {' '}<span className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                                                    {(backup.size / (1024 * 1024)).toFixed(1)} MB
+                                                </span>
+                                                {!backup.valid && (
+                                                    <span className="badge badge-error" style={{ marginLeft: 'var(--spacing-xs)' }}>
+                                                        Damaged
+                                                    </span>
+                                                )}
+                                            </span>
+                                            <button
+                                                className="btn btn-secondary"
+                                                disabled={dataBusy || !backup.valid}
+                                                onClick={() => handleRestore(backup)}
+                                            >
+                                                Restore
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-md" style={{ flexWrap: 'wrap' }}>
+                            <button className="btn btn-secondary" disabled={dataBusy} onClick={handleImport}>
+                                Import Archive…
+                            </button>
+                            <label className="flex items-center gap-sm">
+                                <input
+                                    type="checkbox"
+                                    style={{ width: 'auto' }}
+                                    checked={importMerge}
+                                    onChange={(e) => setImportMerge(e.target.checked)}
+                                />
+                                <span>Merge with existing data (uncheck to replace)</span>
+                            </label>
+                        </div>
+                        {dataMessage && (
+                            <p className="text-secondary" style={{ margin: 0 }}>{dataMessage}</p>
+                        )}
+                    </div>
                 </div>
             </div>
         </div>
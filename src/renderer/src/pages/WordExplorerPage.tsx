@@ -0,0 +1,772 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import type {
+    EncounterModality,
+    ExplorerAction,
+    ExplorerDifficultyBand,
+    ExplorerDueWindow,
+    ExplorerEditRequest,
+    ExplorerObjectDetail,
+    ExplorerObjectStatus,
+    ExplorerSearchRequest,
+    ExplorerSearchResponse,
+    ExplorerSort,
+    GlossarySense,
+    GlossarySource,
+    MasteryStage,
+    ObjectExposure,
+} from '../../../shared/types';
+
+const PAGE_SIZE = 50;
+
+const STAGE_LABELS: Record<number, string> = {
+    0: 'New',
+    1: 'Recognition',
+    2: 'Recall',
+    3: 'Controlled',
+    4: 'Automatic',
+};
+
+const DUE_LABELS: Record<ExplorerDueWindow, string> = {
+    now: 'Due now',
+    today: 'Due today',
+    week: 'Due this week',
+};
+
+const DIFFICULTY_LABELS: Record<ExplorerDifficultyBand, string> = {
+    easy: 'Easy',
+    medium: 'Medium',
+    hard: 'Hard',
+};
+
+const STATUS_BADGES: Record<ExplorerObjectStatus, string> = {
+    active: 'badge-success',
+    suspended: 'badge-error',
+    buried: 'badge-warning',
+};
+
+const SORT_LABELS: Record<ExplorerSort, string> = {
+    alphabetical: 'A–Z',
+    priority: 'Priority',
+    frequency: 'Frequency',
+    mastery: 'Mastery',
+    recency: 'Last reviewed',
+};
+
+const GLOSSARY_SOURCE_LABELS: Record<GlossarySource, string> = {
+    dictionary: 'Dictionary',
+    provider: 'Generated',
+    user: 'Edited',
+};
+
+/** A sense being written or edited; examples are one per line */
+interface SenseDraft {
+    senseId: string | null;
+    partOfSpeech: string;
+    definition: string;
+    translation: string;
+    examples: string;
+}
+
+const EMPTY_DRAFT: SenseDraft = { senseId: null, partOfSpeech: '', definition: '', translation: '', examples: '' };
+
+const MODALITY_LABELS: Record<EncounterModality, string> = {
+    visual: 'Read',
+    auditory: 'Heard',
+    mixed: 'Read and heard',
+};
+
+function formatDate(date: Date | string | null): string {
+    return date ? new Date(date).toLocaleDateString() : '—';
+}
+
+interface FacetProps<T extends string | number> {
+    title: string;
+    counts: Record<string, number>;
+    label: (value: T) => string;
+    values: T[];
+    isSelected: (value: T) => boolean;
+    onToggle: (value: T) => void;
+}
+
+function Facet<T extends string | number>({ title, counts, label, values, isSelected, onToggle }: FacetProps<T>) {
+    return (
+        <div style={{ marginBottom: 'var(--spacing-md)' }}>
+            <div className="font-semibold" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-xs)' }}>{title}</div>
+            <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+                {values.map(value => (
+                    <button
+                        key={String(value)}
+                        className={`btn ${isSelected(value) ? 'btn-primary' : 'btn-secondary'}`}
+                        style={{ padding: '0.25rem 0.5rem', fontSize: '0.75rem' }}
+                        onClick={() => onToggle(value)}
+                    >
+                        {label(value)} ({counts[String(value)] ?? 0})
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+export default function WordExplorerPage() {
+    const { goalId } = useParams<{ goalId: string }>();
+    const navigate = useNavigate();
+    const [searchParams] = useSearchParams();
+    const [query, setQuery] = useState('');
+    const [filters, setFilters] = useState<Omit<ExplorerSearchRequest, 'goalId' | 'query'>>({ sort: 'alphabetical' });
+    const [offset, setOffset] = useState(0);
+    const [results, setResults] = useState<ExplorerSearchResponse | null>(null);
+    const [detail, setDetail] = useState<ExplorerObjectDetail | null>(null);
+    const [exposure, setExposure] = useState<ObjectExposure | null>(null);
+    const [glossary, setGlossary] = useState<GlossarySense[]>([]);
+    const [senseDraft, setSenseDraft] = useState<SenseDraft | null>(null);
+    const [edit, setEdit] = useState<Omit<ExplorerEditRequest, 'objectId'>>({});
+    const [message, setMessage] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const search = useCallback(async () => {
+        if (!goalId) {
+            return;
+        }
+        try {
+            setResults(await window.logos.explorer.search({
+                goalId,
+                query: query.trim() || undefined,
+                ...filters,
+                limit: PAGE_SIZE,
+                offset,
+            }));
+        } catch (error) {
+            console.error('Failed to search objects:', error);
+            setMessage(error instanceof Error ? error.message : 'Search failed.');
+        }
+    }, [goalId, query, filters, offset]);
+
+    // Search shortly after typing settles
+    useEffect(() => {
+        const timer = setTimeout(() => void search(), 250);
+        return () => clearTimeout(timer);
+    }, [search]);
+
+    const updateFilters = (changes: Partial<typeof filters>) => {
+        setFilters(prev => ({ ...prev, ...changes }));
+        setOffset(0);
+    };
+
+    const toggleList = <T,>(list: T[] | undefined, value: T): T[] | undefined => {
+        const next = list?.includes(value) ? list.filter(v => v !== value) : [...(list ?? []), value];
+        return next.length > 0 ? next : undefined;
+    };
+
+    const showDetail = (next: ExplorerObjectDetail) => {
+        setDetail(next);
+        setEdit({});
+        void loadExposure(next.item.id);
+        if (next.item.id !== detail?.item.id) {
+            setSenseDraft(null);
+            void loadGlossary(next.item.id);
+        }
+    };
+
+    const loadExposure = async (objectId: string) => {
+        try {
+            setExposure(await window.logos.graph.getExposure(objectId));
+        } catch (error) {
+            console.error('Failed to load practice balance:', error);
+            setExposure(null);
+        }
+    };
+
+    const loadGlossary = async (objectId: string) => {
+        try {
+            setGlossary(await window.logos.glossary.get(objectId));
+        } catch (error) {
+            console.error('Failed to load glossary:', error);
+            setGlossary([]);
+        }
+    };
+
+    const openObject = async (objectId: string) => {
+        setMessage(null);
+        try {
+            showDetail(await window.logos.explorer.getObject(objectId));
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Could not load the item.');
+        }
+    };
+
+    // Open the object linked from another page, e.g. the word network
+    const linkedObjectId = searchParams.get('object');
+    useEffect(() => {
+        if (linkedObjectId) {
+            void openObject(linkedObjectId);
+        }
+    }, [linkedObjectId]);
+
+    const runItemChange = async (change: () => Promise<ExplorerObjectDetail>) => {
+        setBusy(true);
+        setMessage(null);
+        try {
+            showDetail(await change());
+            await search();
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Could not update the item.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const applyAction = (action: ExplorerAction) => {
+        if (!detail) {
+            return;
+        }
+        if (action === 'reset' && !window.confirm(`Reset all progress on "${detail.item.content}"?`)) {
+            return;
+        }
+        void runItemChange(() => window.logos.explorer.applyAction(detail.item.id, action));
+    };
+
+    const saveEdit = () => {
+        if (!detail || Object.keys(edit).length === 0) {
+            return;
+        }
+        void runItemChange(() => window.logos.explorer.editObject({ objectId: detail.item.id, ...edit }));
+    };
+
+    const runGlossaryChange = async (change: () => Promise<GlossarySense[]>) => {
+        setBusy(true);
+        setMessage(null);
+        try {
+            setGlossary(await change());
+            setSenseDraft(null);
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Could not update the glossary.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const editSense = (sense: GlossarySense) => {
+        setSenseDraft({
+            senseId: sense.id,
+            partOfSpeech: sense.partOfSpeech ?? '',
+            definition: sense.definition ?? '',
+            translation: sense.translation ?? '',
+            examples: sense.examples.join('\n'),
+        });
+    };
+
+    const saveSense = () => {
+        if (!detail || !senseDraft) {
+            return;
+        }
+        const sense = {
+            partOfSpeech: senseDraft.partOfSpeech.trim() || null,
+            definition: senseDraft.definition.trim() || null,
+            translation: senseDraft.translation.trim() || null,
+            examples: senseDraft.examples.split('\n').map(e => e.trim()).filter(e => e !== ''),
+        };
+        const { senseId } = senseDraft;
+        void runGlossaryChange(() => senseId
+            ? window.logos.glossary.updateSense(senseId, sense)
+            : window.logos.glossary.addSense(detail.item.id, sense));
+    };
+
+    const deleteSense = (sense: GlossarySense) => {
+        if (!window.confirm('Delete this meaning?')) {
+            return;
+        }
+        void runGlossaryChange(() => window.logos.glossary.deleteSense(sense.id));
+    };
+
+    const fillGlossary = async () => {
+        if (!goalId) {
+            return;
+        }
+        setBusy(true);
+        setMessage(null);
+        try {
+            const result = await window.logos.glossary.fillGoal(goalId, { useProvider: true });
+            setMessage(
+                `Glossary filled for ${result.fromDictionary + result.fromProvider} of ${result.missing} words` +
+                (result.unresolved > 0 ? ` (${result.unresolved} still without a meaning).` : '.')
+            );
+            if (detail) {
+                await loadGlossary(detail.item.id);
+            }
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Could not fill the glossary.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const facets = results?.facets;
+    const item = detail?.item;
+
+    return (
+        <div style={{ minHeight: '100vh', paddingBottom: 'var(--spacing-2xl)' }}>
+            <header style={{
+                backgroundColor: 'var(--color-surface)',
+                borderBottom: '1px solid var(--color-border)',
+                padding: 'var(--spacing-lg) 0',
+                marginBottom: 'var(--spacing-2xl)',
+            }}>
+                <div className="container flex justify-between items-center">
+                    <h1 style={{ margin: 0, fontSize: '1.5rem' }}>Word Explorer</h1>
+                    <div className="flex gap-sm">
+                        <button
+                            className="btn btn-secondary"
+                            disabled={busy}
+                            title="Look up meanings for words that have none, from dictionaries or the AI provider"
+                            onClick={() => void fillGlossary()}
+                        >
+                            Fill glossary
+                        </button>
+                        <button className="btn btn-secondary" onClick={() => navigate('/')}>
+                            ← Back to Dashboard
+                        </button>
+                    </div>
+                </div>
+            </header>
+
+            <div className="container" style={{ display: 'grid', gridTemplateColumns: '260px 1fr 1fr', gap: 'var(--spacing-lg)', alignItems: 'start' }}>
+                {/* Facets */}
+                <div className="card">
+                    <input
+                        type="search"
+                        placeholder="Search words…"
+                        value={query}
+                        onChange={(e) => { setQuery(e.target.value); setOffset(0); }}
+                        style={{ width: '100%', marginBottom: 'var(--spacing-md)' }}
+                    />
+                    {facets && (
+                        <>
+                            <Facet<string>
+                                title="Type"
+                                counts={facets.types}
+                                values={Object.keys(facets.types).sort()}
+                                label={(v) => v}
+                                isSelected={(v) => filters.types?.includes(v) ?? false}
+                                onToggle={(v) => updateFilters({ types: toggleList(filters.types, v) })}
+                            />
+                            <Facet<MasteryStage>
+                                title="Stage"
+                                counts={facets.stages}
+                                values={[0, 1, 2, 3, 4]}
+                                label={(v) => STAGE_LABELS[v]}
+                                isSelected={(v) => filters.stages?.includes(v) ?? false}
+                                onToggle={(v) => updateFilters({ stages: toggleList(filters.stages, v) })}
+                            />
+                            <Facet<ExplorerDueWindow>
+                                title="Due"
+                                counts={facets.due}
+                                values={['now', 'today', 'week']}
+                                label={(v) => DUE_LABELS[v]}
+                                isSelected={(v) => filters.due === v}
+                                onToggle={(v) => updateFilters({ due: filters.due === v ? undefined : v })}
+                            />
+                            <Facet<string>
+                                title="Domain"
+                                counts={facets.domains}
+                                values={Object.keys(facets.domains).sort((a, b) => facets.domains[b] - facets.domains[a])}
+                                label={(v) => v}
+                                isSelected={(v) => filters.domain === v}
+                                onToggle={(v) => updateFilters({ domain: filters.domain === v ? undefined : v })}
+                            />
+                            <Facet<ExplorerDifficultyBand>
+                                title="Difficulty"
+                                counts={facets.difficulty}
+                                values={['easy', 'medium', 'hard']}
+                                label={(v) => DIFFICULTY_LABELS[v]}
+                                isSelected={(v) => filters.difficulty === v}
+                                onToggle={(v) => updateFilters({ difficulty: filters.difficulty === v ? undefined : v })}
+                            />
+                            <Facet<ExplorerObjectStatus>
+                                title="Status"
+                                counts={facets.status}
+                                values={['active', 'suspended', 'buried']}
+                                label={(v) => v.charAt(0).toUpperCase() + v.slice(1)}
+                                isSelected={(v) => filters.status === v}
+                                onToggle={(v) => updateFilters({ status: filters.status === v ? undefined : v })}
+                            />
+                        </>
+                    )}
+                </div>
+
+                {/* Results */}
+                <div className="card">
+                    <div className="flex justify-between items-center" style={{ marginBottom: 'var(--spacing-md)' }}>
+                        <span className="text-secondary">{results?.totalCount ?? 0} items</span>
+                        <select
+                            value={filters.sort}
+                            onChange={(e) => updateFilters({ sort: e.target.value as ExplorerSort })}
+                        >
+                            {(Object.keys(SORT_LABELS) as ExplorerSort[]).map(sort => (
+                                <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex flex-col gap-sm">
+                        {results?.items.map(result => (
+                            <button
+                                key={result.id}
+                                className={`btn ${result.id === item?.id ? 'btn-primary' : 'btn-secondary'}`}
+                                style={{ justifyContent: 'space-between', textAlign: 'left' }}
+                                onClick={() => void openObject(result.id)}
+                            >
+                                <span>{result.content}</span>
+                                <span className="flex gap-sm">
+                                    <span className="badge">{result.type}</span>
+                                    <span className="badge badge-primary">{STAGE_LABELS[result.stage]}</span>
+                                    {result.status !== 'active' && (
+                                        <span className={`badge ${STATUS_BADGES[result.status]}`}>{result.status}</span>
+                                    )}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                    {results && results.totalCount > PAGE_SIZE && (
+                        <div className="flex justify-between items-center" style={{ marginTop: 'var(--spacing-md)' }}>
+                            <button
+                                className="btn btn-secondary"
+                                disabled={offset === 0}
+                                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                            >
+                                ← Previous
+                            </button>
+                            <span className="text-secondary">
+                                {offset + 1}–{Math.min(offset + PAGE_SIZE, results.totalCount)} of {results.totalCount}
+                            </span>
+                            <button
+                                className="btn btn-secondary"
+                                disabled={offset + PAGE_SIZE >= results.totalCount}
+                                onClick={() => setOffset(offset + PAGE_SIZE)}
+                            >
+                                Next →
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                {/* Detail */}
+                <div className="card">
+                    {message && <p className="text-secondary">{message}</p>}
+                    {!detail || !item ? (
+                        <p className="text-secondary">Select a word to see its details.</p>
+                    ) : (
+                        <div className="flex flex-col gap-md">
+                            <div className="flex justify-between items-center">
+                                <h2 style={{ margin: 0 }}>{item.content}</h2>
+                                <span className={`badge ${STATUS_BADGES[item.status]}`}>
+                                    {item.status === 'buried' ? `buried until ${formatDate(item.buriedUntil)}` : item.status}
+                                </span>
+                            </div>
+                            <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+                                <span className="badge">{item.type}</span>
+                                <span className="badge badge-primary">Stage {item.stage}: {STAGE_LABELS[item.stage]}</span>
+                                <span className="badge">{DIFFICULTY_LABELS[item.difficultyBand]} ({item.difficulty.toFixed(2)})</span>
+                                {item.domains.map(domain => <span key={domain} className="badge">{domain}</span>)}
+                            </div>
+
+                            <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+                                <button className="btn btn-secondary" disabled={busy} onClick={() => applyAction(item.status === 'suspended' ? 'unsuspend' : 'suspend')}>
+                                    {item.status === 'suspended' ? 'Unsuspend' : 'Suspend'}
+                                </button>
+                                <button className="btn btn-secondary" disabled={busy} onClick={() => applyAction(item.status === 'buried' ? 'unbury' : 'bury')}>
+                                    {item.status === 'buried' ? 'Unbury' : 'Bury until tomorrow'}
+                                </button>
+                                <button className="btn btn-error" disabled={busy} onClick={() => applyAction('reset')}>
+                                    Reset progress
+                                </button>
+                                <button className="btn btn-secondary" onClick={() => navigate(`/network/${goalId}/${item.id}`)}>
+                                    View network
+                                </button>
+                            </div>
+
+                            <div>
+                                <h4 style={{ margin: '0 0 var(--spacing-sm) 0' }}>Glossary</h4>
+                                {glossary.length === 0 ? (
+                                    <p className="text-secondary" style={{ margin: '0 0 var(--spacing-sm) 0' }}>No meanings yet.</p>
+                                ) : (
+                                    <ol style={{ margin: '0 0 var(--spacing-sm) 0', paddingLeft: '1.25rem', fontSize: '0.875rem' }}>
+                                        {glossary.map((sense, index) => (
+                                            <li key={sense.id} style={{ marginBottom: 'var(--spacing-sm)' }}>
+                                                {sense.partOfSpeech && <span className="text-secondary">{sense.partOfSpeech} </span>}
+                                                {sense.definition}
+                                                {sense.translation && (
+                                                    <strong>
+                                                        {sense.definition && ' — '}
+                                                        {sense.translation}
+                                                        {sense.l1 && <span className="text-secondary"> ({sense.l1.toUpperCase()})</span>}
+                                                    </strong>
+                                                )}
+                                                {' '}<span className="badge">{GLOSSARY_SOURCE_LABELS[sense.source]}</span>
+                                                {sense.examples.map(example => (
+                                                    <div key={example} className="text-secondary" style={{ fontStyle: 'italic' }}>{example}</div>
+                                                ))}
+                                                <div className="flex gap-sm" style={{ marginTop: 'var(--spacing-xs)' }}>
+                                                    <button className="btn btn-secondary" style={{ fontSize: '0.75rem' }} disabled={busy} onClick={() => editSense(sense)}>
+                                                        Edit
+                                                    </button>
+                                                    {index > 0 && (
+                                                        <button
+                                                            className="btn btn-secondary"
+                                                            style={{ fontSize: '0.75rem' }}
+                                                            disabled={busy}
+                                                            title="Show this meaning in hints and feedback"
+                                                            onClick={() => void runGlossaryChange(() => window.logos.glossary.makePrimary(sense.id))}
+                                                        >
+                                                            Make primary
+                                                        </button>
+                                                    )}
+                                                    <button className="btn btn-secondary" style={{ fontSize: '0.75rem' }} disabled={busy} onClick={() => deleteSense(sense)}>
+                                                        Delete
+                                                    </button>
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                )}
+                                {senseDraft ? (
+                                    <div className="flex flex-col gap-sm">
+                                        <div className="flex gap-md" style={{ flexWrap: 'wrap' }}>
+                                            <label className="flex flex-col gap-sm">
+                                                <span className="text-secondary">Part of speech</span>
+                                                <input
+                                                    value={senseDraft.partOfSpeech}
+                                                    onChange={(e) => setSenseDraft({ ...senseDraft, partOfSpeech: e.target.value })}
+                                                />
+                                            </label>
+                                            <label className="flex flex-col gap-sm">
+                                                <span className="text-secondary">Translation</span>
+                                                <input
+                                                    value={senseDraft.translation}
+                                                    onChange={(e) => setSenseDraft({ ...senseDraft, translation: e.target.value })}
+                                                />
+                                            </label>
+                                        </div>
+                                        <label className="flex flex-col gap-sm">
+                                            <span className="text-secondary">Definition</span>
+                                            <input
+                                                value={senseDraft.definition}
+                                                onChange={(e) => setSenseDraft({ ...senseDraft, definition: e.target.value })}
+                                            />
+                                        </label>
+                                        <label className="flex flex-col gap-sm">
+                                            <span className="text-secondary">Examples (one per line)</span>
+                                            <textarea
+                                                rows={2}
+                                                value={senseDraft.examples}
+                                                onChange={(e) => setSenseDraft({ ...senseDraft, examples: e.target.value })}
+                                            />
+                                        </label>
+                                        <div className="flex gap-sm">
+                                            <button
+                                                className="btn btn-primary"
+                                                disabled={busy || (!senseDraft.definition.trim() && !senseDraft.translation.trim())}
+                                                onClick={saveSense}
+                                            >
+                                                Save meaning
+                                            </button>
+                                            <button className="btn btn-secondary" onClick={() => setSenseDraft(null)}>
+                                                Cancel
+                                            </button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+                                        <button className="btn btn-secondary" disabled={busy} onClick={() => setSenseDraft(EMPTY_DRAFT)}>
+                                            Add meaning
+                                        </button>
+                                        <button
+                                            className="btn btn-secondary"
+                                            disabled={busy}
+                                            onClick={() => void runGlossaryChange(() => window.logos.glossary.importFromDictionaries(item.id))}
+                                        >
+                                            Look up in dictionaries
+                                        </button>
+                                        <button
+                                            className="btn btn-secondary"
+                                            disabled={busy}
+                                            onClick={() => void runGlossaryChange(() => window.logos.glossary.generate(item.id))}
+                                        >
+                                            Generate
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+
+                            <div>
+                                <h4 style={{ margin: '0 0 var(--spacing-sm) 0' }}>Review card</h4>
+                                {detail.card ? (
+                                    <div className="text-secondary" style={{ fontSize: '0.875rem', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 'var(--spacing-xs)' }}>
+                                        <span>State: {detail.card.state}</span>
+                                        <span>Recall chance: {Math.round(detail.card.retrievability * 100)}%</span>
+                                        <span>Stability: {detail.card.stability.toFixed(1)} days</span>
+                                        <span>Difficulty: {detail.card.difficulty.toFixed(1)}</span>
+                                        <span>Reviews: {detail.card.reps}</span>
+                                        <span>Lapses: {detail.card.lapses}</span>
+                                        <span>Last review: {formatDate(detail.card.lastReview)}</span>
+                                        <span>Next review: {formatDate(detail.card.nextReview)}</span>
+                                        {detail.accuracy && (
+                                            <span>
+                                                Accuracy: {Math.round(detail.accuracy.cueFree * 100)}% unaided,{' '}
+                                                {Math.round(detail.accuracy.cueAssisted * 100)}% with hints
+                                            </span>
+                                        )}
+                                        {detail.automatization && (
+                                            <span>
+                                                Automatization: {Math.round(detail.automatization.level * 100)}%{' '}
+                                                ({detail.automatization.category.replace(/_/g, ' ')}
+                                                {detail.automatization.meanResponseTimeMs !== null &&
+                                                    `, ${(detail.automatization.meanResponseTimeMs / 1000).toFixed(1)}s avg`})
+                                            </span>
+                                        )}
+                                    </div>
+                                ) : (
+                                    <p className="text-secondary" style={{ margin: 0 }}>Not studied yet.</p>
+                                )}
+                            </div>
+
+                            <div>
+                                <h4 style={{ margin: '0 0 var(--spacing-sm) 0' }}>Practice balance</h4>
+                                {!exposure || exposure.objectId !== item.id || exposure.totalEncounters === 0 ? (
+                                    <p className="text-secondary" style={{ margin: 0 }}>No encounters yet.</p>
+                                ) : (
+                                    <div className="flex flex-col gap-sm" style={{ fontSize: '0.875rem' }}>
+                                        <div className="text-secondary" style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 'var(--spacing-xs)' }}>
+                                            <span>
+                                                Recognised: {exposure.interpretationEncounters}×
+                                                {exposure.interpretationEncounters > 0 && ` (${Math.round(exposure.interpretationSuccessRate * 100)}% correct)`}
+                                            </span>
+                                            <span>
+                                                Produced: {exposure.productionEncounters}×
+                                                {exposure.productionEncounters > 0 && ` (${Math.round(exposure.productionSuccessRate * 100)}% correct)`}
+                                            </span>
+                                            {exposure.trainedModalities.map(modality => (
+                                                <span key={modality}>
+                                                    {MODALITY_LABELS[modality]}: {exposure.modalityEncounters[modality]}×
+                                                </span>
+                                            ))}
+                                        </div>
+                                        <div className="progress-bar" title="Recognition vs production">
+                                            <div className="progress-bar-fill" style={{ width: `${exposure.interpretationRatio * 100}%` }} />
+                                        </div>
+                                        {exposure.findings.map(finding => (
+                                            <span key={finding.kind} className="badge badge-warning" style={{ alignSelf: 'flex-start' }}>
+                                                {finding.message}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div>
+                                <h4 style={{ margin: '0 0 var(--spacing-sm) 0' }}>Stage history</h4>
+                                {detail.stageHistory.length === 0 ? (
+                                    <p className="text-secondary" style={{ margin: 0 }}>No stage changes yet.</p>
+                                ) : (
+                                    <ul style={{ margin: 0, paddingLeft: '1.25rem', fontSize: '0.875rem' }}>
+                                        {detail.stageHistory.map((t, i) => (
+                                            <li key={i}>
+                                                {formatDate(t.createdAt)}: {STAGE_LABELS[t.fromStage]} → {STAGE_LABELS[t.toStage]}{' '}
+                                                <span className="text-secondary">({t.trigger.replace(/_/g, ' ')})</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+
+                            <div>
+                                <h4 style={{ margin: '0 0 var(--spacing-sm) 0' }}>Collocations</h4>
+                                {detail.collocations.length === 0 ? (
+                                    <p className="text-secondary" style={{ margin: 0 }}>None found in the corpus.</p>
+                                ) : (
+                                    <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+                                        {detail.collocations.map(c => (
+                                            <button key={c.objectId} className="btn btn-secondary" style={{ fontSize: '0.75rem' }} onClick={() => void openObject(c.objectId)}>
+                                                {c.content} <span className="text-secondary">PMI {c.pmi.toFixed(1)}</span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div>
+                                <h4 style={{ margin: '0 0 var(--spacing-sm) 0' }}>Word family</h4>
+                                <p className="text-secondary" style={{ margin: '0 0 var(--spacing-sm) 0', fontSize: '0.875rem' }}>
+                                    Root <strong>{detail.morphology.root}</strong>
+                                    {detail.morphology.prefixes.length > 0 && `, prefixes ${detail.morphology.prefixes.join(' ')}`}
+                                    {detail.morphology.suffixes.length > 0 && `, suffixes ${detail.morphology.suffixes.join(' ')}`}
+                                </p>
+                                <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+                                    {detail.morphology.family.map(member => (
+                                        <button key={member.objectId} className="btn btn-secondary" style={{ fontSize: '0.75rem' }} onClick={() => void openObject(member.objectId)}>
+                                            {member.content} <span className="text-secondary">{STAGE_LABELS[member.stage]}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div>
+                                <h4 style={{ margin: '0 0 var(--spacing-sm) 0' }}>Edit</h4>
+                                <div className="flex flex-col gap-sm">
+                                    <label className="flex flex-col gap-sm">
+                                        <span className="text-secondary">Text</span>
+                                        <input
+                                            value={edit.content ?? item.content}
+                                            onChange={(e) => setEdit(prev => ({ ...prev, content: e.target.value }))}
+                                        />
+                                    </label>
+                                    <div className="flex gap-md" style={{ flexWrap: 'wrap' }}>
+                                        <label className="flex flex-col gap-sm">
+                                            <span className="text-secondary">Difficulty (−4 to 4)</span>
+                                            <input
+                                                type="number"
+                                                min={-4}
+                                                max={4}
+                                                step={0.1}
+                                                value={edit.irtDifficulty ?? item.difficulty}
+                                                onChange={(e) => setEdit(prev => ({ ...prev, irtDifficulty: Number(e.target.value) }))}
+                                            />
+                                        </label>
+                                        <label className="flex flex-col gap-sm">
+                                            <span className="text-secondary">Stage</span>
+                                            <select
+                                                value={edit.stage ?? item.stage}
+                                                onChange={(e) => setEdit(prev => ({ ...prev, stage: Number(e.target.value) as MasteryStage }))}
+                                            >
+                                                {[0, 1, 2, 3, 4].map(stage => (
+                                                    <option key={stage} value={stage}>{STAGE_LABELS[stage]}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        <label className="flex flex-col gap-sm">
+                                            <span className="text-secondary">Next review</span>
+                                            <input
+                                                type="date"
+                                                onChange={(e) => setEdit(prev => ({
+                                                    ...prev,
+                                                    nextReview: e.target.value ? new Date(`${e.target.value}T00:00:00`) : null,
+                                                }))}
+                                            />
+                                        </label>
+                                    </div>
+                                    <button
+                                        className="btn btn-primary"
+                                        disabled={busy || Object.keys(edit).length === 0}
+                                        onClick={saveEdit}
+                                    >
+                                        Save changes
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
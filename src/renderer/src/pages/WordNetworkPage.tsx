@@ -0,0 +1,313 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import type {
+    WordGraphEdge,
+    WordGraphNode,
+    WordNeighborhood,
+    WordRelation,
+} from '../../../shared/types';
+
+const SIZE = 600;
+const RING_RADIUS = 110;
+
+const STAGE_LABELS: Record<number, string> = {
+    0: 'New',
+    1: 'Recognition',
+    2: 'Recall',
+    3: 'Controlled',
+    4: 'Automatic',
+};
+
+const STAGE_COLORS: Record<number, string> = {
+    0: '#ef4444',
+    1: '#f97316',
+    2: '#eab308',
+    3: '#22c55e',
+    4: '#3b82f6',
+};
+
+const RELATION_COLORS: Record<WordRelation, string> = {
+    collocation: '#8b5cf6',
+    semantic: '#0ea5e9',
+    morphological: '#14b8a6',
+    phonological: '#ec4899',
+    syntactic: '#64748b',
+};
+
+const RELATION_LABELS: Record<WordRelation, string> = {
+    collocation: 'Collocation',
+    semantic: 'Meaning',
+    morphological: 'Word family',
+    phonological: 'Sound',
+    syntactic: 'Grammar',
+};
+
+const ALL_RELATIONS = Object.keys(RELATION_LABELS) as WordRelation[];
+
+/**
+ * Radial layout: the center object in the middle, each hop on its own ring.
+ */
+function layoutNodes(nodes: WordGraphNode[]): Map<string, { x: number; y: number }> {
+    const positions = new Map<string, { x: number; y: number }>();
+    const rings = new Map<number, WordGraphNode[]>();
+    for (const node of nodes) {
+        rings.set(node.depth, [...(rings.get(node.depth) ?? []), node]);
+    }
+    for (const [depth, ring] of rings) {
+        ring.forEach((node, i) => {
+            // Offset alternate rings so edges between them do not overlap
+            const angle = (2 * Math.PI * i) / ring.length + (depth % 2) * (Math.PI / ring.length);
+            positions.set(node.id, {
+                x: SIZE / 2 + depth * RING_RADIUS * Math.cos(angle),
+                y: SIZE / 2 + depth * RING_RADIUS * Math.sin(angle),
+            });
+        });
+    }
+    return positions;
+}
+
+function edgeTitle(edge: WordGraphEdge, labels: Map<string, string>): string {
+    const pair = `${labels.get(edge.source)} – ${labels.get(edge.target)}`;
+    const pmi = edge.pmi !== null ? `, PMI ${edge.pmi.toFixed(2)}` : '';
+    return `${pair}: ${edge.label.replace(/_/g, ' ')} (strength ${edge.weight.toFixed(2)}${pmi})`;
+}
+
+export default function WordNetworkPage() {
+    const { goalId, objectId } = useParams<{ goalId: string; objectId: string }>();
+    const navigate = useNavigate();
+    const [depth, setDepth] = useState(2);
+    const [relations, setRelations] = useState<WordRelation[]>(ALL_RELATIONS);
+    const [graph, setGraph] = useState<WordNeighborhood | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const loadGraph = useCallback(async () => {
+        if (!objectId) {
+            return;
+        }
+        setLoading(true);
+        setMessage(null);
+        try {
+            const next = await window.logos.network.getNeighborhood(objectId, { depth, relations });
+            setGraph(next);
+            setSelectedId(next.centerId);
+        } catch (error) {
+            console.error('Failed to load word network:', error);
+            setMessage(error instanceof Error ? error.message : 'Could not load the network.');
+        } finally {
+            setLoading(false);
+        }
+    }, [objectId, depth, relations]);
+
+    useEffect(() => {
+        void loadGraph();
+    }, [loadGraph]);
+
+    const toggleRelation = (relation: WordRelation) => {
+        setRelations(prev => {
+            const next = prev.includes(relation) ? prev.filter(r => r !== relation) : [...prev, relation];
+            return next.length > 0 ? next : prev;
+        });
+    };
+
+    const positions = graph ? layoutNodes(graph.nodes) : new Map<string, { x: number; y: number }>();
+    const labels = new Map(graph?.nodes.map(n => [n.id, n.label]) ?? []);
+    const selected = graph?.nodes.find(n => n.id === selectedId) ?? null;
+    const selectedEdges = graph?.edges.filter(e => e.source === selectedId || e.target === selectedId) ?? [];
+
+    return (
+        <div style={{ minHeight: '100vh', paddingBottom: 'var(--spacing-2xl)' }}>
+            <header style={{
+                backgroundColor: 'var(--color-surface)',
+                borderBottom: '1px solid var(--color-border)',
+                padding: 'var(--spacing-lg) 0',
+                marginBottom: 'var(--spacing-2xl)',
+            }}>
+                <div className="container flex justify-between items-center">
+                    <h1 style={{ margin: 0, fontSize: '1.5rem' }}>
+                        Word Network{graph && `: ${labels.get(graph.centerId)}`}
+                    </h1>
+                    <div className="flex gap-sm">
+                        <button className="btn btn-secondary" onClick={() => navigate(`/explorer/${goalId}`)}>
+                            Word Explorer
+                        </button>
+                        <button className="btn btn-secondary" onClick={() => navigate('/')}>
+                            ← Back
+                        </button>
+                    </div>
+                </div>
+            </header>
+
+            <div className="container" style={{ display: 'grid', gridTemplateColumns: '1fr 320px', gap: 'var(--spacing-lg)' }}>
+                <div className="card">
+                    <div className="flex justify-between items-center gap-md" style={{ flexWrap: 'wrap', marginBottom: 'var(--spacing-md)' }}>
+                        <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+                            {ALL_RELATIONS.map(relation => (
+                                <button
+                                    key={relation}
+                                    className={`btn ${relations.includes(relation) ? 'btn-primary' : 'btn-secondary'}`}
+                                    style={{ padding: '0.25rem 0.5rem', fontSize: '0.75rem' }}
+                                    onClick={() => toggleRelation(relation)}
+                                >
+                                    <span style={{ color: RELATION_COLORS[relation] }}>●</span> {RELATION_LABELS[relation]}
+                                </button>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-sm text-secondary" style={{ fontSize: '0.875rem' }}>
+                            Depth
+                            <select value={depth} onChange={(e) => setDepth(Number(e.target.value))}>
+                                {[1, 2, 3].map(d => <option key={d} value={d}>{d}</option>)}
+                            </select>
+                        </label>
+                    </div>
+
+                    {message && <p className="text-secondary">{message}</p>}
+                    {loading && !graph ? (
+                        <p className="text-secondary">Loading network...</p>
+                    ) : graph && graph.nodes.length <= 1 ? (
+                        <p className="text-secondary">No related words found for this item yet.</p>
+                    ) : graph && (
+                        <svg viewBox={`0 0 ${SIZE} ${SIZE}`} style={{ width: '100%', maxHeight: '70vh', opacity: loading ? 0.5 : 1 }}>
+                            {graph.edges.map(edge => {
+                                const from = positions.get(edge.source);
+                                const to = positions.get(edge.target);
+                                if (!from || !to) {
+                                    return null;
+                                }
+                                return (
+                                    <line
+                                        key={`${edge.source}-${edge.target}-${edge.label}`}
+                                        x1={from.x}
+                                        y1={from.y}
+                                        x2={to.x}
+                                        y2={to.y}
+                                        stroke={RELATION_COLORS[edge.relation]}
+                                        strokeWidth={1 + edge.weight * 4}
+                                        strokeOpacity={selectedId && edge.source !== selectedId && edge.target !== selectedId ? 0.25 : 0.8}
+                                    >
+                                        <title>{edgeTitle(edge, labels)}</title>
+                                    </line>
+                                );
+                            })}
+                            {graph.nodes.map(node => {
+                                const position = positions.get(node.id);
+                                if (!position) {
+                                    return null;
+                                }
+                                const radius = node.depth === 0 ? 18 : 8 + node.frequency * 8;
+                                return (
+                                    <g
+                                        key={node.id}
+                                        style={{ cursor: 'pointer' }}
+                                        opacity={node.status === 'active' ? 1 : 0.45}
+                                        onClick={() => setSelectedId(node.id)}
+                                    >
+                                        <circle
+                                            cx={position.x}
+                                            cy={position.y}
+                                            r={radius}
+                                            fill={STAGE_COLORS[node.stage]}
+                                            stroke={node.id === selectedId ? 'var(--color-text)' : 'var(--color-surface)'}
+                                            strokeWidth={node.id === selectedId ? 3 : 1.5}
+                                        >
+                                            <title>{`${node.label}: ${STAGE_LABELS[node.stage]}`}</title>
+                                        </circle>
+                                        <text
+                                            x={position.x}
+                                            y={position.y + radius + 12}
+                                            textAnchor="middle"
+                                            fontSize={node.depth === 0 ? 14 : 11}
+                                            fill="var(--color-text)"
+                                        >
+                                            {node.label}
+                                        </text>
+                                    </g>
+                                );
+                            })}
+                        </svg>
+                    )}
+
+                    <div className="flex gap-md text-secondary" style={{ flexWrap: 'wrap', fontSize: '0.75rem', marginTop: 'var(--spacing-sm)' }}>
+                        {Object.entries(STAGE_LABELS).map(([stage, label]) => (
+                            <span key={stage}>
+                                <span style={{ color: STAGE_COLORS[Number(stage)] }}>●</span> {label}
+                            </span>
+                        ))}
+                        {graph?.truncated && <span>Showing the most strongly linked words only.</span>}
+                    </div>
+                </div>
+
+                <div className="card">
+                    {!selected ? (
+                        <p className="text-secondary">Click a word to see how it connects.</p>
+                    ) : (
+                        <div className="flex flex-col gap-md">
+                            <div>
+                                <h2 style={{ margin: 0 }}>{selected.label}</h2>
+                                <div className="flex gap-sm" style={{ flexWrap: 'wrap', marginTop: 'var(--spacing-sm)' }}>
+                                    <span className="badge">{selected.type}</span>
+                                    <span className="badge badge-primary">Stage {selected.stage}: {STAGE_LABELS[selected.stage]}</span>
+                                    {selected.status !== 'active' && <span className="badge badge-warning">{selected.status}</span>}
+                                </div>
+                            </div>
+
+                            <div className="flex flex-col gap-sm">
+                                <button
+                                    className="btn btn-primary"
+                                    onClick={() => navigate(`/session/${goalId}?cluster=${selected.id}`)}
+                                >
+                                    Practise this cluster
+                                </button>
+                                <button
+                                    className="btn btn-secondary"
+                                    onClick={() => navigate(`/explorer/${goalId}?object=${selected.id}`)}
+                                >
+                                    Open in Word Explorer
+                                </button>
+                                {selected.id !== graph?.centerId && (
+                                    <button
+                                        className="btn btn-secondary"
+                                        onClick={() => navigate(`/network/${goalId}/${selected.id}`)}
+                                    >
+                                        Recentre on this word
+                                    </button>
+                                )}
+                            </div>
+
+                            <div>
+                                <h4 style={{ margin: '0 0 var(--spacing-sm) 0' }}>Connections</h4>
+                                {selectedEdges.length === 0 ? (
+                                    <p className="text-secondary" style={{ margin: 0 }}>None shown.</p>
+                                ) : (
+                                    <ul style={{ margin: 0, paddingLeft: '1.25rem', fontSize: '0.875rem' }}>
+                                        {selectedEdges.map(edge => {
+                                            const otherId = edge.source === selected.id ? edge.target : edge.source;
+                                            return (
+                                                <li key={`${edge.source}-${edge.target}-${edge.label}`}>
+                                                    <button
+                                                        className="btn btn-secondary"
+                                                        style={{ padding: '0 0.25rem', fontSize: '0.75rem' }}
+                                                        onClick={() => setSelectedId(otherId)}
+                                                    >
+                                                        {labels.get(otherId)}
+                                                    </button>{' '}
+                                                    <span style={{ color: RELATION_COLORS[edge.relation] }}>
+                                                        {edge.label.replace(/_/g, ' ')}
+                                                    </span>
+                                                    {edge.pmi !== null && (
+                                                        <span className="text-secondary"> PMI {edge.pmi.toFixed(1)}</span>
+                                                    )}
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,102 @@
+/**
+ * Speech Recorder
+ *
+ * Records a spoken attempt from the microphone and encodes it as 16 kHz
+ * mono WAV, the input local phoneme recognizers expect. Scoring happens in
+ * the main process.
+ */
+
+const SAMPLE_RATE = 16000;
+
+export interface SpeechRecording {
+    /** Stop recording and return the attempt as WAV bytes */
+    stop: () => Promise<Uint8Array>;
+    /** Stop recording and discard the audio */
+    cancel: () => void;
+}
+
+/**
+ * Start recording from the default microphone.
+ * Rejects when microphone access is denied.
+ */
+export async function startSpeechRecording(): Promise<SpeechRecording> {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const stopped = new Promise<void>(resolve => {
+        recorder.onstop = () => resolve();
+    });
+    recorder.ondataavailable = event => chunks.push(event.data);
+    recorder.start();
+
+    const release = () => {
+        if (recorder.state !== 'inactive') {
+            recorder.stop();
+        }
+        stream.getTracks().forEach(track => track.stop());
+    };
+
+    return {
+        stop: async () => {
+            release();
+            await stopped;
+            const blob = new Blob(chunks, { type: recorder.mimeType });
+            return encodeWav(await decodeMono(blob));
+        },
+        cancel: release,
+    };
+}
+
+/**
+ * Decode the recorder output, resampled to SAMPLE_RATE and mixed to mono.
+ */
+async function decodeMono(blob: Blob): Promise<Float32Array> {
+    const context = new AudioContext({ sampleRate: SAMPLE_RATE });
+    try {
+        const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+        const mono = new Float32Array(buffer.length);
+        for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+            const data = buffer.getChannelData(channel);
+            for (let i = 0; i < data.length; i++) {
+                mono[i] += data[i] / buffer.numberOfChannels;
+            }
+        }
+        return mono;
+    } finally {
+        await context.close();
+    }
+}
+
+/**
+ * Encode samples in [-1, 1] as 16-bit PCM WAV.
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number = SAMPLE_RATE): Uint8Array {
+    const dataSize = samples.length * 2;
+    const view = new DataView(new ArrayBuffer(44 + dataSize));
+    const writeTag = (offset: number, tag: string) => {
+        for (let i = 0; i < tag.length; i++) {
+            view.setUint8(offset + i, tag.charCodeAt(i));
+        }
+    };
+
+    writeTag(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeTag(8, 'WAVE');
+    writeTag(12, 'fmt ');
+    view.setUint32(16, 16, true);             // fmt chunk size
+    view.setUint16(20, 1, true);              // PCM
+    view.setUint16(22, 1, true);              // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // byte rate
+    view.setUint16(32, 2, true);              // block align
+    view.setUint16(34, 16, true);             // bits per sample
+    writeTag(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    samples.forEach((sample, i) => {
+        const clamped = Math.max(-1, Math.min(1, sample));
+        view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+    });
+
+    return new Uint8Array(view.buffer);
+}
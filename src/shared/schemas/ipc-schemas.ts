@@ -75,7 +75,7 @@ export const ObjectListSchema = z.object({
   offset: nonNegativeInt.default(0),
 });
 
-/** object:import request schema */
+/** object:import request schema (inline objects or a deck file) */
 export const ObjectImportSchema = z.object({
   goalId: uuidSchema,
   objects: z.array(z.object({
@@ -86,8 +86,21 @@ export const ObjectImportSchema = z.object({
     relationalDensity: ratioSchema.optional(),
     contextualContribution: ratioSchema.optional(),
     irtDifficulty: z.number().min(-4).max(4).optional(),
-  })).min(1).max(10000),
-});
+  })).min(1).max(10000).optional(),
+  filePath: nonEmptyString.optional(),
+  deck: z.object({
+    format: z.enum(['apkg', 'csv', 'tsv']).optional(),
+    type: z.enum(['LEX', 'MORPH', 'G2P', 'SYNT', 'PRAG']).optional(),
+    delimiter: z.string().length(1).optional(),
+    hasHeader: z.boolean().optional(),
+    frontColumn: nonNegativeInt.optional(),
+    backColumn: nonNegativeInt.optional(),
+    tagsColumn: nonNegativeInt.optional(),
+  }).optional(),
+}).refine(
+  data => (data.objects !== undefined) !== (data.filePath !== undefined),
+  'Provide either objects or filePath'
+);
 
 /** object:search request schema */
 export const ObjectSearchSchema = z.object({
@@ -128,11 +141,40 @@ export const RecordResponseSchema = z.object({
   expectedContent: z.string().max(5000),
 });
 
+/** session:score-speech request schema */
+export const SessionScoreSpeechSchema = z.object({
+  sessionId: uuidSchema,
+  objectId: uuidSchema,
+  audio: z
+    .instanceof(Uint8Array)
+    .refine((audio) => audio.byteLength > 0, 'Recording is empty')
+    .refine((audio) => audio.byteLength <= 5 * 1024 * 1024, 'Recording is too long'), // ~2.5 min of 16 kHz WAV
+  mimeType: z.enum(['audio/wav', 'audio/webm', 'audio/ogg']).default('audio/wav'),
+  responseTimeMs: z.number().int().min(0).max(300000),
+});
+
+/** session:generate-task request schema */
+export const SessionGenerateTaskSchema = z.object({
+  sessionId: uuidSchema,
+  objectId: uuidSchema,
+});
+
 /** session:getSummary request schema */
 export const SessionSummarySchema = z.object({
   sessionId: uuidSchema,
 });
 
+/** analytics:get-distractors request schema */
+export const AnalyticsGetDistractorsSchema = z.object({
+  goalId: uuidSchema,
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
+/** analytics:get-intent-calibration request schema */
+export const AnalyticsGetIntentCalibrationSchema = z.object({
+  goalId: uuidSchema,
+});
+
 // =============================================================================
 // Goal IPC Schemas
 // =============================================================================
@@ -162,6 +204,12 @@ export const GoalUpdateSchema = z.object({
   isActive: z.boolean().optional(),
 });
 
+/** goal:get-grammar-roadmap request schema */
+export const GoalGrammarRoadmapSchema = z.object({
+  goalId: uuidSchema,
+  targetLevel: z.enum(['A1', 'A2', 'B1', 'B2', 'C1', 'C2']).optional(),
+});
+
 // =============================================================================
 // Onboarding IPC Schemas
 // =============================================================================
@@ -178,6 +226,23 @@ export const OnboardingCompleteSchema = z.object({
   dailyTime: z.number().int().min(5).max(480),
 });
 
+const placementAnswerSchema = z.object({
+  itemId: z.string().min(1).max(100),
+  answer: z.string().max(500),
+  responseTimeMs: z.number().int().min(0).max(600000),
+});
+
+/** onboarding:placement-next request schema */
+export const PlacementNextSchema = z.object({
+  answers: z.array(placementAnswerSchema).max(100).default([]),
+});
+
+/** onboarding:placement-complete request schema */
+export const PlacementCompleteSchema = z.object({
+  goalId: uuidSchema,
+  answers: z.array(placementAnswerSchema).min(1).max(100),
+});
+
 // =============================================================================
 // Claude IPC Schemas
 // =============================================================================
@@ -204,6 +269,280 @@ export const ClaudeGetHintSchema = z.object({
   previousHints: z.array(z.string().max(500)).max(3).optional(),
 });
 
+// =============================================================================
+// System IPC Schemas
+// =============================================================================
+
+/** system:export-data request schema */
+export const SystemExportDataSchema = z.object({
+  format: z.literal('json').default('json'),
+  includeHistory: z.boolean().default(true),
+  goalIds: z.array(uuidSchema).optional(),
+});
+
+/** system:import-data request schema (the file is picked in main, never passed in) */
+export const SystemImportDataSchema = z.object({
+  merge: z.boolean().default(true),
+});
+
+/** system:restore-backup request schema (a file name, never a path) */
+export const SystemRestoreBackupSchema = z.object({
+  backupId: z.string().regex(/^[\w.-]+\.db$/, 'Invalid backup id'),
+});
+
+// =============================================================================
+// Milestone IPC Schemas
+// =============================================================================
+
+/** milestone:get-history request schema */
+export const MilestoneHistorySchema = z.object({
+  limit: z.number().int().min(1).max(500).default(50),
+  offset: nonNegativeInt.default(0),
+  type: nonEmptyString.max(50).optional(),
+  unacknowledgedOnly: z.boolean().default(false),
+});
+
+/** milestone:acknowledge request schema */
+export const MilestoneAcknowledgeSchema = z.object({
+  ids: z.array(uuidSchema).max(500).optional(),
+});
+
+// =============================================================================
+// Threshold Experiment IPC Schemas
+// =============================================================================
+
+/** Stage threshold values (validated further by ThresholdRegistry) */
+export const StageThresholdsSchema = z.object({
+  stage4CueFreeAccuracy: ratioSchema,
+  stage4Stability: z.number().positive(),
+  stage4MaxGap: ratioSchema,
+  stage4Automatization: ratioSchema.optional(),
+  stage3CueFreeAccuracy: ratioSchema,
+  stage3Stability: z.number().positive(),
+  stage2CueFreeAccuracy: ratioSchema,
+  stage2CueAssistedAccuracy: ratioSchema,
+  stage1CueAssistedAccuracy: ratioSchema,
+});
+
+/** experiment:create request schema */
+export const ExperimentCreateSchema = z.object({
+  name: nonEmptyString.max(200),
+  description: z.string().max(2000).optional(),
+  primaryMetric: z.enum(['stage_advancement_rate', 'retention_at_30_days', 'session_completion_rate']),
+  groups: z
+    .array(
+      z
+        .object({
+          id: nonEmptyString.max(50),
+          configId: nonEmptyString.max(100).optional(),
+          thresholds: StageThresholdsSchema.optional(),
+          proportion: z.number().gt(0).max(1),
+          hypothesis: z.string().max(1000).default(''),
+        })
+        .refine((g) => Boolean(g.configId) !== Boolean(g.thresholds), {
+          message: 'Each group needs exactly one of configId or thresholds',
+        })
+    )
+    .min(2)
+    .max(10)
+    .refine((groups) => new Set(groups.map((g) => g.id)).size === groups.length, {
+      message: 'Group ids must be unique',
+    }),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
+
+/** experiment:end and experiment:get-results request schema */
+export const ExperimentIdSchema = z.object({
+  experimentId: uuidSchema,
+});
+
+/** experiment:list request schema */
+export const ExperimentListSchema = z.object({
+  activeOnly: z.boolean().default(false),
+});
+
+// =============================================================================
+// Study Planner IPC Schemas
+// =============================================================================
+
+/** planner:create-plan request schema (record keys are GoalSpec IDs) */
+export const PlannerCreatePlanSchema = z.object({
+  weeklyMinutes: z.number().int().min(10).max(5040),
+  preference: z
+    .enum(['balanced', 'deadline_focused', 'progress_focused', 'synergy_focused', 'custom'])
+    .default('balanced'),
+  deadlines: z.record(uuidSchema, z.coerce.date().nullable()).optional(),
+  weights: z.record(uuidSchema, ratioSchema).optional(),
+});
+
+/** planner:get-session-queue request schema */
+export const PlannerSessionQueueSchema = z.object({
+  sessionSize: z.number().int().min(1).max(100).default(20),
+  newItemRatio: ratioSchema.default(0.3),
+});
+
+// =============================================================================
+// Word Explorer IPC Schemas
+// =============================================================================
+
+const masteryStageSchema = z.number().int().min(0).max(4);
+
+/** explorer:search request schema */
+export const ExplorerSearchSchema = z.object({
+  goalId: uuidSchema,
+  query: z.string().max(200).optional(),
+  types: z.array(z.enum(['LEX', 'MWE', 'TERM', 'MORPH', 'G2P', 'SYNT', 'PRAG'])).optional(),
+  stages: z.array(masteryStageSchema).optional(),
+  due: z.enum(['now', 'today', 'week']).optional(),
+  domain: z.string().max(100).optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+  status: z.enum(['active', 'suspended', 'buried']).optional(),
+  sort: z.enum(['alphabetical', 'priority', 'frequency', 'mastery', 'recency']).default('alphabetical'),
+  limit: z.number().int().min(1).max(500).default(50),
+  offset: nonNegativeInt.default(0),
+});
+
+/** explorer:get-object request schema */
+export const ExplorerObjectSchema = z.object({
+  objectId: uuidSchema,
+});
+
+/** explorer:apply-action request schema */
+export const ExplorerActionSchema = z.object({
+  objectId: uuidSchema,
+  action: z.enum(['suspend', 'unsuspend', 'bury', 'unbury', 'reset']),
+});
+
+/** explorer:edit-object request schema */
+export const ExplorerEditSchema = z.object({
+  objectId: uuidSchema,
+  content: nonEmptyString.max(1000).optional(),
+  irtDifficulty: z.number().min(-4).max(4).optional(),
+  frequency: ratioSchema.optional(),
+  stage: masteryStageSchema.optional(),
+  nextReview: z.coerce.date().nullable().optional(),
+}).refine(
+  data => Object.keys(data).length > 1, // At least objectId + one field
+  'At least one field must be provided for update'
+);
+
+// =============================================================================
+// Word Network IPC Schemas
+// =============================================================================
+
+/** network:get-neighborhood request schema */
+export const NetworkNeighborhoodSchema = z.object({
+  objectId: uuidSchema,
+  depth: z.number().int().min(1).max(3).optional(),
+  maxNodes: z.number().int().min(5).max(100).optional(),
+  relations: z
+    .array(z.enum(['collocation', 'semantic', 'morphological', 'phonological', 'syntactic']))
+    .min(1)
+    .optional(),
+});
+
+/** network:get-cluster-queue request schema */
+export const NetworkClusterQueueSchema = z.object({
+  objectId: uuidSchema,
+  sessionSize: z.number().int().min(1).max(50).default(12),
+});
+
+// =============================================================================
+// Automatization IPC Schemas
+// =============================================================================
+
+/** automatization:get-profile request schema */
+export const AutomatizationProfileSchema = z.object({
+  objectId: uuidSchema,
+});
+
+/** automatization:get-speed-round request schema */
+export const SpeedRoundSchema = z.object({
+  goalId: uuidSchema,
+  size: z.number().int().min(3).max(50).default(15),
+});
+
+// =============================================================================
+// User Graph IPC Schemas
+// =============================================================================
+
+/** graph:get-exposure request schema */
+export const GraphExposureSchema = z.object({
+  objectId: uuidSchema,
+});
+
+// =============================================================================
+// Mastery Propagation IPC Schemas
+// =============================================================================
+
+/** propagation:get-log request schema */
+export const PropagationLogSchema = z.object({
+  goalId: uuidSchema,
+  limit: z.number().int().min(1).max(200).default(20),
+});
+
+/** propagation:set-enabled request schema */
+export const PropagationSetEnabledSchema = z.object({
+  goalId: uuidSchema,
+  enabled: z.boolean(),
+});
+
+// =============================================================================
+// Corpus Pack IPC Schemas
+// =============================================================================
+
+/** corpus:install-pack request schema */
+export const CorpusInstallPackSchema = z.object({
+  filePath: nonEmptyString.max(4096),
+});
+
+/** corpus:remove-pack request schema (a pack id, never a path) */
+export const CorpusRemovePackSchema = z.object({
+  packId: z.string().regex(/^[a-z0-9][a-z0-9-]{0,63}$/, 'Invalid pack id'),
+});
+
+// =============================================================================
+// Glossary IPC Schemas
+// =============================================================================
+
+const glossarySenseSchema = z.object({
+  partOfSpeech: z.string().trim().max(40).nullable().optional(),
+  definition: z.string().max(1000).nullable().optional(),
+  translation: z.string().max(500).nullable().optional(),
+  l1: z.string().regex(/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/, 'Invalid language code').nullable().optional(),
+  examples: z.array(z.string().max(1000)).max(5).optional(),
+});
+
+/** glossary:get, glossary:import and glossary:generate request schema */
+export const GlossaryObjectSchema = z.object({
+  objectId: uuidSchema,
+});
+
+/** glossary:add-sense request schema */
+export const GlossaryAddSenseSchema = z.object({
+  objectId: uuidSchema,
+  sense: glossarySenseSchema,
+});
+
+/** glossary:update-sense request schema */
+export const GlossaryUpdateSenseSchema = z.object({
+  senseId: uuidSchema,
+  sense: glossarySenseSchema,
+});
+
+/** glossary:delete-sense and glossary:make-primary request schema */
+export const GlossarySenseIdSchema = z.object({
+  senseId: uuidSchema,
+});
+
+/** glossary:fill-goal request schema */
+export const GlossaryFillGoalSchema = z.object({
+  goalId: uuidSchema,
+  useProvider: z.boolean().default(false),
+  limit: z.number().int().min(1).max(1000).optional(),
+});
+
 // =============================================================================
 // Validation Helper
 // =============================================================================
@@ -252,9 +591,38 @@ export type ObjectSearchRequest = z.infer<typeof ObjectSearchSchema>;
 export type SessionStartRequest = z.infer<typeof SessionStartSchema>;
 export type SessionEndRequest = z.infer<typeof SessionEndSchema>;
 export type RecordResponseRequest = z.infer<typeof RecordResponseSchema>;
+export type SessionScoreSpeechRequest = z.infer<typeof SessionScoreSpeechSchema>;
+export type SessionGenerateTaskRequest = z.infer<typeof SessionGenerateTaskSchema>;
+export type AnalyticsGetDistractorsRequest = z.infer<typeof AnalyticsGetDistractorsSchema>;
+export type AnalyticsGetIntentCalibrationRequest = z.infer<typeof AnalyticsGetIntentCalibrationSchema>;
 export type GoalCreateRequest = z.infer<typeof GoalCreateSchema>;
 export type GoalUpdateRequest = z.infer<typeof GoalUpdateSchema>;
+export type GoalGrammarRoadmapRequest = z.infer<typeof GoalGrammarRoadmapSchema>;
 export type OnboardingCompleteRequest = z.infer<typeof OnboardingCompleteSchema>;
+export type PlacementNextRequest = z.infer<typeof PlacementNextSchema>;
+export type PlacementCompleteRequest = z.infer<typeof PlacementCompleteSchema>;
 export type ClaudeGenerateTaskRequest = z.infer<typeof ClaudeGenerateTaskSchema>;
 export type ClaudeAnalyzeErrorRequest = z.infer<typeof ClaudeAnalyzeErrorSchema>;
 export type ClaudeGetHintRequest = z.infer<typeof ClaudeGetHintSchema>;
+export type SystemExportDataRequest = z.infer<typeof SystemExportDataSchema>;
+export type SystemImportDataRequest = z.infer<typeof SystemImportDataSchema>;
+export type SystemRestoreBackupRequest = z.infer<typeof SystemRestoreBackupSchema>;
+export type MilestoneHistoryRequest = z.infer<typeof MilestoneHistorySchema>;
+export type MilestoneAcknowledgeRequest = z.infer<typeof MilestoneAcknowledgeSchema>;
+export type ExperimentCreateRequest = z.infer<typeof ExperimentCreateSchema>;
+export type PlannerCreatePlanRequest = z.infer<typeof PlannerCreatePlanSchema>;
+export type PlannerSessionQueueRequest = z.infer<typeof PlannerSessionQueueSchema>;
+export type ExplorerSearchRequest = z.infer<typeof ExplorerSearchSchema>;
+export type ExplorerActionRequest = z.infer<typeof ExplorerActionSchema>;
+export type ExplorerEditRequest = z.infer<typeof ExplorerEditSchema>;
+export type NetworkNeighborhoodRequest = z.infer<typeof NetworkNeighborhoodSchema>;
+export type NetworkClusterQueueRequest = z.infer<typeof NetworkClusterQueueSchema>;
+export type SpeedRoundRequest = z.infer<typeof SpeedRoundSchema>;
+export type GraphExposureRequest = z.infer<typeof GraphExposureSchema>;
+export type PropagationLogRequest = z.infer<typeof PropagationLogSchema>;
+export type PropagationSetEnabledRequest = z.infer<typeof PropagationSetEnabledSchema>;
+export type CorpusInstallPackRequest = z.infer<typeof CorpusInstallPackSchema>;
+export type CorpusRemovePackRequest = z.infer<typeof CorpusRemovePackSchema>;
+export type GlossaryAddSenseRequest = z.infer<typeof GlossaryAddSenseSchema>;
+export type GlossaryUpdateSenseRequest = z.infer<typeof GlossaryUpdateSenseSchema>;
+export type GlossaryFillGoalRequest = z.infer<typeof GlossaryFillGoalSchema>;
@@ -120,6 +120,7 @@ export const IPC_CHANNELS = {
   GOAL_GET: 'goal:get',
   GOAL_LIST: 'goal:list',
   GOAL_SET_ACTIVE: 'goal:set-active',
+  GOAL_GET_GRAMMAR_ROADMAP: 'goal:get-grammar-roadmap',
 
   // Learning Session
   SESSION_START: 'session:start',
@@ -129,6 +130,9 @@ export const IPC_CHANNELS = {
   SESSION_GET_STATE: 'session:get-state',
   SESSION_GET_SUMMARY: 'session:get-summary',
   SESSION_LIST: 'session:list',
+  SESSION_SCORE_SPEECH: 'session:score-speech',
+  SESSION_SPEECH_STATUS: 'session:speech-status',
+  SESSION_GENERATE_TASK: 'session:generate-task',
 
   // Learning Queue
   QUEUE_GET: 'queue:get',
@@ -149,6 +153,8 @@ export const IPC_CHANNELS = {
   ANALYTICS_GET_PROGRESS: 'analytics:get-progress',
   ANALYTICS_GET_BOTTLENECKS: 'analytics:get-bottlenecks',
   ANALYTICS_GET_HISTORY: 'analytics:get-history',
+  ANALYTICS_GET_DISTRACTORS: 'analytics:get-distractors',
+  ANALYTICS_GET_INTENT_CALIBRATION: 'analytics:get-intent-calibration',
 
   // Content Generation (Claude API)
   CLAUDE_GENERATE_TASK: 'claude:generate-task',
@@ -166,6 +172,60 @@ export const IPC_CHANNELS = {
   SYSTEM_EXPORT_DATA: 'system:export-data',
   SYSTEM_IMPORT_DATA: 'system:import-data',
   SYSTEM_BACKUP: 'system:backup',
+  SYSTEM_LIST_BACKUPS: 'system:list-backups',
+  SYSTEM_RESTORE_BACKUP: 'system:restore-backup',
+
+  // Milestones
+  MILESTONE_GET_HISTORY: 'milestone:get-history',
+  MILESTONE_ACKNOWLEDGE: 'milestone:acknowledge',
+
+  // Threshold Experiments
+  EXPERIMENT_LIST: 'experiment:list',
+  EXPERIMENT_CREATE: 'experiment:create',
+  EXPERIMENT_END: 'experiment:end',
+  EXPERIMENT_GET_RESULTS: 'experiment:get-results',
+  EXPERIMENT_GET_ASSIGNMENT: 'experiment:get-assignment',
+
+  // Study Planner
+  PLANNER_GET_PLAN: 'planner:get-plan',
+  PLANNER_CREATE_PLAN: 'planner:create-plan',
+  PLANNER_GET_SESSION_QUEUE: 'planner:get-session-queue',
+
+  // Word Explorer
+  EXPLORER_SEARCH: 'explorer:search',
+  EXPLORER_GET_OBJECT: 'explorer:get-object',
+  EXPLORER_APPLY_ACTION: 'explorer:apply-action',
+  EXPLORER_EDIT_OBJECT: 'explorer:edit-object',
+
+  // Word Network
+  NETWORK_GET_NEIGHBORHOOD: 'network:get-neighborhood',
+  NETWORK_GET_CLUSTER_QUEUE: 'network:get-cluster-queue',
+
+  // Automatization
+  AUTOMATIZATION_GET_PROFILE: 'automatization:get-profile',
+  AUTOMATIZATION_GET_SPEED_ROUND: 'automatization:get-speed-round',
+
+  // User Graph
+  GRAPH_GET_EXPOSURE: 'graph:get-exposure',
+
+  // Mastery Propagation
+  PROPAGATION_GET_LOG: 'propagation:get-log',
+  PROPAGATION_SET_ENABLED: 'propagation:set-enabled',
+
+  // Corpus Packs
+  CORPUS_LIST_PACKS: 'corpus:list-packs',
+  CORPUS_INSTALL_PACK: 'corpus:install-pack',
+  CORPUS_REMOVE_PACK: 'corpus:remove-pack',
+
+  // Glossary
+  GLOSSARY_GET: 'glossary:get',
+  GLOSSARY_ADD_SENSE: 'glossary:add-sense',
+  GLOSSARY_UPDATE_SENSE: 'glossary:update-sense',
+  GLOSSARY_DELETE_SENSE: 'glossary:delete-sense',
+  GLOSSARY_MAKE_PRIMARY: 'glossary:make-primary',
+  GLOSSARY_IMPORT: 'glossary:import',
+  GLOSSARY_GENERATE: 'glossary:generate',
+  GLOSSARY_FILL_GOAL: 'glossary:fill-goal',
 
   // Learning Objects CRUD
   OBJECT_CREATE: 'object:create',
@@ -248,6 +308,44 @@ export interface GoalListResponse {
   total: number;
 }
 
+export type CEFRLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export interface GoalGrammarRoadmapRequest {
+  goalId: string;
+  /** Defaults to the goal's benchmark when it is a CEFR level */
+  targetLevel?: CEFRLevel;
+}
+
+export type GrammarTrackStatus = 'mastered' | 'practising' | 'available' | 'locked';
+
+/**
+ * One construction of the grammar track, in curriculum order.
+ */
+export interface GrammarRoadmapItem {
+  constructionId: string;
+  /** SYNT object practising the construction */
+  objectId: string | null;
+  name: string;
+  pattern: string;
+  category: string;
+  cefrLevel: CEFRLevel;
+  complexity: number;
+  cognitiveLoad: number;
+  prerequisites: string[];
+  stage: number;
+  status: GrammarTrackStatus;
+  /** Prerequisites still below the unlock stage */
+  missingPrerequisites: string[];
+  nextReview: Date | null;
+}
+
+export interface GoalGrammarRoadmap {
+  goalId: string;
+  targetLevel: CEFRLevel;
+  entries: GrammarRoadmapItem[];
+  counts: Record<GrammarTrackStatus, number>;
+}
+
 // -----------------------------------------------------------------------------
 // Session IPC Types
 // -----------------------------------------------------------------------------
@@ -273,14 +371,12 @@ export interface SessionEndRequest {
 export interface SessionSubmitResponseRequest {
   sessionId: string;
   objectId: string;
-  correct: boolean;
+  /** Task from session:generate-task; responseContent is graded in main against it */
+  taskId: string;
   cueLevel: 0 | 1 | 2 | 3;
   responseTimeMs: number;
   taskType?: string;
-  taskFormat?: string;
-  modality?: string;
   responseContent?: string;
-  expectedContent?: string;
 }
 
 export interface SessionSubmitResponseResponse {
@@ -292,6 +388,90 @@ export interface SessionSubmitResponseResponse {
   };
   nextTask: Task | null;
   sessionComplete: boolean;
+  grading?: AnswerGradingInfo;
+}
+
+export interface AnswerGradingInfo {
+  correct: boolean;
+  /** Credit earned (0-1) */
+  credit: number;
+  matchType: 'exact' | 'alternative' | 'diacritics' | 'typo' | 'inflection' | 'partial' | 'incorrect' | 'blank';
+  /** Answer the response was matched against */
+  expected: string;
+  feedback: string;
+  /** Glossary meaning of the target, from the issued task */
+  gloss?: Gloss;
+}
+
+export interface SessionGenerateTaskRequest {
+  sessionId: string;
+  objectId: string;
+}
+
+/**
+ * Why a task is presented to the learner.
+ */
+export type PedagogicalIntent =
+  | 'introduce_new'
+  | 'reinforce_known'
+  | 'test_comprehension'
+  | 'elicit_production'
+  | 'contextual_usage'
+  | 'error_detection'
+  | 'metalinguistic'
+  | 'fluency_building'
+  | 'transfer_testing';
+
+/**
+ * The next item of a session and how it will be practised.
+ */
+export interface SessionNextTask {
+  objectId: string;
+  content: string;
+  type: string;
+  masteryStage: number;
+  difficulty: number;
+  intent: PedagogicalIntent | null;
+  /** Predicted success (0-1) under the intent */
+  expectedSuccess: number | null;
+  targetSuccess: number;
+  /** Traditional task type suited to the intent and stage */
+  taskType: string | null;
+  /** Objects picked to accompany the item */
+  companions: Array<{ objectId: string; content: string }>;
+}
+
+/**
+ * Location of an authentic context sentence in the learner's uploads
+ */
+export interface TaskContextSource {
+  filename: string;
+  /** 1-based PDF page */
+  page: number | null;
+  /** Subtitle cue start */
+  startMs: number | null;
+}
+
+/**
+ * A task issued by main. The answer stays in main, which grades the
+ * submission by taskId.
+ */
+export interface SessionGeneratedTask {
+  taskId: string;
+  objectId: string;
+  prompt: string;
+  format: TaskFormat;
+  modality: string;
+  cueLevel: 0 | 1 | 2 | 3;
+  options?: string[];
+  hints?: string[];
+  context?: string;
+  /** Uploaded document the context sentence comes from */
+  contextSource?: TaskContextSource;
+  /** Intent the task was issued for */
+  intent?: PedagogicalIntent;
+  /** Predicted success (0-1) under the intent */
+  expectedSuccess?: number;
 }
 
 export interface SessionListRequest {
@@ -309,6 +489,42 @@ export interface SessionListResponse {
   total: number;
 }
 
+export interface SessionScoreSpeechRequest {
+  sessionId: string;
+  objectId: string;
+  /** Recorded attempt (16 kHz mono WAV) */
+  audio: Uint8Array;
+  mimeType: string;
+  responseTimeMs: number;
+}
+
+export interface PhonemeErrorInfo {
+  type: 'substitution' | 'deletion' | 'insertion';
+  expected: string | null;
+  recognized: string | null;
+  /** L1 interference pattern explaining the error, if any */
+  reason?: string;
+}
+
+export interface SessionScoreSpeechResponse {
+  /** Response recorded for the attempt */
+  responseId: string;
+  correct: boolean;
+  /** Phoneme accuracy (0-1) */
+  accuracy: number;
+  expected: string[];
+  recognized: string[];
+  errors: PhonemeErrorInfo[];
+  recognizer: string;
+  thetaSpeaking: number;
+}
+
+export interface SessionSpeechStatusResponse {
+  /** Whether a speech recognizer is configured */
+  available: boolean;
+  recognizer: string | null;
+}
+
 // -----------------------------------------------------------------------------
 // Queue IPC Types
 // -----------------------------------------------------------------------------
@@ -371,14 +587,50 @@ export interface ObjectGetMasteryResponse {
   }>;
 }
 
+/**
+ * Options for importing a flashcard deck file (Anki .apkg, CSV, TSV).
+ * Column indices are zero-based and only apply to delimited files.
+ */
+export interface DeckImportOptions {
+  format?: 'apkg' | 'csv' | 'tsv';
+  type?: LanguageObjectType;
+  delimiter?: string;
+  hasHeader?: boolean;
+  frontColumn?: number;
+  backColumn?: number;
+  tagsColumn?: number;
+}
+
+export interface DeckImportResult {
+  imported: number;
+  /** Imported objects whose MasteryState was seeded from review history */
+  withHistory: number;
+  skipped: number;
+  errors: string[];
+}
+
 // -----------------------------------------------------------------------------
 // User IPC Types
 // -----------------------------------------------------------------------------
 
-// Note: UserSettings and UserFREWeights are defined in core/types.ts
+// Note: UserSettings, UserFREWeights and the AI provider settings are defined in core/types.ts
 // Re-export them here for convenience
-import type { UserSettings, UserFREWeights } from '../core/types';
-export type { UserSettings, UserFREWeights };
+import type {
+  UserSettings,
+  UserFREWeights,
+  AICapability,
+  AIProviderKind,
+  AIProviderSettings,
+  AIProviderSettingsMap,
+} from '../core/types';
+export type {
+  UserSettings,
+  UserFREWeights,
+  AICapability,
+  AIProviderKind,
+  AIProviderSettings,
+  AIProviderSettingsMap,
+};
 
 export interface UserUpdateSettingsRequest {
   settings: Partial<import('../core/types').UserSettings>;
@@ -393,6 +645,52 @@ export interface UserGetThetaResponse {
   };
 }
 
+/**
+ * Log-loss / calibration RMSE of FSRS recall predictions on the user's history.
+ */
+export interface FSRSCalibrationSummary {
+  logLoss: number;
+  rmse: number;
+  sampleCount: number;
+}
+
+export interface FSRSParametersResponse {
+  weights: number[];
+  /** False while the user is on the default weights */
+  personalized: boolean;
+  optimizedAt: Date | null;
+  calibration: { before: FSRSCalibrationSummary; after: FSRSCalibrationSummary } | null;
+}
+
+export interface FSRSOptimizeResponse {
+  saved: boolean;
+  improved: boolean;
+  /** Why fitting was skipped (e.g. not enough history) */
+  reason?: string;
+  weights: number[];
+  before: FSRSCalibrationSummary;
+  after: FSRSCalibrationSummary;
+}
+
+/**
+ * Review workload implied by one target retention
+ */
+export interface ReviewLoadSummary {
+  targetRetention: number;
+  /** Steady-state reviews per day */
+  dailyReviews: number;
+  /** Reviewed items due within the horizon */
+  dueInHorizon: number;
+  averageIntervalDays: number;
+}
+
+export interface ReviewLoadPreviewResponse {
+  current: ReviewLoadSummary;
+  proposed: ReviewLoadSummary;
+  reviewedItems: number;
+  horizonDays: number;
+}
+
 // -----------------------------------------------------------------------------
 // Analytics IPC Types
 // -----------------------------------------------------------------------------
@@ -452,6 +750,81 @@ export interface AnalyticsGetHistoryResponse {
   total: number;
 }
 
+export interface AnalyticsGetDistractorsRequest {
+  goalId: string;
+  limit?: number;
+}
+
+/**
+ * Generation strategy behind an MCQ distractor.
+ */
+export type DistractorStrategy =
+  | 'phonological_similar'
+  | 'orthographic_similar'
+  | 'semantic_related'
+  | 'morphological_variant'
+  | 'common_confusion'
+  | 'random_same_pos'
+  | 'translation_false_friend';
+
+export interface DistractorStrategyStats {
+  strategy: DistractorStrategy;
+  distractors: number;
+  retired: number;
+  timesShown: number;
+  timesPicked: number;
+  pickRate: number;
+}
+
+export interface DistractorStatsItem {
+  id: string;
+  objectId: string;
+  objectContent: string;
+  content: string;
+  strategy: DistractorStrategy;
+  /** Component a pick counts as an error of */
+  component: ComponentType;
+  timesShown: number;
+  timesPicked: number;
+  pickRate: number;
+  retiredAt: Date | null;
+}
+
+export interface AnalyticsGetDistractorsResponse {
+  goalId: string;
+  totals: { distractors: number; retired: number; timesShown: number; timesPicked: number };
+  strategies: DistractorStrategyStats[];
+  /** Distractors learners fall for, most picked first */
+  attractive: DistractorStatsItem[];
+  /** Distractors retired for never being picked, most recent first */
+  retired: DistractorStatsItem[];
+}
+
+export interface AnalyticsGetIntentCalibrationRequest {
+  goalId: string;
+}
+
+export interface IntentCalibrationStats {
+  intent: string;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface AnalyticsGetIntentCalibrationResponse {
+  goalId: string;
+  targetSuccess: number;
+  sampleCount: number;
+  meanPredicted: number;
+  observedRate: number;
+  /** Mean squared error of the predictions (lower is better) */
+  brierScore: number;
+  /** Count-weighted RMSE between predicted and observed success across bins */
+  rmse: number;
+  bins: Array<{ predicted: number; observed: number; count: number }>;
+  byIntent: IntentCalibrationStats[];
+}
+
 // -----------------------------------------------------------------------------
 // Claude API IPC Types
 // -----------------------------------------------------------------------------
@@ -526,30 +899,634 @@ export interface SystemInfoResponse {
   lastBackup: string | null;
 }
 
+/**
+ * The destination is chosen in a save dialog shown by the main process
+ */
 export interface SystemExportDataRequest {
-  format: 'json' | 'csv';
+  format?: 'json';
   includeHistory?: boolean;
   goalIds?: string[];
 }
 
+/**
+ * Row counts per archived table
+ */
+export interface ArchiveTableCounts {
+  users: number;
+  goalSpecs: number;
+  languageObjects: number;
+  masteryStates: number;
+  stageTransitions: number;
+  sessions: number;
+  responses: number;
+  thetaSnapshots: number;
+  collocations: number;
+  errorAnalyses: number;
+  componentErrorStats: number;
+  experimentAssignments: number;
+  milestoneEvents: number;
+  distractorStats: number;
+  propagationLogs: number;
+  sourceDocuments: number;
+  contextSentences: number;
+  contextSentenceObjects: number;
+  glossarySenses: number;
+  userObjectRelationships: number;
+  objectEncounters: number;
+  objectConnections: number;
+  g2pItemParameters: number;
+  g2pThetaProfiles: number;
+  g2pResponses: number;
+  curriculumGoals: number;
+  timeAllocations: number;
+  sharedObjectGoals: number;
+  paretoSolutions: number;
+}
+
 export interface SystemExportDataResponse {
   filePath: string;
   size: number;
+  counts: ArchiveTableCounts;
 }
 
+/**
+ * The archive is chosen in an open dialog shown by the main process
+ */
 export interface SystemImportDataRequest {
-  filePath: string;
-  merge?: boolean;
+  merge?: boolean; // true (default) = merge into existing data, false = replace everything
 }
 
 export interface SystemImportDataResponse {
-  imported: {
-    goals: number;
-    objects: number;
-    sessions: number;
-  };
+  imported: ArchiveTableCounts;
   skipped: number;
   errors: string[];
+  /** Models an archive does not carry; left as they were */
+  excluded: string[];
+}
+
+export type DatabaseBackupReason = 'scheduled' | 'manual' | 'pre-migration' | 'pre-restore';
+
+/**
+ * SQLite snapshot in the backups directory
+ */
+export interface DatabaseBackupInfo {
+  /** File name, used to select the snapshot for restore */
+  id: string;
+  path: string;
+  reason: DatabaseBackupReason;
+  createdAt: Date;
+  size: number;
+  /** SHA-256 of the snapshot file */
+  checksum: string;
+  /** Newest applied migration when the snapshot was taken */
+  migration: string | null;
+  /** False when the file no longer matches its checksum */
+  valid: boolean;
+}
+
+export interface SystemBackupResponse {
+  path: string;
+  timestamp: string;
+  id: string;
+  checksum: string;
+  size: number;
+}
+
+export interface SystemRestoreBackupRequest {
+  backupId: string;
+}
+
+export interface SystemRestoreBackupResponse {
+  restored: DatabaseBackupInfo;
+  /** Snapshot of the replaced database (null if it was unreadable) */
+  safetyBackup: DatabaseBackupInfo | null;
+}
+
+// Milestones
+export type MilestonePriority = 'low' | 'medium' | 'high' | 'critical';
+
+export interface MilestoneRecordData {
+  component?: string;
+  stage?: number;
+  previousStage?: number;
+  count?: number;
+  threshold?: number;
+  streakDays?: number;
+  objectIds?: string[];
+  domain?: string;
+  timeMinutes?: number;
+  sessionId?: string;
+}
+
+export interface MilestoneRecord {
+  id: string;
+  milestoneId: string; // e.g. 'stage_3_to_4', 'streak_7'
+  type: string;
+  priority: MilestonePriority;
+  title: string;
+  description: string;
+  celebrationMessage: string | null;
+  iconId: string | null;
+  pointsAwarded: number;
+  data: MilestoneRecordData;
+  acknowledged: boolean;
+  goalId: string | null;
+  sessionId: string | null;
+  createdAt: Date;
+}
+
+export interface MilestoneHistoryRequest {
+  limit?: number;
+  offset?: number;
+  type?: string;
+  unacknowledgedOnly?: boolean;
+}
+
+export interface MilestoneHistoryResponse {
+  events: MilestoneRecord[];
+  total: number;
+  unacknowledged: number;
+  totalPoints: number;
+}
+
+export interface MilestoneAcknowledgeRequest {
+  ids?: string[]; // omitted = acknowledge all
+}
+
+export interface MilestoneAcknowledgeResponse {
+  acknowledged: number;
+}
+
+// Threshold Experiments (A/B tests of stage thresholds)
+export type ThresholdExperimentMetric =
+  | 'stage_advancement_rate'
+  | 'retention_at_30_days'
+  | 'session_completion_rate';
+
+export interface ThresholdExperimentGroupInput {
+  id: string; // e.g. 'control', 'treatment_a'
+  configId?: string; // built-in config: 'default', 'conservative', 'aggressive', 'research'
+  thresholds?: import('../core/types').StageThresholds; // custom thresholds instead of configId
+  proportion: number; // share of users, all groups sum to 1
+  hypothesis: string;
+}
+
+export interface ThresholdExperimentCreateRequest {
+  name: string;
+  description?: string;
+  primaryMetric: ThresholdExperimentMetric;
+  groups: ThresholdExperimentGroupInput[];
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ThresholdExperiment {
+  id: string;
+  name: string;
+  description: string;
+  primaryMetric: ThresholdExperimentMetric;
+  groups: Array<{ id: string; configId: string; proportion: number; hypothesis: string }>;
+  startDate: Date;
+  endDate: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export interface ThresholdExperimentRetention {
+  reviews: number;
+  recalled: number;
+  rate: number;
+}
+
+export interface ThresholdExperimentComparison {
+  difference: number; // group rate - control rate
+  zScore: number;
+  pValue: number;
+}
+
+export interface ThresholdExperimentGroupResult {
+  groupId: string;
+  configId: string;
+  users: number;
+  transitions: number;
+  advancements: number;
+  demotions: number;
+  advancementRate: number;
+  retention: ThresholdExperimentRetention;
+  retention30d: ThresholdExperimentRetention;
+  timeToMasteryDays: { count: number; mean: number; median: number };
+  vsControl: {
+    retention: ThresholdExperimentComparison;
+    retention30d: ThresholdExperimentComparison;
+  } | null;
+}
+
+export interface ThresholdExperimentResults {
+  experiment: ThresholdExperiment;
+  controlGroupId: string;
+  groups: ThresholdExperimentGroupResult[];
+}
+
+export interface ThresholdAssignmentResponse {
+  configId: string;
+  configName: string;
+  experimentId: string | null;
+  groupId: string | null;
+}
+
+// =============================================================================
+// Study Planner Types
+// =============================================================================
+
+export type StudyAllocationPreference =
+  | 'balanced'
+  | 'deadline_focused'
+  | 'progress_focused'
+  | 'synergy_focused'
+  | 'custom';
+
+export interface StudyPlanRequest {
+  weeklyMinutes: number;
+  preference?: StudyAllocationPreference;
+  deadlines?: Record<string, string | null>; // goalId -> ISO date, null clears
+  weights?: Record<string, number>; // goalId -> importance (0-1)
+}
+
+export interface StudyGoalAllocation {
+  goalId: string;
+  curriculumGoalId: string;
+  name: string;
+  domain: string;
+  deadline: Date | null;
+  weight: number;
+  fraction: number; // share of the weekly budget (0-1)
+  plannedMinutes: number;
+  actualMinutes: number; // practiced this week
+  expectedProgress: number;
+  deadlineRisk: number; // 0-1
+  progress: number; // mastery-based progress (0-1)
+}
+
+export interface StudyPlan {
+  weekStart: Date;
+  weeklyMinutes: number;
+  preference: StudyAllocationPreference;
+  allocations: StudyGoalAllocation[];
+  frontier: Array<{
+    allocation: Record<string, number>;
+    expectedProgress: Record<string, number>;
+    dominated: boolean;
+    selected: boolean;
+  }>;
+  sharedObjectCount: number;
+  createdAt: Date;
+}
+
+export interface InterleavedQueueItem {
+  objectId: string;
+  goalId: string;
+  content: string;
+  type: string;
+  masteryStage: MasteryStage;
+  finalScore: number;
+  isShared: boolean;
+  benefitingGoals: string[];
+}
+
+export interface InterleavedSessionQueue {
+  allocation: Record<string, number>;
+  primaryGoalId: string | null;
+  items: InterleavedQueueItem[];
+}
+
+// =============================================================================
+// Word Explorer Types
+// =============================================================================
+
+export type ExplorerObjectStatus = 'active' | 'suspended' | 'buried';
+export type ExplorerDueWindow = 'now' | 'today' | 'week';
+export type ExplorerDifficultyBand = 'easy' | 'medium' | 'hard';
+export type ExplorerSort = 'alphabetical' | 'priority' | 'frequency' | 'mastery' | 'recency';
+export type ExplorerAction = 'suspend' | 'unsuspend' | 'bury' | 'unbury' | 'reset';
+
+export interface ExplorerSearchRequest {
+  goalId: string;
+  query?: string;
+  types?: string[];
+  stages?: MasteryStage[];
+  due?: ExplorerDueWindow;
+  domain?: string;
+  difficulty?: ExplorerDifficultyBand;
+  status?: ExplorerObjectStatus;
+  sort?: ExplorerSort;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ExplorerItem {
+  id: string;
+  content: string;
+  type: string;
+  stage: MasteryStage;
+  nextReview: Date | null;
+  difficulty: number; // IRT logits
+  difficultyBand: ExplorerDifficultyBand;
+  domains: string[];
+  priority: number;
+  status: ExplorerObjectStatus;
+  buriedUntil: Date | null;
+}
+
+export interface ExplorerSearchResponse {
+  items: ExplorerItem[];
+  totalCount: number;
+  facets: {
+    types: Record<string, number>;
+    stages: Record<number, number>;
+    due: Record<ExplorerDueWindow, number>;
+    domains: Record<string, number>;
+    difficulty: Record<ExplorerDifficultyBand, number>;
+    status: Record<ExplorerObjectStatus, number>;
+  };
+}
+
+export interface ExplorerObjectDetail {
+  item: ExplorerItem;
+  frequency: number;
+  irtDiscrimination: number;
+  card: {
+    state: FSRSState;
+    difficulty: number;
+    stability: number;
+    reps: number;
+    lapses: number;
+    lastReview: Date | null;
+    nextReview: Date | null;
+    retrievability: number;
+  } | null;
+  accuracy: { cueFree: number; cueAssisted: number; exposureCount: number } | null;
+  automatization: { level: number; category: string; meanResponseTimeMs: number | null } | null;
+  stageHistory: Array<{ fromStage: number; toStage: number; trigger: string; createdAt: Date }>;
+  collocations: Array<{ objectId: string; content: string; pmi: number }>;
+  morphology: {
+    root: string;
+    prefixes: string[];
+    suffixes: string[];
+    family: Array<{ objectId: string; content: string; stage: MasteryStage }>;
+  };
+}
+
+export interface ExplorerEditRequest {
+  objectId: string;
+  content?: string;
+  irtDifficulty?: number;
+  frequency?: number;
+  stage?: MasteryStage;
+  nextReview?: Date | null;
+}
+
+// =============================================================================
+// Word Network Types
+// =============================================================================
+
+export type WordRelation = 'collocation' | 'semantic' | 'morphological' | 'phonological' | 'syntactic';
+
+export interface WordGraphNode {
+  id: string;
+  label: string;
+  type: string;
+  stage: MasteryStage;
+  /** Hops from the center object */
+  depth: number;
+  frequency: number;
+  status: ExplorerObjectStatus;
+}
+
+export interface WordGraphEdge {
+  source: string;
+  target: string;
+  relation: WordRelation;
+  /** Finer relation, e.g. 'synonym' for semantic edges */
+  label: string;
+  /** Strength for display (0-1) */
+  weight: number;
+  pmi: number | null;
+}
+
+export interface WordNeighborhood {
+  centerId: string;
+  goalId: string;
+  nodes: WordGraphNode[];
+  edges: WordGraphEdge[];
+  truncated: boolean;
+}
+
+export interface NetworkNeighborhoodOptions {
+  depth?: number;
+  maxNodes?: number;
+  relations?: WordRelation[];
+}
+
+export interface ClusterSessionQueue {
+  centerObjectId: string;
+  items: InterleavedQueueItem[];
+}
+
+// =============================================================================
+// Automatization Types
+// =============================================================================
+
+export type AutomatizationCategory = 'declarative' | 'procedural' | 'automatic' | 'fully_automatic';
+
+export interface AutomatizationDetail {
+  objectId: string;
+  level: number;
+  category: AutomatizationCategory;
+  meanResponseTimeMs: number | null;
+  responseTimeCv: number | null;
+  confidence: number;
+  nObservations: number;
+  trend: number;
+  maintainsAccuracyUnderPressure: boolean | null;
+  fluency: {
+    meanResponseTime: number;
+    responseTimeSD: number;
+    coefficientOfVariation: number;
+    automaticityRatio: number;
+    fastestDecileRT: number;
+    rtTrend: number;
+    fluencyScore: number;
+    fluencyCategory: string;
+  };
+  suggestions: string[];
+}
+
+export interface SpeedRoundItem {
+  objectId: string;
+  goalId: string;
+  content: string;
+  type: string;
+  masteryStage: MasteryStage;
+  automatizationLevel: number;
+  meanResponseTimeMs: number | null;
+}
+
+export interface SpeedRound {
+  goalId: string;
+  items: SpeedRoundItem[];
+  /** Answer deadline: shrinks after on-time correct answers, relaxes after misses */
+  deadline: { startMs: number; minMs: number; maxMs: number; shrink: number; relax: number };
+}
+
+// =============================================================================
+// User Graph Types
+// =============================================================================
+
+export type EncounterCategory = 'interpretation' | 'production';
+
+export type EncounterModality = 'visual' | 'auditory' | 'mixed';
+
+export interface ExposureFinding {
+  kind: 'never_produced' | 'never_interpreted' | 'mostly_interpretation' | 'mostly_production' | 'modality_gap';
+  modality?: EncounterModality;
+  message: string;
+}
+
+export interface ObjectExposure {
+  objectId: string;
+  totalEncounters: number;
+  interpretationEncounters: number;
+  productionEncounters: number;
+  interpretationSuccessRate: number;
+  productionSuccessRate: number;
+  modalityEncounters: Record<EncounterModality, number>;
+  /** 0 = all production, 1 = all interpretation */
+  interpretationRatio: number;
+  /** 0 = single modality, 1 = balanced */
+  modalityBalance: number;
+  knowledgeStrength: number;
+  /** Modalities the object's goal trains */
+  trainedModalities: EncounterModality[];
+  recommendedCategory: EncounterCategory | null;
+  recommendedModality: EncounterModality | null;
+  findings: ExposureFinding[];
+  recent: Array<{
+    createdAt: Date;
+    taskCategory: EncounterCategory;
+    taskType: string;
+    taskFormat: string;
+    modality: EncounterModality;
+    successful: boolean;
+  }>;
+}
+
+// =============================================================================
+// Mastery Propagation Types
+// =============================================================================
+
+export type PropagationRelationType = 'morphological' | 'collocational';
+
+export interface PropagationLogEntry {
+  id: string;
+  createdAt: Date;
+  sourceObjectId: string;
+  sourceContent: string;
+  targetObjectId: string;
+  targetContent: string;
+  relationType: PropagationRelationType;
+  magnitude: number;
+  /** Applied IRT difficulty change (negative = easier) */
+  difficultyDelta: number;
+  /** Applied FSRS stability boost in days */
+  stabilityDelta: number;
+}
+
+export interface GoalPropagationLog {
+  goalId: string;
+  enabled: boolean;
+  entries: PropagationLogEntry[];
+}
+
+// =============================================================================
+// Corpus Pack Types
+// =============================================================================
+
+/**
+ * An offline frequency list / dictionary available to the corpus pipeline
+ */
+export interface CorpusPackInfo {
+  id: string;
+  name: string;
+  description: string | null;
+  language: string;
+  version: number;
+  /** Corpus sources the pack serves; empty for general packs */
+  sources: string[];
+  domains: string[];
+  entryCount: number;
+  /** Entries with a definition */
+  definitions: number;
+  /** Entries with an IPA transcription */
+  pronunciations: number;
+  /** Native languages the pack has translations for */
+  translationLanguages: string[];
+  /** Shipped with the app (cannot be removed) */
+  bundled: boolean;
+}
+
+// =============================================================================
+// Glossary Types
+// =============================================================================
+
+export type GlossarySource = 'dictionary' | 'provider' | 'user';
+
+/**
+ * One sense of a language object: definition, native-language translation
+ * and example usage. Sense 0 is the primary sense.
+ */
+export interface GlossarySense {
+  id: string;
+  objectId: string;
+  senseIndex: number;
+  partOfSpeech: string | null;
+  definition: string | null;
+  translation: string | null;
+  /** Language of the translation (ISO 639-1) */
+  l1: string | null;
+  examples: string[];
+  source: GlossarySource;
+  updatedAt: Date;
+}
+
+/**
+ * Fields of a sense the learner adds or edits
+ */
+export interface GlossarySenseInput {
+  partOfSpeech?: string | null;
+  definition?: string | null;
+  translation?: string | null;
+  l1?: string | null;
+  examples?: string[];
+}
+
+/**
+ * The gloss shown with a task's hints and feedback
+ */
+export interface Gloss {
+  partOfSpeech: string | null;
+  definition: string | null;
+  translation: string | null;
+  example: string | null;
+}
+
+/**
+ * Result of filling a goal's glossary
+ */
+export interface GlossaryFillResult {
+  missing: number;
+  fromDictionary: number;
+  fromProvider: number;
+  unresolved: number;
 }
 
 // =============================================================================
@@ -586,6 +1563,10 @@ export interface IPCHandlerMap {
     request: { id: string; active: boolean };
     response: GoalSpec;
   };
+  [IPC_CHANNELS.GOAL_GET_GRAMMAR_ROADMAP]: {
+    request: GoalGrammarRoadmapRequest;
+    response: GoalGrammarRoadmap;
+  };
 
   // Sessions
   [IPC_CHANNELS.SESSION_START]: {
@@ -598,7 +1579,7 @@ export interface IPCHandlerMap {
   };
   [IPC_CHANNELS.SESSION_GET_NEXT_TASK]: {
     request: { sessionId: string };
-    response: Task | null;
+    response: SessionNextTask | null;
   };
   [IPC_CHANNELS.SESSION_SUBMIT_RESPONSE]: {
     request: SessionSubmitResponseRequest;
@@ -616,6 +1597,18 @@ export interface IPCHandlerMap {
     request: SessionListRequest;
     response: SessionListResponse;
   };
+  [IPC_CHANNELS.SESSION_SCORE_SPEECH]: {
+    request: SessionScoreSpeechRequest;
+    response: SessionScoreSpeechResponse;
+  };
+  [IPC_CHANNELS.SESSION_SPEECH_STATUS]: {
+    request: void;
+    response: SessionSpeechStatusResponse;
+  };
+  [IPC_CHANNELS.SESSION_GENERATE_TASK]: {
+    request: SessionGenerateTaskRequest;
+    response: SessionGeneratedTask;
+  };
 
   // Queue
   [IPC_CHANNELS.QUEUE_GET]: {
@@ -661,8 +1654,13 @@ export interface IPCHandlerMap {
     response: { deleted: boolean };
   };
   [IPC_CHANNELS.OBJECT_IMPORT]: {
-    request: { goalId: string; objects: Array<Partial<LanguageObject> & { content: string }> };
-    response: { imported: number; errors: string[] };
+    request: {
+      goalId: string;
+      objects?: Array<Partial<LanguageObject> & { content: string }>;
+      filePath?: string;
+      deck?: DeckImportOptions;
+    };
+    response: { imported: number; errors: string[]; withHistory?: number; skipped?: number };
   };
 
   // Agent
@@ -723,6 +1721,14 @@ export interface IPCHandlerMap {
     request: AnalyticsGetHistoryRequest;
     response: AnalyticsGetHistoryResponse;
   };
+  [IPC_CHANNELS.ANALYTICS_GET_DISTRACTORS]: {
+    request: AnalyticsGetDistractorsRequest;
+    response: AnalyticsGetDistractorsResponse;
+  };
+  [IPC_CHANNELS.ANALYTICS_GET_INTENT_CALIBRATION]: {
+    request: AnalyticsGetIntentCalibrationRequest;
+    response: AnalyticsGetIntentCalibrationResponse;
+  };
 
   // Claude
   [IPC_CHANNELS.CLAUDE_GENERATE_TASK]: {
@@ -763,15 +1769,171 @@ export interface IPCHandlerMap {
   };
   [IPC_CHANNELS.SYSTEM_EXPORT_DATA]: {
     request: SystemExportDataRequest;
-    response: SystemExportDataResponse;
+    response: SystemExportDataResponse | null; // null when the dialog is cancelled
   };
   [IPC_CHANNELS.SYSTEM_IMPORT_DATA]: {
     request: SystemImportDataRequest;
-    response: SystemImportDataResponse;
+    response: SystemImportDataResponse | null; // null when the dialog is cancelled
   };
   [IPC_CHANNELS.SYSTEM_BACKUP]: {
     request: void;
-    response: { path: string; timestamp: string };
+    response: SystemBackupResponse;
+  };
+  [IPC_CHANNELS.SYSTEM_LIST_BACKUPS]: {
+    request: void;
+    response: DatabaseBackupInfo[];
+  };
+  [IPC_CHANNELS.SYSTEM_RESTORE_BACKUP]: {
+    request: SystemRestoreBackupRequest;
+    response: SystemRestoreBackupResponse;
+  };
+
+  // Milestones
+  [IPC_CHANNELS.MILESTONE_GET_HISTORY]: {
+    request: MilestoneHistoryRequest;
+    response: MilestoneHistoryResponse;
+  };
+  [IPC_CHANNELS.MILESTONE_ACKNOWLEDGE]: {
+    request: MilestoneAcknowledgeRequest;
+    response: MilestoneAcknowledgeResponse;
+  };
+
+  // Threshold Experiments
+  [IPC_CHANNELS.EXPERIMENT_LIST]: {
+    request: { activeOnly?: boolean };
+    response: ThresholdExperiment[];
+  };
+  [IPC_CHANNELS.EXPERIMENT_CREATE]: {
+    request: ThresholdExperimentCreateRequest;
+    response: ThresholdExperiment;
+  };
+  [IPC_CHANNELS.EXPERIMENT_END]: {
+    request: { experimentId: string };
+    response: ThresholdExperiment;
+  };
+  [IPC_CHANNELS.EXPERIMENT_GET_RESULTS]: {
+    request: { experimentId: string };
+    response: ThresholdExperimentResults;
+  };
+  [IPC_CHANNELS.EXPERIMENT_GET_ASSIGNMENT]: {
+    request: void;
+    response: ThresholdAssignmentResponse;
+  };
+
+  // Study Planner
+  [IPC_CHANNELS.PLANNER_GET_PLAN]: {
+    request: void;
+    response: StudyPlan | null;
+  };
+  [IPC_CHANNELS.PLANNER_CREATE_PLAN]: {
+    request: StudyPlanRequest;
+    response: StudyPlan;
+  };
+  [IPC_CHANNELS.PLANNER_GET_SESSION_QUEUE]: {
+    request: { sessionSize?: number; newItemRatio?: number };
+    response: InterleavedSessionQueue;
+  };
+
+  // Word Explorer
+  [IPC_CHANNELS.EXPLORER_SEARCH]: {
+    request: ExplorerSearchRequest;
+    response: ExplorerSearchResponse;
+  };
+  [IPC_CHANNELS.EXPLORER_GET_OBJECT]: {
+    request: { objectId: string };
+    response: ExplorerObjectDetail;
+  };
+  [IPC_CHANNELS.EXPLORER_APPLY_ACTION]: {
+    request: { objectId: string; action: ExplorerAction };
+    response: ExplorerObjectDetail;
+  };
+  [IPC_CHANNELS.EXPLORER_EDIT_OBJECT]: {
+    request: ExplorerEditRequest;
+    response: ExplorerObjectDetail;
+  };
+
+  // Word Network
+  [IPC_CHANNELS.NETWORK_GET_NEIGHBORHOOD]: {
+    request: { objectId: string } & NetworkNeighborhoodOptions;
+    response: WordNeighborhood;
+  };
+  [IPC_CHANNELS.NETWORK_GET_CLUSTER_QUEUE]: {
+    request: { objectId: string; sessionSize?: number };
+    response: ClusterSessionQueue;
+  };
+
+  // Automatization
+  [IPC_CHANNELS.AUTOMATIZATION_GET_PROFILE]: {
+    request: { objectId: string };
+    response: AutomatizationDetail;
+  };
+  [IPC_CHANNELS.AUTOMATIZATION_GET_SPEED_ROUND]: {
+    request: { goalId: string; size?: number };
+    response: SpeedRound;
+  };
+
+  // User Graph
+  [IPC_CHANNELS.GRAPH_GET_EXPOSURE]: {
+    request: { objectId: string };
+    response: ObjectExposure;
+  };
+
+  // Mastery Propagation
+  [IPC_CHANNELS.PROPAGATION_GET_LOG]: {
+    request: { goalId: string; limit?: number };
+    response: GoalPropagationLog;
+  };
+  [IPC_CHANNELS.PROPAGATION_SET_ENABLED]: {
+    request: { goalId: string; enabled: boolean };
+    response: { enabled: boolean };
+  };
+
+  // Corpus Packs
+  [IPC_CHANNELS.CORPUS_LIST_PACKS]: {
+    request: void;
+    response: CorpusPackInfo[];
+  };
+  [IPC_CHANNELS.CORPUS_INSTALL_PACK]: {
+    request: { filePath: string };
+    response: CorpusPackInfo;
+  };
+  [IPC_CHANNELS.CORPUS_REMOVE_PACK]: {
+    request: { packId: string };
+    response: { removed: boolean };
+  };
+
+  // Glossary
+  [IPC_CHANNELS.GLOSSARY_GET]: {
+    request: { objectId: string };
+    response: GlossarySense[];
+  };
+  [IPC_CHANNELS.GLOSSARY_ADD_SENSE]: {
+    request: { objectId: string; sense: GlossarySenseInput };
+    response: GlossarySense[];
+  };
+  [IPC_CHANNELS.GLOSSARY_UPDATE_SENSE]: {
+    request: { senseId: string; sense: GlossarySenseInput };
+    response: GlossarySense[];
+  };
+  [IPC_CHANNELS.GLOSSARY_DELETE_SENSE]: {
+    request: { senseId: string };
+    response: GlossarySense[];
+  };
+  [IPC_CHANNELS.GLOSSARY_MAKE_PRIMARY]: {
+    request: { senseId: string };
+    response: GlossarySense[];
+  };
+  [IPC_CHANNELS.GLOSSARY_IMPORT]: {
+    request: { objectId: string };
+    response: GlossarySense[];
+  };
+  [IPC_CHANNELS.GLOSSARY_GENERATE]: {
+    request: { objectId: string };
+    response: GlossarySense[];
+  };
+  [IPC_CHANNELS.GLOSSARY_FILL_GOAL]: {
+    request: { goalId: string; useProvider?: boolean; limit?: number };
+    response: GlossaryFillResult;
   };
 }
 
@@ -823,6 +1985,7 @@ export interface GoalAPI {
   list: (includeInactive?: boolean) => Promise<GoalSpec[]>;
   update: (data: GoalUpdateRequest) => Promise<GoalSpec>;
   delete: (id: string, hard?: boolean) => Promise<void>;
+  getGrammarRoadmap: (goalId: string, targetLevel?: CEFRLevel) => Promise<GoalGrammarRoadmap>;
 }
 
 /**
@@ -835,6 +1998,7 @@ export interface ObjectAPI {
   update: (data: { id: string } & Partial<LanguageObject>) => Promise<LanguageObject>;
   delete: (id: string) => Promise<void>;
   import: (goalId: string, objects: Partial<LanguageObject>[]) => Promise<{ imported: number; errors: string[] }>;
+  importDeck: (goalId: string, filePath: string, options?: DeckImportOptions) => Promise<DeckImportResult>;
 }
 
 /**
@@ -844,8 +2008,11 @@ export interface SessionAPI {
   start: (goalId: string, sessionType: SessionMode, targetDuration?: number) => Promise<{ sessionId: string; firstTask: Task | null }>;
   end: (sessionId: string) => Promise<SessionSummary>;
   getCurrent: (goalId: string) => Promise<SessionState | null>;
-  recordResponse: (data: { sessionId: string; objectId: string; correct: boolean; cueLevel: number; responseTimeMs: number; errorComponents?: string[] }) => Promise<{ feedback: ResponseEvaluation; nextTask: Task | null }>;
+  recordResponse: (data: { sessionId: string; objectId: string; taskId: string; cueLevel: number; responseTimeMs: number; taskType?: TaskType; responseContent?: string }) => Promise<{ feedback: ResponseEvaluation; nextTask: Task | null; grading?: AnswerGradingInfo }>;
+  generateTask: (sessionId: string, objectId: string) => Promise<SessionGeneratedTask>;
   getHistory: (goalId: string, options?: { limit?: number; offset?: number }) => Promise<SessionSummary[]>;
+  scoreSpeech: (data: SessionScoreSpeechRequest) => Promise<SessionScoreSpeechResponse>;
+  getSpeechStatus: () => Promise<SessionSpeechStatusResponse>;
 }
 
 /**
@@ -872,6 +2039,8 @@ export interface AnalyticsAPI {
   getProgress: (goalId: string, timeRange?: 'day' | 'week' | 'month' | 'all') => Promise<{ total: number; mastered: number; learning: number; accuracy: number; streak: number }>;
   getBottlenecks: (goalId: string, minResponses?: number) => Promise<BottleneckAnalysis>;
   getSessionStats: (goalId: string, days?: number) => Promise<{ sessions: number; totalTime: number; averageAccuracy: number }>;
+  getDistractors: (goalId: string, limit?: number) => Promise<AnalyticsGetDistractorsResponse>;
+  getIntentCalibration: (goalId: string) => Promise<AnalyticsGetIntentCalibrationResponse>;
 }
 
 /**
@@ -882,6 +2051,10 @@ export interface ProfileAPI {
   update: (data: Partial<User>) => Promise<User>;
   getSettings: () => Promise<UserSettings>;
   updateSettings: (settings: Partial<UserSettings>) => Promise<UserSettings>;
+  getFSRSParameters: () => Promise<FSRSParametersResponse>;
+  optimizeFSRS: () => Promise<FSRSOptimizeResponse>;
+  resetFSRS: () => Promise<FSRSParametersResponse>;
+  previewReviewLoad: (targetRetention: number) => Promise<ReviewLoadPreviewResponse>;
 }
 
 /**
@@ -965,6 +2138,49 @@ export interface OnboardingResult {
   purpose: string;
 }
 
+export type PlacementComponent = 'PHON' | 'MORPH' | 'LEX' | 'SYNT' | 'PRAG';
+
+/**
+ * Placement test item as shown to the learner
+ */
+export interface PlacementQuestion {
+  id: string;
+  component: PlacementComponent;
+  content: string;
+  prompt: string;
+  options: string[];
+}
+
+export interface PlacementAnswer {
+  itemId: string;
+  answer: string;
+  responseTimeMs: number;
+}
+
+export interface PlacementEstimate {
+  thetaGlobal: number;
+  standardError: number;
+  estimatedCEFR: 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+  components: Record<PlacementComponent, { theta: number; standardError: number; itemsAnswered: number }>;
+}
+
+/**
+ * Adaptive placement test step: the next item, or done
+ */
+export interface PlacementStep {
+  done: boolean;
+  itemsAnswered: number;
+  maxItems: number;
+  estimate: PlacementEstimate;
+  nextItem: PlacementQuestion | null;
+}
+
+export interface PlacementResult extends PlacementEstimate {
+  sessionId: string;
+  itemsAnswered: number;
+  correctCount: number;
+}
+
 /**
  * Onboarding API for new user setup
  */
@@ -979,6 +2195,8 @@ export interface OnboardingAPI {
     hasActiveGoal: boolean;
     activeGoal: GoalSpec | null;
   } | null>;
+  placementNext: (answers: PlacementAnswer[]) => Promise<PlacementStep>;
+  placementComplete: (goalId: string, answers: PlacementAnswer[]) => Promise<PlacementResult>;
 }
 
 /**
@@ -1027,6 +2245,49 @@ export interface PopulationStatus {
   lastUpdated: Date | null;
 }
 
+/**
+ * Format of an uploaded corpus document
+ */
+export type DocumentFormat =
+  | 'text'
+  | 'markdown'
+  | 'html'
+  | 'pdf'
+  | 'docx'
+  | 'epub'
+  | 'srt'
+  | 'vtt'
+  | 'rtf';
+
+/**
+ * Per-document extraction report for corpus uploads
+ */
+export interface DocumentExtractionReport {
+  filename: string;
+  format: DocumentFormat;
+  quality: 'good' | 'fair' | 'poor' | 'failed';
+  characters: number;
+  words: number;
+  segments: number;
+  /** Share of alphabetic tokens that look like real words (0-1) */
+  wordLikeRatio: number;
+  /** Whether the text was used for vocabulary extraction */
+  used: boolean;
+  warnings: string[];
+}
+
+/**
+ * Result of uploading documents to a goal's corpus
+ */
+export interface DocumentUploadResult {
+  documentsProcessed: number;
+  tokensExtracted: number;
+  vocabularyInserted: number;
+  /** Sentences kept as authentic practice contexts */
+  sentencesStored: number;
+  documents: DocumentExtractionReport[];
+}
+
 /**
  * Corpus sources API
  */
@@ -1050,7 +2311,10 @@ export interface CorpusAPI {
   uploadDocuments: (
     goalId: string,
     documents: Array<{ filename: string; content: string; mimeType: string }>
-  ) => Promise<{ documentsProcessed: number; tokensExtracted: number; vocabularyInserted: number }>;
+  ) => Promise<DocumentUploadResult>;
+  listPacks: () => Promise<CorpusPackInfo[]>;
+  installPack: (filePath: string) => Promise<CorpusPackInfo>;
+  removePack: (packId: string) => Promise<{ removed: boolean }>;
 }
 
 /**
@@ -1104,6 +2368,102 @@ export interface SyncAPI {
   checkConnectivity: () => Promise<{ online: boolean }>;
 }
 
+/**
+ * Data export, import and backup API
+ */
+export interface SystemAPI {
+  exportData: (options?: SystemExportDataRequest) => Promise<SystemExportDataResponse | null>;
+  importData: (merge?: boolean) => Promise<SystemImportDataResponse | null>;
+  backup: () => Promise<SystemBackupResponse>;
+  listBackups: () => Promise<DatabaseBackupInfo[]>;
+  restoreBackup: (backupId: string) => Promise<SystemRestoreBackupResponse>;
+}
+
+/**
+ * Milestone history and live achievement notifications
+ */
+export interface MilestoneAPI {
+  getHistory: (options?: MilestoneHistoryRequest) => Promise<MilestoneHistoryResponse>;
+  acknowledge: (ids?: string[]) => Promise<MilestoneAcknowledgeResponse>;
+  /** Subscribe to milestones as they are earned; returns an unsubscribe function */
+  onAchieved: (callback: (milestones: MilestoneRecord[]) => void) => () => void;
+}
+
+/**
+ * Stage-threshold A/B experiment API
+ */
+export interface ExperimentAPI {
+  list: (activeOnly?: boolean) => Promise<ThresholdExperiment[]>;
+  create: (data: ThresholdExperimentCreateRequest) => Promise<ThresholdExperiment>;
+  end: (experimentId: string) => Promise<ThresholdExperiment>;
+  getResults: (experimentId: string) => Promise<ThresholdExperimentResults>;
+  getAssignment: () => Promise<ThresholdAssignmentResponse>;
+}
+
+/**
+ * Multi-goal study planner API
+ */
+export interface PlannerAPI {
+  getPlan: () => Promise<StudyPlan | null>;
+  createPlan: (request: StudyPlanRequest) => Promise<StudyPlan>;
+  getSessionQueue: (options?: { sessionSize?: number; newItemRatio?: number }) => Promise<InterleavedSessionQueue>;
+}
+
+/**
+ * Word Explorer API (faceted browsing and manual item control)
+ */
+export interface ExplorerAPI {
+  search: (request: ExplorerSearchRequest) => Promise<ExplorerSearchResponse>;
+  getObject: (objectId: string) => Promise<ExplorerObjectDetail>;
+  applyAction: (objectId: string, action: ExplorerAction) => Promise<ExplorerObjectDetail>;
+  editObject: (request: ExplorerEditRequest) => Promise<ExplorerObjectDetail>;
+}
+
+/**
+ * Word Network API (object neighborhoods and cluster practice)
+ */
+export interface NetworkAPI {
+  getNeighborhood: (objectId: string, options?: NetworkNeighborhoodOptions) => Promise<WordNeighborhood>;
+  getClusterQueue: (objectId: string, sessionSize?: number) => Promise<ClusterSessionQueue>;
+}
+
+/**
+ * Automatization API (response-time profiles and speed rounds)
+ */
+export interface AutomatizationAPI {
+  getProfile: (objectId: string) => Promise<AutomatizationDetail>;
+  getSpeedRound: (goalId: string, size?: number) => Promise<SpeedRound>;
+}
+
+/**
+ * User Graph API (per-object encounter balance)
+ */
+export interface UserGraphAPI {
+  getExposure: (objectId: string) => Promise<ObjectExposure>;
+}
+
+/**
+ * Mastery Propagation API (progress carried over to related words)
+ */
+export interface PropagationAPI {
+  getLog: (goalId: string, limit?: number) => Promise<GoalPropagationLog>;
+  setEnabled: (goalId: string, enabled: boolean) => Promise<{ enabled: boolean }>;
+}
+
+/**
+ * Glossary API (definitions and native-language translations of objects)
+ */
+export interface GlossaryAPI {
+  get: (objectId: string) => Promise<GlossarySense[]>;
+  addSense: (objectId: string, sense: GlossarySenseInput) => Promise<GlossarySense[]>;
+  updateSense: (senseId: string, sense: GlossarySenseInput) => Promise<GlossarySense[]>;
+  deleteSense: (senseId: string) => Promise<GlossarySense[]>;
+  makePrimary: (senseId: string) => Promise<GlossarySense[]>;
+  importFromDictionaries: (objectId: string) => Promise<GlossarySense[]>;
+  generate: (objectId: string) => Promise<GlossarySense[]>;
+  fillGoal: (goalId: string, options?: { useProvider?: boolean; limit?: number }) => Promise<GlossaryFillResult>;
+}
+
 /**
  * Structured API exposed to renderer via contextBridge.
  * This provides a clean, organized interface for renderer code.
@@ -1120,6 +2480,16 @@ export interface LogosAPI {
   corpus: CorpusAPI;
   sync: SyncAPI;
   onboarding: OnboardingAPI;
+  system: SystemAPI;
+  milestones: MilestoneAPI;
+  experiments: ExperimentAPI;
+  planner: PlannerAPI;
+  explorer: ExplorerAPI;
+  network: NetworkAPI;
+  automatization: AutomatizationAPI;
+  graph: UserGraphAPI;
+  propagation: PropagationAPI;
+  glossary: GlossaryAPI;
   app: AppAPI;
 }
 
@@ -1163,6 +2533,7 @@ export const IPC_EVENTS = {
   REVIEW_REMINDER: 'event:notification:review-reminder',
   GOAL_MILESTONE: 'event:notification:goal-milestone',
   STREAK_UPDATE: 'event:notification:streak-update',
+  MILESTONE_ACHIEVED: 'event:notification:milestone-achieved',
 
   // System events
   CLAUDE_STATUS_CHANGE: 'event:system:claude-status',
@@ -1207,6 +2578,11 @@ export interface IPCEventPayloads {
     streakDays: number;
     isNewRecord: boolean;
   };
+  [IPC_EVENTS.MILESTONE_ACHIEVED]: {
+    userId: string;
+    sessionId: string | null;
+    milestones: MilestoneRecord[];
+  };
   [IPC_EVENTS.CLAUDE_STATUS_CHANGE]: {
     available: boolean;
     reason?: string;